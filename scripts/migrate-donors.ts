@@ -0,0 +1,78 @@
+/**
+ * Script to link existing donations to donor profiles
+ *
+ * - Creates a donor profile for every distinct email / phone number, using
+ *   the same matching rules as new donations
+ * - Links each donation to its profile, oldest first, so a donor's earliest
+ *   details become the profile's
+ *
+ * Safe to run more than once; donations that are already linked are skipped.
+ * Run `npm run db:push` first to create the donors table.
+ *
+ * Run with: npx tsx scripts/migrate-donors.ts
+ */
+
+import 'dotenv/config'
+import { db, donations } from '../src/db'
+import { asc, eq, isNull } from 'drizzle-orm'
+import { findOrCreateDonor } from '../src/lib/donors'
+
+async function migrateDonors() {
+  console.log('🔍 Looking for donations without a donor profile...\n')
+
+  try {
+    const unlinked = await db.query.donations.findMany({
+      where: isNull(donations.donorId),
+      columns: {
+        id: true,
+        donorName: true,
+        donorEmail: true,
+        donorPhone: true,
+        isAnonymous: true,
+        locale: true,
+      },
+      orderBy: [asc(donations.createdAt)],
+    })
+
+    console.log(`Found ${unlinked.length} unlinked donation(s)\n`)
+    console.log('👤 Linking donations to donors...\n')
+
+    const donorIds = new Set<string>()
+    let skipped = 0
+
+    for (const donation of unlinked) {
+      const donorId = await findOrCreateDonor({
+        name: donation.isAnonymous ? null : donation.donorName,
+        email: donation.donorEmail,
+        phone: donation.donorPhone,
+        locale: donation.locale,
+      })
+
+      if (!donorId) {
+        skipped++
+        continue
+      }
+
+      await db
+        .update(donations)
+        .set({ donorId })
+        .where(eq(donations.id, donation.id))
+      donorIds.add(donorId)
+    }
+
+    console.log(`  Linked: ${unlinked.length - skipped} donation(s) to ${donorIds.size} donor(s)`)
+    if (skipped > 0) {
+      console.log(`  ℹ️  ${skipped} donation(s) have no email or phone and were left unlinked`)
+    }
+
+    console.log('\n✅ Donor migration complete!\n')
+
+  } catch (error) {
+    console.error('\n❌ Error:', error)
+    process.exit(1)
+  }
+
+  process.exit(0)
+}
+
+migrateDonors()
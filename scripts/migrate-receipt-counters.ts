@@ -0,0 +1,118 @@
+/**
+ * Script to move receipt numbering onto the receipt_counters table
+ *
+ * - Seeds each year's counter after the receipt numbers already issued in
+ *   order, so new numbers continue the sequence instead of reusing it. Random
+ *   legacy numbers that happen to be all digits are not counted (see
+ *   getStartingSequence); pass YEAR=NEXT to set the next number explicitly
+ * - Adds every existing receipt to the receipt register
+ * - Reports duplicate numbers and gaps
+ *
+ * Safe to run more than once. Run `npm run db:push` first to create the table.
+ *
+ * Run with: npx tsx scripts/migrate-receipt-counters.ts [YEAR=NEXT ...]
+ * e.g. npx tsx scripts/migrate-receipt-counters.ts 2025=1201
+ */
+
+import 'dotenv/config'
+import { db, donations, receiptCounters } from '../src/db'
+import { and, isNotNull, sql } from 'drizzle-orm'
+import { formatReceiptNumber, getStartingSequence, parseReceiptNumber } from '../src/lib/receipt-numbering'
+import { auditReceiptNumbers, recordIssuedReceipt } from '../src/lib/receipt-register'
+
+// Explicit starting numbers given as YEAR=NEXT
+function parseStartingSequences(args: string[]): Map<number, number> {
+  const starting = new Map<number, number>()
+  for (const arg of args) {
+    const match = /^(\d{4})=(\d+)$/.exec(arg)
+    if (!match || parseInt(match[2], 10) < 1) {
+      throw new Error(`Expected YEAR=NEXT (e.g. 2025=1201), got "${arg}"`)
+    }
+    starting.set(parseInt(match[1], 10), parseInt(match[2], 10))
+  }
+  return starting
+}
+
+async function migrateReceiptCounters() {
+  console.log('🔍 Looking for issued receipt numbers...\n')
+
+  try {
+    const explicit = parseStartingSequences(process.argv.slice(2))
+
+    const issued = await db.query.donations.findMany({
+      where: and(isNotNull(donations.receiptNumber), isNotNull(donations.paymentReference)),
+      columns: {
+        receiptNumber: true,
+        paymentReference: true,
+      },
+    })
+
+    const registered = await db.query.receipts.findMany({
+      columns: { receiptNumber: true },
+    })
+
+    // Issued sequences per year across donations and the register
+    const sequencesByYear = new Map<number, number[]>()
+    for (const { receiptNumber } of [...issued, ...registered]) {
+      const parsed = receiptNumber ? parseReceiptNumber(receiptNumber) : null
+      if (!parsed) continue
+      sequencesByYear.set(parsed.year, [...(sequencesByYear.get(parsed.year) || []), parsed.sequence])
+    }
+
+    console.log(`Found ${issued.length} donation(s) with a receipt number\n`)
+    console.log('🔢 Seeding receipt counters...\n')
+
+    const years = [...new Set([...sequencesByYear.keys(), ...explicit.keys()])].sort((a, b) => a - b)
+    for (const year of years) {
+      const next = explicit.get(year)
+      const lastSequence = (next ?? getStartingSequence(sequencesByYear.get(year) || [])) - 1
+
+      await db
+        .insert(receiptCounters)
+        .values({ year, lastSequence })
+        .onConflictDoUpdate({
+          target: receiptCounters.year,
+          set: {
+            // An explicit starting number replaces the counter; otherwise
+            // never move it backwards
+            lastSequence: next === undefined
+              ? sql`GREATEST(${receiptCounters.lastSequence}, ${lastSequence})`
+              : lastSequence,
+            updatedAt: new Date(),
+          },
+        })
+      console.log(`  ${year}: next receipt is ${formatReceiptNumber(year, lastSequence + 1)}${next === undefined ? '' : ' (explicit)'}`)
+    }
+
+    console.log('\n📒 Backfilling receipt register...\n')
+
+    for (const donation of issued) {
+      await recordIssuedReceipt(donation.paymentReference as string, 'migration')
+    }
+    console.log(`  Checked ${issued.length} receipt(s)`)
+
+    console.log('\n🧾 Auditing receipt numbers...\n')
+
+    const audit = await auditReceiptNumbers()
+    console.log(`  Checked: ${audit.checked}`)
+    for (const duplicate of audit.duplicates) {
+      console.log(`  ❌ Duplicate ${duplicate.receiptNumber}: ${duplicate.donationIds.join(', ')}`)
+    }
+    for (const gap of audit.gaps) {
+      console.log(`  ⚠️  Gap ${gap.year}: ${gap.from === gap.to ? gap.from : `${gap.from}-${gap.to}`}`)
+    }
+    if (audit.malformed.length > 0) {
+      console.log(`  ℹ️  ${audit.malformed.length} number(s) issued before sequential numbering`)
+    }
+
+    console.log('\n✅ Receipt counter migration complete!\n')
+
+  } catch (error) {
+    console.error('\n❌ Error:', error)
+    process.exit(1)
+  }
+
+  process.exit(0)
+}
+
+migrateReceiptCounters()
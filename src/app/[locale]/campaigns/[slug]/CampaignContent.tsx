@@ -0,0 +1,282 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { motion } from 'framer-motion'
+import { useLocale, useTranslations } from 'next-intl'
+import type { CampaignPhase, CampaignProgress } from '@/lib/campaigns'
+import { type LocalizedString, type Locale, getLocalizedValue } from '@/i18n/config'
+
+interface CampaignContentProps {
+  campaign: {
+    id: string
+    slug: string
+    title: LocalizedString
+    description: LocalizedString | null
+    featuredImage: string | null
+    startsAt: string
+    endsAt: string
+  }
+  phase: CampaignPhase
+  daysLeft: number
+  projects: {
+    id: string
+    slug: string
+    title: LocalizedString
+    description: LocalizedString
+    featuredImage: string | null
+  }[]
+  initialProgress: CampaignProgress
+}
+
+// Progress is refreshed while the campaign is running
+const POLL_INTERVAL_MS = 30000
+
+const defaultImage = 'https://images.unsplash.com/photo-1469571486292-0ba58a3f068b?q=80&w=2670'
+
+function formatCurrency(cents: number) {
+  return new Intl.NumberFormat('ms-MY', {
+    style: 'currency',
+    currency: 'MYR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(cents / 100)
+}
+
+export default function CampaignContent({
+  campaign,
+  phase,
+  daysLeft,
+  projects,
+  initialProgress,
+}: CampaignContentProps) {
+  const t = useTranslations('campaign')
+  const locale = useLocale() as Locale
+  const [progress, setProgress] = useState(initialProgress)
+
+  useEffect(() => {
+    if (phase !== 'active') return
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/campaigns/${campaign.slug}`)
+        if (response.ok) {
+          const data = await response.json()
+          setProgress(data.progress)
+        }
+      } catch {
+        // Keep showing the last known totals
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [phase, campaign.slug])
+
+  const title = getLocalizedValue(campaign.title, locale)
+  const description = campaign.description ? getLocalizedValue(campaign.description, locale) : ''
+  const raisedWidth = progress.goal > 0 ? Math.min(100, (progress.raised / progress.goal) * 100) : 0
+  const matchedWidth = progress.goal > 0 ? Math.min(100 - raisedWidth, (progress.matched / progress.goal) * 100) : 0
+  const matchingRemaining = progress.matches.reduce((sum, match) => sum + (match.cap - match.matched), 0)
+
+  const phaseLabel = phase === 'upcoming'
+    ? t('phase.upcoming', {
+      date: new Date(campaign.startsAt).toLocaleDateString(locale === 'ms' ? 'ms-MY' : 'en-MY', {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+      }),
+    })
+    : phase === 'active'
+      ? t('phase.active', { days: daysLeft })
+      : t('phase.ended')
+
+  return (
+    <div>
+      {/* Hero Section */}
+      <section className="relative pt-32 pb-20 overflow-hidden">
+        <div className="absolute inset-0">
+          <Image
+            src={campaign.featuredImage || defaultImage}
+            alt={title}
+            fill
+            className="object-cover"
+            priority
+          />
+          <div className="absolute inset-0 bg-gradient-to-br from-teal-900/95 via-teal-800/90 to-sky-900/85" />
+          <div className="absolute inset-0 bg-dots opacity-10" />
+        </div>
+
+        <div className="relative container-wide z-10">
+          <motion.div
+            initial={{ opacity: 0, y: 40 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8 }}
+            className="max-w-3xl"
+          >
+            <div className="flex flex-wrap items-center gap-3 mb-6">
+              <span className="px-4 py-1.5 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 text-sm font-medium text-teal-100">
+                {t('badge')}
+              </span>
+              <span className={`px-4 py-1.5 rounded-full text-sm font-medium ${
+                phase === 'active' ? 'bg-amber-400 text-amber-950' : 'bg-white/10 text-white/80'
+              }`}>
+                {phaseLabel}
+              </span>
+            </div>
+            <h1 className="font-display text-4xl md:text-5xl lg:text-6xl font-bold text-white leading-tight mb-6">
+              {title}
+            </h1>
+            {description && (
+              <p className="text-lg text-white/80 leading-relaxed whitespace-pre-line">{description}</p>
+            )}
+          </motion.div>
+        </div>
+      </section>
+
+      {/* Progress */}
+      <section className="relative -mt-10 z-20">
+        <div className="container-wide">
+          <div className="bg-white rounded-3xl shadow-xl border border-gray-100 p-6 md:p-8 max-w-4xl">
+            <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+              <div>
+                <p className="font-display text-4xl font-bold text-foundation-charcoal">
+                  {formatCurrency(progress.total)}
+                </p>
+                <p className="text-gray-500">{t('ofGoal', { goal: formatCurrency(progress.goal) })}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-teal-600">{progress.percent.toFixed(0)}%</p>
+                <p className="text-sm text-gray-500">{t('funded')}</p>
+              </div>
+            </div>
+
+            <div className="h-4 bg-gray-100 rounded-full overflow-hidden flex" role="progressbar" aria-valuenow={Math.round(progress.percent)} aria-valuemin={0} aria-valuemax={100}>
+              <motion.div
+                initial={{ width: 0 }}
+                animate={{ width: `${raisedWidth}%` }}
+                transition={{ duration: 1, ease: 'easeOut' }}
+                className="h-full bg-gradient-to-r from-teal-500 to-teal-400"
+              />
+              <motion.div
+                initial={{ width: 0 }}
+                animate={{ width: `${matchedWidth}%` }}
+                transition={{ duration: 1, delay: 0.3, ease: 'easeOut' }}
+                className="h-full bg-amber-400"
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-x-6 gap-y-2 mt-4 text-sm">
+              <span className="flex items-center gap-2 text-gray-700">
+                <span className="w-3 h-3 rounded-full bg-teal-500" />
+                <strong>{formatCurrency(progress.raised)}</strong> {t('raisedByDonors')}
+              </span>
+              {progress.matches.length > 0 && (
+                <span className="flex items-center gap-2 text-gray-700">
+                  <span className="w-3 h-3 rounded-full bg-amber-400" />
+                  <strong>{formatCurrency(progress.matched)}</strong> {t('matchedBySponsors')}
+                </span>
+              )}
+              <span className="text-gray-500">{t('donors', { count: progress.donorCount })}</span>
+              {phase === 'active' && (
+                <span className="text-gray-400 text-xs self-center">{t('liveUpdate')}</span>
+              )}
+            </div>
+
+            {progress.matches.length > 0 && (
+              <div className="mt-6 p-4 rounded-2xl bg-amber-50 border border-amber-200">
+                <p className="font-semibold text-amber-900 mb-1">{t('matching.title')}</p>
+                <ul className="space-y-1 text-sm text-amber-800">
+                  {progress.matches.map(match => (
+                    <li key={match.sponsor}>
+                      {t('matching.rule', {
+                        sponsor: match.sponsor,
+                        ratio: match.ratio.toLocaleString(),
+                        cap: formatCurrency(match.cap),
+                      })}
+                    </li>
+                  ))}
+                </ul>
+                {phase === 'active' && (
+                  <p className="mt-2 text-sm font-medium text-amber-900">
+                    {matchingRemaining > 0
+                      ? t('matching.remaining', { amount: formatCurrency(matchingRemaining) })
+                      : t('matching.exhausted')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {phase === 'active' ? (
+              <Link
+                href={`/donate?campaign=${campaign.id}`}
+                className="btn-primary mt-6 inline-flex"
+              >
+                {t('donateNow')}
+              </Link>
+            ) : (
+              <div className="mt-6 text-gray-600">
+                <p>{phase === 'upcoming' ? t('upcomingDescription') : t('endedDescription')}</p>
+                {phase === 'ended' && (
+                  <Link href="/projects" className="inline-block mt-3 text-teal-600 font-medium hover:text-teal-700">
+                    {t('viewProjects')}
+                  </Link>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      {/* Projects */}
+      {phase === 'active' && (
+        <section className="py-20">
+          <div className="container-wide">
+            <h2 className="font-heading text-3xl font-bold text-foundation-charcoal mb-8">
+              {t('projectsTitle')}
+            </h2>
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              <div className="bg-gradient-to-br from-teal-50 to-sky-50 rounded-2xl border border-teal-100 p-6 flex flex-col">
+                <h3 className="font-heading text-xl font-semibold text-foundation-charcoal mb-2">{t('generalFund')}</h3>
+                <p className="text-gray-600 text-sm flex-1">{t('generalFundDescription')}</p>
+                <Link
+                  href={`/donate?campaign=${campaign.id}`}
+                  className="mt-6 inline-flex justify-center px-4 py-2 rounded-xl bg-teal-600 text-white font-medium hover:bg-teal-700 transition-colors"
+                >
+                  {t('donate')}
+                </Link>
+              </div>
+
+              {projects.map(project => (
+                <div key={project.id} className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden flex flex-col">
+                  <div className="relative h-40">
+                    <Image
+                      src={project.featuredImage || defaultImage}
+                      alt={getLocalizedValue(project.title, locale)}
+                      fill
+                      className="object-cover"
+                    />
+                  </div>
+                  <div className="p-6 flex flex-col flex-1">
+                    <Link href={`/projects/${project.slug}`} className="font-heading text-xl font-semibold text-foundation-charcoal hover:text-teal-600 mb-2">
+                      {getLocalizedValue(project.title, locale)}
+                    </Link>
+                    <p className="text-gray-600 text-sm line-clamp-3 flex-1">
+                      {getLocalizedValue(project.description, locale)}
+                    </p>
+                    <Link
+                      href={`/donate?project=${project.id}&campaign=${campaign.id}`}
+                      className="mt-6 inline-flex justify-center px-4 py-2 rounded-xl bg-teal-600 text-white font-medium hover:bg-teal-700 transition-colors"
+                    >
+                      {t('donate')}
+                    </Link>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </section>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { setRequestLocale } from 'next-intl/server'
+import { Header, Footer } from '@/components/layout'
+import {
+  getCampaignPhase,
+  getCampaignProgress,
+  getCampaignProjects,
+  getPublishedCampaign,
+} from '@/lib/campaigns'
+import CampaignContent from './CampaignContent'
+import { type Locale, getLocalizedValue } from '@/i18n/config'
+
+interface PageProps {
+  params: Promise<{ slug: string; locale: string }>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug, locale } = await params
+  const campaign = await getPublishedCampaign(slug)
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://insanprihatin.org'
+
+  if (!campaign) {
+    return {
+      title: locale === 'ms' ? 'Kempen Tidak Dijumpai' : 'Campaign Not Found',
+    }
+  }
+
+  const title = getLocalizedValue(campaign.title, locale as Locale)
+  const description = campaign.description
+    ? getLocalizedValue(campaign.description, locale as Locale)
+    : undefined
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: `${baseUrl}/${locale}/campaigns/${slug}`,
+      languages: {
+        'en': `${baseUrl}/en/campaigns/${slug}`,
+        'ms': `${baseUrl}/ms/campaigns/${slug}`,
+      },
+    },
+    openGraph: {
+      title: `${title} | Yayasan Insan Prihatin`,
+      description,
+      images: campaign.featuredImage ? [campaign.featuredImage] : undefined,
+      locale: locale === 'ms' ? 'ms_MY' : 'en_MY',
+    },
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+export default async function CampaignPage({ params }: PageProps) {
+  const { slug, locale } = await params
+  setRequestLocale(locale)
+
+  const campaign = await getPublishedCampaign(slug)
+
+  if (!campaign) {
+    notFound()
+  }
+
+  const [progress, linkedProjects] = await Promise.all([
+    getCampaignProgress(campaign),
+    getCampaignProjects(campaign),
+  ])
+
+  const now = new Date()
+
+  return (
+    <>
+      <Header />
+      <main>
+        <CampaignContent
+          campaign={{
+            id: campaign.id,
+            slug: campaign.slug,
+            title: campaign.title,
+            description: campaign.description,
+            featuredImage: campaign.featuredImage,
+            startsAt: campaign.startsAt.toISOString(),
+            endsAt: campaign.endsAt.toISOString(),
+          }}
+          phase={getCampaignPhase(campaign, now)}
+          daysLeft={Math.max(0, Math.floor((campaign.endsAt.getTime() - now.getTime()) / DAY_MS))}
+          projects={linkedProjects}
+          initialProgress={progress}
+        />
+      </main>
+      <Footer />
+    </>
+  )
+}
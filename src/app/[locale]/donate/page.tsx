@@ -5,6 +5,8 @@ import { Header, Footer } from '@/components/layout'
 import DonateContent from './DonateContent'
 import { type Locale } from '@/i18n/config'
 import { getSiteSetting } from '@/lib/actions/content'
+import { getDonorFunds, getRestrictedProjectIds } from '@/lib/funds'
+import { parseZakatNisab } from '@/lib/zakat'
 
 export async function generateMetadata({
   params,
@@ -56,10 +58,15 @@ export default async function DonatePage({
   const { locale } = await params
   setRequestLocale(locale)
 
-  const donationClosedSetting = await getSiteSetting('donationsClosed') as {
-    closed: boolean
-    reason: { en: string; ms: string } | null
-  } | null
+  const [donationClosedSetting, donorFunds, restrictedProjectIds, nisabSetting] = await Promise.all([
+    getSiteSetting('donationsClosed') as Promise<{
+      closed: boolean
+      reason: { en: string; ms: string } | null
+    } | null>,
+    getDonorFunds(),
+    getRestrictedProjectIds(),
+    getSiteSetting('zakatNisab'),
+  ])
 
   return (
     <>
@@ -69,6 +76,9 @@ export default async function DonatePage({
           <DonateContent
             donationsClosed={donationClosedSetting?.closed ?? false}
             closureReason={donationClosedSetting?.reason ?? null}
+            funds={donorFunds}
+            restrictedProjectIds={restrictedProjectIds}
+            zakatNisab={parseZakatNisab(nisabSetting)}
           />
         </Suspense>
       </main>
@@ -0,0 +1,222 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { motion } from 'framer-motion'
+import { useSearchParams } from 'next/navigation'
+import { useTranslations, useLocale } from 'next-intl'
+
+interface SubscriptionDetails {
+  status: 'pending' | 'active' | 'paused' | 'cancelled'
+  amount: number
+  currency: string
+  nextBillingAt: string | null
+  createdAt: string
+}
+
+interface SubscriptionCycle {
+  cycle: number | null
+  amount: number
+  paymentStatus: string
+  createdAt: string
+}
+
+const statusStyles: Record<SubscriptionDetails['status'], string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  active: 'bg-green-100 text-green-700',
+  paused: 'bg-gray-100 text-gray-700',
+  cancelled: 'bg-red-100 text-red-700',
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('ms-MY', {
+    style: 'currency',
+    currency: 'MYR',
+  }).format(amount)
+}
+
+export default function SubscriptionContent() {
+  const t = useTranslations('donate.subscription')
+  const locale = useLocale()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+
+  const [subscription, setSubscription] = useState<SubscriptionDetails | null>(null)
+  const [cycles, setCycles] = useState<SubscriptionCycle[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [notFound, setNotFound] = useState(false)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadSubscription = useCallback(async () => {
+    if (!token) {
+      setNotFound(true)
+      setIsLoading(false)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/donations/subscriptions/manage?token=${encodeURIComponent(token)}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setNotFound(true)
+        return
+      }
+
+      setSubscription(data.subscription)
+      setCycles(data.cycles)
+    } catch {
+      setNotFound(true)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    loadSubscription()
+  }, [loadSubscription])
+
+  const handleAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (action === 'cancel' && !confirm(t('cancelConfirm'))) return
+
+    setIsUpdating(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/donations/subscriptions/manage', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, action }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update')
+      }
+
+      setMessage({ type: 'success', text: action === 'cancel' ? t('cancelled') : t('updated') })
+      await loadSubscription()
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update' })
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh] gap-4">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-teal-500" />
+        <p className="text-gray-500">{t('loading')}</p>
+      </div>
+    )
+  }
+
+  if (notFound || !subscription) {
+    return (
+      <div className="max-w-xl mx-auto px-4 py-24 text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">{t('title')}</h1>
+        <p className="text-gray-600">{t('notFound')}</p>
+      </div>
+    )
+  }
+
+  const dateFormatter = new Intl.DateTimeFormat(locale === 'ms' ? 'ms-MY' : 'en-MY', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-16">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden"
+      >
+        <div className="bg-gradient-to-r from-teal-600 to-emerald-600 px-8 py-6">
+          <h1 className="text-2xl font-bold text-white">{t('title')}</h1>
+        </div>
+
+        <div className="p-8 space-y-6">
+          {message && (
+            <div className={`p-4 rounded-xl text-sm ${
+              message.type === 'success'
+                ? 'bg-green-50 border border-green-200 text-green-700'
+                : 'bg-red-50 border border-red-200 text-red-700'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm text-gray-500">{t('amount')}</p>
+              <p className="text-2xl font-bold text-teal-600">{formatCurrency(subscription.amount)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">{t('status')}</p>
+              <span className={`inline-block mt-1 px-3 py-1 rounded-full text-sm font-medium ${statusStyles[subscription.status]}`}>
+                {t(`statuses.${subscription.status}`)}
+              </span>
+            </div>
+            {subscription.status === 'active' && subscription.nextBillingAt && (
+              <div className="col-span-2">
+                <p className="text-sm text-gray-500">{t('nextPayment')}</p>
+                <p className="font-medium text-gray-900">{dateFormatter.format(new Date(subscription.nextBillingAt))}</p>
+              </div>
+            )}
+          </div>
+
+          {subscription.status !== 'cancelled' && (
+            <div className="flex flex-wrap gap-3">
+              {subscription.status === 'active' && (
+                <button
+                  onClick={() => handleAction('pause')}
+                  disabled={isUpdating}
+                  className="px-5 py-2.5 rounded-xl bg-gray-100 text-gray-700 font-medium hover:bg-gray-200 disabled:opacity-50"
+                >
+                  {t('pause')}
+                </button>
+              )}
+              {subscription.status === 'paused' && (
+                <button
+                  onClick={() => handleAction('resume')}
+                  disabled={isUpdating}
+                  className="px-5 py-2.5 rounded-xl bg-teal-600 text-white font-medium hover:bg-teal-700 disabled:opacity-50"
+                >
+                  {t('resume')}
+                </button>
+              )}
+              <button
+                onClick={() => handleAction('cancel')}
+                disabled={isUpdating}
+                className="px-5 py-2.5 rounded-xl text-red-600 font-medium hover:bg-red-50 disabled:opacity-50"
+              >
+                {t('cancel')}
+              </button>
+            </div>
+          )}
+
+          {cycles.length > 0 && (
+            <div>
+              <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-3">{t('history')}</h2>
+              <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+                {cycles.map((cycle) => (
+                  <li key={`${cycle.cycle}-${cycle.createdAt}`} className="flex items-center justify-between px-4 py-3 text-sm">
+                    <span className="text-gray-700">
+                      {t('payment', { cycle: cycle.cycle ?? '-' })} · {dateFormatter.format(new Date(cycle.createdAt))}
+                    </span>
+                    <span className="font-medium text-gray-900">
+                      {formatCurrency(cycle.amount)} · <span className="capitalize text-gray-500">{cycle.paymentStatus}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  )
+}
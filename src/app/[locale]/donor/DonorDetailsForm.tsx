@@ -0,0 +1,137 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import type { DonorPortalData } from '@/lib/donor-portal'
+
+export default function DonorDetailsForm({ donor }: { donor: DonorPortalData['donor'] }) {
+  const t = useTranslations('donorPortal.details')
+  const router = useRouter()
+
+  const [name, setName] = useState(donor.name || '')
+  const [phone, setPhone] = useState(donor.phone || '')
+  const [locale, setLocale] = useState(donor.locale === 'ms' ? 'ms' : 'en')
+  const [emailUpdates, setEmailUpdates] = useState(donor.emailUpdates ?? false)
+  const [recoveryEmails, setRecoveryEmails] = useState(donor.recoveryEmails ?? true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/donor/profile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, phone, locale, emailUpdates, recoveryEmails }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const text = response.status === 401
+          ? t('sessionExpired')
+          : data.error === 'invalid_phone' ? t('invalidPhone') : t('error')
+        setMessage({ type: 'error', text })
+        return
+      }
+
+      setMessage({ type: 'success', text: t('saved') })
+      router.refresh()
+    } catch {
+      setMessage({ type: 'error', text: t('error') })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('title')}</h2>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {message && (
+          <div className={`p-3 rounded-xl text-sm ${
+            message.type === 'success'
+              ? 'bg-green-50 border border-green-200 text-green-700'
+              : 'bg-red-50 border border-red-200 text-red-700'
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="donor-name" className="block text-sm font-medium text-gray-700 mb-1">{t('name')}</label>
+          <input
+            id="donor-name"
+            type="text"
+            value={name}
+            maxLength={200}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-teal-500 focus:ring-2 focus:ring-teal-500/20 outline-none"
+          />
+        </div>
+
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-1">{t('email')}</p>
+          <p className="text-gray-900">{donor.email}</p>
+          <p className="text-xs text-gray-500 mt-1">{t('emailNote')}</p>
+        </div>
+
+        <div>
+          <label htmlFor="donor-phone" className="block text-sm font-medium text-gray-700 mb-1">{t('phone')}</label>
+          <input
+            id="donor-phone"
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            className="w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-teal-500 focus:ring-2 focus:ring-teal-500/20 outline-none"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="donor-locale" className="block text-sm font-medium text-gray-700 mb-1">{t('language')}</label>
+          <select
+            id="donor-locale"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value === 'ms' ? 'ms' : 'en')}
+            className="w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-teal-500 focus:ring-2 focus:ring-teal-500/20 outline-none"
+          >
+            <option value="en">English</option>
+            <option value="ms">Bahasa Melayu</option>
+          </select>
+        </div>
+
+        <label className="flex items-start gap-3 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={emailUpdates}
+            onChange={(e) => setEmailUpdates(e.target.checked)}
+            className="mt-0.5 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          {t('emailUpdates')}
+        </label>
+
+        <label className="flex items-start gap-3 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={recoveryEmails}
+            onChange={(e) => setRecoveryEmails(e.target.checked)}
+            className="mt-0.5 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          {t('recoveryEmails')}
+        </label>
+
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="w-full px-5 py-2.5 rounded-xl bg-teal-600 text-white font-medium hover:bg-teal-700 disabled:opacity-50"
+        >
+          {isSaving ? t('saving') : t('save')}
+        </button>
+      </form>
+    </section>
+  )
+}
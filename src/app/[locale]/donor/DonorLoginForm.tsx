@@ -0,0 +1,104 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslations, useLocale } from 'next-intl'
+
+export default function DonorLoginForm() {
+  const t = useTranslations('donorPortal.login')
+  const locale = useLocale()
+
+  const [email, setEmail] = useState('')
+  const [isSending, setIsSending] = useState(false)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSending(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/donor/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, locale }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || t('error'))
+      }
+
+      setSentTo(email.trim())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('error'))
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-24">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8"
+      >
+        {sentTo ? (
+          <div className="text-center">
+            <div className="w-14 h-14 mx-auto mb-4 rounded-full bg-teal-100 flex items-center justify-center">
+              <svg className="w-7 h-7 text-teal-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+              </svg>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-3">{t('sentTitle')}</h1>
+            <p className="text-gray-600 mb-6">{t('sent', { email: sentTo })}</p>
+            <button
+              onClick={() => setSentTo(null)}
+              className="text-sm font-medium text-teal-600 hover:text-teal-700"
+            >
+              {t('tryAgain')}
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">{t('title')}</h1>
+              <p className="text-gray-600">{t('description')}</p>
+            </div>
+
+            {error && (
+              <div className="p-4 rounded-xl text-sm bg-red-50 border border-red-200 text-red-700">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="donor-email" className="block text-sm font-medium text-gray-700 mb-2">
+                {t('email')}
+              </label>
+              <input
+                id="donor-email"
+                type="email"
+                required
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-teal-500 focus:ring-2 focus:ring-teal-500/20 outline-none"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSending}
+              className="w-full px-5 py-3 rounded-xl bg-teal-600 text-white font-medium hover:bg-teal-700 disabled:opacity-50"
+            >
+              {isSending ? t('sending') : t('submit')}
+            </button>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,255 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { useRouter } from 'next/navigation'
+import { useTranslations, useLocale } from 'next-intl'
+import type { DonorPortalData, DonorPortalSubscription } from '@/lib/donor-portal'
+import DonorDetailsForm from './DonorDetailsForm'
+
+const statusStyles: Record<string, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  active: 'bg-green-100 text-green-700',
+  paused: 'bg-gray-100 text-gray-700',
+  cancelled: 'bg-red-100 text-red-700',
+}
+
+// Amounts from the portal are in cents
+function formatCurrency(cents: number, currency = 'MYR'): string {
+  return new Intl.NumberFormat('ms-MY', {
+    style: 'currency',
+    currency,
+  }).format(cents / 100)
+}
+
+export default function DonorPortalContent({ data }: { data: DonorPortalData }) {
+  const t = useTranslations('donorPortal')
+  const tSubscription = useTranslations('donate.subscription')
+  const locale = useLocale()
+  const router = useRouter()
+
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const dateFormatter = new Intl.DateTimeFormat(locale === 'ms' ? 'ms-MY' : 'en-MY', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+
+  const handleSignOut = async () => {
+    await fetch('/api/donor/session', { method: 'DELETE' })
+    router.refresh()
+  }
+
+  const handleSubscriptionAction = async (
+    subscription: DonorPortalSubscription,
+    action: 'pause' | 'resume' | 'cancel'
+  ) => {
+    if (action === 'cancel' && !confirm(tSubscription('cancelConfirm'))) return
+
+    setUpdatingId(subscription.id)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/donor/subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subscriptionId: subscription.id, action }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update')
+      }
+
+      setMessage({
+        type: 'success',
+        text: action === 'cancel' ? tSubscription('cancelled') : tSubscription('updated'),
+      })
+      router.refresh()
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update' })
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const { donor, gifts, subscriptions, statementYears, summary } = data
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-16 space-y-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-wrap items-center justify-between gap-4"
+      >
+        <div>
+          <p className="text-sm font-medium text-teal-600 uppercase tracking-wider">{t('title')}</p>
+          <h1 className="text-3xl font-bold text-gray-900">
+            {donor.name ? t('welcome', { name: donor.name }) : t('welcomeFriend')}
+          </h1>
+          <p className="text-gray-500">{donor.email}</p>
+        </div>
+        <button
+          onClick={handleSignOut}
+          className="px-5 py-2.5 rounded-xl bg-gray-100 text-gray-700 font-medium hover:bg-gray-200"
+        >
+          {t('signOut')}
+        </button>
+      </motion.div>
+
+      {message && (
+        <div className={`p-4 rounded-xl text-sm ${
+          message.type === 'success'
+            ? 'bg-green-50 border border-green-200 text-green-700'
+            : 'bg-red-50 border border-red-200 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: t('summary.lifetime'), value: formatCurrency(summary.lifetimeValue) },
+          { label: t('summary.gifts'), value: summary.giftCount.toString() },
+          { label: t('summary.firstGift'), value: summary.firstGiftAt ? dateFormatter.format(new Date(summary.firstGiftAt)) : '-' },
+          { label: t('summary.lastGift'), value: summary.lastGiftAt ? dateFormatter.format(new Date(summary.lastGiftAt)) : '-' },
+        ].map((stat) => (
+          <div key={stat.label} className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+            <p className="text-sm text-gray-500">{stat.label}</p>
+            <p className="text-xl font-bold text-gray-900 mt-1">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 space-y-8">
+          {subscriptions.length > 0 && (
+            <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('recurring.title')}</h2>
+              <ul className="divide-y divide-gray-100">
+                {subscriptions.map((subscription) => (
+                  <li key={subscription.id} className="py-4 flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                      <p className="font-semibold text-gray-900">
+                        {formatCurrency(subscription.amount, subscription.currency)}
+                        <span className={`ml-3 inline-block px-3 py-0.5 rounded-full text-xs font-medium ${statusStyles[subscription.status] || statusStyles.pending}`}>
+                          {tSubscription(`statuses.${subscription.status}`)}
+                        </span>
+                      </p>
+                      <p className="text-sm text-gray-500 mt-1">
+                        {subscription.status === 'active' && subscription.nextBillingAt
+                          ? `${tSubscription('nextPayment')}: ${dateFormatter.format(new Date(subscription.nextBillingAt))}`
+                          : t('recurring.started', { date: dateFormatter.format(new Date(subscription.createdAt)) })}
+                      </p>
+                    </div>
+                    {subscription.status !== 'cancelled' && (
+                      <div className="flex flex-wrap gap-2">
+                        {subscription.status === 'active' && (
+                          <button
+                            onClick={() => handleSubscriptionAction(subscription, 'pause')}
+                            disabled={updatingId === subscription.id}
+                            className="px-4 py-2 rounded-xl bg-gray-100 text-gray-700 text-sm font-medium hover:bg-gray-200 disabled:opacity-50"
+                          >
+                            {tSubscription('pause')}
+                          </button>
+                        )}
+                        {subscription.status === 'paused' && (
+                          <button
+                            onClick={() => handleSubscriptionAction(subscription, 'resume')}
+                            disabled={updatingId === subscription.id}
+                            className="px-4 py-2 rounded-xl bg-teal-600 text-white text-sm font-medium hover:bg-teal-700 disabled:opacity-50"
+                          >
+                            {tSubscription('resume')}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleSubscriptionAction(subscription, 'cancel')}
+                          disabled={updatingId === subscription.id}
+                          className="px-4 py-2 rounded-xl text-red-600 text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+                        >
+                          {tSubscription('cancel')}
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('history.title')}</h2>
+            {gifts.length === 0 ? (
+              <p className="text-gray-500">{t('history.empty')}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {gifts.map((gift) => (
+                  <li key={gift.id} className="py-4 flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {gift.projectTitle || t('history.generalFund')}
+                        {gift.isRecurring && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full bg-teal-50 text-teal-700 text-xs font-medium">
+                            {t('history.monthly')}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {dateFormatter.format(new Date(gift.date))}
+                        {gift.receiptNumber && ` · ${t('history.receipt')} ${gift.receiptNumber}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <div className="text-right">
+                        <p className="font-semibold text-gray-900">{formatCurrency(gift.amount, gift.currency)}</p>
+                        {gift.paymentStatus === 'refunded' ? (
+                          <p className="text-xs text-red-600">{t('history.refunded')}</p>
+                        ) : gift.refundedAmount > 0 && (
+                          <p className="text-xs text-amber-600">{t('history.partiallyRefunded')}</p>
+                        )}
+                      </div>
+                      {gift.receiptNumber && gift.paymentReference && (
+                        <a
+                          href={`/api/donations/receipt/${encodeURIComponent(gift.paymentReference)}`}
+                          className="px-3 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          {t('history.download')}
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        <div className="space-y-8">
+          <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">{t('statements.title')}</h2>
+            <p className="text-sm text-gray-500 mb-4">{t('statements.description')}</p>
+            {statementYears.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('statements.empty')}</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {statementYears.map((year) => (
+                  <a
+                    key={year}
+                    href={`/api/donor/statement?year=${year}`}
+                    className="px-4 py-2 rounded-xl bg-teal-50 text-teal-700 text-sm font-medium hover:bg-teal-100"
+                  >
+                    {t('statements.download', { year })}
+                  </a>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <DonorDetailsForm donor={donor} />
+        </div>
+      </div>
+    </div>
+  )
+}
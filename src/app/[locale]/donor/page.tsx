@@ -0,0 +1,38 @@
+import { cookies } from 'next/headers'
+import { setRequestLocale } from 'next-intl/server'
+import { Header, Footer } from '@/components/layout'
+import { DONOR_SESSION_COOKIE, getDonorPortalData, getSessionDonor } from '@/lib/donor-portal'
+import DonorLoginForm from './DonorLoginForm'
+import DonorPortalContent from './DonorPortalContent'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+export const metadata = {
+  title: 'My Donations | Yayasan Insan Prihatin',
+  description: 'View your donations, download receipts and statements, and manage your monthly giving.',
+  robots: { index: false, follow: false },
+}
+
+export default async function DonorPortalPage({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}) {
+  const { locale } = await params
+  setRequestLocale(locale)
+
+  const cookieStore = await cookies()
+  const donor = await getSessionDonor(cookieStore.get(DONOR_SESSION_COOKIE)?.value)
+  const data = donor ? await getDonorPortalData(donor, locale === 'ms' ? 'ms' : 'en') : null
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-gradient-to-b from-foundation-cream to-white">
+        {data ? <DonorPortalContent data={data} /> : <DonorLoginForm />}
+      </main>
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,79 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useTranslations, useLocale } from 'next-intl'
+
+export default function VerifyContent() {
+  const t = useTranslations('donorPortal.verify')
+  const locale = useLocale()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const [invalid, setInvalid] = useState(!token)
+
+  // Signing in takes a click so that mail scanners opening the link do not
+  // use it up
+  const handleSignIn = async () => {
+    setIsSigningIn(true)
+
+    try {
+      const response = await fetch('/api/donor/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      })
+
+      if (!response.ok) {
+        setInvalid(true)
+        return
+      }
+
+      router.replace(`/${locale}/donor`)
+      router.refresh()
+    } catch {
+      setInvalid(true)
+    } finally {
+      setIsSigningIn(false)
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-24">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 text-center"
+      >
+        <h1 className="text-2xl font-bold text-gray-900 mb-3">{t('title')}</h1>
+
+        {invalid ? (
+          <>
+            <p className="text-gray-600 mb-6">{t('invalid')}</p>
+            <Link
+              href={`/${locale}/donor`}
+              className="inline-block px-5 py-3 rounded-xl bg-teal-600 text-white font-medium hover:bg-teal-700"
+            >
+              {t('requestNew')}
+            </Link>
+          </>
+        ) : (
+          <>
+            <p className="text-gray-600 mb-6">{t('description')}</p>
+            <button
+              onClick={handleSignIn}
+              disabled={isSigningIn}
+              className="w-full px-5 py-3 rounded-xl bg-teal-600 text-white font-medium hover:bg-teal-700 disabled:opacity-50"
+            >
+              {isSigningIn ? t('signingIn') : t('button')}
+            </button>
+          </>
+        )}
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { Suspense } from 'react'
+import { setRequestLocale } from 'next-intl/server'
+import { Header, Footer } from '@/components/layout'
+import VerifyContent from './VerifyContent'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+export const metadata = {
+  title: 'Sign In | Yayasan Insan Prihatin',
+  robots: { index: false, follow: false },
+}
+
+export default async function DonorVerifyPage({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}) {
+  const { locale } = await params
+  setRequestLocale(locale)
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-gradient-to-b from-foundation-cream to-white">
+        <Suspense fallback={
+          <div className="flex items-center justify-center min-h-[60vh]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-teal-500" />
+          </div>
+        }>
+          <VerifyContent />
+        </Suspense>
+      </main>
+      <Footer />
+    </>
+  )
+}
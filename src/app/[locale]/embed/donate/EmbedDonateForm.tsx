@@ -0,0 +1,238 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+
+interface EmbedDonateFormProps {
+  projectId: string | null
+  projectTitle: string | null
+  amounts: number[]
+  variant: 'form' | 'button'
+  site: string | null // Allowlisted origin passed by embed.js
+}
+
+// The page embedding the widget. Browsers that support ancestorOrigins
+// report it directly; otherwise the referrer, then what embed.js passed.
+// The API checks whatever we send against the allowlist.
+function getEmbeddingOrigin(fallback: string | null): string | null {
+  const ancestors = window.location.ancestorOrigins
+  if (ancestors && ancestors.length > 0) return ancestors[0]
+  if (document.referrer) {
+    try {
+      return new URL(document.referrer).origin
+    } catch {
+      // Fall through to the value from embed.js
+    }
+  }
+  return fallback
+}
+
+export default function EmbedDonateForm({ projectId, projectTitle, amounts, variant, site }: EmbedDonateFormProps) {
+  const t = useTranslations('embedWidget')
+  const locale = useLocale()
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const [isOpen, setIsOpen] = useState(variant === 'form')
+  const [amount, setAmount] = useState<number>(amounts[1] ?? amounts[0])
+  const [customAmount, setCustomAmount] = useState('')
+  const [donorName, setDonorName] = useState('')
+  const [donorEmail, setDonorEmail] = useState('')
+  const [isAnonymous, setIsAnonymous] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [paymentUrl, setPaymentUrl] = useState<string | null>(null)
+
+  // Tell embed.js how tall the widget is so the iframe never scrolls
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || window.parent === window) return
+
+    const observer = new ResizeObserver(() => {
+      window.parent.postMessage({ type: 'yip-donate:resize', height: container.offsetHeight }, '*')
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const selectedAmount = customAmount ? Number(customAmount) : amount
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!Number.isFinite(selectedAmount) || selectedAmount < 1 || selectedAmount > 100000) {
+      setError(t('errors.amount'))
+      return
+    }
+    if (!isAnonymous && (!donorName.trim() || !donorEmail.trim())) {
+      setError(t('errors.details'))
+      return
+    }
+
+    // Payment pages refuse to load in frames, so pay in a new tab. Open it
+    // now, while we still have the click, or popup blockers will stop it.
+    const paymentWindow = window.open('', '_blank')
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch('/api/donations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount: selectedAmount,
+          donorName: isAnonymous ? undefined : donorName.trim(),
+          donorEmail: donorEmail.trim() || undefined,
+          isAnonymous,
+          projectId,
+          locale,
+          embedOrigin: getEmbeddingOrigin(site),
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.redirectUrl) {
+        paymentWindow?.close()
+        setError(data.code === 'DONATIONS_CLOSED' ? t('errors.closed') : (data.error || t('errors.generic')))
+        return
+      }
+
+      if (paymentWindow) {
+        paymentWindow.opener = null
+        paymentWindow.location.href = data.redirectUrl
+      }
+      setPaymentUrl(data.redirectUrl)
+    } catch {
+      paymentWindow?.close()
+      setError(t('errors.generic'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const resetForm = () => {
+    setPaymentUrl(null)
+    setCustomAmount('')
+    setError(null)
+  }
+
+  return (
+    <div ref={containerRef} className="p-1">
+      {!isOpen ? (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="w-full px-5 py-3 rounded-xl bg-teal-600 text-white font-semibold hover:bg-teal-700 shadow-sm"
+        >
+          {t('donateButton')}
+        </button>
+      ) : (
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+          <h1 className="text-lg font-bold text-gray-900">{t('title')}</h1>
+          <p className="text-sm text-teal-700 mb-4">{projectTitle || t('generalFund')}</p>
+
+          {paymentUrl ? (
+            <div className="space-y-4">
+              <div>
+                <h2 className="font-semibold text-gray-900">{t('continueTitle')}</h2>
+                <p className="text-sm text-gray-500 mt-1">{t('continueDescription')}</p>
+              </div>
+              <a
+                href={paymentUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block w-full px-5 py-3 rounded-xl bg-teal-600 text-white text-center font-semibold hover:bg-teal-700"
+              >
+                {t('continuePayment')}
+              </a>
+              <button onClick={resetForm} className="w-full text-sm text-gray-500 hover:text-gray-700">
+                {t('startOver')}
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="p-3 rounded-xl text-sm bg-red-50 border border-red-200 text-red-700">{error}</div>
+              )}
+
+              <fieldset>
+                <legend className="block text-sm font-medium text-gray-700 mb-2">{t('amount')}</legend>
+                <div className="grid grid-cols-4 gap-2">
+                  {amounts.map(preset => (
+                    <button
+                      key={preset}
+                      type="button"
+                      onClick={() => {
+                        setAmount(preset)
+                        setCustomAmount('')
+                      }}
+                      className={`px-2 py-2 rounded-xl border text-sm font-semibold ${
+                        !customAmount && amount === preset
+                          ? 'border-teal-600 bg-teal-50 text-teal-700'
+                          : 'border-gray-200 text-gray-700 hover:border-gray-300'
+                      }`}
+                    >
+                      {preset}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="number"
+                  min={1}
+                  max={100000}
+                  inputMode="decimal"
+                  value={customAmount}
+                  onChange={(e) => setCustomAmount(e.target.value)}
+                  placeholder={t('customAmount')}
+                  aria-label={t('customAmount')}
+                  className="mt-2 w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-teal-500 focus:ring-2 focus:ring-teal-500/20 outline-none"
+                />
+              </fieldset>
+
+              <label className="flex items-center gap-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={isAnonymous}
+                  onChange={(e) => setIsAnonymous(e.target.checked)}
+                  className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                />
+                {t('anonymous')}
+              </label>
+
+              {!isAnonymous && (
+                <input
+                  type="text"
+                  value={donorName}
+                  maxLength={200}
+                  onChange={(e) => setDonorName(e.target.value)}
+                  placeholder={t('name')}
+                  aria-label={t('name')}
+                  className="w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-teal-500 focus:ring-2 focus:ring-teal-500/20 outline-none"
+                />
+              )}
+              <input
+                type="email"
+                value={donorEmail}
+                onChange={(e) => setDonorEmail(e.target.value)}
+                placeholder={t('email')}
+                aria-label={t('email')}
+                className="w-full px-3 py-2 rounded-xl border border-gray-200 focus:border-teal-500 focus:ring-2 focus:ring-teal-500/20 outline-none"
+              />
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full px-5 py-3 rounded-xl bg-teal-600 text-white font-semibold hover:bg-teal-700 disabled:opacity-50"
+              >
+                {isSubmitting
+                  ? t('submitting')
+                  : t('submit', { amount: Number.isFinite(selectedAmount) ? selectedAmount.toLocaleString('en-MY') : '0' })}
+              </button>
+              <p className="text-xs text-gray-500 text-center">{t('newTab')}</p>
+            </form>
+          )}
+
+          <p className="text-[11px] text-gray-400 text-center mt-4">{t('poweredBy')}</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { setRequestLocale } from 'next-intl/server'
+import { and, eq } from 'drizzle-orm'
+import { db, projects } from '@/db'
+import { getLocalizedValue, type Locale } from '@/i18n/config'
+import { parseEmbedAmounts, resolveEmbedOrigin } from '@/lib/embed'
+import EmbedDonateForm from './EmbedDonateForm'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata = {
+  title: 'Donate | Yayasan Insan Prihatin',
+  robots: { index: false, follow: false },
+}
+
+interface SearchParams {
+  project?: string
+  amounts?: string
+  variant?: string
+  site?: string
+}
+
+/**
+ * Donation widget shown in an iframe on partner sites (see /embed.js).
+ * Framing is limited to EMBED_ALLOWED_ORIGINS by the middleware.
+ */
+export default async function EmbedDonatePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<SearchParams>
+}) {
+  const { locale } = await params
+  const query = await searchParams
+  setRequestLocale(locale)
+
+  // Unknown, unpublished or closed projects fall back to the general fund
+  const project = query.project
+    ? await db.query.projects.findFirst({
+      where: and(
+        eq(projects.slug, query.project),
+        eq(projects.isPublished, true),
+        eq(projects.donationEnabled, true)
+      ),
+      columns: { id: true, title: true },
+    })
+    : undefined
+
+  return (
+    <main className="bg-transparent">
+      <EmbedDonateForm
+        projectId={project?.id || null}
+        projectTitle={project ? getLocalizedValue(project.title, locale as Locale) : null}
+        amounts={parseEmbedAmounts(query.amounts)}
+        variant={query.variant === 'button' ? 'button' : 'form'}
+        site={resolveEmbedOrigin(query.site)}
+      />
+    </main>
+  )
+}
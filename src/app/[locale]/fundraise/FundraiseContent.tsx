@@ -0,0 +1,222 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { useLocale, useTranslations } from 'next-intl'
+import { type LocalizedString, type Locale, getLocalizedValue } from '@/i18n/config'
+
+interface FundraiseContentProps {
+  projects: { id: string; title: LocalizedString }[]
+  initialProjectId: string
+}
+
+const inputStyles = 'w-full px-4 py-3 bg-white border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 transition-all'
+
+export default function FundraiseContent({ projects, initialProjectId }: FundraiseContentProps) {
+  const t = useTranslations('fundraiser.create')
+  const locale = useLocale() as Locale
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/fundraisers', {
+        method: 'POST',
+        body: new FormData(e.currentTarget),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || t('error'))
+        return
+      }
+
+      setSubmitted(true)
+    } catch {
+      setError(t('error'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div>
+      {/* Hero Section */}
+      <section className="relative pt-32 pb-24 bg-gradient-to-br from-teal-900 via-teal-800 to-sky-900 overflow-hidden">
+        <div className="absolute inset-0 bg-dots opacity-10" />
+        <div className="relative container-wide z-10">
+          <motion.div
+            initial={{ opacity: 0, y: 40 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8 }}
+            className="max-w-3xl"
+          >
+            <span className="inline-block px-4 py-1.5 mb-6 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 text-sm font-medium text-teal-100">
+              {t('badge')}
+            </span>
+            <h1 className="font-display text-4xl md:text-5xl font-bold text-white leading-tight mb-4">
+              {t('title')}
+            </h1>
+            <p className="text-lg text-white/80 leading-relaxed">{t('subtitle')}</p>
+          </motion.div>
+        </div>
+      </section>
+
+      {/* Form */}
+      <section className="relative -mt-12 z-20 pb-20">
+        <div className="container-wide">
+          <div className="bg-white rounded-3xl shadow-xl border border-gray-100 p-6 md:p-10 max-w-3xl">
+            {submitted ? (
+              <div className="text-center py-8">
+                <div className="w-16 h-16 bg-emerald-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <svg className="w-8 h-8 text-emerald-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                </div>
+                <h2 className="font-heading text-2xl font-semibold text-foundation-charcoal mb-2">
+                  {t('successTitle')}
+                </h2>
+                <p className="text-gray-500 max-w-lg mx-auto">{t('successMessage')}</p>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-5">
+                <div>
+                  <label htmlFor="projectId" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('project')} <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    id="projectId"
+                    name="projectId"
+                    required
+                    defaultValue={initialProjectId}
+                    className={inputStyles}
+                  >
+                    <option value="" disabled>{t('selectProject')}</option>
+                    {projects.map(project => (
+                      <option key={project.id} value={project.id}>
+                        {getLocalizedValue(project.title, locale)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('pageTitle')} <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    id="title"
+                    name="title"
+                    type="text"
+                    required
+                    minLength={5}
+                    maxLength={120}
+                    placeholder={t('pageTitlePlaceholder')}
+                    className={inputStyles}
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="story" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('story')} <span className="text-red-500">*</span>
+                  </label>
+                  <textarea
+                    id="story"
+                    name="story"
+                    required
+                    rows={7}
+                    minLength={50}
+                    maxLength={5000}
+                    placeholder={t('storyPlaceholder')}
+                    className={`${inputStyles} resize-none`}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t('storyHint')}</p>
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-5">
+                  <div>
+                    <label htmlFor="goal" className="block text-sm font-medium text-gray-700 mb-2">
+                      {t('goal')} <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      id="goal"
+                      name="goal"
+                      type="number"
+                      required
+                      min={100}
+                      max={1000000}
+                      step={1}
+                      className={inputStyles}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">{t('goalHint')}</p>
+                  </div>
+                  <div>
+                    <label htmlFor="photo" className="block text-sm font-medium text-gray-700 mb-2">
+                      {t('photo')}
+                    </label>
+                    <input
+                      id="photo"
+                      name="photo"
+                      type="file"
+                      accept="image/*"
+                      className="w-full text-sm text-gray-600 file:mr-3 file:px-4 file:py-2.5 file:rounded-xl file:border-0 file:bg-teal-50 file:text-teal-700 file:font-medium"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">{t('photoHint')}</p>
+                  </div>
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-5">
+                  <div>
+                    <label htmlFor="ownerName" className="block text-sm font-medium text-gray-700 mb-2">
+                      {t('ownerName')} <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      id="ownerName"
+                      name="ownerName"
+                      type="text"
+                      required
+                      maxLength={100}
+                      className={inputStyles}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="ownerEmail" className="block text-sm font-medium text-gray-700 mb-2">
+                      {t('ownerEmail')} <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      id="ownerEmail"
+                      name="ownerEmail"
+                      type="email"
+                      required
+                      className={inputStyles}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 -mt-2">{t('ownerEmailHint')}</p>
+
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? t('submitting') : t('submit')}
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      </section>
+    </div>
+  )
+}
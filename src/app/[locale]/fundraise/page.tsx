@@ -0,0 +1,62 @@
+import { Metadata } from 'next'
+import { setRequestLocale, getTranslations } from 'next-intl/server'
+import { and, desc, eq } from 'drizzle-orm'
+import { db, projects } from '@/db'
+import { Header, Footer } from '@/components/layout'
+import FundraiseContent from './FundraiseContent'
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>
+}): Promise<Metadata> {
+  const { locale } = await params
+  const t = await getTranslations({ locale, namespace: 'fundraiser.create' })
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://insanprihatin.org'
+
+  return {
+    title: t('title'),
+    description: t('subtitle'),
+    alternates: {
+      canonical: `${baseUrl}/${locale}/fundraise`,
+      languages: {
+        'en': `${baseUrl}/en/fundraise`,
+        'ms': `${baseUrl}/ms/fundraise`,
+      },
+    },
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+export default async function FundraisePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<{ project?: string }>
+}) {
+  const { locale } = await params
+  const { project } = await searchParams
+  setRequestLocale(locale)
+
+  const projectOptions = await db.query.projects.findMany({
+    where: and(eq(projects.isPublished, true), eq(projects.donationEnabled, true)),
+    orderBy: [desc(projects.createdAt)],
+    columns: { id: true, title: true },
+  })
+
+  return (
+    <>
+      <Header />
+      <main>
+        <FundraiseContent
+          projects={projectOptions}
+          initialProjectId={projectOptions.some(p => p.id === project) ? project! : ''}
+        />
+      </main>
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,208 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { motion } from 'framer-motion'
+import { useLocale, useTranslations } from 'next-intl'
+import type { FundraiserProgress } from '@/lib/fundraisers'
+import { type LocalizedString, type Locale, getLocalizedValue } from '@/i18n/config'
+
+interface FundraiserContentProps {
+  fundraiser: {
+    id: string
+    title: string
+    story: string
+    ownerName: string
+    photoUrl: string | null
+  }
+  project: {
+    id: string
+    slug: string
+    title: LocalizedString
+    featuredImage: string | null
+  }
+  isOpen: boolean
+  progress: FundraiserProgress
+}
+
+const defaultImage = 'https://images.unsplash.com/photo-1469571486292-0ba58a3f068b?q=80&w=2670'
+
+function formatCurrency(cents: number) {
+  return new Intl.NumberFormat('ms-MY', {
+    style: 'currency',
+    currency: 'MYR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(cents / 100)
+}
+
+export default function FundraiserContent({
+  fundraiser,
+  project,
+  isOpen,
+  progress,
+}: FundraiserContentProps) {
+  const t = useTranslations('fundraiser')
+  const locale = useLocale() as Locale
+  const [copied, setCopied] = useState(false)
+
+  const projectTitle = getLocalizedValue(project.title, locale)
+
+  const handleShare = async () => {
+    const url = window.location.href
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: fundraiser.title, url })
+      } catch {
+        // Share sheet dismissed
+      }
+      return
+    }
+
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div>
+      {/* Hero Section */}
+      <section className="relative pt-32 pb-20 overflow-hidden">
+        <div className="absolute inset-0">
+          <Image
+            src={fundraiser.photoUrl || project.featuredImage || defaultImage}
+            alt={fundraiser.title}
+            fill
+            className="object-cover"
+            priority
+          />
+          <div className="absolute inset-0 bg-gradient-to-br from-teal-900/95 via-teal-800/90 to-sky-900/85" />
+          <div className="absolute inset-0 bg-dots opacity-10" />
+        </div>
+
+        <div className="relative container-wide z-10">
+          <motion.div
+            initial={{ opacity: 0, y: 40 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8 }}
+            className="max-w-3xl"
+          >
+            <span className="inline-block px-4 py-1.5 mb-6 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 text-sm font-medium text-teal-100">
+              {t('badge')}
+            </span>
+            <h1 className="font-display text-4xl md:text-5xl lg:text-6xl font-bold text-white leading-tight mb-4">
+              {fundraiser.title}
+            </h1>
+            <p className="text-lg text-white/80">{t('by', { name: fundraiser.ownerName })}</p>
+          </motion.div>
+        </div>
+      </section>
+
+      {/* Progress */}
+      <section className="relative -mt-10 z-20">
+        <div className="container-wide">
+          <div className="bg-white rounded-3xl shadow-xl border border-gray-100 p-6 md:p-8 max-w-4xl">
+            <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+              <div>
+                <p className="font-display text-4xl font-bold text-foundation-charcoal">
+                  {formatCurrency(progress.raised)}
+                </p>
+                <p className="text-gray-500">{t('ofGoal', { goal: formatCurrency(progress.goal) })}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-teal-600">{progress.percent.toFixed(0)}%</p>
+                <p className="text-sm text-gray-500">{t('funded')}</p>
+              </div>
+            </div>
+
+            <div className="h-4 bg-gray-100 rounded-full overflow-hidden" role="progressbar" aria-valuenow={Math.round(progress.percent)} aria-valuemin={0} aria-valuemax={100}>
+              <motion.div
+                initial={{ width: 0 }}
+                animate={{ width: `${progress.percent}%` }}
+                transition={{ duration: 1, ease: 'easeOut' }}
+                className="h-full bg-gradient-to-r from-teal-500 to-teal-400"
+              />
+            </div>
+
+            <p className="mt-4 text-sm text-gray-500">{t('donors', { count: progress.donorCount })}</p>
+
+            {isOpen ? (
+              <div className="mt-6 flex flex-wrap gap-3">
+                <Link
+                  href={`/donate?project=${project.id}&fundraiser=${fundraiser.id}`}
+                  className="btn-primary inline-flex"
+                >
+                  {t('donateNow')}
+                </Link>
+                <button
+                  type="button"
+                  onClick={handleShare}
+                  className="inline-flex items-center px-6 py-3 rounded-xl border border-gray-200 text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+                >
+                  {copied ? t('copied') : t('share')}
+                </button>
+              </div>
+            ) : (
+              <div className="mt-6 text-gray-600">
+                <p className="font-semibold text-foundation-charcoal">{t('closed')}</p>
+                <p className="mt-1">{t('closedDescription')}</p>
+                <Link
+                  href={`/donate?project=${project.id}`}
+                  className="inline-block mt-3 text-teal-600 font-medium hover:text-teal-700"
+                >
+                  {t('donateToProject')}
+                </Link>
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      {/* Story & Project */}
+      <section className="py-20">
+        <div className="container-wide grid lg:grid-cols-3 gap-10">
+          <div className="lg:col-span-2">
+            <h2 className="font-heading text-3xl font-bold text-foundation-charcoal mb-6">
+              {t('storyTitle')}
+            </h2>
+            <p className="text-gray-700 text-lg leading-relaxed whitespace-pre-line">{fundraiser.story}</p>
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+              <div className="relative h-40">
+                <Image
+                  src={project.featuredImage || defaultImage}
+                  alt={projectTitle}
+                  fill
+                  className="object-cover"
+                />
+              </div>
+              <div className="p-6">
+                <p className="text-sm text-gray-500 mb-1">{t('raisingFor')}</p>
+                <Link
+                  href={`/projects/${project.slug}`}
+                  className="font-heading text-xl font-semibold text-foundation-charcoal hover:text-teal-600"
+                >
+                  {projectTitle}
+                </Link>
+              </div>
+            </div>
+
+            <div className="bg-gradient-to-br from-teal-50 to-sky-50 rounded-2xl border border-teal-100 p-6">
+              <h3 className="font-heading text-lg font-semibold text-foundation-charcoal mb-2">{t('startYourOwn')}</h3>
+              <p className="text-gray-600 text-sm mb-4">{t('startYourOwnDescription')}</p>
+              <Link
+                href={`/fundraise?project=${project.id}`}
+                className="text-teal-600 font-medium hover:text-teal-700"
+              >
+                {t('create.title')} →
+              </Link>
+            </div>
+          </div>
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { setRequestLocale } from 'next-intl/server'
+import { eq } from 'drizzle-orm'
+import { db, projects } from '@/db'
+import { Header, Footer } from '@/components/layout'
+import { getFundraiserProgress, getPublicFundraiser } from '@/lib/fundraisers'
+import FundraiserContent from './FundraiserContent'
+
+interface PageProps {
+  params: Promise<{ slug: string; locale: string }>
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug, locale } = await params
+  const fundraiser = await getPublicFundraiser(slug)
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://insanprihatin.org'
+
+  if (!fundraiser) {
+    return {
+      title: locale === 'ms' ? 'Kutipan Tidak Dijumpai' : 'Fundraiser Not Found',
+    }
+  }
+
+  const description = fundraiser.story.substring(0, 160)
+
+  return {
+    title: fundraiser.title,
+    description,
+    alternates: {
+      canonical: `${baseUrl}/${locale}/fundraisers/${slug}`,
+      languages: {
+        'en': `${baseUrl}/en/fundraisers/${slug}`,
+        'ms': `${baseUrl}/ms/fundraisers/${slug}`,
+      },
+    },
+    openGraph: {
+      title: `${fundraiser.title} | Yayasan Insan Prihatin`,
+      description,
+      images: fundraiser.photoUrl ? [fundraiser.photoUrl] : undefined,
+      locale: locale === 'ms' ? 'ms_MY' : 'en_MY',
+    },
+  }
+}
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+export default async function FundraiserPage({ params }: PageProps) {
+  const { slug, locale } = await params
+  setRequestLocale(locale)
+
+  const fundraiser = await getPublicFundraiser(slug)
+
+  if (!fundraiser) {
+    notFound()
+  }
+
+  const [progress, project] = await Promise.all([
+    getFundraiserProgress(fundraiser),
+    db.query.projects.findFirst({
+      where: eq(projects.id, fundraiser.projectId),
+      columns: {
+        id: true,
+        slug: true,
+        title: true,
+        featuredImage: true,
+        isPublished: true,
+        donationEnabled: true,
+      },
+    }),
+  ])
+
+  if (!project || !project.isPublished) {
+    notFound()
+  }
+
+  return (
+    <>
+      <Header />
+      <main>
+        <FundraiserContent
+          fundraiser={{
+            id: fundraiser.id,
+            title: fundraiser.title,
+            story: fundraiser.story,
+            ownerName: fundraiser.ownerName,
+            photoUrl: fundraiser.photoUrl,
+          }}
+          project={{
+            id: project.id,
+            slug: project.slug,
+            title: project.title,
+            featuredImage: project.featuredImage,
+          }}
+          isOpen={fundraiser.status === 'approved' && !!project.donationEnabled}
+          progress={progress}
+        />
+      </main>
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,182 @@
+import { Metadata } from 'next'
+import { headers } from 'next/headers'
+import { setRequestLocale } from 'next-intl/server'
+import { Header, Footer } from '@/components/layout'
+import { getBlogPosts } from '@/lib/actions/blog'
+import { getProjects } from '@/lib/actions/projects'
+import { extractFormSlugs, getFormsBySlugs } from '@/lib/actions/forms'
+import { getSession } from '@/lib/auth/server'
+import { openPreview } from '@/lib/preview-links'
+import BlogPostContent from '../blog/[slug]/BlogPostContent'
+import ProjectDetailContent from '../projects/[slug]/ProjectDetailContent'
+import { type LocalizedString, type Locale, getLocalizedValue } from '@/i18n/config'
+
+interface PageProps {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<{ token?: string }>
+}
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale } = await params
+  return {
+    title: locale === 'ms' ? 'Pratonton | Yayasan Insan Prihatin' : 'Preview | Yayasan Insan Prihatin',
+    robots: { index: false, follow: false },
+  }
+}
+
+// Forms embedded in the content, shaped as the content components expect
+async function getEmbeddedForms(content: string) {
+  const formSlugs = content ? await extractFormSlugs(content) : []
+  const forms = formSlugs.length > 0 ? await getFormsBySlugs(formSlugs) : []
+
+  return forms.map(form => ({
+    id: form.id,
+    name: form.name,
+    slug: form.slug,
+    title: form.title || undefined,
+    description: form.description || undefined,
+    submitButtonText: form.submitButtonText || undefined,
+    successMessage: form.successMessage || undefined,
+    fields: form.fields as unknown as Array<{
+      id: string
+      type: 'text' | 'email' | 'phone' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'date' | 'number'
+      label: string
+      placeholder?: string
+      required?: boolean
+      options?: string[]
+    }>,
+    isActive: form.isActive || false,
+  }))
+}
+
+function PreviewBanner({ locale, token, expiresAt, isPublished }: {
+  locale: 'en' | 'ms'
+  token: string
+  expiresAt: Date
+  isPublished: boolean
+}) {
+  const otherLocale = locale === 'ms' ? 'en' : 'ms'
+  const expires = expiresAt.toLocaleString(locale === 'ms' ? 'ms-MY' : 'en-MY', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'Asia/Kuala_Lumpur',
+  })
+
+  return (
+    // Pinned to the bottom so it stays clear of the fixed header
+    <div className="fixed bottom-0 left-0 right-0 z-50 bg-amber-400 text-amber-950 text-sm shadow-lg">
+      <div className="max-w-7xl mx-auto px-4 py-2 flex flex-wrap items-center justify-between gap-2">
+        <p>
+          <span className="font-semibold uppercase tracking-wide mr-2">{locale === 'ms' ? 'Pratonton' : 'Preview'}</span>
+          {isPublished
+            ? (locale === 'ms' ? 'Kandungan ini sudah diterbitkan.' : 'This content is already published.')
+            : (locale === 'ms' ? 'Kandungan ini belum diterbitkan.' : 'This content is not published yet.')}
+          {' '}
+          {locale === 'ms' ? `Pautan tamat pada ${expires}.` : `Link expires ${expires}.`}
+        </p>
+        <a
+          href={`/${otherLocale}/preview?token=${encodeURIComponent(token)}`}
+          className="font-medium underline underline-offset-2 hover:no-underline"
+        >
+          {otherLocale === 'ms' ? 'Lihat dalam Bahasa Melayu' : 'View in English'}
+        </a>
+      </div>
+    </div>
+  )
+}
+
+export default async function PreviewPage({ params, searchParams }: PageProps) {
+  const { locale } = await params
+  const { token } = await searchParams
+  setRequestLocale(locale)
+
+  const previewLocale = locale === 'ms' ? 'ms' : 'en'
+  const headersList = await headers()
+  const session = await getSession()
+
+  const preview = token
+    ? await openPreview(token, {
+        locale: previewLocale,
+        viewerEmail: session?.user?.email,
+        ipAddress: headersList.get('x-forwarded-for') || headersList.get('x-real-ip'),
+        userAgent: headersList.get('user-agent'),
+      })
+    : null
+
+  if (!preview || !token) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-[60vh] flex items-center justify-center px-4 py-32">
+          <div className="max-w-md text-center">
+            <h1 className="font-heading text-2xl font-semibold text-foundation-charcoal mb-3">
+              {previewLocale === 'ms' ? 'Pautan pratonton tidak sah' : 'Preview link not available'}
+            </h1>
+            <p className="text-gray-600">
+              {previewLocale === 'ms'
+                ? 'Pautan ini telah tamat tempoh atau dibatalkan. Minta pautan baharu daripada orang yang berkongsinya.'
+                : 'This link has expired or been revoked. Ask whoever shared it for a new link.'}
+            </p>
+          </div>
+        </main>
+        <Footer />
+      </>
+    )
+  }
+
+  // Helper for this scope
+  const l = (value: LocalizedString | string | null | undefined): string => {
+    if (!value) return ''
+    if (typeof value === 'string') return value
+    return getLocalizedValue(value, locale as Locale)
+  }
+
+  if (preview.contentType === 'blog_posts') {
+    const { post } = preview
+    const allPosts = await getBlogPosts({ published: true })
+    const relatedPosts = allPosts
+      .filter((p) => p.id !== post.id && (post.category ? p.category === post.category : true))
+      .slice(0, 3)
+
+    return (
+      <>
+        <PreviewBanner locale={previewLocale} token={token} expiresAt={preview.link.expiresAt} isPublished={!!post.isPublished} />
+        <Header />
+        <main>
+          <BlogPostContent
+            post={post}
+            relatedPosts={relatedPosts}
+            forms={await getEmbeddedForms(l(post.content))}
+          />
+        </main>
+        <Footer />
+        <div className="h-12" />
+      </>
+    )
+  }
+
+  const { project } = preview
+  const allProjects = await getProjects({ published: true, category: project.category || undefined })
+  const relatedProjects = allProjects
+    .filter((p) => p.id !== project.id)
+    .slice(0, 3)
+
+  return (
+    <>
+      <PreviewBanner locale={previewLocale} token={token} expiresAt={preview.link.expiresAt} isPublished={!!project.isPublished} />
+      <Header />
+      <main>
+        <ProjectDetailContent
+          project={project}
+          relatedProjects={relatedProjects}
+          forms={await getEmbeddedForms(l(project.content))}
+        />
+      </main>
+      <Footer />
+      <div className="h-12" />
+    </>
+  )
+}
@@ -35,6 +35,7 @@ export default function BlogPostsList({ initialPosts }: { initialPosts: BlogPost
   const [filter, setFilter] = useState<'all' | 'published' | 'draft'>('all')
   const [isPending, startTransition] = useTransition()
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
+  const [publishError, setPublishError] = useState<string | null>(null)
 
   const filteredPosts = posts.filter(post => {
     const matchesSearch = getTitle(post.title).toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -48,7 +49,12 @@ export default function BlogPostsList({ initialPosts }: { initialPosts: BlogPost
   const handleTogglePublish = (id: string, currentStatus: boolean | null) => {
     const newStatus = !currentStatus
     startTransition(async () => {
-      await updateBlogPost(id, { isPublished: newStatus })
+      const result = await updateBlogPost(id, { isPublished: newStatus })
+      if (!result.success) {
+        setPublishError(result.error || 'Failed to update')
+        return
+      }
+      setPublishError(null)
       setPosts(posts.map(p => p.id === id ? { ...p, isPublished: newStatus } : p))
     })
   }
@@ -63,6 +69,11 @@ export default function BlogPostsList({ initialPosts }: { initialPosts: BlogPost
 
   return (
     <div className="bg-white rounded-2xl border border-gray-100">
+      {publishError && (
+        <div className="m-4 mb-0 p-3 rounded-xl text-sm bg-red-50 border border-red-200 text-red-700">
+          {publishError}
+        </div>
+      )}
       {/* Toolbar */}
       <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row gap-4">
         <div className="relative flex-1">
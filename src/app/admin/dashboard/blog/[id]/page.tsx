@@ -4,12 +4,19 @@ import { useState, useEffect, useTransition, useCallback, use } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { motion, AnimatePresence } from 'framer-motion'
-import { createBlogPost, updateBlogPost } from '@/lib/actions/blog'
+import { createBlogPost, updateBlogPost, setBlogPostSchedule } from '@/lib/actions/blog'
 import ImageUpload from '@/components/admin/ImageUpload'
 import RichMarkdownEditor from '@/components/admin/RichMarkdownEditor'
 import SEOPreview from '@/components/admin/SEOPreview'
 import PublishScheduler from '@/components/admin/PublishScheduler'
+import ReviewPanel from '@/components/admin/ReviewPanel'
+import PreviewLinksPanel from '@/components/admin/PreviewLinksPanel'
+import EditLeaseBanner from '@/components/admin/EditLeaseBanner'
+import EditConflictDialog from '@/components/admin/EditConflictDialog'
 import { useAutoSave, AutoSaveIndicator } from '@/hooks/useAutoSave'
+import { useEditLease } from '@/hooks/useEditLease'
+import { mergeContent, resolveMerge, type ConflictChoice, type MergeResult } from '@/lib/content-merge'
+import type { EditConflict } from '@/lib/edit-leases'
 import { type LocalizedString } from '@/i18n/config'
 
 function generateSlug(title: string) {
@@ -37,9 +44,73 @@ type FormData = {
   metaDescription: LocalizedString
   isPublished: boolean
   scheduledFor: Date | null
+  scheduledUnpublishAt: Date | null
   publishedAt: Date | null
 }
 
+// A post as returned by /api/blog/[id]
+type BlogPostRecord = {
+  title: LocalizedString | string | null
+  slug: string | null
+  excerpt: LocalizedString | string | null
+  content: LocalizedString | string | null
+  featuredImage: string | null
+  category: string | null
+  tags: string[] | null
+  metaTitle: LocalizedString | string | null
+  metaDescription: LocalizedString | string | null
+  isPublished: boolean | null
+  scheduledPublishAt: string | null
+  scheduledUnpublishAt: string | null
+  publishedAt: string | null
+  revision: number
+}
+
+// A save refused because someone else saved first
+type PendingConflict = {
+  info: EditConflict
+  result: MergeResult<FormData>
+  theirs: FormData
+  revision: number
+}
+
+function normalizeField(field: LocalizedString | string | null): LocalizedString {
+  if (!field) return { en: '', ms: '' }
+  if (typeof field === 'string') return { en: field, ms: field }
+  return { en: field.en || '', ms: field.ms || '' }
+}
+
+function toFormData(post: BlogPostRecord): FormData {
+  return {
+    title: normalizeField(post.title),
+    slug: post.slug || '',
+    excerpt: normalizeField(post.excerpt),
+    content: normalizeField(post.content),
+    featuredImage: post.featuredImage || '',
+    category: post.category || '',
+    tags: post.tags || [],
+    metaTitle: normalizeField(post.metaTitle),
+    metaDescription: normalizeField(post.metaDescription),
+    isPublished: post.isPublished || false,
+    scheduledFor: post.scheduledPublishAt ? new Date(post.scheduledPublishAt) : null,
+    scheduledUnpublishAt: post.scheduledUnpublishAt ? new Date(post.scheduledUnpublishAt) : null,
+    publishedAt: post.publishedAt ? new Date(post.publishedAt) : null,
+  }
+}
+
+// Fields reviewers can comment on
+const REVIEW_FIELDS = [
+  { key: 'title', label: 'Title' },
+  { key: 'slug', label: 'Slug' },
+  { key: 'excerpt', label: 'Excerpt' },
+  { key: 'content', label: 'Content' },
+  { key: 'featuredImage', label: 'Featured image' },
+  { key: 'category', label: 'Category' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'metaTitle', label: 'Meta title' },
+  { key: 'metaDescription', label: 'Meta description' },
+]
+
 export default function BlogPostEditor({ params }: { params: Promise<{ id: string }> }) {
   const resolvedParams = use(params)
   const isNew = resolvedParams.id === 'new'
@@ -62,15 +133,69 @@ export default function BlogPostEditor({ params }: { params: Promise<{ id: strin
     metaDescription: { en: '', ms: '' },
     isPublished: false,
     scheduledFor: null,
+    scheduledUnpublishAt: null,
     publishedAt: null,
   })
 
   const [tagInput, setTagInput] = useState('')
 
+  // Revision of the post as loaded or last saved, and the post as it was then
+  const [revision, setRevision] = useState(1)
+  const [baseData, setBaseData] = useState<FormData | null>(null)
+  const [conflict, setConflict] = useState<PendingConflict | null>(null)
+
+  const editLease = useEditLease({
+    contentType: 'blog_posts',
+    contentId: resolvedParams.id,
+    enabled: !isNew,
+  })
+
+  // Someone else saved since we loaded the post: merge their changes into ours
+  const handleConflict = useCallback(async (mine: FormData, info: EditConflict) => {
+    const response = await fetch(`/api/blog/${resolvedParams.id}`, { cache: 'no-store' })
+    if (!response.ok) throw new Error('Failed to load the latest version of the post')
+    const post: BlogPostRecord = await response.json()
+    const theirs = toFormData(post)
+    const result = mergeContent(baseData ?? theirs, mine, theirs)
+
+    if (result.conflicts.length > 0) {
+      setConflict({ info, result, theirs, revision: post.revision })
+      return
+    }
+    setFormData(result.merged)
+    setRevision(post.revision)
+    setBaseData(theirs)
+    setMessage({
+      type: 'success',
+      text: `${info.changedByName || 'Someone'} saved this post while you were editing. Their changes are merged in; save again to keep yours.`,
+    })
+  }, [resolvedParams.id, baseData])
+
+  const handleResolveConflict = (choices: Record<string, ConflictChoice>) => {
+    if (!conflict) return
+    setFormData(resolveMerge(conflict.result, choices))
+    setRevision(conflict.revision)
+    setBaseData(conflict.theirs)
+    setConflict(null)
+    setMessage({ type: 'success', text: 'Changes merged. Review the post, then save.' })
+  }
+
+  const handleTakeOver = async () => {
+    try {
+      const result = await editLease.takeOver()
+      if (!result.success) {
+        setMessage({ type: 'error', text: result.error || 'Failed to take over editing' })
+      }
+    } catch (error) {
+      console.error('Failed to take over editing:', error)
+      setMessage({ type: 'error', text: 'Failed to take over editing. Please try again.' })
+    }
+  }
+
   // Auto-save functionality
   const handleAutoSave = useCallback(async (data: FormData) => {
     if (isNew) return // Don't auto-save new posts
-    await updateBlogPost(resolvedParams.id, {
+    const result = await updateBlogPost(resolvedParams.id, {
       title: data.title,
       slug: data.slug,
       excerpt: data.excerpt,
@@ -80,14 +205,22 @@ export default function BlogPostEditor({ params }: { params: Promise<{ id: strin
       tags: data.tags,
       metaTitle: data.metaTitle,
       metaDescription: data.metaDescription,
-    })
-  }, [isNew, resolvedParams.id])
+    }, { baseRevision: revision })
+
+    if (!result.success) {
+      if (result.conflict) await handleConflict(data, result.conflict)
+      throw new Error(result.error || 'Failed to save post')
+    }
+    setRevision(result.revision ?? revision)
+    setBaseData(data)
+  }, [isNew, resolvedParams.id, revision, handleConflict])
 
+  // Only the tab holding the edit lease auto-saves
   const autoSave = useAutoSave({
     data: formData,
     onSave: handleAutoSave,
     interval: 30000,
-    enabled: !isNew && !isLoading,
+    enabled: !isNew && !isLoading && editLease.isEditing && !conflict,
   })
 
   // Load existing post
@@ -97,28 +230,12 @@ export default function BlogPostEditor({ params }: { params: Promise<{ id: strin
         try {
           const response = await fetch(`/api/blog/${resolvedParams.id}`)
           if (response.ok) {
-            const post = await response.json()
+            const post: BlogPostRecord | null = await response.json()
             if (post) {
-              const normalizeField = (field: LocalizedString | string | null): LocalizedString => {
-                if (!field) return { en: '', ms: '' }
-                if (typeof field === 'string') return { en: field, ms: field }
-                return { en: field.en || '', ms: field.ms || '' }
-              }
-
-              setFormData({
-                title: normalizeField(post.title),
-                slug: post.slug || '',
-                excerpt: normalizeField(post.excerpt),
-                content: normalizeField(post.content),
-                featuredImage: post.featuredImage || '',
-                category: post.category || '',
-                tags: (post.tags as string[]) || [],
-                metaTitle: normalizeField(post.metaTitle),
-                metaDescription: normalizeField(post.metaDescription),
-                isPublished: post.isPublished || false,
-                scheduledFor: post.scheduledFor ? new Date(post.scheduledFor) : null,
-                publishedAt: post.publishedAt ? new Date(post.publishedAt) : null,
-              })
+              const data = toFormData(post)
+              setFormData(data)
+              setRevision(post.revision)
+              setBaseData(data)
             }
           }
         } catch (error) {
@@ -229,14 +346,30 @@ export default function BlogPostEditor({ params }: { params: Promise<{ id: strin
           if (result.success) {
             setMessage({ type: 'success', text: 'Post created successfully!' })
             router.push('/admin/dashboard/blog')
+          } else {
+            setMessage({ type: 'error', text: result.error || 'Failed to create post' })
           }
         } else {
-          const result = await updateBlogPost(resolvedParams.id, data)
+          const result = await updateBlogPost(resolvedParams.id, data, { baseRevision: revision })
           if (result.success) {
-            setMessage({ type: 'success', text: publish ? 'Post published!' : 'Post saved!' })
-            if (publish !== undefined) {
-              setFormData({ ...formData, isPublished: publish })
+            setMessage({
+              type: 'success',
+              text: publish ? 'Post published!' : result.pendingReview ? 'Changes saved. They go live once another admin approves them.' : 'Post saved!',
+            })
+            setRevision(result.revision ?? revision)
+            setBaseData(formData)
+            if (publish !== undefined && publish !== formData.isPublished) {
+              // Publishing by hand replaces the matching schedule
+              setFormData({
+                ...formData,
+                isPublished: publish,
+                ...(publish ? { scheduledFor: null } : { scheduledUnpublishAt: null }),
+              })
             }
+          } else if (result.conflict) {
+            await handleConflict(formData, result.conflict)
+          } else {
+            setMessage({ type: 'error', text: result.error || 'Failed to save post' })
           }
         }
       } catch (error) {
@@ -248,15 +381,42 @@ export default function BlogPostEditor({ params }: { params: Promise<{ id: strin
 
   const handlePublish = () => handleSave(true)
   const handleUnpublish = () => handleSave(false)
-  const handleSchedule = (date: Date) => {
-    setFormData({ ...formData, scheduledFor: date })
-    // TODO: Implement scheduling in backend
-    setMessage({ type: 'success', text: `Scheduled for ${date.toLocaleString()}` })
-  }
-  const handleCancelSchedule = () => {
-    setFormData({ ...formData, scheduledFor: null })
-    setMessage({ type: 'success', text: 'Schedule cancelled' })
+  const saveSchedule = (schedule: { publishAt: Date | null; unpublishAt: Date | null }, successText: string) => {
+    if (isNew) {
+      setMessage({ type: 'error', text: 'Save the post before scheduling it' })
+      return
+    }
+
+    setMessage(null)
+    startTransition(async () => {
+      try {
+        const result = await setBlogPostSchedule(resolvedParams.id, schedule)
+        if (result.success) {
+          setFormData({ ...formData, scheduledFor: schedule.publishAt, scheduledUnpublishAt: schedule.unpublishAt })
+          // Skip the revision if someone else saved in between, so our next save merges their changes
+          if (result.revision === revision + 1) {
+            setRevision(result.revision)
+            setBaseData(base => base && { ...base, scheduledFor: schedule.publishAt, scheduledUnpublishAt: schedule.unpublishAt })
+          }
+          setMessage({ type: 'success', text: successText })
+        } else {
+          setMessage({ type: 'error', text: result.error || 'Failed to update schedule' })
+        }
+      } catch (error) {
+        console.error('Failed to update schedule:', error)
+        setMessage({ type: 'error', text: 'Failed to update schedule. Please try again.' })
+      }
+    })
   }
+  const handleSchedule = (date: Date) =>
+    saveSchedule({ publishAt: date, unpublishAt: formData.scheduledUnpublishAt }, `Scheduled for ${date.toLocaleString()}`)
+  // Without a publish time there is nothing left for the unpublish time to follow
+  const handleCancelSchedule = () =>
+    saveSchedule({ publishAt: null, unpublishAt: formData.isPublished ? formData.scheduledUnpublishAt : null }, 'Schedule cancelled')
+  const handleScheduleUnpublish = (date: Date) =>
+    saveSchedule({ publishAt: formData.scheduledFor, unpublishAt: date }, `Scheduled to unpublish ${date.toLocaleString()}`)
+  const handleCancelUnpublishSchedule = () =>
+    saveSchedule({ publishAt: formData.scheduledFor, unpublishAt: null }, 'Schedule cancelled')
 
   if (isLoading) {
     return (
@@ -347,8 +507,28 @@ export default function BlogPostEditor({ params }: { params: Promise<{ id: strin
             </div>
           </div>
         </div>
+        <EditLeaseBanner
+          status={editLease.status}
+          lease={editLease.lease}
+          isTakingOver={editLease.isTakingOver}
+          onTakeOver={handleTakeOver}
+          noun="post"
+        />
       </div>
 
+      {/* Conflicting Changes Dialog */}
+      <AnimatePresence>
+        {conflict && (
+          <EditConflictDialog
+            conflicts={conflict.result.conflicts}
+            changedByName={conflict.info.changedByName}
+            changedAt={conflict.info.updatedAt}
+            fields={REVIEW_FIELDS}
+            onResolve={handleResolveConflict}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Keyboard Shortcuts Modal */}
       <AnimatePresence>
         {showShortcuts && (
@@ -544,13 +724,31 @@ export default function BlogPostEditor({ params }: { params: Promise<{ id: strin
               isPublished={formData.isPublished}
               publishedAt={formData.publishedAt}
               scheduledFor={formData.scheduledFor}
+              scheduledUnpublishAt={formData.scheduledUnpublishAt}
               onPublish={handlePublish}
               onUnpublish={handleUnpublish}
               onSchedule={handleSchedule}
               onCancelSchedule={handleCancelSchedule}
+              onScheduleUnpublish={handleScheduleUnpublish}
+              onCancelUnpublishSchedule={handleCancelUnpublishSchedule}
               isPending={isPending}
             />
 
+            {/* Editorial review */}
+            {!isNew && (
+              <ReviewPanel
+                contentType="blog_posts"
+                contentId={resolvedParams.id}
+                fields={REVIEW_FIELDS}
+                isPublished={formData.isPublished}
+              />
+            )}
+
+            {/* Shareable preview */}
+            {!isNew && (
+              <PreviewLinksPanel contentType="blog_posts" contentId={resolvedParams.id} />
+            )}
+
             {/* Featured Image */}
             <div className="bg-white rounded-2xl p-6 border border-gray-100 shadow-sm">
               <h3 className="font-medium text-foundation-charcoal mb-4 flex items-center gap-2">
@@ -0,0 +1,398 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import BilingualInput, { type LocalizedValue } from '@/components/admin/BilingualInput'
+import ImageUpload from '@/components/admin/ImageUpload'
+import { createCampaign, updateCampaign, deleteCampaign } from '@/lib/actions/campaigns'
+
+interface CampaignEditorProps {
+  campaign: {
+    id: string
+    slug: string
+    title: LocalizedValue
+    description: LocalizedValue | null
+    featuredImage: string | null
+    startsAt: string
+    endsAt: string
+    goal: number // In cents
+    projectIds: string[]
+    matchingRules: { sponsor: string; ratio: number; cap: number }[]
+    isPublished: boolean
+  } | null
+  projects: { id: string; title: string; isPublished: boolean }[]
+}
+
+// Amounts are edited in RM
+interface MatchingRuleForm {
+  sponsor: string
+  ratio: string
+  cap: string
+}
+
+const inputClass = 'w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 text-sm'
+const labelClass = 'block text-xs font-medium text-gray-500 mb-1'
+
+function generateSlug(title: string) {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '')
+}
+
+// datetime-local inputs take local time without a zone
+function toLocalInput(iso: string) {
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+export default function CampaignEditor({ campaign, projects }: CampaignEditorProps) {
+  const router = useRouter()
+  const isNew = !campaign
+  const [isPending, startTransition] = useTransition()
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const [title, setTitle] = useState<LocalizedValue>(campaign?.title || { en: '', ms: '' })
+  const [description, setDescription] = useState<LocalizedValue>(campaign?.description || { en: '', ms: '' })
+  const [slug, setSlug] = useState(campaign?.slug || '')
+  const [featuredImage, setFeaturedImage] = useState(campaign?.featuredImage || '')
+  const [startsAt, setStartsAt] = useState(campaign ? toLocalInput(campaign.startsAt) : '')
+  const [endsAt, setEndsAt] = useState(campaign ? toLocalInput(campaign.endsAt) : '')
+  const [goal, setGoal] = useState(campaign ? (campaign.goal / 100).toString() : '')
+  const [projectIds, setProjectIds] = useState<string[]>(campaign?.projectIds || [])
+  const [matchingRules, setMatchingRules] = useState<MatchingRuleForm[]>(
+    (campaign?.matchingRules || []).map(rule => ({
+      sponsor: rule.sponsor,
+      ratio: rule.ratio.toString(),
+      cap: (rule.cap / 100).toString(),
+    }))
+  )
+  const [isPublished, setIsPublished] = useState(campaign?.isPublished ?? false)
+
+  const handleTitleChange = (value: LocalizedValue) => {
+    setTitle(value)
+    if (isNew) setSlug(generateSlug(value.en || value.ms))
+  }
+
+  const toggleProject = (id: string) => {
+    setProjectIds(ids => ids.includes(id) ? ids.filter(p => p !== id) : [...ids, id])
+  }
+
+  const updateRule = (index: number, field: keyof MatchingRuleForm, value: string) => {
+    setMatchingRules(rules => rules.map((rule, i) => i === index ? { ...rule, [field]: value } : rule))
+  }
+
+  const handleSave = (publish?: boolean) => {
+    if (!startsAt || !endsAt) {
+      setMessage({ type: 'error', text: 'Start and end dates are required' })
+      return
+    }
+
+    const nextPublished = publish !== undefined ? publish : isPublished
+
+    setMessage(null)
+    startTransition(async () => {
+      try {
+        const data = {
+          slug,
+          title,
+          description: description.en || description.ms ? description : null,
+          featuredImage: featuredImage || null,
+          startsAt: new Date(startsAt),
+          endsAt: new Date(endsAt),
+          goal: Math.round((parseFloat(goal) || 0) * 100),
+          projectIds,
+          matchingRules: matchingRules.map(rule => ({
+            sponsor: rule.sponsor,
+            ratio: parseFloat(rule.ratio) || 0,
+            cap: Math.round((parseFloat(rule.cap) || 0) * 100),
+          })),
+          isPublished: nextPublished,
+        }
+
+        const result = isNew
+          ? await createCampaign(data)
+          : await updateCampaign(campaign.id, data)
+
+        if (!result.success) {
+          setMessage({ type: 'error', text: result.error || 'Failed to save campaign' })
+          return
+        }
+
+        setIsPublished(nextPublished)
+        setMessage({ type: 'success', text: isNew ? 'Campaign created successfully!' : 'Campaign updated successfully!' })
+        if (isNew) {
+          router.push('/admin/dashboard/campaigns')
+        } else {
+          router.refresh()
+        }
+      } catch (error) {
+        console.error('Failed to save:', error)
+        setMessage({ type: 'error', text: 'Failed to save campaign. Please try again.' })
+      }
+    })
+  }
+
+  const handleDelete = () => {
+    if (!campaign || !confirm('Delete this campaign? Donations already made keep their attribution.')) return
+
+    startTransition(async () => {
+      const result = await deleteCampaign(campaign.id)
+      if (result.success) {
+        router.push('/admin/dashboard/campaigns')
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to delete campaign' })
+      }
+    })
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+            <Link href="/admin/dashboard" className="hover:text-teal-600">Dashboard</Link>
+            <span>/</span>
+            <Link href="/admin/dashboard/campaigns" className="hover:text-teal-600">Campaigns</Link>
+            <span>/</span>
+            <span className="text-foundation-charcoal">{isNew ? 'New Campaign' : 'Edit'}</span>
+          </nav>
+          <h1 className="font-heading text-2xl font-semibold text-foundation-charcoal">
+            {isNew ? 'Create New Campaign' : 'Edit Campaign'}
+          </h1>
+        </div>
+        <div className="flex items-center gap-3">
+          {!isNew && (
+            <button
+              onClick={handleDelete}
+              disabled={isPending}
+              className="px-4 py-2 rounded-xl text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            onClick={() => handleSave()}
+            disabled={isPending}
+            className="px-4 py-2 border border-gray-300 rounded-xl text-gray-600 hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            Save Draft
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={isPending}
+            className="btn-primary disabled:opacity-50"
+          >
+            {isPending ? 'Saving...' : isPublished ? 'Update' : 'Publish'}
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-xl mb-6 ${
+          message.type === 'success'
+            ? 'bg-emerald-50 text-emerald-700 border border-emerald-200'
+            : 'bg-red-50 text-red-700 border border-red-200'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        {/* Main Content */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-2xl p-6 border border-gray-100 space-y-6">
+            <BilingualInput
+              label="Title"
+              value={title}
+              onChange={handleTitleChange}
+              placeholder={{ en: 'e.g. Ramadan Appeal 2027', ms: 'cth. Rayuan Ramadan 2027' }}
+              required
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">URL Slug *</label>
+              <div className="flex items-center gap-2">
+                <span className="text-gray-400 text-sm">/campaigns/</span>
+                <input
+                  type="text"
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value)}
+                  className="flex-1 px-4 py-2 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+                />
+              </div>
+            </div>
+
+            <BilingualInput
+              label="Description"
+              value={description}
+              onChange={setDescription}
+              type="textarea"
+              rows={5}
+              helperText="Shown on the public campaign page"
+            />
+          </div>
+
+          {/* Linked Projects */}
+          <div className="bg-white rounded-2xl p-6 border border-gray-100">
+            <h3 className="font-medium text-foundation-charcoal mb-1">Projects</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Donations to the General Fund made from the campaign page always count. Donations to the projects ticked here count too, including ones made from the project&apos;s own donate link while the campaign is running.
+            </p>
+            {projects.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">No projects accept donations yet.</p>
+            ) : (
+              <div className="grid sm:grid-cols-2 gap-2">
+                {projects.map(project => (
+                  <label
+                    key={project.id}
+                    className="flex items-center gap-3 p-3 rounded-xl border border-gray-100 hover:bg-gray-50 cursor-pointer text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={projectIds.includes(project.id)}
+                      onChange={() => toggleProject(project.id)}
+                    />
+                    <span className="text-gray-700">{project.title}</span>
+                    {!project.isPublished && <span className="ml-auto text-xs text-amber-600">Draft</span>}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Matching */}
+          <div className="bg-white rounded-2xl p-6 border border-gray-100">
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="font-medium text-foundation-charcoal">Matching Funds</h3>
+              <button
+                type="button"
+                onClick={() => setMatchingRules(rules => [...rules, { sponsor: '', ratio: '1', cap: '' }])}
+                className="px-3 py-1.5 text-xs font-medium rounded-lg bg-teal-50 text-teal-700 hover:bg-teal-100"
+              >
+                Add Sponsor
+              </button>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+              Each sponsor gives the ratio for every RM 1 donated until their cap is reached. Matched amounts are shown separately on the progress bar.
+            </p>
+
+            {matchingRules.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">No matching for this campaign.</p>
+            ) : (
+              <div className="space-y-3">
+                {matchingRules.map((rule, index) => (
+                  <div key={index} className="grid sm:grid-cols-[1fr_120px_160px_auto] gap-3 items-end">
+                    <div>
+                      <label className={labelClass}>Sponsor</label>
+                      <input
+                        value={rule.sponsor}
+                        onChange={(e) => updateRule(index, 'sponsor', e.target.value)}
+                        maxLength={100}
+                        placeholder="e.g. Syarikat ABC Berhad"
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Ratio (RM per RM 1)</label>
+                      <input
+                        type="number"
+                        value={rule.ratio}
+                        onChange={(e) => updateRule(index, 'ratio', e.target.value)}
+                        min="0.1"
+                        max="10"
+                        step="0.1"
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Cap (RM)</label>
+                      <input
+                        type="number"
+                        value={rule.cap}
+                        onChange={(e) => updateRule(index, 'cap', e.target.value)}
+                        min="1"
+                        step="100"
+                        placeholder="e.g. 50000"
+                        className={inputClass}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setMatchingRules(rules => rules.filter((_, i) => i !== index))}
+                      className="px-3 py-2 text-sm text-red-600 rounded-lg hover:bg-red-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <div className="bg-white rounded-2xl p-6 border border-gray-100">
+            <h3 className="font-medium text-foundation-charcoal mb-4">Schedule &amp; Goal</h3>
+            <div className="space-y-4">
+              <div>
+                <label className={labelClass}>Starts *</label>
+                <input
+                  type="datetime-local"
+                  value={startsAt}
+                  onChange={(e) => setStartsAt(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Ends *</label>
+                <input
+                  type="datetime-local"
+                  value={endsAt}
+                  onChange={(e) => setEndsAt(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Goal (RM) *</label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm">RM</span>
+                  <input
+                    type="number"
+                    value={goal}
+                    onChange={(e) => setGoal(e.target.value)}
+                    className={`${inputClass} pl-10`}
+                    placeholder="e.g., 100000"
+                    min="1"
+                    step="100"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Donations and matched funds both count towards the goal</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                  isPublished ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'
+                }`}>
+                  {isPublished ? 'Published' : 'Draft'}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-2xl p-6 border border-gray-100">
+            <ImageUpload
+              value={featuredImage}
+              onChange={setFeaturedImage}
+              label="Featured Image"
+              aspectRatio="video"
+              maxSizeMB={10}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
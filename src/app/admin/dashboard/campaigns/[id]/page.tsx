@@ -0,0 +1,57 @@
+import { notFound } from 'next/navigation'
+import { db, campaigns, projects } from '@/db'
+import { desc, eq } from 'drizzle-orm'
+import { getLocalizedValue } from '@/i18n/config'
+import CampaignEditor from '../CampaignEditor'
+
+async function getProjectsForCampaign() {
+  const projectsList = await db.query.projects.findMany({
+    where: eq(projects.donationEnabled, true),
+    columns: {
+      id: true,
+      title: true,
+      isPublished: true,
+    },
+    orderBy: [desc(projects.createdAt)],
+  })
+  return projectsList.map(p => ({
+    id: p.id,
+    title: getLocalizedValue(p.title, 'en'),
+    isPublished: p.isPublished ?? false,
+  }))
+}
+
+export default async function CampaignEditorPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const isNew = id === 'new'
+
+  const [campaign, projectsList] = await Promise.all([
+    isNew ? null : db.query.campaigns.findFirst({ where: eq(campaigns.id, id) }),
+    getProjectsForCampaign(),
+  ])
+
+  if (!isNew && !campaign) {
+    notFound()
+  }
+
+  return (
+    <CampaignEditor
+      campaign={campaign
+        ? {
+          id: campaign.id,
+          slug: campaign.slug,
+          title: campaign.title,
+          description: campaign.description,
+          featuredImage: campaign.featuredImage,
+          startsAt: campaign.startsAt.toISOString(),
+          endsAt: campaign.endsAt.toISOString(),
+          goal: campaign.goal,
+          projectIds: campaign.projectIds || [],
+          matchingRules: campaign.matchingRules || [],
+          isPublished: campaign.isPublished ?? false,
+        }
+        : null}
+      projects={projectsList}
+    />
+  )
+}
@@ -0,0 +1,178 @@
+import Link from 'next/link'
+import { db, campaigns } from '@/db'
+import { desc } from 'drizzle-orm'
+import { getCampaignPhase, getCampaignProgress, type CampaignPhase } from '@/lib/campaigns'
+import { getLocalizedValue } from '@/i18n/config'
+
+const phaseStyles: Record<CampaignPhase, { label: string; className: string }> = {
+  upcoming: { label: 'Upcoming', className: 'bg-sky-100 text-sky-700' },
+  active: { label: 'Running', className: 'bg-emerald-100 text-emerald-700' },
+  ended: { label: 'Ended', className: 'bg-gray-100 text-gray-600' },
+}
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+function formatDate(date: Date) {
+  return new Date(date).toLocaleDateString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export default async function CampaignsManagement() {
+  const campaignsList = await db.query.campaigns.findMany({
+    orderBy: [desc(campaigns.startsAt)],
+  })
+
+  const rows = await Promise.all(campaignsList.map(async campaign => ({
+    campaign,
+    phase: getCampaignPhase(campaign),
+    progress: await getCampaignProgress(campaign),
+  })))
+
+  const running = rows.filter(r => r.phase === 'active')
+  const runningRaised = running.reduce((sum, r) => sum + r.progress.raised, 0)
+  const runningMatched = running.reduce((sum, r) => sum + r.progress.matched, 0)
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+            <Link href="/admin/dashboard" className="hover:text-teal-600">Dashboard</Link>
+            <span>/</span>
+            <span className="text-foundation-charcoal">Campaigns</span>
+          </nav>
+          <h1 className="font-heading text-2xl font-semibold text-foundation-charcoal">
+            Fundraising Campaigns
+          </h1>
+          <p className="text-gray-500 text-sm mt-1">
+            Time-boxed appeals across projects, with optional sponsor matching
+          </p>
+        </div>
+        <Link
+          href="/admin/dashboard/campaigns/new"
+          className="btn-primary inline-flex items-center gap-2"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          New Campaign
+        </Link>
+      </div>
+
+      {/* Stats */}
+      <div className="grid sm:grid-cols-4 gap-4 mb-8">
+        <div className="bg-white rounded-xl p-5 border border-gray-100">
+          <p className="text-gray-500 text-sm">Total Campaigns</p>
+          <p className="font-display text-3xl font-bold text-foundation-charcoal">{rows.length}</p>
+        </div>
+        <div className="bg-white rounded-xl p-5 border border-gray-100">
+          <p className="text-gray-500 text-sm">Running Now</p>
+          <p className="font-display text-3xl font-bold text-emerald-600">{running.length}</p>
+        </div>
+        <div className="bg-white rounded-xl p-5 border border-gray-100">
+          <p className="text-gray-500 text-sm">Raised (running)</p>
+          <p className="font-display text-2xl font-bold text-teal-600">{formatRM(runningRaised)}</p>
+        </div>
+        <div className="bg-white rounded-xl p-5 border border-gray-100">
+          <p className="text-gray-500 text-sm">Matched (running)</p>
+          <p className="font-display text-2xl font-bold text-amber-600">{formatRM(runningMatched)}</p>
+        </div>
+      </div>
+
+      {/* Campaigns List */}
+      <div className="bg-white rounded-2xl border border-gray-100 overflow-hidden">
+        {rows.length === 0 ? (
+          <div className="p-12 text-center">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No campaigns yet</h3>
+            <p className="text-gray-500">Create a campaign to run an appeal with its own goal and public progress page.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-100 bg-gray-50/80 uppercase tracking-wider">
+                  <th className="px-5 py-3 font-semibold">Campaign</th>
+                  <th className="px-5 py-3 font-semibold">Dates</th>
+                  <th className="px-5 py-3 font-semibold">Progress</th>
+                  <th className="px-5 py-3 font-semibold">Status</th>
+                  <th className="px-5 py-3 font-semibold"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {rows.map(({ campaign, phase, progress }) => (
+                  <tr key={campaign.id} className="align-top">
+                    <td className="px-5 py-4">
+                      <p className="font-medium text-foundation-charcoal">{getLocalizedValue(campaign.title, 'en')}</p>
+                      <p className="text-xs text-gray-400 font-mono">/campaigns/{campaign.slug}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {(campaign.projectIds || []).length === 0
+                          ? 'General Fund only'
+                          : `General Fund + ${(campaign.projectIds || []).length} project(s)`}
+                        {(campaign.matchingRules || []).length > 0 && ` · Matched by ${(campaign.matchingRules || []).map(r => r.sponsor).join(', ')}`}
+                      </p>
+                    </td>
+                    <td className="px-5 py-4 text-xs text-gray-600 whitespace-nowrap">
+                      {formatDate(campaign.startsAt)} – {formatDate(campaign.endsAt)}
+                    </td>
+                    <td className="px-5 py-4 min-w-[220px]">
+                      <div className="flex justify-between text-xs mb-1">
+                        <span className="font-medium text-gray-700">{formatRM(progress.total)}</span>
+                        <span className="text-gray-500">of {formatRM(progress.goal)}</span>
+                      </div>
+                      <div className="h-2 bg-gray-100 rounded-full overflow-hidden flex">
+                        <div className="h-full bg-teal-500" style={{ width: `${progress.goal > 0 ? Math.min(100, progress.raised / progress.goal * 100) : 0}%` }} />
+                        <div className="h-full bg-amber-400" style={{ width: `${progress.goal > 0 ? Math.min(100, progress.matched / progress.goal * 100) : 0}%` }} />
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {progress.donationCount} donation(s)
+                        {progress.matched > 0 && ` · ${formatRM(progress.matched)} matched`}
+                      </p>
+                    </td>
+                    <td className="px-5 py-4 text-xs space-y-1">
+                      <span className={`inline-block px-2 py-1 rounded-full font-medium ${phaseStyles[phase].className}`}>
+                        {phaseStyles[phase].label}
+                      </span>
+                      <span className={`block w-fit px-2 py-1 rounded-full font-medium ${campaign.isPublished ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
+                        {campaign.isPublished ? 'Published' : 'Draft'}
+                      </span>
+                    </td>
+                    <td className="px-5 py-4 text-right whitespace-nowrap">
+                      <Link
+                        href={`/admin/dashboard/campaigns/${campaign.id}`}
+                        className="text-sm font-medium text-teal-600 hover:text-teal-700"
+                      >
+                        Edit
+                      </Link>
+                      <Link
+                        href={`/admin/dashboard/donations?campaign=${campaign.id}&environment=all`}
+                        className="ml-4 text-sm font-medium text-gray-500 hover:text-gray-700"
+                      >
+                        Donations
+                      </Link>
+                      {campaign.isPublished && (
+                        <a
+                          href={`/campaigns/${campaign.slug}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="ml-4 text-sm font-medium text-gray-500 hover:text-gray-700"
+                        >
+                          View
+                        </a>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,8 +3,9 @@
 import { useState, useEffect, useTransition } from 'react'
 import Link from 'next/link'
 import { motion } from 'framer-motion'
-import { getPageSEO, updatePageSEO } from '@/lib/actions/content'
+import { getEditablePageSEO, getPageSEO, updatePageSEO, setPagePublished } from '@/lib/actions/content'
 import ImageUpload from '@/components/admin/ImageUpload'
+import ReviewPanel from '@/components/admin/ReviewPanel'
 import BilingualInput, { type LocalizedValue } from '@/components/admin/BilingualInput'
 import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
 
@@ -23,6 +24,14 @@ const toLocalizedValue = (value: LocalizedString | string | null | undefined): L
   return { en: value.en || '', ms: value.ms || '' }
 }
 
+// Fields reviewers can comment on
+const REVIEW_FIELDS = [
+  { key: 'title', label: 'Page title' },
+  { key: 'metaTitle', label: 'Meta title' },
+  { key: 'metaDescription', label: 'Meta description' },
+  { key: 'ogImage', label: 'Open Graph image' },
+]
+
 const pages = [
   { slug: '', name: 'Home', path: '/' },
   { slug: 'about', name: 'About', path: '/about' },
@@ -45,6 +54,8 @@ export default function EditSEOSettings() {
   })
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  // The saved page row, once there is one to review and publish
+  const [savedPage, setSavedPage] = useState<{ id: string; isPublished: boolean } | null>(null)
 
   useEffect(() => {
     loadPageSEO(selectedPage.slug)
@@ -53,7 +64,8 @@ export default function EditSEOSettings() {
   async function loadPageSEO(slug: string) {
     setIsLoading(true)
     try {
-      const data = await getPageSEO(slug || 'home')
+      const data = await getEditablePageSEO(slug || 'home')
+      setSavedPage(data ? { id: data.id, isPublished: !!data.isPublished } : null)
       if (data) {
         setFormData({
           slug: data.slug,
@@ -89,7 +101,14 @@ export default function EditSEOSettings() {
           ogImage: formData.ogImage,
         })
         if (result.success) {
-          setMessage({ type: 'success', text: 'SEO settings updated successfully!' })
+          setMessage({
+            type: 'success',
+            text: result.pendingReview ? 'Changes saved. They go live once another admin approves them.' : 'SEO settings updated successfully!',
+          })
+          if (!savedPage) {
+            const created = await getPageSEO(selectedPage.slug || 'home')
+            setSavedPage(created ? { id: created.id, isPublished: !!created.isPublished } : null)
+          }
         }
       } catch (error) {
         console.error('Failed to save:', error)
@@ -98,6 +117,26 @@ export default function EditSEOSettings() {
     })
   }
 
+  const handleTogglePublished = () => {
+    if (!savedPage) return
+    const isPublished = !savedPage.isPublished
+    setMessage(null)
+    startTransition(async () => {
+      try {
+        const result = await setPagePublished(selectedPage.slug || 'home', isPublished)
+        if (result.success) {
+          setSavedPage({ ...savedPage, isPublished })
+          setMessage({ type: 'success', text: isPublished ? 'Page published!' : 'Page unpublished' })
+        } else {
+          setMessage({ type: 'error', text: result.error || 'Failed to update page' })
+        }
+      } catch (error) {
+        console.error('Failed to update page:', error)
+        setMessage({ type: 'error', text: 'Failed to update page. Please try again.' })
+      }
+    })
+  }
+
   return (
     <div>
       {/* Header */}
@@ -272,6 +311,41 @@ export default function EditSEOSettings() {
                   </div>
                 </div>
               </div>
+
+              {/* Publishing and editorial review */}
+              {savedPage && (
+                <div className="grid md:grid-cols-2 gap-6 items-start">
+                  <div className="bg-white rounded-2xl p-6 border border-gray-100">
+                    <div className="flex items-center justify-between gap-3 mb-4">
+                      <h3 className="font-medium text-foundation-charcoal">Publishing</h3>
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        savedPage.isPublished ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'
+                      }`}>
+                        {savedPage.isPublished ? 'Published' : 'Draft'}
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleTogglePublished}
+                      disabled={isPending}
+                      className={`w-full px-4 py-3 rounded-xl transition-colors font-medium disabled:opacity-50 ${
+                        savedPage.isPublished
+                          ? 'bg-amber-100 text-amber-700 hover:bg-amber-200'
+                          : 'bg-teal-500 text-white hover:bg-teal-600'
+                      }`}
+                    >
+                      {savedPage.isPublished ? 'Unpublish' : 'Publish'}
+                    </button>
+                  </div>
+                  <ReviewPanel
+                    key={savedPage.id}
+                    contentType="pages"
+                    contentId={savedPage.id}
+                    fields={REVIEW_FIELDS}
+                    isPublished={savedPage.isPublished}
+                  />
+                </div>
+              )}
             </div>
           )}
         </div>
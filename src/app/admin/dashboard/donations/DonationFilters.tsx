@@ -8,9 +8,15 @@ interface Project {
   title: string
 }
 
+interface Fund {
+  id: string
+  name: string
+}
+
 interface FilterParams {
   status?: string
   project?: string
+  fund?: string
   search?: string
   from?: string
   to?: string
@@ -19,12 +25,14 @@ interface FilterParams {
 
 interface DonationFiltersProps {
   projects: Project[]
+  funds?: Fund[]
   currentParams: FilterParams
   hasSandboxDonations?: boolean
 }
 
 export default function DonationFilters({
   projects,
+  funds = [],
   currentParams,
   hasSandboxDonations = false,
 }: DonationFiltersProps) {
@@ -63,7 +71,7 @@ export default function DonationFilters({
     })
   }
 
-  const hasActiveFilters = currentParams.status || currentParams.project ||
+  const hasActiveFilters = currentParams.status || currentParams.project || currentParams.fund ||
     currentParams.search || currentParams.from || currentParams.to || currentParams.environment
 
   return (
@@ -133,6 +141,8 @@ export default function DonationFilters({
             <option value="pending">Pending</option>
             <option value="failed">Failed</option>
             <option value="expired">Expired</option>
+            <option value="awaiting_approval">Awaiting Approval</option>
+            <option value="rejected">Rejected</option>
           </select>
           <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3">
             <svg className="w-4 h-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -164,6 +174,29 @@ export default function DonationFilters({
           </div>
         )}
 
+        {/* Fund Filter */}
+        {funds.length > 0 && (
+          <div className="relative">
+            <select
+              value={currentParams.fund || 'all'}
+              onChange={(e) => updateFilters({ fund: e.target.value })}
+              className="appearance-none px-4 py-2.5 pr-10 text-sm border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent bg-white max-w-[200px] font-medium transition-all cursor-pointer"
+            >
+              <option value="all">All Funds</option>
+              {funds.map((fund) => (
+                <option key={fund.id} value={fund.id}>
+                  {fund.name}
+                </option>
+              ))}
+            </select>
+            <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3">
+              <svg className="w-4 h-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </div>
+          </div>
+        )}
+
         {/* Date Range */}
         <div className="flex items-center gap-2">
           <div className="relative">
@@ -1,13 +1,19 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
+import SubscriptionPanel from './SubscriptionPanel'
+import RefundForm from './RefundForm'
+import OfflineReviewPanel from './OfflineReviewPanel'
+import ReceiptRegisterPanel from './ReceiptRegisterPanel'
 
 interface Donation {
   id: string
   donorName: string | null
   donorEmail: string | null
   donorPhone: string | null
+  donorId?: string | null
   amount: number
   currency: string | null
   paymentStatus: string | null
@@ -16,17 +22,44 @@ interface Donation {
   message: string | null
   isAnonymous: boolean | null
   projectId: string | null
+  campaignId?: string | null
+  fundraiserId?: string | null
+  fundId?: string | null
+  embedOrigin?: string | null
+  tributeType?: string | null
+  tributeName?: string | null
+  tributeRecipientEmail?: string | null
+  tributeCardSentAt?: Date | null
   createdAt: Date
   completedAt: Date | null
   paymentMethod: string | null
+  paymentGateway: string | null
   paymentAttempts: number | null
   failureReason: string | null
   environment: string | null
+  refundedAmount: number | null
+  refundReason: string | null
+  refundedAt: Date | null
+  subscriptionId: string | null
+  subscriptionCycle: number | null
+  offlineReference: string | null
+  proofFileId: string | null
+  receivedAt: Date | null
+  recordedBy: string | null
+  reviewedBy: string | null
 }
 
 interface DonationsTableProps {
   donations: Donation[]
   showEnvironment?: boolean
+  campaignTitles?: Record<string, string>
+  fundraiserTitles?: Record<string, string>
+  fundNames?: Record<string, string>
+}
+
+// Proofs of payment are private and served to admins only
+function getProofUrl(paymentReference: string): string {
+  return `/api/admin/donations/offline/proof?reference=${encodeURIComponent(paymentReference)}`
 }
 
 const statusColors: Record<string, string> = {
@@ -35,6 +68,8 @@ const statusColors: Record<string, string> = {
   failed: 'bg-red-100 text-red-700 border-red-200',
   expired: 'bg-gray-100 text-gray-600 border-gray-200',
   refunded: 'bg-purple-100 text-purple-700 border-purple-200',
+  awaiting_approval: 'bg-sky-100 text-sky-700 border-sky-200',
+  rejected: 'bg-red-100 text-red-700 border-red-200',
 }
 
 const statusIcons: Record<string, React.ReactNode> = {
@@ -63,6 +98,16 @@ const statusIcons: Record<string, React.ReactNode> = {
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
     </svg>
   ),
+  awaiting_approval: (
+    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  ),
+  rejected: (
+    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+    </svg>
+  ),
 }
 
 // Helper to check if a donation is stale (pending for more than 24 hours)
@@ -90,7 +135,7 @@ function formatDate(date: Date) {
   })
 }
 
-export default function DonationsTable({ donations, showEnvironment = false }: DonationsTableProps) {
+export default function DonationsTable({ donations, showEnvironment = false, campaignTitles = {}, fundraiserTitles = {}, fundNames = {} }: DonationsTableProps) {
   const router = useRouter()
   const [expandedRow, setExpandedRow] = useState<string | null>(null)
   const [resendingReceipt, setResendingReceipt] = useState<string | null>(null)
@@ -278,6 +323,11 @@ export default function DonationsTable({ donations, showEnvironment = false }: D
                       <span className="text-gray-400 text-sm font-normal">{donation.currency || 'MYR'}</span>{' '}
                       {(donation.amount / 100).toLocaleString()}
                     </span>
+                    {donation.subscriptionId && (
+                      <span className="ml-2 px-1.5 py-0.5 text-[10px] bg-indigo-100 text-indigo-700 rounded font-medium">
+                        MONTHLY #{donation.subscriptionCycle ?? 1}
+                      </span>
+                    )}
                   </td>
                   <td className="px-5 py-4 hidden lg:table-cell">
                     <span className="font-mono text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
@@ -323,7 +373,7 @@ export default function DonationsTable({ donations, showEnvironment = false }: D
                         }`}
                       >
                         {statusIcons[donation.paymentStatus || 'pending']}
-                        {(donation.paymentStatus || 'pending').charAt(0).toUpperCase() + (donation.paymentStatus || 'pending').slice(1)}
+                        {(donation.paymentStatus || 'pending').charAt(0).toUpperCase() + (donation.paymentStatus || 'pending').slice(1).replace('_', ' ')}
                       </span>
                       {donation.paymentStatus === 'pending' && isStale(donation.createdAt) && (
                         <span className="text-[10px] text-orange-600 font-medium flex items-center gap-1">
@@ -449,6 +499,14 @@ export default function DonationsTable({ donations, showEnvironment = false }: D
                             <p className="font-medium text-gray-900">{donation.donorName || 'Anonymous'}</p>
                             {donation.donorEmail && <p className="text-gray-600">{donation.donorEmail}</p>}
                             {donation.donorPhone && <p className="text-gray-600">{donation.donorPhone}</p>}
+                            {donation.donorId && (
+                              <Link
+                                href={`/admin/dashboard/donors/${donation.donorId}`}
+                                className="inline-block text-xs font-medium text-teal-600 hover:text-teal-700"
+                              >
+                                View donor profile &rarr;
+                              </Link>
+                            )}
                           </div>
                         </div>
 
@@ -461,10 +519,63 @@ export default function DonationsTable({ donations, showEnvironment = false }: D
                             Payment Details
                           </p>
                           <div className="space-y-2 text-sm">
+                            <div className="flex justify-between">
+                              <span className="text-gray-500">Gateway</span>
+                              <span className="font-medium capitalize">{donation.paymentGateway || 'toyyibpay'}</span>
+                            </div>
                             <div className="flex justify-between">
                               <span className="text-gray-500">Method</span>
-                              <span className="font-medium">{donation.paymentMethod?.toUpperCase() || 'FPX'}</span>
+                              <span className="font-medium">{donation.paymentMethod?.replace('_', ' ').toUpperCase() || 'FPX'}</span>
                             </div>
+                            {donation.fundId && (
+                              <div className="flex justify-between gap-3">
+                                <span className="text-gray-500">Fund</span>
+                                <span className="font-medium text-right">{fundNames[donation.fundId] || 'Unknown fund'}</span>
+                              </div>
+                            )}
+                            {donation.campaignId && (
+                              <div className="flex justify-between gap-3">
+                                <span className="text-gray-500">Campaign</span>
+                                <span className="font-medium text-right">{campaignTitles[donation.campaignId] || 'Deleted campaign'}</span>
+                              </div>
+                            )}
+                            {donation.fundraiserId && (
+                              <div className="flex justify-between gap-3">
+                                <span className="text-gray-500">Fundraiser</span>
+                                <span className="font-medium text-right">{fundraiserTitles[donation.fundraiserId] || 'Deleted fundraiser'}</span>
+                              </div>
+                            )}
+                            {donation.embedOrigin && (
+                              <div className="flex justify-between gap-3">
+                                <span className="text-gray-500">Widget on</span>
+                                <span className="font-medium text-right break-all">{donation.embedOrigin.replace(/^https?:\/\//, '')}</span>
+                              </div>
+                            )}
+                            {donation.tributeName && (
+                              <div className="flex justify-between gap-3">
+                                <span className="text-gray-500">{donation.tributeType === 'in_honour' ? 'In honour of' : 'In memory of'}</span>
+                                <span className="font-medium text-right">
+                                  {donation.tributeName}
+                                  {donation.tributeRecipientEmail && (
+                                    <span className="block text-xs font-normal text-gray-500">
+                                      E-card {donation.tributeCardSentAt ? 'sent' : 'pending'} to {donation.tributeRecipientEmail}
+                                    </span>
+                                  )}
+                                </span>
+                              </div>
+                            )}
+                            {donation.offlineReference && (
+                              <div className="flex justify-between">
+                                <span className="text-gray-500">Reference</span>
+                                <span className="font-mono text-xs font-medium">{donation.offlineReference}</span>
+                              </div>
+                            )}
+                            {donation.receivedAt && (
+                              <div className="flex justify-between">
+                                <span className="text-gray-500">Received</span>
+                                <span className="font-medium text-xs">{formatDate(donation.receivedAt)}</span>
+                              </div>
+                            )}
                             <div className="flex justify-between">
                               <span className="text-gray-500">Attempts</span>
                               <span className="font-medium">{donation.paymentAttempts || 1}</span>
@@ -485,6 +596,14 @@ export default function DonationsTable({ donations, showEnvironment = false }: D
                                 <span className="font-medium text-xs">{formatDate(donation.completedAt)}</span>
                               </div>
                             )}
+                            {!!donation.refundedAmount && (
+                              <div className="flex justify-between">
+                                <span className="text-gray-500">Refunded</span>
+                                <span className="font-medium text-purple-600">
+                                  {donation.currency || 'MYR'} {(donation.refundedAmount / 100).toLocaleString()}
+                                </span>
+                              </div>
+                            )}
                           </div>
                         </div>
 
@@ -529,13 +648,69 @@ export default function DonationsTable({ donations, showEnvironment = false }: D
                                 <span className="font-semibold">Failure:</span> {donation.failureReason}
                               </div>
                             )}
-                            {!donation.message && !donation.failureReason && (
+                            {donation.refundReason && (
+                              <div className="bg-purple-50 text-purple-700 p-2 rounded text-xs">
+                                <span className="font-semibold">Refund:</span> {donation.refundReason}
+                                {donation.refundedAt && <span className="block text-purple-500 mt-1">{formatDate(donation.refundedAt)}</span>}
+                              </div>
+                            )}
+                            {donation.recordedBy && (
+                              <div className="text-xs text-gray-500">
+                                Recorded by {donation.recordedBy}
+                                {donation.reviewedBy && <span className="block">Reviewed by {donation.reviewedBy}</span>}
+                                {donation.proofFileId && donation.paymentReference && (
+                                  <a href={getProofUrl(donation.paymentReference)} target="_blank" rel="noopener noreferrer" className="block text-teal-600 hover:text-teal-700 mt-1">
+                                    View proof of payment
+                                  </a>
+                                )}
+                              </div>
+                            )}
+                            {!donation.message && !donation.failureReason && !donation.refundReason && !donation.recordedBy && (
                               <p className="text-gray-400 italic">No additional info</p>
                             )}
                           </div>
                         </div>
                       </div>
 
+                      {/* Refund / chargeback for completed donations */}
+                      {donation.paymentStatus === 'completed' && donation.paymentReference && (
+                        <RefundForm
+                          paymentReference={donation.paymentReference}
+                          amount={donation.amount}
+                          refundedAmount={donation.refundedAmount || 0}
+                          currency={donation.currency}
+                        />
+                      )}
+
+                      {/* Receipt history, correction and reissue */}
+                      {donation.receiptNumber && donation.paymentReference && (
+                        <ReceiptRegisterPanel
+                          paymentReference={donation.paymentReference}
+                          canReissue={donation.paymentStatus === 'completed'}
+                          donorName={donation.donorName}
+                          donorEmail={donation.donorEmail}
+                          donorPhone={donation.donorPhone}
+                        />
+                      )}
+
+                      {/* Approval of offline donations */}
+                      {donation.paymentStatus === 'awaiting_approval' && donation.paymentReference && (
+                        <OfflineReviewPanel
+                          paymentReference={donation.paymentReference}
+                          recordedBy={donation.recordedBy}
+                          proofUrl={donation.proofFileId ? getProofUrl(donation.paymentReference) : null}
+                          hasDonorEmail={!!donation.donorEmail}
+                        />
+                      )}
+
+                      {/* Recurring donation history and controls */}
+                      {donation.subscriptionId && (
+                        <SubscriptionPanel
+                          subscriptionId={donation.subscriptionId}
+                          currentDonationId={donation.id}
+                        />
+                      )}
+
                       {/* Resend Result Message */}
                       {resendResult && resendResult.id === donation.id && (
                         <div
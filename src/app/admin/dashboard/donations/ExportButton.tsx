@@ -9,9 +9,11 @@ interface ExportButtonProps {
 
 export default function ExportButton({ environment = 'production' }: ExportButtonProps) {
   const [isExporting, setIsExporting] = useState(false)
+  const [isMenuOpen, setIsMenuOpen] = useState(false)
   const searchParams = useSearchParams()
 
-  const handleExport = async () => {
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setIsMenuOpen(false)
     setIsExporting(true)
 
     try {
@@ -21,19 +23,22 @@ export default function ExportButton({ environment = 'production' }: ExportButto
       // Get current filter values from URL
       const status = searchParams.get('status')
       const project = searchParams.get('project')
+      const fund = searchParams.get('fund')
       const from = searchParams.get('from')
       const to = searchParams.get('to')
       const env = searchParams.get('environment') || environment
 
       if (status && status !== 'all') params.set('status', status)
       if (project && project !== 'all') params.set('project', project)
+      if (fund && fund !== 'all') params.set('fund', fund)
       if (from) params.set('from', from)
       if (to) params.set('to', to)
       if (env) params.set('environment', env)
+      params.set('format', format)
 
       const exportUrl = `/api/donations/export?${params.toString()}`
 
-      // Fetch the CSV
+      // Fetch the file
       const response = await fetch(exportUrl)
 
       if (!response.ok) {
@@ -48,7 +53,7 @@ export default function ExportButton({ environment = 'production' }: ExportButto
 
       // Get filename from Content-Disposition header or generate one
       const contentDisposition = response.headers.get('Content-Disposition')
-      let filename = 'donations-export.csv'
+      let filename = `donations-export.${format}`
       if (contentDisposition) {
         const match = contentDisposition.match(/filename="(.+)"/)
         if (match) filename = match[1]
@@ -69,24 +74,42 @@ export default function ExportButton({ environment = 'production' }: ExportButto
   }
 
   return (
-    <button
-      onClick={handleExport}
-      disabled={isExporting}
-      className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
-    >
-      {isExporting ? (
-        <>
-          <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
-          Exporting...
-        </>
-      ) : (
-        <>
-          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-          </svg>
-          Export CSV
-        </>
+    <div className="relative">
+      <button
+        onClick={() => setIsMenuOpen(!isMenuOpen)}
+        disabled={isExporting}
+        className="flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 hover:border-gray-300 transition-all shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isExporting ? (
+          <>
+            <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+            Exporting...
+          </>
+        ) : (
+          <>
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+            Export
+          </>
+        )}
+      </button>
+      {isMenuOpen && (
+        <div className="absolute right-0 mt-2 w-40 bg-white border border-gray-100 rounded-xl shadow-lg py-1 z-20">
+          <button
+            onClick={() => handleExport('csv')}
+            className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            CSV
+          </button>
+          <button
+            onClick={() => handleExport('xlsx')}
+            className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            Excel (XLSX)
+          </button>
+        </div>
       )}
-    </button>
+    </div>
   )
 }
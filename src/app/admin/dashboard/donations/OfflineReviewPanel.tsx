@@ -0,0 +1,159 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface OfflineReviewPanelProps {
+  paymentReference: string
+  recordedBy: string | null
+  proofUrl: string | null
+  hasDonorEmail: boolean
+}
+
+/**
+ * Approve / reject controls for an offline donation awaiting approval
+ */
+export default function OfflineReviewPanel({ paymentReference, recordedBy, proofUrl, hasDonorEmail }: OfflineReviewPanelProps) {
+  const router = useRouter()
+  const [isRejecting, setIsRejecting] = useState(false)
+  const [reason, setReason] = useState('')
+  const [sendReceipt, setSendReceipt] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const submitReview = async (action: 'approve' | 'reject') => {
+    if (action === 'reject' && !reason.trim()) {
+      setResult({ success: false, message: 'Please enter a reason for rejecting this donation' })
+      return
+    }
+
+    if (action === 'approve' && !confirm('Approve this donation? It will be receipted and added to the totals.')) {
+      return
+    }
+
+    setIsSubmitting(true)
+    setResult(null)
+
+    try {
+      const response = await fetch('/api/admin/donations/offline/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reference: paymentReference, action, reason, sendReceipt }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setResult({ success: true, message: data.message })
+        router.refresh()
+      } else {
+        setResult({ success: false, message: data.error || 'Failed to review donation' })
+      }
+    } catch {
+      setResult({ success: false, message: 'Network error. Please try again.' })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="mt-4 p-4 rounded-xl bg-white border border-amber-200 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="font-medium text-amber-900">Awaiting Approval</p>
+        <span className="text-xs text-gray-500">Recorded by {recordedBy || 'unknown'}</span>
+      </div>
+
+      {proofUrl ? (
+        <a
+          href={proofUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-2 text-sm font-medium text-teal-700 hover:text-teal-800"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+          </svg>
+          View proof of payment
+        </a>
+      ) : (
+        <p className="text-sm text-gray-500">No proof of payment attached (cash)</p>
+      )}
+
+      {isRejecting ? (
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Rejection reason</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+            maxLength={500}
+            placeholder="e.g. Transfer not found in bank statement, cheque bounced"
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+          />
+        </div>
+      ) : (
+        hasDonorEmail && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={sendReceipt}
+              onChange={(e) => setSendReceipt(e.target.checked)}
+            />
+            Email the donor their receipt
+          </label>
+        )
+      )}
+
+      <div className="flex gap-2">
+        {isRejecting ? (
+          <>
+            <button
+              onClick={() => submitReview('reject')}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Processing...' : 'Reject Donation'}
+            </button>
+            <button
+              onClick={() => {
+                setIsRejecting(false)
+                setResult(null)
+              }}
+              className="px-4 py-2 text-sm font-medium text-gray-600 rounded-lg hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => submitReview('approve')}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Processing...' : 'Approve'}
+            </button>
+            <button
+              onClick={() => setIsRejecting(true)}
+              className="px-4 py-2 text-sm font-medium text-red-600 rounded-lg hover:bg-red-50"
+            >
+              Reject
+            </button>
+          </>
+        )}
+      </div>
+
+      {result && (
+        <div
+          className={`p-3 rounded-xl text-sm ${
+            result.success
+              ? 'bg-emerald-50 text-emerald-700 border border-emerald-200'
+              : 'bg-red-50 text-red-700 border border-red-200'
+          }`}
+        >
+          {result.message}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface ReceiptEntry {
+  receiptNumber: string
+  status: 'issued' | 'voided' | 'reissued'
+  donorName: string
+  amount: number // In currency units
+  currency: string
+  issuedBy: string
+  issuedAt: string
+  voidReason: string | null
+  voidedBy: string | null
+  voidedAt: string | null
+  replacedBy: string | null
+}
+
+interface ReceiptRegisterPanelProps {
+  paymentReference: string
+  canReissue: boolean
+  donorName: string | null
+  donorEmail: string | null
+  donorPhone: string | null
+}
+
+const receiptStatusStyles: Record<ReceiptEntry['status'], { label: string; className: string }> = {
+  issued: { label: 'Valid', className: 'bg-emerald-100 text-emerald-700' },
+  reissued: { label: 'Replaced', className: 'bg-amber-100 text-amber-700' },
+  voided: { label: 'Voided', className: 'bg-red-100 text-red-700' },
+}
+
+function formatShortDate(date: string) {
+  return new Date(date).toLocaleDateString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+/**
+ * Receipt register entries for a donation, with correction and reissue
+ */
+export default function ReceiptRegisterPanel({
+  paymentReference,
+  canReissue,
+  donorName,
+  donorEmail,
+  donorPhone,
+}: ReceiptRegisterPanelProps) {
+  const router = useRouter()
+  const [entries, setEntries] = useState<ReceiptEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isOpen, setIsOpen] = useState(false)
+  const [name, setName] = useState(donorName || '')
+  const [email, setEmail] = useState(donorEmail || '')
+  const [phone, setPhone] = useState(donorPhone || '')
+  const [reason, setReason] = useState('')
+  const [sendReceipt, setSendReceipt] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const loadEntries = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/donations/receipts?reference=${encodeURIComponent(paymentReference)}`)
+      const data = await response.json()
+      if (response.ok) {
+        setEntries(data.receipts)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }, [paymentReference])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  const handleReissue = async () => {
+    if (!reason.trim()) {
+      setResult({ success: false, message: 'Please enter a reason for reissuing' })
+      return
+    }
+
+    if (!confirm('Replace the current receipt with a new receipt number? The current one will be marked VOID.')) {
+      return
+    }
+
+    setIsSubmitting(true)
+    setResult(null)
+
+    try {
+      const response = await fetch('/api/admin/donations/receipts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reference: paymentReference,
+          reason,
+          donorName: name,
+          donorEmail: email,
+          donorPhone: phone,
+          sendReceipt,
+        }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setResult({ success: true, message: data.message })
+        setIsOpen(false)
+        setReason('')
+        await loadEntries()
+        router.refresh()
+      } else {
+        setResult({ success: false, message: data.error || 'Failed to reissue receipt' })
+      }
+    } catch {
+      setResult({ success: false, message: 'Network error. Please try again.' })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="mt-4 bg-white rounded-xl p-4 border border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <p className="text-xs text-gray-500 uppercase tracking-wide font-semibold flex items-center gap-2">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+          Receipt Register
+        </p>
+        {canReissue && !isOpen && (
+          <button
+            onClick={() => setIsOpen(true)}
+            className="px-3 py-1.5 text-xs font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            Correct &amp; Reissue
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading receipts...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">Not yet in the register. It is added the first time the receipt is downloaded or changed.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+              <th className="py-2 font-semibold">Receipt</th>
+              <th className="py-2 font-semibold">Issued</th>
+              <th className="py-2 font-semibold">Name on receipt</th>
+              <th className="py-2 font-semibold">Amount</th>
+              <th className="py-2 font-semibold">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {entries.map(entry => (
+              <tr key={entry.receiptNumber} className="align-top">
+                <td className="py-2">
+                  <a
+                    href={`/api/donations/receipt/${paymentReference}?receipt=${entry.receiptNumber}`}
+                    className="font-mono text-xs text-teal-600 hover:text-teal-700"
+                  >
+                    {entry.receiptNumber}
+                  </a>
+                </td>
+                <td className="py-2 text-xs text-gray-600">
+                  {formatShortDate(entry.issuedAt)}
+                  <span className="block text-gray-400">{entry.issuedBy}</span>
+                </td>
+                <td className="py-2 text-gray-700">{entry.donorName}</td>
+                <td className="py-2 text-gray-700">{entry.currency} {entry.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</td>
+                <td className="py-2 text-xs">
+                  <span className={`px-2 py-0.5 rounded-full font-semibold ${receiptStatusStyles[entry.status].className}`}>
+                    {receiptStatusStyles[entry.status].label}
+                  </span>
+                  {entry.status !== 'issued' && (
+                    <span className="block text-gray-500 mt-1">
+                      {entry.voidReason}
+                      {entry.replacedBy && <span className="block">Replaced by <span className="font-mono">{entry.replacedBy}</span></span>}
+                      {entry.voidedBy && <span className="block text-gray-400">{entry.voidedBy}{entry.voidedAt && `, ${formatShortDate(entry.voidedAt)}`}</span>}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {isOpen && (
+        <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+          <div className="grid sm:grid-cols-3 gap-3 text-sm">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Donor name</label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Email</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Phone</label>
+              <input
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              maxLength={500}
+              placeholder="e.g. Donor name misspelled"
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={sendReceipt}
+              onChange={(e) => setSendReceipt(e.target.checked)}
+            />
+            Email the new receipt to the donor
+          </label>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleReissue}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Reissuing...' : 'Reissue Receipt'}
+            </button>
+            <button
+              onClick={() => {
+                setIsOpen(false)
+                setResult(null)
+              }}
+              className="px-4 py-2 text-sm font-medium text-gray-600 rounded-lg hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <p className={`mt-3 text-xs ${result.success ? 'text-emerald-600' : 'text-red-600'}`}>{result.message}</p>
+      )}
+    </div>
+  )
+}
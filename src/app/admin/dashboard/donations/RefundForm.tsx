@@ -0,0 +1,199 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface RefundFormProps {
+  paymentReference: string
+  amount: number // In cents
+  refundedAmount: number // In cents
+  currency: string | null
+}
+
+/**
+ * Inline refund / chargeback form for a completed donation
+ */
+export default function RefundForm({ paymentReference, amount, refundedAmount, currency }: RefundFormProps) {
+  const router = useRouter()
+  const refundable = (amount - refundedAmount) / 100
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [type, setType] = useState<'refund' | 'chargeback'>('refund')
+  const [mode, setMode] = useState<'full' | 'partial'>('full')
+  const [partialAmount, setPartialAmount] = useState('')
+  const [reason, setReason] = useState('')
+  const [notifyDonor, setNotifyDonor] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const handleSubmit = async () => {
+    const refundAmount = mode === 'full' ? refundable : parseFloat(partialAmount)
+
+    if (!reason.trim()) {
+      setResult({ success: false, message: 'Please enter a reason for the refund' })
+      return
+    }
+
+    if (!refundAmount || refundAmount <= 0 || refundAmount > refundable) {
+      setResult({ success: false, message: `Enter an amount between 0.01 and ${refundable.toFixed(2)}` })
+      return
+    }
+
+    if (!confirm(`Record a ${mode} ${type} of ${currency || 'MYR'} ${refundAmount.toFixed(2)}? This cannot be undone.`)) {
+      return
+    }
+
+    setIsSubmitting(true)
+    setResult(null)
+
+    try {
+      const response = await fetch('/api/admin/donations/refund', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reference: paymentReference,
+          amount: mode === 'full' ? undefined : refundAmount,
+          reason,
+          type,
+          notifyDonor,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setResult({ success: true, message: data.message })
+        setIsOpen(false)
+        router.refresh()
+      } else {
+        setResult({ success: false, message: data.error || 'Failed to record refund' })
+      }
+    } catch {
+      setResult({ success: false, message: 'Network error. Please try again.' })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="mt-4">
+      {!isOpen ? (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-purple-700 bg-purple-50 border border-purple-200 rounded-xl hover:bg-purple-100 transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+          </svg>
+          Record Refund / Chargeback
+        </button>
+      ) : (
+        <div className="p-4 rounded-xl bg-white border border-purple-200 space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="font-medium text-purple-900">Record Refund</p>
+            <span className="text-xs text-gray-500">
+              Refundable: {currency || 'MYR'} {refundable.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+            </span>
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-4 text-sm">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Type</label>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as 'refund' | 'chargeback')}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg"
+              >
+                <option value="refund">Refund (requested by donor / admin)</option>
+                <option value="chargeback">Chargeback (reversed by bank)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Amount</label>
+              <div className="flex gap-2">
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as 'full' | 'partial')}
+                  className="px-3 py-2 border border-gray-200 rounded-lg"
+                >
+                  <option value="full">Full</option>
+                  <option value="partial">Partial</option>
+                </select>
+                {mode === 'partial' && (
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    max={refundable}
+                    value={partialAmount}
+                    onChange={(e) => setPartialAmount(e.target.value)}
+                    placeholder="0.00"
+                    className="flex-1 px-3 py-2 border border-gray-200 rounded-lg"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              maxLength={500}
+              placeholder="e.g. Duplicate payment, donor request"
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={notifyDonor}
+              onChange={(e) => setNotifyDonor(e.target.checked)}
+            />
+            Email the donor a refund confirmation
+          </label>
+
+          <p className="text-xs text-gray-500">
+            {mode === 'full'
+              ? 'The receipt will be voided and the donation marked as refunded.'
+              : 'The receipt will be reissued under a new number for the remaining amount.'}
+          </p>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Processing...' : 'Record Refund'}
+            </button>
+            <button
+              onClick={() => {
+                setIsOpen(false)
+                setResult(null)
+              }}
+              className="px-4 py-2 text-sm font-medium text-gray-600 rounded-lg hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div
+          className={`mt-3 p-3 rounded-xl text-sm ${
+            result.success
+              ? 'bg-emerald-50 text-emerald-700 border border-emerald-200'
+              : 'bg-red-50 text-red-700 border border-red-200'
+          }`}
+        >
+          {result.message}
+        </div>
+      )}
+    </div>
+  )
+}
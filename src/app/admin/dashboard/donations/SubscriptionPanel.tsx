@@ -0,0 +1,222 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface SubscriptionDetails {
+  id: string
+  status: 'pending' | 'active' | 'paused' | 'cancelled'
+  amount: number
+  currency: string | null
+  cycleCount: number | null
+  nextBillingAt: string | null
+  lastBilledAt: string | null
+  cancellationReason: string | null
+  createdAt: string
+}
+
+interface SubscriptionCycle {
+  id: string
+  cycle: number | null
+  amount: number
+  paymentStatus: string | null
+  paymentReference: string | null
+  receiptNumber: string | null
+  createdAt: string
+}
+
+const subscriptionStatusColors: Record<string, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  active: 'bg-emerald-100 text-emerald-700',
+  paused: 'bg-gray-100 text-gray-600',
+  cancelled: 'bg-red-100 text-red-700',
+}
+
+function formatShortDate(date: string) {
+  return new Date(date).toLocaleDateString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+/**
+ * Recurring donation details shown in the expanded DonationsTable row
+ */
+export default function SubscriptionPanel({
+  subscriptionId,
+  currentDonationId,
+}: {
+  subscriptionId: string
+  currentDonationId: string
+}) {
+  const router = useRouter()
+  const [subscription, setSubscription] = useState<SubscriptionDetails | null>(null)
+  const [cycles, setCycles] = useState<SubscriptionCycle[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSubscription = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/donations/subscriptions/${subscriptionId}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load subscription')
+      }
+      setSubscription(data.subscription)
+      setCycles(data.cycles)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load subscription')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [subscriptionId])
+
+  useEffect(() => {
+    loadSubscription()
+  }, [loadSubscription])
+
+  const handleAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (action === 'cancel' && !confirm('Cancel this monthly donation? No further pay links will be sent.')) {
+      return
+    }
+
+    setIsUpdating(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/admin/donations/subscriptions/${subscriptionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update subscription')
+      }
+      await loadSubscription()
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update subscription')
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="mt-4 p-4 rounded-xl bg-white border border-gray-100 text-sm text-gray-500 flex items-center gap-2">
+        <div className="w-4 h-4 border-2 border-teal-500 border-t-transparent rounded-full animate-spin" />
+        Loading subscription...
+      </div>
+    )
+  }
+
+  if (!subscription) {
+    return (
+      <div className="mt-4 p-4 rounded-xl text-sm bg-red-50 text-red-700 border border-red-200">
+        {error || 'Subscription not found'}
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-4 bg-white rounded-xl p-4 border border-indigo-100">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <p className="text-xs text-gray-500 uppercase tracking-wide font-semibold flex items-center gap-2">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            Monthly Donation
+          </p>
+          <span className={`px-2.5 py-1 rounded-full text-xs font-semibold ${subscriptionStatusColors[subscription.status]}`}>
+            {subscription.status.charAt(0).toUpperCase() + subscription.status.slice(1)}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {subscription.status === 'active' && (
+            <button
+              onClick={() => handleAction('pause')}
+              disabled={isUpdating}
+              className="px-3 py-1.5 text-xs font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+            >
+              Pause
+            </button>
+          )}
+          {subscription.status === 'paused' && (
+            <button
+              onClick={() => handleAction('resume')}
+              disabled={isUpdating}
+              className="px-3 py-1.5 text-xs font-medium rounded-lg bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-50"
+            >
+              Resume
+            </button>
+          )}
+          {subscription.status !== 'cancelled' && (
+            <button
+              onClick={() => handleAction('cancel')}
+              disabled={isUpdating}
+              className="px-3 py-1.5 text-xs font-medium rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-3 gap-4 text-sm mb-4">
+        <div className="flex justify-between sm:flex-col">
+          <span className="text-gray-500">Amount</span>
+          <span className="font-medium">{subscription.currency || 'MYR'} {subscription.amount.toLocaleString()} / month</span>
+        </div>
+        <div className="flex justify-between sm:flex-col">
+          <span className="text-gray-500">Cycles billed</span>
+          <span className="font-medium">{subscription.cycleCount || 0}</span>
+        </div>
+        <div className="flex justify-between sm:flex-col">
+          <span className="text-gray-500">Next billing</span>
+          <span className="font-medium">
+            {subscription.status === 'active' && subscription.nextBillingAt
+              ? formatShortDate(subscription.nextBillingAt)
+              : '-'}
+          </span>
+        </div>
+      </div>
+
+      {subscription.cancellationReason && (
+        <p className="text-xs text-gray-500 mb-4">
+          <span className="font-semibold">Cancellation reason:</span> {subscription.cancellationReason}
+        </p>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 mb-4">{error}</p>
+      )}
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+            <th className="py-2 font-semibold">Cycle</th>
+            <th className="py-2 font-semibold">Date</th>
+            <th className="py-2 font-semibold">Reference</th>
+            <th className="py-2 font-semibold">Receipt</th>
+            <th className="py-2 font-semibold">Status</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-50">
+          {cycles.map((cycle) => (
+            <tr key={cycle.id} className={cycle.id === currentDonationId ? 'bg-indigo-50/50' : ''}>
+              <td className="py-2 font-medium">#{cycle.cycle ?? '-'}</td>
+              <td className="py-2 text-gray-600">{formatShortDate(cycle.createdAt)}</td>
+              <td className="py-2 font-mono text-xs text-gray-500">{cycle.paymentReference}</td>
+              <td className="py-2 font-mono text-xs text-teal-600">{cycle.receiptNumber || '-'}</td>
+              <td className="py-2 capitalize">{cycle.paymentStatus}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface AccountingExportButtonProps {
+  profile: 'journal' | 'monthly'
+  format: 'csv' | 'xlsx'
+  environment?: string
+  exportId?: string // Download this earlier export's period again
+  label: string
+  primary?: boolean
+}
+
+export default function AccountingExportButton({
+  profile,
+  format,
+  environment,
+  exportId,
+  label,
+  primary = false,
+}: AccountingExportButtonProps) {
+  const router = useRouter()
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+
+    try {
+      // Downloading an earlier export again is a GET; a new export moves the
+      // watermark, so it is a POST
+      const response = exportId
+        ? await fetch(`/api/donations/export?${new URLSearchParams({ profile, format, exportId }).toString()}`)
+        : await fetch('/api/donations/export', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ profile, format, environment }),
+          })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setError(data.error || 'Export failed')
+        return
+      }
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+
+      const contentDisposition = response.headers.get('Content-Disposition')
+      const match = contentDisposition?.match(/filename="(.+)"/)
+      a.download = match ? match[1] : `${profile}.${format}`
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+
+      // The export is now in the history, and may have moved the watermark
+      router.refresh()
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="inline-flex flex-col items-start gap-1">
+      <button
+        onClick={handleExport}
+        disabled={isExporting}
+        className={primary
+          ? 'inline-flex items-center gap-2 px-4 py-2.5 bg-teal-600 text-white text-sm font-medium rounded-xl hover:bg-teal-700 transition-colors disabled:opacity-50'
+          : 'inline-flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50'}
+      >
+        {isExporting && (
+          <div className={`w-3.5 h-3.5 border-2 ${primary ? 'border-white' : 'border-gray-400'} border-t-transparent rounded-full animate-spin`} />
+        )}
+        {label}
+      </button>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
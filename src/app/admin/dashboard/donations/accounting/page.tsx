@@ -0,0 +1,208 @@
+import Link from 'next/link'
+import {
+  EXPORT_PROFILE_LABELS,
+  JOURNAL_ACCOUNTS,
+  getAccountingEntries,
+  getAccountingExportHistory,
+  getExportWatermark,
+  netAmount,
+} from '@/lib/accounting-export'
+import AccountingExportButton from './AccountingExportButton'
+
+function formatDate(date: Date) {
+  return new Date(date).toLocaleString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+export default async function AccountingExportsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ environment?: string }>
+}) {
+  const params = await searchParams
+  const environment = params.environment === 'sandbox' ? 'sandbox' : 'production'
+
+  const [watermark, history] = await Promise.all([
+    getExportWatermark(environment),
+    getAccountingExportHistory(),
+  ])
+
+  // What the next export would contain
+  const pending = await getAccountingEntries(environment, {
+    after: watermark?.exportedUpTo || null,
+    upTo: new Date(),
+  })
+  const pendingGifts = pending.filter(entry => entry.kind === 'gift').length
+  const pendingRefunds = pending.length - pendingGifts
+
+  return (
+    <div className="min-h-screen">
+      {/* Page Header */}
+      <div className="mb-8">
+        <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+          <Link href="/admin/dashboard" className="hover:text-teal-600 transition-colors">Dashboard</Link>
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+          </svg>
+          <Link href="/admin/dashboard/donations" className="hover:text-teal-600 transition-colors">Donations</Link>
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+          </svg>
+          <span className="text-foundation-charcoal font-medium">Accounting</span>
+        </nav>
+        <h1 className="font-heading text-2xl lg:text-3xl font-bold text-foundation-charcoal">
+          Accounting Exports
+        </h1>
+        <p className="text-gray-500 text-sm mt-1">
+          Journal lines and monthly summaries for SQL Account. Each export picks up where the last one stopped, so nothing is booked twice.
+        </p>
+      </div>
+
+      {/* Environment */}
+      <div className="flex gap-2 mb-6 text-sm">
+        {(['production', 'sandbox'] as const).map(env => (
+          <Link
+            key={env}
+            href={`/admin/dashboard/donations/accounting?environment=${env}`}
+            className={`px-3 py-1.5 rounded-lg font-medium capitalize ${
+              env === environment ? 'bg-teal-50 text-teal-700' : 'text-gray-500 hover:bg-gray-50'
+            }`}
+          >
+            {env}
+          </Link>
+        ))}
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+          <p className="text-gray-500 text-sm">Exported up to</p>
+          <p className="text-lg font-bold text-foundation-charcoal">
+            {watermark ? formatDate(watermark.exportedUpTo) : 'Never exported'}
+          </p>
+          {watermark && <p className="text-xs text-gray-500 mt-1">by {watermark.exportedBy}</p>}
+        </div>
+        <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+          <p className="text-gray-500 text-sm">New gifts</p>
+          <p className="text-2xl font-bold text-foundation-charcoal">{pendingGifts}</p>
+        </div>
+        <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+          <p className="text-gray-500 text-sm">New refunds</p>
+          <p className="text-2xl font-bold text-amber-600">{pendingRefunds}</p>
+        </div>
+        <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+          <p className="text-gray-500 text-sm">Net to book</p>
+          <p className="text-2xl font-bold text-emerald-600">{formatRM(netAmount(pending))}</p>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6 mb-6">
+        {/* New Export */}
+        <div className="lg:col-span-2 bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+          <h2 className="font-semibold text-foundation-charcoal mb-1">Export new entries</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Covers gifts completed and refunds recorded since {watermark ? formatDate(watermark.exportedUpTo) : 'the first donation'}, and moves the watermark to now.
+            Choose either the journal or the monthly summary for each period, not both.
+          </p>
+          <div className="space-y-3">
+            {(['journal', 'monthly'] as const).map(profile => (
+              <div key={profile} className="flex flex-wrap items-center gap-3">
+                <span className="w-44 text-sm font-medium text-gray-700">{EXPORT_PROFILE_LABELS[profile]}</span>
+                <AccountingExportButton profile={profile} format="xlsx" environment={environment} label="Excel (XLSX)" primary />
+                <AccountingExportButton profile={profile} format="csv" environment={environment} label="CSV" />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Accounts */}
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+          <h2 className="font-semibold text-foundation-charcoal mb-1">Account codes</h2>
+          <p className="text-sm text-gray-500 mb-3">Create these in SQL Account before the first import.</p>
+          <dl className="space-y-2 text-sm">
+            <div>
+              <dt className="font-mono text-xs text-gray-900">{JOURNAL_ACCOUNTS.bank.code}</dt>
+              <dd className="text-gray-500">Offline donations (bank transfer, cash, cheque)</dd>
+            </div>
+            <div>
+              <dt className="font-mono text-xs text-gray-900">{JOURNAL_ACCOUNTS.clearingPrefix}&lt;GATEWAY&gt;</dt>
+              <dd className="text-gray-500">Online donations until the gateway settles, e.g. CLEARING-TOYYIBPAY</dd>
+            </div>
+            <div>
+              <dt className="font-mono text-xs text-gray-900">{JOURNAL_ACCOUNTS.incomePrefix}&lt;FUND CODE&gt;</dt>
+              <dd className="text-gray-500">Donation income per designated fund, e.g. INCOME-ZAKAT</dd>
+            </div>
+            <div>
+              <dt className="font-mono text-xs text-gray-900">{JOURNAL_ACCOUNTS.generalIncome.code}</dt>
+              <dd className="text-gray-500">Donations made before funds existed</dd>
+            </div>
+          </dl>
+          <p className="text-xs text-gray-500 mt-3">The project column holds the project slug.</p>
+        </div>
+      </div>
+
+      {/* History */}
+      <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+        <div className="px-5 py-4 border-b border-gray-100">
+          <h2 className="font-semibold text-foundation-charcoal">Export history</h2>
+        </div>
+        {history.length === 0 ? (
+          <p className="p-5 text-sm text-gray-500">No accounting exports yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-100 bg-gray-50/80 uppercase tracking-wider">
+                  <th className="px-5 py-3 font-semibold">Exported</th>
+                  <th className="px-5 py-3 font-semibold">Profile</th>
+                  <th className="px-5 py-3 font-semibold">Period</th>
+                  <th className="px-5 py-3 font-semibold text-right">Entries</th>
+                  <th className="px-5 py-3 font-semibold text-right">Net</th>
+                  <th className="px-5 py-3 font-semibold text-right">Download again</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {history.map(item => (
+                  <tr key={item.id} className="align-top">
+                    <td className="px-5 py-4 text-sm">
+                      <p className="text-gray-900">{formatDate(item.createdAt)}</p>
+                      <p className="text-xs text-gray-500">{item.exportedBy}</p>
+                    </td>
+                    <td className="px-5 py-4 text-sm text-gray-600">
+                      {EXPORT_PROFILE_LABELS[item.profile === 'monthly' ? 'monthly' : 'journal']}
+                      <p className="text-xs text-gray-500 capitalize">
+                        {item.environment} · {item.format.toUpperCase()}{item.mode === 'repeat' ? ' · repeat' : ''}
+                      </p>
+                    </td>
+                    <td className="px-5 py-4 text-xs text-gray-600 whitespace-nowrap">
+                      {item.periodStart ? formatDate(item.periodStart) : 'Beginning'} – {formatDate(item.exportedUpTo)}
+                    </td>
+                    <td className="px-5 py-4 text-sm text-gray-600 text-right">{item.entryCount}</td>
+                    <td className="px-5 py-4 text-sm font-semibold text-foundation-charcoal text-right whitespace-nowrap">
+                      {formatRM(item.netAmount)}
+                    </td>
+                    <td className="px-5 py-4 text-right whitespace-nowrap">
+                      <div className="inline-flex gap-2">
+                        <AccountingExportButton profile="journal" format="xlsx" exportId={item.id} label="Journal" />
+                        <AccountingExportButton profile="monthly" format="xlsx" exportId={item.id} label="Monthly" />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
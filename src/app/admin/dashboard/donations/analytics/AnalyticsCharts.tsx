@@ -0,0 +1,140 @@
+/**
+ * Dependency-free charts for the analytics page, rendered on the server
+ */
+
+interface BarPoint {
+  label: string
+  value: number
+  background?: number // Drawn behind the bar, e.g. donations started vs completed
+}
+
+function formatBucketLabel(bucket: string, interval: string) {
+  const date = new Date(`${bucket}T00:00:00Z`)
+  return date.toLocaleDateString('en-MY', interval === 'month'
+    ? { month: 'short', year: '2-digit', timeZone: 'UTC' }
+    : { day: 'numeric', month: 'short', timeZone: 'UTC' })
+}
+
+export function BarChart({
+  points,
+  interval,
+  format,
+  color = 'bg-teal-500',
+}: {
+  points: BarPoint[]
+  interval: string
+  format: (value: number) => string
+  color?: string
+}) {
+  const max = Math.max(1, ...points.map(p => Math.max(p.value, p.background || 0)))
+  // Label roughly a dozen buckets so long ranges stay readable
+  const labelEvery = Math.max(1, Math.ceil(points.length / 12))
+
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500 py-10 text-center">No donations in this period.</p>
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-48">
+        {points.map(point => (
+          <div
+            key={point.label}
+            className="relative flex-1 h-full flex items-end"
+            title={`${formatBucketLabel(point.label, interval)}: ${format(point.value)}${point.background !== undefined ? ` of ${format(point.background)}` : ''}`}
+          >
+            {point.background !== undefined && (
+              <div
+                className="absolute bottom-0 inset-x-0 bg-gray-100 rounded-t"
+                style={{ height: `${(point.background / max) * 100}%` }}
+              />
+            )}
+            <div
+              className={`relative w-full ${color} rounded-t`}
+              style={{ height: `${(point.value / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px mt-2">
+        {points.map((point, index) => (
+          <div key={point.label} className="flex-1 text-[10px] text-gray-400 text-center overflow-visible whitespace-nowrap">
+            {index % labelEvery === 0 ? formatBucketLabel(point.label, interval) : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function LineChart({
+  points,
+  interval,
+  format,
+}: {
+  points: BarPoint[]
+  interval: string
+  format: (value: number) => string
+}) {
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500 py-10 text-center">No donations in this period.</p>
+  }
+
+  const max = Math.max(1, ...points.map(p => p.value))
+  const step = points.length > 1 ? 100 / (points.length - 1) : 0
+  const coordinates = points.map((point, index) => `${index * step},${40 - (point.value / max) * 38}`).join(' ')
+
+  return (
+    <div>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-40">
+        <polyline
+          points={coordinates}
+          fill="none"
+          stroke="#0d9488"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-400 mt-2">
+        <span>{formatBucketLabel(points[0].label, interval)}</span>
+        <span>Peak {format(max)}</span>
+        <span>{formatBucketLabel(points[points.length - 1].label, interval)}</span>
+      </div>
+    </div>
+  )
+}
+
+export function BreakdownList({
+  rows,
+  format,
+}: {
+  rows: { key: string; label: string; count: number; amount: number }[]
+  format: (value: number) => string
+}) {
+  const total = rows.reduce((sum, row) => sum + row.amount, 0)
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">No completed donations.</p>
+  }
+
+  return (
+    <ul className="space-y-3">
+      {rows.map(row => {
+        const share = total > 0 ? (row.amount / total) * 100 : 0
+        return (
+          <li key={row.key}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-gray-700 truncate pr-3 capitalize">{row.label}</span>
+              <span className="text-gray-900 font-medium whitespace-nowrap">
+                {format(row.amount)} <span className="text-gray-400 font-normal">· {row.count}</span>
+              </span>
+            </div>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div className="h-full bg-teal-500 rounded-full" style={{ width: `${share}%` }} />
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,275 @@
+import Link from 'next/link'
+import { db, donations, projects } from '@/db'
+import { desc, eq, sql } from 'drizzle-orm'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { getFundNames } from '@/lib/funds'
+import {
+  ANALYTICS_INTERVALS,
+  getDonationAnalytics,
+  parseAnalyticsInterval,
+  type DonationAnalyticsFilters,
+} from '@/lib/donation-analytics'
+import DonationFilters from '../DonationFilters'
+import { BarChart, BreakdownList, LineChart } from './AnalyticsCharts'
+
+interface SearchParams extends DonationAnalyticsFilters {
+  interval?: string
+}
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+function formatMonth(month: string) {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-MY', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+}
+
+async function getProjectsForFilter() {
+  const projectsList = await db.query.projects.findMany({
+    where: eq(projects.donationEnabled, true),
+    columns: {
+      id: true,
+      title: true,
+    },
+    orderBy: [desc(projects.createdAt)],
+  })
+  return projectsList.map(p => ({
+    id: p.id,
+    title: typeof p.title === 'string' ? p.title : getLocalizedValue(p.title as LocalizedString, 'en')
+  }))
+}
+
+export default async function DonationAnalyticsPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>
+}) {
+  const params = await searchParams
+  const interval = parseAnalyticsInterval(params.interval)
+  const filters: DonationAnalyticsFilters = { ...params, environment: params.environment || 'production' }
+
+  const [analytics, projectsForFilter, fundNames, sandboxRows] = await Promise.all([
+    getDonationAnalytics(filters, interval),
+    getProjectsForFilter(),
+    getFundNames(),
+    db.select({ count: sql<number>`COUNT(*)` }).from(donations).where(eq(donations.environment, 'sandbox')),
+  ])
+
+  const { summary, series, donorTypes, cohorts } = analytics
+  const identifiedGifts = donorTypes.firstTime.count + donorTypes.repeat.count
+
+  const intervalHref = (value: string) => {
+    const query = new URLSearchParams(
+      Object.entries(params).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+    )
+    query.set('interval', value)
+    return `/admin/dashboard/donations/analytics?${query.toString()}`
+  }
+
+  return (
+    <div className="min-h-screen">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+            <Link href="/admin/dashboard" className="hover:text-teal-600 transition-colors">Dashboard</Link>
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+            </svg>
+            <Link href="/admin/dashboard/donations" className="hover:text-teal-600 transition-colors">Donations</Link>
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+            </svg>
+            <span className="text-foundation-charcoal font-medium">Analytics</span>
+          </nav>
+          <h1 className="font-heading text-2xl lg:text-3xl font-bold text-foundation-charcoal">
+            Donation Analytics
+          </h1>
+          <p className="text-gray-500 text-sm mt-1">
+            Trends, channels and donor retention. Amounts are completed donations net of refunds.
+          </p>
+        </div>
+        <div className="flex items-center gap-1 bg-white border border-gray-200 rounded-xl p-1">
+          {ANALYTICS_INTERVALS.map(value => (
+            <Link
+              key={value}
+              href={intervalHref(value)}
+              className={`px-3 py-1.5 text-sm rounded-lg capitalize ${
+                interval === value ? 'bg-teal-600 text-white' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {value === 'day' ? 'Daily' : value === 'week' ? 'Weekly' : 'Monthly'}
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      <DonationFilters
+        projects={projectsForFilter}
+        funds={Object.entries(fundNames).map(([id, name]) => ({ id, name }))}
+        currentParams={params}
+        hasSandboxDonations={Number(sandboxRows[0]?.count || 0) > 0}
+      />
+
+      {/* Summary */}
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 shadow-sm">
+          <p className="text-sm text-gray-500">Raised</p>
+          <p className="font-display text-2xl font-bold text-emerald-600">{formatRM(summary.amount)}</p>
+          <p className="text-xs text-gray-400">{summary.completed} donations from {summary.donors} donors</p>
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 shadow-sm">
+          <p className="text-sm text-gray-500">Average Gift</p>
+          <p className="font-display text-2xl font-bold text-foundation-charcoal">{formatRM(summary.averageGift)}</p>
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 shadow-sm">
+          <p className="text-sm text-gray-500">Conversion</p>
+          <p className="font-display text-2xl font-bold text-foundation-charcoal">{summary.conversionRate}%</p>
+          <p className="text-xs text-gray-400">{summary.completed} of {summary.created} started donations completed</p>
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 shadow-sm">
+          <p className="text-sm text-gray-500">Not Completed</p>
+          <p className="font-display text-2xl font-bold text-foundation-charcoal">{summary.pending + summary.failed + summary.expired}</p>
+          <p className="text-xs text-gray-400">{summary.pending} pending · {summary.failed} failed · {summary.expired} expired</p>
+        </div>
+      </div>
+
+      {/* Trends */}
+      <div className="grid lg:grid-cols-2 gap-6 mb-8">
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+          <h2 className="font-semibold text-foundation-charcoal mb-4">Amount Raised</h2>
+          <BarChart
+            points={series.map(point => ({ label: point.bucket, value: point.amount }))}
+            interval={interval}
+            format={formatRM}
+          />
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-semibold text-foundation-charcoal">Donations</h2>
+            <div className="flex items-center gap-3 text-xs text-gray-500">
+              <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-teal-500" /> Completed</span>
+              <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-gray-200" /> Started</span>
+            </div>
+          </div>
+          <BarChart
+            points={series.map(point => ({ label: point.bucket, value: point.completed, background: point.created }))}
+            interval={interval}
+            format={value => value.toString()}
+          />
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+          <h2 className="font-semibold text-foundation-charcoal mb-4">Average Gift</h2>
+          <LineChart
+            points={series.map(point => ({ label: point.bucket, value: point.averageGift }))}
+            interval={interval}
+            format={formatRM}
+          />
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+          <h2 className="font-semibold text-foundation-charcoal mb-4">Conversion Rate</h2>
+          <LineChart
+            points={series.map(point => ({ label: point.bucket, value: point.conversionRate }))}
+            interval={interval}
+            format={value => `${value}%`}
+          />
+        </div>
+      </div>
+
+      {/* Breakdowns */}
+      <div className="grid lg:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+          <h2 className="font-semibold text-foundation-charcoal mb-4">By Project</h2>
+          <BreakdownList rows={analytics.byProject} format={formatRM} />
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+          <h2 className="font-semibold text-foundation-charcoal mb-4">By Payment Channel</h2>
+          <BreakdownList rows={analytics.byChannel} format={formatRM} />
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+          <h2 className="font-semibold text-foundation-charcoal mb-4">By Environment</h2>
+          <BreakdownList rows={analytics.byEnvironment} format={formatRM} />
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* First-time vs Repeat */}
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+          <h2 className="font-semibold text-foundation-charcoal mb-1">First-time vs Repeat</h2>
+          <p className="text-xs text-gray-400 mb-4">A gift is first-time when the donor had never completed a donation before it</p>
+          <div className="space-y-4">
+            {[
+              { label: 'First-time gifts', ...donorTypes.firstTime, color: 'bg-sky-500' },
+              { label: 'Repeat gifts', ...donorTypes.repeat, color: 'bg-teal-500' },
+            ].map(row => (
+              <div key={row.label}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="text-gray-700">{row.label}</span>
+                  <span className="font-medium text-gray-900">{row.count} · {formatRM(row.amount)}</span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${row.color} rounded-full`}
+                    style={{ width: `${identifiedGifts > 0 ? (row.count / identifiedGifts) * 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+            {donorTypes.unidentified.count > 0 && (
+              <p className="text-xs text-gray-400">
+                {donorTypes.unidentified.count} gift{donorTypes.unidentified.count !== 1 ? 's' : ''} ({formatRM(donorTypes.unidentified.amount)}) left no email or donor profile
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Retention Cohorts */}
+        <div className="lg:col-span-2 bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+          <div className="px-5 py-4 border-b border-gray-100">
+            <h2 className="font-semibold text-foundation-charcoal">Donor Retention</h2>
+            <p className="text-xs text-gray-400">Donors grouped by the month of their first gift, and the share who gave again each month after</p>
+          </div>
+          {cohorts.length === 0 ? (
+            <p className="p-5 text-sm text-gray-500">No donors in this period.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wider">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium">First Gift</th>
+                    <th className="px-4 py-3 text-right font-medium">Donors</th>
+                    {cohorts[0].retention.map((_, index) => (
+                      <th key={index} className="px-3 py-3 text-center font-medium">M+{index + 1}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {cohorts.map(cohort => (
+                    <tr key={cohort.cohort}>
+                      <td className="px-4 py-2 text-gray-700 whitespace-nowrap">{formatMonth(cohort.cohort)}</td>
+                      <td className="px-4 py-2 text-right text-gray-900 font-medium">{cohort.size}</td>
+                      {cohort.retention.map((rate, index) => (
+                        <td key={index} className="px-1 py-1 text-center">
+                          {rate === null ? (
+                            <span className="text-gray-300">-</span>
+                          ) : (
+                            <span
+                              className="block rounded-md px-2 py-1.5 text-xs font-medium text-teal-900"
+                              style={{ backgroundColor: `rgba(20, 184, 166, ${0.08 + (rate / 100) * 0.72})` }}
+                            >
+                              {rate}%
+                            </span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
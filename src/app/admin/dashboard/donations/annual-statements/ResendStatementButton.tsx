@@ -0,0 +1,47 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+export default function ResendStatementButton({ year, email, label }: { year: number; email: string; label: string }) {
+  const router = useRouter()
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const send = async () => {
+    setIsSending(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/donations/annual-statements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year, email }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        router.refresh()
+      } else {
+        setError(data.error || 'Failed to send statement')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <span className="inline-flex flex-col items-end">
+      <button
+        onClick={send}
+        disabled={isSending}
+        className="text-xs font-medium text-teal-600 hover:text-teal-700 disabled:opacity-50"
+      >
+        {isSending ? 'Sending...' : label}
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </span>
+  )
+}
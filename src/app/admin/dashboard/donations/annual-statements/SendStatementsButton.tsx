@@ -0,0 +1,102 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface SendStatementsButtonProps {
+  year: number
+  pendingCount: number
+  failedCount: number
+}
+
+/**
+ * Sends statements batch by batch until none are left, so a large mailing
+ * never hits the request time limit
+ */
+export default function SendStatementsButton({ year, pendingCount, failedCount }: SendStatementsButtonProps) {
+  const router = useRouter()
+  const [isSending, setIsSending] = useState(false)
+  const [progress, setProgress] = useState<{ sent: number; failed: number } | null>(null)
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const sendAll = async (retryFailed: boolean) => {
+    const total = retryFailed ? failedCount : pendingCount
+    if (!confirm(`Email ${total} ${year} statement(s) to donors?`)) return
+
+    setIsSending(true)
+    setResult(null)
+
+    let sent = 0
+    let failed = 0
+    setProgress({ sent, failed })
+
+    try {
+      while (true) {
+        const response = await fetch('/api/admin/donations/annual-statements', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ year, retryFailed }),
+        })
+        const data = await response.json()
+
+        if (!response.ok) {
+          setResult({ success: false, message: data.error || 'Failed to send statements' })
+          break
+        }
+
+        sent += data.sent
+        failed += data.failed
+        setProgress({ sent, failed })
+
+        // Stop once everything is sent, or when a batch made no progress
+        if (data.remaining === 0 || data.sent === 0) {
+          setResult({
+            success: failed === 0,
+            message: `Sent ${sent} statement(s)${failed > 0 ? `, ${failed} failed` : ''}`,
+          })
+          break
+        }
+      }
+    } catch {
+      setResult({ success: false, message: 'Network error. Sent statements are kept; run again to continue.' })
+    } finally {
+      setIsSending(false)
+      router.refresh()
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex items-center gap-2">
+        {failedCount > 0 && (
+          <button
+            onClick={() => sendAll(true)}
+            disabled={isSending}
+            className="px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            Retry {failedCount} failed
+          </button>
+        )}
+        <button
+          onClick={() => sendAll(false)}
+          disabled={isSending || pendingCount === 0}
+          className="inline-flex items-center gap-2 px-4 py-2.5 bg-teal-600 text-white text-sm font-medium rounded-xl hover:bg-teal-700 transition-colors disabled:opacity-50"
+        >
+          {isSending ? (
+            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+          ) : (
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+            </svg>
+          )}
+          {isSending
+            ? `Sending... ${progress?.sent || 0} sent`
+            : `Generate & Email All ${year} Statements`}
+        </button>
+      </div>
+      {result && (
+        <p className={`text-xs ${result.success ? 'text-emerald-600' : 'text-red-600'}`}>{result.message}</p>
+      )}
+    </div>
+  )
+}
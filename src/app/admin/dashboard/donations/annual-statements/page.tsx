@@ -0,0 +1,187 @@
+import Link from 'next/link'
+import { getAnnualStatementDonorStatuses, type AnnualStatementSendStatus } from '@/lib/annual-statements'
+import { getOrganizationConfig } from '@/lib/organization-config'
+import SendStatementsButton from './SendStatementsButton'
+import ResendStatementButton from './ResendStatementButton'
+
+interface SearchParams {
+  year?: string
+}
+
+const statusStyles: Record<AnnualStatementSendStatus, { label: string; className: string }> = {
+  not_sent: { label: 'Not sent', className: 'bg-gray-100 text-gray-600' },
+  sent: { label: 'Sent', className: 'bg-emerald-100 text-emerald-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+  outdated: { label: 'Changed since sent', className: 'bg-amber-100 text-amber-700' },
+}
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+function formatDate(date: Date) {
+  return new Date(date).toLocaleString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export default async function AnnualStatementsPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>
+}) {
+  const params = await searchParams
+  const currentYear = new Date().getFullYear()
+  const years = [currentYear, currentYear - 1, currentYear - 2, currentYear - 3]
+  const year = years.includes(Number(params.year)) ? Number(params.year) : currentYear
+
+  const [donors, organization] = await Promise.all([
+    getAnnualStatementDonorStatuses(year),
+    getOrganizationConfig(),
+  ])
+
+  const totalAmount = donors.reduce((sum, d) => sum + d.totalAmount, 0)
+  const sentCount = donors.filter(d => d.status === 'sent').length
+  const pendingCount = donors.filter(d => d.status === 'not_sent' || d.status === 'outdated').length
+  const failedCount = donors.filter(d => d.status === 'failed').length
+
+  return (
+    <div className="min-h-screen">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+            <Link href="/admin/dashboard" className="hover:text-teal-600 transition-colors">Dashboard</Link>
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+            </svg>
+            <Link href="/admin/dashboard/donations" className="hover:text-teal-600 transition-colors">Donations</Link>
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+            </svg>
+            <span className="text-foundation-charcoal font-medium">Tax Statements</span>
+          </nav>
+          <h1 className="font-heading text-2xl lg:text-3xl font-bold text-foundation-charcoal">
+            Annual Tax Statements
+          </h1>
+          <p className="text-gray-500 text-sm mt-1">
+            One consolidated statement per donor email, listing every completed donation in the year
+          </p>
+        </div>
+        <SendStatementsButton year={year} pendingCount={pendingCount} failedCount={failedCount} />
+      </div>
+
+      {/* Year Selector */}
+      <div className="flex gap-2 mb-6">
+        {years.map(y => (
+          <Link
+            key={y}
+            href={`/admin/dashboard/donations/annual-statements?year=${y}`}
+            className={`px-4 py-2 text-sm rounded-xl border transition-colors ${
+              y === year
+                ? 'bg-teal-600 border-teal-600 text-white font-medium'
+                : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {y}
+          </Link>
+        ))}
+      </div>
+
+      {!organization.taxExemptionRef && (
+        <div className="mb-6 p-4 rounded-xl bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          No tax exemption reference is set in organization settings, so statements will say donations are not
+          tax deductible. Add the LHDN reference before sending if the approval has been granted.
+        </div>
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+          <p className="text-gray-500 text-sm">Donors</p>
+          <p className="text-2xl font-bold text-foundation-charcoal">{donors.length}</p>
+        </div>
+        <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+          <p className="text-gray-500 text-sm">Total donated</p>
+          <p className="text-2xl font-bold text-foundation-charcoal">{formatRM(totalAmount)}</p>
+        </div>
+        <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+          <p className="text-gray-500 text-sm">Sent</p>
+          <p className="text-2xl font-bold text-emerald-600">{sentCount}</p>
+        </div>
+        <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+          <p className="text-gray-500 text-sm">To send</p>
+          <p className="text-2xl font-bold text-amber-600">{pendingCount}</p>
+        </div>
+      </div>
+
+      {/* Donors */}
+      <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+        {donors.length === 0 ? (
+          <div className="p-12 text-center">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No donations in {year}</h3>
+            <p className="text-gray-500">Statements are only generated for donors with completed donations and an email address.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-100 bg-gray-50/80 uppercase tracking-wider">
+                  <th className="px-5 py-3 font-semibold">Donor</th>
+                  <th className="px-5 py-3 font-semibold">Statement</th>
+                  <th className="px-5 py-3 font-semibold text-right">Donations</th>
+                  <th className="px-5 py-3 font-semibold text-right">Total</th>
+                  <th className="px-5 py-3 font-semibold">Email</th>
+                  <th className="px-5 py-3 font-semibold text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {donors.map(donor => (
+                  <tr key={donor.donorEmail} className="align-top">
+                    <td className="px-5 py-4 text-sm">
+                      <p className="font-medium text-gray-900">{donor.donorName || 'Anonymous'}</p>
+                      <p className="text-xs text-gray-500">{donor.donorEmail}</p>
+                    </td>
+                    <td className="px-5 py-4 text-xs font-mono text-gray-600 whitespace-nowrap">{donor.statementNumber}</td>
+                    <td className="px-5 py-4 text-sm text-gray-600 text-right">{donor.donationCount}</td>
+                    <td className="px-5 py-4 text-sm font-semibold text-foundation-charcoal text-right whitespace-nowrap">
+                      {formatRM(donor.totalAmount)}
+                    </td>
+                    <td className="px-5 py-4 text-xs space-y-1">
+                      <span className={`px-2 py-0.5 rounded-full font-semibold ${statusStyles[donor.status].className}`}>
+                        {statusStyles[donor.status].label}
+                      </span>
+                      {donor.sentAt && <p className="text-gray-500">{formatDate(donor.sentAt)}</p>}
+                      {donor.status === 'failed' && donor.emailError && (
+                        <p className="text-red-600">{donor.emailError}</p>
+                      )}
+                    </td>
+                    <td className="px-5 py-4 text-right whitespace-nowrap">
+                      <div className="flex flex-col items-end gap-1">
+                        <a
+                          href={`/api/admin/donations/annual-statements/download?year=${year}&email=${encodeURIComponent(donor.donorEmail)}`}
+                          className="text-xs font-medium text-teal-600 hover:text-teal-700"
+                        >
+                          Download PDF
+                        </a>
+                        <ResendStatementButton
+                          year={year}
+                          email={donor.donorEmail}
+                          label={donor.status === 'not_sent' ? 'Send' : 'Resend'}
+                        />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,251 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+interface StatementLine {
+  row: number
+  date: string
+  description: string
+  reference: string | null
+  amount: number // In cents
+  status: 'unmatched' | 'matched' | 'created' | 'ignored'
+  resolvedBy: string | null
+}
+
+export interface SuggestionView {
+  paymentReference: string | null
+  donorName: string | null
+  amount: number // In cents
+  paymentStatus: string | null
+  score: number
+  reasons: string[]
+}
+
+interface StatementLinesProps {
+  importId: string
+  lines: StatementLine[]
+  suggestions: Record<number, SuggestionView[]>
+  resolvedReferences: Record<number, string | null>
+  projects: { id: string; title: string }[]
+}
+
+const lineStatusStyles: Record<StatementLine['status'], { label: string; className: string }> = {
+  unmatched: { label: 'Unmatched', className: 'bg-amber-100 text-amber-700' },
+  matched: { label: 'Matched', className: 'bg-emerald-100 text-emerald-700' },
+  created: { label: 'Created', className: 'bg-sky-100 text-sky-700' },
+  ignored: { label: 'Ignored', className: 'bg-gray-100 text-gray-600' },
+}
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+function LineActions({
+  importId,
+  line,
+  suggestions,
+  projects,
+}: {
+  importId: string
+  line: StatementLine
+  suggestions: SuggestionView[]
+  projects: { id: string; title: string }[]
+}) {
+  const router = useRouter()
+  const [mode, setMode] = useState<'match' | 'create'>(suggestions.length > 0 ? 'match' : 'create')
+  const [selectedReference, setSelectedReference] = useState(suggestions[0]?.paymentReference || '')
+  const [donorName, setDonorName] = useState('')
+  const [donorEmail, setDonorEmail] = useState('')
+  const [projectId, setProjectId] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (action: 'match' | 'create' | 'ignore') => {
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/admin/donations/bank-import/${importId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          row: line.row,
+          action,
+          donationReference: selectedReference.trim(),
+          donorName,
+          donorEmail,
+          projectId,
+        }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        router.refresh()
+      } else {
+        setError(data.error || 'Failed to resolve line')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1 text-xs">
+        <button
+          onClick={() => setMode('match')}
+          className={`px-2.5 py-1 rounded-lg ${mode === 'match' ? 'bg-teal-50 text-teal-700 font-medium' : 'text-gray-500 hover:bg-gray-100'}`}
+        >
+          Match
+        </button>
+        <button
+          onClick={() => setMode('create')}
+          className={`px-2.5 py-1 rounded-lg ${mode === 'create' ? 'bg-teal-50 text-teal-700 font-medium' : 'text-gray-500 hover:bg-gray-100'}`}
+        >
+          New donation
+        </button>
+      </div>
+
+      {mode === 'match' ? (
+        <div className="space-y-2">
+          {suggestions.map(suggestion => (
+            <label key={suggestion.paymentReference} className="flex items-start gap-2 text-xs cursor-pointer">
+              <input
+                type="radio"
+                name={`match-${line.row}`}
+                checked={selectedReference === suggestion.paymentReference}
+                onChange={() => setSelectedReference(suggestion.paymentReference || '')}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-medium text-gray-900">{suggestion.donorName || 'Unknown'}</span>
+                {' · '}{formatRM(suggestion.amount)}
+                {' · '}<span className="font-mono">{suggestion.paymentReference}</span>
+                <span className="block text-gray-500">
+                  {suggestion.paymentStatus === 'awaiting_approval' ? 'Offline, awaiting approval' : 'Pending online'}
+                  {' · '}{suggestion.reasons.join(', ')} ({suggestion.score}%)
+                </span>
+              </span>
+            </label>
+          ))}
+          <input
+            value={selectedReference}
+            onChange={(e) => setSelectedReference(e.target.value)}
+            placeholder="or enter a payment reference (YIP-...)"
+            className="w-full px-2 py-1.5 border border-gray-200 rounded-lg text-xs font-mono"
+          />
+        </div>
+      ) : (
+        <div className="grid sm:grid-cols-3 gap-2">
+          <input
+            value={donorName}
+            onChange={(e) => setDonorName(e.target.value)}
+            placeholder="Donor name"
+            className="px-2 py-1.5 border border-gray-200 rounded-lg text-xs"
+          />
+          <input
+            type="email"
+            value={donorEmail}
+            onChange={(e) => setDonorEmail(e.target.value)}
+            placeholder="Donor email (optional)"
+            className="px-2 py-1.5 border border-gray-200 rounded-lg text-xs"
+          />
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="px-2 py-1.5 border border-gray-200 rounded-lg text-xs"
+          >
+            <option value="">General Fund</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.title}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => submit(mode)}
+          disabled={isSubmitting || (mode === 'match' ? !selectedReference.trim() : !donorName.trim())}
+          className="px-3 py-1.5 text-xs font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : mode === 'match' ? 'Confirm Match' : 'Create Donation'}
+        </button>
+        <button
+          onClick={() => submit('ignore')}
+          disabled={isSubmitting}
+          className="px-3 py-1.5 text-xs font-medium text-gray-600 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+        >
+          Ignore
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
+
+/**
+ * Statement lines with match suggestions and match / create / ignore actions
+ */
+export default function StatementLines({ importId, lines, suggestions, resolvedReferences, projects }: StatementLinesProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-100 bg-gray-50/80 uppercase tracking-wider">
+            <th className="px-5 py-3 font-semibold">Date</th>
+            <th className="px-5 py-3 font-semibold">Transaction</th>
+            <th className="px-5 py-3 font-semibold text-right">Amount</th>
+            <th className="px-5 py-3 font-semibold">Donation</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-50">
+          {lines.map(line => (
+            <tr key={line.row} className="align-top">
+              <td className="px-5 py-4 text-sm text-gray-600 whitespace-nowrap">
+                {new Date(line.date).toLocaleDateString('en-MY', { day: 'numeric', month: 'short', year: 'numeric' })}
+              </td>
+              <td className="px-5 py-4 text-sm">
+                <p className="text-gray-900">{line.description || '-'}</p>
+                {line.reference && <p className="font-mono text-xs text-gray-500 mt-1">{line.reference}</p>}
+              </td>
+              <td className="px-5 py-4 text-sm font-semibold text-foundation-charcoal text-right whitespace-nowrap">
+                {formatRM(line.amount)}
+              </td>
+              <td className="px-5 py-4 min-w-[320px]">
+                {line.status === 'unmatched' ? (
+                  <LineActions
+                    importId={importId}
+                    line={line}
+                    suggestions={suggestions[line.row] || []}
+                    projects={projects}
+                  />
+                ) : (
+                  <div className="text-xs space-y-1">
+                    <span className={`px-2 py-0.5 rounded-full font-semibold ${lineStatusStyles[line.status].className}`}>
+                      {lineStatusStyles[line.status].label}
+                    </span>
+                    {resolvedReferences[line.row] && (
+                      <Link
+                        href={`/admin/dashboard/donations?environment=all&search=${resolvedReferences[line.row]}`}
+                        className="block font-mono text-teal-600 hover:text-teal-700"
+                      >
+                        {resolvedReferences[line.row]}
+                      </Link>
+                    )}
+                    {line.resolvedBy && <p className="text-gray-500">by {line.resolvedBy}</p>}
+                  </div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+import Link from 'next/link'
+import { db, bankStatementImports, donations, projects } from '@/db'
+import { desc, eq, inArray } from 'drizzle-orm'
+import { getMatchCandidates, suggestMatchesForLines } from '@/lib/bank-statements'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import UploadStatementButton from './UploadStatementButton'
+import StatementLines, { type SuggestionView } from './StatementLines'
+
+interface SearchParams {
+  import?: string
+}
+
+const bankLabels: Record<string, string> = {
+  maybank: 'Maybank',
+  cimb: 'CIMB',
+  generic: 'Bank',
+}
+
+function formatDate(date: Date) {
+  return new Date(date).toLocaleString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+async function getProjectsForForm() {
+  const projectsList = await db.query.projects.findMany({
+    where: eq(projects.donationEnabled, true),
+    columns: {
+      id: true,
+      title: true,
+    },
+    orderBy: [desc(projects.createdAt)],
+  })
+  return projectsList.map(p => ({
+    id: p.id,
+    title: typeof p.title === 'string' ? p.title : getLocalizedValue(p.title as LocalizedString, 'en')
+  }))
+}
+
+export default async function BankImportPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>
+}) {
+  const params = await searchParams
+
+  const imports = await db.query.bankStatementImports.findMany({
+    orderBy: [desc(bankStatementImports.createdAt)],
+    limit: 30,
+  })
+
+  const selected = imports.find(i => i.id === params.import) || imports[0]
+
+  let suggestions: Record<number, SuggestionView[]> = {}
+  let resolvedReferences: Record<number, string | null> = {}
+  let projectsForForm: { id: string; title: string }[] = []
+
+  if (selected) {
+    const [candidates, projectList] = await Promise.all([getMatchCandidates(), getProjectsForForm()])
+    projectsForForm = projectList
+
+    const candidatesById = new Map(candidates.map(c => [c.id, c]))
+    const rawSuggestions = suggestMatchesForLines(selected.lines, candidates)
+    suggestions = Object.fromEntries(Object.entries(rawSuggestions).map(([row, list]) => [
+      row,
+      list.map(s => {
+        const candidate = candidatesById.get(s.donationId)!
+        return {
+          paymentReference: s.paymentReference,
+          donorName: candidate.donorName,
+          amount: candidate.amount,
+          paymentStatus: candidate.paymentStatus,
+          score: s.score,
+          reasons: s.reasons,
+        }
+      }),
+    ]))
+
+    const donationIds = selected.lines.map(l => l.donationId).filter((id): id is string => !!id)
+    if (donationIds.length > 0) {
+      const linked = await db.query.donations.findMany({
+        where: inArray(donations.id, donationIds),
+        columns: { id: true, paymentReference: true },
+      })
+      const referenceById = new Map(linked.map(d => [d.id, d.paymentReference]))
+      resolvedReferences = Object.fromEntries(
+        selected.lines.map(l => [l.row, l.donationId ? referenceById.get(l.donationId) || null : null])
+      )
+    }
+  }
+
+  const unmatchedCount = selected?.lines.filter(l => l.status === 'unmatched').length || 0
+  const unmatchedAmount = selected?.lines.filter(l => l.status === 'unmatched').reduce((sum, l) => sum + l.amount, 0) || 0
+
+  return (
+    <div className="min-h-screen">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+            <Link href="/admin/dashboard" className="hover:text-teal-600 transition-colors">Dashboard</Link>
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+            </svg>
+            <Link href="/admin/dashboard/donations" className="hover:text-teal-600 transition-colors">Donations</Link>
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+            </svg>
+            <span className="text-foundation-charcoal font-medium">Bank Import</span>
+          </nav>
+          <h1 className="font-heading text-2xl lg:text-3xl font-bold text-foundation-charcoal">
+            Bank Statement Import
+          </h1>
+          <p className="text-gray-500 text-sm mt-1">
+            Match Maybank and CIMB transfers to pending and offline donations
+          </p>
+        </div>
+        <UploadStatementButton />
+      </div>
+
+      <div className="grid lg:grid-cols-4 gap-6">
+        {/* Import History */}
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden self-start">
+          <div className="px-5 py-4 border-b border-gray-100">
+            <h2 className="font-semibold text-foundation-charcoal">Statements</h2>
+          </div>
+          {imports.length === 0 ? (
+            <p className="p-5 text-sm text-gray-500">No statements imported yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-50">
+              {imports.map((statement) => {
+                const open = statement.lines.filter(l => l.status === 'unmatched').length
+                return (
+                  <li key={statement.id}>
+                    <Link
+                      href={`/admin/dashboard/donations/bank-import?import=${statement.id}`}
+                      className={`block px-5 py-3 hover:bg-gray-50 transition-colors ${
+                        statement.id === selected?.id ? 'bg-teal-50/60' : ''
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-gray-900 truncate">
+                          {bankLabels[statement.bank] || statement.bank}
+                        </span>
+                        <span className={`px-2 py-0.5 text-[10px] rounded-full font-semibold ${
+                          open > 0 ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'
+                        }`}>
+                          {open > 0 ? `${open} open` : 'Done'}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1 truncate">{statement.fileName}</p>
+                      <p className="text-xs text-gray-400">{formatDate(statement.createdAt)} · {statement.importedBy}</p>
+                    </Link>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Selected Statement */}
+        <div className="lg:col-span-3 space-y-6">
+          {selected ? (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+                  <p className="text-gray-500 text-sm">Credits</p>
+                  <p className="text-2xl font-bold text-foundation-charcoal">{selected.lineCount}</p>
+                </div>
+                <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+                  <p className="text-gray-500 text-sm">Resolved</p>
+                  <p className="text-2xl font-bold text-emerald-600">{(selected.lineCount || 0) - unmatchedCount}</p>
+                </div>
+                <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+                  <p className="text-gray-500 text-sm">Unmatched</p>
+                  <p className="text-2xl font-bold text-amber-600">{unmatchedCount}</p>
+                </div>
+                <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+                  <p className="text-gray-500 text-sm">Unmatched amount</p>
+                  <p className="text-2xl font-bold text-foundation-charcoal">
+                    RM {(unmatchedAmount / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}
+                  </p>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+                <div className="px-5 py-4 border-b border-gray-100">
+                  <h2 className="font-semibold text-foundation-charcoal">{selected.fileName || 'Statement'}</h2>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {bankLabels[selected.bank] || selected.bank} · imported by {selected.importedBy}
+                    {(selected.skippedCount || 0) > 0 && ` · ${selected.skippedCount} debit or unreadable row(s) skipped`}
+                  </p>
+                </div>
+                <StatementLines
+                  importId={selected.id}
+                  lines={selected.lines}
+                  suggestions={suggestions}
+                  resolvedReferences={resolvedReferences}
+                  projects={projectsForForm}
+                />
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Matching a pending online donation completes it and issues its receipt. Matching an offline donation
+                approves it, so it must be done by a different admin from the one who recorded it. New donations
+                created from a line still need approval by a second admin.
+              </p>
+            </>
+          ) : (
+            <div className="bg-white rounded-2xl border border-gray-100 p-12 text-center shadow-sm">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No statements yet</h3>
+              <p className="text-gray-500">
+                Download the month&apos;s statement as CSV from Maybank2u or CIMB Clicks and upload it here.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface OfflineDonationFormProps {
+  projects: { id: string; title: string }[]
+  campaigns: { id: string; title: string }[]
+  funds: { id: string; name: string }[]
+}
+
+type PaymentMethod = 'bank_transfer' | 'cash' | 'cheque'
+
+const referenceLabels: Record<PaymentMethod, string> = {
+  bank_transfer: 'Bank Reference',
+  cash: 'Collection Reference (optional)',
+  cheque: 'Cheque Number',
+}
+
+function today() {
+  return new Date().toISOString().split('T')[0]
+}
+
+/**
+ * Form for entering a bank transfer, cash or cheque donation with its proof
+ * of payment. Entries wait for approval by another admin.
+ */
+export default function OfflineDonationForm({ projects, campaigns, funds }: OfflineDonationFormProps) {
+  const router = useRouter()
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('bank_transfer')
+  const [formKey, setFormKey] = useState(0)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setResult(null)
+
+    try {
+      const response = await fetch('/api/admin/donations/offline', {
+        method: 'POST',
+        body: new FormData(e.currentTarget),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setResult({ success: true, message: `${data.message} (${data.reference})` })
+        setPaymentMethod('bank_transfer')
+        setFormKey(key => key + 1) // Reset the uncontrolled fields
+        router.refresh()
+      } else {
+        setResult({ success: false, message: data.error || 'Failed to record donation' })
+      }
+    } catch {
+      setResult({ success: false, message: 'Network error. Please try again.' })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-lg text-sm'
+  const labelClass = 'block text-xs font-medium text-gray-500 mb-1'
+
+  return (
+    <form key={formKey} onSubmit={handleSubmit} className="bg-white rounded-2xl border border-gray-100 shadow-sm p-6 space-y-5">
+      <div>
+        <h2 className="font-semibold text-foundation-charcoal">Record Offline Donation</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          The donation is added to totals and receipted once another admin approves it.
+        </p>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Donor Name *</label>
+          <input name="donorName" required maxLength={200} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Donor Email (for the receipt)</label>
+          <input name="donorEmail" type="email" className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Donor Phone</label>
+          <input name="donorPhone" type="tel" className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Amount (RM) *</label>
+          <input name="amount" type="number" min="1" step="0.01" required placeholder="0.00" className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Payment Method *</label>
+          <select
+            name="paymentMethod"
+            value={paymentMethod}
+            onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+            className={inputClass}
+          >
+            <option value="bank_transfer">Bank Transfer</option>
+            <option value="cash">Cash</option>
+            <option value="cheque">Cheque</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{referenceLabels[paymentMethod]}</label>
+          <input
+            name="offlineReference"
+            maxLength={100}
+            required={paymentMethod !== 'cash'}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Date Received *</label>
+          <input name="receivedAt" type="date" required max={today()} defaultValue={today()} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Project</label>
+          <select name="projectId" defaultValue="" className={inputClass}>
+            <option value="">General Fund</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.title}</option>
+            ))}
+          </select>
+        </div>
+        {funds.length > 0 && (
+          <div>
+            <label className={labelClass}>Fund</label>
+            <select name="fundId" defaultValue="" className={inputClass}>
+              <option value="">Default</option>
+              {funds.map(fund => (
+                <option key={fund.id} value={fund.id}>{fund.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Sedekah for a project with a restricted fund is held in that fund</p>
+          </div>
+        )}
+        {campaigns.length > 0 && (
+          <div>
+            <label className={labelClass}>Campaign</label>
+            <select name="campaignId" defaultValue="" className={inputClass}>
+              <option value="">None</option>
+              {campaigns.map(campaign => (
+                <option key={campaign.id} value={campaign.id}>{campaign.title}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Counted only if the campaign was running on the date received</p>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className={labelClass}>
+          Proof of Payment {paymentMethod === 'cash' ? '(optional)' : '*'}
+        </label>
+        <input
+          name="proof"
+          type="file"
+          accept="image/*,application/pdf"
+          required={paymentMethod !== 'cash'}
+          className="w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-teal-50 file:text-teal-700"
+        />
+        <p className="text-xs text-gray-400 mt-1">Bank slip, transfer screenshot or cheque image. Image or PDF, max 10MB.</p>
+      </div>
+
+      <div>
+        <label className={labelClass}>Notes</label>
+        <textarea name="message" rows={2} maxLength={500} className={inputClass} />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" name="isAnonymous" value="true" />
+        Donor wishes to remain anonymous
+      </label>
+
+      {result && (
+        <div
+          className={`p-3 rounded-xl text-sm ${
+            result.success
+              ? 'bg-emerald-50 text-emerald-700 border border-emerald-200'
+              : 'bg-red-50 text-red-700 border border-red-200'
+          }`}
+        >
+          {result.message}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="px-5 py-2.5 text-sm font-medium text-white bg-teal-600 rounded-xl hover:bg-teal-700 disabled:opacity-50"
+      >
+        {isSubmitting ? 'Saving...' : 'Submit for Approval'}
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,111 @@
+import Link from 'next/link'
+import { db, campaigns, donations, projects } from '@/db'
+import { and, desc, eq } from 'drizzle-orm'
+import DonationsTable from '../DonationsTable'
+import OfflineDonationForm from './OfflineDonationForm'
+import { OFFLINE_PAYMENT_GATEWAY } from '@/lib/offline-donations'
+import { getDonorFunds } from '@/lib/funds'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+
+async function getProjectsForForm() {
+  const projectsList = await db.query.projects.findMany({
+    where: eq(projects.donationEnabled, true),
+    columns: {
+      id: true,
+      title: true,
+    },
+    orderBy: [desc(projects.createdAt)],
+  })
+  return projectsList.map(p => ({
+    id: p.id,
+    title: typeof p.title === 'string' ? p.title : getLocalizedValue(p.title as LocalizedString, 'en')
+  }))
+}
+
+async function getCampaignsForForm() {
+  const campaignsList = await db.query.campaigns.findMany({
+    where: eq(campaigns.isPublished, true),
+    columns: {
+      id: true,
+      title: true,
+    },
+    orderBy: [desc(campaigns.startsAt)],
+    limit: 20,
+  })
+  return campaignsList.map(c => ({
+    id: c.id,
+    title: getLocalizedValue(c.title, 'en'),
+  }))
+}
+
+export default async function OfflineDonationsPage() {
+  const [awaitingApproval, recentlyReviewed, projectsForForm, campaignsForForm, fundsForForm] = await Promise.all([
+    db.query.donations.findMany({
+      where: and(
+        eq(donations.paymentGateway, OFFLINE_PAYMENT_GATEWAY),
+        eq(donations.paymentStatus, 'awaiting_approval')
+      ),
+      orderBy: [desc(donations.createdAt)],
+    }),
+    db.query.donations.findMany({
+      where: eq(donations.paymentGateway, OFFLINE_PAYMENT_GATEWAY),
+      orderBy: [desc(donations.reviewedAt)],
+      limit: 20,
+    }),
+    getProjectsForForm(),
+    getCampaignsForForm(),
+    getDonorFunds(),
+  ])
+
+  return (
+    <div className="min-h-screen">
+      {/* Page Header */}
+      <div className="mb-8">
+        <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+          <Link href="/admin/dashboard" className="hover:text-teal-600 transition-colors">Dashboard</Link>
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+          </svg>
+          <Link href="/admin/dashboard/donations" className="hover:text-teal-600 transition-colors">Donations</Link>
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+          </svg>
+          <span className="text-foundation-charcoal font-medium">Offline Donations</span>
+        </nav>
+        <h1 className="font-heading text-2xl lg:text-3xl font-bold text-foundation-charcoal">
+          Offline Donations
+        </h1>
+        <p className="text-gray-500 text-sm mt-1">
+          Bank transfers, cash and cheques received outside the payment gateway
+        </p>
+      </div>
+
+      <div className="grid xl:grid-cols-5 gap-6">
+        <div className="xl:col-span-2">
+          <OfflineDonationForm
+            projects={projectsForForm}
+            campaigns={campaignsForForm}
+            funds={fundsForForm.map(f => ({ id: f.id, name: getLocalizedValue(f.name, 'en') }))}
+          />
+        </div>
+
+        <div className="xl:col-span-3 space-y-6">
+          <div>
+            <h2 className="font-semibold text-foundation-charcoal mb-3">
+              Awaiting Approval
+              <span className="ml-2 px-2 py-0.5 text-xs bg-amber-100 text-amber-700 rounded-full">
+                {awaitingApproval.length}
+              </span>
+            </h2>
+            <DonationsTable donations={awaitingApproval} />
+          </div>
+
+          <div>
+            <h2 className="font-semibold text-foundation-charcoal mb-3">Recent Offline Donations</h2>
+            <DonationsTable donations={recentlyReviewed.filter(d => d.paymentStatus !== 'awaiting_approval')} />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import Link from 'next/link'
-import { db, donations, projects } from '@/db'
+import { db, campaigns, donations, fundraisers, projects } from '@/db'
 import { desc, sql, eq, and, gte, lte } from 'drizzle-orm'
 import DonationsTable from './DonationsTable'
 import DonationFilters from './DonationFilters'
@@ -8,10 +8,15 @@ import EnvironmentBanner from './EnvironmentBanner'
 import ExportButton from './ExportButton'
 import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
 import { getSiteSetting } from '@/lib/actions/content'
+import { FUND_TYPE_LABELS, getFundBalances } from '@/lib/funds'
+import { getRecoveryStats } from '@/lib/donation-recovery'
 
 interface SearchParams {
   status?: string
   project?: string
+  campaign?: string
+  fundraiser?: string
+  fund?: string
   search?: string
   from?: string
   to?: string
@@ -50,7 +55,7 @@ async function getDonationStats(): Promise<EnvironmentStats> {
 
     // Overall stats
     const overallStats = await db.select({
-      total: sql<number>`COALESCE(SUM(CASE WHEN payment_status = 'completed' THEN amount ELSE 0 END), 0)`,
+      total: sql<number>`COALESCE(SUM(CASE WHEN payment_status = 'completed' THEN amount - COALESCE(refunded_amount, 0) ELSE 0 END), 0)`,
       count: sql<number>`COUNT(*)`,
       completed: sql<number>`COUNT(*) FILTER (WHERE payment_status = 'completed')`,
       pending: sql<number>`COUNT(*) FILTER (WHERE payment_status = 'pending')`,
@@ -64,7 +69,7 @@ async function getDonationStats(): Promise<EnvironmentStats> {
       : gte(donations.createdAt, startOfMonth)
 
     const thisMonthStats = await db.select({
-      total: sql<number>`COALESCE(SUM(CASE WHEN payment_status = 'completed' THEN amount ELSE 0 END), 0)`,
+      total: sql<number>`COALESCE(SUM(CASE WHEN payment_status = 'completed' THEN amount - COALESCE(refunded_amount, 0) ELSE 0 END), 0)`,
       count: sql<number>`COUNT(*) FILTER (WHERE payment_status = 'completed')`,
     }).from(donations).where(thisMonthWhere)
 
@@ -81,7 +86,7 @@ async function getDonationStats(): Promise<EnvironmentStats> {
         )
 
     const lastMonthStats = await db.select({
-      total: sql<number>`COALESCE(SUM(CASE WHEN payment_status = 'completed' THEN amount ELSE 0 END), 0)`,
+      total: sql<number>`COALESCE(SUM(CASE WHEN payment_status = 'completed' THEN amount - COALESCE(refunded_amount, 0) ELSE 0 END), 0)`,
     }).from(donations).where(lastMonthWhere)
 
     const completedCount = Number(overallStats[0].completed) || 0
@@ -136,6 +141,21 @@ async function getDonations(params: SearchParams) {
     conditions.push(eq(donations.projectId, params.project))
   }
 
+  // Campaign filter (linked from the campaigns page)
+  if (params.campaign) {
+    conditions.push(eq(donations.campaignId, params.campaign))
+  }
+
+  // Fundraiser filter (linked from the fundraisers page)
+  if (params.fundraiser) {
+    conditions.push(eq(donations.fundraiserId, params.fundraiser))
+  }
+
+  // Fund filter
+  if (params.fund && params.fund !== 'all') {
+    conditions.push(eq(donations.fundId, params.fund))
+  }
+
   // Date range filter
   if (params.from) {
     conditions.push(gte(donations.createdAt, new Date(params.from)))
@@ -182,16 +202,46 @@ async function getProjectsForFilter() {
   }))
 }
 
+async function getCampaignTitles() {
+  const campaignsList = await db.query.campaigns.findMany({
+    columns: {
+      id: true,
+      title: true,
+    },
+    orderBy: [desc(campaigns.startsAt)],
+  })
+  return Object.fromEntries(campaignsList.map(c => [c.id, getLocalizedValue(c.title, 'en')]))
+}
+
+async function getFundraiserTitles() {
+  const fundraisersList = await db.query.fundraisers.findMany({
+    columns: {
+      id: true,
+      title: true,
+    },
+    orderBy: [desc(fundraisers.createdAt)],
+  })
+  return Object.fromEntries(fundraisersList.map(f => [f.id, f.title]))
+}
+
 export default async function DonationsManagement({
   searchParams,
 }: {
   searchParams: Promise<SearchParams>
 }) {
   const params = await searchParams
-  const [envStats, donationsList, projectsForFilter, donationClosedSetting] = await Promise.all([
+
+  // Default to 'production' to hide sandbox donations by default
+  const currentEnv = params.environment || 'production'
+
+  const [envStats, donationsList, projectsForFilter, campaignTitles, fundraiserTitles, fundBalances, recoveryStats, donationClosedSetting] = await Promise.all([
     getDonationStats(),
     getDonations(params),
     getProjectsForFilter(),
+    getCampaignTitles(),
+    getFundraiserTitles(),
+    getFundBalances(currentEnv),
+    getRecoveryStats(currentEnv),
     getSiteSetting('donationsClosed') as Promise<{
       closed: boolean
       reason: { en: string; ms: string } | null
@@ -201,8 +251,6 @@ export default async function DonationsManagement({
   ])
 
   // Determine which stats to show based on environment filter
-  // Default to 'production' to hide sandbox donations by default
-  const currentEnv = params.environment || 'production'
   const stats = currentEnv === 'production'
     ? envStats.production
     : currentEnv === 'sandbox'
@@ -261,6 +309,69 @@ export default async function DonationsManagement({
               closedAt={donationClosedSetting?.closedAt ?? null}
               closedBy={donationClosedSetting?.closedBy ?? null}
             />
+            <Link
+              href={`/admin/dashboard/donations/analytics?environment=${currentEnv}`}
+              className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 8v8m-4-5v5m-4-2v2m-2 4h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              Analytics
+            </Link>
+            <Link
+              href="/admin/dashboard/donations/reconciliation"
+              className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+              Reconciliation
+            </Link>
+            <Link
+              href="/admin/dashboard/donations/offline"
+              className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
+              </svg>
+              Offline
+            </Link>
+            <Link
+              href="/admin/dashboard/donations/recovery"
+              className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+              </svg>
+              Recovery
+            </Link>
+            <Link
+              href="/admin/dashboard/donations/bank-import"
+              className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 14v3m4-3v3m4-3v3M3 21h18M3 10h18M3 7l9-4 9 4M4 10h16v11H4V10z" />
+              </svg>
+              Bank Import
+            </Link>
+            <Link
+              href="/admin/dashboard/donations/annual-statements"
+              className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+              Tax Statements
+            </Link>
+            <Link
+              href="/admin/dashboard/donations/accounting"
+              className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+              </svg>
+              Accounting
+            </Link>
             <ExportButton environment={currentEnv} />
           </div>
         </div>
@@ -502,15 +613,87 @@ export default async function DonationsManagement({
         </Link>
       </div>
 
+      {/* Fund Balances */}
+      {fundBalances.length > 0 && (
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 mb-8 shadow-sm">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-semibold text-foundation-charcoal">Balance by Fund</h2>
+            <Link href={`/admin/dashboard/funds?environment=${currentEnv}`} className="text-sm font-medium text-teal-600 hover:text-teal-700">
+              Manage funds &rarr;
+            </Link>
+          </div>
+          <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {fundBalances.map(balance => {
+              const content = (
+                <>
+                  <p className="text-xs text-gray-500 truncate">
+                    {balance.name}
+                    {balance.type && <span className="text-gray-400"> · {FUND_TYPE_LABELS[balance.type]}</span>}
+                  </p>
+                  <p className="font-display text-xl font-bold text-foundation-charcoal">
+                    RM {(balance.balance / 100).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-gray-400">{balance.donationCount} donation{balance.donationCount !== 1 ? 's' : ''}</p>
+                </>
+              )
+              const className = `rounded-xl p-4 border transition-colors ${
+                balance.fundId && params.fund === balance.fundId
+                  ? 'border-teal-500 bg-teal-50/50'
+                  : 'border-gray-100 hover:border-gray-200'
+              }`
+
+              return balance.fundId ? (
+                <Link
+                  key={balance.fundId}
+                  href={`/admin/dashboard/donations?fund=${balance.fundId}${currentEnv !== 'production' ? `&environment=${currentEnv}` : ''}`}
+                  className={className}
+                >
+                  {content}
+                </Link>
+              ) : (
+                <div key="undesignated" className={className}>
+                  {content}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Abandoned Donation Recovery */}
+      {recoveryStats.emailedCount > 0 && (
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 mb-8 shadow-sm flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-6">
+            <div>
+              <p className="text-xs text-gray-500">Recovered by reminder emails</p>
+              <p className="font-display text-xl font-bold text-emerald-600">
+                RM {(recoveryStats.recoveredAmount / 100).toLocaleString()}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500">Donations recovered</p>
+              <p className="font-display text-xl font-bold text-foundation-charcoal">
+                {recoveryStats.recoveredCount}
+                <span className="text-sm font-normal text-gray-400"> / {recoveryStats.emailedCount} emailed ({recoveryStats.recoveryRate}%)</span>
+              </p>
+            </div>
+          </div>
+          <Link href={`/admin/dashboard/donations/recovery?environment=${currentEnv}`} className="text-sm font-medium text-teal-600 hover:text-teal-700">
+            Recovery settings &rarr;
+          </Link>
+        </div>
+      )}
+
       {/* Filters */}
       <DonationFilters
         projects={projectsForFilter}
+        funds={fundBalances.flatMap(b => b.fundId ? [{ id: b.fundId, name: b.name }] : [])}
         currentParams={params}
         hasSandboxDonations={hasSandboxDonations}
       />
 
       {/* Donations Table */}
-      <DonationsTable donations={donationsList} showEnvironment={currentEnv === 'all'} />
+      <DonationsTable donations={donationsList} showEnvironment={currentEnv === 'all'} campaignTitles={campaignTitles} fundraiserTitles={fundraiserTitles} fundNames={Object.fromEntries(fundBalances.flatMap(b => b.fundId ? [[b.fundId, b.name]] : []))} />
 
       {/* Results Summary */}
       <div className="mt-6 flex flex-wrap items-center justify-between gap-4 text-sm">
@@ -0,0 +1,54 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+export default function RunReconciliationButton() {
+  const router = useRouter()
+  const [isRunning, setIsRunning] = useState(false)
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const handleRun = async () => {
+    setIsRunning(true)
+    setResult(null)
+
+    try {
+      const response = await fetch('/api/admin/donations/reconciliation', { method: 'POST' })
+      const data = await response.json()
+
+      if (response.ok) {
+        setResult({ success: true, message: data.message })
+        router.push(`/admin/dashboard/donations/reconciliation?report=${data.reportId}`)
+        router.refresh()
+      } else {
+        setResult({ success: false, message: data.error || 'Reconciliation failed' })
+      }
+    } catch {
+      setResult({ success: false, message: 'Network error. Please try again.' })
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <button
+        onClick={handleRun}
+        disabled={isRunning}
+        className="inline-flex items-center gap-2 px-4 py-2.5 bg-teal-600 text-white text-sm font-medium rounded-xl hover:bg-teal-700 transition-colors disabled:opacity-50"
+      >
+        {isRunning ? (
+          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+        ) : (
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        )}
+        {isRunning ? 'Reconciling...' : 'Run Reconciliation Now'}
+      </button>
+      {result && (
+        <p className={`text-xs ${result.success ? 'text-emerald-600' : 'text-red-600'}`}>{result.message}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,291 @@
+import Link from 'next/link'
+import { db, reconciliationReports, type ReconciliationItem } from '@/db'
+import { desc, eq } from 'drizzle-orm'
+import { auditReceiptNumbers } from '@/lib/receipt-register'
+import RunReconciliationButton from './RunReconciliationButton'
+
+interface SearchParams {
+  report?: string
+}
+
+const itemTypeLabels: Record<ReconciliationItem['type'], { label: string; className: string }> = {
+  status_fixed: { label: 'Fixed', className: 'bg-emerald-100 text-emerald-700' },
+  status_mismatch: { label: 'Status mismatch', className: 'bg-red-100 text-red-700' },
+  amount_mismatch: { label: 'Amount mismatch', className: 'bg-orange-100 text-orange-700' },
+  no_transaction: { label: 'No transaction', className: 'bg-red-100 text-red-700' },
+  lookup_error: { label: 'Lookup error', className: 'bg-gray-100 text-gray-600' },
+}
+
+function formatDate(date: Date) {
+  return new Date(date).toLocaleString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+export default async function ReconciliationPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>
+}) {
+  const params = await searchParams
+
+  const reports = await db.query.reconciliationReports.findMany({
+    columns: { items: false },
+    orderBy: [desc(reconciliationReports.startedAt)],
+    limit: 30,
+  })
+
+  const receiptAudit = await auditReceiptNumbers()
+  const receiptIssueCount = receiptAudit.duplicates.length + receiptAudit.gaps.length + receiptAudit.malformed.length
+
+  const selectedId = params.report || reports[0]?.id
+  const selected = selectedId
+    ? await db.query.reconciliationReports.findFirst({
+      where: eq(reconciliationReports.id, selectedId),
+    })
+    : null
+
+  return (
+    <div className="min-h-screen">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+            <Link href="/admin/dashboard" className="hover:text-teal-600 transition-colors">Dashboard</Link>
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+            </svg>
+            <Link href="/admin/dashboard/donations" className="hover:text-teal-600 transition-colors">Donations</Link>
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+            </svg>
+            <span className="text-foundation-charcoal font-medium">Reconciliation</span>
+          </nav>
+          <h1 className="font-heading text-2xl lg:text-3xl font-bold text-foundation-charcoal">
+            Payment Reconciliation
+          </h1>
+          <p className="text-gray-500 text-sm mt-1">
+            Nightly comparison of donations with payment gateway transaction records
+          </p>
+        </div>
+        <RunReconciliationButton />
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* Report History */}
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+          <div className="px-5 py-4 border-b border-gray-100">
+            <h2 className="font-semibold text-foundation-charcoal">Reports</h2>
+          </div>
+          {reports.length === 0 ? (
+            <p className="p-5 text-sm text-gray-500">No reconciliation has been run yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-50">
+              {reports.map((report) => (
+                <li key={report.id}>
+                  <Link
+                    href={`/admin/dashboard/donations/reconciliation?report=${report.id}`}
+                    className={`block px-5 py-3 hover:bg-gray-50 transition-colors ${
+                      report.id === selectedId ? 'bg-teal-50/60' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-900">{formatDate(report.startedAt)}</span>
+                      <span className={`px-2 py-0.5 text-[10px] rounded-full font-semibold ${
+                        report.status === 'failed'
+                          ? 'bg-red-100 text-red-700'
+                          : (report.discrepancyCount || 0) > 0
+                            ? 'bg-amber-100 text-amber-700'
+                            : 'bg-emerald-100 text-emerald-700'
+                      }`}>
+                        {report.status === 'failed'
+                          ? 'Failed'
+                          : report.status === 'running'
+                            ? 'Running'
+                            : `${report.discrepancyCount || 0} issues`}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {report.trigger === 'manual' ? `Manual${report.triggeredBy ? ` by ${report.triggeredBy}` : ''}` : 'Scheduled'}
+                      {' · '}{report.gateway} {report.environment}
+                    </p>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Selected Report */}
+        <div className="lg:col-span-2 space-y-6">
+          {selected ? (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+                  <p className="text-gray-500 text-sm">Checked</p>
+                  <p className="text-2xl font-bold text-foundation-charcoal">{selected.checkedCount}</p>
+                </div>
+                <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+                  <p className="text-gray-500 text-sm">Auto-fixed</p>
+                  <p className="text-2xl font-bold text-emerald-600">{selected.fixedCount}</p>
+                </div>
+                <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+                  <p className="text-gray-500 text-sm">Discrepancies</p>
+                  <p className="text-2xl font-bold text-amber-600">{selected.discrepancyCount}</p>
+                </div>
+                <div className="bg-white rounded-2xl p-5 border border-gray-100 shadow-sm">
+                  <p className="text-gray-500 text-sm">Amount difference</p>
+                  <p className={`text-2xl font-bold ${(selected.amountDifference || 0) === 0 ? 'text-foundation-charcoal' : 'text-red-600'}`}>
+                    {formatRM(selected.amountDifference || 0)}
+                  </p>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+                <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between">
+                  <div>
+                    <h2 className="font-semibold text-foundation-charcoal">Discrepancies</h2>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(selected.startedAt)}
+                      {selected.completedAt && ` – ${formatDate(selected.completedAt)}`}
+                    </p>
+                  </div>
+                  <a
+                    href={`/api/admin/donations/reconciliation/${selected.id}?format=csv`}
+                    className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                    </svg>
+                    Download CSV
+                  </a>
+                </div>
+
+                {selected.error && (
+                  <div className="m-5 p-4 rounded-xl text-sm bg-red-50 text-red-700 border border-red-200">
+                    {selected.error}
+                  </div>
+                )}
+
+                {(selected.items || []).length === 0 ? (
+                  <p className="p-5 text-sm text-gray-500">
+                    {selected.status === 'completed' ? 'All checked donations match the gateway records.' : 'No items recorded.'}
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500 border-b border-gray-100 bg-gray-50/80 uppercase tracking-wider">
+                          <th className="px-5 py-3 font-semibold">Type</th>
+                          <th className="px-5 py-3 font-semibold">Reference</th>
+                          <th className="px-5 py-3 font-semibold">Ours / Gateway</th>
+                          <th className="px-5 py-3 font-semibold">Amounts</th>
+                          <th className="px-5 py-3 font-semibold">Resolution</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-50">
+                        {(selected.items || []).map((item, index) => (
+                          <tr key={`${item.donationId}-${item.type}-${index}`}>
+                            <td className="px-5 py-3">
+                              <span className={`px-2 py-1 rounded-full text-xs font-medium ${itemTypeLabels[item.type].className}`}>
+                                {itemTypeLabels[item.type].label}
+                              </span>
+                            </td>
+                            <td className="px-5 py-3">
+                              <Link
+                                href={`/admin/dashboard/donations?search=${encodeURIComponent(item.paymentReference || '')}&environment=all`}
+                                className="font-mono text-xs text-teal-600 hover:underline"
+                              >
+                                {item.paymentReference || item.donationId}
+                              </Link>
+                            </td>
+                            <td className="px-5 py-3 text-xs capitalize">
+                              {item.dbStatus || '-'} / {item.gatewayStatus || '-'}
+                            </td>
+                            <td className="px-5 py-3 text-xs">
+                              {formatRM(item.dbAmount)}
+                              {item.gatewayAmount !== null && item.gatewayAmount !== item.dbAmount && (
+                                <span className="block text-red-600">Gateway: {formatRM(item.gatewayAmount)}</span>
+                              )}
+                            </td>
+                            <td className="px-5 py-3 text-xs text-gray-600">{item.resolution}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </>
+          ) : (
+            <div className="bg-white rounded-2xl border border-gray-100 p-12 text-center shadow-sm">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No reports yet</h3>
+              <p className="text-gray-500">Run a reconciliation to compare donations with the payment gateway.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Receipt Numbering */}
+      <div className="mt-6 bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+        <div className="px-5 py-4 border-b border-gray-100">
+          <h2 className="font-semibold text-foundation-charcoal">Receipt Numbering</h2>
+          <p className="text-xs text-gray-500">
+            {receiptAudit.checked} receipt numbers checked for duplicates and gaps in each year&apos;s sequence
+          </p>
+        </div>
+
+        {receiptIssueCount === 0 ? (
+          <p className="p-5 text-sm text-gray-500">Every receipt number is unique and each year&apos;s sequence is complete.</p>
+        ) : (
+          <div className="p-5 space-y-4 text-sm">
+            {receiptAudit.duplicates.length > 0 && (
+              <div>
+                <p className="font-medium text-red-700 mb-1">Duplicate numbers</p>
+                <ul className="space-y-1 text-xs text-gray-600">
+                  {receiptAudit.duplicates.map(duplicate => (
+                    <li key={duplicate.receiptNumber}>
+                      <span className="font-mono">{duplicate.receiptNumber}</span> used by {duplicate.donationIds.length} donations
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {receiptAudit.gaps.length > 0 && (
+              <div>
+                <p className="font-medium text-amber-700 mb-1">Gaps</p>
+                <p className="text-xs text-gray-500 mb-1">
+                  Numbers allocated but not held by any donation or register entry. A long gap ending just before a high number usually comes from a random number issued before sequential numbering.
+                </p>
+                <ul className="space-y-1 text-xs text-gray-600 font-mono">
+                  {receiptAudit.gaps.map(gap => (
+                    <li key={`${gap.year}-${gap.from}`}>
+                      {gap.year}: {gap.from === gap.to ? gap.from : `${gap.from}–${gap.to}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {receiptAudit.malformed.length > 0 && (
+              <div>
+                <p className="font-medium text-gray-700 mb-1">Non-sequential numbers</p>
+                <p className="text-xs text-gray-500 mb-1">
+                  Issued before sequential numbering; these remain valid.
+                </p>
+                <p className="text-xs text-gray-600 font-mono break-words">{receiptAudit.malformed.join(', ')}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
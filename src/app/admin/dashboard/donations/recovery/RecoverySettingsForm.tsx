@@ -0,0 +1,112 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { updateSiteSetting } from '@/lib/actions/content'
+
+interface RecoverySettingsFormProps {
+  settings: {
+    enabled: boolean
+    delayHours: number
+    maxAttempts: number
+  }
+  maxAttempts: number
+  maxDelayHours: number
+}
+
+const inputClass = 'w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 text-sm'
+const labelClass = 'block text-xs font-medium text-gray-500 mb-1'
+
+export default function RecoverySettingsForm({ settings, maxAttempts, maxDelayHours }: RecoverySettingsFormProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [enabled, setEnabled] = useState(settings.enabled)
+  const [delayHours, setDelayHours] = useState(settings.delayHours.toString())
+  const [attempts, setAttempts] = useState(settings.maxAttempts.toString())
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handleSave = () => {
+    const delay = parseInt(delayHours, 10)
+    const max = parseInt(attempts, 10)
+    if (!(delay >= 1 && delay <= maxDelayHours)) {
+      setMessage({ type: 'error', text: `Delay must be between 1 and ${maxDelayHours} hours` })
+      return
+    }
+    if (!(max >= 1 && max <= maxAttempts)) {
+      setMessage({ type: 'error', text: `Emails per donation must be between 1 and ${maxAttempts}` })
+      return
+    }
+
+    setMessage(null)
+    startTransition(async () => {
+      try {
+        await updateSiteSetting('donationRecovery', { enabled, delayHours: delay, maxAttempts: max })
+        setMessage({ type: 'success', text: 'Recovery settings saved' })
+        router.refresh()
+      } catch {
+        setMessage({ type: 'error', text: 'Failed to save recovery settings' })
+      }
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-100 space-y-4">
+      <div>
+        <h3 className="font-medium text-foundation-charcoal mb-1">Recovery Emails</h3>
+        <p className="text-sm text-gray-500">
+          Checked every hour. Donors get a new payment link in the language they donated in.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-3 text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+        />
+        Send recovery emails
+      </label>
+
+      <div>
+        <label className={labelClass}>Delay (hours)</label>
+        <input
+          type="number"
+          value={delayHours}
+          onChange={(e) => setDelayHours(e.target.value)}
+          min="1"
+          max={maxDelayHours}
+          step="1"
+          className={inputClass}
+        />
+        <p className="text-xs text-gray-500 mt-1">Wait after the donation was started, and between emails</p>
+      </div>
+
+      <div>
+        <label className={labelClass}>Emails per donation</label>
+        <input
+          type="number"
+          value={attempts}
+          onChange={(e) => setAttempts(e.target.value)}
+          min="1"
+          max={maxAttempts}
+          step="1"
+          className={inputClass}
+        />
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-emerald-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={isPending}
+        className="btn-primary w-full disabled:opacity-50"
+      >
+        {isPending ? 'Saving...' : 'Save Settings'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+import Link from 'next/link'
+import { db, donationLogs, donations } from '@/db'
+import { desc, inArray } from 'drizzle-orm'
+import {
+  getRecoverySettings,
+  getRecoveryStats,
+  MAX_RECOVERY_ATTEMPTS,
+  MAX_RECOVERY_DELAY_HOURS,
+} from '@/lib/donation-recovery'
+import RecoverySettingsForm from './RecoverySettingsForm'
+
+const statusStyles: Record<string, string> = {
+  completed: 'bg-emerald-100 text-emerald-700',
+  pending: 'bg-amber-100 text-amber-700',
+  failed: 'bg-red-100 text-red-700',
+  expired: 'bg-gray-100 text-gray-600',
+}
+
+function formatDate(date: Date) {
+  return new Date(date).toLocaleString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+export default async function DonationRecoveryPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ environment?: string }>
+}) {
+  const params = await searchParams
+  const environment = params.environment === 'sandbox' || params.environment === 'all' ? params.environment : 'production'
+
+  const [settings, stats, events] = await Promise.all([
+    getRecoverySettings(),
+    getRecoveryStats(environment),
+    db.query.donationLogs.findMany({
+      where: inArray(donationLogs.eventType, ['recovery_email_sent', 'recovery_email_failed']),
+      orderBy: [desc(donationLogs.createdAt)],
+      limit: 50,
+    }),
+  ])
+
+  const donationIds = [...new Set(events.map(e => e.donationId))]
+  const donationsList = donationIds.length > 0
+    ? await db.query.donations.findMany({
+      where: inArray(donations.id, donationIds),
+      columns: { id: true, donorEmail: true, amount: true, paymentStatus: true, paymentReference: true, environment: true },
+    })
+    : []
+  const donationById = new Map(donationsList.map(d => [d.id, d]))
+  const rows = events.filter(event => {
+    const donation = donationById.get(event.donationId)
+    return environment === 'all' || donation?.environment === environment
+  })
+
+  return (
+    <div className="min-h-screen">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+            <Link href="/admin/dashboard" className="hover:text-teal-600 transition-colors">Dashboard</Link>
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+            </svg>
+            <Link href="/admin/dashboard/donations" className="hover:text-teal-600 transition-colors">Donations</Link>
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
+            </svg>
+            <span className="text-foundation-charcoal font-medium">Recovery</span>
+          </nav>
+          <h1 className="font-heading text-2xl lg:text-3xl font-bold text-foundation-charcoal">
+            Abandoned Donation Recovery
+          </h1>
+          <p className="text-gray-500 text-sm mt-1">
+            Reminder emails with a fresh payment link for donations left unpaid at the payment page
+          </p>
+        </div>
+        <div className="flex items-center gap-1 bg-white border border-gray-200 rounded-xl p-1">
+          {(['production', 'sandbox', 'all'] as const).map(env => (
+            <Link
+              key={env}
+              href={`/admin/dashboard/donations/recovery?environment=${env}`}
+              className={`px-3 py-1.5 text-sm rounded-lg capitalize ${
+                environment === env ? 'bg-teal-600 text-white' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {env}
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 shadow-sm">
+          <p className="text-sm text-gray-500">Recovered Revenue</p>
+          <p className="font-display text-2xl font-bold text-emerald-600">{formatRM(stats.recoveredAmount)}</p>
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 shadow-sm">
+          <p className="text-sm text-gray-500">Recovered Donations</p>
+          <p className="font-display text-2xl font-bold text-foundation-charcoal">{stats.recoveredCount}</p>
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 shadow-sm">
+          <p className="text-sm text-gray-500">Recovery Rate</p>
+          <p className="font-display text-2xl font-bold text-foundation-charcoal">{stats.recoveryRate}%</p>
+          <p className="text-xs text-gray-400">of {stats.emailedCount} donations emailed</p>
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 shadow-sm">
+          <p className="text-sm text-gray-500">Emails Sent</p>
+          <p className="font-display text-2xl font-bold text-foundation-charcoal">{stats.emailsSent}</p>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* Recent Sends */}
+        <div className="lg:col-span-2 bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+          <div className="px-5 py-4 border-b border-gray-100">
+            <h2 className="font-semibold text-foundation-charcoal">Recent Emails</h2>
+          </div>
+          {rows.length === 0 ? (
+            <p className="p-5 text-sm text-gray-500">No recovery emails have been sent yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wider">
+                  <tr>
+                    <th className="px-5 py-3 text-left font-medium">Sent</th>
+                    <th className="px-5 py-3 text-left font-medium">Donor</th>
+                    <th className="px-5 py-3 text-right font-medium">Amount</th>
+                    <th className="px-5 py-3 text-left font-medium">Email</th>
+                    <th className="px-5 py-3 text-left font-medium">Donation</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {rows.map(event => {
+                    const donation = donationById.get(event.donationId)
+                    const data = (event.eventData || {}) as { attempt?: number; error?: string }
+                    const status = donation?.paymentStatus || 'pending'
+                    return (
+                      <tr key={event.id}>
+                        <td className="px-5 py-3 text-gray-600 whitespace-nowrap">{formatDate(event.createdAt)}</td>
+                        <td className="px-5 py-3">
+                          <p className="text-gray-900">{donation?.donorEmail || '-'}</p>
+                          <p className="text-xs text-gray-400 font-mono">{donation?.paymentReference}</p>
+                        </td>
+                        <td className="px-5 py-3 text-right text-gray-900">{donation ? formatRM(donation.amount) : '-'}</td>
+                        <td className="px-5 py-3">
+                          {event.eventType === 'recovery_email_sent' ? (
+                            <span className="text-gray-700">#{data.attempt} sent</span>
+                          ) : (
+                            <span className="text-red-600" title={data.error}>#{data.attempt} failed</span>
+                          )}
+                        </td>
+                        <td className="px-5 py-3">
+                          <span className={`px-2 py-0.5 text-xs rounded-full font-medium capitalize ${statusStyles[status] || 'bg-gray-100 text-gray-600'}`}>
+                            {status}
+                          </span>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Settings */}
+        <div>
+          <RecoverySettingsForm
+            settings={settings}
+            maxAttempts={MAX_RECOVERY_ATTEMPTS}
+            maxDelayHours={MAX_RECOVERY_DELAY_HOURS}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { updateDonorProfile } from '@/lib/actions/donors'
+
+interface DonorPreferencesFormProps {
+  donorId: string
+  preferences: {
+    emailUpdates: boolean
+    recoveryEmails: boolean
+    locale: 'en' | 'ms'
+    notes: string | null
+  }
+}
+
+export default function DonorPreferencesForm({ donorId, preferences }: DonorPreferencesFormProps) {
+  const [isPending, startTransition] = useTransition()
+  const [emailUpdates, setEmailUpdates] = useState(preferences.emailUpdates)
+  const [recoveryEmails, setRecoveryEmails] = useState(preferences.recoveryEmails)
+  const [locale, setLocale] = useState(preferences.locale)
+  const [notes, setNotes] = useState(preferences.notes || '')
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handleSave = () => {
+    setMessage(null)
+    startTransition(async () => {
+      try {
+        const result = await updateDonorProfile(donorId, { emailUpdates, recoveryEmails, locale, notes })
+        setMessage(result.success
+          ? { type: 'success', text: 'Preferences saved' }
+          : { type: 'error', text: result.error || 'Failed to save preferences' })
+      } catch {
+        setMessage({ type: 'error', text: 'Failed to save preferences' })
+      }
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-100 space-y-4">
+      <h3 className="font-medium text-foundation-charcoal">Communication Preferences</h3>
+
+      <label className="flex items-start gap-3 text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={emailUpdates}
+          onChange={(e) => setEmailUpdates(e.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          Newsletters and appeals
+          <span className="block text-xs text-gray-500">Only tick with the donor&apos;s consent</span>
+        </span>
+      </label>
+
+      <label className="flex items-start gap-3 text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={recoveryEmails}
+          onChange={(e) => setRecoveryEmails(e.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          Unfinished donation reminders
+          <span className="block text-xs text-gray-500">Receipts and tax statements are always sent</span>
+        </span>
+      </label>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Language</label>
+        <select
+          value={locale}
+          onChange={(e) => setLocale(e.target.value === 'ms' ? 'ms' : 'en')}
+          className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 text-sm"
+        >
+          <option value="en">English</option>
+          <option value="ms">Bahasa Melayu</option>
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={4}
+          className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 text-sm"
+          placeholder="e.g. Prefers calls in the afternoon"
+        />
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-emerald-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={isPending}
+        className="btn-primary w-full disabled:opacity-50"
+      >
+        {isPending ? 'Saving...' : 'Save Preferences'}
+      </button>
+    </div>
+  )
+}
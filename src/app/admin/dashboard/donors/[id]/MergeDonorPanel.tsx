@@ -0,0 +1,122 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { mergeDonorProfiles, searchDonors } from '@/lib/actions/donors'
+import type { DonorListItem } from '@/lib/donors'
+
+interface MergeDonorPanelProps {
+  donorId: string
+  suggested: DonorListItem | null // Preselected from the duplicates list
+}
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+export default function MergeDonorPanel({ donorId, suggested }: MergeDonorPanelProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<DonorListItem[]>([])
+  const [selected, setSelected] = useState<DonorListItem | null>(suggested)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handleSearch = () => {
+    setMessage(null)
+    startTransition(async () => {
+      const found = await searchDonors(query)
+      setResults(found.filter(donor => donor.id !== donorId))
+    })
+  }
+
+  const handleMerge = () => {
+    if (!selected) return
+    if (!confirm(`Merge ${selected.name || selected.email || 'this donor'} into this profile? Their donations will move here. This cannot be undone.`)) {
+      return
+    }
+
+    setMessage(null)
+    startTransition(async () => {
+      const result = await mergeDonorProfiles(donorId, selected.id)
+      if (!result.success) {
+        setMessage({ type: 'error', text: result.error || 'Failed to merge donors' })
+        return
+      }
+      setMessage({ type: 'success', text: `Merged. ${result.movedDonations} donation(s) moved to this profile.` })
+      setSelected(null)
+      setResults([])
+      router.replace(`/admin/dashboard/donors/${donorId}`)
+      router.refresh()
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-100 space-y-4">
+      <div>
+        <h3 className="font-medium text-foundation-charcoal mb-1">Merge a Duplicate</h3>
+        <p className="text-sm text-gray-500">
+          Find another profile for the same person and merge it into this one.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+          placeholder="Name, email or phone"
+          className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 text-sm"
+        />
+        <button
+          onClick={handleSearch}
+          disabled={isPending || query.trim().length < 2}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          Find
+        </button>
+      </div>
+
+      {results.length > 0 && (
+        <ul className="divide-y divide-gray-50 border border-gray-100 rounded-lg">
+          {results.map(donor => (
+            <li key={donor.id}>
+              <button
+                onClick={() => setSelected(donor)}
+                className={`w-full text-left px-3 py-2 text-sm hover:bg-gray-50 ${selected?.id === donor.id ? 'bg-teal-50' : ''}`}
+              >
+                <span className="font-medium text-gray-900">{donor.name || 'Unnamed donor'}</span>
+                <span className="block text-xs text-gray-500">
+                  {[donor.email, donor.phone].filter(Boolean).join(' · ')} · {donor.giftCount} gifts
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="p-3 bg-amber-50 border border-amber-100 rounded-lg text-sm">
+          <p className="text-amber-900">
+            Merge <strong>{selected.name || 'Unnamed donor'}</strong>
+            {' '}({[selected.email, selected.phone].filter(Boolean).join(', ')}; {selected.giftCount} gifts, {formatRM(selected.lifetimeValue)}) into this profile
+          </p>
+          <button
+            onClick={handleMerge}
+            disabled={isPending}
+            className="mt-3 btn-primary w-full disabled:opacity-50"
+          >
+            {isPending ? 'Merging...' : 'Merge Into This Profile'}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-emerald-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
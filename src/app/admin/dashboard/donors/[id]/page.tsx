@@ -0,0 +1,232 @@
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import { getDonorProfile, listDonors } from '@/lib/donors'
+import DonorPreferencesForm from './DonorPreferencesForm'
+import MergeDonorPanel from './MergeDonorPanel'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const statusStyles: Record<string, string> = {
+  completed: 'bg-emerald-100 text-emerald-700',
+  pending: 'bg-amber-100 text-amber-700',
+  awaiting_approval: 'bg-amber-100 text-amber-700',
+  failed: 'bg-red-100 text-red-700',
+  refunded: 'bg-purple-100 text-purple-700',
+  expired: 'bg-gray-100 text-gray-600',
+  rejected: 'bg-gray-100 text-gray-600',
+}
+
+const receiptStatusStyles: Record<string, string> = {
+  issued: 'bg-emerald-100 text-emerald-700',
+  voided: 'bg-red-100 text-red-700',
+  reissued: 'bg-gray-100 text-gray-600',
+}
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+function formatDate(date: Date | null) {
+  if (!date) return '-'
+  return new Date(date).toLocaleDateString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export default async function DonorProfilePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ merge?: string }>
+}) {
+  const { id } = await params
+  const { merge } = await searchParams
+
+  if (!UUID_PATTERN.test(id)) notFound()
+
+  const profile = await getDonorProfile(id)
+  if (!profile) notFound()
+
+  // Old links to a merged profile go to the one it was merged into
+  if (profile.donor.mergedIntoId) {
+    redirect(`/admin/dashboard/donors/${profile.donor.mergedIntoId}`)
+  }
+
+  const [suggested] = merge && UUID_PATTERN.test(merge) && merge !== id
+    ? await listDonors({ id: merge, limit: 1 })
+    : []
+
+  const { donor, gifts, receipts, mergedDonors, summary } = profile
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-8">
+        <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+          <Link href="/admin/dashboard" className="hover:text-teal-600">Dashboard</Link>
+          <span>/</span>
+          <Link href="/admin/dashboard/donors" className="hover:text-teal-600">Donors</Link>
+          <span>/</span>
+          <span className="text-foundation-charcoal">{donor.name || 'Unnamed donor'}</span>
+        </nav>
+        <h1 className="font-heading text-2xl font-semibold text-foundation-charcoal">
+          {donor.name || 'Unnamed donor'}
+        </h1>
+        <p className="text-gray-500 text-sm mt-1">
+          {[donor.email, donor.phone].filter(Boolean).join(' · ')}
+          {' · '}Donor since {formatDate(donor.createdAt)}
+        </p>
+      </div>
+
+      {/* Stats */}
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+        <div className="bg-gradient-to-br from-teal-500 to-teal-700 rounded-2xl p-5 text-white">
+          <p className="text-sm text-teal-100">Lifetime Value</p>
+          <p className="font-display text-2xl font-bold">{formatRM(summary.lifetimeValue)}</p>
+          <p className="text-xs text-teal-100">{summary.giftCount} gift{summary.giftCount !== 1 ? 's' : ''}, average {formatRM(summary.averageGift)}</p>
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 shadow-sm">
+          <p className="text-sm text-gray-500">First Gift</p>
+          <p className="font-display text-2xl font-bold text-foundation-charcoal">{formatDate(summary.firstGiftAt)}</p>
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 shadow-sm">
+          <p className="text-sm text-gray-500">Last Gift</p>
+          <p className="font-display text-2xl font-bold text-foundation-charcoal">{formatDate(summary.lastGiftAt)}</p>
+        </div>
+        <div className="bg-white rounded-2xl border border-gray-100 p-5 shadow-sm">
+          <p className="text-sm text-gray-500">Receipts Issued</p>
+          <p className="font-display text-2xl font-bold text-foundation-charcoal">
+            {receipts.filter(receipt => receipt.status === 'issued').length}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Gift History */}
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="px-5 py-4 border-b border-gray-100">
+              <h2 className="font-semibold text-foundation-charcoal">Gift History</h2>
+            </div>
+            {gifts.length === 0 ? (
+              <p className="p-5 text-sm text-gray-500">No donations linked to this donor.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wider">
+                    <tr>
+                      <th className="px-5 py-3 text-left font-medium">Date</th>
+                      <th className="px-5 py-3 text-left font-medium">Reference</th>
+                      <th className="px-5 py-3 text-right font-medium">Amount</th>
+                      <th className="px-5 py-3 text-left font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-50">
+                    {gifts.map(gift => (
+                      <tr key={gift.id}>
+                        <td className="px-5 py-3 text-gray-600 whitespace-nowrap">{formatDate(gift.completedAt || gift.createdAt)}</td>
+                        <td className="px-5 py-3">
+                          <Link
+                            href={`/admin/dashboard/donations?search=${gift.paymentReference}&environment=${gift.environment}`}
+                            className="font-mono text-xs text-teal-600 hover:text-teal-700"
+                          >
+                            {gift.paymentReference}
+                          </Link>
+                          {gift.subscriptionId && <span className="ml-2 text-xs text-gray-400">Monthly #{gift.subscriptionCycle}</span>}
+                          {gift.paymentGateway === 'offline' && <span className="ml-2 text-xs text-gray-400">Offline</span>}
+                          {gift.environment === 'sandbox' && <span className="ml-2 text-xs text-amber-600">Sandbox</span>}
+                        </td>
+                        <td className="px-5 py-3 text-right text-gray-900">
+                          {formatRM(gift.amount)}
+                          {(gift.refundedAmount || 0) > 0 && (
+                            <span className="block text-xs text-purple-600">-{formatRM(gift.refundedAmount || 0)} refunded</span>
+                          )}
+                        </td>
+                        <td className="px-5 py-3">
+                          <span className={`px-2 py-0.5 text-xs rounded-full font-medium capitalize ${statusStyles[gift.paymentStatus || 'pending'] || 'bg-gray-100 text-gray-600'}`}>
+                            {(gift.paymentStatus || 'pending').replace('_', ' ')}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Receipts */}
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="px-5 py-4 border-b border-gray-100">
+              <h2 className="font-semibold text-foundation-charcoal">Receipts</h2>
+            </div>
+            {receipts.length === 0 ? (
+              <p className="p-5 text-sm text-gray-500">No receipts issued yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-50">
+                {receipts.map(receipt => (
+                  <li key={receipt.id} className="px-5 py-3 flex items-center justify-between gap-4 text-sm">
+                    <div>
+                      <p className="font-mono text-gray-900">{receipt.receiptNumber}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(receipt.issuedAt)} · {formatRM(Math.round(receipt.snapshot.amount * 100))}
+                        {receipt.voidReason && ` · ${receipt.voidReason}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className={`px-2 py-0.5 text-xs rounded-full font-medium capitalize ${receiptStatusStyles[receipt.status] || 'bg-gray-100 text-gray-600'}`}>
+                        {receipt.status}
+                      </span>
+                      {receipt.status === 'issued' && receipt.snapshot.paymentReference && (
+                        <a
+                          href={`/api/donations/receipt/${receipt.snapshot.paymentReference}`}
+                          className="text-xs font-medium text-teal-600 hover:text-teal-700"
+                        >
+                          PDF
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <DonorPreferencesForm
+            donorId={donor.id}
+            preferences={{
+              emailUpdates: donor.emailUpdates ?? false,
+              recoveryEmails: donor.recoveryEmails ?? true,
+              locale: donor.locale === 'ms' ? 'ms' : 'en',
+              notes: donor.notes,
+            }}
+          />
+
+          <MergeDonorPanel donorId={donor.id} suggested={suggested || null} />
+
+          {mergedDonors.length > 0 && (
+            <div className="bg-white rounded-2xl p-6 border border-gray-100">
+              <h3 className="font-medium text-foundation-charcoal mb-3">Merged Profiles</h3>
+              <ul className="space-y-2 text-sm">
+                {mergedDonors.map(merged => (
+                  <li key={merged.id} className="text-gray-600">
+                    {merged.name || 'Unnamed'} · {merged.email || merged.phone}
+                    <span className="block text-xs text-gray-400">
+                      Merged {formatDate(merged.mergedAt)}{merged.mergedBy ? ` by ${merged.mergedBy}` : ''}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
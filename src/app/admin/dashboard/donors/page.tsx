@@ -0,0 +1,125 @@
+import Link from 'next/link'
+import { findDuplicateDonors, listDonors } from '@/lib/donors'
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+function formatDate(date: Date | null) {
+  if (!date) return '-'
+  return new Date(date).toLocaleDateString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export default async function DonorsManagement({
+  searchParams,
+}: {
+  searchParams: Promise<{ search?: string }>
+}) {
+  const params = await searchParams
+  const search = params.search?.trim() || ''
+
+  const [donorList, duplicateGroups] = await Promise.all([
+    listDonors({ search }),
+    search ? Promise.resolve([]) : findDuplicateDonors(),
+  ])
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+            <Link href="/admin/dashboard" className="hover:text-teal-600">Dashboard</Link>
+            <span>/</span>
+            <span className="text-foundation-charcoal">Donors</span>
+          </nav>
+          <h1 className="font-heading text-2xl font-semibold text-foundation-charcoal">
+            Donors
+          </h1>
+          <p className="text-gray-500 text-sm mt-1">
+            One profile per person, matched on email and phone. Totals count production donations net of refunds.
+          </p>
+        </div>
+        <form className="flex items-center gap-2">
+          <input
+            type="search"
+            name="search"
+            defaultValue={search}
+            placeholder="Name, email or phone"
+            className="w-64 px-4 py-2.5 bg-white border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 text-sm"
+          />
+          <button type="submit" className="btn-primary">Search</button>
+        </form>
+      </div>
+
+      {/* Possible Duplicates */}
+      {duplicateGroups.length > 0 && (
+        <div className="bg-amber-50/60 border border-amber-100 rounded-2xl p-5 mb-8">
+          <h2 className="font-semibold text-amber-900 mb-1">Possible Duplicates</h2>
+          <p className="text-sm text-amber-700 mb-4">
+            These profiles share a phone number or name. Open the profile to keep and merge the others into it.
+          </p>
+          <div className="space-y-3">
+            {duplicateGroups.map(group => (
+              <div key={group.map(d => d.id).join()} className="bg-white rounded-xl border border-amber-100 p-3 flex flex-wrap items-center gap-2">
+                {group.map((donor, index) => (
+                  <Link
+                    key={donor.id}
+                    href={`/admin/dashboard/donors/${group[0].id}?merge=${index === 0 ? group[1].id : donor.id}`}
+                    className="px-3 py-1.5 rounded-lg bg-gray-50 hover:bg-gray-100 text-sm"
+                  >
+                    <span className="font-medium text-gray-900">{donor.name || 'Unnamed'}</span>
+                    <span className="text-gray-500"> · {donor.email || donor.phone}</span>
+                  </Link>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Donor List */}
+      <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+        {donorList.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">
+            {search ? 'No donors match your search.' : 'No donor profiles yet. Profiles are created as donations come in.'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wider">
+                <tr>
+                  <th className="px-5 py-3 text-left font-medium">Donor</th>
+                  <th className="px-5 py-3 text-left font-medium">Phone</th>
+                  <th className="px-5 py-3 text-right font-medium">Gifts</th>
+                  <th className="px-5 py-3 text-right font-medium">Lifetime Value</th>
+                  <th className="px-5 py-3 text-left font-medium">Last Gift</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {donorList.map(donor => (
+                  <tr key={donor.id} className="hover:bg-gray-50/50">
+                    <td className="px-5 py-3">
+                      <Link href={`/admin/dashboard/donors/${donor.id}`} className="font-medium text-gray-900 hover:text-teal-600">
+                        {donor.name || 'Unnamed donor'}
+                      </Link>
+                      <p className="text-xs text-gray-500">{donor.email || '-'}</p>
+                    </td>
+                    <td className="px-5 py-3 text-gray-600 font-mono text-xs">{donor.phone || '-'}</td>
+                    <td className="px-5 py-3 text-right text-gray-900">{donor.giftCount}</td>
+                    <td className="px-5 py-3 text-right font-semibold text-foundation-charcoal">{formatRM(donor.lifetimeValue)}</td>
+                    <td className="px-5 py-3 text-gray-600">{formatDate(donor.lastGiftAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
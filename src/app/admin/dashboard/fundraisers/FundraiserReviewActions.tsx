@@ -0,0 +1,147 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { FundraiserReviewAction, FundraiserStatus } from '@/lib/fundraisers'
+
+interface FundraiserReviewActionsProps {
+  id: string
+  status: FundraiserStatus
+}
+
+const confirmations: Record<FundraiserReviewAction, string> = {
+  approve: 'Approve this fundraiser? The page will go live and the owner will be emailed.',
+  reject: '',
+  close: 'Close this fundraiser? The page stays visible but will stop taking donations.',
+}
+
+/**
+ * Approve / reject / close controls for a supporter fundraiser page
+ */
+export default function FundraiserReviewActions({ id, status }: FundraiserReviewActionsProps) {
+  const router = useRouter()
+  const [isRejecting, setIsRejecting] = useState(false)
+  const [reason, setReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const submitReview = async (action: FundraiserReviewAction) => {
+    if (action === 'reject' && !reason.trim()) {
+      setResult({ success: false, message: 'Please enter a reason. It will be shared with the fundraiser.' })
+      return
+    }
+
+    if (action !== 'reject' && !confirm(confirmations[action])) {
+      return
+    }
+
+    setIsSubmitting(true)
+    setResult(null)
+
+    try {
+      const response = await fetch('/api/admin/fundraisers/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, action, reason }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setResult({ success: true, message: data.message })
+        setIsRejecting(false)
+        router.refresh()
+      } else {
+        setResult({ success: false, message: data.error || 'Failed to review fundraiser' })
+      }
+    } catch {
+      setResult({ success: false, message: 'Network error. Please try again.' })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (status === 'closed') return null
+
+  return (
+    <div className="space-y-3">
+      {isRejecting && (
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Reason (emailed to the fundraiser)</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+            maxLength={500}
+            placeholder="e.g. The story does not describe how funds will be used"
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+          />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {isRejecting ? (
+          <>
+            <button
+              onClick={() => submitReview('reject')}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Processing...' : status === 'approved' ? 'Take Down' : 'Reject'}
+            </button>
+            <button
+              onClick={() => {
+                setIsRejecting(false)
+                setResult(null)
+              }}
+              className="px-4 py-2 text-sm font-medium text-gray-600 rounded-lg hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            {(status === 'pending' || status === 'rejected') && (
+              <button
+                onClick={() => submitReview('approve')}
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Processing...' : 'Approve'}
+              </button>
+            )}
+            {status === 'approved' && (
+              <button
+                onClick={() => submitReview('close')}
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Processing...' : 'Close Fundraiser'}
+              </button>
+            )}
+            {(status === 'pending' || status === 'approved') && (
+              <button
+                onClick={() => setIsRejecting(true)}
+                className="px-4 py-2 text-sm font-medium text-red-600 rounded-lg hover:bg-red-50"
+              >
+                {status === 'approved' ? 'Take Down' : 'Reject'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {result && (
+        <div
+          className={`p-3 rounded-xl text-sm ${
+            result.success
+              ? 'bg-emerald-50 text-emerald-700 border border-emerald-200'
+              : 'bg-red-50 text-red-700 border border-red-200'
+          }`}
+        >
+          {result.message}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { db, fundraisers } from '@/db'
+import { asc, desc, eq, sql } from 'drizzle-orm'
+import {
+  getFundraiserProgress,
+  getFundraiserProjectTitles,
+  isFundraiserStatus,
+  type FundraiserStatus,
+} from '@/lib/fundraisers'
+import FundraiserReviewActions from './FundraiserReviewActions'
+
+const statusTabs: { status: FundraiserStatus; label: string }[] = [
+  { status: 'pending', label: 'Awaiting Review' },
+  { status: 'approved', label: 'Live' },
+  { status: 'rejected', label: 'Rejected' },
+  { status: 'closed', label: 'Closed' },
+]
+
+const statusStyles: Record<FundraiserStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  approved: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-red-100 text-red-700',
+  closed: 'bg-gray-100 text-gray-600',
+}
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+function formatDate(date: Date) {
+  return new Date(date).toLocaleDateString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export default async function FundraisersManagement({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string }>
+}) {
+  const params = await searchParams
+  const status: FundraiserStatus = isFundraiserStatus(params.status) ? params.status : 'pending'
+
+  const [counts, fundraisersList] = await Promise.all([
+    db
+      .select({ status: fundraisers.status, count: sql<number>`COUNT(*)` })
+      .from(fundraisers)
+      .groupBy(fundraisers.status),
+    db.query.fundraisers.findMany({
+      where: eq(fundraisers.status, status),
+      // Oldest first in the queue so nobody waits too long
+      orderBy: [status === 'pending' ? asc(fundraisers.createdAt) : desc(fundraisers.updatedAt)],
+      limit: 100,
+    }),
+  ])
+
+  const countByStatus = Object.fromEntries(counts.map(row => [row.status, Number(row.count)]))
+
+  const [rows, projectTitles] = await Promise.all([
+    Promise.all(fundraisersList.map(async fundraiser => ({
+      fundraiser,
+      progress: await getFundraiserProgress(fundraiser),
+    }))),
+    getFundraiserProjectTitles(fundraisersList.map(f => f.projectId)),
+  ])
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-8">
+        <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+          <Link href="/admin/dashboard" className="hover:text-teal-600">Dashboard</Link>
+          <span>/</span>
+          <span className="text-foundation-charcoal">Fundraisers</span>
+        </nav>
+        <h1 className="font-heading text-2xl font-semibold text-foundation-charcoal">
+          Supporter Fundraisers
+        </h1>
+        <p className="text-gray-500 text-sm mt-1">
+          Pages created by supporters for a project. Review each page before it goes live.
+        </p>
+      </div>
+
+      {/* Stats */}
+      <div className="grid sm:grid-cols-4 gap-4 mb-8">
+        {statusTabs.map(tab => (
+          <Link
+            key={tab.status}
+            href={`/admin/dashboard/fundraisers?status=${tab.status}`}
+            className={`bg-white rounded-xl p-5 border transition-colors ${
+              tab.status === status ? 'border-teal-500 ring-2 ring-teal-500/10' : 'border-gray-100 hover:border-gray-200'
+            }`}
+          >
+            <p className="text-gray-500 text-sm">{tab.label}</p>
+            <p className={`font-display text-3xl font-bold ${tab.status === 'pending' && countByStatus.pending ? 'text-amber-600' : 'text-foundation-charcoal'}`}>
+              {countByStatus[tab.status] || 0}
+            </p>
+          </Link>
+        ))}
+      </div>
+
+      {/* Fundraisers List */}
+      {rows.length === 0 ? (
+        <div className="bg-white rounded-2xl border border-gray-100 p-12 text-center">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            {status === 'pending' ? 'Nothing to review' : 'No fundraisers here'}
+          </h3>
+          <p className="text-gray-500">
+            {status === 'pending'
+              ? 'New pages submitted by supporters will appear here for approval.'
+              : 'Fundraisers with this status will be listed here.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {rows.map(({ fundraiser, progress }) => (
+            <div key={fundraiser.id} className="bg-white rounded-2xl border border-gray-100 p-6">
+              <div className="flex flex-col lg:flex-row gap-6">
+                {fundraiser.photoUrl && (
+                  <a href={fundraiser.photoUrl} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                    <Image
+                      src={fundraiser.photoUrl}
+                      alt={fundraiser.title}
+                      width={192}
+                      height={128}
+                      className="w-full lg:w-48 h-32 object-cover rounded-xl"
+                    />
+                  </a>
+                )}
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <h2 className="font-heading text-lg font-semibold text-foundation-charcoal">{fundraiser.title}</h2>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[fundraiser.status as FundraiserStatus] || statusStyles.pending}`}>
+                      {statusTabs.find(tab => tab.status === fundraiser.status)?.label || fundraiser.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    by <span className="text-gray-700">{fundraiser.ownerName}</span> ({fundraiser.ownerEmail})
+                    {' · '}for <span className="text-gray-700">{projectTitles[fundraiser.projectId] || 'Deleted project'}</span>
+                    {' · '}submitted {formatDate(fundraiser.createdAt)}
+                  </p>
+
+                  <p className="mt-3 text-sm text-gray-700 whitespace-pre-line line-clamp-6">{fundraiser.story}</p>
+
+                  <div className="mt-4 max-w-md">
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className="font-medium text-gray-700">{formatRM(progress.raised)}</span>
+                      <span className="text-gray-500">of {formatRM(progress.goal)}</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-teal-500" style={{ width: `${progress.percent}%` }} />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">{progress.donationCount} donation(s)</p>
+                  </div>
+
+                  {fundraiser.rejectionReason && fundraiser.status === 'rejected' && (
+                    <p className="mt-3 text-sm text-red-700 bg-red-50 rounded-lg px-3 py-2">
+                      Reason: {fundraiser.rejectionReason}
+                    </p>
+                  )}
+                  {fundraiser.reviewedBy && fundraiser.reviewedAt && (
+                    <p className="mt-2 text-xs text-gray-400">
+                      Reviewed by {fundraiser.reviewedBy} on {formatDate(fundraiser.reviewedAt)}
+                    </p>
+                  )}
+                </div>
+
+                <div className="lg:w-64 shrink-0 space-y-3">
+                  <FundraiserReviewActions id={fundraiser.id} status={fundraiser.status as FundraiserStatus} />
+                  <div className="flex gap-4 text-sm">
+                    {(fundraiser.status === 'approved' || fundraiser.status === 'closed') && (
+                      <a
+                        href={`/fundraisers/${fundraiser.slug}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium text-teal-600 hover:text-teal-700"
+                      >
+                        View
+                      </a>
+                    )}
+                    {progress.donationCount > 0 && (
+                      <Link
+                        href={`/admin/dashboard/donations?fundraiser=${fundraiser.id}&environment=all`}
+                        className="font-medium text-gray-500 hover:text-gray-700"
+                      >
+                        Donations
+                      </Link>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,240 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import BilingualInput, { type LocalizedValue } from '@/components/admin/BilingualInput'
+import { createFund, updateFund } from '@/lib/actions/funds'
+
+type FundType = 'zakat' | 'waqf' | 'sedekah' | 'restricted'
+
+interface FundEditorProps {
+  fund: {
+    id: string
+    code: string
+    name: LocalizedValue
+    description: LocalizedValue | null
+    type: FundType
+    projectId: string | null
+    isActive: boolean
+    sortOrder: number
+  } | null
+  projects: { id: string; title: string }[]
+}
+
+const inputClass = 'w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 text-sm'
+const labelClass = 'block text-xs font-medium text-gray-500 mb-1'
+
+const typeOptions: { value: FundType; label: string; description: string }[] = [
+  { value: 'zakat', label: 'Zakat', description: 'Only for the eight asnaf. Offered on the donate page with the zakat calculator.' },
+  { value: 'waqf', label: 'Waqf', description: 'Endowment gifts. The capital is preserved and only its returns are spent.' },
+  { value: 'sedekah', label: 'Sedekah', description: 'General charity that can be spent on any programme.' },
+  { value: 'restricted', label: 'Restricted', description: 'Held for one project. Sedekah gifts to the project go here automatically.' },
+]
+
+function generateCode(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '')
+}
+
+export default function FundEditor({ fund, projects }: FundEditorProps) {
+  const router = useRouter()
+  const isNew = !fund
+  const [isPending, startTransition] = useTransition()
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const [name, setName] = useState<LocalizedValue>(fund?.name || { en: '', ms: '' })
+  const [description, setDescription] = useState<LocalizedValue>(fund?.description || { en: '', ms: '' })
+  const [code, setCode] = useState(fund?.code || '')
+  const [type, setType] = useState<FundType>(fund?.type || 'sedekah')
+  const [projectId, setProjectId] = useState(fund?.projectId || '')
+  const [isActive, setIsActive] = useState(fund?.isActive ?? true)
+  const [sortOrder, setSortOrder] = useState((fund?.sortOrder ?? 0).toString())
+
+  const handleNameChange = (value: LocalizedValue) => {
+    setName(value)
+    if (isNew) setCode(generateCode(value.en || value.ms))
+  }
+
+  const handleSave = () => {
+    setMessage(null)
+    startTransition(async () => {
+      try {
+        const data = {
+          code,
+          name,
+          description: description.en || description.ms ? description : null,
+          type,
+          projectId: type === 'restricted' ? projectId || null : null,
+          isActive,
+          sortOrder: parseInt(sortOrder, 10) || 0,
+        }
+
+        const result = isNew
+          ? await createFund(data)
+          : await updateFund(fund.id, data)
+
+        if (!result.success) {
+          setMessage({ type: 'error', text: result.error || 'Failed to save fund' })
+          return
+        }
+
+        setMessage({ type: 'success', text: isNew ? 'Fund created successfully!' : 'Fund updated successfully!' })
+        if (isNew) {
+          router.push('/admin/dashboard/funds')
+        } else {
+          router.refresh()
+        }
+      } catch (error) {
+        console.error('Failed to save:', error)
+        setMessage({ type: 'error', text: 'Failed to save fund. Please try again.' })
+      }
+    })
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+            <Link href="/admin/dashboard" className="hover:text-teal-600">Dashboard</Link>
+            <span>/</span>
+            <Link href="/admin/dashboard/funds" className="hover:text-teal-600">Funds</Link>
+            <span>/</span>
+            <span className="text-foundation-charcoal">{isNew ? 'New Fund' : 'Edit'}</span>
+          </nav>
+          <h1 className="font-heading text-2xl font-semibold text-foundation-charcoal">
+            {isNew ? 'Create New Fund' : 'Edit Fund'}
+          </h1>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={isPending}
+          className="btn-primary disabled:opacity-50"
+        >
+          {isPending ? 'Saving...' : 'Save Fund'}
+        </button>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-xl mb-6 ${
+          message.type === 'success'
+            ? 'bg-emerald-50 text-emerald-700 border border-emerald-200'
+            : 'bg-red-50 text-red-700 border border-red-200'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        {/* Main Content */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-2xl p-6 border border-gray-100 space-y-6">
+            <BilingualInput
+              label="Name"
+              value={name}
+              onChange={handleNameChange}
+              placeholder={{ en: 'e.g. Zakat Fund', ms: 'cth. Dana Zakat' }}
+              required
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Code *</label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 font-mono text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">Shown in exports and accounting reports</p>
+            </div>
+
+            <BilingualInput
+              label="Description"
+              value={description}
+              onChange={setDescription}
+              type="textarea"
+              rows={3}
+              helperText="Shown to donors when they choose a fund"
+            />
+          </div>
+
+          {/* Fund Type */}
+          <div className="bg-white rounded-2xl p-6 border border-gray-100">
+            <h3 className="font-medium text-foundation-charcoal mb-4">Fund Type</h3>
+            <div className="grid sm:grid-cols-2 gap-3">
+              {typeOptions.map(option => (
+                <label
+                  key={option.value}
+                  className={`flex gap-3 p-4 rounded-xl border cursor-pointer transition-colors ${
+                    type === option.value ? 'border-teal-500 bg-teal-50/50' : 'border-gray-100 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="type"
+                    checked={type === option.value}
+                    onChange={() => setType(option.value)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-xs text-gray-500 mt-0.5">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {type === 'restricted' && (
+              <div className="mt-4">
+                <label className={labelClass}>Project *</label>
+                <select
+                  value={projectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Select a project</option>
+                  {projects.map(project => (
+                    <option key={project.id} value={project.id}>{project.title}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <div className="bg-white rounded-2xl p-6 border border-gray-100 space-y-4">
+            <h3 className="font-medium text-foundation-charcoal">Settings</h3>
+            <label className="flex items-center gap-3 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+              />
+              Accepting donations
+            </label>
+            <p className="text-xs text-gray-500 -mt-2">
+              Funds are never deleted, so past donations keep their designation. Untick to stop new gifts.
+            </p>
+            <div>
+              <label className={labelClass}>Sort Order</label>
+              <input
+                type="number"
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value)}
+                step="1"
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-500 mt-1">Lower numbers are listed first on the donate page</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { updateSiteSetting } from '@/lib/actions/content'
+
+export default function ZakatNisabForm({ nisab }: { nisab: number }) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [amount, setAmount] = useState(nisab.toString())
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handleSave = () => {
+    const value = parseFloat(amount)
+    if (!(value > 0)) {
+      setMessage({ type: 'error', text: 'Enter the nisab in RM' })
+      return
+    }
+
+    setMessage(null)
+    startTransition(async () => {
+      try {
+        await updateSiteSetting('zakatNisab', { amount: Math.round(value * 100) / 100 })
+        setMessage({ type: 'success', text: 'Nisab updated' })
+        router.refresh()
+      } catch {
+        setMessage({ type: 'error', text: 'Failed to update nisab' })
+      }
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-100">
+      <h3 className="font-medium text-foundation-charcoal mb-1">Zakat Nisab</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Used by the zakat calculator on the donate page. Update it when the state zakat authority announces this year&apos;s figure.
+      </p>
+      <div className="relative mb-3">
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm">RM</span>
+        <input
+          type="number"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          min="1"
+          step="0.01"
+          className="w-full pl-10 pr-3 py-2 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 text-sm"
+        />
+      </div>
+      {message && (
+        <p className={`text-sm mb-3 ${message.type === 'success' ? 'text-emerald-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+      <button
+        onClick={handleSave}
+        disabled={isPending}
+        className="btn-primary w-full disabled:opacity-50"
+      >
+        {isPending ? 'Saving...' : 'Save Nisab'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import { notFound } from 'next/navigation'
+import { db, funds, projects } from '@/db'
+import { desc, eq } from 'drizzle-orm'
+import { getLocalizedValue } from '@/i18n/config'
+import { isFundType } from '@/lib/funds'
+import FundEditor from '../FundEditor'
+
+export default async function FundEditorPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const isNew = id === 'new'
+
+  const [fund, projectsList] = await Promise.all([
+    isNew ? null : db.query.funds.findFirst({ where: eq(funds.id, id) }),
+    db.query.projects.findMany({
+      columns: { id: true, title: true },
+      orderBy: [desc(projects.createdAt)],
+    }),
+  ])
+
+  if (!isNew && !fund) {
+    notFound()
+  }
+
+  return (
+    <FundEditor
+      fund={fund
+        ? {
+          id: fund.id,
+          code: fund.code,
+          name: fund.name,
+          description: fund.description,
+          type: isFundType(fund.type) ? fund.type : 'sedekah',
+          projectId: fund.projectId,
+          isActive: fund.isActive ?? true,
+          sortOrder: fund.sortOrder ?? 0,
+        }
+        : null}
+      projects={projectsList.map(p => ({ id: p.id, title: getLocalizedValue(p.title, 'en') }))}
+    />
+  )
+}
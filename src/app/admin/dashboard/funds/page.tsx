@@ -0,0 +1,204 @@
+import Link from 'next/link'
+import { db, funds } from '@/db'
+import { asc } from 'drizzle-orm'
+import { FUND_TYPE_LABELS, getFundBalances, getFundProjectTitles, type FundType } from '@/lib/funds'
+import { parseZakatNisab } from '@/lib/zakat'
+import { getSiteSetting } from '@/lib/actions/content'
+import ZakatNisabForm from './ZakatNisabForm'
+
+const typeStyles: Record<FundType, string> = {
+  zakat: 'bg-emerald-100 text-emerald-700',
+  waqf: 'bg-sky-100 text-sky-700',
+  sedekah: 'bg-teal-100 text-teal-700',
+  restricted: 'bg-purple-100 text-purple-700',
+}
+
+function formatRM(cents: number) {
+  return `RM ${(cents / 100).toLocaleString('en-MY', { minimumFractionDigits: 2 })}`
+}
+
+export default async function FundsManagement({
+  searchParams,
+}: {
+  searchParams: Promise<{ environment?: string }>
+}) {
+  const params = await searchParams
+  const environment = params.environment === 'sandbox' || params.environment === 'all' ? params.environment : 'production'
+
+  const [balances, fundList, nisabSetting] = await Promise.all([
+    getFundBalances(environment),
+    db.query.funds.findMany({ orderBy: [asc(funds.sortOrder), asc(funds.createdAt)] }),
+    getSiteSetting('zakatNisab'),
+  ])
+
+  const projectTitles = await getFundProjectTitles(
+    fundList.map(f => f.projectId).filter((id): id is string => !!id)
+  )
+  const projectByFund = Object.fromEntries(fundList.map(f => [f.id, f.projectId]))
+
+  const totalFor = (type: FundType) => balances
+    .filter(b => b.type === type)
+    .reduce((sum, b) => sum + b.balance, 0)
+  const totalBalance = balances.reduce((sum, b) => sum + b.balance, 0)
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <nav className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+            <Link href="/admin/dashboard" className="hover:text-teal-600">Dashboard</Link>
+            <span>/</span>
+            <span className="text-foundation-charcoal">Funds</span>
+          </nav>
+          <h1 className="font-heading text-2xl font-semibold text-foundation-charcoal">
+            Designated Funds
+          </h1>
+          <p className="text-gray-500 text-sm mt-1">
+            Balances for zakat, waqf, sedekah and project-restricted gifts, net of refunds
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <a
+            href={`/api/admin/funds/export?environment=${environment}`}
+            className="px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+          >
+            Export Balances
+          </a>
+          <Link
+            href="/admin/dashboard/funds/new"
+            className="btn-primary inline-flex items-center gap-2"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            New Fund
+          </Link>
+        </div>
+      </div>
+
+      {/* Environment */}
+      <div className="flex gap-2 mb-6 text-sm">
+        {(['production', 'sandbox', 'all'] as const).map(env => (
+          <Link
+            key={env}
+            href={`/admin/dashboard/funds?environment=${env}`}
+            className={`px-3 py-1.5 rounded-lg font-medium capitalize ${
+              env === environment ? 'bg-teal-50 text-teal-700' : 'text-gray-500 hover:bg-gray-50'
+            }`}
+          >
+            {env}
+          </Link>
+        ))}
+      </div>
+
+      {/* Stats */}
+      <div className="grid sm:grid-cols-4 gap-4 mb-8">
+        <div className="bg-white rounded-xl p-5 border border-gray-100">
+          <p className="text-gray-500 text-sm">All Funds</p>
+          <p className="font-display text-2xl font-bold text-foundation-charcoal">{formatRM(totalBalance)}</p>
+        </div>
+        <div className="bg-white rounded-xl p-5 border border-gray-100">
+          <p className="text-gray-500 text-sm">Zakat</p>
+          <p className="font-display text-2xl font-bold text-emerald-600">{formatRM(totalFor('zakat'))}</p>
+        </div>
+        <div className="bg-white rounded-xl p-5 border border-gray-100">
+          <p className="text-gray-500 text-sm">Waqf</p>
+          <p className="font-display text-2xl font-bold text-sky-600">{formatRM(totalFor('waqf'))}</p>
+        </div>
+        <div className="bg-white rounded-xl p-5 border border-gray-100">
+          <p className="text-gray-500 text-sm">Sedekah &amp; Restricted</p>
+          <p className="font-display text-2xl font-bold text-teal-600">{formatRM(totalFor('sedekah') + totalFor('restricted'))}</p>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        {/* Balances */}
+        <div className="lg:col-span-2 bg-white rounded-2xl border border-gray-100 overflow-hidden">
+          {balances.length === 0 ? (
+            <div className="p-12 text-center">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No funds yet</h3>
+              <p className="text-gray-500">Create zakat, waqf and sedekah funds so donors can designate their gifts.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b border-gray-100 bg-gray-50/80 uppercase tracking-wider">
+                    <th className="px-5 py-3 font-semibold">Fund</th>
+                    <th className="px-5 py-3 font-semibold text-right">Received</th>
+                    <th className="px-5 py-3 font-semibold text-right">Refunded</th>
+                    <th className="px-5 py-3 font-semibold text-right">Balance</th>
+                    <th className="px-5 py-3 font-semibold"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {balances.map(balance => {
+                    const projectId = balance.fundId ? projectByFund[balance.fundId] : null
+                    return (
+                      <tr key={balance.fundId || 'undesignated'} className="align-top">
+                        <td className="px-5 py-4">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <p className="font-medium text-foundation-charcoal">{balance.name}</p>
+                            {balance.type && (
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${typeStyles[balance.type]}`}>
+                                {FUND_TYPE_LABELS[balance.type]}
+                              </span>
+                            )}
+                            {balance.fundId && !balance.isActive && (
+                              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-500">Inactive</span>
+                            )}
+                          </div>
+                          <p className="text-xs text-gray-400 font-mono">{balance.code}</p>
+                          {projectId && (
+                            <p className="text-xs text-gray-500 mt-1">For {projectTitles[projectId] || 'Deleted project'}</p>
+                          )}
+                          {!balance.fundId && (
+                            <p className="text-xs text-gray-500 mt-1">Donations made before funds were set up</p>
+                          )}
+                        </td>
+                        <td className="px-5 py-4 text-right whitespace-nowrap">
+                          {formatRM(balance.received)}
+                          <p className="text-xs text-gray-400">{balance.donationCount} donation(s)</p>
+                        </td>
+                        <td className="px-5 py-4 text-right whitespace-nowrap text-purple-600">
+                          {balance.refunded > 0 ? formatRM(balance.refunded) : '–'}
+                        </td>
+                        <td className="px-5 py-4 text-right whitespace-nowrap font-semibold text-foundation-charcoal">
+                          {formatRM(balance.balance)}
+                        </td>
+                        <td className="px-5 py-4 text-right whitespace-nowrap">
+                          {balance.fundId && (
+                            <>
+                              <Link
+                                href={`/admin/dashboard/funds/${balance.fundId}`}
+                                className="text-sm font-medium text-teal-600 hover:text-teal-700"
+                              >
+                                Edit
+                              </Link>
+                              <Link
+                                href={`/admin/dashboard/donations?fund=${balance.fundId}&environment=${environment}`}
+                                className="ml-4 text-sm font-medium text-gray-500 hover:text-gray-700"
+                              >
+                                Donations
+                              </Link>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Zakat Nisab */}
+        <div>
+          <ZakatNisabForm nisab={parseZakatNisab(nisabSetting)} />
+        </div>
+      </div>
+    </div>
+  )
+}
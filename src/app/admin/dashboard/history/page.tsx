@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
+import DiffColumn from '@/components/admin/DiffColumn'
+import { isRestorableField, type FieldDiff } from '@/lib/version-diff'
 
 interface ContentVersion {
   id: string
@@ -34,6 +36,15 @@ interface ActivityLogEntry {
   createdAt: string
 }
 
+interface VersionComparison {
+  comparison: {
+    against: 'previous' | 'current'
+    versionNumber: number | null
+    exists: boolean
+  }
+  fields: FieldDiff[]
+}
+
 interface VersionStats {
   totalVersions: number
   versionsByType: Record<string, number>
@@ -43,6 +54,8 @@ interface VersionStats {
 const contentTypeLabels: Record<string, string> = {
   blog_posts: 'Blog Posts',
   projects: 'Projects',
+  campaigns: 'Campaigns',
+  funds: 'Funds',
   team_members: 'Team Members',
   hero_content: 'Hero Section',
   about_content: 'About Section',
@@ -92,6 +105,9 @@ export default function VersionHistoryPage() {
   const [versions, setVersions] = useState<ContentVersion[]>([])
   const [loading, setLoading] = useState(true)
   const [restoring, setRestoring] = useState(false)
+  const [compareMode, setCompareMode] = useState<'previous' | 'current'>('previous')
+  const [comparison, setComparison] = useState<VersionComparison | null>(null)
+  const [comparisonKey, setComparisonKey] = useState(0)
 
   useEffect(() => {
     fetchStats()
@@ -104,6 +120,31 @@ export default function VersionHistoryPage() {
     }
   }, [selectedContentType])
 
+  useEffect(() => {
+    if (!selectedVersion) return
+    let cancelled = false
+    async function fetchComparison(versionId: string) {
+      try {
+        const res = await fetch(`/api/versions/${versionId}?compare=${compareMode}`)
+        if (!res.ok) throw new Error('Failed to compare')
+        const data = await res.json()
+        if (!cancelled) setComparison(data)
+      } catch (error) {
+        console.error('Failed to fetch comparison:', error)
+      }
+    }
+    fetchComparison(selectedVersion.id)
+    return () => {
+      cancelled = true
+    }
+  }, [selectedVersion, compareMode, comparisonKey])
+
+  function openVersion(version: ContentVersion) {
+    setComparison(null)
+    setCompareMode('previous')
+    setSelectedVersion(version)
+  }
+
   async function fetchStats() {
     try {
       const res = await fetch('/api/versions?type=stats')
@@ -151,7 +192,8 @@ export default function VersionHistoryPage() {
         throw new Error('Failed to restore')
       }
 
-      alert('Content restored successfully!')
+      const data = await res.json().catch(() => null)
+      alert(data?.pendingReview ? data.message : 'Content restored successfully!')
       fetchActivity()
       if (selectedContentType) {
         fetchVersionsByType(selectedContentType)
@@ -164,6 +206,42 @@ export default function VersionHistoryPage() {
     }
   }
 
+  async function handleRestoreField(version: ContentVersion, diff: FieldDiff) {
+    const label = diff.locale ? `${diff.field} (${diff.locale === 'ms' ? 'BM' : 'EN'})` : diff.field
+    if (!confirm(`Restore ${label} from version ${version.versionNumber}? Everything else stays as it is now.`)) {
+      return
+    }
+
+    setRestoring(true)
+    try {
+      const res = await fetch(`/api/versions/${version.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fields: [{ field: diff.field, locale: diff.locale }] }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to restore')
+      }
+
+      const data = await res.json().catch(() => null)
+      if (data?.pendingReview) {
+        alert(data.message)
+      }
+      setComparisonKey((key) => key + 1)
+      fetchActivity()
+      if (selectedContentType) {
+        fetchVersionsByType(selectedContentType)
+      }
+    } catch (error) {
+      console.error('Failed to restore field:', error)
+      alert(error instanceof Error ? error.message : 'Failed to restore. Please try again.')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
   if (loading) {
     return (
       <div className="animate-pulse space-y-6">
@@ -349,7 +427,7 @@ export default function VersionHistoryPage() {
                         <td className="py-3 px-4">
                           <div className="flex items-center gap-2">
                             <button
-                              onClick={() => setSelectedVersion(version)}
+                              onClick={() => openVersion(version)}
                               className="text-xs text-teal-600 hover:text-teal-700 font-medium"
                             >
                               View
@@ -392,7 +470,7 @@ export default function VersionHistoryPage() {
               animate={{ scale: 1, opacity: 1 }}
               exit={{ scale: 0.95, opacity: 0 }}
               onClick={(e) => e.stopPropagation()}
-              className="bg-white rounded-2xl p-6 max-w-3xl w-full max-h-[80vh] overflow-y-auto"
+              className="bg-white rounded-2xl p-6 max-w-5xl w-full max-h-[85vh] overflow-y-auto"
             >
               <div className="flex items-center justify-between mb-6">
                 <div>
@@ -438,12 +516,92 @@ export default function VersionHistoryPage() {
                   </div>
                 )}
 
+                {/* Field-by-field diff */}
                 <div>
-                  <p className="text-sm font-medium text-gray-700 mb-2">Version Data:</p>
-                  <pre className="bg-gray-50 rounded-xl p-4 text-xs overflow-x-auto">
+                  <div className="flex items-center justify-between gap-4 mb-3">
+                    <p className="text-sm font-medium text-gray-700">Changes:</p>
+                    <div className="inline-flex rounded-xl bg-gray-100 p-1 text-xs font-medium">
+                      {([
+                        ['previous', 'In this version'],
+                        ['current', 'Compared with current'],
+                      ] as const).map(([mode, label]) => (
+                        <button
+                          key={mode}
+                          onClick={() => {
+                            setComparison(null)
+                            setCompareMode(mode)
+                          }}
+                          className={`px-3 py-1.5 rounded-lg transition-colors ${
+                            compareMode === mode ? 'bg-white text-foundation-charcoal shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {!comparison ? (
+                    <div className="animate-pulse bg-gray-50 rounded-xl h-32" />
+                  ) : comparison.comparison.against === 'current' && !comparison.comparison.exists ? (
+                    <p className="text-sm text-gray-500 text-center py-6">This content no longer exists.</p>
+                  ) : comparison.fields.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-6">
+                      {comparison.comparison.against === 'current' ? 'Same as the current content.' : 'No field changes.'}
+                    </p>
+                  ) : (
+                    <div className="space-y-4">
+                      {comparison.fields.map((diff) => (
+                        <div key={`${diff.field}-${diff.locale ?? 'all'}`} className="border border-gray-100 rounded-xl p-4">
+                          <div className="flex items-center justify-between gap-2 mb-3">
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm font-medium text-foundation-charcoal">{diff.field}</span>
+                              {diff.locale && (
+                                <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs font-medium">
+                                  {diff.locale === 'ms' ? 'BM' : 'EN'}
+                                </span>
+                              )}
+                            </div>
+                            {isRestorableField(diff.field) && selectedVersion.changeType !== 'delete' && (
+                              <button
+                                onClick={() => handleRestoreField(selectedVersion, diff)}
+                                disabled={restoring}
+                                className="text-xs text-purple-600 hover:text-purple-700 font-medium disabled:opacity-50"
+                              >
+                                Restore from v{selectedVersion.versionNumber}
+                              </button>
+                            )}
+                          </div>
+                          <div className="grid md:grid-cols-2 gap-3">
+                            <div>
+                              <p className="text-xs text-gray-500 mb-1">
+                                {comparison.comparison.against === 'current'
+                                  ? `Version ${selectedVersion.versionNumber}`
+                                  : comparison.comparison.versionNumber
+                                    ? `Version ${comparison.comparison.versionNumber}`
+                                    : 'Before'}
+                              </p>
+                              <DiffColumn parts={diff.parts} side="old" />
+                            </div>
+                            <div>
+                              <p className="text-xs text-gray-500 mb-1">
+                                {comparison.comparison.against === 'current' ? 'Current' : `Version ${selectedVersion.versionNumber}`}
+                              </p>
+                              <DiffColumn parts={diff.parts} side="new" />
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <details>
+                  <summary className="text-sm font-medium text-gray-700 cursor-pointer">Version Data</summary>
+                  <pre className="bg-gray-50 rounded-xl p-4 text-xs overflow-x-auto mt-2">
                     {JSON.stringify(selectedVersion.data, null, 2)}
                   </pre>
-                </div>
+                </details>
 
                 <div className="flex justify-end gap-3 pt-4 border-t">
                   <button
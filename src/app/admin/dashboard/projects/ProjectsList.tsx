@@ -42,6 +42,7 @@ export default function ProjectsList({ initialProjects }: { initialProjects: Pro
   const [filter, setFilter] = useState<'all' | 'published' | 'draft'>('all')
   const [isPending, startTransition] = useTransition()
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
+  const [publishError, setPublishError] = useState<string | null>(null)
 
   const filteredProjects = projects.filter(project => {
     const matchesSearch = getTitle(project.title).toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -55,7 +56,12 @@ export default function ProjectsList({ initialProjects }: { initialProjects: Pro
   const handleTogglePublish = (id: string, currentStatus: boolean | null) => {
     const newStatus = !currentStatus
     startTransition(async () => {
-      await updateProject(id, { isPublished: newStatus })
+      const result = await updateProject(id, { isPublished: newStatus })
+      if (!result.success) {
+        setPublishError(result.error || 'Failed to update')
+        return
+      }
+      setPublishError(null)
       setProjects(projects.map(p => p.id === id ? { ...p, isPublished: newStatus } : p))
     })
   }
@@ -70,6 +76,11 @@ export default function ProjectsList({ initialProjects }: { initialProjects: Pro
 
   return (
     <div className="bg-white rounded-2xl border border-gray-100">
+      {publishError && (
+        <div className="m-4 mb-0 p-3 rounded-xl text-sm bg-red-50 border border-red-200 text-red-700">
+          {publishError}
+        </div>
+      )}
       {/* Toolbar */}
       <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row gap-4">
         <div className="relative flex-1">
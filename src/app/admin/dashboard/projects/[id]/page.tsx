@@ -3,10 +3,18 @@
 import { useState, useEffect, useTransition, use } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { motion } from 'framer-motion'
-import { createProject, updateProject } from '@/lib/actions/projects'
+import { motion, AnimatePresence } from 'framer-motion'
+import { createProject, updateProject, setProjectSchedule } from '@/lib/actions/projects'
 import ImageUpload from '@/components/admin/ImageUpload'
 import FormSelector from '@/components/admin/FormSelector'
+import PublishScheduler from '@/components/admin/PublishScheduler'
+import ReviewPanel from '@/components/admin/ReviewPanel'
+import PreviewLinksPanel from '@/components/admin/PreviewLinksPanel'
+import EditLeaseBanner from '@/components/admin/EditLeaseBanner'
+import EditConflictDialog from '@/components/admin/EditConflictDialog'
+import { useEditLease } from '@/hooks/useEditLease'
+import { mergeContent, resolveMerge, type ConflictChoice, type MergeResult } from '@/lib/content-merge'
+import type { EditConflict } from '@/lib/edit-leases'
 
 function generateSlug(title: string) {
   return title
@@ -15,6 +23,116 @@ function generateSlug(title: string) {
     .replace(/(^-|-$)/g, '')
 }
 
+const EMPTY_FORM = {
+  title: '',
+  slug: '',
+  subtitle: '',
+  description: '',
+  content: '',
+  featuredImage: '',
+  category: '',
+  status: 'planned',
+  startDate: '',
+  endDate: '',
+  budget: '',
+  beneficiaries: '',
+  location: '',
+  metaTitle: '',
+  metaDescription: '',
+  isPublished: false,
+  // Donation configuration
+  donationEnabled: false,
+  donationGoal: '',
+  donationRaised: 0,
+  toyyibpayCategoryCode: '',
+}
+
+type FormData = typeof EMPTY_FORM
+
+// A project as returned by /api/projects/[id]
+type ProjectRecord = {
+  title: string | null
+  slug: string | null
+  subtitle: string | null
+  description: string | null
+  content: string | null
+  featuredImage: string | null
+  category: string | null
+  status: string | null
+  startDate: string | null
+  endDate: string | null
+  budget: string | null
+  beneficiaries: number | null
+  location: string | null
+  metaTitle: string | null
+  metaDescription: string | null
+  isPublished: boolean | null
+  publishedAt: string | null
+  scheduledPublishAt: string | null
+  scheduledUnpublishAt: string | null
+  donationEnabled: boolean | null
+  donationGoal: number | null
+  donationRaised: number | null
+  toyyibpayCategoryCode: string | null
+  revision: number
+}
+
+// A save refused because someone else saved first
+type PendingConflict = {
+  info: EditConflict
+  result: MergeResult<FormData>
+  theirs: ProjectRecord
+}
+
+function toFormData(project: ProjectRecord): FormData {
+  return {
+    title: project.title || '',
+    slug: project.slug || '',
+    subtitle: project.subtitle || '',
+    description: project.description || '',
+    content: project.content || '',
+    featuredImage: project.featuredImage || '',
+    category: project.category || '',
+    status: project.status || 'planned',
+    startDate: project.startDate ? new Date(project.startDate).toISOString().split('T')[0] : '',
+    endDate: project.endDate ? new Date(project.endDate).toISOString().split('T')[0] : '',
+    budget: project.budget || '',
+    beneficiaries: project.beneficiaries?.toString() || '',
+    location: project.location || '',
+    metaTitle: project.metaTitle || '',
+    metaDescription: project.metaDescription || '',
+    isPublished: project.isPublished || false,
+    // Donation configuration
+    donationEnabled: project.donationEnabled || false,
+    donationGoal: project.donationGoal ? (project.donationGoal / 100).toString() : '',
+    donationRaised: project.donationRaised || 0,
+    toyyibpayCategoryCode: project.toyyibpayCategoryCode || '',
+  }
+}
+
+function toPublishing(project: ProjectRecord) {
+  return {
+    publishedAt: project.publishedAt ? new Date(project.publishedAt) : null,
+    publishAt: project.scheduledPublishAt ? new Date(project.scheduledPublishAt) : null,
+    unpublishAt: project.scheduledUnpublishAt ? new Date(project.scheduledUnpublishAt) : null,
+  }
+}
+
+// Fields reviewers can comment on
+const REVIEW_FIELDS = [
+  { key: 'title', label: 'Title' },
+  { key: 'slug', label: 'Slug' },
+  { key: 'subtitle', label: 'Subtitle' },
+  { key: 'description', label: 'Description' },
+  { key: 'content', label: 'Content' },
+  { key: 'featuredImage', label: 'Featured image' },
+  { key: 'location', label: 'Location' },
+  { key: 'budget', label: 'Budget' },
+  { key: 'donationGoal', label: 'Donation goal' },
+  { key: 'metaTitle', label: 'Meta title' },
+  { key: 'metaDescription', label: 'Meta description' },
+]
+
 export default function ProjectEditor({ params }: { params: Promise<{ id: string }> }) {
   const resolvedParams = use(params)
   const isNew = resolvedParams.id === 'new'
@@ -24,30 +142,24 @@ export default function ProjectEditor({ params }: { params: Promise<{ id: string
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
   const [showMarkdownHelp, setShowMarkdownHelp] = useState(false)
 
-  const [formData, setFormData] = useState({
-    title: '',
-    slug: '',
-    subtitle: '',
-    description: '',
-    content: '',
-    featuredImage: '',
-    category: '',
-    status: 'planned',
-    startDate: '',
-    endDate: '',
-    budget: '',
-    beneficiaries: '',
-    location: '',
-    metaTitle: '',
-    metaDescription: '',
-    isPublished: false,
-    // Donation configuration
-    donationEnabled: false,
-    donationGoal: '',
-    donationRaised: 0,
-    toyyibpayCategoryCode: '',
-  })
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM)
   const [isCreatingCategory, setIsCreatingCategory] = useState(false)
+  const [publishing, setPublishing] = useState<{
+    publishedAt: Date | null
+    publishAt: Date | null
+    unpublishAt: Date | null
+  }>({ publishedAt: null, publishAt: null, unpublishAt: null })
+
+  // Revision of the project as loaded or last saved, and the project as it was then
+  const [revision, setRevision] = useState(1)
+  const [baseData, setBaseData] = useState<FormData | null>(null)
+  const [conflict, setConflict] = useState<PendingConflict | null>(null)
+
+  const editLease = useEditLease({
+    contentType: 'projects',
+    contentId: resolvedParams.id,
+    enabled: !isNew,
+  })
 
   useEffect(() => {
     if (!isNew) {
@@ -55,31 +167,13 @@ export default function ProjectEditor({ params }: { params: Promise<{ id: string
         try {
           const response = await fetch(`/api/projects/${resolvedParams.id}`)
           if (response.ok) {
-            const project = await response.json()
+            const project: ProjectRecord | null = await response.json()
             if (project) {
-              setFormData({
-                title: project.title || '',
-                slug: project.slug || '',
-                subtitle: project.subtitle || '',
-                description: project.description || '',
-                content: project.content || '',
-                featuredImage: project.featuredImage || '',
-                category: project.category || '',
-                status: project.status || 'planned',
-                startDate: project.startDate ? new Date(project.startDate).toISOString().split('T')[0] : '',
-                endDate: project.endDate ? new Date(project.endDate).toISOString().split('T')[0] : '',
-                budget: project.budget || '',
-                beneficiaries: project.beneficiaries?.toString() || '',
-                location: project.location || '',
-                metaTitle: project.metaTitle || '',
-                metaDescription: project.metaDescription || '',
-                isPublished: project.isPublished || false,
-                // Donation configuration
-                donationEnabled: project.donationEnabled || false,
-                donationGoal: project.donationGoal ? (project.donationGoal / 100).toString() : '',
-                donationRaised: project.donationRaised || 0,
-                toyyibpayCategoryCode: project.toyyibpayCategoryCode || '',
-              })
+              const data = toFormData(project)
+              setFormData(data)
+              setPublishing(toPublishing(project))
+              setRevision(project.revision)
+              setBaseData(data)
             }
           }
         } catch (error) {
@@ -92,6 +186,50 @@ export default function ProjectEditor({ params }: { params: Promise<{ id: string
     }
   }, [isNew, resolvedParams.id])
 
+  // Someone else saved since we loaded the project: merge their changes into ours
+  const handleConflict = async (mine: FormData, info: EditConflict) => {
+    const response = await fetch(`/api/projects/${resolvedParams.id}`, { cache: 'no-store' })
+    if (!response.ok) throw new Error('Failed to load the latest version of the project')
+    const project: ProjectRecord = await response.json()
+    const theirs = toFormData(project)
+    const result = mergeContent(baseData ?? theirs, mine, theirs)
+
+    if (result.conflicts.length > 0) {
+      setConflict({ info, result, theirs: project })
+      return
+    }
+    setFormData(result.merged)
+    setPublishing(toPublishing(project))
+    setRevision(project.revision)
+    setBaseData(theirs)
+    setMessage({
+      type: 'success',
+      text: `${info.changedByName || 'Someone'} saved this project while you were editing. Their changes are merged in; save again to keep yours.`,
+    })
+  }
+
+  const handleResolveConflict = (choices: Record<string, ConflictChoice>) => {
+    if (!conflict) return
+    setFormData(resolveMerge(conflict.result, choices))
+    setPublishing(toPublishing(conflict.theirs))
+    setRevision(conflict.theirs.revision)
+    setBaseData(toFormData(conflict.theirs))
+    setConflict(null)
+    setMessage({ type: 'success', text: 'Changes merged. Review the project, then save.' })
+  }
+
+  const handleTakeOver = async () => {
+    try {
+      const result = await editLease.takeOver()
+      if (!result.success) {
+        setMessage({ type: 'error', text: result.error || 'Failed to take over editing' })
+      }
+    } catch (error) {
+      console.error('Failed to take over editing:', error)
+      setMessage({ type: 'error', text: 'Failed to take over editing. Please try again.' })
+    }
+  }
+
   const handleTitleChange = (title: string) => {
     setFormData({
       ...formData,
@@ -144,14 +282,30 @@ export default function ProjectEditor({ params }: { params: Promise<{ id: string
           if (result.success) {
             setMessage({ type: 'success', text: 'Project created successfully!' })
             router.push('/admin/dashboard/projects')
+          } else {
+            setMessage({ type: 'error', text: result.error || 'Failed to create project' })
           }
         } else {
-          const result = await updateProject(resolvedParams.id, data)
+          const result = await updateProject(resolvedParams.id, data, { baseRevision: revision })
           if (result.success) {
-            setMessage({ type: 'success', text: 'Project updated successfully!' })
-            if (publish !== undefined) {
+            setMessage({
+              type: 'success',
+              text: result.pendingReview ? 'Changes saved. They go live once another admin approves them.' : 'Project updated successfully!',
+            })
+            setRevision(result.revision ?? revision)
+            setBaseData(formData)
+            if (publish !== undefined && publish !== formData.isPublished) {
               setFormData({ ...formData, isPublished: publish })
+              // Publishing by hand replaces the matching schedule
+              setPublishing({
+                ...publishing,
+                ...(publish ? { publishAt: null } : { unpublishAt: null }),
+              })
             }
+          } else if (result.conflict) {
+            await handleConflict(formData, result.conflict)
+          } else {
+            setMessage({ type: 'error', text: result.error || 'Failed to save project' })
           }
         }
       } catch (error) {
@@ -161,6 +315,28 @@ export default function ProjectEditor({ params }: { params: Promise<{ id: string
     })
   }
 
+  const saveSchedule = (schedule: { publishAt: Date | null; unpublishAt: Date | null }, successText: string) => {
+    setMessage(null)
+    startTransition(async () => {
+      try {
+        const result = await setProjectSchedule(resolvedParams.id, schedule)
+        if (result.success) {
+          setPublishing({ ...publishing, ...schedule })
+          // Skip the revision if someone else saved in between, so our next save merges their changes
+          if (result.revision === revision + 1) {
+            setRevision(result.revision)
+          }
+          setMessage({ type: 'success', text: successText })
+        } else {
+          setMessage({ type: 'error', text: result.error || 'Failed to update schedule' })
+        }
+      } catch (error) {
+        console.error('Failed to update schedule:', error)
+        setMessage({ type: 'error', text: 'Failed to update schedule. Please try again.' })
+      }
+    })
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -203,6 +379,28 @@ export default function ProjectEditor({ params }: { params: Promise<{ id: string
         </div>
       </div>
 
+      <EditLeaseBanner
+        status={editLease.status}
+        lease={editLease.lease}
+        isTakingOver={editLease.isTakingOver}
+        onTakeOver={handleTakeOver}
+        noun="project"
+        className="mb-6 rounded-xl border"
+      />
+
+      {/* Conflicting Changes Dialog */}
+      <AnimatePresence>
+        {conflict && (
+          <EditConflictDialog
+            conflicts={conflict.result.conflicts}
+            changedByName={conflict.info.changedByName}
+            changedAt={conflict.info.updatedAt}
+            fields={REVIEW_FIELDS}
+            onResolve={handleResolveConflict}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Message */}
       {message && (
         <motion.div
@@ -394,6 +592,51 @@ Create forms in the Forms section of the admin panel."
             </div>
           </div>
 
+          {/* Publishing schedule (once the project exists) */}
+          {!isNew && (
+            <PublishScheduler
+              isPublished={formData.isPublished}
+              publishedAt={publishing.publishedAt}
+              scheduledFor={publishing.publishAt}
+              scheduledUnpublishAt={publishing.unpublishAt}
+              onPublish={() => handleSave(true)}
+              onUnpublish={() => handleSave(false)}
+              onSchedule={(date) => saveSchedule(
+                { publishAt: date, unpublishAt: publishing.unpublishAt },
+                `Scheduled for ${date.toLocaleString()}`
+              )}
+              onCancelSchedule={() => saveSchedule(
+                { publishAt: null, unpublishAt: formData.isPublished ? publishing.unpublishAt : null },
+                'Schedule cancelled'
+              )}
+              onScheduleUnpublish={(date) => saveSchedule(
+                { publishAt: publishing.publishAt, unpublishAt: date },
+                `Scheduled to unpublish ${date.toLocaleString()}`
+              )}
+              onCancelUnpublishSchedule={() => saveSchedule(
+                { publishAt: publishing.publishAt, unpublishAt: null },
+                'Schedule cancelled'
+              )}
+              itemLabel="project"
+              isPending={isPending}
+            />
+          )}
+
+          {/* Editorial review */}
+          {!isNew && (
+            <ReviewPanel
+              contentType="projects"
+              contentId={resolvedParams.id}
+              fields={REVIEW_FIELDS}
+              isPublished={formData.isPublished}
+            />
+          )}
+
+          {/* Shareable preview */}
+          {!isNew && (
+            <PreviewLinksPanel contentType="projects" contentId={resolvedParams.id} />
+          )}
+
           {/* Donation Settings */}
           <div className="bg-white rounded-2xl p-6 border border-gray-100">
             <div className="flex items-center gap-2 mb-4">
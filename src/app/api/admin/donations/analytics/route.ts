@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { getDonationAnalytics, parseAnalyticsInterval } from '@/lib/donation-analytics'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Donation Analytics
+ *
+ * GET - Trends, breakdowns, first-time vs repeat donors and retention
+ *       cohorts. Takes the donations list filters (status, project, fund,
+ *       search, from, to, environment) plus interval=day|week|month.
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth()
+  } catch {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = request.nextUrl
+    const analytics = await getDonationAnalytics(
+      {
+        status: searchParams.get('status') || undefined,
+        project: searchParams.get('project') || undefined,
+        fund: searchParams.get('fund') || undefined,
+        search: searchParams.get('search') || undefined,
+        from: searchParams.get('from') || undefined,
+        to: searchParams.get('to') || undefined,
+        environment: searchParams.get('environment') || 'production',
+      },
+      parseAnalyticsInterval(searchParams.get('interval'))
+    )
+
+    return NextResponse.json({ success: true, analytics })
+  } catch (error) {
+    logger.error('Failed to load donation analytics', { error: error instanceof Error ? error.message : 'Unknown error' })
+    return NextResponse.json({ error: 'Failed to load analytics' }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { getAnnualStatementData } from '@/lib/receipt'
+import { renderAnnualStatementPdf } from '@/lib/annual-statements'
+
+/**
+ * Admin API: Annual Tax Statement Download
+ *
+ * GET - Consolidated statement PDF for one donor (?email=...&year=...)
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const email = searchParams.get('email')
+    const year = Number(searchParams.get('year'))
+
+    if (!email || !Number.isInteger(year)) {
+      return NextResponse.json(
+        { error: 'Donor email and year are required' },
+        { status: 400 }
+      )
+    }
+
+    const statementData = await getAnnualStatementData(email, year)
+
+    if (!statementData) {
+      return NextResponse.json(
+        { error: 'No completed donations found for this donor in the year' },
+        { status: 404 }
+      )
+    }
+
+    const pdfBuffer = await renderAnnualStatementPdf(statementData)
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="YIP-Statement-${statementData.statementNumber}.pdf"`,
+        'Content-Length': pdfBuffer.length.toString(),
+        'Cache-Control': 'private, no-cache, no-store, must-revalidate',
+      },
+    })
+  } catch (error) {
+    console.error('Annual statement generation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate statement. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { sendAnnualStatement, sendAnnualStatementBatch } from '@/lib/annual-statements'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Annual Tax Statements
+ *
+ * POST - Email consolidated statements for a year. With `email`, sends (or
+ *        resends) one donor's statement; otherwise sends the next batch of
+ *        unsent statements and returns how many remain.
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+export async function POST(request: NextRequest) {
+  const requestId = `stmt_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
+  const operation = logger.startOperation('sendAnnualStatements', { requestId })
+
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const year = Number(body.year)
+
+    if (!Number.isInteger(year) || year < 2000 || year > new Date().getFullYear()) {
+      return NextResponse.json(
+        { error: 'Invalid year' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof body.email === 'string' && body.email.trim()) {
+      const result = await sendAnnualStatement(body.email, year, user.email)
+
+      if (!result.success) {
+        operation.failure(new Error(result.error || 'Failed to send statement'), { year })
+        return NextResponse.json(
+          { error: result.error || 'Failed to send statement' },
+          { status: result.reason === 'no_api_key' ? 503 : 400 }
+        )
+      }
+
+      operation.success('Annual statement sent', { year })
+      return NextResponse.json({
+        success: true,
+        message: 'Statement sent',
+      })
+    }
+
+    const result = await sendAnnualStatementBatch(year, user.email, {
+      retryFailed: body.retryFailed === true,
+    })
+
+    if (!result.success) {
+      operation.failure(new Error(result.error || 'Failed to send statements'), { year })
+      return NextResponse.json(
+        { error: result.error || 'Failed to send statements' },
+        { status: 503 }
+      )
+    }
+
+    operation.success('Annual statement batch sent', { year, sent: result.sent, failed: result.failed })
+
+    return NextResponse.json({
+      success: true,
+      message: `Sent ${result.sent} statement(s)${result.failed > 0 ? `, ${result.failed} failed` : ''}`,
+      sent: result.sent,
+      failed: result.failed,
+      remaining: result.remaining,
+    })
+  } catch (error) {
+    operation.failure(error instanceof Error ? error : new Error('Unknown error'))
+    logger.error('Failed to send annual statements', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return NextResponse.json(
+      { error: 'Failed to send annual statements' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { resolveStatementLine, type StatementLineAction } from '@/lib/bank-statements'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Resolve Bank Statement Line
+ *
+ * POST - Match a statement line to a pending/offline donation, create an
+ *        offline donation from it, or ignore it
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+const ACTIONS: StatementLineAction[] = ['match', 'create', 'ignore']
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = `bankline_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
+  const operation = logger.startOperation('resolveStatementLine', { requestId })
+
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { row, action, donationReference, donorName, donorEmail, projectId, sendReceipt = true } = body
+
+    if (typeof row !== 'number') {
+      return NextResponse.json(
+        { error: 'Statement row is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: 'Invalid action' },
+        { status: 400 }
+      )
+    }
+
+    const result = await resolveStatementLine({
+      importId: id,
+      row,
+      action,
+      resolvedBy: user.email,
+      donationReference: typeof donationReference === 'string' ? donationReference : undefined,
+      donorName: typeof donorName === 'string' ? donorName.substring(0, 200) : undefined,
+      donorEmail: typeof donorEmail === 'string' && donorEmail.trim() ? donorEmail.trim().toLowerCase() : null,
+      projectId: typeof projectId === 'string' && projectId ? projectId : null,
+      sendReceipt: sendReceipt !== false,
+    })
+
+    if (!result.success) {
+      operation.failure(new Error(result.error || 'Failed to resolve line'), { importId: id, row })
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    operation.success('Statement line resolved', { importId: id, row, action })
+
+    return NextResponse.json({
+      success: true,
+      message: result.message,
+      reference: result.paymentReference,
+    })
+  } catch (error) {
+    operation.failure(error instanceof Error ? error : new Error('Unknown error'))
+    logger.error('Failed to resolve statement line', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return NextResponse.json(
+      { error: 'Failed to resolve statement line' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { enforceTrustedOrigin } from '@/lib/security/request'
+import { importBankStatement, BankStatementParseError } from '@/lib/bank-statements'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Bank Statement Import
+ *
+ * POST - Upload a Maybank/CIMB statement CSV (multipart `file`). Credit
+ *        lines are stored for matching on the bank import page.
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024
+
+export async function POST(request: NextRequest) {
+  const originCheck = enforceTrustedOrigin(request)
+  if (originCheck) return originCheck
+
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'No statement file provided' },
+        { status: 400 }
+      )
+    }
+
+    if (!file.name.toLowerCase().endsWith('.csv')) {
+      return NextResponse.json(
+        { error: 'Statements must be uploaded as CSV. Download the CSV version from internet banking.' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_STATEMENT_SIZE) {
+      return NextResponse.json(
+        { error: 'Statement file must be less than 5MB' },
+        { status: 400 }
+      )
+    }
+
+    const result = await importBankStatement({
+      text: await file.text(),
+      fileName: file.name,
+      importedBy: user.email,
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: `Imported ${result.lineCount} incoming transfer(s)`,
+      ...result,
+    })
+  } catch (error) {
+    if (error instanceof BankStatementParseError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Failed to import bank statement', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return NextResponse.json(
+      { error: 'Failed to import bank statement' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { eq } from 'drizzle-orm'
+import { db, donations } from '@/db'
+import { requireAuth } from '@/lib/auth/server'
+import { getProof } from '@/lib/offline-proofs'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Offline Donation Proof of Payment
+ *
+ * GET ?reference= - Streams the bank slip or cheque image attached to an
+ * offline donation from the private proofs bucket.
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const reference = request.nextUrl.searchParams.get('reference')
+  if (!reference) {
+    return NextResponse.json(
+      { error: 'Payment reference is required' },
+      { status: 400 }
+    )
+  }
+
+  const donation = await db.query.donations.findFirst({
+    where: eq(donations.paymentReference, reference),
+    columns: { proofFileId: true },
+  })
+
+  if (!donation?.proofFileId) {
+    return NextResponse.json(
+      { error: 'Proof of payment not found' },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const proof = await getProof(donation.proofFileId)
+    return new NextResponse(proof.content, {
+      status: 200,
+      headers: {
+        'Content-Type': proof.mimeType,
+        'Content-Disposition': `inline; filename="${proof.name.replace(/["\\\r\n]/g, '')}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (error) {
+    logger.error('Failed to load proof of payment', {
+      reference,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return NextResponse.json(
+      { error: 'Failed to load proof of payment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { approveOfflineDonation, rejectOfflineDonation } from '@/lib/offline-donations'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Review Offline Donation
+ *
+ * Approves or rejects an offline donation awaiting approval. Approval
+ * completes the donation, issues its receipt, adds it to the project total
+ * and (optionally) emails the donor their receipt.
+ *
+ * SECURITY: Requires admin authentication. The approver must not be the
+ * admin who recorded the donation.
+ */
+
+export async function POST(request: NextRequest) {
+  const requestId = `review_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
+  const operation = logger.startOperation('reviewOfflineDonation', { requestId })
+
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { reference, action, reason, sendReceipt = true } = body
+
+    if (!reference) {
+      return NextResponse.json(
+        { error: 'Payment reference is required' },
+        { status: 400 }
+      )
+    }
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { error: 'Action must be approve or reject' },
+        { status: 400 }
+      )
+    }
+
+    if (action === 'reject' && (!reason || typeof reason !== 'string' || !reason.trim())) {
+      return NextResponse.json(
+        { error: 'A rejection reason is required' },
+        { status: 400 }
+      )
+    }
+
+    logger.info('Reviewing offline donation', { requestId, reference, action })
+
+    const result = action === 'approve'
+      ? await approveOfflineDonation(reference, user.email, { sendReceipt: sendReceipt !== false })
+      : await rejectOfflineDonation(reference, user.email, reason.trim().substring(0, 500))
+
+    if (!result.success) {
+      operation.failure(new Error(result.error || 'Review failed'), { reference })
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    operation.success(`Offline donation ${action === 'approve' ? 'approved' : 'rejected'}`, { reference })
+
+    return NextResponse.json({
+      success: true,
+      message: action === 'approve'
+        ? `Donation approved with receipt ${result.receiptNumber}`
+        : 'Donation rejected',
+      receiptNumber: result.receiptNumber,
+      emailSent: result.emailSent,
+    })
+  } catch (error) {
+    operation.failure(error instanceof Error ? error : new Error('Unknown error'))
+    logger.error('Failed to review offline donation', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return NextResponse.json(
+      { error: 'Failed to review offline donation' },
+      { status: 500 }
+    )
+  }
+}
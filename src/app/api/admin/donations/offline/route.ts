@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { enforceTrustedOrigin } from '@/lib/security/request'
+import {
+  isOfflinePaymentMethod,
+  recordOfflineDonation,
+  requiresProofOfPayment,
+} from '@/lib/offline-donations'
+import { isProofStorageConfigured, MAX_PROOF_SIZE, uploadProof } from '@/lib/offline-proofs'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Record Offline Donation
+ *
+ * Records a bank transfer, cash or cheque donation received outside the
+ * payment gateway. Accepts multipart form data with an optional `proof`
+ * file (image or PDF) that is stored in the private proofs bucket and served
+ * to admins by ./proof. The donation only counts
+ * once another admin approves it (see ./review).
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+function getString(formData: FormData, key: string): string {
+  const value = formData.get(key)
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+export async function POST(request: NextRequest) {
+  const originCheck = enforceTrustedOrigin(request)
+  if (originCheck) return originCheck
+
+  const requestId = `offline_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
+  const operation = logger.startOperation('recordOfflineDonation', { requestId })
+
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const formData = await request.formData()
+
+    const donorName = getString(formData, 'donorName')
+    const donorEmail = getString(formData, 'donorEmail')
+    const amount = parseFloat(getString(formData, 'amount'))
+    const paymentMethod = getString(formData, 'paymentMethod')
+    const receivedAt = new Date(getString(formData, 'receivedAt'))
+    const proof = formData.get('proof')
+    const proofFile = proof instanceof File && proof.size > 0 ? proof : null
+
+    if (!donorName) {
+      return NextResponse.json(
+        { error: 'Donor name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (donorEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(donorEmail)) {
+      return NextResponse.json(
+        { error: 'Invalid donor email' },
+        { status: 400 }
+      )
+    }
+
+    // Amount is sent in RM
+    if (!Number.isFinite(amount) || amount < 1) {
+      return NextResponse.json(
+        { error: 'Amount must be at least RM 1.00' },
+        { status: 400 }
+      )
+    }
+
+    if (!isOfflinePaymentMethod(paymentMethod)) {
+      return NextResponse.json(
+        { error: 'Payment method must be bank transfer, cash or cheque' },
+        { status: 400 }
+      )
+    }
+
+    if (Number.isNaN(receivedAt.getTime())) {
+      return NextResponse.json(
+        { error: 'Date received is required' },
+        { status: 400 }
+      )
+    }
+
+    if (requiresProofOfPayment(paymentMethod) && !proofFile) {
+      return NextResponse.json(
+        { error: 'Please attach proof of payment (bank slip, screenshot or cheque image)' },
+        { status: 400 }
+      )
+    }
+
+    // ===== PROOF OF PAYMENT UPLOAD =====
+
+    let proofFileId: string | null = null
+    if (proofFile) {
+      if (!proofFile.type.startsWith('image/') && proofFile.type !== 'application/pdf') {
+        return NextResponse.json(
+          { error: 'Proof of payment must be an image or PDF' },
+          { status: 400 }
+        )
+      }
+
+      if (proofFile.size > MAX_PROOF_SIZE) {
+        return NextResponse.json(
+          { error: 'Proof of payment must be less than 10MB' },
+          { status: 400 }
+        )
+      }
+
+      if (!isProofStorageConfigured()) {
+        logger.error('APPWRITE_API_KEY or APPWRITE_PROOFS_BUCKET_ID is not configured', { requestId })
+        return NextResponse.json(
+          { error: 'Server configuration error. Please add APPWRITE_API_KEY and APPWRITE_PROOFS_BUCKET_ID to your environment.' },
+          { status: 500 }
+        )
+      }
+
+      proofFileId = await uploadProof(proofFile)
+    }
+
+    const result = await recordOfflineDonation({
+      donorName: donorName.substring(0, 200),
+      donorEmail: donorEmail.toLowerCase() || null,
+      donorPhone: getString(formData, 'donorPhone') || null,
+      amount: Math.round(amount * 100),
+      projectId: getString(formData, 'projectId') || null,
+      campaignId: getString(formData, 'campaignId') || null,
+      fundId: getString(formData, 'fundId') || null,
+      paymentMethod,
+      offlineReference: getString(formData, 'offlineReference').substring(0, 100) || null,
+      receivedAt,
+      proofFileId,
+      message: getString(formData, 'message').substring(0, 500) || null,
+      isAnonymous: getString(formData, 'isAnonymous') === 'true',
+      recordedBy: user.email,
+    })
+
+    if (!result.success) {
+      operation.failure(new Error(result.error || 'Failed to record offline donation'))
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    operation.success('Offline donation recorded', { reference: result.paymentReference })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Offline donation recorded and sent for approval',
+      reference: result.paymentReference,
+    })
+  } catch (error) {
+    operation.failure(error instanceof Error ? error : new Error('Unknown error'))
+    logger.error('Failed to record offline donation', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return NextResponse.json(
+      { error: 'Failed to record offline donation' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { auditReceiptNumbers } from '@/lib/receipt-register'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Receipt Number Audit
+ *
+ * GET - Duplicate receipt numbers, gaps in each year's sequence and
+ *       numbers not in the YIP-YYYY-NNNNNN format
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+export async function GET() {
+  try {
+    await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const issues = await auditReceiptNumbers()
+
+    return NextResponse.json({
+      success: true,
+      ...issues,
+    })
+  } catch (error) {
+    logger.error('Failed to audit receipt numbers', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return NextResponse.json(
+      { error: 'Failed to audit receipt numbers' },
+      { status: 500 }
+    )
+  }
+}
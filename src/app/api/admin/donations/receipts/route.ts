@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db, donations } from '@/db'
+import { eq } from 'drizzle-orm'
+import { requireAuth } from '@/lib/auth/server'
+import { getReceiptHistory, reissueReceipt, type ReceiptCorrections } from '@/lib/receipt-register'
+import { emailDonationReceipt } from '@/lib/offline-donations'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Receipt Register
+ *
+ * GET  - Every receipt issued for a donation (?reference=...)
+ * POST - Correct donor details and reissue the receipt under a new number.
+ *        The old receipt is kept in the register as replaced.
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const reference = request.nextUrl.searchParams.get('reference')
+  if (!reference) {
+    return NextResponse.json(
+      { error: 'Payment reference is required' },
+      { status: 400 }
+    )
+  }
+
+  const donation = await db.query.donations.findFirst({
+    where: eq(donations.paymentReference, reference),
+    columns: { id: true },
+  })
+
+  if (!donation) {
+    return NextResponse.json(
+      { error: 'Donation not found' },
+      { status: 404 }
+    )
+  }
+
+  const history = await getReceiptHistory(donation.id)
+
+  return NextResponse.json({
+    receipts: history.map(r => ({
+      receiptNumber: r.receiptNumber,
+      status: r.status,
+      donorName: r.snapshot.donorName,
+      amount: r.snapshot.amount,
+      currency: r.snapshot.currency,
+      issuedBy: r.issuedBy,
+      issuedAt: r.issuedAt,
+      voidReason: r.voidReason,
+      voidedBy: r.voidedBy,
+      voidedAt: r.voidedAt,
+      replacedBy: r.replacedByReceiptNumber,
+    })),
+  })
+}
+
+export async function POST(request: NextRequest) {
+  const requestId = `reissue_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
+  const operation = logger.startOperation('reissueReceipt', { requestId })
+
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { reference, reason, donorName, donorEmail, donorPhone, sendReceipt = true } = body
+
+    if (!reference) {
+      return NextResponse.json(
+        { error: 'Payment reference is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json(
+        { error: 'A reason for reissuing is required' },
+        { status: 400 }
+      )
+    }
+
+    if (donorEmail && (typeof donorEmail !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(donorEmail.trim()))) {
+      return NextResponse.json(
+        { error: 'Invalid donor email' },
+        { status: 400 }
+      )
+    }
+
+    const corrections: ReceiptCorrections = {}
+    if (typeof donorName === 'string' && donorName.trim()) corrections.donorName = donorName.trim().substring(0, 200)
+    if (typeof donorEmail === 'string' && donorEmail.trim()) corrections.donorEmail = donorEmail.trim().toLowerCase()
+    if (typeof donorPhone === 'string') corrections.donorPhone = donorPhone.trim().substring(0, 30) || null
+
+    const result = await reissueReceipt({
+      paymentReference: reference,
+      reason: reason.trim().substring(0, 500),
+      performedBy: user.email,
+      corrections,
+    })
+
+    if (!result.success) {
+      operation.failure(new Error(result.error || 'Failed to reissue receipt'), { reference })
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    const emailSent = sendReceipt !== false && result.donationId
+      ? await emailDonationReceipt(result.donationId, reference, 'receipt_reissue')
+      : false
+
+    operation.success('Receipt reissued', {
+      reference,
+      previousReceiptNumber: result.previousReceiptNumber,
+      receiptNumber: result.receiptNumber,
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: `Receipt ${result.previousReceiptNumber} replaced by ${result.receiptNumber}${emailSent ? ' and emailed to the donor' : ''}`,
+      receiptNumber: result.receiptNumber,
+      emailSent,
+    })
+  } catch (error) {
+    operation.failure(error instanceof Error ? error : new Error('Unknown error'))
+    logger.error('Failed to reissue receipt', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return NextResponse.json(
+      { error: 'Failed to reissue receipt' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db, reconciliationReports } from '@/db'
+import { eq } from 'drizzle-orm'
+import { requireAuth } from '@/lib/auth/server'
+import { reconciliationReportToCsv } from '@/lib/reconciliation'
+
+/**
+ * Admin API: Reconciliation Report
+ *
+ * GET - Report with discrepancy items, or CSV download with ?format=csv
+ *
+ * SECURITY: Requires admin authentication
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth()
+  } catch {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const { id } = await params
+  const report = await db.query.reconciliationReports.findFirst({
+    where: eq(reconciliationReports.id, id),
+  })
+
+  if (!report) {
+    return NextResponse.json({ error: 'Report not found' }, { status: 404 })
+  }
+
+  if (request.nextUrl.searchParams.get('format') === 'csv') {
+    const dateStr = report.startedAt.toISOString().split('T')[0]
+    return new NextResponse(reconciliationReportToCsv(report), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="reconciliation-${dateStr}-${report.id.substring(0, 8)}.csv"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    })
+  }
+
+  return NextResponse.json({ success: true, report })
+}
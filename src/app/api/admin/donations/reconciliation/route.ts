@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { db, reconciliationReports } from '@/db'
+import { desc } from 'drizzle-orm'
+import { requireAuth } from '@/lib/auth/server'
+import { runReconciliation } from '@/lib/reconciliation'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Donation Reconciliation
+ *
+ * GET  - Recent reconciliation reports (without discrepancy items)
+ * POST - Run a reconciliation now
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+export async function GET() {
+  try {
+    await requireAuth()
+  } catch {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const reports = await db.query.reconciliationReports.findMany({
+    columns: { items: false },
+    orderBy: [desc(reconciliationReports.startedAt)],
+    limit: 30,
+  })
+
+  return NextResponse.json({ success: true, reports })
+}
+
+export async function POST() {
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const operation = logger.startOperation('runReconciliation', { triggeredBy: user.email })
+
+  try {
+    const report = await runReconciliation({ trigger: 'manual', triggeredBy: user.email })
+
+    if (report.status !== 'completed') {
+      operation.failure(new Error(report.error || 'Reconciliation failed'))
+      return NextResponse.json(
+        { error: report.error || 'Reconciliation failed', reportId: report.id },
+        { status: 500 }
+      )
+    }
+
+    operation.success('Reconciliation completed', { reportId: report.id })
+
+    return NextResponse.json({
+      success: true,
+      message: `Checked ${report.checkedCount} donations, fixed ${report.fixedCount}, ${report.discrepancyCount} discrepancies`,
+      reportId: report.id,
+    })
+  } catch (error) {
+    operation.failure(error instanceof Error ? error : new Error('Unknown error'))
+    return NextResponse.json({ error: 'Failed to run reconciliation' }, { status: 500 })
+  }
+}
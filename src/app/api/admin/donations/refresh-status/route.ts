@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db, donations, donationLogs, projects } from '@/db'
-import { eq, sql } from 'drizzle-orm'
+import { and, eq, sql } from 'drizzle-orm'
 import { requireAuth } from '@/lib/auth/server'
-import { ToyyibPayService } from '@/lib/toyyibpay'
-import { generateReceiptNumber } from '@/lib/receipt'
+import { getPaymentGateway } from '@/lib/payments'
+import { assignReceiptNumber } from '@/lib/receipt'
+import { recordIssuedReceipt } from '@/lib/receipt-register'
 import { adminLogger as logger } from '@/lib/logger'
+import { onSubscriptionPaymentCompleted } from '@/lib/subscriptions'
+import { onFundraiserDonationCompleted } from '@/lib/fundraisers'
+import { onTributeDonationCompleted } from '@/lib/tributes'
 
 /**
  * Admin API: Refresh Payment Status
  *
- * Checks ToyyibPay API for the latest payment status and updates our database.
+ * Checks the payment gateway API for the latest payment status and updates our database.
  * This is useful when webhooks fail or for verifying pending payments.
  *
  * SECURITY: Requires admin authentication
@@ -21,7 +25,7 @@ export async function POST(request: NextRequest) {
 
   try {
     // Require admin authentication
-    await requireAuth()
+    const user = await requireAuth()
 
     const body = await request.json()
     const { reference } = body
@@ -47,18 +51,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // If already completed, no need to refresh
-    if (donation.paymentStatus === 'completed') {
+    // If already completed or refunded, no need to refresh. A refunded bill
+    // still shows as paid in ToyyibPay, which has no refund API.
+    if (donation.paymentStatus === 'completed' || donation.paymentStatus === 'refunded') {
       return NextResponse.json({
         success: true,
-        message: 'Payment already completed',
-        status: 'completed',
+        message: `Payment already ${donation.paymentStatus}`,
+        status: donation.paymentStatus,
         noChange: true,
       })
     }
 
-    // Check if ToyyibPay is configured
-    if (!ToyyibPayService.isConfigured()) {
+    // Check the gateway that issued this donation's bill is configured
+    const gateway = getPaymentGateway(donation.paymentGateway)
+    if (!gateway.isConfigured()) {
       return NextResponse.json(
         { error: 'Payment gateway not configured' },
         { status: 500 }
@@ -66,18 +72,18 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if we have a bill code
-    if (!donation.toyyibpayBillCode) {
+    if (!donation.gatewayBillCode) {
       return NextResponse.json(
-        { error: 'No ToyyibPay bill code found for this donation' },
+        { error: `No ${gateway.displayName} bill code found for this donation` },
         { status: 400 }
       )
     }
 
-    // Query ToyyibPay for transactions
-    const transactions = await ToyyibPayService.getBillTransactions(donation.toyyibpayBillCode)
+    // Query the gateway for transactions
+    const transactions = await gateway.getTransactions(donation.gatewayBillCode)
 
     if (!transactions || transactions.length === 0) {
-      logger.info('No transactions found in ToyyibPay', { requestId, reference })
+      logger.info('No transactions found in gateway', { requestId, reference, gateway: gateway.id })
 
       // Log the check
       await db.insert(donationLogs).values({
@@ -91,7 +97,7 @@ export async function POST(request: NextRequest) {
 
       return NextResponse.json({
         success: true,
-        message: 'No payment transactions found in ToyyibPay',
+        message: `No payment transactions found in ${gateway.displayName}`,
         status: donation.paymentStatus,
         noChange: true,
         details: 'The user may not have completed the payment process',
@@ -100,13 +106,14 @@ export async function POST(request: NextRequest) {
 
     // Get the latest transaction
     const latestTransaction = transactions[0]
-    const toyyibpayStatus = latestTransaction.billpaymentStatus
-    const mappedStatus = ToyyibPayService.mapPaymentStatus(toyyibpayStatus)
+    const gatewayStatus = latestTransaction.providerStatus
+    const mappedStatus = latestTransaction.status
 
-    logger.info('ToyyibPay status retrieved', {
+    logger.info('Gateway status retrieved', {
       requestId,
       reference,
-      toyyibpayStatus,
+      gateway: gateway.id,
+      gatewayStatus,
       mappedStatus,
       currentDbStatus: donation.paymentStatus,
     })
@@ -115,20 +122,31 @@ export async function POST(request: NextRequest) {
     if (mappedStatus !== donation.paymentStatus) {
       const updateData: Record<string, unknown> = {
         paymentStatus: mappedStatus,
-        toyyibpayTransactionId: latestTransaction.transactionId,
+        gatewayTransactionId: latestTransaction.transactionId,
       }
 
       // If now completed, set completed date and generate receipt
       if (mappedStatus === 'completed') {
-        const receiptNumber = await generateReceiptNumber()
         updateData.completedAt = new Date()
-        updateData.receiptNumber = receiptNumber
+        updateData.completionRecordedAt = updateData.completedAt
+
+        // Update donation, stamping the next receipt number in the same transaction
+        const receiptNumber = await assignReceiptNumber(
+          and(
+            eq(donations.id, donation.id),
+            eq(donations.paymentStatus, donation.paymentStatus || 'pending')
+          ),
+          updateData
+        )
+
+        if (!receiptNumber) {
+          return NextResponse.json(
+            { error: 'Donation was updated by another request. Please refresh and try again.' },
+            { status: 409 }
+          )
+        }
 
-        // Update donation
-        await db
-          .update(donations)
-          .set(updateData)
-          .where(eq(donations.id, donation.id))
+        await recordIssuedReceipt(reference, user.email)
 
         // Update project raised amount if applicable
         if (donation.projectId) {
@@ -140,6 +158,10 @@ export async function POST(request: NextRequest) {
             .where(eq(projects.id, donation.projectId))
         }
 
+        await onSubscriptionPaymentCompleted(donation)
+        await onFundraiserDonationCompleted(donation)
+        await onTributeDonationCompleted(donation)
+
         // Log the update
         await db.insert(donationLogs).values({
           donationId: donation.id,
@@ -147,7 +169,7 @@ export async function POST(request: NextRequest) {
           eventData: {
             previousStatus: donation.paymentStatus,
             newStatus: mappedStatus,
-            toyyibpayStatus,
+            gatewayStatus,
             transactionId: latestTransaction.transactionId,
             receiptNumber,
             refreshedBy: 'admin',
@@ -168,7 +190,7 @@ export async function POST(request: NextRequest) {
 
       // For other status changes (e.g., pending -> failed)
       if (mappedStatus === 'failed') {
-        updateData.failureReason = `ToyyibPay status: ${toyyibpayStatus}`
+        updateData.failureReason = `${gateway.displayName} status: ${gatewayStatus}`
       }
 
       await db
@@ -183,7 +205,7 @@ export async function POST(request: NextRequest) {
         eventData: {
           previousStatus: donation.paymentStatus,
           newStatus: mappedStatus,
-          toyyibpayStatus,
+          gatewayStatus,
           transactionId: latestTransaction.transactionId,
           refreshedBy: 'admin',
         },
@@ -208,7 +230,7 @@ export async function POST(request: NextRequest) {
       message: 'Payment status unchanged',
       status: donation.paymentStatus,
       noChange: true,
-      toyyibpayStatus,
+      gatewayStatus,
     })
 
   } catch (error) {
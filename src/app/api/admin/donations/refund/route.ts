@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { refundDonation, type RefundType } from '@/lib/refunds'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Refund / Chargeback
+ *
+ * Records a full or partial refund (or a bank chargeback) for a completed
+ * donation. Adjusts project totals, voids or reissues the receipt and
+ * emails the donor a confirmation.
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+const REFUND_TYPES: RefundType[] = ['refund', 'chargeback']
+
+export async function POST(request: NextRequest) {
+  const requestId = `refund_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
+  const operation = logger.startOperation('refundDonation', { requestId })
+
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { reference, amount, reason, type = 'refund', notifyDonor = true } = body
+
+    if (!reference) {
+      return NextResponse.json(
+        { error: 'Payment reference is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json(
+        { error: 'A refund reason is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!REFUND_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: 'Invalid refund type' },
+        { status: 400 }
+      )
+    }
+
+    // Amount is sent in RM; omit it for a full refund
+    if (amount !== undefined && amount !== null && (typeof amount !== 'number' || amount <= 0)) {
+      return NextResponse.json(
+        { error: 'Refund amount must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    logger.info('Processing refund', { requestId, reference, amount, type })
+
+    const result = await refundDonation({
+      reference,
+      amount: typeof amount === 'number' ? Math.round(amount * 100) : undefined,
+      reason: reason.trim().substring(0, 500),
+      type,
+      performedBy: user.email,
+      notifyDonor: notifyDonor !== false,
+    })
+
+    if (!result.success) {
+      operation.failure(new Error(result.error || 'Refund failed'), { reference })
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    operation.success('Refund recorded', { reference, isFullRefund: result.isFullRefund })
+
+    return NextResponse.json({
+      success: true,
+      message: result.isFullRefund
+        ? `Full ${type} recorded and receipt voided`
+        : `Partial ${type} recorded and receipt reissued as ${result.newReceiptNumber ?? '-'}`,
+      refundAmount: (result.refundAmount || 0) / 100,
+      isFullRefund: result.isFullRefund,
+      newReceiptNumber: result.newReceiptNumber,
+      emailSent: result.emailSent,
+    })
+  } catch (error) {
+    operation.failure(error instanceof Error ? error : new Error('Unknown error'))
+    logger.error('Failed to process refund', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return NextResponse.json(
+      { error: 'Failed to process refund' },
+      { status: 500 }
+    )
+  }
+}
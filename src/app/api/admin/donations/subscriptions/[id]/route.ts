@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { getSubscriptionWithCycles, updateSubscriptionStatus, type SubscriptionAction } from '@/lib/subscriptions'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Recurring Donation Subscription
+ *
+ * GET   - Subscription details with cycle history
+ * PATCH - Pause, resume or cancel a subscription
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+const VALID_ACTIONS: SubscriptionAction[] = ['pause', 'resume', 'cancel']
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth()
+  } catch {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const result = await getSubscriptionWithCycles(id)
+
+    if (!result) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    const { subscription, cycles } = result
+
+    return NextResponse.json({
+      success: true,
+      subscription: {
+        id: subscription.id,
+        status: subscription.status,
+        amount: subscription.amount / 100,
+        currency: subscription.currency,
+        frequency: subscription.frequency,
+        cycleCount: subscription.cycleCount,
+        nextBillingAt: subscription.nextBillingAt,
+        lastBilledAt: subscription.lastBilledAt,
+        pausedAt: subscription.pausedAt,
+        cancelledAt: subscription.cancelledAt,
+        cancellationReason: subscription.cancellationReason,
+        createdAt: subscription.createdAt,
+      },
+      cycles: cycles.map(cycle => ({
+        ...cycle,
+        amount: cycle.amount / 100,
+      })),
+    })
+  } catch (error) {
+    logger.error('Failed to fetch subscription', { error: error instanceof Error ? error.message : 'Unknown error' })
+    return NextResponse.json({ error: 'Failed to fetch subscription' }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const { action, reason } = await request.json()
+
+    if (!VALID_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    const result = await updateSubscriptionStatus(id, action, {
+      reason: reason || `Updated by ${user.email}`,
+      actor: 'admin',
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Subscription ${result.status}`,
+      status: result.status,
+    })
+  } catch (error) {
+    logger.error('Failed to update subscription', { error: error instanceof Error ? error.message : 'Unknown error' })
+    return NextResponse.json({ error: 'Failed to update subscription' }, { status: 500 })
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { reviewFundraiser, type FundraiserReviewAction } from '@/lib/fundraisers'
+import { logActivity } from '@/lib/versioning'
+import { adminLogger as logger } from '@/lib/logger'
+
+/**
+ * Admin API: Review Fundraiser Page
+ *
+ * Approves, rejects or closes a supporter fundraiser page from the
+ * moderation queue. Approval puts the page live; the owner is emailed when
+ * their page is approved or rejected.
+ *
+ * SECURITY: Requires admin authentication
+ */
+
+const ACTIONS: FundraiserReviewAction[] = ['approve', 'reject', 'close']
+
+export async function POST(request: NextRequest) {
+  const requestId = `fundraiser_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
+  const operation = logger.startOperation('reviewFundraiser', { requestId })
+
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { id, action, reason } = body
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json(
+        { error: 'Fundraiser id is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: 'Action must be approve, reject or close' },
+        { status: 400 }
+      )
+    }
+
+    if (action === 'reject' && (!reason || typeof reason !== 'string' || !reason.trim())) {
+      return NextResponse.json(
+        { error: 'A reason is required so the fundraiser can be told why' },
+        { status: 400 }
+      )
+    }
+
+    const result = await reviewFundraiser(
+      id,
+      action,
+      user.email,
+      action === 'reject' ? reason.trim().substring(0, 500) : undefined
+    )
+
+    if (!result.success || !result.fundraiser) {
+      operation.failure(new Error(result.error || 'Review failed'), { id })
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    const pastTense = action === 'approve' ? 'Approved' : action === 'reject' ? 'Rejected' : 'Closed'
+    await logActivity('fundraiser_review', `${pastTense} fundraiser: ${result.fundraiser.title}`, {
+      contentId: id,
+      contentTitle: result.fundraiser.title,
+      user: { id: user.id, email: user.email, name: user.name },
+      metadata: { action, reason: result.fundraiser.rejectionReason },
+    })
+
+    operation.success(`Fundraiser ${pastTense.toLowerCase()}`, { id })
+
+    return NextResponse.json({
+      success: true,
+      message: `Fundraiser ${pastTense.toLowerCase()}`,
+      status: result.fundraiser.status,
+    })
+  } catch (error) {
+    operation.failure(error instanceof Error ? error : new Error('Unknown error'))
+    logger.error('Failed to review fundraiser', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    return NextResponse.json(
+      { error: 'Failed to review fundraiser' },
+      { status: 500 }
+    )
+  }
+}
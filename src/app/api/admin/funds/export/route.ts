@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/server'
+import { fundBalancesToCsv, getFundBalances } from '@/lib/funds'
+
+/**
+ * Admin API: Fund Balances Export
+ *
+ * GET - CSV of received, refunded and net balance per designated fund.
+ * Production donations only unless ?environment=sandbox or all.
+ *
+ * SECURITY: Requires admin authentication
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth()
+  } catch {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const environment = request.nextUrl.searchParams.get('environment')
+  const balances = await getFundBalances(
+    environment === 'sandbox' || environment === 'all' ? environment : 'production'
+  )
+
+  const dateStr = new Date().toISOString().split('T')[0]
+  return new NextResponse(fundBalancesToCsv(balances), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="fund-balances-${dateStr}.csv"`,
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+    },
+  })
+}
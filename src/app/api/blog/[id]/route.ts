@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db, blogPosts } from '@/db'
 import { eq, and } from 'drizzle-orm'
 import { getSession } from '@/lib/auth/server'
+import { getHeldChanges } from '@/lib/editorial-review'
 import { RateLimiters } from '@/lib/api-rate-limit'
 
 // SECURITY: Public endpoint but only returns published posts for unauthenticated users
@@ -35,7 +36,8 @@ export async function GET(
       return NextResponse.json({ error: 'Post not found' }, { status: 404 })
     }
 
-    return NextResponse.json(post)
+    // Admins edit the live content with any changes held for review on top
+    return NextResponse.json(isAdmin ? { ...post, ...await getHeldChanges('blog_posts', post.id) } : post)
   } catch (error) {
     console.error('Failed to get blog post:', error)
     return NextResponse.json({ error: 'Failed to get post' }, { status: 500 })
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RateLimiters } from '@/lib/api-rate-limit'
+import { getCampaignPhase, getCampaignProgress, getPublishedCampaign } from '@/lib/campaigns'
+
+/**
+ * Public API: Campaign Progress
+ *
+ * GET - Live totals for a published campaign (amounts in cents), polled by
+ *       the campaign page's progress bar
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const rateLimitResponse = await RateLimiters.general(request)
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const { slug } = await params
+    const campaign = await getPublishedCampaign(slug)
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
+    }
+
+    const progress = await getCampaignProgress(campaign)
+
+    return NextResponse.json({
+      success: true,
+      phase: getCampaignPhase(campaign),
+      progress,
+    })
+  } catch (error) {
+    console.error('Failed to get campaign progress:', error)
+    return NextResponse.json({ error: 'Failed to get campaign progress' }, { status: 500 })
+  }
+}
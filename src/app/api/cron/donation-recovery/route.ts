@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { enforceCronSecret } from '@/lib/security/request'
+import { runDonationRecovery } from '@/lib/donation-recovery'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('Cron')
+
+/**
+ * Abandoned Donation Recovery
+ *
+ * Emails donors who left a donation unpaid a fresh bill link, following the
+ * delay and attempt limit in the `donationRecovery` site setting. Does
+ * nothing while recovery is switched off.
+ *
+ * SECURITY:
+ * - Requires `Authorization: Bearer <CRON_SECRET>` (sent by Vercel Cron)
+ * - GET so it is not subject to the middleware origin check for mutations
+ */
+export async function GET(request: NextRequest) {
+  const authCheck = enforceCronSecret(request)
+  if (authCheck) return authCheck
+
+  const operation = logger.startOperation('runDonationRecovery')
+
+  try {
+    const result = await runDonationRecovery()
+    operation.success(`Sent ${result.sent} recovery emails`, {
+      checked: result.checked,
+      failed: result.failed,
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error) {
+    operation.failure(error instanceof Error ? error : new Error('Unknown error'))
+    return NextResponse.json(
+      { error: 'Failed to run donation recovery' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { enforceCronSecret } from '@/lib/security/request'
+import { runReconciliation } from '@/lib/reconciliation'
+
+/**
+ * Nightly Donation Reconciliation
+ *
+ * Compares pending and recent donations with payment gateway transaction records,
+ * fixes missed webhook updates and stores a reconciliation report.
+ *
+ * SECURITY: Requires `Authorization: Bearer <CRON_SECRET>` (sent by Vercel Cron)
+ */
+export async function GET(request: NextRequest) {
+  const authCheck = enforceCronSecret(request)
+  if (authCheck) return authCheck
+
+  const report = await runReconciliation({ trigger: 'scheduled' })
+
+  return NextResponse.json({
+    success: report.status === 'completed',
+    reportId: report.id,
+    status: report.status,
+    checked: report.checkedCount,
+    fixed: report.fixedCount,
+    discrepancies: report.discrepancyCount,
+    error: report.error || undefined,
+  }, { status: report.status === 'completed' ? 200 : 500 })
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { enforceCronSecret } from '@/lib/security/request'
+import { runScheduledPublishing } from '@/lib/scheduled-publishing'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('Cron')
+
+/**
+ * Scheduled Publishing
+ *
+ * Publishes and unpublishes blog posts and projects whose scheduled time
+ * has passed.
+ *
+ * SECURITY:
+ * - Requires `Authorization: Bearer <CRON_SECRET>` (sent by Vercel Cron)
+ * - GET so it is not subject to the middleware origin check for mutations
+ */
+export async function GET(request: NextRequest) {
+  const authCheck = enforceCronSecret(request)
+  if (authCheck) return authCheck
+
+  const operation = logger.startOperation('runScheduledPublishing')
+
+  try {
+    const result = await runScheduledPublishing()
+    operation.success(`Published ${result.published}, unpublished ${result.unpublished}`, {
+      failed: result.failed,
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error) {
+    operation.failure(error instanceof Error ? error : new Error('Unknown error'))
+    return NextResponse.json(
+      { error: 'Failed to run scheduled publishing' },
+      { status: 500 }
+    )
+  }
+}
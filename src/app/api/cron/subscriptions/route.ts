@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { enforceCronSecret } from '@/lib/security/request'
+import { runDueSubscriptions } from '@/lib/subscriptions'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('Cron')
+
+/**
+ * Recurring Donation Scheduler
+ *
+ * Bills every active monthly subscription whose nextBillingAt has passed:
+ * creates the cycle donation + ToyyibPay bill and emails the pay link.
+ * Cycles left unpaid for a week are marked failed first.
+ *
+ * SECURITY:
+ * - Requires `Authorization: Bearer <CRON_SECRET>` (sent by Vercel Cron)
+ * - GET so it is not subject to the middleware origin check for mutations
+ */
+export async function GET(request: NextRequest) {
+  const authCheck = enforceCronSecret(request)
+  if (authCheck) return authCheck
+
+  const operation = logger.startOperation('runDueSubscriptions')
+
+  try {
+    const result = await runDueSubscriptions()
+    operation.success(`Billed ${result.processed - result.failed} subscriptions`, {
+      processed: result.processed,
+      failed: result.failed,
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error) {
+    operation.failure(error instanceof Error ? error : new Error('Unknown error'))
+    return NextResponse.json(
+      { error: 'Failed to run subscription billing' },
+      { status: 500 }
+    )
+  }
+}
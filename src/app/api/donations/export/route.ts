@@ -1,148 +1,183 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { db, donations, projects } from '@/db'
-import { desc, eq, and, gte, lte } from 'drizzle-orm'
-import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { requireAuth } from '@/lib/auth/server'
+import { adminLogger } from '@/lib/logger'
+import { enforceTrustedOrigin } from '@/lib/security/request'
+import {
+  createBookingExport,
+  getAccountingExport,
+  getDonationListSheet,
+  isBookingProfile,
+  parseExportFormat,
+  parseExportProfile,
+  sheetToCsv,
+  sheetsToXlsx,
+  toAccountingDate,
+  type AccountingExport,
+  type ExportFormat,
+  type ExportSheet,
+} from '@/lib/accounting-export'
 
 /**
  * Export Donations API
  *
- * Exports donations as CSV for admin reporting.
- * Only accessible to authenticated admins.
+ * GET - Download donations for admin reporting and the accountant.
+ *   ?profile=donations (default) - flat list matching the donation filters
+ *     (status, project, fund, from, to, environment)
+ *   ?profile=journal|monthly&exportId= - download an earlier booking
+ *     export's period again, without moving the watermark
+ *   ?format=csv (default) or xlsx
+ *
+ * POST - Make a new booking export of everything since the last one, which
+ *   moves the "exported up to" watermark.
+ *   Body: { profile: 'journal' | 'monthly', format, environment }
+ *
+ * SECURITY: Requires admin authentication; POST also checks the origin
  */
 
-interface ExportParams {
-  status?: string
-  project?: string
-  from?: string
-  to?: string
-  environment?: string
+async function fileResponse(sheet: ExportSheet, format: ExportFormat, basename: string) {
+  if (format === 'xlsx') {
+    return new NextResponse(await sheetsToXlsx([sheet]), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${basename}.xlsx"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    })
+  }
+
+  return new NextResponse(sheetToCsv(sheet), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${basename}.csv"`,
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+    },
+  })
 }
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url)
-    const params: ExportParams = {
-      status: searchParams.get('status') || undefined,
-      project: searchParams.get('project') || undefined,
-      from: searchParams.get('from') || undefined,
-      to: searchParams.get('to') || undefined,
-      environment: searchParams.get('environment') || 'production',
-    }
+// Booking exports cover one environment and never apply list filters,
+// otherwise filtered-out donations would fall behind the watermark
+async function bookingExportResponse(options: {
+  profile: 'journal' | 'monthly'
+  format: ExportFormat
+  environment: string
+  exportedBy: string
+  repeatOf?: AccountingExport
+}) {
+  const { profile, environment } = options
+  if (environment !== 'production' && environment !== 'sandbox') {
+    return NextResponse.json({ error: 'Choose production or sandbox for accounting exports' }, { status: 400 })
+  }
 
-    // Build query conditions
-    const conditions = []
+  const result = await createBookingExport(options)
+  if (!result) {
+    return NextResponse.json(
+      { error: 'Another export was made at the same time. Refresh and try again.' },
+      { status: 409 }
+    )
+  }
 
-    // Environment filter (default to production)
-    if (params.environment && params.environment !== 'all') {
-      conditions.push(eq(donations.environment, params.environment))
-    }
+  adminLogger.info('Accounting export downloaded', {
+    profile,
+    environment,
+    repeat: !!options.repeatOf,
+    entryCount: result.entryCount,
+    exportedBy: options.exportedBy,
+  })
+
+  const upTo = toAccountingDate(result.period.upTo)
+  const basename = profile === 'journal' ? `journal-${environment}-to-${upTo}` : `monthly-summary-${environment}-to-${upTo}`
+  return fileResponse(result.sheet, options.format, basename)
+}
 
-    // Status filter
-    if (params.status && params.status !== 'all') {
-      conditions.push(eq(donations.paymentStatus, params.status))
-    }
+export async function GET(request: NextRequest) {
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const profile = parseExportProfile(searchParams.get('profile'))
+  const format = parseExportFormat(searchParams.get('format'))
+  if (!profile || !format) {
+    return NextResponse.json({ error: 'Invalid export profile or format' }, { status: 400 })
+  }
 
-    // Project filter
-    if (params.project && params.project !== 'all') {
-      conditions.push(eq(donations.projectId, params.project))
+  try {
+    if (!isBookingProfile(profile)) {
+      const sheet = await getDonationListSheet({
+        status: searchParams.get('status') || undefined,
+        project: searchParams.get('project') || undefined,
+        fund: searchParams.get('fund') || undefined,
+        from: searchParams.get('from') || undefined,
+        to: searchParams.get('to') || undefined,
+        environment: searchParams.get('environment') || 'production',
+      })
+      return fileResponse(sheet, format, `donations-export-${new Date().toISOString().split('T')[0]}`)
     }
 
-    // Date range filter
-    if (params.from) {
-      conditions.push(gte(donations.createdAt, new Date(params.from)))
+    // A GET never moves the watermark, so it only downloads earlier exports
+    const exportId = searchParams.get('exportId')
+    if (!exportId) {
+      return NextResponse.json({ error: 'New accounting exports must be made with POST' }, { status: 405 })
     }
-    if (params.to) {
-      const toDate = new Date(params.to)
-      toDate.setHours(23, 59, 59, 999)
-      conditions.push(lte(donations.createdAt, toDate))
+    const repeatOf = await getAccountingExport(exportId)
+    if (!repeatOf) {
+      return NextResponse.json({ error: 'Export not found' }, { status: 404 })
     }
 
-    // Fetch donations with project info
-    const donationsList = await db.query.donations.findMany({
-      where: conditions.length > 0 ? and(...conditions) : undefined,
-      orderBy: [desc(donations.createdAt)],
+    return bookingExportResponse({
+      profile,
+      format,
+      environment: repeatOf.environment,
+      exportedBy: user.email,
+      repeatOf,
     })
-
-    // Get all projects for lookup
-    const projectsList = await db.query.projects.findMany({
-      columns: {
-        id: true,
-        title: true,
-      },
+  } catch (error) {
+    adminLogger.error('Donation export failed', {
+      profile,
+      error: error instanceof Error ? error.message : 'Unknown error',
     })
-
-    const projectMap = new Map(
-      projectsList.map(p => [
-        p.id,
-        typeof p.title === 'string' ? p.title : getLocalizedValue(p.title as LocalizedString, 'en')
-      ])
+    return NextResponse.json(
+      { error: 'Failed to export donations' },
+      { status: 500 }
     )
+  }
+}
 
-    // Generate CSV
-    const headers = [
-      'Receipt Number',
-      'Payment Reference',
-      'Date',
-      'Donor Name',
-      'Donor Email',
-      'Donor Phone',
-      'Amount (RM)',
-      'Project',
-      'Status',
-      'Environment',
-      'Payment Method',
-      'Transaction ID',
-      'Anonymous',
-      'Message',
-      'Completed At',
-    ]
-
-    const rows = donationsList.map(d => [
-      d.receiptNumber || '',
-      d.paymentReference || '',
-      d.createdAt ? new Date(d.createdAt).toISOString() : '',
-      d.isAnonymous ? 'Anonymous' : (d.donorName || ''),
-      d.donorEmail || '',
-      d.donorPhone || '',
-      (d.amount / 100).toFixed(2),
-      d.projectId ? (projectMap.get(d.projectId) || 'Unknown Project') : 'General Fund',
-      d.paymentStatus,
-      d.environment || 'unknown',
-      d.paymentMethod || 'toyyibpay',
-      d.toyyibpayTransactionId || '',
-      d.isAnonymous ? 'Yes' : 'No',
-      d.message ? `"${d.message.replace(/"/g, '""')}"` : '',
-      d.completedAt ? new Date(d.completedAt).toISOString() : '',
-    ])
-
-    // Build CSV content
-    const csvContent = [
-      headers.join(','),
-      ...rows.map(row => row.map(cell =>
-        // Escape cells that contain commas or quotes
-        typeof cell === 'string' && (cell.includes(',') || cell.includes('"') || cell.includes('\n'))
-          ? `"${cell.replace(/"/g, '""')}"`
-          : cell
-      ).join(','))
-    ].join('\n')
-
-    // Generate filename with date
-    const now = new Date()
-    const dateStr = now.toISOString().split('T')[0]
-    const filename = `donations-export-${dateStr}.csv`
-
-    // Return CSV response
-    return new NextResponse(csvContent, {
-      status: 200,
-      headers: {
-        'Content-Type': 'text/csv; charset=utf-8',
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Cache-Control': 'no-cache, no-store, must-revalidate',
-      },
-    })
+export async function POST(request: NextRequest) {
+  const originCheck = enforceTrustedOrigin(request)
+  if (originCheck) return originCheck
+
+  let user
+  try {
+    user = await requireAuth()
+  } catch {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
 
+  const body = await request.json().catch(() => null) as { profile?: string; format?: string; environment?: string } | null
+  const profile = parseExportProfile(body?.profile)
+  const format = parseExportFormat(body?.format)
+  if (!profile || !format || !isBookingProfile(profile)) {
+    return NextResponse.json({ error: 'Invalid export profile or format' }, { status: 400 })
+  }
+
+  try {
+    return await bookingExportResponse({
+      profile,
+      format,
+      environment: body?.environment || 'production',
+      exportedBy: user.email,
+    })
   } catch (error) {
-    console.error('Export error:', error)
+    adminLogger.error('Donation export failed', {
+      profile,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
     return NextResponse.json(
       { error: 'Failed to export donations' },
       { status: 500 }
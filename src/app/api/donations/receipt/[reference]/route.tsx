@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { renderToBuffer } from '@react-pdf/renderer'
-import { getReceiptData } from '@/lib/receipt'
+import { db, donations } from '@/db'
+import { eq } from 'drizzle-orm'
+import { getReceiptData, type ReceiptData } from '@/lib/receipt'
 import { ReceiptPDF } from '@/lib/receipt-pdf'
+import { getReceiptDataFromRecord, getReceiptHistory, getReceiptRecord, recordIssuedReceipt } from '@/lib/receipt-register'
 import React from 'react'
 
 /**
@@ -9,7 +12,31 @@ import React from 'react'
  *
  * Generates and returns a PDF receipt for a completed donation.
  * Only completed donations with a receipt number can generate receipts.
+ *
+ * Renders the donation's current valid receipt. `?receipt=<number>` renders
+ * an earlier receipt for the same donation from the receipt register,
+ * watermarked VOID if it has been voided or replaced. A fully refunded
+ * donation renders its voided receipt.
+ */
+
+/**
+ * Latest receipt of a refunded donation, which the register holds as voided
  */
+async function getVoidedReceiptData(reference: string): Promise<ReceiptData | null> {
+  const donation = await db.query.donations.findFirst({
+    where: eq(donations.paymentReference, reference),
+    columns: { id: true, paymentStatus: true },
+  })
+
+  if (!donation || donation.paymentStatus !== 'refunded') {
+    return null
+  }
+
+  const history = await getReceiptHistory(donation.id)
+  const latest = history[history.length - 1]
+
+  return latest ? getReceiptDataFromRecord(latest) : null
+}
 
 export async function GET(
   request: NextRequest,
@@ -25,8 +52,36 @@ export async function GET(
       )
     }
 
+    const requestedReceipt = request.nextUrl.searchParams.get('receipt')
+
     // Get receipt data
-    const receiptData = await getReceiptData(reference)
+    let receiptData: ReceiptData | null = null
+
+    if (requestedReceipt) {
+      // Only serve register entries that belong to this payment reference
+      const [record, donation] = await Promise.all([
+        getReceiptRecord(requestedReceipt),
+        db.query.donations.findFirst({
+          where: eq(donations.paymentReference, reference),
+          columns: { id: true },
+        }),
+      ])
+
+      if (record && donation && record.donationId === donation.id) {
+        receiptData = record.status === 'issued'
+          ? await getReceiptData(reference)
+          : getReceiptDataFromRecord(record)
+      }
+    } else {
+      receiptData = await getReceiptData(reference)
+
+      if (receiptData && receiptData.receiptNumber !== 'Pending') {
+        // Receipts issued before the register existed are added on first download
+        await recordIssuedReceipt(reference, 'system')
+      } else if (!receiptData) {
+        receiptData = await getVoidedReceiptData(reference)
+      }
+    }
 
     if (!receiptData) {
       return NextResponse.json(
@@ -52,7 +107,7 @@ export async function GET(
       status: 200,
       headers: {
         'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename="YIP-Receipt-${receiptData.receiptNumber}.pdf"`,
+        'Content-Disposition': `attachment; filename="YIP-Receipt-${receiptData.receiptNumber}${receiptData.voided ? '-VOID' : ''}.pdf"`,
         'Content-Length': pdfBuffer.length.toString(),
         'Cache-Control': 'private, no-cache, no-store, must-revalidate',
       },
@@ -1,14 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { db, donations, projects, donationLogs, siteSettings } from '@/db'
+import { db, donations, projects, donationLogs, siteSettings, donationSubscriptions } from '@/db'
 import { eq, desc, sql } from 'drizzle-orm'
 import { notifyDonationReceived } from '@/lib/actions/notifications'
-import { ToyyibPayService, ToyyibPayError } from '@/lib/toyyibpay'
+import { getActivePaymentGateway, PaymentGatewayError } from '@/lib/payments'
 import { headers } from 'next/headers'
 import { RateLimiters } from '@/lib/api-rate-limit'
 import { requireAuth } from '@/lib/auth/server'
 import { enforceTrustedOrigin } from '@/lib/security/request'
 import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
 import { donationLogger as logger } from '@/lib/logger'
+import { generateManageToken, onSubscriptionPaymentCompleted } from '@/lib/subscriptions'
+import { resolveDonationCampaign } from '@/lib/campaigns'
+import { onFundraiserDonationCompleted, resolveDonationFundraiser } from '@/lib/fundraisers'
+import { resolveDonationFund } from '@/lib/funds'
+import { findOrCreateDonor } from '@/lib/donors'
+import { resolveEmbedOrigin } from '@/lib/embed'
+import { onTributeDonationCompleted, toTributeValues, validateTribute, type TributeInput } from '@/lib/tributes'
 
 // Helper to get string from LocalizedString
 function getProjectTitle(title: unknown): string {
@@ -23,7 +30,7 @@ function getProjectTitle(title: unknown): string {
  * Donation API Routes
  *
  * Security measures:
- * - Server-side only ToyyibPay API calls
+ * - Server-side only payment gateway API calls
  * - Input validation and sanitization
  * - Rate limiting on donation creation
  * - Secure logging (no API keys in logs)
@@ -229,6 +236,7 @@ export async function POST(request: NextRequest) {
       projectId: body.projectId,
       isAnonymous: body.isAnonymous,
       hasEmail: !!body.donorEmail,
+      hasTribute: !!body.tribute,
     })
     const {
       donorName,
@@ -237,10 +245,17 @@ export async function POST(request: NextRequest) {
       amount,
       currency = 'MYR',
       projectId,
+      campaignId,
+      fundraiserId,
+      fundId,
+      embedOrigin,
       program,
       message,
+      tribute,
       isAnonymous = false,
+      recoveryEmailConsent = false,
       donationType = 'one-time',
+      locale = 'en',
     } = body
 
     // ===== INPUT VALIDATION =====
@@ -275,6 +290,21 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (donationType !== 'one-time' && donationType !== 'monthly') {
+      return NextResponse.json(
+        { error: 'Invalid donation type' },
+        { status: 400 }
+      )
+    }
+
+    // Monthly pay links are delivered by email, so anonymous donors still need one
+    if (donationType === 'monthly' && !donorEmail) {
+      return NextResponse.json(
+        { error: 'An email address is required for monthly donations' },
+        { status: 400 }
+      )
+    }
+
     // Validate email format
     if (donorEmail) {
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
@@ -297,10 +327,20 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Validate tribute dedication (if provided)
+    if (tribute) {
+      const tributeError = validateTribute(tribute)
+      if (tributeError) {
+        return NextResponse.json(
+          { error: tributeError },
+          { status: 400 }
+        )
+      }
+    }
+
     // ===== PROJECT VALIDATION =====
 
     let project = null
-    let categoryCode: string | null = null
 
     if (projectId) {
       project = await db.query.projects.findFirst({
@@ -320,10 +360,41 @@ export async function POST(request: NextRequest) {
           { status: 400 }
         )
       }
-
-      categoryCode = project.toyyibpayCategoryCode
     }
 
+    // Falls back to no campaign if the one chosen has ended or does not
+    // cover the project, rather than failing the donation
+    const attributedCampaignId = await resolveDonationCampaign(
+      typeof campaignId === 'string' ? campaignId : null,
+      projectId || null
+    )
+
+    // Likewise a fundraiser page only counts if it is live and raising for
+    // the chosen project
+    const attributedFundraiserId = await resolveDonationFundraiser(
+      typeof fundraiserId === 'string' ? fundraiserId : null,
+      projectId || null
+    )
+
+    // Zakat and waqf keep the donor's choice; sedekah to a project goes to
+    // the project's restricted fund if it has one
+    const designatedFundId = await resolveDonationFund(
+      typeof fundId === 'string' ? fundId : null,
+      projectId || null
+    )
+
+    // Widget donations are credited to the embedding site only if it is
+    // on the embed allowlist
+    const attributedEmbedOrigin = resolveEmbedOrigin(embedOrigin)
+
+    // Link to the donor's profile so repeat gifts show up together
+    const donorId = await findOrCreateDonor({
+      name: donorName,
+      email: donorEmail,
+      phone: donorPhone,
+      locale,
+    })
+
     // ===== GENERATE REFERENCES =====
 
     const sessionId = generateSessionId()
@@ -334,27 +405,63 @@ export async function POST(request: NextRequest) {
 
     const amountInCents = Math.round(amount * 100)
 
-    // Detect ToyyibPay environment (sandbox vs production)
-    const paymentEnvironment = ToyyibPayService.isConfigured()
-      ? ToyyibPayService.getEnvironment()
+    // Detect gateway environment (sandbox vs production)
+    const gateway = getActivePaymentGateway()
+    const paymentEnvironment = gateway.isConfigured()
+      ? gateway.getEnvironment()
       : 'production'
 
+    // Monthly donations start as a pending subscription; it becomes active
+    // once this first cycle is paid (see onSubscriptionPaymentCompleted)
+    let subscriptionId: string | null = null
+    if (donationType === 'monthly') {
+      const [subscription] = await db.insert(donationSubscriptions).values({
+        donorName: isAnonymous ? 'Anonymous' : donorName,
+        donorEmail,
+        donorPhone: donorPhone || null,
+        amount: amountInCents,
+        currency,
+        projectId: projectId || null,
+        program: program || null,
+        fundId: designatedFundId,
+        isAnonymous,
+        frequency: 'monthly',
+        status: 'pending',
+        cycleCount: 1,
+        manageToken: generateManageToken(),
+        locale: locale === 'ms' ? 'ms' : 'en',
+        environment: paymentEnvironment,
+      }).returning({ id: donationSubscriptions.id })
+      subscriptionId = subscription.id
+    }
+
     const [donation] = await db.insert(donations).values({
       donorName: isAnonymous ? 'Anonymous' : donorName,
       donorEmail: donorEmail || null,
       donorPhone: donorPhone || null,
+      donorId,
       amount: amountInCents,
       currency,
       projectId: projectId || null,
+      campaignId: attributedCampaignId,
+      fundraiserId: attributedFundraiserId,
+      fundId: designatedFundId,
+      embedOrigin: attributedEmbedOrigin,
       message: message ? `[${program || 'General'}] ${message}` : (program ? `[${program}]` : null),
       isAnonymous,
+      locale: locale === 'ms' ? 'ms' : 'en',
+      ...(tribute ? toTributeValues(tribute as TributeInput) : {}),
+      recoveryEmailConsent: recoveryEmailConsent === true,
       paymentStatus: 'pending',
       paymentReference,
       paymentAttempts: 1,
       environment: paymentEnvironment, // Track sandbox vs production
+      paymentGateway: gateway.id,
       sessionId,
       ipAddress: headersList.get('x-forwarded-for') || headersList.get('x-real-ip') || null,
       userAgent: headersList.get('user-agent') || null,
+      subscriptionId,
+      subscriptionCycle: subscriptionId ? 1 : null,
     }).returning()
 
     // Log donation created
@@ -362,20 +469,23 @@ export async function POST(request: NextRequest) {
       amount,
       currency,
       projectId,
+      campaignId: attributedCampaignId,
+      fundraiserId: attributedFundraiserId,
+      fundId: designatedFundId,
+      embedOrigin: attributedEmbedOrigin,
       isAnonymous,
+      tributeType: tribute ? (tribute as TributeInput).type : undefined,
       donationType,
+      subscriptionId,
     }, request)
 
-    // ===== TOYYIBPAY INTEGRATION =====
+    // ===== PAYMENT GATEWAY INTEGRATION =====
 
     // Get base URL dynamically - uses request origin for localhost testing
     const baseUrl = getBaseUrl(request)
     const successUrl = `${baseUrl}/donate/success?ref=${paymentReference}`
     const failedUrl = `${baseUrl}/donate/failed?ref=${paymentReference}`
-    const webhookSecret = process.env.TOYYIBPAY_WEBHOOK_SECRET
-    const callbackUrl = webhookSecret
-      ? `${baseUrl}/api/donations/webhook?token=${encodeURIComponent(webhookSecret)}`
-      : `${baseUrl}/api/donations/webhook`
+    const callbackUrl = gateway.getCallbackUrl(baseUrl)
 
     // Log the URLs being used for debugging
     logger.debug('Base URL configuration', {
@@ -385,63 +495,51 @@ export async function POST(request: NextRequest) {
       callbackUrl,
     })
 
-    // Check if ToyyibPay is configured
-    if (ToyyibPayService.isConfigured()) {
+    // Check if the payment gateway is configured
+    if (gateway.isConfigured()) {
       try {
-        // Get or create category code
-        if (!categoryCode) {
-          // Use General Fund category for non-project donations
-          categoryCode = await ToyyibPayService.getOrCreateGeneralFundCategory()
-        }
-
         // Create bill name (max 30 chars)
         const projectTitle = project ? getProjectTitle(project.title) : null
-        const billName = projectTitle
-          ? `Donation: ${projectTitle}`.substring(0, 30)
-          : 'Donation to YIP'.substring(0, 30)
+        const billName = subscriptionId
+          ? 'Monthly Donation #1'
+          : projectTitle
+            ? `Donation: ${projectTitle}`.substring(0, 30)
+            : 'Donation to YIP'.substring(0, 30)
 
         // Create bill description (max 100 chars)
         const billDescription = projectTitle
           ? `Donation for ${projectTitle} - ${program || 'General'}`.substring(0, 100)
           : `Donation to Yayasan Insan Prihatin - ${program || 'General Fund'}`.substring(0, 100)
 
-        // Create ToyyibPay bill
-        // For anonymous donations, use '0' for billPayorInfo to hide payer fields
-        // and provide placeholder values that ToyyibPay will accept
-        const billCode = await ToyyibPayService.createBill({
-          categoryCode,
-          billName,
-          billDescription,
-          billPriceSetting: '1', // Fixed price
-          billPayorInfo: isAnonymous ? '0' : '1', // Hide payer info for anonymous
-          billAmount: amountInCents, // Amount in cents
-          billReturnUrl: successUrl,
-          billCallbackUrl: callbackUrl,
-          billExternalReferenceNo: paymentReference,
-          billTo: isAnonymous ? 'Penderma' : donorName, // Use 'Penderma' (Donor in Malay) for anonymous
-          billEmail: donorEmail,
-          billPhone: donorPhone || '0123456789', // Use valid format placeholder
-          billContentEmail: `Thank you for your donation of RM ${amount.toFixed(2)} to Yayasan Insan Prihatin.${projectTitle ? ` This donation supports: ${projectTitle}` : ''}`,
-          billPaymentChannel: '0', // FPX only
-          billChargeToCustomer: '1', // Charge fee to customer
+        // Create gateway bill
+        const { billCode, paymentUrl, details } = await gateway.createBill({
+          reference: paymentReference,
+          amount: amountInCents, // Amount in cents
+          name: billName,
+          description: billDescription,
+          payerName: donorName,
+          payerEmail: donorEmail,
+          payerPhone: donorPhone,
+          isAnonymous,
+          projectId: project?.id,
+          returnUrl: successUrl,
+          callbackUrl,
+          emailContent: `Thank you for your donation of RM ${amount.toFixed(2)} to Yayasan Insan Prihatin.${projectTitle ? ` This donation supports: ${projectTitle}` : ''}`,
         })
 
         // Update donation with bill code
         await db
           .update(donations)
-          .set({ toyyibpayBillCode: billCode })
+          .set({ gatewayBillCode: billCode })
           .where(eq(donations.id, donation.id))
 
         // Log bill created
         await logDonationEvent(donation.id, 'bill_created', {
+          gateway: gateway.id,
           billCode,
-          categoryCode,
-          toyyibpayUrl: ToyyibPayService.getBaseUrl(),
+          ...details,
         }, request)
 
-        // Get payment URL
-        const paymentUrl = ToyyibPayService.getPaymentUrl(billCode)
-
         operation.success('Bill created', { billCode, paymentUrl })
         logger.info('Bill created successfully', {
           requestId,
@@ -457,17 +555,18 @@ export async function POST(request: NextRequest) {
           donationId: donation.id,
           paymentReference,
           redirectUrl: paymentUrl,
-          paymentMethod: 'toyyibpay',
+          paymentMethod: gateway.id,
         })
 
       } catch (error) {
-        const errorCode = error instanceof ToyyibPayError ? error.code : 'UNKNOWN'
+        const errorCode = error instanceof PaymentGatewayError ? error.code : 'UNKNOWN'
         const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-        const errorDetails = error instanceof ToyyibPayError ? error.details : undefined
+        const errorDetails = error instanceof PaymentGatewayError ? error.details : undefined
 
         operation.failure(error instanceof Error ? error : new Error(errorMessage))
-        logger.error('ToyyibPay error during donation', {
+        logger.error('Payment gateway error during donation', {
           requestId,
+          gateway: gateway.id,
           errorCode,
           errorMessage,
           errorDetails: errorDetails ? String(errorDetails) : undefined,
@@ -495,7 +594,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json(
           {
             error: userMessage,
-            details: error instanceof ToyyibPayError ? errorMessage : undefined,
+            details: error instanceof PaymentGatewayError ? errorMessage : undefined,
             code: errorCode,
           },
           { status: 500 }
@@ -507,7 +606,7 @@ export async function POST(request: NextRequest) {
 
     // If no payment gateway configured, return manual payment flow
     await logDonationEvent(donation.id, 'manual_payment', {
-      reason: 'ToyyibPay not configured',
+      reason: `${gateway.displayName} not configured`,
     }, request)
 
     return NextResponse.json({
@@ -592,6 +691,7 @@ export async function PATCH(request: NextRequest) {
 
     if (status === 'completed' && !donation.completedAt) {
       updateData.completedAt = new Date()
+      updateData.completionRecordedAt = updateData.completedAt
     }
 
     if (status === 'failed' && reason) {
@@ -622,6 +722,12 @@ export async function PATCH(request: NextRequest) {
         .where(eq(projects.id, donation.projectId))
     }
 
+    if (status === 'completed') {
+      await onSubscriptionPaymentCompleted(donation)
+      await onFundraiserDonationCompleted(donation)
+      await onTributeDonationCompleted(donation)
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Donation status updated',
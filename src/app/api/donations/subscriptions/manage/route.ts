@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db, donationSubscriptions } from '@/db'
+import { eq } from 'drizzle-orm'
+import { RateLimiters } from '@/lib/api-rate-limit'
+import { enforceTrustedOrigin } from '@/lib/security/request'
+import { getSubscriptionWithCycles, updateSubscriptionStatus, type SubscriptionAction } from '@/lib/subscriptions'
+import { donationLogger as logger } from '@/lib/logger'
+
+/**
+ * Donor API: Manage Recurring Donation
+ *
+ * Donors reach this through the link in every monthly pay-link email.
+ *
+ * SECURITY:
+ * - Access is granted only by the unguessable manageToken
+ * - Rate limited to slow down token guessing
+ * - Donors can pause, resume and cancel, but not change amounts
+ */
+
+const DONOR_ACTIONS: SubscriptionAction[] = ['pause', 'resume', 'cancel']
+
+async function findByToken(token: string | null) {
+  if (!token || token.length < 32) return null
+  return db.query.donationSubscriptions.findFirst({
+    where: eq(donationSubscriptions.manageToken, token),
+  })
+}
+
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await RateLimiters.formSubmission(request)
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const subscription = await findByToken(request.nextUrl.searchParams.get('token'))
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    const result = await getSubscriptionWithCycles(subscription.id)
+
+    return NextResponse.json({
+      success: true,
+      subscription: {
+        status: subscription.status,
+        amount: subscription.amount / 100,
+        currency: subscription.currency,
+        nextBillingAt: subscription.nextBillingAt,
+        createdAt: subscription.createdAt,
+      },
+      cycles: (result?.cycles || []).map(cycle => ({
+        cycle: cycle.cycle,
+        amount: cycle.amount / 100,
+        paymentStatus: cycle.paymentStatus,
+        createdAt: cycle.createdAt,
+      })),
+    })
+  } catch (error) {
+    logger.error('Failed to load subscription', { error: error instanceof Error ? error.message : 'Unknown error' })
+    return NextResponse.json({ error: 'Failed to load subscription' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const originCheck = enforceTrustedOrigin(request)
+  if (originCheck) return originCheck
+
+  const rateLimitResponse = await RateLimiters.formSubmission(request)
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const { token, action, reason } = await request.json()
+
+    if (!DONOR_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    const subscription = await findByToken(typeof token === 'string' ? token : null)
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    const result = await updateSubscriptionStatus(subscription.id, action, {
+      reason: typeof reason === 'string' ? reason.substring(0, 500) : undefined,
+      actor: 'donor',
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, status: result.status })
+  } catch (error) {
+    logger.error('Failed to update subscription', { error: error instanceof Error ? error.message : 'Unknown error' })
+    return NextResponse.json({ error: 'Failed to update subscription' }, { status: 500 })
+  }
+}
@@ -1,21 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db, donations, donationLogs, projects } from '@/db'
-import { eq, sql } from 'drizzle-orm'
-import { ToyyibPayService } from '@/lib/toyyibpay'
-import { generateReceiptNumber, getReceiptData } from '@/lib/receipt'
+import { and, eq, sql } from 'drizzle-orm'
+import { getPaymentGateway } from '@/lib/payments'
+import { assignReceiptNumber, getReceiptData } from '@/lib/receipt'
+import { recordIssuedReceipt } from '@/lib/receipt-register'
 import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
 import { sendDonationReceiptEmail } from '@/lib/email'
 import { webhookLogger as logger } from '@/lib/logger'
+import { onSubscriptionPaymentCompleted } from '@/lib/subscriptions'
+import { onFundraiserDonationCompleted } from '@/lib/fundraisers'
+import { onTributeDonationCompleted } from '@/lib/tributes'
 
 /**
  * Payment Verification API
  *
- * Verifies payment status by checking both our database and ToyyibPay API.
+ * Verifies payment status by checking both our database and the payment gateway API.
  * Used by the success page to confirm payment status.
  *
  * IMPORTANT: This endpoint also handles auto-recovery for cases where
  * the webhook callback fails (e.g., when testing on localhost).
- * If ToyyibPay shows completed but our DB shows pending, we auto-update.
+ * If the gateway shows completed but our DB shows pending, we auto-update.
  */
 
 // Helper to get project title
@@ -90,53 +94,71 @@ export async function GET(request: NextRequest) {
 
     logger.info('Found donation', { requestId, donationId: donation.id, status: donation.paymentStatus })
 
-    // If already completed, return immediately
-    if (donation.paymentStatus === 'completed') {
-      logger.debug('Donation already completed', { requestId, reference })
+    // If already completed or refunded, return immediately. ToyyibPay has no
+    // refund API and keeps reporting a refunded bill as paid, so checking it
+    // again would complete the donation a second time.
+    if (donation.paymentStatus === 'completed' || donation.paymentStatus === 'refunded') {
+      logger.debug('Donation already processed', { requestId, reference, status: donation.paymentStatus })
       const donationData = await buildDonationResponse(donation)
       return NextResponse.json({
         success: true,
-        status: 'completed',
+        status: donation.paymentStatus,
         verified: true,
         donation: donationData,
       })
     }
 
-    // If we have a ToyyibPay bill code, verify with ToyyibPay API
-    if (donation.toyyibpayBillCode && ToyyibPayService.isConfigured()) {
+    // If we have a bill code, verify with the gateway that issued it
+    const gateway = getPaymentGateway(donation.paymentGateway)
+    if (donation.gatewayBillCode && gateway.isConfigured()) {
       try {
-        const transactions = await ToyyibPayService.getBillTransactions(donation.toyyibpayBillCode)
+        const transactions = await gateway.getTransactions(donation.gatewayBillCode)
 
         if (transactions && transactions.length > 0) {
           const latestTransaction = transactions[0]
-          const toyyibpayStatus = latestTransaction.billpaymentStatus
+          const providerStatus = latestTransaction.providerStatus
+          const mappedStatus = latestTransaction.status
 
-          // Map ToyyibPay status
-          const mappedStatus = ToyyibPayService.mapPaymentStatus(toyyibpayStatus)
-
-          // If ToyyibPay shows completed but our DB doesn't, the webhook might have failed
+          // If the gateway shows completed but our DB doesn't, the webhook might have failed
           // AUTO-RECOVERY: Update the payment status to completed
           if (mappedStatus === 'completed' && donation.paymentStatus !== 'completed') {
             logger.info('Auto-recovery triggered', {
               requestId,
               reference,
-              toyyibpayStatus: 'completed',
+              gatewayStatus: 'completed',
               dbStatus: donation.paymentStatus,
             })
 
-            // Generate receipt number
-            const receiptNumber = await generateReceiptNumber()
-
-            // Update donation to completed
-            await db
-              .update(donations)
-              .set({
+            // Update donation to completed with the next receipt number.
+            // Conditional so a webhook arriving at the same time is not doubled.
+            const receiptNumber = await assignReceiptNumber(
+              and(
+                eq(donations.id, donation.id),
+                eq(donations.paymentStatus, donation.paymentStatus || 'pending')
+              ),
+              {
                 paymentStatus: 'completed',
                 completedAt: new Date(),
-                receiptNumber,
-                toyyibpayTransactionId: latestTransaction.transactionId,
+                completionRecordedAt: new Date(),
+                gatewayTransactionId: latestTransaction.transactionId,
+              }
+            )
+
+            if (!receiptNumber) {
+              // Completed by the webhook in the meantime; return what it recorded
+              const current = await db.query.donations.findFirst({
+                where: eq(donations.id, donation.id),
               })
-              .where(eq(donations.id, donation.id))
+              return NextResponse.json({
+                success: true,
+                status: current?.paymentStatus || donation.paymentStatus,
+                gatewayStatus: mappedStatus,
+                verified: true,
+                donation: await buildDonationResponse(current || donation),
+              })
+            }
+
+            await recordIssuedReceipt(reference, 'system')
 
             // Update project raised amount if applicable
             if (donation.projectId) {
@@ -153,6 +175,10 @@ export async function GET(request: NextRequest) {
               })
             }
 
+            await onSubscriptionPaymentCompleted(donation)
+            await onFundraiserDonationCompleted(donation)
+            await onTributeDonationCompleted(donation)
+
             // Log the auto-recovery
             await db.insert(donationLogs).values({
               donationId: donation.id,
@@ -160,7 +186,8 @@ export async function GET(request: NextRequest) {
               eventData: {
                 previousStatus: donation.paymentStatus,
                 newStatus: 'completed',
-                toyyibpayStatus: mappedStatus,
+                gateway: gateway.id,
+                gatewayStatus: mappedStatus,
                 transactionId: latestTransaction.transactionId,
                 receiptNumber,
                 reason: 'Webhook callback likely failed (localhost testing or network issue)',
@@ -268,37 +295,37 @@ export async function GET(request: NextRequest) {
             return NextResponse.json({
               success: true,
               status: 'completed',
-              toyyibpayStatus: mappedStatus,
+              gatewayStatus: mappedStatus,
               verified: true,
               autoRecovered: true,
               donation: donationData,
               transaction: {
                 id: latestTransaction.transactionId,
-                status: toyyibpayStatus,
-                channel: latestTransaction.billpaymentChannel,
+                status: providerStatus,
+                channel: latestTransaction.channel,
               },
             })
           }
 
           operation.success('Auto-recovery completed', { status: mappedStatus, autoRecovered: true })
-          logger.info('ToyyibPay verification complete', { requestId, reference, status: mappedStatus })
+          logger.info('Gateway verification complete', { requestId, reference, status: mappedStatus })
 
           const donationData = await buildDonationResponse(donation)
           return NextResponse.json({
             success: true,
             status: donation.paymentStatus,
-            toyyibpayStatus: mappedStatus,
+            gatewayStatus: mappedStatus,
             verified: true,
             donation: donationData,
             transaction: {
               id: latestTransaction.transactionId,
-              status: toyyibpayStatus,
-              channel: latestTransaction.billpaymentChannel,
+              status: providerStatus,
+              channel: latestTransaction.channel,
             },
           })
         }
       } catch (error) {
-        logger.error('Failed to verify with ToyyibPay', {
+        logger.error('Failed to verify with payment gateway', {
           requestId,
           error: error instanceof Error ? error.message : 'Unknown error',
         })
@@ -306,14 +333,14 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Return database status (not verified with ToyyibPay)
+    // Return database status (not verified with the gateway)
     operation.success('DB status returned', { status: donation.paymentStatus, verified: false })
     logger.info('Returning DB status only', { requestId, reference, status: donation.paymentStatus })
     const donationData = await buildDonationResponse(donation)
     return NextResponse.json({
       success: true,
       status: donation.paymentStatus,
-      verified: false, // Not verified with ToyyibPay
+      verified: false, // Not verified with the gateway
       donation: donationData,
     })
 
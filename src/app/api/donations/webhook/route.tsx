@@ -1,21 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db, donations, projects, donationLogs } from '@/db'
-import { eq, sql } from 'drizzle-orm'
+import { and, eq, sql } from 'drizzle-orm'
 import { notifyDonationReceived } from '@/lib/actions/notifications'
-import { ToyyibPayService, TOYYIBPAY_STATUS } from '@/lib/toyyibpay'
+import { getPaymentGateway, type PaymentGateway } from '@/lib/payments'
 import { headers } from 'next/headers'
 import { sendDonationReceiptEmail } from '@/lib/email'
-import { getReceiptData } from '@/lib/receipt'
+import { assignReceiptNumber, getReceiptData } from '@/lib/receipt'
+import { recordIssuedReceipt } from '@/lib/receipt-register'
 import { ReceiptPDF } from '@/lib/receipt-pdf'
 import { renderToBuffer } from '@react-pdf/renderer'
 import React from 'react'
 import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { onSubscriptionPaymentCompleted } from '@/lib/subscriptions'
+import { onFundraiserDonationCompleted } from '@/lib/fundraisers'
+import { onTributeDonationCompleted } from '@/lib/tributes'
 
 /**
- * ToyyibPay Webhook Handler
+ * Payment Gateway Webhook Handler
  *
- * This endpoint receives payment callbacks from ToyyibPay.
+ * This endpoint receives payment callbacks from the payment gateways.
  * It's called automatically when a payment is completed, failed, or cancelled.
+ * Non-ToyyibPay gateways add ?gateway=<id> to their callback URL; callbacks
+ * without it are treated as ToyyibPay.
  *
  * ToyyibPay Callback Reference:
  * - URL: https://toyyibpay.com/apireference
@@ -33,13 +39,6 @@ import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
  * - All callbacks are logged for audit trail
  */
 
-// Generate receipt number
-function generateReceiptNumber(): string {
-  const year = new Date().getFullYear()
-  const random = Math.random().toString(36).substring(2, 8).toUpperCase()
-  return `YIP-${year}-${random}`
-}
-
 // Log webhook event
 async function logWebhookEvent(
   donationId: string,
@@ -54,32 +53,32 @@ async function logWebhookEvent(
       eventType,
       eventData: eventData || {},
       ipAddress: headersList?.get('x-forwarded-for') || headersList?.get('x-real-ip') || 'webhook',
-      userAgent: headersList?.get('user-agent') || 'ToyyibPay-Callback',
+      userAgent: headersList?.get('user-agent') || 'Gateway-Callback',
     })
   } catch (error) {
     console.error('Failed to log webhook event:', error)
   }
 }
 
-// POST - Handle ToyyibPay webhook callback
+// POST - Handle payment gateway webhook callback
 export async function POST(request: NextRequest) {
   const startTime = Date.now()
   const requestId = `webhook_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
 
+  let gateway: PaymentGateway
+  try {
+    gateway = getPaymentGateway(request.nextUrl.searchParams.get('gateway'))
+  } catch {
+    return NextResponse.json({ error: 'Unknown payment gateway' }, { status: 400 })
+  }
+
   console.log(`\n${'='.repeat(60)}`)
-  console.log(`[Webhook ${requestId}] ToyyibPay callback received`)
+  console.log(`[Webhook ${requestId}] ${gateway.displayName} callback received`)
   console.log(`${'='.repeat(60)}`)
 
-  const configuredWebhookSecret = process.env.TOYYIBPAY_WEBHOOK_SECRET
-  if (configuredWebhookSecret) {
-    const queryToken = request.nextUrl.searchParams.get('token')
-    const headerToken = request.headers.get('x-yip-webhook-secret')
-    const providedToken = queryToken || headerToken
-
-    if (!providedToken || providedToken !== configuredWebhookSecret) {
-      console.warn(`[Webhook ${requestId}] Invalid webhook token`)
-      return NextResponse.json({ error: 'Unauthorized webhook request' }, { status: 401 })
-    }
+  if (!gateway.verifyWebhook({ searchParams: request.nextUrl.searchParams, headers: request.headers })) {
+    console.warn(`[Webhook ${requestId}] Invalid webhook token`)
+    return NextResponse.json({ error: 'Unauthorized webhook request' }, { status: 401 })
   }
 
   try {
@@ -109,32 +108,27 @@ export async function POST(request: NextRequest) {
       console.log(`[Webhook ${requestId}] Parsed as URL params`)
     }
 
-    // Log raw webhook data for debugging
-    console.log(`[Webhook ${requestId}] Payload:`, {
-      timestamp: new Date().toISOString(),
-      refno: webhookData.refno,
-      status: webhookData.status,
-      reason: webhookData.reason,
-      billcode: webhookData.billcode,
-      order_id: webhookData.order_id,
-      amount: webhookData.amount,
-      transaction_id: webhookData.transaction_id,
-    })
-
     // ===== EXTRACT CALLBACK DATA =====
 
-    // ToyyibPay callback fields
-    const paymentReference =
-      webhookData.order_id || // billExternalReferenceNo
-      webhookData.refno ||
-      webhookData.payment_reference ||
-      webhookData.reference
+    const event = gateway.parseWebhook(webhookData)
+    const paymentReference = event.reference
+    const paymentStatus = event.providerStatus
+    const billCode = event.billCode
+    const transactionId = event.transactionId
+    const reason = event.reason
+    const amount = event.amount
 
-    const paymentStatus = webhookData.status
-    const billCode = webhookData.billcode || webhookData.bill_code
-    const transactionId = webhookData.transaction_id || webhookData.transactionId
-    const reason = webhookData.reason
-    const amount = webhookData.amount
+    // Log normalized webhook data for debugging
+    console.log(`[Webhook ${requestId}] Payload:`, {
+      timestamp: new Date().toISOString(),
+      gateway: gateway.id,
+      reference: paymentReference,
+      status: paymentStatus,
+      reason,
+      billCode,
+      amount,
+      transactionId,
+    })
 
     // Validate required fields
     if (!paymentReference) {
@@ -162,12 +156,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // A callback can only settle bills issued by the same gateway
+    if ((donation.paymentGateway || 'toyyibpay') !== gateway.id) {
+      console.warn(`[Webhook ${requestId}] SECURITY: ${gateway.id} callback for ${donation.paymentGateway} donation`)
+      return NextResponse.json(
+        { error: 'Gateway mismatch' },
+        { status: 400 }
+      )
+    }
+
     console.log(`[Webhook ${requestId}] Found donation: ${donation.id}`)
     console.log(`[Webhook ${requestId}] Current DB status: ${donation.paymentStatus}`)
 
     // Log callback received
     await logWebhookEvent(donation.id, 'callback_received', {
       webhookData: {
+        gateway: gateway.id,
         status: paymentStatus,
         billcode: billCode,
         transactionId,
@@ -191,25 +195,25 @@ export async function POST(request: NextRequest) {
 
     // ===== MAP PAYMENT STATUS =====
 
-    let newStatus = ToyyibPayService.mapPaymentStatus(paymentStatus)
-    console.log(`[Webhook ${requestId}] ToyyibPay status '${paymentStatus}' mapped to '${newStatus}'`)
+    let newStatus = event.status
+    console.log(`[Webhook ${requestId}] ${gateway.displayName} status '${paymentStatus}' mapped to '${newStatus}'`)
 
-    // ===== SECURITY: VERIFY WITH TOYYIBPAY API =====
+    // ===== SECURITY: VERIFY WITH GATEWAY API =====
     // Before marking as completed, verify via API to prevent forged webhooks
-    if (newStatus === 'completed' && donation.toyyibpayBillCode && ToyyibPayService.isConfigured()) {
+    if (newStatus === 'completed' && donation.gatewayBillCode && gateway.isConfigured()) {
       try {
-        console.log(`[Webhook ${requestId}] Verifying payment via ToyyibPay API...`)
-        const transactions = await ToyyibPayService.getBillTransactions(donation.toyyibpayBillCode)
+        console.log(`[Webhook ${requestId}] Verifying payment via ${gateway.displayName} API...`)
+        const transactions = await gateway.getTransactions(donation.gatewayBillCode)
 
         if (transactions && transactions.length > 0) {
           const latestTransaction = transactions[0]
-          const verifiedStatus = ToyyibPayService.mapPaymentStatus(latestTransaction.billpaymentStatus)
+          const verifiedStatus = latestTransaction.status
 
           if (verifiedStatus !== 'completed') {
             console.warn(`[Webhook ${requestId}] SECURITY: Webhook claimed success but API shows '${verifiedStatus}'`)
             await logWebhookEvent(donation.id, 'verification_mismatch', {
               webhookStatus: paymentStatus,
-              apiStatus: latestTransaction.billpaymentStatus,
+              apiStatus: latestTransaction.providerStatus,
               verifiedStatus,
             }, request)
             // Trust the API over the webhook
@@ -235,29 +239,54 @@ export async function POST(request: NextRequest) {
       paymentStatus: newStatus,
     }
 
-    // Store ToyyibPay transaction ID if provided
+    // Store gateway transaction ID if provided
     if (transactionId) {
-      updateData.toyyibpayTransactionId = transactionId
+      updateData.gatewayTransactionId = transactionId
     }
 
     // If payment succeeded
     if (newStatus === 'completed') {
       updateData.completedAt = new Date()
-      updateData.receiptNumber = generateReceiptNumber()
+      updateData.completionRecordedAt = updateData.completedAt
     }
 
     // If payment failed
     if (newStatus === 'failed') {
       updateData.failureReason = reason
-        ? ToyyibPayService.getFailureReason(reason)
+        ? gateway.getFailureReason(reason)
         : 'Payment was not completed'
     }
 
-    // Perform update
-    await db
-      .update(donations)
-      .set(updateData)
-      .where(eq(donations.id, donation.id))
+    // Perform update. Completion is conditional on the status we read and
+    // stamps the next receipt number in the same transaction, so a verify
+    // or reconciliation run completing the donation at the same moment
+    // cannot double count it or give it a second receipt number.
+    if (newStatus === 'completed') {
+      const receiptNumber = await assignReceiptNumber(
+        and(
+          eq(donations.id, donation.id),
+          eq(donations.paymentStatus, donation.paymentStatus || 'pending')
+        ),
+        updateData
+      )
+
+      if (!receiptNumber) {
+        console.log(`[Webhook ${requestId}] Donation completed by another request, skipping`)
+        return NextResponse.json({
+          success: true,
+          message: 'Already processed',
+          status: 'completed',
+        })
+      }
+
+      updateData.receiptNumber = receiptNumber
+      await recordIssuedReceipt(paymentReference, 'system')
+    } else {
+      await db
+        .update(donations)
+        .set(updateData)
+        .where(eq(donations.id, donation.id))
+    }
 
     // Log status update
     await logWebhookEvent(donation.id, 'status_updated', {
@@ -283,6 +312,13 @@ export async function POST(request: NextRequest) {
         console.log(`Updated project ${donation.projectId} raised amount: +${donation.amount / 100}`)
       }
 
+      // Activate the recurring schedule if this was the first monthly cycle,
+      // let the fundraiser owner know if it came through their page, and send
+      // the tribute e-card if the donor dedicated the gift
+      await onSubscriptionPaymentCompleted(donation)
+      await onFundraiserDonationCompleted(donation)
+      await onTributeDonationCompleted(donation)
+
       // Get project title if donation is for a specific project
       let projectTitle: string | undefined
       if (donation.projectId) {
@@ -408,7 +444,7 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams
 
-  // Handle ToyyibPay verification challenge
+  // Handle gateway verification challenge
   const challenge = searchParams.get('challenge') || searchParams.get('hub.challenge')
   if (challenge) {
     return new NextResponse(challenge, { status: 200 })
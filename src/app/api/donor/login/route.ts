@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RateLimiters } from '@/lib/api-rate-limit'
+import { requestDonorLoginLink } from '@/lib/donor-portal'
+import { donationLogger as logger } from '@/lib/logger'
+
+/**
+ * Donor Portal API: Request Sign-in Link
+ *
+ * POST - Email a one-time sign-in link ({ email, locale })
+ *
+ * SECURITY:
+ * - Always answers the same way, so it cannot be used to look up donors
+ * - Rate limited per IP, and limited per donor in requestDonorLoginLink
+ */
+
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await RateLimiters.donorLogin(request)
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const { email, locale } = await request.json()
+
+    if (typeof email !== 'string' || !email.includes('@') || email.length > 254) {
+      return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 })
+    }
+
+    await requestDonorLoginLink(email, {
+      locale: locale === 'ms' ? 'ms' : 'en',
+      baseUrl: process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Failed to send donor sign-in link', { error: error instanceof Error ? error.message : 'Unknown error' })
+    return NextResponse.json({ error: 'Failed to send sign-in link' }, { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DONOR_SESSION_COOKIE, getSessionDonor } from '@/lib/donor-portal'
+import { updateDonorContact } from '@/lib/donors'
+import { donationLogger as logger } from '@/lib/logger'
+
+/**
+ * Donor Portal API: Contact Details
+ *
+ * PATCH - Update name, phone, language and email preferences
+ *
+ * SECURITY: Requires a donor portal session. The sign-in email cannot be
+ * changed here.
+ */
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const donor = await getSessionDonor(request.cookies.get(DONOR_SESSION_COOKIE)?.value)
+    if (!donor) {
+      return NextResponse.json({ error: 'Please sign in again' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    const result = await updateDonorContact(donor.id, {
+      name: typeof body.name === 'string' ? body.name : null,
+      phone: typeof body.phone === 'string' ? body.phone : null,
+      locale: body.locale === 'ms' ? 'ms' : 'en',
+      emailUpdates: body.emailUpdates === true,
+      recoveryEmails: body.recoveryEmails !== false,
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.error === 'not_found' ? 404 : 400 })
+    }
+
+    logger.info('Donor updated contact details', { donorId: donor.id })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Failed to update donor details', { error: error instanceof Error ? error.message : 'Unknown error' })
+    return NextResponse.json({ error: 'Failed to update details' }, { status: 500 })
+  }
+}
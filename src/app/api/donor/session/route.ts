@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RateLimiters } from '@/lib/api-rate-limit'
+import { createDonorSession, DONOR_SESSION_COOKIE, revokeDonorSession } from '@/lib/donor-portal'
+import { donationLogger as logger } from '@/lib/logger'
+
+/**
+ * Donor Portal API: Session
+ *
+ * POST - Exchange a sign-in link token for a session cookie ({ token })
+ * DELETE - Sign out
+ *
+ * The link in the email opens a page that posts here, rather than starting
+ * the session itself, so mail scanners that open links do not use them up.
+ * The cookie is separate from the admin NextAuth cookie.
+ */
+
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await RateLimiters.formSubmission(request)
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const { token } = await request.json()
+
+    const session = await createDonorSession(typeof token === 'string' ? token : '', {
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+    })
+
+    if (!session) {
+      return NextResponse.json({ error: 'This sign-in link is invalid or has expired' }, { status: 401 })
+    }
+
+    const response = NextResponse.json({ success: true })
+    response.cookies.set(DONOR_SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      expires: session.expiresAt,
+    })
+    return response
+  } catch (error) {
+    logger.error('Failed to start donor session', { error: error instanceof Error ? error.message : 'Unknown error' })
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const sessionToken = request.cookies.get(DONOR_SESSION_COOKIE)?.value
+
+  try {
+    if (sessionToken) {
+      await revokeDonorSession(sessionToken)
+    }
+  } catch (error) {
+    logger.error('Failed to revoke donor session', { error: error instanceof Error ? error.message : 'Unknown error' })
+  }
+
+  const response = NextResponse.json({ success: true })
+  response.cookies.delete(DONOR_SESSION_COOKIE)
+  return response
+}
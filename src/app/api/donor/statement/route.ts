@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DONOR_SESSION_COOKIE, getSessionDonor } from '@/lib/donor-portal'
+import { getAnnualStatementData } from '@/lib/receipt'
+import { renderAnnualStatementPdf } from '@/lib/annual-statements'
+import { donationLogger as logger } from '@/lib/logger'
+
+/**
+ * Donor Portal API: Annual Statement
+ *
+ * GET - The signed-in donor's consolidated statement PDF (?year=...)
+ *
+ * SECURITY: Requires a donor portal session. The statement is always for
+ * the donor's own email address.
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const donor = await getSessionDonor(request.cookies.get(DONOR_SESSION_COOKIE)?.value)
+    if (!donor?.email) {
+      return NextResponse.json({ error: 'Please sign in again' }, { status: 401 })
+    }
+
+    const year = Number(request.nextUrl.searchParams.get('year'))
+    if (!Number.isInteger(year)) {
+      return NextResponse.json({ error: 'Year is required' }, { status: 400 })
+    }
+
+    const statementData = await getAnnualStatementData(donor.email, year)
+    if (!statementData) {
+      return NextResponse.json(
+        { error: 'No completed donations found for this year' },
+        { status: 404 }
+      )
+    }
+
+    const pdfBuffer = await renderAnnualStatementPdf(statementData)
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="YIP-Statement-${statementData.statementNumber}.pdf"`,
+        'Content-Length': pdfBuffer.length.toString(),
+        'Cache-Control': 'private, no-cache, no-store, must-revalidate',
+      },
+    })
+  } catch (error) {
+    logger.error('Failed to generate donor statement', { error: error instanceof Error ? error.message : 'Unknown error' })
+    return NextResponse.json({ error: 'Failed to generate statement. Please try again.' }, { status: 500 })
+  }
+}
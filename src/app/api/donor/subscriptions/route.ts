@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DONOR_SESSION_COOKIE, getDonorSubscriptions, getSessionDonor } from '@/lib/donor-portal'
+import { updateSubscriptionStatus, type SubscriptionAction } from '@/lib/subscriptions'
+import { donationLogger as logger } from '@/lib/logger'
+
+/**
+ * Donor Portal API: Recurring Gifts
+ *
+ * POST - Pause, resume or cancel one of the donor's monthly donations
+ * ({ subscriptionId, action, reason? })
+ *
+ * SECURITY: Requires a donor portal session, and the subscription must
+ * belong to the signed-in donor. Amounts cannot be changed.
+ */
+
+const DONOR_ACTIONS: SubscriptionAction[] = ['pause', 'resume', 'cancel']
+
+export async function POST(request: NextRequest) {
+  try {
+    const donor = await getSessionDonor(request.cookies.get(DONOR_SESSION_COOKIE)?.value)
+    if (!donor) {
+      return NextResponse.json({ error: 'Please sign in again' }, { status: 401 })
+    }
+
+    const { subscriptionId, action, reason } = await request.json()
+
+    if (!DONOR_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    const subscriptions = await getDonorSubscriptions(donor)
+    if (!subscriptions.some(subscription => subscription.id === subscriptionId)) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    const result = await updateSubscriptionStatus(subscriptionId, action, {
+      reason: typeof reason === 'string' ? reason.substring(0, 500) : undefined,
+      actor: 'donor',
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, status: result.status })
+  } catch (error) {
+    logger.error('Failed to update subscription from donor portal', { error: error instanceof Error ? error.message : 'Unknown error' })
+    return NextResponse.json({ error: 'Failed to update subscription' }, { status: 500 })
+  }
+}
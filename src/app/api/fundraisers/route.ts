@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Client, Storage, ID } from 'node-appwrite'
+import { RateLimiters } from '@/lib/api-rate-limit'
+import { enforceTrustedOrigin } from '@/lib/security/request'
+import { submitFundraiser, validateFundraiserInput } from '@/lib/fundraisers'
+import { notifyFundraiserSubmitted } from '@/lib/actions/notifications'
+
+/**
+ * Public API: Create Fundraiser Page
+ *
+ * POST - Submit a supporter fundraiser page for a project. Accepts
+ *        multipart form data with an optional `photo` image stored in
+ *        Appwrite. The page is saved as pending and only goes live once an
+ *        admin approves it.
+ */
+
+// Server-side Appwrite client with API key
+const getClient = () => {
+  const client = new Client()
+    .setEndpoint(process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT!)
+    .setProject(process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID!)
+
+  if (process.env.APPWRITE_API_KEY) {
+    client.setKey(process.env.APPWRITE_API_KEY)
+  }
+
+  return client
+}
+
+const BUCKET_ID = process.env.NEXT_PUBLIC_APPWRITE_BUCKET_ID!
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024
+
+function getString(formData: FormData, key: string): string {
+  const value = formData.get(key)
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+export async function POST(request: NextRequest) {
+  const originCheck = enforceTrustedOrigin(request)
+  if (originCheck) return originCheck
+
+  // SECURITY: Every page is reviewed by hand, so keep submissions low
+  const rateLimitResponse = await RateLimiters.fundraiserCreate(request)
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const formData = await request.formData()
+
+    // Goal is sent in RM
+    const goal = parseFloat(getString(formData, 'goal'))
+    const input = {
+      projectId: getString(formData, 'projectId'),
+      ownerName: getString(formData, 'ownerName'),
+      ownerEmail: getString(formData, 'ownerEmail'),
+      title: getString(formData, 'title'),
+      story: getString(formData, 'story'),
+      goal: Number.isFinite(goal) ? Math.round(goal * 100) : 0,
+    }
+
+    // Validate before uploading so rejected submissions leave no files behind
+    const validationError = validateFundraiserInput(input)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const photo = formData.get('photo')
+    const photoFile = photo instanceof File && photo.size > 0 ? photo : null
+
+    let photoUrl: string | null = null
+    if (photoFile) {
+      if (!photoFile.type.startsWith('image/')) {
+        return NextResponse.json(
+          { error: 'Photo must be an image' },
+          { status: 400 }
+        )
+      }
+
+      if (photoFile.size > MAX_PHOTO_SIZE) {
+        return NextResponse.json(
+          { error: 'Photo must be less than 5MB' },
+          { status: 400 }
+        )
+      }
+
+      if (!process.env.APPWRITE_API_KEY) {
+        console.error('APPWRITE_API_KEY is not configured')
+        return NextResponse.json(
+          { error: 'Photo uploads are not available right now. Please try again without a photo.' },
+          { status: 500 }
+        )
+      }
+
+      const storage = new Storage(getClient())
+      const uploaded = await storage.createFile(BUCKET_ID, ID.unique(), photoFile)
+      photoUrl = `${process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT}/storage/buckets/${BUCKET_ID}/files/${uploaded.$id}/view?project=${process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID}`
+    }
+
+    const result = await submitFundraiser({ ...input, photoUrl })
+
+    if (!result.success || !result.fundraiser) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    try {
+      await notifyFundraiserSubmitted({
+        fundraiserId: result.fundraiser.id,
+        title: result.fundraiser.title,
+        ownerName: result.fundraiser.ownerName,
+      })
+    } catch (notifyError) {
+      // Don't fail the request if notification fails
+      console.error('Failed to create fundraiser notification:', notifyError)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Thank you! Your fundraiser has been submitted for review.',
+    })
+  } catch (error) {
+    console.error('Fundraiser submission error:', error)
+    return NextResponse.json(
+      { error: 'Failed to submit fundraiser. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,7 @@ import { db, projects } from '@/db'
 import { eq, and } from 'drizzle-orm'
 import { RateLimiters } from '@/lib/api-rate-limit'
 import { getSession } from '@/lib/auth/server'
+import { getHeldChanges } from '@/lib/editorial-review'
 
 export async function GET(
   request: NextRequest,
@@ -29,7 +30,8 @@ export async function GET(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 })
     }
 
-    return NextResponse.json(project)
+    // Admins edit the live content with any changes held for review on top
+    return NextResponse.json(isAdmin ? { ...project, ...await getHeldChanges('projects', project.id) } : project)
   } catch (error) {
     console.error('Failed to get project:', error)
     return NextResponse.json({ error: 'Failed to get project' }, { status: 500 })
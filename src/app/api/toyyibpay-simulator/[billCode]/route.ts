@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getSimulatedBill,
+  isSimulatorEnabled,
+  payBill,
+  renderPaymentPage,
+  type SimulatedOutcome,
+} from '@/lib/toyyibpay-simulator'
+
+/**
+ * ToyyibPay Simulator Payment Page
+ *
+ * GET  - Hosted bill page (what ToyyibPayService.getPaymentUrl points at)
+ * POST - Pay the bill with the chosen outcome, fire the callback and
+ *        redirect back to the bill's return URL
+ *
+ * SECURITY: Returns 404 unless TOYYIBPAY_SIMULATOR=true outside production
+ */
+
+const OUTCOMES: SimulatedOutcome[] = ['success', 'pending', 'failed']
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ billCode: string }> }
+) {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const { billCode } = await params
+  const bill = getSimulatedBill(billCode)
+  if (!bill) {
+    return NextResponse.json({ error: 'Bill not found' }, { status: 404 })
+  }
+
+  return new NextResponse(renderPaymentPage(bill), {
+    headers: { 'Content-Type': 'text/html; charset=UTF-8' },
+  })
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ billCode: string }> }
+) {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const { billCode } = await params
+  const form = new URLSearchParams(await request.text())
+  const outcome = form.get('outcome') as SimulatedOutcome
+
+  if (!OUTCOMES.includes(outcome)) {
+    return NextResponse.json({ error: 'Outcome must be success, pending or failed' }, { status: 400 })
+  }
+
+  const result = await payBill(billCode, outcome, { reason: form.get('reason') || undefined })
+  if (!result) {
+    return NextResponse.json({ error: 'Bill not found' }, { status: 404 })
+  }
+
+  return NextResponse.redirect(result.redirectUrl, 303)
+}
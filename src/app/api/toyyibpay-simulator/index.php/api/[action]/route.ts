@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleSimulatorApi, isSimulatorEnabled } from '@/lib/toyyibpay-simulator'
+
+/**
+ * ToyyibPay Simulator API
+ *
+ * Mirrors https://dev.toyyibpay.com/index.php/api/{action} so ToyyibPayService
+ * can run unchanged against a local server.
+ *
+ * SECURITY:
+ * - Returns 404 unless TOYYIBPAY_SIMULATOR=true outside production
+ * - Exempt from the origin check in middleware (server-to-server calls)
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ action: string }> }
+) {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const { action } = await params
+  const form = new URLSearchParams(await request.text())
+  const result = handleSimulatorApi(action, form)
+
+  if (result.isText) {
+    return new NextResponse(String(result.body), {
+      headers: { 'Content-Type': 'text/html; charset=UTF-8' },
+    })
+  }
+
+  return NextResponse.json(result.body)
+}
@@ -1,19 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth/server'
-import { db, blogPosts, projects, teamMembers, heroContent, aboutContent, impactStats, partners, testimonials, faqs, pages } from '@/db'
-import { eq } from 'drizzle-orm'
+import { db, blogPosts, projects, campaigns, funds, teamMembers, heroContent, aboutContent, impactStats, partners, testimonials, faqs, pages } from '@/db'
+import { eq, sql } from 'drizzle-orm'
 import { enforceTrustedOrigin } from '@/lib/security/request'
 import {
   getVersion,
+  getPreviousVersion,
   createVersion,
   logActivity,
   type ContentType,
+  type ContentVersion,
 } from '@/lib/versioning'
+import { diffVersionFields, isLocalizedValue, pickRestoreFields, type RestoreSelection } from '@/lib/version-diff'
+import { holdLiveEdit, recordReviewedSave, resolveReviewContentType } from '@/lib/editorial-review'
 
 // Content type to table mapping
-const contentTypeToTable: Record<ContentType, typeof blogPosts | typeof projects | typeof teamMembers | typeof heroContent | typeof aboutContent | typeof impactStats | typeof partners | typeof testimonials | typeof faqs | typeof pages> = {
+const contentTypeToTable: Record<ContentType, typeof blogPosts | typeof projects | typeof campaigns | typeof funds | typeof teamMembers | typeof heroContent | typeof aboutContent | typeof impactStats | typeof partners | typeof testimonials | typeof faqs | typeof pages> = {
   blog_posts: blogPosts,
   projects: projects,
+  campaigns: campaigns,
+  funds: funds,
   team_members: teamMembers,
   hero_content: heroContent,
   about_content: aboutContent,
@@ -25,7 +31,75 @@ const contentTypeToTable: Record<ContentType, typeof blogPosts | typeof projects
   site_settings: pages, // Placeholder, site_settings has different structure
 }
 
+// Blog posts and projects count their saves, so a restore must bump the count
+// for editors with the old revision open to notice it
+function revisionBump(table: (typeof contentTypeToTable)[ContentType]) {
+  if (table === blogPosts) return { revision: sql`${blogPosts.revision} + 1` }
+  if (table === projects) return { revision: sql`${projects.revision} + 1` }
+  return {}
+}
+
+function parseRestoreSelections(value: unknown): RestoreSelection[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null
+  const selections: RestoreSelection[] = []
+  for (const item of value) {
+    const { field, locale } = (item || {}) as { field?: unknown; locale?: unknown }
+    if (typeof field !== 'string' || !field) return null
+    if (locale !== null && locale !== undefined && locale !== 'en' && locale !== 'ms') return null
+    selections.push({ field, locale: locale ?? null })
+  }
+  return selections
+}
+
+async function getCurrentContent(contentType: ContentType, contentId: string) {
+  const table = contentTypeToTable[contentType]
+  if (!table || contentType === 'site_settings') return null
+  const [content] = await db.select().from(table).where(eq(table.id, contentId)).limit(1)
+  return (content as Record<string, unknown> | undefined) || null
+}
+
+function getContentTitle(data: Record<string, unknown>, fallback: string): string {
+  const title = data.title ?? data.name
+  if (isLocalizedValue(title)) return title.en || title.ms || fallback
+  return typeof title === 'string' && title ? title : fallback
+}
+
+// A restore is an edit, so restoring live blog posts, projects and pages
+// waits for approval like any other edit. Returns whether it was held.
+async function holdRestoreForReview(
+  contentType: ContentType,
+  table: (typeof contentTypeToTable)[ContentType],
+  currentContent: Record<string, unknown> & { id: string },
+  updates: Record<string, unknown>,
+  title: string,
+  user: { id: string; email: string; name: string },
+  activity: { description: string; metadata: Record<string, unknown> }
+): Promise<boolean> {
+  const reviewType = resolveReviewContentType(contentType)
+  if (!reviewType || !currentContent.isPublished) return false
+
+  const bump = revisionBump(table)
+  if (Object.keys(bump).length > 0) {
+    await db
+      .update(table)
+      .set(bump as Partial<typeof table.$inferInsert>)
+      .where(eq(table.id, currentContent.id))
+  }
+  await holdLiveEdit(reviewType, currentContent, updates, title, user)
+
+  await logActivity('content_restore', `${activity.description} (awaiting approval)`, {
+    contentType,
+    contentId: currentContent.id,
+    contentTitle: title,
+    user,
+    metadata: { ...activity.metadata, pendingReview: true },
+  })
+  return true
+}
+
 // GET /api/versions/[id] - Get a specific version
+// ?compare=previous (default) diffs it against the version before it;
+// ?compare=current diffs it against the content as it is now
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -44,7 +118,25 @@ export async function GET(
       return NextResponse.json({ error: 'Version not found' }, { status: 404 })
     }
 
-    return NextResponse.json({ version })
+    const compare = request.nextUrl.searchParams.get('compare') === 'current' ? 'current' : 'previous'
+    const versionData = version.data as Record<string, unknown>
+
+    if (compare === 'current') {
+      const current = await getCurrentContent(version.contentType, version.contentId)
+      return NextResponse.json({
+        version,
+        comparison: { against: 'current', versionNumber: null, exists: !!current },
+        // Older on the left: this version, then what is live now
+        fields: current ? diffVersionFields(versionData, current) : [],
+      })
+    }
+
+    const previous = await getPreviousVersion(version)
+    return NextResponse.json({
+      version,
+      comparison: { against: 'previous', versionNumber: previous?.versionNumber ?? null, exists: !!previous },
+      fields: diffVersionFields((previous?.data as Record<string, unknown>) || {}, versionData),
+    })
   } catch (error) {
     console.error('Error fetching version:', error)
     return NextResponse.json(
@@ -54,7 +146,107 @@ export async function GET(
   }
 }
 
-// POST /api/versions/[id]/restore - Restore content to this version
+// Put back only the selected fields (or languages of a field) of a version
+async function restoreFields(
+  version: ContentVersion,
+  selections: RestoreSelection[],
+  user: { id: string; email: string; name: string }
+) {
+  const contentType = version.contentType
+  const contentId = version.contentId
+  const versionData = version.data as Record<string, unknown>
+  const table = contentTypeToTable[contentType]
+
+  const currentContent = await getCurrentContent(contentType, contentId)
+  if (!table || !currentContent) {
+    return NextResponse.json(
+      { error: 'Content no longer exists. Restore the whole version instead.' },
+      { status: 404 }
+    )
+  }
+
+  const { updates, error } = pickRestoreFields(currentContent, versionData, selections)
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  const restoredLabels = selections.map(({ field, locale }) =>
+    locale ? `${field} (${locale === 'ms' ? 'BM' : 'EN'})` : field
+  )
+
+  const held = await holdRestoreForReview(
+    contentType,
+    table,
+    { ...currentContent, id: contentId },
+    updates,
+    getContentTitle(currentContent, contentId),
+    user,
+    {
+      description: `Restored ${restoredLabels.join(', ')} of ${contentType.replace(/_/g, ' ')} from version ${version.versionNumber}`,
+      metadata: { restoredFromVersion: version.versionNumber, restoredFromId: version.id, fields: selections },
+    }
+  )
+  if (held) {
+    return NextResponse.json({
+      success: true,
+      pendingReview: true,
+      message: `Restored ${restoredLabels.join(', ')} from version ${version.versionNumber}. The changes go live once another admin approves them.`,
+      content: currentContent,
+    })
+  }
+
+  const [restoredContent] = await db
+    .update(table)
+    .set({ ...updates, ...revisionBump(table), updatedAt: new Date() } as Partial<typeof table.$inferInsert>)
+    .where(eq(table.id, contentId))
+    .returning()
+
+  const title = getContentTitle(restoredContent as Record<string, unknown>, contentId)
+
+  await createVersion(
+    contentType,
+    contentId,
+    restoredContent as Record<string, unknown>,
+    'restore',
+    user,
+    {
+      previousData: currentContent,
+      customSummary: `Restored ${restoredLabels.join(', ')} from version ${version.versionNumber}`,
+    }
+  )
+
+  await logActivity(
+    'content_restore',
+    `Restored ${restoredLabels.join(', ')} of ${contentType.replace(/_/g, ' ')} from version ${version.versionNumber}`,
+    {
+      contentType,
+      contentId,
+      contentTitle: title,
+      user,
+      metadata: {
+        restoredFromVersion: version.versionNumber,
+        restoredFromId: version.id,
+        fields: selections,
+      },
+    }
+  )
+
+  // A restore is an edit, so approved content goes back for review
+  const reviewType = resolveReviewContentType(contentType)
+  if (reviewType) {
+    await recordReviewedSave(reviewType, contentId, { changeType: 'update', contentChanged: true, title }, user)
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: `Restored ${restoredLabels.join(', ')} from version ${version.versionNumber}`,
+    content: restoredContent,
+  })
+}
+
+// POST /api/versions/[id] - Restore content to this version
+// Body { fields: [{ field, locale }] } restores only those fields; locale
+// picks one language of a localized field, null the whole field
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -77,6 +269,19 @@ export async function POST(
       return NextResponse.json({ error: 'Version not found' }, { status: 404 })
     }
 
+    const body = await request.json().catch(() => null) as { fields?: unknown } | null
+    if (body?.fields !== undefined) {
+      const selections = parseRestoreSelections(body.fields)
+      if (!selections) {
+        return NextResponse.json({ error: 'Choose the fields to restore' }, { status: 400 })
+      }
+      return restoreFields(version, selections, {
+        id: authUser.id || 'unknown',
+        email: authUser.email || '',
+        name: authUser.name || 'Unknown',
+      })
+    }
+
     const contentType = version.contentType as ContentType
     const contentId = version.contentId
     const versionData = version.data as Record<string, unknown>
@@ -94,8 +299,23 @@ export async function POST(
     const restorationData = { ...versionData }
     delete restorationData.id
     delete restorationData.createdAt
+    // Keep the current publish state and schedule rather than reviving an
+    // old one; publishing goes through review
+    delete restorationData.isPublished
+    delete restorationData.publishedAt
+    delete restorationData.scheduledPublishAt
+    delete restorationData.scheduledUnpublishAt
+    delete restorationData.revision
+    // Kept up to date by payments and refunds; an old total would undo them
+    delete restorationData.donationRaised
     restorationData.updatedAt = new Date()
 
+    const user = {
+      id: authUser.id || 'unknown',
+      email: authUser.email || '',
+      name: authUser.name || 'Unknown',
+    }
+
     // Get the current data before restoration
     const [currentContent] = await db
       .select()
@@ -103,6 +323,27 @@ export async function POST(
       .where(eq(table.id, contentId))
       .limit(1)
 
+    const held = !!currentContent && await holdRestoreForReview(
+      contentType,
+      table,
+      currentContent as Record<string, unknown> & { id: string },
+      restorationData,
+      getContentTitle(currentContent as Record<string, unknown>, contentId),
+      user,
+      {
+        description: `Restored ${contentType.replace(/_/g, ' ')} to version ${version.versionNumber}`,
+        metadata: { restoredFromVersion: version.versionNumber, restoredFromId: version.id },
+      }
+    )
+    if (held) {
+      return NextResponse.json({
+        success: true,
+        pendingReview: true,
+        message: `Content restored to version ${version.versionNumber}. The changes go live once another admin approves them.`,
+        content: currentContent,
+      })
+    }
+
     if (!currentContent) {
       // Content was deleted, we need to re-create it
       // This is a special case for deleted content restoration
@@ -117,7 +358,7 @@ export async function POST(
       // Update existing content
       await db
         .update(table)
-        .set(restorationData as Partial<typeof table.$inferInsert>)
+        .set({ ...restorationData, ...revisionBump(table) } as Partial<typeof table.$inferInsert>)
         .where(eq(table.id, contentId))
     }
 
@@ -129,12 +370,6 @@ export async function POST(
       .limit(1)
 
     // Create a new version for the restoration
-    const user = {
-      id: authUser.id || 'unknown',
-      email: authUser.email || '',
-      name: authUser.name || 'Unknown',
-    }
-
     await createVersion(
       contentType,
       contentId,
@@ -163,6 +398,16 @@ export async function POST(
       }
     )
 
+    // Restored content is a draft edit, so it goes (back) through review
+    const reviewType = resolveReviewContentType(contentType)
+    if (reviewType) {
+      await recordReviewedSave(reviewType, contentId, {
+        changeType: 'update',
+        contentChanged: true,
+        title: getContentTitle(restoredContent as Record<string, unknown>, contentId),
+      }, user)
+    }
+
     return NextResponse.json({
       success: true,
       message: `Content restored to version ${version.versionNumber}`,
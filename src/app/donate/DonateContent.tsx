@@ -6,6 +6,8 @@ import Image from 'next/image'
 import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useTranslations, useLocale } from 'next-intl'
+import { TRIBUTE_TYPES, type TributeType } from '@/lib/tribute-format'
+import ZakatCalculator from './ZakatCalculator'
 
 // Types
 interface Project {
@@ -168,10 +170,30 @@ function ProjectCard({
   )
 }
 
+interface TributeDetails {
+  enabled: boolean
+  type: TributeType
+  name: string
+  recipientEmail: string
+  message: string
+}
+
+const inputClassName = 'w-full px-4 py-3.5 rounded-xl bg-gray-50 border border-gray-200 focus:bg-white focus:border-teal-500 focus:ring-2 focus:ring-teal-500/20 transition-all outline-none'
+
+interface DonorDetails {
+  name: string
+  email: string
+  phone: string
+  isAnonymous: boolean
+  recoveryEmailConsent: boolean
+}
+
 // Donor Form Step Component
 function DonorForm({
   donor,
   setDonor,
+  tribute,
+  setTribute,
   onSubmit,
   onBack,
   isSubmitting,
@@ -179,9 +201,12 @@ function DonorForm({
   displayAmount,
   selectedProject,
   locale,
+  frequency,
 }: {
-  donor: { name: string; email: string; phone: string; isAnonymous: boolean }
-  setDonor: (donor: { name: string; email: string; phone: string; isAnonymous: boolean }) => void
+  donor: DonorDetails
+  setDonor: (donor: DonorDetails) => void
+  tribute: TributeDetails
+  setTribute: (tribute: TributeDetails) => void
   onSubmit: () => void
   onBack: () => void
   isSubmitting: boolean
@@ -189,6 +214,7 @@ function DonorForm({
   displayAmount: number
   selectedProject: Project | null
   locale: string
+  frequency: 'one-time' | 'monthly'
 }) {
   const t = useTranslations('donate')
 
@@ -211,7 +237,12 @@ function DonorForm({
         </div>
         <div className="text-right">
           <p className="text-sm text-gray-600">{t('form.amount')}</p>
-          <p className="text-2xl font-bold text-teal-600">{formatCurrency(displayAmount)}</p>
+          <p className="text-2xl font-bold text-teal-600">
+            {formatCurrency(displayAmount)}
+            {frequency === 'monthly' && (
+              <span className="text-sm font-medium text-teal-500"> {t('frequency.perMonth')}</span>
+            )}
+          </p>
         </div>
       </div>
 
@@ -311,6 +342,105 @@ function DonorForm({
         </div>
       )}
 
+      {/* Reminder consent (monthly pay links are always emailed) */}
+      {frequency === 'one-time' && (
+        <label className="flex items-start gap-3 text-sm text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            className="mt-0.5 w-4 h-4 rounded border-gray-300 text-teal-500 focus:ring-teal-500"
+            checked={donor.recoveryEmailConsent}
+            onChange={(e) => setDonor({ ...donor, recoveryEmailConsent: e.target.checked })}
+          />
+          <span>{t('form.recoveryEmails')}</span>
+        </label>
+      )}
+
+      {/* Tribute Toggle */}
+      <label className="flex items-center gap-3 p-4 rounded-xl border border-gray-200 hover:border-teal-200 hover:bg-teal-50/30 cursor-pointer transition-all">
+        <div className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${
+          tribute.enabled ? 'bg-teal-500 border-teal-500' : 'border-gray-300'
+        }`}>
+          {tribute.enabled && (
+            <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+            </svg>
+          )}
+        </div>
+        <input
+          type="checkbox"
+          className="hidden"
+          checked={tribute.enabled}
+          onChange={(e) => setTribute({ ...tribute, enabled: e.target.checked })}
+        />
+        <div className="flex-1">
+          <span className="font-medium text-gray-900">{t('tribute.toggle')}</span>
+          <p className="text-sm text-gray-500">{t('tribute.toggleDescription')}</p>
+        </div>
+      </label>
+
+      {/* Tribute Details */}
+      {tribute.enabled && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          exit={{ opacity: 0, height: 0 }}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-xl">
+            {TRIBUTE_TYPES.map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setTribute({ ...tribute, type })}
+                className={`py-2.5 rounded-lg text-sm font-semibold transition-all ${
+                  tribute.type === type ? 'bg-white text-teal-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {type === 'in_memory' ? t('tribute.inMemory') : t('tribute.inHonour')}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('tribute.name')} *</label>
+            <input
+              type="text"
+              maxLength={150}
+              className={inputClassName}
+              placeholder={t('tribute.namePlaceholder')}
+              value={tribute.name}
+              onChange={(e) => setTribute({ ...tribute, name: e.target.value })}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('tribute.recipientEmail')}</label>
+            <input
+              type="email"
+              className={inputClassName}
+              placeholder={t('tribute.recipientEmailPlaceholder')}
+              value={tribute.recipientEmail}
+              onChange={(e) => setTribute({ ...tribute, recipientEmail: e.target.value })}
+            />
+            <p className="mt-1.5 text-xs text-gray-500">{t('tribute.recipientEmailNote')}</p>
+          </div>
+
+          {tribute.recipientEmail && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('tribute.message')}</label>
+              <textarea
+                rows={3}
+                maxLength={500}
+                className={`${inputClassName} resize-none`}
+                placeholder={t('tribute.messagePlaceholder')}
+                value={tribute.message}
+                onChange={(e) => setTribute({ ...tribute, message: e.target.value })}
+              />
+            </div>
+          )}
+        </motion.div>
+      )}
+
       {/* Action Buttons */}
       <div className="flex gap-3 pt-4">
         <button
@@ -366,14 +496,28 @@ function DonorForm({
 }
 
 // Main Donate Content Component
+interface DonorFund {
+  id: string
+  code: string
+  type: string // zakat, waqf or sedekah
+  name: { en: string; ms: string }
+  description: { en: string; ms: string } | null
+}
+
 interface DonateContentProps {
   donationsClosed?: boolean
   closureReason?: { en: string; ms: string } | null
+  funds?: DonorFund[]
+  restrictedProjectIds?: string[] // Projects whose sedekah is held in their own fund
+  zakatNisab: number
 }
 
 export default function DonateContent({
   donationsClosed = false,
   closureReason = null,
+  funds = [],
+  restrictedProjectIds = [],
+  zakatNisab,
 }: DonateContentProps) {
   const t = useTranslations('donate')
   const locale = useLocale()
@@ -389,14 +533,32 @@ export default function DonateContent({
   const [amount, setAmount] = useState<number>(100)
   const [customAmount, setCustomAmount] = useState<string>('')
   const [step, setStep] = useState<'select' | 'amount' | 'details'>('select')
-  const [donor, setDonor] = useState({ name: '', email: '', phone: '', isAnonymous: false })
+  const [frequency, setFrequency] = useState<'one-time' | 'monthly'>('one-time')
+  const [donor, setDonor] = useState<DonorDetails>({ name: '', email: '', phone: '', isAnonymous: false, recoveryEmailConsent: false })
+  const [tribute, setTribute] = useState<TributeDetails>({
+    enabled: false,
+    type: 'in_memory',
+    name: '',
+    recipientEmail: '',
+    message: '',
+  })
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
   // Check for pre-selected project from URL
   const preselectedProjectId = searchParams.get('project')
+  const campaignId = searchParams.get('campaign') // Set when arriving from a campaign page
+  const fundraiserId = searchParams.get('fundraiser') // Set when arriving from a supporter's fundraiser page
   const wasCancelled = searchParams.get('cancelled') === 'true'
 
+  // Fund designation, optionally preselected by code (e.g. ?fund=zakat)
+  const [fundId, setFundId] = useState<string | null>(() => {
+    const code = searchParams.get('fund')
+    return funds.find(f => f.code === code)?.id || funds.find(f => f.type === 'sedekah')?.id || funds[0]?.id || null
+  })
+  const [showZakatCalculator, setShowZakatCalculator] = useState(false)
+  const selectedFund = funds.find(f => f.id === fundId) || null
+
   // Computed values
   const displayAmount = customAmount ? parseFloat(customAmount) || 0 : amount
   const selectedProject = useMemo(() =>
@@ -463,6 +625,11 @@ export default function DonateContent({
       return
     }
 
+    if (tribute.enabled && !tribute.name.trim()) {
+      setError(t('tribute.nameRequired'))
+      return
+    }
+
     setIsSubmitting(true)
     setError(null)
 
@@ -474,6 +641,8 @@ export default function DonateContent({
           amount: displayAmount,
           currency: 'MYR',
           projectId: selectedProjectId,
+          campaignId: campaignId || undefined,
+          fundraiserId: fundraiserId || undefined,
           program: selectedProject
             ? getLocalizedString(selectedProject.title, locale)
             : t('generalFund.title'),
@@ -481,7 +650,18 @@ export default function DonateContent({
           donorEmail: donor.email,
           donorPhone: donor.phone || undefined,
           isAnonymous: donor.isAnonymous,
-          donationType: 'one-time',
+          recoveryEmailConsent: frequency === 'one-time' && donor.recoveryEmailConsent,
+          fundId: fundId || undefined,
+          tribute: tribute.enabled
+            ? {
+                type: tribute.type,
+                name: tribute.name,
+                recipientEmail: tribute.recipientEmail || undefined,
+                message: tribute.recipientEmail ? tribute.message || undefined : undefined,
+              }
+            : undefined,
+          donationType: frequency,
+          locale,
         }),
       })
 
@@ -802,6 +982,84 @@ export default function DonateContent({
                       </button>
                     </div>
 
+                    {/* Frequency Toggle */}
+                    <div className="flex justify-center mb-2">
+                      <div className="inline-flex p-1 bg-gray-100 rounded-xl">
+                        {(['one-time', 'monthly'] as const).map((option) => (
+                          <button
+                            key={option}
+                            onClick={() => setFrequency(option)}
+                            className={`px-6 py-2 rounded-lg text-sm font-semibold transition-all ${
+                              frequency === option
+                                ? 'bg-white text-teal-700 shadow'
+                                : 'text-gray-500 hover:text-gray-700'
+                            }`}
+                          >
+                            {option === 'monthly' ? t('frequency.monthly') : t('frequency.oneTime')}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {frequency === 'monthly' && (
+                      <p className="text-center text-sm text-gray-500">{t('frequency.monthlyNote')}</p>
+                    )}
+
+                    {/* Fund Designation */}
+                    {funds.length > 0 && (
+                      <div className="mt-6">
+                        <p className="text-sm font-medium text-gray-500 uppercase tracking-wider text-center mb-3">
+                          {t('fund.title')}
+                        </p>
+                        <div className="flex flex-wrap justify-center gap-2">
+                          {funds.map((fund) => (
+                            <button
+                              key={fund.id}
+                              onClick={() => {
+                                setFundId(fund.id)
+                                if (fund.type !== 'zakat') setShowZakatCalculator(false)
+                              }}
+                              className={`px-4 py-2 rounded-xl text-sm font-semibold border transition-all ${
+                                fundId === fund.id
+                                  ? 'bg-teal-50 border-teal-500 text-teal-700'
+                                  : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                              }`}
+                            >
+                              {getLocalizedString(fund.name, locale)}
+                            </button>
+                          ))}
+                        </div>
+                        {selectedFund?.description && (
+                          <p className="mt-2 text-center text-sm text-gray-500">
+                            {getLocalizedString(selectedFund.description, locale)}
+                          </p>
+                        )}
+                        {selectedFund?.type === 'sedekah' && selectedProjectId && restrictedProjectIds.includes(selectedProjectId) && (
+                          <p className="mt-2 text-center text-xs text-gray-500">{t('fund.restrictedNote')}</p>
+                        )}
+                        {selectedFund?.type === 'zakat' && (
+                          <div className="mt-4">
+                            <button
+                              onClick={() => setShowZakatCalculator(!showZakatCalculator)}
+                              className="block mx-auto text-sm font-medium text-emerald-700 hover:text-emerald-800 mb-3"
+                            >
+                              {showZakatCalculator ? t('zakat.close') : t('zakat.open')}
+                            </button>
+                            <AnimatePresence>
+                              {showZakatCalculator && (
+                                <ZakatCalculator
+                                  nisab={zakatNisab}
+                                  onUseAmount={(zakat) => {
+                                    handleCustomChange(zakat.toFixed(2))
+                                    setShowZakatCalculator(false)
+                                  }}
+                                />
+                              )}
+                            </AnimatePresence>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {/* Amount Display */}
                     <div className="text-center py-8">
                       <label className="text-sm font-medium text-gray-500 uppercase tracking-wider block mb-4">
@@ -949,6 +1207,8 @@ export default function DonateContent({
                     <DonorForm
                       donor={donor}
                       setDonor={setDonor}
+                      tribute={tribute}
+                      setTribute={setTribute}
                       onSubmit={handleSubmit}
                       onBack={() => setStep('amount')}
                       isSubmitting={isSubmitting}
@@ -956,6 +1216,7 @@ export default function DonateContent({
                       displayAmount={displayAmount}
                       selectedProject={selectedProject}
                       locale={locale}
+                      frequency={frequency}
                     />
                   </motion.div>
                 )}
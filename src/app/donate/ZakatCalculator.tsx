@@ -0,0 +1,101 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { calculateZakat, type ZakatAssets } from '@/lib/zakat'
+
+const fields: (keyof ZakatAssets)[] = ['savings', 'gold', 'investments', 'business', 'debts']
+
+function formatRM(amount: number) {
+  return `RM ${amount.toLocaleString('en-MY', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+/**
+ * Zakat on wealth calculator. Fills the donation amount with the zakat due.
+ */
+export default function ZakatCalculator({
+  nisab,
+  onUseAmount,
+}: {
+  nisab: number
+  onUseAmount: (amount: number) => void
+}) {
+  const t = useTranslations('donate.zakat')
+  const [values, setValues] = useState<Record<keyof ZakatAssets, string>>({
+    savings: '',
+    gold: '',
+    investments: '',
+    business: '',
+    debts: '',
+  })
+
+  const result = calculateZakat({
+    savings: parseFloat(values.savings) || 0,
+    gold: parseFloat(values.gold) || 0,
+    investments: parseFloat(values.investments) || 0,
+    business: parseFloat(values.business) || 0,
+    debts: parseFloat(values.debts) || 0,
+  }, nisab)
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="p-5 bg-emerald-50/60 border border-emerald-100 rounded-xl space-y-4"
+    >
+      <p className="text-sm text-gray-600">{t('intro')}</p>
+
+      <div className="grid sm:grid-cols-2 gap-3">
+        {fields.map((field) => (
+          <div key={field}>
+            <label className="block text-xs font-medium text-gray-600 mb-1">{t(field)}</label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm">RM</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={values[field]}
+                onChange={(e) => setValues({ ...values, [field]: e.target.value.replace(/[^0-9.]/g, '') })}
+                className="w-full pl-10 pr-3 py-2.5 rounded-lg bg-white border border-gray-200 focus:border-emerald-500 focus:ring-2 focus:ring-emerald-500/20 outline-none text-sm"
+                placeholder="0"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="pt-3 border-t border-emerald-100 space-y-1 text-sm">
+        <div className="flex justify-between text-gray-600">
+          <span>{t('netWealth')}</span>
+          <span>{formatRM(result.netWealth)}</span>
+        </div>
+        <div className="flex justify-between text-gray-600">
+          <span>{t('nisab')}</span>
+          <span>{formatRM(result.nisab)}</span>
+        </div>
+        <div className="flex justify-between font-semibold text-emerald-800 text-base">
+          <span>{t('due')}</span>
+          <span>{formatRM(result.zakat)}</span>
+        </div>
+      </div>
+
+      {result.netWealth > 0 && !result.eligible && (
+        <p className="text-sm text-gray-600">{t('belowNisab')}</p>
+      )}
+
+      {result.zakat >= 1 && (
+        <button
+          type="button"
+          onClick={() => onUseAmount(result.zakat)}
+          className="w-full py-2.5 rounded-lg bg-emerald-600 text-white font-semibold hover:bg-emerald-700 transition-colors"
+        >
+          {t('useAmount')}
+        </button>
+      )}
+
+      <p className="text-xs text-gray-500">{t('disclaimer')}</p>
+    </motion.div>
+  )
+}
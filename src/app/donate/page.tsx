@@ -3,6 +3,8 @@ import { Suspense } from 'react'
 import { Header, Footer } from '@/components/layout'
 import DonateContent from './DonateContent'
 import { getSiteSetting } from '@/lib/actions/content'
+import { getDonorFunds, getRestrictedProjectIds } from '@/lib/funds'
+import { parseZakatNisab } from '@/lib/zakat'
 
 // Force dynamic to prevent prerender errors during build
 export const dynamic = 'force-dynamic'
@@ -26,10 +28,15 @@ function DonateLoading() {
 }
 
 export default async function DonatePage() {
-  const donationClosedSetting = await getSiteSetting('donationsClosed') as {
-    closed: boolean
-    reason: { en: string; ms: string } | null
-  } | null
+  const [donationClosedSetting, donorFunds, restrictedProjectIds, nisabSetting] = await Promise.all([
+    getSiteSetting('donationsClosed') as Promise<{
+      closed: boolean
+      reason: { en: string; ms: string } | null
+    } | null>,
+    getDonorFunds(),
+    getRestrictedProjectIds(),
+    getSiteSetting('zakatNisab'),
+  ])
 
   return (
     <>
@@ -39,6 +46,9 @@ export default async function DonatePage() {
           <DonateContent
             donationsClosed={donationClosedSetting?.closed ?? false}
             closureReason={donationClosedSetting?.reason ?? null}
+            funds={donorFunds}
+            restrictedProjectIds={restrictedProjectIds}
+            zakatNisab={parseZakatNisab(nisabSetting)}
           />
         </Suspense>
       </main>
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Donation Widget Loader
+ *
+ * GET /embed.js - Script partner sites add to show the donation widget:
+ *
+ *   <div data-yip-donate data-project="clean-water" data-amounts="50,100,200" data-locale="ms"></div>
+ *   <script src="https://www.insanprihatin.org/embed.js" async></script>
+ *
+ * Each placeholder becomes an iframe of /[locale]/embed/donate that resizes
+ * to fit its content. data-variant="button" starts with a single button.
+ * The iframe only loads on sites listed in EMBED_ALLOWED_ORIGINS.
+ */
+
+function loaderScript(baseUrl: string): string {
+  return `(function () {
+  var BASE_URL = ${JSON.stringify(baseUrl)};
+  var frames = [];
+
+  function render(el) {
+    if (el.getAttribute('data-yip-rendered')) return;
+    el.setAttribute('data-yip-rendered', 'true');
+
+    var locale = el.getAttribute('data-locale') === 'ms' ? 'ms' : 'en';
+    var params = new URLSearchParams();
+    ['project', 'amounts', 'variant'].forEach(function (name) {
+      var value = el.getAttribute('data-' + name);
+      if (value) params.set(name, value);
+    });
+    params.set('site', window.location.origin);
+
+    var iframe = document.createElement('iframe');
+    iframe.src = BASE_URL + '/' + locale + '/embed/donate?' + params.toString();
+    iframe.title = locale === 'ms' ? 'Derma kepada Yayasan Insan Prihatin' : 'Donate to Yayasan Insan Prihatin';
+    iframe.loading = 'lazy';
+    iframe.style.width = '100%';
+    iframe.style.maxWidth = '420px';
+    iframe.style.height = el.getAttribute('data-variant') === 'button' ? '64px' : '560px';
+    iframe.style.border = '0';
+    iframe.style.colorScheme = 'normal';
+    el.appendChild(iframe);
+    frames.push(iframe);
+  }
+
+  window.addEventListener('message', function (event) {
+    if (event.origin !== BASE_URL || !event.data || event.data.type !== 'yip-donate:resize') return;
+    frames.forEach(function (iframe) {
+      if (iframe.contentWindow === event.source && typeof event.data.height === 'number') {
+        iframe.style.height = Math.ceil(event.data.height) + 'px';
+      }
+    });
+  });
+
+  function init() {
+    document.querySelectorAll('[data-yip-donate]').forEach(render);
+  }
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', init);
+  } else {
+    init();
+  }
+})();
+`
+}
+
+export function GET(request: NextRequest) {
+  // The host the script was loaded from (www after the apex redirect), so
+  // resize messages from the iframe match its origin
+  return new NextResponse(loaderScript(request.nextUrl.origin), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/javascript; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600',
+    },
+  })
+}
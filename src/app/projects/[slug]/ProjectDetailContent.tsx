@@ -32,6 +32,7 @@ type Project = {
   beneficiaries: number | null
   location: string | null
   isPublished: boolean | null
+  donationEnabled?: boolean | null
   metaTitle: LocalizedString | string | null
   metaDescription: LocalizedString | string | null
   createdAt: Date
@@ -316,6 +317,14 @@ export default function ProjectDetailContent({ project, relatedProjects, forms =
                 <p className="text-gray-500">
                   Your contribution can help us reach more communities.
                 </p>
+                {project.donationEnabled && (
+                  <Link
+                    href={`/fundraise?project=${project.id}`}
+                    className="inline-block mt-2 text-sm font-medium text-teal-600 hover:text-teal-700"
+                  >
+                    Start a fundraiser for this project →
+                  </Link>
+                )}
               </div>
               <div className="flex gap-4">
                 <Link href="/donate" className="btn-primary">
@@ -0,0 +1,24 @@
+'use client'
+
+import type { DiffPart } from '@/lib/version-diff'
+
+// One side of a field diff: removals on the left, additions on the right
+export default function DiffColumn({ parts, side }: { parts: DiffPart[]; side: 'old' | 'new' }) {
+  const changed = side === 'old' ? 'removed' : 'added'
+  return (
+    <pre className="bg-gray-50 rounded-xl p-3 text-xs font-mono whitespace-pre-wrap break-words max-h-80 overflow-y-auto">
+      {parts
+        .filter((part) => part.type === 'equal' || part.type === changed)
+        .map((part, index) => part.type === 'equal' ? (
+          <span key={index} className="text-gray-600">{part.value}</span>
+        ) : (
+          <span
+            key={index}
+            className={side === 'old' ? 'bg-red-100 text-red-800 line-through decoration-red-300' : 'bg-emerald-100 text-emerald-800'}
+          >
+            {part.value}
+          </span>
+        ))}
+    </pre>
+  )
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import DiffColumn from '@/components/admin/DiffColumn'
+import { diffText } from '@/lib/version-diff'
+import type { ConflictChoice, MergeConflict } from '@/lib/content-merge'
+
+interface EditConflictDialogProps {
+  conflicts: MergeConflict[]
+  changedByName: string | null
+  changedAt: Date
+  // Labels for the editor's fields, e.g. { key: 'title', label: 'Title' }
+  fields: { key: string; label: string }[]
+  onResolve: (choices: Record<string, ConflictChoice>) => void
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'string') return value
+  return JSON.stringify(value, null, 2)
+}
+
+// Settles the fields another admin changed differently while this editor was open
+export default function EditConflictDialog({
+  conflicts,
+  changedByName,
+  changedAt,
+  fields,
+  onResolve,
+}: EditConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({})
+  const who = changedByName || 'Another admin'
+  const fieldLabel = (key: string) => fields.find(field => field.key === key)?.label || key
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-white rounded-2xl max-w-5xl w-full max-h-[90vh] flex flex-col shadow-xl"
+      >
+        <div className="px-6 py-4 border-b border-gray-100">
+          <h3 className="font-heading text-lg font-semibold text-foundation-charcoal">Conflicting changes</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            {who} saved changes at {new Date(changedAt).toLocaleString('en-MY', { dateStyle: 'medium', timeStyle: 'short' })}.
+            {' '}Their other changes have been merged with yours; choose which version to keep where you both changed the same thing.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {conflicts.map(conflict => {
+            const parts = diffText(toText(conflict.theirs), toText(conflict.mine))
+            const choice = choices[conflict.key] || 'mine'
+            return (
+              <div key={conflict.key} className="border border-gray-100 rounded-xl p-4">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  <h4 className="font-medium text-foundation-charcoal">
+                    {fieldLabel(conflict.field)}
+                    {conflict.locale && (
+                      <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs font-normal">
+                        {conflict.locale === 'ms' ? 'BM' : 'EN'}
+                      </span>
+                    )}
+                  </h4>
+                  <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+                    {(['theirs', 'mine'] as const).map(side => (
+                      <button
+                        key={side}
+                        type="button"
+                        onClick={() => setChoices({ ...choices, [conflict.key]: side })}
+                        className={`px-3 py-1.5 transition-colors ${choice === side ? 'bg-teal-500 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                      >
+                        {side === 'mine' ? 'Keep mine' : 'Use theirs'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid md:grid-cols-2 gap-3">
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 mb-1">Saved by {who}</p>
+                    <DiffColumn parts={parts} side="old" />
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 mb-1">Yours</p>
+                    <DiffColumn parts={parts} side="new" />
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between gap-3">
+          <p className="text-xs text-gray-500">Nothing is saved until you save the form again.</p>
+          <button
+            type="button"
+            onClick={() => onResolve(choices)}
+            className="px-5 py-2 bg-teal-500 text-white rounded-xl hover:bg-teal-600 transition-colors text-sm font-medium"
+          >
+            Apply choices
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  )
+}
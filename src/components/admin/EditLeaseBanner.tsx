@@ -0,0 +1,55 @@
+'use client'
+
+import type { EditLeaseInfo } from '@/lib/edit-leases'
+import type { EditLeaseStatus } from '@/hooks/useEditLease'
+
+interface EditLeaseBannerProps {
+  status: EditLeaseStatus
+  lease: EditLeaseInfo | null
+  isTakingOver: boolean
+  onTakeOver: () => void
+  noun: string // 'post' or 'project'
+  className?: string
+}
+
+function formatTime(date: Date) {
+  return new Date(date).toLocaleTimeString('en-MY', {
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+// Shown when another admin holds the edit lease on the content
+export default function EditLeaseBanner({ status, lease, isTakingOver, onTakeOver, noun, className = '' }: EditLeaseBannerProps) {
+  if (status !== 'locked' && status !== 'lost') return null
+
+  const holder = lease?.holderName || 'Another admin'
+  const lost = status === 'lost'
+
+  return (
+    <div className={`px-6 py-3 border-b text-sm ${lost ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'} ${className}`}>
+      <div className="max-w-7xl mx-auto flex flex-wrap items-center justify-between gap-3">
+        <p>
+          {lease ? (
+            <>
+              <span className="font-medium">{holder}</span>
+              {lost ? ` took over editing this ${noun} at ` : ` has been editing this ${noun} since `}
+              {formatTime(lease.acquiredAt)}.
+            </>
+          ) : (
+            `Someone else is editing this ${noun}.`
+          )}
+          {' '}Auto-save is paused. If you save, changes made since you opened it will be checked for conflicts.
+        </p>
+        <button
+          type="button"
+          onClick={onTakeOver}
+          disabled={isTakingOver}
+          className={`px-4 py-1.5 rounded-lg font-medium transition-colors disabled:opacity-50 ${lost ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-amber-500 text-white hover:bg-amber-600'}`}
+        >
+          {isTakingOver ? 'Taking over...' : lost ? 'Take back' : 'Take over'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+'use client'
+
+import { useEffect, useState, useTransition } from 'react'
+import { createPreviewLink, getPreviewLinks, revokePreviewLink } from '@/lib/actions/previews'
+import type { PreviewContentType, PreviewLinkStatus, PreviewLinkSummary } from '@/lib/preview-links'
+
+interface PreviewLinksPanelProps {
+  contentType: PreviewContentType
+  contentId: string
+}
+
+const STATUS_STYLES: Record<PreviewLinkStatus, { label: string; badge: string }> = {
+  active: { label: 'Active', badge: 'bg-emerald-100 text-emerald-700' },
+  expired: { label: 'Expired', badge: 'bg-gray-100 text-gray-600' },
+  revoked: { label: 'Revoked', badge: 'bg-red-100 text-red-700' },
+}
+
+// Matches PREVIEW_TTL_DAYS in preview-links
+const EXPIRY_DAYS = [1, 7, 30]
+
+const formatDateTime = (value: Date | string) =>
+  new Date(value).toLocaleString('en-MY', { dateStyle: 'medium', timeStyle: 'short' })
+
+export default function PreviewLinksPanel({ contentType, contentId }: PreviewLinksPanelProps) {
+  const [isPending, startTransition] = useTransition()
+  const [links, setLinks] = useState<PreviewLinkSummary[]>([])
+  const [label, setLabel] = useState('')
+  const [ttlDays, setTtlDays] = useState(7)
+  const [expandedLinkId, setExpandedLinkId] = useState<string | null>(null)
+  const [copied, setCopied] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    async function loadLinks() {
+      try {
+        setLinks(await getPreviewLinks(contentType, contentId))
+      } catch (error) {
+        console.error('Failed to load preview links:', error)
+      }
+    }
+    loadLinks()
+  }, [contentType, contentId, reloadKey])
+
+  const previewUrl = (token: string, locale: 'en' | 'ms') =>
+    `${window.location.origin}/${locale}/preview?token=${encodeURIComponent(token)}`
+
+  const copyLink = async (link: PreviewLinkSummary, locale: 'en' | 'ms') => {
+    if (!link.token) return
+    await navigator.clipboard.writeText(previewUrl(link.token, locale))
+    setCopied(`${link.id}-${locale}`)
+    setTimeout(() => setCopied(null), 2000)
+  }
+
+  const run = (action: () => Promise<{ success: boolean; error?: string }>, after?: () => void) => {
+    setError(null)
+    startTransition(async () => {
+      try {
+        const result = await action()
+        if (!result.success) {
+          setError(result.error || 'Something went wrong')
+          return
+        }
+        after?.()
+        setReloadKey(key => key + 1)
+      } catch (err) {
+        console.error('Preview link action failed:', err)
+        setError('Something went wrong. Please try again.')
+      }
+    })
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(() => createPreviewLink(contentType, contentId, { label, ttlDays }), () => setLabel(''))
+  }
+
+  const handleRevoke = (link: PreviewLinkSummary) => {
+    if (!confirm(`Revoke this preview link${link.label ? ` for ${link.label}` : ''}? Anyone using it will no longer be able to open it.`)) return
+    run(() => revokePreviewLink(link.id))
+  }
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 overflow-hidden">
+      <div className="px-5 py-4 border-b border-gray-100">
+        <h3 className="font-medium text-foundation-charcoal">Preview Links</h3>
+        <p className="text-xs text-gray-500">Share this draft without publishing it</p>
+      </div>
+
+      <div className="p-5 space-y-4">
+        {error && (
+          <div className="p-3 rounded-xl text-sm bg-red-50 border border-red-200 text-red-700">{error}</div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-2">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            maxLength={100}
+            placeholder="Shared with, e.g. Board of Trustees"
+            className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+          />
+          <div className="flex gap-2">
+            <select
+              value={ttlDays}
+              onChange={(e) => setTtlDays(Number(e.target.value))}
+              aria-label="Expires after"
+              className="flex-1 min-w-0 px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+            >
+              {EXPIRY_DAYS.map(days => (
+                <option key={days} value={days}>Expires in {days} {days === 1 ? 'day' : 'days'}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={isPending}
+              className="px-4 py-2 bg-teal-500 text-white rounded-xl hover:bg-teal-600 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              Create Link
+            </button>
+          </div>
+        </form>
+
+        {links.length > 0 && (
+          <ul className="space-y-2 pt-4 border-t border-gray-100">
+            {links.map(link => {
+              const style = STATUS_STYLES[link.status]
+              const isExpanded = expandedLinkId === link.id
+              return (
+                <li key={link.id} className="p-3 rounded-xl border border-gray-200 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-900 truncate">{link.label || 'Preview link'}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${style.badge}`}>
+                      {style.label}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    By {link.createdByName || link.createdByEmail}
+                    {' · '}
+                    {link.status === 'revoked' && link.revokedAt
+                      ? `revoked ${formatDateTime(link.revokedAt)}`
+                      : `${link.status === 'expired' ? 'expired' : 'expires'} ${formatDateTime(link.expiresAt)}`}
+                  </p>
+
+                  {link.token && (
+                    <div className="flex gap-2 mt-2">
+                      {(['en', 'ms'] as const).map(locale => (
+                        <button
+                          key={locale}
+                          type="button"
+                          onClick={() => copyLink(link, locale)}
+                          className="flex-1 px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-xs font-medium"
+                        >
+                          {copied === `${link.id}-${locale}` ? 'Copied!' : `Copy ${locale === 'en' ? 'EN' : 'BM'} link`}
+                        </button>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(link)}
+                        disabled={isPending}
+                        className="px-3 py-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors text-xs font-medium disabled:opacity-50"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  )}
+
+                  <button
+                    type="button"
+                    onClick={() => setExpandedLinkId(isExpanded ? null : link.id)}
+                    disabled={link.viewCount === 0}
+                    className="mt-2 text-xs text-teal-600 hover:text-teal-800 font-medium disabled:text-gray-400"
+                  >
+                    {link.viewCount === 0
+                      ? 'Not opened yet'
+                      : `Opened ${link.viewCount} ${link.viewCount === 1 ? 'time' : 'times'}${isExpanded ? '' : ' · show'}`}
+                  </button>
+
+                  {isExpanded && (
+                    <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                      {link.views.map(view => (
+                        <li key={view.id} className="flex justify-between gap-2">
+                          <span className="truncate" title={view.userAgent || undefined}>
+                            {view.viewerEmail || view.ipAddress || 'Unknown visitor'}
+                            {' '}({view.locale === 'ms' ? 'BM' : 'EN'})
+                          </span>
+                          <span className="text-gray-400 flex-shrink-0">{formatDateTime(view.viewedAt)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
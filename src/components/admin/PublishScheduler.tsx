@@ -7,10 +7,15 @@ interface PublishSchedulerProps {
   isPublished: boolean
   publishedAt: Date | null
   scheduledFor: Date | null
+  scheduledUnpublishAt?: Date | null
   onPublish: () => void
   onUnpublish: () => void
   onSchedule: (date: Date) => void
   onCancelSchedule: () => void
+  // Omit to hide unpublish scheduling
+  onScheduleUnpublish?: (date: Date) => void
+  onCancelUnpublishSchedule?: () => void
+  itemLabel?: string
   isPending?: boolean
 }
 
@@ -18,21 +23,39 @@ export default function PublishScheduler({
   isPublished,
   publishedAt,
   scheduledFor,
+  scheduledUnpublishAt = null,
   onPublish,
   onUnpublish,
   onSchedule,
   onCancelSchedule,
+  onScheduleUnpublish,
+  onCancelUnpublishSchedule,
+  itemLabel = 'post',
   isPending = false,
 }: PublishSchedulerProps) {
   const [showScheduler, setShowScheduler] = useState(false)
+  const [scheduleMode, setScheduleMode] = useState<'publish' | 'unpublish'>('publish')
   const [scheduleDate, setScheduleDate] = useState('')
   const [scheduleTime, setScheduleTime] = useState('')
 
+  const openScheduler = (mode: 'publish' | 'unpublish') => {
+    setScheduleMode(mode)
+    setShowScheduler(true)
+  }
+
   const handleSchedule = () => {
     if (scheduleDate && scheduleTime) {
       const dateTime = new Date(`${scheduleDate}T${scheduleTime}`)
-      if (dateTime > new Date()) {
-        onSchedule(dateTime)
+      // Unpublishing has to come after a pending publish
+      const earliest = scheduleMode === 'unpublish' && scheduledFor && scheduledFor > new Date()
+        ? scheduledFor
+        : new Date()
+      if (dateTime > earliest) {
+        if (scheduleMode === 'unpublish') {
+          onScheduleUnpublish?.(dateTime)
+        } else {
+          onSchedule(dateTime)
+        }
         setShowScheduler(false)
         setScheduleDate('')
         setScheduleTime('')
@@ -49,6 +72,7 @@ export default function PublishScheduler({
 
   // Get minimum date (today)
   const minDate = new Date().toISOString().split('T')[0]
+  const canScheduleUnpublish = !!onScheduleUnpublish && (isPublished || !!scheduledFor) && !scheduledUnpublishAt
 
   return (
     <div className="bg-white rounded-2xl border border-gray-100 overflow-hidden">
@@ -134,6 +158,28 @@ export default function PublishScheduler({
           </div>
         )}
 
+        {scheduledUnpublishAt && (
+          <div className="p-3 bg-amber-50 rounded-xl border border-amber-100">
+            <div className="flex items-start gap-2">
+              <svg className="w-4 h-4 text-amber-600 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <div className="text-sm">
+                <p className="text-amber-800 font-medium">Scheduled to unpublish</p>
+                <p className="text-amber-600">{formatDate(scheduledUnpublishAt)}</p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onCancelUnpublishSchedule}
+              disabled={isPending}
+              className="mt-2 text-xs text-amber-600 hover:text-amber-800 font-medium"
+            >
+              Cancel Schedule
+            </button>
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="space-y-2">
           {!isPublished && !scheduledFor && (
@@ -152,7 +198,7 @@ export default function PublishScheduler({
 
               <button
                 type="button"
-                onClick={() => setShowScheduler(true)}
+                onClick={() => openScheduler('publish')}
                 className="w-full px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors font-medium flex items-center justify-center gap-2"
               >
                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -176,6 +222,19 @@ export default function PublishScheduler({
               {isPending ? 'Unpublishing...' : 'Unpublish'}
             </button>
           )}
+
+          {canScheduleUnpublish && (
+            <button
+              type="button"
+              onClick={() => openScheduler('unpublish')}
+              className="w-full px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors font-medium flex items-center justify-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              Schedule Unpublish
+            </button>
+          )}
         </div>
       </div>
 
@@ -204,10 +263,10 @@ export default function PublishScheduler({
                 </div>
                 <div>
                   <h3 className="font-heading text-lg font-semibold text-foundation-charcoal">
-                    Schedule Publication
+                    {scheduleMode === 'unpublish' ? 'Schedule Unpublish' : 'Schedule Publication'}
                   </h3>
                   <p className="text-sm text-gray-500">
-                    Choose when to publish this post
+                    Choose when to {scheduleMode} this {itemLabel}
                   </p>
                 </div>
               </div>
@@ -241,7 +300,7 @@ export default function PublishScheduler({
                 {scheduleDate && scheduleTime && (
                   <div className="p-3 bg-blue-50 rounded-xl border border-blue-100">
                     <p className="text-sm text-blue-700">
-                      <span className="font-medium">Publish at:</span>{' '}
+                      <span className="font-medium">{scheduleMode === 'unpublish' ? 'Unpublish at:' : 'Publish at:'}</span>{' '}
                       {formatDate(new Date(`${scheduleDate}T${scheduleTime}`))}
                     </p>
                   </div>
@@ -0,0 +1,340 @@
+'use client'
+
+import { useEffect, useState, useTransition } from 'react'
+import {
+  addReviewComment,
+  approveContent,
+  getContentReview,
+  requestChanges,
+  resolveReviewComment,
+  submitForReview,
+} from '@/lib/actions/reviews'
+import type { ContentReview, ReviewComment, ReviewContentType, Reviewer, ReviewStatus } from '@/lib/editorial-review'
+
+interface ReviewPanelProps {
+  contentType: ReviewContentType
+  contentId: string
+  // Fields reviewers can comment on, e.g. { key: 'title', label: 'Title' }
+  fields: { key: string; label: string }[]
+  isPublished: boolean
+}
+
+const STATUS_STYLES: Record<ReviewStatus, { label: string; badge: string; dot: string }> = {
+  draft: { label: 'Draft', badge: 'bg-gray-100 text-gray-700', dot: 'bg-gray-400' },
+  in_review: { label: 'In review', badge: 'bg-blue-100 text-blue-700', dot: 'bg-blue-500 animate-pulse' },
+  changes_requested: { label: 'Changes requested', badge: 'bg-amber-100 text-amber-700', dot: 'bg-amber-500' },
+  approved: { label: 'Approved', badge: 'bg-emerald-100 text-emerald-700', dot: 'bg-emerald-500' },
+  published: { label: 'Published', badge: 'bg-teal-100 text-teal-700', dot: 'bg-teal-500' },
+}
+
+export default function ReviewPanel({ contentType, contentId, fields, isPublished }: ReviewPanelProps) {
+  const [isPending, startTransition] = useTransition()
+  const [review, setReview] = useState<ContentReview | null>(null)
+  const [comments, setComments] = useState<ReviewComment[]>([])
+  const [reviewers, setReviewers] = useState<Reviewer[]>([])
+  const [currentUserEmail, setCurrentUserEmail] = useState('')
+  const [reviewerEmail, setReviewerEmail] = useState('')
+  const [showResolved, setShowResolved] = useState(false)
+  const [commentField, setCommentField] = useState('')
+  const [commentLocale, setCommentLocale] = useState<'' | 'en' | 'ms'>('')
+  const [commentBody, setCommentBody] = useState('')
+  const [changesNote, setChangesNote] = useState<string | null>(null) // null while the form is closed
+  const [error, setError] = useState<string | null>(null)
+
+  const [reloadKey, setReloadKey] = useState(0)
+
+  // Also reloads after the editor publishes or unpublishes, which moves the review on
+  useEffect(() => {
+    async function loadReview() {
+      try {
+        const data = await getContentReview(contentType, contentId)
+        setReview(data.review)
+        setComments(data.comments)
+        setReviewers(data.reviewers)
+        setCurrentUserEmail(data.currentUserEmail)
+      } catch (error) {
+        console.error('Failed to load review:', error)
+      }
+    }
+    loadReview()
+  }, [contentType, contentId, isPublished, reloadKey])
+
+  // Without a review row, content that is already live counts as published
+  const status: ReviewStatus = (review?.status as ReviewStatus) || (isPublished ? 'published' : 'draft')
+  const style = STATUS_STYLES[status]
+  const isAuthor = !!review?.authorEmail && review.authorEmail.toLowerCase() === currentUserEmail.toLowerCase()
+  // Authors and anyone who edited it cannot approve it
+  const cannotApprove = isAuthor || !!review?.editorEmails.includes(currentUserEmail.toLowerCase())
+  const fieldLabel = (key: string | null) => fields.find(field => field.key === key)?.label || key
+  const openComments = comments.filter(comment => !comment.resolvedAt)
+  const visibleComments = showResolved ? comments : openComments
+
+  const run = (action: () => Promise<{ success: boolean; error?: string }>, after?: () => void) => {
+    setError(null)
+    startTransition(async () => {
+      try {
+        const result = await action()
+        if (!result.success) {
+          setError(result.error || 'Something went wrong')
+          return
+        }
+        after?.()
+        setReloadKey(key => key + 1)
+      } catch (err) {
+        console.error('Review action failed:', err)
+        setError('Something went wrong. Please try again.')
+      }
+    })
+  }
+
+  const handleRequestChanges = () => {
+    run(() => requestChanges(contentType, contentId, changesNote || undefined), () => setChangesNote(null))
+  }
+
+  const handleAddComment = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!commentBody.trim()) return
+    run(
+      () => addReviewComment(contentType, contentId, {
+        field: commentField || null,
+        locale: commentLocale || null,
+        body: commentBody,
+      }),
+      () => setCommentBody('')
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 overflow-hidden">
+      {/* Header */}
+      <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between gap-3">
+        <div>
+          <h3 className="font-medium text-foundation-charcoal">Review</h3>
+          <p className="text-xs text-gray-500">Needs approval from another admin before publishing</p>
+        </div>
+        <span className={`px-3 py-1 rounded-full text-xs font-medium inline-flex items-center gap-1.5 flex-shrink-0 ${style.badge}`}>
+          <span className={`w-1.5 h-1.5 rounded-full ${style.dot}`} />
+          {style.label}
+        </span>
+      </div>
+
+      <div className="p-5 space-y-4">
+        {error && (
+          <div className="p-3 rounded-xl text-sm bg-red-50 border border-red-200 text-red-700">{error}</div>
+        )}
+
+        {review?.pendingChanges && (
+          <p className="p-3 rounded-xl text-sm bg-blue-50 border border-blue-200 text-blue-700">
+            Edits to the live version are held until another admin approves them.
+          </p>
+        )}
+
+        {/* Who is involved */}
+        {review?.authorName && (
+          <dl className="text-sm space-y-1">
+            <div className="flex justify-between gap-2">
+              <dt className="text-gray-500">Submitted by</dt>
+              <dd className="text-gray-900 text-right">{review.authorName}</dd>
+            </div>
+            {review.reviewerName && (
+              <div className="flex justify-between gap-2">
+                <dt className="text-gray-500">Reviewer</dt>
+                <dd className="text-gray-900 text-right">{review.reviewerName}</dd>
+              </div>
+            )}
+            {review.approvedByName && (
+              <div className="flex justify-between gap-2">
+                <dt className="text-gray-500">Approved by</dt>
+                <dd className="text-emerald-700 text-right">{review.approvedByName}</dd>
+              </div>
+            )}
+          </dl>
+        )}
+
+        {/* Actions */}
+        {(status === 'draft' || status === 'changes_requested') && (
+          <div className="space-y-2">
+            <select
+              value={reviewerEmail}
+              onChange={(e) => setReviewerEmail(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+            >
+              <option value="">Any reviewer</option>
+              {reviewers.map(reviewer => (
+                <option key={reviewer.email} value={reviewer.email}>{reviewer.name}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => run(() => submitForReview(contentType, contentId, reviewerEmail || null))}
+              disabled={isPending}
+              className="w-full px-4 py-3 bg-blue-500 text-white rounded-xl hover:bg-blue-600 transition-colors font-medium disabled:opacity-50"
+            >
+              {status === 'changes_requested' ? 'Resubmit for Review' : 'Submit for Review'}
+            </button>
+          </div>
+        )}
+
+        {status === 'in_review' && (
+          cannotApprove ? (
+            <p className="text-sm text-gray-500">Waiting for {review?.reviewerName || 'a reviewer'} to approve.</p>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => run(() => approveContent(contentType, contentId))}
+                disabled={isPending}
+                className="flex-1 px-4 py-2.5 bg-emerald-500 text-white rounded-xl hover:bg-emerald-600 transition-colors font-medium disabled:opacity-50"
+              >
+                Approve
+              </button>
+              <button
+                type="button"
+                onClick={() => setChangesNote('')}
+                disabled={isPending}
+                className="flex-1 px-4 py-2.5 bg-amber-100 text-amber-700 rounded-xl hover:bg-amber-200 transition-colors font-medium disabled:opacity-50"
+              >
+                Request Changes
+              </button>
+            </div>
+          )
+        )}
+
+        {status === 'approved' && (
+          <div className="space-y-2">
+            <p className="text-sm text-emerald-700">Approved and ready to publish.</p>
+            {!isAuthor && (
+              <button
+                type="button"
+                onClick={() => setChangesNote('')}
+                disabled={isPending}
+                className="text-xs text-amber-600 hover:text-amber-800 font-medium"
+              >
+                Withdraw approval and request changes
+              </button>
+            )}
+          </div>
+        )}
+
+        {changesNote !== null && (
+          <div className="space-y-2">
+            <textarea
+              value={changesNote}
+              onChange={(e) => setChangesNote(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              placeholder="What needs to change? (optional)"
+              className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/20 focus:border-amber-500 resize-none"
+            />
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setChangesNote(null)}
+                className="flex-1 px-4 py-2 border border-gray-200 rounded-xl text-gray-600 hover:bg-gray-50 text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleRequestChanges}
+                disabled={isPending}
+                className="flex-1 px-4 py-2 bg-amber-500 text-white rounded-xl hover:bg-amber-600 text-sm font-medium disabled:opacity-50"
+              >
+                Request Changes
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Comments */}
+        <div className="pt-4 border-t border-gray-100">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-medium text-gray-900">
+              Comments {openComments.length > 0 && <span className="text-gray-400">({openComments.length} open)</span>}
+            </h4>
+            {comments.length > openComments.length && (
+              <button
+                type="button"
+                onClick={() => setShowResolved(!showResolved)}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                {showResolved ? 'Hide resolved' : 'Show resolved'}
+              </button>
+            )}
+          </div>
+
+          {visibleComments.length > 0 && (
+            <ul className="space-y-2 mb-3">
+              {visibleComments.map(comment => (
+                <li
+                  key={comment.id}
+                  className={`p-3 rounded-xl border text-sm ${comment.resolvedAt ? 'bg-gray-50 border-gray-100 text-gray-400' : 'bg-white border-gray-200'}`}
+                >
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <span className="text-xs font-medium text-gray-500">
+                      {comment.field ? fieldLabel(comment.field) : 'General'}
+                      {comment.locale && ` (${comment.locale.toUpperCase()})`}
+                      {' · '}{comment.authorName}
+                    </span>
+                    {!comment.resolvedAt && (
+                      <button
+                        type="button"
+                        onClick={() => run(() => resolveReviewComment(comment.id))}
+                        disabled={isPending}
+                        className="text-xs text-teal-600 hover:text-teal-800 font-medium"
+                      >
+                        Resolve
+                      </button>
+                    )}
+                  </div>
+                  <p className="whitespace-pre-wrap text-gray-700">{comment.body}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleAddComment} className="space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={commentField}
+                onChange={(e) => setCommentField(e.target.value)}
+                aria-label="Field"
+                className="flex-1 min-w-0 px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+              >
+                <option value="">General</option>
+                {fields.map(field => (
+                  <option key={field.key} value={field.key}>{field.label}</option>
+                ))}
+              </select>
+              <select
+                value={commentLocale}
+                onChange={(e) => setCommentLocale(e.target.value as '' | 'en' | 'ms')}
+                aria-label="Language"
+                className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+              >
+                <option value="">Both</option>
+                <option value="en">EN</option>
+                <option value="ms">BM</option>
+              </select>
+            </div>
+            <textarea
+              value={commentBody}
+              onChange={(e) => setCommentBody(e.target.value)}
+              rows={2}
+              maxLength={2000}
+              placeholder="Add a review comment..."
+              className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 resize-none"
+            />
+            <button
+              type="submit"
+              disabled={isPending || !commentBody.trim()}
+              className="w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              Comment
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -43,6 +43,7 @@ export default function Footer({ contactSettings }: FooterProps) {
       { name: t('links.volunteer'), href: '/contact?type=volunteer' },
       { name: t('links.partnerWithUs'), href: '/contact?type=partnership' },
       { name: t('links.events'), href: '/blog?category=events' },
+      { name: t('links.donorPortal'), href: '/donor' },
     ],
     legal: [
       { name: t('links.privacyPolicy'), href: '/privacy' },
@@ -85,6 +85,11 @@ export const blogPosts = pgTable('blog_posts', {
   tags: jsonb('tags'),
   isPublished: boolean('is_published').default(false),
   publishedAt: timestamp('published_at'),
+  // Applied by the scheduled-publishing cron job, then cleared
+  scheduledPublishAt: timestamp('scheduled_publish_at'),
+  scheduledUnpublishAt: timestamp('scheduled_unpublish_at'),
+  // Bumped on every editorial save so editors can detect overwrites
+  revision: integer('revision').notNull().default(1),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 })
@@ -111,10 +116,82 @@ export const projects = pgTable('projects', {
   beneficiaries: integer('beneficiaries'),
   location: text('location'),
   isPublished: boolean('is_published').default(false),
+  publishedAt: timestamp('published_at'),
+  // Applied by the scheduled-publishing cron job, then cleared
+  scheduledPublishAt: timestamp('scheduled_publish_at'),
+  scheduledUnpublishAt: timestamp('scheduled_unpublish_at'),
   donationEnabled: boolean('donation_enabled').default(false),
   donationGoal: integer('donation_goal'),
   donationRaised: integer('donation_raised').default(0),
   toyyibpayCategoryCode: text('toyyibpay_category_code'),
+  // Bumped on every editorial save (not donation totals) so editors can detect overwrites
+  revision: integer('revision').notNull().default(1),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+// A sponsor's pledge to match campaign donations
+export type CampaignMatchingRule = {
+  sponsor: string
+  ratio: number // Sponsor gives this much per RM donated, e.g. 1 for 1:1
+  cap: number // Most the sponsor will give, in cents
+}
+
+// Fundraising campaigns (LOCALIZED)
+// Time-boxed appeals (Ramadan, year-end) spanning one or more projects
+export const campaigns = pgTable('campaigns', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  slug: text('slug').notNull().unique(),
+  // Localized fields
+  title: jsonb('title').$type<LocalizedString>().notNull(),
+  description: jsonb('description').$type<LocalizedString>(),
+  // Non-localized fields
+  featuredImage: text('featured_image'),
+  startsAt: timestamp('starts_at').notNull(),
+  endsAt: timestamp('ends_at').notNull(),
+  goal: integer('goal').notNull(), // In cents
+  projectIds: jsonb('project_ids').$type<string[]>().default([]), // Empty = General Fund only
+  matchingRules: jsonb('matching_rules').$type<CampaignMatchingRule[]>().default([]),
+  isPublished: boolean('is_published').default(false),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+// Supporter fundraiser pages (NOT LOCALIZED - written by the supporter)
+// Peer-to-peer pages raising money for one project. Pages stay hidden until
+// an admin approves them from the moderation queue.
+export const fundraisers = pgTable('fundraisers', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  slug: text('slug').notNull().unique(),
+  projectId: uuid('project_id').notNull(),
+  ownerName: text('owner_name').notNull(),
+  ownerEmail: text('owner_email').notNull(),
+  title: text('title').notNull(),
+  story: text('story').notNull(),
+  photoUrl: text('photo_url'), // Uploaded to Appwrite
+  goal: integer('goal').notNull(), // In cents
+  status: text('status').default('pending').notNull(), // pending, approved, rejected, closed
+  reviewedBy: text('reviewed_by'),
+  reviewedAt: timestamp('reviewed_at'),
+  rejectionReason: text('rejection_reason'), // Shared with the owner
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+// Designated funds (LOCALIZED)
+// Zakat, waqf and sedekah must be accounted for separately. Restricted funds
+// hold gifts that may only be spent on one project.
+export const funds = pgTable('funds', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  code: text('code').notNull().unique(), // Short reference used in exports, e.g. 'zakat'
+  // Localized fields
+  name: jsonb('name').$type<LocalizedString>().notNull(),
+  description: jsonb('description').$type<LocalizedString>(),
+  // Non-localized fields
+  type: text('type').notNull(), // zakat, waqf, sedekah, restricted
+  projectId: uuid('project_id'), // Restricted funds only: the project the money is held for
+  isActive: boolean('is_active').default(true),
+  sortOrder: integer('sort_order').default(0),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 })
@@ -133,23 +210,86 @@ export const impactStats = pgTable('impact_stats', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 })
 
+// Donors (NOT LOCALIZED - donor records)
+// One row per person, matched on normalized email, then phone. Merged
+// duplicates are kept with mergedIntoId set so old links still resolve.
+export const donors = pgTable('donors', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: text('name'),
+  email: text('email'), // Trimmed and lowercased
+  phone: text('phone'), // E.164, e.g. +60123456789
+  locale: text('locale').default('en'),
+  // Communication preferences
+  emailUpdates: boolean('email_updates').default(false), // Newsletters and appeals
+  recoveryEmails: boolean('recovery_emails').default(true), // Off stops "Complete your donation" reminders, even for donations that asked for them
+  notes: text('notes'),
+  mergedIntoId: uuid('merged_into_id'),
+  mergedBy: text('merged_by'),
+  mergedAt: timestamp('merged_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+// Donor Portal Sign-in (NOT LOCALIZED - donor auth records)
+// One-time email links and the sessions they start. Only SHA-256 hashes of
+// the tokens are stored. Kept apart from the admin NextAuth session.
+export const donorLoginTokens = pgTable('donor_login_tokens', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  donorId: uuid('donor_id').notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  ipAddress: text('ip_address'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
+
+export const donorSessions = pgTable('donor_sessions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  donorId: uuid('donor_id').notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
+
 // Donations (NOT LOCALIZED - transactional data)
 export const donations = pgTable('donations', {
   id: uuid('id').defaultRandom().primaryKey(),
   donorName: text('donor_name'),
   donorEmail: text('donor_email'),
   donorPhone: text('donor_phone'),
+  donorId: uuid('donor_id'), // Donor profile, when the donor left an email or phone
   amount: integer('amount').notNull(),
   currency: text('currency').default('MYR'),
   projectId: uuid('project_id'),
+  campaignId: uuid('campaign_id'), // Campaign the donation was made under, if any
+  fundraiserId: uuid('fundraiser_id'), // Supporter fundraiser page the donation came through, if any
+  fundId: uuid('fund_id'), // Designated fund (zakat, waqf, sedekah or restricted)
+  embedOrigin: text('embed_origin'), // Allowlisted partner site the donation widget was embedded on, if any
   message: text('message'),
   isAnonymous: boolean('is_anonymous').default(false),
+  locale: text('locale').default('en'), // Language of the donate page, used for follow-up emails
+  // Tribute gifts made in memory of (sedekah untuk arwah) or in honour of someone
+  tributeType: text('tribute_type'), // 'in_memory' or 'in_honour'
+  tributeName: text('tribute_name'), // The person being remembered or honoured
+  tributeRecipientEmail: text('tribute_recipient_email'), // Sent an e-card once the donation completes
+  tributeMessage: text('tribute_message'),
+  tributeCardSentAt: timestamp('tribute_card_sent_at'),
   paymentStatus: text('payment_status').default('pending'),
   paymentReference: text('payment_reference'),
-  toyyibpayBillCode: text('toyyibpay_bill_code'),
-  toyyibpayTransactionId: text('toyyibpay_transaction_id'),
+  paymentGateway: text('payment_gateway').default('toyyibpay'), // PaymentGatewayId that issued the bill, or 'offline'
+  // Bill / transaction ids from paymentGateway (columns predate other gateways)
+  gatewayBillCode: text('toyyibpay_bill_code'),
+  gatewayTransactionId: text('toyyibpay_transaction_id'),
   paymentMethod: text('payment_method').default('fpx'),
   paymentAttempts: integer('payment_attempts').default(0),
+  // "Complete your donation" emails, only sent when the donor ticked the box asking for them
+  recoveryEmailConsent: boolean('recovery_email_consent').notNull().default(false),
+  // "Complete your donation" emails sent while the donation sat unpaid
+  recoveryEmailCount: integer('recovery_email_count').default(0),
+  lastRecoveryEmailAt: timestamp('last_recovery_email_at'),
   environment: text('environment').default('production'),
   receiptSentAt: timestamp('receipt_sent_at'),
   receiptNumber: text('receipt_number'),
@@ -157,10 +297,197 @@ export const donations = pgTable('donations', {
   ipAddress: text('ip_address'),
   userAgent: text('user_agent'),
   failureReason: text('failure_reason'),
+  refundedAmount: integer('refunded_amount').default(0), // In cents, sum of all refunds/chargebacks
+  refundReason: text('refund_reason'),
+  refundedAt: timestamp('refunded_at'),
+  subscriptionId: uuid('subscription_id'), // Set for each cycle of a recurring donation
+  subscriptionCycle: integer('subscription_cycle'),
+  // Offline donations (bank transfer, cash, cheque) recorded by an admin and
+  // approved by a second admin before they count towards totals
+  offlineReference: text('offline_reference'), // Bank transfer reference or cheque number
+  proofFileId: text('proof_file_id'), // Proof of payment in the private Appwrite proofs bucket
+  receivedAt: timestamp('received_at'),
+  recordedBy: text('recorded_by'),
+  reviewedBy: text('reviewed_by'), // Admin who approved or rejected the entry
+  reviewedAt: timestamp('reviewed_at'),
+  bankStatementImportId: uuid('bank_statement_import_id'), // Set when confirmed from a bank statement line
   completedAt: timestamp('completed_at'),
+  // When the completion was saved. completedAt is back-dated for offline
+  // gifts and bank statement matches, so accounting exports go by this.
+  completionRecordedAt: timestamp('completion_recorded_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 })
 
+// A single discrepancy found by a reconciliation run (amounts in cents)
+export type ReconciliationItem = {
+  donationId: string
+  paymentReference: string | null
+  billCode: string | null
+  type: 'status_fixed' | 'status_mismatch' | 'amount_mismatch' | 'no_transaction' | 'lookup_error'
+  dbStatus: string | null
+  gatewayStatus: string | null
+  dbAmount: number
+  gatewayAmount: number | null
+  resolution: string
+}
+
+// Reconciliation Reports (NOT LOCALIZED - transactional data)
+// One row per reconciliation run comparing donations with the gateway's records
+export const reconciliationReports = pgTable('reconciliation_reports', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  trigger: text('trigger').notNull(), // 'scheduled' or 'manual'
+  triggeredBy: text('triggered_by'), // Admin email for manual runs
+  status: text('status').default('running'), // 'running', 'completed', 'failed'
+  gateway: text('gateway').default('toyyibpay'),
+  environment: text('environment'),
+  periodStart: timestamp('period_start'),
+  checkedCount: integer('checked_count').default(0),
+  matchedCount: integer('matched_count').default(0),
+  fixedCount: integer('fixed_count').default(0),
+  discrepancyCount: integer('discrepancy_count').default(0),
+  amountDifference: integer('amount_difference').default(0), // In cents, gateway minus our records
+  items: jsonb('items').$type<ReconciliationItem[]>().default([]),
+  error: text('error'),
+  startedAt: timestamp('started_at').defaultNow().notNull(),
+  completedAt: timestamp('completed_at'),
+})
+
+// A credit line from an imported bank statement (amount in cents)
+export type BankStatementLine = {
+  row: number
+  date: string // ISO date
+  description: string
+  reference: string | null
+  amount: number
+  status: 'unmatched' | 'matched' | 'created' | 'ignored'
+  donationId: string | null
+  resolvedBy: string | null
+  resolvedAt: string | null
+}
+
+// Bank Statement Imports (NOT LOCALIZED - transactional data)
+// One row per uploaded Maybank/CIMB statement; lines are matched to donations one by one
+export const bankStatementImports = pgTable('bank_statement_imports', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  bank: text('bank').notNull(), // 'maybank', 'cimb' or 'generic'
+  fileName: text('file_name'),
+  importedBy: text('imported_by').notNull(),
+  lineCount: integer('line_count').default(0),
+  skippedCount: integer('skipped_count').default(0), // Debits and unreadable rows
+  lines: jsonb('lines').$type<BankStatementLine[]>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
+
+// What a receipt said when it was issued, so superseded receipts can be
+// reproduced exactly even after the donation row is corrected
+export type ReceiptSnapshot = {
+  donorName: string
+  donorEmail: string
+  donorPhone?: string
+  amount: number // In currency units, net of any partial refunds
+  originalAmount?: number
+  currency: string
+  projectTitle?: string
+  paymentReference: string
+  paymentMethod: string
+  transactionId?: string
+  completedAt: string // ISO
+  createdAt: string // ISO
+  message?: string
+  tribute?: string
+}
+
+// Receipt Register (NOT LOCALIZED - transactional data)
+// Every receipt number ever issued. Rows are never deleted or edited apart
+// from moving out of 'issued' once, when the receipt is voided or replaced.
+export const receipts = pgTable('receipts', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  receiptNumber: text('receipt_number').notNull().unique(),
+  donationId: uuid('donation_id').notNull(),
+  status: text('status').notNull().default('issued'), // 'issued', 'voided' or 'reissued' (replaced by a newer receipt)
+  snapshot: jsonb('snapshot').$type<ReceiptSnapshot>().notNull(),
+  issuedBy: text('issued_by').notNull(), // Admin email, or 'system' for gateway callbacks
+  issuedAt: timestamp('issued_at').defaultNow().notNull(),
+  replacesReceiptNumber: text('replaces_receipt_number'),
+  replacedByReceiptNumber: text('replaced_by_receipt_number'),
+  voidReason: text('void_reason'),
+  voidedBy: text('voided_by'),
+  voidedAt: timestamp('voided_at'),
+})
+
+// Receipt Counters (NOT LOCALIZED - system data)
+// Last receipt sequence allocated per year, incremented atomically when a
+// receipt number is assigned
+export const receiptCounters = pgTable('receipt_counters', {
+  year: integer('year').primaryKey(),
+  lastSequence: integer('last_sequence').notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+// Annual Tax Statements (NOT LOCALIZED - transactional data)
+// One row per donor email per year, recording when the consolidated statement was last emailed
+export const annualTaxStatements = pgTable('annual_tax_statements', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  statementNumber: text('statement_number').notNull().unique(), // YIP-2026-AS-XXXXXXXX, stable per donor and year
+  year: integer('year').notNull(),
+  donorEmail: text('donor_email').notNull(), // Lowercased
+  donationCount: integer('donation_count').notNull(),
+  totalAmount: integer('total_amount').notNull(), // In cents, net of partial refunds
+  emailStatus: text('email_status').notNull(), // 'sent' or 'failed'
+  emailMessageId: text('email_message_id'),
+  emailError: text('email_error'),
+  sentBy: text('sent_by'),
+  sentAt: timestamp('sent_at').defaultNow().notNull(),
+})
+
+// Accounting Exports (NOT LOCALIZED - system data)
+// One row per journal or monthly summary export. The latest 'new' export per
+// environment is the "exported up to" watermark the next one starts after.
+export const accountingExports = pgTable('accounting_exports', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  profile: text('profile').notNull(), // 'journal' or 'monthly'
+  format: text('format').notNull(), // 'csv' or 'xlsx'
+  mode: text('mode').notNull(), // 'new' (moved the watermark) or 'repeat' (downloaded an earlier period again)
+  environment: text('environment').notNull(),
+  periodStart: timestamp('period_start'), // Exclusive; null for the first export
+  exportedUpTo: timestamp('exported_up_to').notNull(), // Inclusive
+  entryCount: integer('entry_count').notNull(), // Gifts plus refunds
+  netAmount: integer('net_amount').notNull(), // In cents, gifts minus refunds
+  exportedBy: text('exported_by').notNull(),
+  // 'new' exports only: the environment and the export it follows, so two
+  // exports made at once cannot both follow the same one
+  watermarkKey: text('watermark_key').unique(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
+
+// Recurring Donation Subscriptions (NOT LOCALIZED - transactional data)
+// Each billing cycle creates a new row in donations linked via subscriptionId
+export const donationSubscriptions = pgTable('donation_subscriptions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  donorName: text('donor_name'),
+  donorEmail: text('donor_email').notNull(),
+  donorPhone: text('donor_phone'),
+  amount: integer('amount').notNull(), // In cents, charged every cycle
+  currency: text('currency').default('MYR'),
+  projectId: uuid('project_id'),
+  program: text('program'),
+  fundId: uuid('fund_id'), // Designated fund at sign-up, re-resolved for each cycle
+  isAnonymous: boolean('is_anonymous').default(false),
+  frequency: text('frequency').default('monthly'),
+  status: text('status').default('pending'), // 'pending', 'active', 'paused', 'cancelled'
+  cycleCount: integer('cycle_count').default(0),
+  nextBillingAt: timestamp('next_billing_at'),
+  lastBilledAt: timestamp('last_billed_at'),
+  manageToken: text('manage_token').notNull().unique(), // Secret for donor pause/cancel links
+  locale: text('locale').default('en'),
+  environment: text('environment').default('production'),
+  pausedAt: timestamp('paused_at'),
+  cancelledAt: timestamp('cancelled_at'),
+  cancellationReason: text('cancellation_reason'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
 // Donation Logs (NOT LOCALIZED - audit data)
 export const donationLogs = pgTable('donation_logs', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -270,6 +597,85 @@ export const contentVersions = pgTable('content_versions', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 })
 
+// Editorial Reviews (NOT LOCALIZED - system data)
+// Review state of a blog post, project or page. It can only be published once
+// approved by someone other than the author; editing it after approval sends
+// it back for review.
+export const contentReviews = pgTable('content_reviews', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  contentType: text('content_type').notNull(), // 'blog_posts', 'projects' or 'pages'
+  contentId: uuid('content_id').notNull().unique(),
+  status: text('status').notNull().default('draft'), // 'draft', 'in_review', 'changes_requested', 'approved' or 'published'
+  authorEmail: text('author_email'), // Who submitted it for review
+  authorName: text('author_name'),
+  reviewerEmail: text('reviewer_email'), // Assigned reviewer
+  reviewerName: text('reviewer_name'),
+  approvedByEmail: text('approved_by_email'),
+  approvedByName: text('approved_by_name'),
+  approvedAt: timestamp('approved_at'),
+  submittedAt: timestamp('submitted_at'),
+  editorEmails: jsonb('editor_emails').$type<string[]>().notNull().default([]), // Lowercased; everyone who changed it since it was last published
+  pendingChanges: jsonb('pending_changes').$type<Record<string, unknown>>(), // Edits to live content waiting for approval
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+// Review comments on one field (and language) of the content under review
+export const contentReviewComments = pgTable('content_review_comments', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  reviewId: uuid('review_id').notNull(),
+  field: text('field'), // e.g. 'title'; null for a comment on the whole item
+  locale: text('locale'), // 'en' or 'ms'; null for both
+  body: text('body').notNull(),
+  authorEmail: text('author_email').notNull(),
+  authorName: text('author_name').notNull(),
+  resolvedAt: timestamp('resolved_at'),
+  resolvedByEmail: text('resolved_by_email'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
+
+// Edit Leases (NOT LOCALIZED - system data)
+// Who has a blog post or project open in the editor. The editor renews the
+// lease with a heartbeat; once it lapses anyone can take over, and another
+// admin can take it over at any time.
+export const editLeases = pgTable('edit_leases', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  contentType: text('content_type').notNull(), // 'blog_posts' or 'projects'
+  contentId: uuid('content_id').notNull().unique(),
+  holderEmail: text('holder_email').notNull(),
+  holderName: text('holder_name').notNull(),
+  clientId: text('client_id').notNull(), // The browser tab holding it
+  acquiredAt: timestamp('acquired_at').defaultNow().notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+})
+
+// Preview Links (NOT LOCALIZED - system data)
+// Expiring links to an unpublished blog post or project. The link carries a
+// signed JWT naming this row; revoking the row stops it working.
+export const previewLinks = pgTable('preview_links', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  contentType: text('content_type').notNull(), // 'blog_posts' or 'projects'
+  contentId: uuid('content_id').notNull(),
+  label: text('label'), // Who the link was shared with, e.g. 'Board of Trustees'
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  revokedByEmail: text('revoked_by_email'),
+  createdByEmail: text('created_by_email').notNull(),
+  createdByName: text('created_by_name'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
+
+// Each time a preview link was opened
+export const previewLinkViews = pgTable('preview_link_views', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  linkId: uuid('link_id').notNull(),
+  locale: text('locale').notNull(), // 'en' or 'ms'
+  viewerEmail: text('viewer_email'), // Set when a signed-in admin opened it
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  viewedAt: timestamp('viewed_at').defaultNow().notNull(),
+})
+
 // Activity log (NOT LOCALIZED - system data)
 export const activityLog = pgTable('activity_log', {
   id: uuid('id').defaultRandom().primaryKey(),
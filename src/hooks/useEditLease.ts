@@ -0,0 +1,94 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { acquireEditLease, releaseEditLease, renewEditLease } from '@/lib/actions/edit-leases'
+import type { EditLeaseInfo, LeaseContentType } from '@/lib/edit-leases'
+
+interface EditLeaseOptions {
+  contentType: LeaseContentType
+  contentId: string
+  enabled?: boolean
+}
+
+// acquiring: first request in flight
+// editing: this tab holds the lease
+// locked: someone else was already editing when this tab opened
+// lost: someone else took the lease over from this tab
+export type EditLeaseStatus = 'acquiring' | 'editing' | 'locked' | 'lost'
+
+// Well inside the server's 90 second lease, so one missed beat doesn't lose it
+const HEARTBEAT_INTERVAL = 30000
+
+export function useEditLease({ contentType, contentId, enabled = true }: EditLeaseOptions) {
+  const [clientId] = useState(() => crypto.randomUUID())
+  const [status, setStatus] = useState<EditLeaseStatus>('acquiring')
+  const [lease, setLease] = useState<EditLeaseInfo | null>(null)
+  const [isTakingOver, setIsTakingOver] = useState(false)
+  const holdingRef = useRef(false)
+
+  // Take the lease, then renew it every heartbeat. Without it, keep trying
+  // so the editor picks it up once the other holder leaves.
+  useEffect(() => {
+    if (!enabled) return
+
+    let cancelled = false
+
+    async function beat() {
+      try {
+        const result = holdingRef.current
+          ? await renewEditLease(contentId, clientId)
+          : await acquireEditLease(contentType, contentId, clientId)
+        if (cancelled) return
+
+        if (result.success) {
+          holdingRef.current = true
+          setStatus('editing')
+        } else {
+          const wasHolding = holdingRef.current
+          holdingRef.current = false
+          setStatus(prev => wasHolding || prev === 'lost' ? 'lost' : 'locked')
+        }
+        setLease(result.lease ?? null)
+      } catch (error) {
+        // Try again next beat; the lease outlasts a missed one
+        console.error('Failed to update edit lease:', error)
+      }
+    }
+
+    beat()
+    const intervalId = setInterval(beat, HEARTBEAT_INTERVAL)
+
+    return () => {
+      cancelled = true
+      clearInterval(intervalId)
+      if (holdingRef.current) {
+        holdingRef.current = false
+        releaseEditLease(contentId, clientId).catch(() => {})
+      }
+    }
+  }, [enabled, contentType, contentId, clientId])
+
+  const takeOver = useCallback(async () => {
+    setIsTakingOver(true)
+    try {
+      const result = await acquireEditLease(contentType, contentId, clientId, { takeOver: true })
+      if (result.success) {
+        holdingRef.current = true
+        setStatus('editing')
+      }
+      setLease(result.lease ?? null)
+      return result
+    } finally {
+      setIsTakingOver(false)
+    }
+  }, [contentType, contentId, clientId])
+
+  return {
+    status,
+    lease,
+    // Always true when disabled, e.g. for content that is not saved yet
+    isEditing: !enabled || status === 'editing',
+    isTakingOver,
+    takeOver,
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Accounting Export Tests
+ * Tests for journal lines, monthly summaries and sheet output
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+import {
+  buildJournalLines,
+  buildMonthlySummary,
+  netAmount,
+  parseExportFormat,
+  parseExportProfile,
+  sheetToCsv,
+  journalSheet,
+  type AccountingEntry,
+} from '../accounting-export'
+
+function entry(overrides: Partial<AccountingEntry>): AccountingEntry {
+  return {
+    kind: 'gift',
+    donationId: 'donation-1',
+    date: new Date('2026-03-10T04:00:00Z'),
+    receiptNumber: 'YIP-2026-000001',
+    paymentReference: 'YIP-ABC123',
+    donorName: 'Aisyah',
+    amount: 10000,
+    gateway: 'toyyibpay',
+    fundCode: 'zakat',
+    fundName: 'Zakat Fund',
+    projectCode: null,
+    ...overrides,
+  }
+}
+
+describe('buildJournalLines', () => {
+  it('debits clearing and credits fund income for an online gift', () => {
+    const lines = buildJournalLines([entry({ projectCode: 'clean-water' })])
+
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toMatchObject({ docNo: 'YIP-2026-000001', account: 'CLEARING-TOYYIBPAY', debit: 100, credit: 0, project: 'clean-water' })
+    expect(lines[1]).toMatchObject({ account: 'INCOME-ZAKAT', debit: 0, credit: 100 })
+  })
+
+  it('uses the bank for offline gifts and general income without a fund', () => {
+    const lines = buildJournalLines([entry({ gateway: 'offline', fundCode: null, fundName: null })])
+
+    expect(lines[0].account).toBe('BANK')
+    expect(lines[1].account).toBe('INCOME-GENERAL')
+  })
+
+  it('reverses refunds with a dated document number', () => {
+    const lines = buildJournalLines([
+      entry({ kind: 'refund', amount: 2500, date: new Date('2026-04-01T18:00:00Z') }),
+      entry({ kind: 'refund', amount: 500, date: new Date('2026-04-01T20:00:00Z') }),
+    ])
+
+    // 18:00 UTC is already 2 April in Malaysia
+    expect(lines[0]).toMatchObject({ docNo: 'YIP-2026-000001-R20260402', account: 'INCOME-ZAKAT', debit: 25 })
+    expect(lines[1]).toMatchObject({ account: 'CLEARING-TOYYIBPAY', credit: 25 })
+    expect(lines[2].docNo).toBe('YIP-2026-000001-R20260402-2')
+  })
+
+  it('keeps every entry balanced', () => {
+    const lines = buildJournalLines([entry({}), entry({ kind: 'refund', amount: 3000 })])
+    const debits = lines.reduce((sum, line) => sum + line.debit, 0)
+    const credits = lines.reduce((sum, line) => sum + line.credit, 0)
+
+    expect(debits).toBe(credits)
+  })
+})
+
+describe('buildMonthlySummary', () => {
+  it('totals entries per Malaysia-time month and account pair', () => {
+    const rows = buildMonthlySummary([
+      entry({ date: new Date('2026-03-31T17:00:00Z') }), // 1 April in Malaysia
+      entry({ date: new Date('2026-04-15T02:00:00Z'), amount: 5000 }),
+      entry({ kind: 'refund', date: new Date('2026-04-20T02:00:00Z'), amount: 2000 }),
+      entry({ date: new Date('2026-03-05T02:00:00Z'), fundCode: 'waqf' }),
+    ])
+
+    expect(rows.map(row => [row.month, row.creditAccount])).toEqual([
+      ['2026-03', 'INCOME-WAQF'],
+      ['2026-04', 'INCOME-ZAKAT'],
+    ])
+    expect(rows[1]).toMatchObject({ gifts: 2, gross: 15000, refundCount: 1, refunds: 2000, net: 13000 })
+  })
+
+  it('nets refunds against gifts', () => {
+    expect(netAmount([entry({}), entry({ kind: 'refund', amount: 4000 })])).toBe(6000)
+  })
+})
+
+describe('export options', () => {
+  it('defaults to the flat CSV and rejects unknown values', () => {
+    expect(parseExportProfile(null)).toBe('donations')
+    expect(parseExportProfile('journal')).toBe('journal')
+    expect(parseExportProfile('ledger')).toBeNull()
+    expect(parseExportFormat(undefined)).toBe('csv')
+    expect(parseExportFormat('pdf')).toBeNull()
+  })
+
+  it('writes money columns with two decimals and escapes text', () => {
+    const csv = sheetToCsv(journalSheet(buildJournalLines([entry({ donorName: 'Ali, Abu' })])))
+    const [header, first] = csv.split('\n')
+
+    expect(header).toBe('Doc No,Date,Account,Account Name,Description,Reference,Debit,Credit,Project')
+    expect(first).toBe('YIP-2026-000001,2026-03-10,CLEARING-TOYYIBPAY,TOYYIBPAY Clearing,"Donation - Ali, Abu",YIP-ABC123,100.00,0.00,')
+  })
+})
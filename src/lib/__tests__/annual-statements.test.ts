@@ -0,0 +1,38 @@
+/**
+ * Annual Tax Statement Tests
+ * Tests for the statement period and stable statement numbers
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+import { getAnnualStatementNumber, getAnnualStatementPeriod } from '../receipt'
+
+describe('getAnnualStatementPeriod', () => {
+  it('should cover the calendar year in Malaysia time', () => {
+    const { start, end } = getAnnualStatementPeriod(2026)
+
+    expect(start.toISOString()).toBe('2025-12-31T16:00:00.000Z')
+    expect(end.toISOString()).toBe('2026-12-31T16:00:00.000Z')
+  })
+})
+
+describe('getAnnualStatementNumber', () => {
+  it('should be the same for the same donor regardless of email case', () => {
+    const number = getAnnualStatementNumber('Siti@Example.com', 2026)
+
+    expect(number).toMatch(/^YIP-2026-AS-[0-9A-F]{8}$/)
+    expect(getAnnualStatementNumber(' siti@example.com ', 2026)).toBe(number)
+  })
+
+  it('should differ between donors and years', () => {
+    const number = getAnnualStatementNumber('siti@example.com', 2026)
+
+    expect(getAnnualStatementNumber('ali@example.com', 2026)).not.toBe(number)
+    expect(getAnnualStatementNumber('siti@example.com', 2025)).toBe(number.replace('2026', '2025'))
+  })
+})
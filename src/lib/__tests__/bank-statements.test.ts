@@ -0,0 +1,169 @@
+/**
+ * Bank Statement Import Tests
+ * Tests for parsing Maybank/CIMB statement CSVs and suggesting donation matches
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseBankStatementCsv,
+  parseStatementAmount,
+  parseStatementDate,
+  parseCsvRows,
+  BankStatementParseError,
+} from '../bank-statements/parser'
+import { suggestMatches, extractPaymentReferences, type MatchCandidate } from '../bank-statements/matching'
+
+const MAYBANK_CSV = [
+  'Account Number,514123456789',
+  'Account Type,Current Account',
+  '',
+  'Transaction Date,Transaction Description,Transaction Amount,Statement Balance',
+  '03/02/2026,"IBG CREDIT SITI AMINAH BINTI AHMAD YIP-1770000000000-AB12CD",50.00+,"1,050.00"',
+  '04/02/2026,SERVICE CHARGE,0.50-,"1,049.50"',
+  '05/02/2026,"DUITNOW TRF LIM WEI MING","1,200.00+","2,249.50"',
+].join('\n')
+
+const CIMB_CSV = [
+  '\uFEFFPost Date,Description,Cheque/Ref No,Withdrawal,Deposit,Balance',
+  '10 Feb 2026,INSTANT TRANSFER,DERMA MASJID,,250.00,5250.00',
+  '11 Feb 2026,BILL PAYMENT,TNB,120.00,,5130.00',
+  '12-Feb-26,CHEQUE DEPOSIT,000123,,"1,000.00",6130.00',
+].join('\r\n')
+
+function candidate(overrides: Partial<MatchCandidate> = {}): MatchCandidate {
+  return {
+    id: 'donation-1',
+    paymentReference: 'YIP-1770000000000-AB12CD',
+    offlineReference: null,
+    donorName: 'Siti Aminah',
+    amount: 5000,
+    paymentStatus: 'pending',
+    date: new Date(Date.UTC(2026, 1, 3)),
+    ...overrides,
+  }
+}
+
+describe('parseCsvRows', () => {
+  it('should keep commas and escaped quotes inside quoted fields', () => {
+    expect(parseCsvRows('a,"b, c","say ""hi"""\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ])
+  })
+})
+
+describe('parseStatementDate', () => {
+  it('should read day-first and ISO dates', () => {
+    expect(parseStatementDate('03/02/2026')?.toISOString()).toBe('2026-02-03T00:00:00.000Z')
+    expect(parseStatementDate('3-2-26')?.toISOString()).toBe('2026-02-03T00:00:00.000Z')
+    expect(parseStatementDate('10 Feb 2026')?.toISOString()).toBe('2026-02-10T00:00:00.000Z')
+    expect(parseStatementDate('12-Feb-26')?.toISOString()).toBe('2026-02-12T00:00:00.000Z')
+    expect(parseStatementDate('2026-02-03')?.toISOString()).toBe('2026-02-03T00:00:00.000Z')
+  })
+
+  it('should reject impossible dates and text', () => {
+    expect(parseStatementDate('31/02/2026')).toBeNull()
+    expect(parseStatementDate('Opening Balance')).toBeNull()
+  })
+})
+
+describe('parseStatementAmount', () => {
+  it('should parse credits and debits in the formats banks use', () => {
+    expect(parseStatementAmount('50.00+')).toBe(5000)
+    expect(parseStatementAmount('1,200.00 CR')).toBe(120000)
+    expect(parseStatementAmount('RM 75.5')).toBe(7550)
+    expect(parseStatementAmount('0.50-')).toBe(-50)
+    expect(parseStatementAmount('12.00 DR')).toBe(-1200)
+    expect(parseStatementAmount('(20.00)')).toBe(-2000)
+    expect(parseStatementAmount('-20.00')).toBe(-2000)
+  })
+
+  it('should return null for blanks and text', () => {
+    expect(parseStatementAmount('')).toBeNull()
+    expect(parseStatementAmount('N/A')).toBeNull()
+  })
+})
+
+describe('parseBankStatementCsv', () => {
+  it('should read Maybank statements, skipping the account preamble and debits', () => {
+    const result = parseBankStatementCsv(MAYBANK_CSV)
+
+    expect(result.bank).toBe('maybank')
+    expect(result.skippedRows).toBe(1)
+    expect(result.transactions).toHaveLength(2)
+    expect(result.transactions[0]).toMatchObject({
+      row: 5,
+      description: 'IBG CREDIT SITI AMINAH BINTI AHMAD YIP-1770000000000-AB12CD',
+      reference: null,
+      amount: 5000,
+    })
+    expect(result.transactions[1].amount).toBe(120000)
+  })
+
+  it('should read CIMB statements with separate withdrawal and deposit columns', () => {
+    const result = parseBankStatementCsv(CIMB_CSV)
+
+    expect(result.bank).toBe('cimb')
+    expect(result.transactions.map(tx => [tx.reference, tx.amount])).toEqual([
+      ['DERMA MASJID', 25000],
+      ['000123', 100000],
+    ])
+  })
+
+  it('should reject files without statement columns', () => {
+    expect(() => parseBankStatementCsv('name,email\nAli,ali@example.com')).toThrow(BankStatementParseError)
+  })
+})
+
+describe('suggestMatches', () => {
+  const line = {
+    date: new Date(Date.UTC(2026, 1, 3)),
+    description: 'IBG CREDIT SITI AMINAH BINTI AHMAD',
+    reference: null,
+    amount: 5000,
+  }
+
+  it('should find payment references even when the bank drops the dashes', () => {
+    expect(extractPaymentReferences({ ...line, reference: 'YIP1770000000000AB12CD' })).toEqual([
+      'YIP1770000000000AB12CD',
+    ])
+  })
+
+  it('should rank a payment reference match first', () => {
+    const suggestions = suggestMatches(
+      { ...line, description: `${line.description} YIP-1770000000000-AB12CD` },
+      [
+        candidate({ id: 'other', paymentReference: 'YIP-1770000000001-ZZZZZZ', donorName: 'Ahmad' }),
+        candidate(),
+      ]
+    )
+
+    expect(suggestions[0]).toMatchObject({ donationId: 'donation-1', score: 100 })
+    expect(suggestions[0].reasons).toContain('Payment reference')
+  })
+
+  it('should match offline bank references', () => {
+    const [suggestion] = suggestMatches(
+      { ...line, description: 'CHEQUE DEPOSIT', reference: '000123' },
+      [candidate({ paymentReference: 'YIP-1770000000002-QQQQQQ', offlineReference: '000123', donorName: null })]
+    )
+
+    expect(suggestion.reasons).toEqual(['Bank reference', 'Amount', 'Same day'])
+  })
+
+  it('should suggest same-amount donations close in date, preferring the named donor', () => {
+    const suggestions = suggestMatches(line, [
+      candidate({ id: 'stranger', paymentReference: 'YIP-1', donorName: 'Lim Wei Ming' }),
+      candidate({ id: 'named', paymentReference: 'YIP-2' }),
+    ])
+
+    expect(suggestions.map(s => s.donationId)).toEqual(['named', 'stranger'])
+  })
+
+  it('should not suggest different amounts or distant dates without a reference', () => {
+    expect(suggestMatches(line, [
+      candidate({ paymentReference: 'YIP-1', amount: 5100 }),
+      candidate({ paymentReference: 'YIP-2', date: new Date(Date.UTC(2026, 0, 1)) }),
+    ])).toEqual([])
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Campaign Tests
+ * Tests for campaign phases, project coverage and sponsor matching
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+import {
+  buildCampaignProgress,
+  calculateMatching,
+  campaignAcceptsProject,
+  getCampaignPhase,
+} from '../campaigns'
+
+describe('getCampaignPhase', () => {
+  const campaign = {
+    startsAt: new Date('2027-02-08T16:00:00.000Z'),
+    endsAt: new Date('2027-03-09T15:59:59.000Z'),
+  }
+
+  it('is upcoming, active and ended around the campaign window', () => {
+    expect(getCampaignPhase(campaign, new Date('2027-02-01T00:00:00.000Z'))).toBe('upcoming')
+    expect(getCampaignPhase(campaign, new Date('2027-02-08T16:00:00.000Z'))).toBe('active')
+    expect(getCampaignPhase(campaign, new Date('2027-03-09T16:00:00.000Z'))).toBe('ended')
+  })
+})
+
+describe('campaignAcceptsProject', () => {
+  it('accepts the General Fund and linked projects only', () => {
+    const campaign = { projectIds: ['project-a'] }
+    expect(campaignAcceptsProject(campaign, null)).toBe(true)
+    expect(campaignAcceptsProject(campaign, 'project-a')).toBe(true)
+    expect(campaignAcceptsProject(campaign, 'project-b')).toBe(false)
+  })
+})
+
+describe('calculateMatching', () => {
+  it('matches at each ratio until the cap', () => {
+    const matches = calculateMatching(300000, [
+      { sponsor: 'Sponsor A', ratio: 1, cap: 500000 },
+      { sponsor: 'Sponsor B', ratio: 0.5, cap: 100000 },
+    ])
+
+    expect(matches.map(m => m.matched)).toEqual([300000, 100000])
+  })
+})
+
+describe('buildCampaignProgress', () => {
+  it('reports matched funds separately from donations', () => {
+    const progress = buildCampaignProgress(
+      { goal: 1000000, matchingRules: [{ sponsor: 'Sponsor A', ratio: 1, cap: 200000 }] },
+      { raised: 350000, donationCount: 12, donorCount: 10 }
+    )
+
+    expect(progress.raised).toBe(350000)
+    expect(progress.matched).toBe(200000)
+    expect(progress.total).toBe(550000)
+    expect(progress.percent).toBeCloseTo(55)
+  })
+
+  it('caps the percentage at 100', () => {
+    const progress = buildCampaignProgress(
+      { goal: 100000, matchingRules: [] },
+      { raised: 250000, donationCount: 3, donorCount: 3 }
+    )
+
+    expect(progress.matched).toBe(0)
+    expect(progress.percent).toBe(100)
+  })
+})
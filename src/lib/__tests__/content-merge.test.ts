@@ -0,0 +1,66 @@
+/**
+ * Content Merge Tests
+ * Tests for merging two editors' changes to the same content
+ */
+
+import { describe, it, expect } from 'vitest'
+import { mergeContent, resolveMerge } from '../content-merge'
+
+const base = {
+  title: { en: 'Clean water', ms: 'Air bersih' },
+  content: { en: 'We built 3 wells.', ms: 'Kami membina 3 perigi.' },
+  category: 'water',
+  tags: ['wells'],
+}
+
+describe('mergeContent', () => {
+  it('keeps changes each side made to different fields', () => {
+    const mine = { ...base, category: 'health' }
+    const theirs = { ...base, tags: ['wells', 'kelantan'] }
+
+    const { merged, conflicts } = mergeContent(base, mine, theirs)
+    expect(conflicts).toEqual([])
+    expect(merged).toEqual({ ...base, category: 'health', tags: ['wells', 'kelantan'] })
+  })
+
+  it('merges each language of a localized field on its own', () => {
+    const mine = { ...base, content: { ...base.content, en: 'We built 5 wells.' } }
+    const theirs = { ...base, content: { ...base.content, ms: 'Kami membina 5 perigi.' } }
+
+    const { merged, conflicts } = mergeContent(base, mine, theirs)
+    expect(conflicts).toEqual([])
+    expect(merged.content).toEqual({ en: 'We built 5 wells.', ms: 'Kami membina 5 perigi.' })
+  })
+
+  it('does not count the same change on both sides as a conflict', () => {
+    const mine = { ...base, category: 'health' }
+    expect(mergeContent(base, mine, { ...mine }).conflicts).toEqual([])
+  })
+
+  it('reports fields both sides changed differently, keeping mine for now', () => {
+    const mine = { ...base, title: { ...base.title, en: 'Clean water for Kelantan' }, category: 'health' }
+    const theirs = { ...base, title: { ...base.title, en: 'Safe water' }, category: 'education' }
+
+    const { merged, conflicts } = mergeContent(base, mine, theirs)
+    expect(conflicts).toEqual([
+      { key: 'title.en', field: 'title', locale: 'en', mine: 'Clean water for Kelantan', theirs: 'Safe water' },
+      { key: 'category', field: 'category', locale: null, mine: 'health', theirs: 'education' },
+    ])
+    expect(merged.title.en).toBe('Clean water for Kelantan')
+    expect(merged.category).toBe('health')
+  })
+})
+
+describe('resolveMerge', () => {
+  it('applies the chosen side of each conflict', () => {
+    const mine = { ...base, title: { en: 'Mine', ms: 'Milik saya' }, category: 'health' }
+    const theirs = { ...base, title: { en: 'Theirs', ms: 'Milik mereka' }, category: 'education' }
+    const result = mergeContent(base, mine, theirs)
+
+    const resolved = resolveMerge(result, { 'title.ms': 'theirs', category: 'theirs' })
+    expect(resolved.title).toEqual({ en: 'Mine', ms: 'Milik mereka' })
+    expect(resolved.category).toBe('education')
+    // The merge result itself is left alone
+    expect(result.merged.title).toEqual({ en: 'Mine', ms: 'Milik saya' })
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Donation Analytics Tests
+ * Tests for period bucketing, gap filling and retention cohorts
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+import {
+  buildRetentionCohorts,
+  conversionRate,
+  fillTimeSeries,
+  getBucketStart,
+  parseAnalyticsInterval,
+} from '../donation-analytics'
+
+describe('getBucketStart', () => {
+  it('buckets by Malaysia time', () => {
+    // 20:00 UTC on 31 Jan is 04:00 on 1 Feb in Malaysia
+    const date = new Date('2026-01-31T20:00:00Z')
+    expect(getBucketStart(date, 'day')).toBe('2026-02-01')
+    expect(getBucketStart(date, 'month')).toBe('2026-02-01')
+  })
+
+  it('starts weeks on Monday', () => {
+    expect(getBucketStart(new Date('2026-03-11T04:00:00Z'), 'week')).toBe('2026-03-09')
+    expect(getBucketStart(new Date('2026-03-15T04:00:00Z'), 'week')).toBe('2026-03-09')
+    expect(getBucketStart(new Date('2026-03-16T04:00:00Z'), 'week')).toBe('2026-03-16')
+  })
+})
+
+describe('fillTimeSeries', () => {
+  it('adds empty periods and derives average gift and conversion', () => {
+    const series = fillTimeSeries([
+      { bucket: '2026-01-01', created: 4, completed: 2, amount: 10000 },
+      { bucket: '2026-03-01', created: 1, completed: 1, amount: 2500 },
+    ], 'month')
+
+    expect(series.map(point => point.bucket)).toEqual(['2026-01-01', '2026-02-01', '2026-03-01'])
+    expect(series[0]).toMatchObject({ averageGift: 5000, conversionRate: 50 })
+    expect(series[1]).toMatchObject({ created: 0, completed: 0, amount: 0, averageGift: 0, conversionRate: 0 })
+  })
+
+  it('covers the whole filtered date range', () => {
+    const series = fillTimeSeries([], 'day', {
+      from: new Date('2026-03-01T00:00:00Z'),
+      to: new Date('2026-03-03T12:00:00Z'),
+    })
+    expect(series.map(point => point.bucket)).toEqual(['2026-03-01', '2026-03-02', '2026-03-03'])
+  })
+})
+
+describe('buildRetentionCohorts', () => {
+  const activity = [
+    { donorKey: 'a', month: '2026-01' },
+    { donorKey: 'a', month: '2026-02' },
+    { donorKey: 'b', month: '2026-01' },
+    { donorKey: 'b', month: '2026-03' },
+    { donorKey: 'c', month: '2026-02' },
+    { donorKey: 'c', month: '2026-03' },
+  ]
+
+  it('groups donors by first gift month and tracks later giving', () => {
+    const cohorts = buildRetentionCohorts(activity, { currentMonth: '2026-03' })
+
+    expect(cohorts.map(c => [c.cohort, c.size])).toEqual([['2026-01', 2], ['2026-02', 1]])
+    expect(cohorts[0].retention.slice(0, 3)).toEqual([50, 50, null])
+    expect(cohorts[1].retention.slice(0, 2)).toEqual([100, null])
+  })
+
+  it('limits cohorts to the date range', () => {
+    const cohorts = buildRetentionCohorts(activity, { fromMonth: '2026-02', currentMonth: '2026-03' })
+    expect(cohorts.map(c => c.cohort)).toEqual(['2026-02'])
+  })
+})
+
+describe('helpers', () => {
+  it('rounds conversion to one decimal and defaults the interval to weekly', () => {
+    expect(conversionRate(3, 1)).toBe(33.3)
+    expect(conversionRate(0, 0)).toBe(0)
+    expect(parseAnalyticsInterval('month')).toBe('month')
+    expect(parseAnalyticsInterval('year')).toBe('week')
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Donation Recovery Tests
+ * Tests for recovery settings and which abandoned donations are emailed
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+vi.mock('@/lib/email', () => ({
+  sendDonationRecoveryEmail: vi.fn(),
+}))
+
+import { DEFAULT_RECOVERY_SETTINGS, isDueForRecovery, parseRecoverySettings } from '../donation-recovery'
+
+const now = new Date('2026-03-10T12:00:00Z')
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000)
+const settings = { enabled: true, delayHours: 2, maxAttempts: 2 }
+
+function pending(overrides: Partial<Parameters<typeof isDueForRecovery>[0]> = {}) {
+  return {
+    paymentStatus: 'pending',
+    donorEmail: 'aminah@example.com',
+    recoveryEmailConsent: true,
+    subscriptionId: null,
+    paymentGateway: 'toyyibpay',
+    paymentAttempts: 1,
+    recoveryEmailCount: 0,
+    lastRecoveryEmailAt: null,
+    createdAt: hoursAgo(3),
+    ...overrides,
+  }
+}
+
+describe('parseRecoverySettings', () => {
+  it('is off by default and keeps valid values', () => {
+    expect(parseRecoverySettings(null)).toEqual(DEFAULT_RECOVERY_SETTINGS)
+    expect(parseRecoverySettings({ enabled: true, delayHours: 6, maxAttempts: 3 }))
+      .toEqual({ enabled: true, delayHours: 6, maxAttempts: 3 })
+  })
+
+  it('falls back to defaults for out-of-range values', () => {
+    expect(parseRecoverySettings({ enabled: 'yes', delayHours: 0, maxAttempts: 10 })).toEqual(DEFAULT_RECOVERY_SETTINGS)
+    expect(parseRecoverySettings({ delayHours: 1.5 }).delayHours).toBe(DEFAULT_RECOVERY_SETTINGS.delayHours)
+  })
+})
+
+describe('isDueForRecovery', () => {
+  it('waits for the delay after the donation and after each email', () => {
+    expect(isDueForRecovery(pending(), settings, now)).toBe(true)
+    expect(isDueForRecovery(pending({ createdAt: hoursAgo(1) }), settings, now)).toBe(false)
+    expect(isDueForRecovery(pending({ recoveryEmailCount: 1, lastRecoveryEmailAt: hoursAgo(1) }), settings, now)).toBe(false)
+    expect(isDueForRecovery(pending({ recoveryEmailCount: 1, lastRecoveryEmailAt: hoursAgo(2) }), settings, now)).toBe(true)
+  })
+
+  it('stops after the attempt limit', () => {
+    expect(isDueForRecovery(pending({ recoveryEmailCount: 2, lastRecoveryEmailAt: hoursAgo(5) }), settings, now)).toBe(false)
+    expect(isDueForRecovery(pending({ paymentAttempts: 5 }), settings, now)).toBe(false)
+  })
+
+  it('skips donations that cannot or should not be chased', () => {
+    expect(isDueForRecovery(pending({ paymentStatus: 'completed' }), settings, now)).toBe(false)
+    expect(isDueForRecovery(pending({ donorEmail: null }), settings, now)).toBe(false)
+    expect(isDueForRecovery(pending({ subscriptionId: 'sub-1' }), settings, now)).toBe(false)
+    expect(isDueForRecovery(pending({ paymentGateway: 'offline' }), settings, now)).toBe(false)
+    expect(isDueForRecovery(pending({ createdAt: hoursAgo(8 * 24) }), settings, now)).toBe(false)
+  })
+
+  it('only emails donors who asked for reminders', () => {
+    expect(isDueForRecovery(pending({ recoveryEmailConsent: false }), settings, now)).toBe(false)
+  })
+})
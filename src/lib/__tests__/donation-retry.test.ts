@@ -0,0 +1,119 @@
+/**
+ * Donation Retry Tests
+ * Tests for which donations can be given a new bill and retries that lose
+ * a race with the payment completing
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const store = vi.hoisted(() => ({
+  // Status the donation has by the time the retry is written back
+  currentStatus: 'pending',
+  updated: null as Record<string, unknown> | null,
+  logs: [] as Array<{ eventType: string }>,
+  createBill: vi.fn(async () => ({ billCode: 'bill-2', paymentUrl: 'https://pay.example/bill-2' })),
+}))
+
+vi.mock('@/db', async () => {
+  const schema = await vi.importActual<typeof import('@/db/schema')>('@/db/schema')
+  return {
+    ...schema,
+    db: {
+      query: { projects: { findFirst: async () => undefined } },
+      insert: () => ({
+        values: async (values: { eventType: string }) => {
+          store.logs.push(values)
+        },
+      }),
+      // Mirrors the retryable-status condition on the update
+      update: () => ({
+        set: (values: Record<string, unknown>) => ({
+          where: () => ({
+            returning: async () => {
+              if (!['pending', 'failed', 'expired'].includes(store.currentStatus)) return []
+              store.updated = values
+              return [{ id: 'donation-1' }]
+            },
+          }),
+        }),
+      }),
+    },
+  }
+})
+
+vi.mock('@/lib/payments', () => ({
+  PaymentGatewayError: class extends Error {},
+  getPaymentGateway: () => ({
+    id: 'toyyibpay',
+    isConfigured: () => true,
+    getCallbackUrl: (baseUrl: string) => `${baseUrl}/api/donations/webhook`,
+    createBill: store.createBill,
+  }),
+}))
+
+vi.mock('@/lib/offline-donations', () => ({ OFFLINE_PAYMENT_GATEWAY: 'offline' }))
+
+import { createRetryBill, DonationRetryError } from '../donation-retry'
+
+type Donation = Parameters<typeof createRetryBill>[0]
+
+function donation(overrides: Partial<Donation> = {}): Donation {
+  return {
+    id: 'donation-1',
+    paymentReference: 'YIP-RETRY',
+    paymentStatus: 'failed',
+    paymentGateway: 'toyyibpay',
+    gatewayBillCode: 'bill-1',
+    paymentAttempts: 1,
+    amount: 5000,
+    donorName: 'Siti Aminah',
+    donorEmail: 'siti@example.com',
+    projectId: null,
+    ...overrides,
+  } as Donation
+}
+
+const options = { baseUrl: 'http://localhost:3000' }
+
+beforeEach(() => {
+  store.currentStatus = 'failed'
+  store.updated = null
+  store.logs = []
+  store.createBill.mockClear()
+})
+
+describe('createRetryBill', () => {
+  it('issues a new bill for a failed donation', async () => {
+    const bill = await createRetryBill(donation(), options)
+
+    expect(bill).toEqual({ billCode: 'bill-2', paymentUrl: 'https://pay.example/bill-2', attemptNumber: 2 })
+    expect(store.updated).toMatchObject({ gatewayBillCode: 'bill-2', paymentStatus: 'pending', paymentAttempts: 2 })
+    expect(store.logs.map(log => log.eventType)).toEqual(['retry_initiated'])
+  })
+
+  it('refuses offline donations and donations that are not unpaid', async () => {
+    const refused = [
+      donation({ paymentGateway: 'offline', paymentStatus: 'awaiting_approval' }),
+      donation({ paymentGateway: 'offline', paymentStatus: 'rejected' }),
+      donation({ paymentStatus: 'rejected' }),
+      donation({ paymentStatus: 'completed' }),
+      donation({ paymentStatus: 'refunded' }),
+    ]
+
+    for (const entry of refused) {
+      await expect(createRetryBill(entry, options)).rejects.toMatchObject({ status: 400 })
+    }
+    expect(store.createBill).not.toHaveBeenCalled()
+  })
+
+  it('does not reopen a donation completed while the bill was created', async () => {
+    store.currentStatus = 'completed'
+
+    const error = await createRetryBill(donation(), options).catch(e => e)
+
+    expect(error).toBeInstanceOf(DonationRetryError)
+    expect(error.status).toBe(409)
+    expect(store.updated).toBeNull()
+    expect(store.logs.map(log => log.eventType)).toEqual(['retry_superseded'])
+  })
+})
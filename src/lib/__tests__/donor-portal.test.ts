@@ -0,0 +1,72 @@
+/**
+ * Donor Portal Tests
+ * Tests for sign-in tokens, session expiry and statement years
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+vi.mock('@/lib/email', () => ({
+  sendDonorLoginEmail: vi.fn(),
+}))
+
+import { generateDonorToken, getStatementYears, hashDonorToken, isDonorSessionActive } from '../donor-portal'
+
+const now = new Date('2026-03-10T12:00:00Z')
+
+function gift(overrides: Partial<Parameters<typeof getStatementYears>[0][number]> = {}) {
+  return {
+    paymentStatus: 'completed',
+    environment: 'production',
+    donorEmail: 'aminah@example.com',
+    completedAt: new Date('2025-06-01T00:00:00Z'),
+    createdAt: new Date('2025-06-01T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+describe('donor tokens', () => {
+  it('generates unguessable tokens and stores only their hash', () => {
+    const token = generateDonorToken()
+    expect(token.length).toBeGreaterThanOrEqual(43)
+    expect(generateDonorToken()).not.toBe(token)
+    expect(hashDonorToken(token)).toBe(hashDonorToken(token))
+    expect(hashDonorToken(token)).not.toContain(token)
+  })
+})
+
+describe('isDonorSessionActive', () => {
+  it('expires sessions and honours sign-out', () => {
+    expect(isDonorSessionActive({ expiresAt: new Date('2026-03-11T00:00:00Z'), revokedAt: null }, now)).toBe(true)
+    expect(isDonorSessionActive({ expiresAt: new Date('2026-03-10T11:59:59Z'), revokedAt: null }, now)).toBe(false)
+    expect(isDonorSessionActive({ expiresAt: new Date('2026-03-11T00:00:00Z'), revokedAt: now }, now)).toBe(false)
+  })
+})
+
+describe('getStatementYears', () => {
+  it('lists years with completed gifts under the donor email, newest first', () => {
+    expect(getStatementYears([
+      gift(),
+      gift({ completedAt: new Date('2024-02-01T00:00:00Z') }),
+      gift({ donorEmail: 'Aminah@Example.com', completedAt: new Date('2025-09-01T00:00:00Z') }),
+    ], 'aminah@example.com')).toEqual([2025, 2024])
+  })
+
+  it('uses Malaysian time for gifts around new year', () => {
+    expect(getStatementYears([
+      gift({ completedAt: new Date('2025-12-31T17:00:00Z') }),
+    ], 'aminah@example.com')).toEqual([2026])
+  })
+
+  it('skips gifts that are not on a statement', () => {
+    expect(getStatementYears([
+      gift({ paymentStatus: 'refunded' }),
+      gift({ environment: 'sandbox' }),
+      gift({ donorEmail: 'someone.else@example.com' }),
+    ], 'aminah@example.com')).toEqual([])
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * Donor Profile Tests
+ * Tests for contact normalization, matching donations to profiles and
+ * lifetime giving totals
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const store = vi.hoisted(() => ({ donors: [] as Record<string, unknown>[] }))
+
+vi.mock('@/db', async () => {
+  const schema = await vi.importActual<typeof import('@/db/schema')>('@/db/schema')
+  const { Param, SQL } = await vi.importActual<typeof import('drizzle-orm')>('drizzle-orm')
+
+  // The values a where clause compares against, e.g. the email in eq(donors.email, email)
+  const whereValues = (where: unknown): unknown[] => {
+    if (where instanceof Param) return [where.value]
+    if (where instanceof SQL) return where.queryChunks.flatMap(whereValues)
+    return []
+  }
+  const matching = (where: unknown) => {
+    const conditions = whereValues(where)
+    return store.donors.filter(row => conditions.every(value => Object.values(row).includes(value)))
+  }
+
+  return {
+    ...schema,
+    db: {
+      query: {
+        donors: { findFirst: async ({ where }: { where: unknown }) => matching(where)[0] },
+      },
+      insert: () => ({
+        values: (values: Record<string, unknown>) => ({
+          returning: async () => {
+            const row = { id: `donor-${store.donors.length + 1}`, email: null, phone: null, mergedIntoId: null, ...values }
+            store.donors.push(row)
+            return [{ id: row.id }]
+          },
+        }),
+      }),
+      update: () => ({
+        set: (values: Record<string, unknown>) => ({
+          where: async (where: unknown) => {
+            for (const row of matching(where)) Object.assign(row, values)
+          },
+        }),
+      }),
+    },
+  }
+})
+
+import { findOrCreateDonor, normalizeDonorEmail, normalizeDonorPhone, summarizeDonorGifts } from '../donors'
+
+function gift(overrides: Partial<Parameters<typeof summarizeDonorGifts>[0][number]> = {}) {
+  return {
+    amount: 5000,
+    refundedAmount: 0,
+    paymentStatus: 'completed',
+    environment: 'production',
+    completedAt: new Date('2025-06-01T00:00:00Z'),
+    createdAt: new Date('2025-06-01T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+describe('normalizeDonorEmail', () => {
+  it('trims and lowercases addresses', () => {
+    expect(normalizeDonorEmail('  Aminah@Example.COM ')).toBe('aminah@example.com')
+  })
+
+  it('rejects empty or invalid values', () => {
+    expect(normalizeDonorEmail('')).toBeNull()
+    expect(normalizeDonorEmail(null)).toBeNull()
+    expect(normalizeDonorEmail('not-an-email')).toBeNull()
+  })
+})
+
+describe('normalizeDonorPhone', () => {
+  it('converts local Malaysian numbers to E.164', () => {
+    expect(normalizeDonorPhone('012-345 6789')).toBe('+60123456789')
+    expect(normalizeDonorPhone('60123456789')).toBe('+60123456789')
+    expect(normalizeDonorPhone('+60 12-345 6789')).toBe('+60123456789')
+  })
+
+  it('keeps international numbers', () => {
+    expect(normalizeDonorPhone('+65 9123 4567')).toBe('+6591234567')
+    expect(normalizeDonorPhone('0065 9123 4567')).toBe('+6591234567')
+  })
+
+  it('rejects numbers it cannot place', () => {
+    expect(normalizeDonorPhone('12345')).toBeNull()
+    expect(normalizeDonorPhone('9123 4567')).toBeNull()
+    expect(normalizeDonorPhone(undefined)).toBeNull()
+  })
+})
+
+describe('findOrCreateDonor', () => {
+  beforeEach(() => {
+    store.donors = [{ id: 'donor-phone', name: 'Siti Aminah', email: null, phone: '+60123456789', mergedIntoId: null }]
+  })
+
+  it('matches a donation without an email on phone', async () => {
+    expect(await findOrCreateDonor({ name: 'Siti', phone: '012-345 6789' })).toBe('donor-phone')
+    expect(store.donors).toHaveLength(1)
+  })
+
+  it('does not add an unverified email to a profile found by phone', async () => {
+    const donorId = await findOrCreateDonor({ name: 'Siti Aminah', email: 'Someone@Example.com', phone: '0123456789' })
+
+    expect(donorId).not.toBe('donor-phone')
+    expect(store.donors[0].email).toBeNull()
+    // Left for an admin to merge: findDuplicateDonors groups profiles by phone
+    expect(store.donors[1]).toMatchObject({ id: donorId, email: 'someone@example.com', phone: '+60123456789' })
+  })
+
+  it('matches on email and fills in a missing phone number', async () => {
+    store.donors.push({ id: 'donor-email', name: null, email: 'siti@example.com', phone: null, mergedIntoId: null })
+
+    expect(await findOrCreateDonor({ name: 'Siti', email: 'siti@example.com', phone: '0198765432' })).toBe('donor-email')
+    expect(store.donors[1]).toMatchObject({ name: 'Siti', phone: '+60198765432' })
+  })
+})
+
+describe('summarizeDonorGifts', () => {
+  it('totals completed production gifts net of refunds', () => {
+    const summary = summarizeDonorGifts([
+      gift({ amount: 10000, refundedAmount: 2500 }),
+      gift({ amount: 5000 }),
+      gift({ paymentStatus: 'pending' }),
+      gift({ environment: 'sandbox' }),
+    ])
+    expect(summary.giftCount).toBe(2)
+    expect(summary.lifetimeValue).toBe(12500)
+    expect(summary.averageGift).toBe(6250)
+  })
+
+  it('finds the first and last gift dates', () => {
+    const first = new Date('2024-01-15T00:00:00Z')
+    const last = new Date('2026-02-01T00:00:00Z')
+    const summary = summarizeDonorGifts([
+      gift({ completedAt: last }),
+      gift({ completedAt: null, createdAt: first }),
+      gift(),
+    ])
+    expect(summary.firstGiftAt).toEqual(first)
+    expect(summary.lastGiftAt).toEqual(last)
+  })
+
+  it('returns empty totals for donors with no gifts', () => {
+    expect(summarizeDonorGifts([])).toEqual({
+      giftCount: 0,
+      lifetimeValue: 0,
+      averageGift: 0,
+      firstGiftAt: null,
+      lastGiftAt: null,
+    })
+  })
+})
@@ -0,0 +1,33 @@
+/**
+ * Edit Leases Tests
+ * Tests for lease expiry and content type checks
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+import { LEASE_HEARTBEAT_MS, LEASE_TTL_MS, isLeaseActive, resolveLeaseContentType } from '../edit-leases'
+
+describe('isLeaseActive', () => {
+  const now = new Date('2026-05-01T00:00:00Z')
+
+  it('is active until it expires', () => {
+    expect(isLeaseActive({ expiresAt: new Date('2026-05-01T00:01:00Z') }, now)).toBe(true)
+    expect(isLeaseActive({ expiresAt: now }, now)).toBe(false)
+  })
+
+  it('survives a missed heartbeat', () => {
+    expect(LEASE_TTL_MS).toBeGreaterThan(2 * LEASE_HEARTBEAT_MS)
+  })
+})
+
+describe('resolveLeaseContentType', () => {
+  it('accepts blog posts and projects only', () => {
+    expect(resolveLeaseContentType('blog_posts')).toBe('blog_posts')
+    expect(resolveLeaseContentType('pages')).toBeNull()
+  })
+})
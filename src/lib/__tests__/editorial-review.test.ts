@@ -0,0 +1,213 @@
+/**
+ * Editorial Review Tests
+ * Tests for the review state machine, the publishing gate and holding
+ * edits to live content until they are approved
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { SQL } from 'drizzle-orm'
+
+// One blog post and its review, enough for a save and an approval
+const store = vi.hoisted(() => ({
+  post: null as Record<string, unknown> | null,
+  review: null as Record<string, unknown> | null,
+  user: { id: 'writer-id', email: 'writer@insanprihatin.org', name: 'Writer' },
+}))
+
+vi.mock('@/db', async () => {
+  const schema = await vi.importActual<typeof import('@/db/schema')>('@/db/schema')
+  const rowFor = (table: unknown) => table === schema.contentReviews ? 'review' : 'post'
+
+  // Only the two SQL expressions these saves use: revision + 1 and adding an editor
+  const resolve = (key: string, value: unknown, row: Record<string, unknown>) => {
+    if (!(value instanceof SQL)) return value
+    if (key === 'revision') return (row.revision as number) + 1
+    const [added] = JSON.parse(value.queryChunks.find(chunk => typeof chunk === 'string') as string) as string[]
+    const editors = row.editorEmails as string[]
+    return editors.includes(added) ? editors : [...editors, added]
+  }
+
+  const update = (table: unknown) => ({
+    set: (values: Record<string, unknown>) => ({
+      where: () => {
+        const key = rowFor(table)
+        const row = store[key]!
+        for (const [field, value] of Object.entries(values)) row[field] = resolve(field, value, row)
+        const result = Promise.resolve([{ ...row }])
+        return Object.assign(result, { returning: () => result })
+      },
+    }),
+  })
+
+  return {
+    ...schema,
+    db: {
+      query: {
+        blogPosts: { findFirst: async () => store.post && { ...store.post } },
+        contentReviews: { findFirst: async () => store.review && { ...store.review } },
+      },
+      insert: (table: unknown) => ({
+        values: (values: Record<string, unknown>) => ({
+          onConflictDoNothing: async () => {
+            if (table === schema.contentReviews && !store.review) {
+              store.review = { id: 'review-id', editorEmails: [], pendingChanges: null, authorEmail: null, ...values }
+            }
+          },
+        }),
+      }),
+      update,
+    },
+  }
+})
+
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }))
+vi.mock('@/lib/auth/server', () => ({ requireAuth: async () => store.user }))
+vi.mock('@/lib/auto-translate', () => ({ autoTranslateFields: async (fields: object) => fields }))
+vi.mock('@/lib/actions/notifications', () => ({
+  createNotification: vi.fn(),
+  notifyBlogPublished: vi.fn(),
+  notifyProjectPublished: vi.fn(),
+}))
+vi.mock('@/lib/versioning', () => ({ createVersion: vi.fn(), logActivity: vi.fn() }))
+
+import {
+  getApprovalBlocker,
+  getPublishBlocker,
+  hasContentChanges,
+  nextReviewStatus,
+  resolveReviewContentType,
+  reviewContent,
+} from '../editorial-review'
+import { updateBlogPost } from '../actions/blog'
+
+describe('nextReviewStatus', () => {
+  it('moves draft → in review → approved → published', () => {
+    expect(nextReviewStatus('draft', 'submit')).toBe('in_review')
+    expect(nextReviewStatus('in_review', 'approve')).toBe('approved')
+    expect(nextReviewStatus('approved', 'publish')).toBe('published')
+  })
+
+  it('sends requested changes back to the author to resubmit', () => {
+    expect(nextReviewStatus('in_review', 'request_changes')).toBe('changes_requested')
+    expect(nextReviewStatus('approved', 'request_changes')).toBe('changes_requested')
+    expect(nextReviewStatus('changes_requested', 'submit')).toBe('in_review')
+  })
+
+  it('refuses to skip steps', () => {
+    expect(nextReviewStatus('draft', 'approve')).toBeNull()
+    expect(nextReviewStatus('draft', 'publish')).toBeNull()
+    expect(nextReviewStatus('in_review', 'publish')).toBeNull()
+    expect(nextReviewStatus('changes_requested', 'approve')).toBeNull()
+  })
+
+  it('starts a new review after unpublishing', () => {
+    expect(nextReviewStatus('published', 'unpublish')).toBe('draft')
+  })
+})
+
+describe('getApprovalBlocker', () => {
+  const review = { status: 'in_review', authorEmail: 'Writer@insanprihatin.org', editorEmails: ['helper@insanprihatin.org'] }
+
+  it('lets anyone but the author approve', () => {
+    expect(getApprovalBlocker(review, 'editor@insanprihatin.org')).toBeNull()
+    expect(getApprovalBlocker(review, 'writer@insanprihatin.org')).toBe('Content must be approved by someone other than its author')
+  })
+
+  it('refuses approval by anyone who edited it', () => {
+    expect(getApprovalBlocker(review, 'Helper@insanprihatin.org')).toBe('Content must be approved by someone who has not edited it')
+  })
+
+  it('only approves content that is in review', () => {
+    expect(getApprovalBlocker({ ...review, status: 'draft' }, 'editor@insanprihatin.org')).not.toBeNull()
+    expect(getApprovalBlocker(null, 'editor@insanprihatin.org')).not.toBeNull()
+  })
+})
+
+describe('getPublishBlocker', () => {
+  it('publishes approved content only', () => {
+    expect(getPublishBlocker({ status: 'approved' })).toBeNull()
+    expect(getPublishBlocker({ status: 'in_review' })).not.toBeNull()
+    expect(getPublishBlocker(null)).not.toBeNull()
+  })
+
+  it('refuses unapproved edits made with the publish', () => {
+    expect(getPublishBlocker({ status: 'approved' }, true)).toMatch(/not been approved/)
+  })
+})
+
+describe('hasContentChanges', () => {
+  const existing = { title: { en: 'Clean water', ms: 'Air bersih' }, isPublished: false, updatedAt: new Date(0) }
+
+  it('ignores publishing side effects', () => {
+    expect(hasContentChanges(existing, { isPublished: true, publishedAt: new Date(), updatedAt: new Date() })).toBe(false)
+    expect(hasContentChanges(existing, { title: { en: 'Clean water', ms: 'Air bersih' } })).toBe(false)
+  })
+
+  it('spots edits in any language', () => {
+    expect(hasContentChanges(existing, { title: { en: 'Clean water', ms: 'Air bersih untuk semua' } })).toBe(true)
+    expect(hasContentChanges(existing, { excerpt: { en: 'New', ms: 'Baru' } })).toBe(true)
+  })
+})
+
+describe('resolveReviewContentType', () => {
+  it('accepts only reviewed content types', () => {
+    expect(resolveReviewContentType('pages')).toBe('pages')
+    expect(resolveReviewContentType('faqs')).toBeNull()
+  })
+})
+
+describe('edits to a published post', () => {
+  const POST_ID = '6f1c1a52-8d4e-4c39-9a3b-2f1e5d7c9b10'
+  const liveTitle = { en: 'Clean water', ms: 'Air bersih' }
+  const newTitle = { en: 'Clean water for Kelantan', ms: 'Air bersih untuk Kelantan' }
+  const writer = { id: 'writer-id', email: 'writer@insanprihatin.org', name: 'Writer' }
+  const editor = { id: 'editor-id', email: 'editor@insanprihatin.org', name: 'Editor' }
+
+  beforeEach(() => {
+    store.post = {
+      id: POST_ID,
+      slug: 'clean-water',
+      title: liveTitle,
+      content: { en: 'We built 3 wells.', ms: 'Kami membina 3 perigi.' },
+      isPublished: true,
+      publishedAt: new Date('2026-01-01T00:00:00Z'),
+      revision: 3,
+    }
+    store.review = null
+    store.user = writer
+  })
+
+  it('are not live until another admin approves them', async () => {
+    const result = await updateBlogPost(POST_ID, { title: newTitle }, { baseRevision: 3 })
+
+    expect(result).toEqual({ success: true, revision: 4, pendingReview: true })
+    expect(store.post!.title).toEqual(liveTitle)
+    expect(store.review).toMatchObject({
+      status: 'in_review',
+      authorEmail: writer.email,
+      pendingChanges: { title: newTitle },
+      editorEmails: [writer.email],
+    })
+
+    const selfApproval = await reviewContent('blog_posts', POST_ID, 'approve', writer)
+    expect(selfApproval.success).toBe(false)
+    expect(store.post!.title).toEqual(liveTitle)
+
+    const approval = await reviewContent('blog_posts', POST_ID, 'approve', editor)
+    expect(approval.success).toBe(true)
+    expect(store.post!.title).toEqual(newTitle)
+    expect(store.post!.revision).toBe(5)
+    expect(store.review).toMatchObject({ status: 'published', pendingChanges: null, editorEmails: [] })
+  })
+
+  it('refuses approval by a second admin who edited them', async () => {
+    await updateBlogPost(POST_ID, { title: newTitle }, { baseRevision: 3 })
+    store.user = editor
+    await updateBlogPost(POST_ID, { content: { en: 'We built 5 wells.', ms: 'Kami membina 5 perigi.' } }, { baseRevision: 4 })
+
+    expect(store.review!.pendingChanges).toMatchObject({ title: newTitle, content: { en: 'We built 5 wells.' } })
+    const approval = await reviewContent('blog_posts', POST_ID, 'approve', editor)
+    expect(approval).toEqual({ success: false, error: 'Content must be approved by someone who has not edited it' })
+    expect(store.post!.title).toEqual(liveTitle)
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * Donation Widget Tests
+ * Tests for the embedding allowlist and widget presets
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  DEFAULT_EMBED_AMOUNTS,
+  embedFrameAncestors,
+  getEmbedAllowedOrigins,
+  parseEmbedAmounts,
+  resolveEmbedOrigin,
+} from '../embed'
+
+describe('embed allowlist', () => {
+  const original = process.env.EMBED_ALLOWED_ORIGINS
+
+  beforeEach(() => {
+    process.env.EMBED_ALLOWED_ORIGINS = ' https://partner.org/ , https://ramadan.insanprihatin.org,not a url,javascript:alert(1)'
+  })
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.EMBED_ALLOWED_ORIGINS
+    else process.env.EMBED_ALLOWED_ORIGINS = original
+  })
+
+  it('keeps only well-formed http(s) origins', () => {
+    expect(getEmbedAllowedOrigins()).toEqual(['https://partner.org', 'https://ramadan.insanprihatin.org'])
+  })
+
+  it('attributes donations only to allowlisted sites', () => {
+    expect(resolveEmbedOrigin('https://partner.org/donate?x=1')).toBe('https://partner.org')
+    expect(resolveEmbedOrigin('https://evil.example')).toBeNull()
+    expect(resolveEmbedOrigin('http://partner.org')).toBeNull()
+    expect(resolveEmbedOrigin(42)).toBeNull()
+  })
+
+  it('lists the allowlist in frame-ancestors', () => {
+    expect(embedFrameAncestors()).toBe("'self' https://partner.org https://ramadan.insanprihatin.org")
+  })
+
+  it('allows only our own pages to frame the widget without an allowlist', () => {
+    process.env.EMBED_ALLOWED_ORIGINS = ''
+    expect(embedFrameAncestors()).toBe("'self'")
+    expect(resolveEmbedOrigin('https://partner.org')).toBeNull()
+  })
+})
+
+describe('parseEmbedAmounts', () => {
+  it('keeps up to four whole amounts within the donation limits', () => {
+    expect(parseEmbedAmounts('20, 50,50,0,-5,12.5,100,200,500')).toEqual([20, 50, 100, 200])
+  })
+
+  it('falls back to the defaults', () => {
+    expect(parseEmbedAmounts(null)).toEqual(DEFAULT_EMBED_AMOUNTS)
+    expect(parseEmbedAmounts('abc,200000')).toEqual(DEFAULT_EMBED_AMOUNTS)
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Fake Payment Gateway Tests
+ * Tests for the in-process gateway used to drive payment flows in tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { FakePaymentGateway } from '../payments/fake'
+import { PaymentGatewayError, type CreateBillParams } from '../payments/types'
+
+const billParams: CreateBillParams = {
+  reference: 'YIP-TEST-0001',
+  amount: 5000,
+  name: 'Donation to YIP',
+  description: 'Donation to Yayasan Insan Prihatin - General Fund',
+  payerName: 'Ahmad',
+  payerEmail: 'ahmad@example.com',
+  returnUrl: 'http://localhost:3000/donate/success?ref=YIP-TEST-0001',
+  callbackUrl: 'http://localhost:3000/api/donations/webhook?gateway=fake',
+}
+
+describe('FakePaymentGateway', () => {
+  let gateway: FakePaymentGateway
+
+  beforeEach(() => {
+    gateway = new FakePaymentGateway()
+  })
+
+  describe('createBill', () => {
+    it('should create a pending bill and redirect back to the return URL', async () => {
+      const bill = await gateway.createBill(billParams)
+
+      expect(bill.billCode).toMatch(/^fake\d{6}$/)
+      expect(bill.paymentUrl).toBe(billParams.returnUrl)
+      expect(await gateway.getTransactions(bill.billCode)).toEqual([])
+    })
+
+    it('should issue unique bill codes', async () => {
+      const first = await gateway.createBill(billParams)
+      const second = await gateway.createBill(billParams)
+
+      expect(first.billCode).not.toBe(second.billCode)
+    })
+
+    it('should reject amounts below RM 1.00', async () => {
+      await expect(gateway.createBill({ ...billParams, amount: 50 })).rejects.toBeInstanceOf(PaymentGatewayError)
+    })
+
+    it('should fail the next bill when asked to', async () => {
+      gateway.failNextBill(new PaymentGatewayError('Gateway down', 'CONNECTION_ERROR'))
+
+      await expect(gateway.createBill(billParams)).rejects.toMatchObject({ code: 'CONNECTION_ERROR' })
+      await expect(gateway.createBill(billParams)).resolves.toHaveProperty('billCode')
+    })
+  })
+
+  describe('settle', () => {
+    it('should record a completed transaction for the bill amount', async () => {
+      const { billCode } = await gateway.createBill(billParams)
+      gateway.settle(billCode, 'completed')
+
+      const [transaction] = await gateway.getTransactions(billCode)
+      expect(transaction.status).toBe('completed')
+      expect(transaction.amount).toBe(5000)
+      expect(transaction.transactionId).toBeTruthy()
+    })
+
+    it('should list the most recent attempt first', async () => {
+      const { billCode } = await gateway.createBill(billParams)
+      gateway.settle(billCode, 'failed')
+      gateway.settle(billCode, 'completed')
+
+      const transactions = await gateway.getTransactions(billCode)
+      expect(transactions.map(tx => tx.status)).toEqual(['completed', 'failed'])
+    })
+
+    it('should support a different paid amount', async () => {
+      const { billCode } = await gateway.createBill(billParams)
+      gateway.settle(billCode, 'completed', { amount: 4000 })
+
+      const [transaction] = await gateway.getTransactions(billCode)
+      expect(transaction.amount).toBe(4000)
+    })
+
+    it('should throw for unknown bills', () => {
+      expect(() => gateway.settle('missing', 'completed')).toThrow(PaymentGatewayError)
+    })
+  })
+
+  describe('webhooks', () => {
+    it('should round-trip a settled payment through parseWebhook', async () => {
+      const { billCode } = await gateway.createBill(billParams)
+      const payload = gateway.settle(billCode, 'failed', { reason: 'Cancelled' })
+
+      const event = gateway.parseWebhook(payload)
+      expect(event).toMatchObject({
+        reference: 'YIP-TEST-0001',
+        billCode,
+        status: 'failed',
+        reason: 'Cancelled',
+        amount: '50.00',
+      })
+    })
+
+    it('should treat unknown statuses as pending', () => {
+      expect(gateway.parseWebhook({ reference: 'x', status: 'weird' }).status).toBe('pending')
+    })
+
+    it('should route callbacks back to itself', () => {
+      expect(gateway.getCallbackUrl('https://example.org')).toBe(
+        'https://example.org/api/donations/webhook?gateway=fake'
+      )
+    })
+  })
+
+  describe('reset', () => {
+    it('should forget all bills', async () => {
+      const { billCode } = await gateway.createBill(billParams)
+      gateway.reset()
+
+      expect(gateway.getBill(billCode)).toBeUndefined()
+    })
+  })
+})
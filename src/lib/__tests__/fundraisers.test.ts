@@ -0,0 +1,66 @@
+/**
+ * Fundraiser Tests
+ * Tests for supporter fundraiser validation, slugs and progress
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+vi.mock('@/lib/email', () => ({
+  sendFundraiserDonationEmail: vi.fn(),
+  sendFundraiserStatusEmail: vi.fn(),
+}))
+
+import {
+  buildFundraiserProgress,
+  generateFundraiserSlug,
+  validateFundraiserInput,
+} from '../fundraisers'
+
+const validInput = {
+  projectId: '3f2b8c4e-1a2b-4c3d-8e9f-0a1b2c3d4e5f',
+  ownerName: 'Aisyah',
+  ownerEmail: 'aisyah@example.com',
+  title: 'Running 21km for clean water',
+  story: 'I am running my first half marathon to help bring clean water to villages in Sabah.',
+  goal: 500000,
+}
+
+describe('validateFundraiserInput', () => {
+  it('accepts a complete submission', () => {
+    expect(validateFundraiserInput(validInput)).toBeNull()
+  })
+
+  it('rejects short stories and goals outside the limits', () => {
+    expect(validateFundraiserInput({ ...validInput, story: 'Please donate' })).toMatch(/at least 50 characters/)
+    expect(validateFundraiserInput({ ...validInput, goal: 5000 })).toBe('Goal must be at least RM 100')
+    expect(validateFundraiserInput({ ...validInput, goal: 200_000_000 })).toBe('Goal must be RM 1,000,000 or less')
+  })
+
+  it('requires a project and a valid email', () => {
+    expect(validateFundraiserInput({ ...validInput, projectId: 'not-a-uuid' })).toBe('Please choose a project to fundraise for')
+    expect(validateFundraiserInput({ ...validInput, ownerEmail: 'aisyah' })).toBe('A valid email address is required')
+  })
+})
+
+describe('generateFundraiserSlug', () => {
+  it('turns the title into a URL-safe slug with the suffix', () => {
+    expect(generateFundraiserSlug('Running 21km for Clean Water!', 'a1b2c3')).toBe('running-21km-for-clean-water-a1b2c3')
+    expect(generateFundraiserSlug('Kutipan Café Ramadan', 'a1b2c3')).toBe('kutipan-cafe-ramadan-a1b2c3')
+  })
+
+  it('falls back when the title has no usable characters', () => {
+    expect(generateFundraiserSlug('!!!', 'a1b2c3')).toBe('fundraiser-a1b2c3')
+  })
+})
+
+describe('buildFundraiserProgress', () => {
+  it('caps the percentage at 100', () => {
+    expect(buildFundraiserProgress({ goal: 100000 }, { raised: 25000, donationCount: 2, donorCount: 2 }).percent).toBe(25)
+    expect(buildFundraiserProgress({ goal: 100000 }, { raised: 150000, donationCount: 9, donorCount: 7 }).percent).toBe(100)
+  })
+})
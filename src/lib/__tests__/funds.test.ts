@@ -0,0 +1,88 @@
+/**
+ * Fund Tests
+ * Tests for the zakat calculator and per-fund balances
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+import { buildFundBalances, fundBalancesToCsv, type Fund } from '../funds'
+import { calculateZakat, parseZakatNisab, DEFAULT_ZAKAT_NISAB } from '../zakat'
+
+const noAssets = { savings: 0, gold: 0, investments: 0, business: 0, debts: 0 }
+
+function fund(overrides: Partial<Fund>): Fund {
+  return {
+    id: 'fund-1',
+    code: 'zakat',
+    name: { en: 'Zakat Fund', ms: 'Dana Zakat' },
+    description: null,
+    type: 'zakat',
+    projectId: null,
+    isActive: true,
+    sortOrder: 0,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    ...overrides,
+  }
+}
+
+describe('calculateZakat', () => {
+  it('charges 2.5% of net wealth at or above the nisab', () => {
+    const result = calculateZakat({ ...noAssets, savings: 40000, gold: 5000, debts: 5000 }, 30000)
+    expect(result).toEqual({ netWealth: 40000, nisab: 30000, eligible: true, zakat: 1000 })
+    expect(calculateZakat({ ...noAssets, savings: 30000 }, 30000).zakat).toBe(750)
+  })
+
+  it('owes nothing below the nisab and ignores negative inputs', () => {
+    expect(calculateZakat({ ...noAssets, savings: 29999.99 }, 30000)).toMatchObject({ eligible: false, zakat: 0 })
+    expect(calculateZakat({ ...noAssets, savings: 1000, debts: 5000 }, 30000).netWealth).toBe(0)
+    expect(calculateZakat({ ...noAssets, savings: 40000, investments: -10000 }, 30000).netWealth).toBe(40000)
+  })
+
+  it('reads the nisab from the site setting', () => {
+    expect(parseZakatNisab({ amount: 31250.5 })).toBe(31250.5)
+    expect(parseZakatNisab(null)).toBe(DEFAULT_ZAKAT_NISAB)
+    expect(parseZakatNisab({ amount: 0 })).toBe(DEFAULT_ZAKAT_NISAB)
+  })
+})
+
+describe('buildFundBalances', () => {
+  it('nets refunds and keeps funds with no donations', () => {
+    const balances = buildFundBalances(
+      [fund({}), fund({ id: 'fund-2', code: 'waqf', name: { en: 'Waqf', ms: 'Wakaf' }, type: 'waqf' })],
+      [{ fundId: 'fund-1', received: 50000, refunded: 2000, donationCount: 4 }]
+    )
+
+    expect(balances).toHaveLength(2)
+    expect(balances[0]).toMatchObject({ code: 'zakat', received: 50000, refunded: 2000, balance: 48000, donationCount: 4 })
+    expect(balances[1]).toMatchObject({ code: 'waqf', balance: 0, donationCount: 0 })
+  })
+
+  it('groups donations without a fund as Undesignated', () => {
+    const balances = buildFundBalances([fund({})], [
+      { fundId: null, received: 10000, refunded: 0, donationCount: 2 },
+    ])
+
+    expect(balances[1]).toMatchObject({ fundId: null, name: 'Undesignated', type: null, balance: 10000 })
+  })
+})
+
+describe('fundBalancesToCsv', () => {
+  it('writes one row per fund and a total', () => {
+    const csv = fundBalancesToCsv(buildFundBalances(
+      [fund({ name: { en: 'Zakat, Asnaf', ms: 'Zakat' } })],
+      [{ fundId: 'fund-1', received: 12345, refunded: 345, donationCount: 3 }]
+    ))
+
+    expect(csv.split('\n')).toEqual([
+      'Fund Code,Fund,Type,Donations,Received (RM),Refunded (RM),Balance (RM)',
+      'zakat,"Zakat, Asnaf",Zakat,3,123.45,3.45,120.00',
+      ',Total,,,,,120.00',
+    ])
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Offline Donation Tests
+ * Tests for recording offline donations and the second-admin approval
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const store = vi.hoisted(() => ({
+  donation: null as Record<string, unknown> | null,
+  logs: [] as Array<{ eventType: string }>,
+  projectUpdates: 0,
+}))
+
+vi.mock('@/db', async () => {
+  const schema = await vi.importActual<typeof import('@/db/schema')>('@/db/schema')
+  return {
+    ...schema,
+    db: {
+      query: {
+        projects: { findFirst: async () => ({ id: 'project-1' }) },
+        donations: { findFirst: async () => store.donation && { ...store.donation } },
+      },
+      insert: (table: unknown) => ({
+        values: (values: Record<string, unknown>) => {
+          if (table === schema.donations) store.donation = { id: 'donation-1', ...values }
+          if (table === schema.donationLogs) store.logs.push(values as { eventType: string })
+          return Object.assign(Promise.resolve(), { returning: async () => [{ ...store.donation }] })
+        },
+      }),
+      update: (table: unknown) => ({
+        set: () => ({
+          where: async () => {
+            if (table === schema.projects) store.projectUpdates++
+          },
+        }),
+      }),
+    },
+  }
+})
+
+// Completes the donation when it is still awaiting approval, as the
+// conditional update in the real allocation does
+vi.mock('@/lib/receipt', () => ({
+  assignReceiptNumber: vi.fn(async (_where: unknown, values: Record<string, unknown>) => {
+    if (store.donation?.paymentStatus !== 'awaiting_approval') return null
+    Object.assign(store.donation, values, { receiptNumber: 'YIP-2026-000001' })
+    return 'YIP-2026-000001'
+  }),
+  getReceiptData: async () => null,
+}))
+vi.mock('@/lib/receipt-register', () => ({ recordIssuedReceipt: vi.fn() }))
+vi.mock('@/lib/campaigns', () => ({ resolveDonationCampaign: async () => null }))
+vi.mock('@/lib/funds', () => ({ resolveDonationFund: async () => null }))
+vi.mock('@/lib/donors', () => ({ findOrCreateDonor: async () => 'donor-1' }))
+vi.mock('@/lib/email', () => ({ sendDonationReceiptEmail: vi.fn() }))
+
+import { approveOfflineDonation, recordOfflineDonation, type OfflineDonationInput } from '../offline-donations'
+
+const receivedAt = new Date('2026-03-02T00:00:00Z')
+
+function entry(overrides: Partial<OfflineDonationInput> = {}): OfflineDonationInput {
+  return {
+    donorName: 'Siti Aminah',
+    donorEmail: 'siti@example.com',
+    amount: 50000,
+    projectId: 'project-1',
+    paymentMethod: 'bank_transfer',
+    offlineReference: 'MBB-123',
+    receivedAt,
+    proofFileId: 'proof-1',
+    recordedBy: 'finance@insanprihatin.org',
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  store.donation = null
+  store.logs = []
+  store.projectUpdates = 0
+})
+
+describe('recordOfflineDonation', () => {
+  it('records the donation for approval without counting it', async () => {
+    const result = await recordOfflineDonation(entry())
+
+    expect(result).toMatchObject({ success: true, donationId: 'donation-1' })
+    expect(store.donation).toMatchObject({
+      paymentStatus: 'awaiting_approval',
+      paymentGateway: 'offline',
+      proofFileId: 'proof-1',
+      recordedBy: 'finance@insanprihatin.org',
+      environment: 'production',
+    })
+    expect(store.donation?.receiptNumber).toBeUndefined()
+    expect(store.projectUpdates).toBe(0)
+    expect(store.logs.map(log => log.eventType)).toEqual(['offline_recorded'])
+  })
+
+  it('requires proof for transfers and cheques but not cash', async () => {
+    expect((await recordOfflineDonation(entry({ proofFileId: null }))).success).toBe(false)
+    expect((await recordOfflineDonation(entry({ paymentMethod: 'cheque', proofFileId: null }))).success).toBe(false)
+    expect((await recordOfflineDonation(entry({ paymentMethod: 'cash', proofFileId: null }))).success).toBe(true)
+  })
+
+  it('accepts a bank statement line as proof', async () => {
+    const result = await recordOfflineDonation(entry({ proofFileId: null, bankStatementImportId: 'import-1' }))
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects amounts under RM 1 and dates in the future', async () => {
+    expect((await recordOfflineDonation(entry({ amount: 99 }))).success).toBe(false)
+    expect((await recordOfflineDonation(entry({ receivedAt: new Date(Date.now() + 60_000) }))).success).toBe(false)
+    expect(store.donation).toBeNull()
+  })
+})
+
+describe('approveOfflineDonation', () => {
+  beforeEach(async () => {
+    await recordOfflineDonation(entry())
+  })
+
+  it('refuses approval by the admin who recorded it', async () => {
+    const result = await approveOfflineDonation(store.donation!.paymentReference as string, 'Finance@InsanPrihatin.org')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('different admin')
+    expect(store.donation?.paymentStatus).toBe('awaiting_approval')
+    expect(store.projectUpdates).toBe(0)
+  })
+
+  it('completes the donation when a second admin approves it', async () => {
+    const result = await approveOfflineDonation(store.donation!.paymentReference as string, 'director@insanprihatin.org', {
+      sendReceipt: false,
+    })
+
+    expect(result).toMatchObject({ success: true, receiptNumber: 'YIP-2026-000001', emailSent: false })
+    expect(store.donation).toMatchObject({
+      paymentStatus: 'completed',
+      completedAt: receivedAt,
+      reviewedBy: 'director@insanprihatin.org',
+    })
+    expect(store.projectUpdates).toBe(1)
+    expect(store.logs.map(log => log.eventType)).toContain('offline_approved')
+  })
+
+  it('only completes it once', async () => {
+    const reference = store.donation!.paymentReference as string
+    await approveOfflineDonation(reference, 'director@insanprihatin.org', { sendReceipt: false })
+    const second = await approveOfflineDonation(reference, 'treasurer@insanprihatin.org', { sendReceipt: false })
+
+    expect(second.success).toBe(false)
+    expect(store.projectUpdates).toBe(1)
+  })
+
+  it('ignores donations made online', async () => {
+    store.donation = { ...store.donation, paymentGateway: 'toyyibpay', paymentStatus: 'pending' }
+    const result = await approveOfflineDonation(store.donation.paymentReference as string, 'director@insanprihatin.org')
+    expect(result).toMatchObject({ success: false, error: 'Offline donation not found' })
+  })
+})
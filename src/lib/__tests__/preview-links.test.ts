@@ -0,0 +1,84 @@
+/**
+ * Preview Links Tests
+ * Tests for signing and checking preview tokens and link status
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { SignJWT } from 'jose'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+import { getPreviewLinkStatus, resolvePreviewContentType, signPreviewToken, verifyPreviewToken } from '../preview-links'
+
+const link = {
+  id: '3f1c2a9e-4b5d-4e6f-8a7b-9c0d1e2f3a4b',
+  contentType: 'blog_posts',
+  contentId: '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d',
+  createdAt: new Date(),
+  expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+}
+
+describe('preview tokens', () => {
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-preview-secret'
+  })
+
+  afterEach(() => {
+    delete process.env.JWT_SECRET
+  })
+
+  it('round-trips the link it was signed for', async () => {
+    const token = await signPreviewToken(link)
+    expect(await verifyPreviewToken(token)).toEqual({
+      linkId: link.id,
+      contentType: 'blog_posts',
+      contentId: link.contentId,
+    })
+  })
+
+  it('rejects tampered tokens and tokens signed with another secret', async () => {
+    const token = await signPreviewToken(link)
+    const [header, , signature] = token.split('.')
+    const payload = Buffer.from(JSON.stringify({ typ: 'projects', sub: link.contentId, jti: link.id })).toString('base64url')
+    expect(await verifyPreviewToken(`${header}.${payload}.${signature}`)).toBeNull()
+
+    process.env.JWT_SECRET = 'another-secret'
+    expect(await verifyPreviewToken(token)).toBeNull()
+  })
+
+  it('rejects expired tokens', async () => {
+    const token = await signPreviewToken({ ...link, expiresAt: new Date(Date.now() - 1000) })
+    expect(await verifyPreviewToken(token)).toBeNull()
+  })
+
+  it('rejects JWTs meant for something else', async () => {
+    const other = await new SignJWT({ typ: 'blog_posts' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setJti(link.id)
+      .setSubject(link.contentId)
+      .setExpirationTime('1h')
+      .sign(new TextEncoder().encode('test-preview-secret'))
+    expect(await verifyPreviewToken(other)).toBeNull()
+    expect(await verifyPreviewToken('not-a-token')).toBeNull()
+  })
+})
+
+describe('getPreviewLinkStatus', () => {
+  const now = new Date('2026-05-01T00:00:00Z')
+
+  it('is active until it expires or is revoked', () => {
+    expect(getPreviewLinkStatus({ expiresAt: new Date('2026-05-02T00:00:00Z'), revokedAt: null }, now)).toBe('active')
+    expect(getPreviewLinkStatus({ expiresAt: new Date('2026-04-30T00:00:00Z'), revokedAt: null }, now)).toBe('expired')
+    expect(getPreviewLinkStatus({ expiresAt: new Date('2026-05-02T00:00:00Z'), revokedAt: now }, now)).toBe('revoked')
+  })
+})
+
+describe('resolvePreviewContentType', () => {
+  it('accepts blog posts and projects only', () => {
+    expect(resolvePreviewContentType('projects')).toBe('projects')
+    expect(resolvePreviewContentType('pages')).toBeNull()
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Receipt Numbering Tests
+ * Tests for receipt number formatting and the gap/duplicate detector
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  findReceiptNumberIssues,
+  formatReceiptNumber,
+  getReceiptYear,
+  getStartingSequence,
+  parseReceiptNumber,
+} from '../receipt-numbering'
+
+describe('Receipt numbers', () => {
+  it('formats and parses sequential numbers', () => {
+    expect(formatReceiptNumber(2026, 42)).toBe('YIP-2026-000042')
+    expect(parseReceiptNumber('YIP-2026-000042')).toEqual({ year: 2026, sequence: 42 })
+    expect(parseReceiptNumber(formatReceiptNumber(2026, 1234567))).toEqual({ year: 2026, sequence: 1234567 })
+    expect(parseReceiptNumber('YIP-2026-A1B2C3')).toBeNull()
+  })
+
+  it('numbers receipts by the Malaysian calendar year', () => {
+    expect(getReceiptYear(new Date('2025-12-31T15:59:59.000Z'))).toBe(2025)
+    expect(getReceiptYear(new Date('2025-12-31T16:00:00.000Z'))).toBe(2026)
+  })
+
+  it('starts a year after the numbers issued in order', () => {
+    expect(getStartingSequence([])).toBe(1)
+    expect(getStartingSequence([3, 1, 2])).toBe(4)
+    // YIP-2025-804213 was a random legacy number that happens to be all digits
+    expect(getStartingSequence([1, 2, 3, 804213])).toBe(4)
+    expect(getStartingSequence([804213])).toBe(1)
+  })
+})
+
+describe('findReceiptNumberIssues', () => {
+  it('reports a complete sequence as clean', () => {
+    const issues = findReceiptNumberIssues([
+      { receiptNumber: 'YIP-2026-000001', donationId: 'a' },
+      { receiptNumber: 'YIP-2026-000002', donationId: 'b' },
+      // Same receipt from the register
+      { receiptNumber: 'YIP-2026-000002', donationId: 'b' },
+    ], [{ year: 2026, lastSequence: 2 }])
+
+    expect(issues).toEqual({ checked: 2, duplicates: [], gaps: [], malformed: [] })
+  })
+
+  it('finds duplicates, gaps and legacy numbers', () => {
+    const issues = findReceiptNumberIssues([
+      { receiptNumber: 'YIP-2026-000001', donationId: 'a' },
+      { receiptNumber: 'YIP-2026-000001', donationId: 'b' },
+      { receiptNumber: 'YIP-2026-000004', donationId: 'c' },
+      { receiptNumber: 'YIP-2025-000002', donationId: 'd' },
+      { receiptNumber: 'YIP-2025-X9Y8Z7', donationId: 'e' },
+    ], [{ year: 2026, lastSequence: 6 }])
+
+    expect(issues.duplicates).toEqual([{ receiptNumber: 'YIP-2026-000001', donationIds: ['a', 'b'] }])
+    expect(issues.gaps).toEqual([
+      { year: 2025, from: 1, to: 1 },
+      { year: 2026, from: 2, to: 3 },
+      { year: 2026, from: 5, to: 6 },
+    ])
+    expect(issues.malformed).toEqual(['YIP-2025-X9Y8Z7'])
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Receipt Register Tests
+ * Tests for rendering register entries as issued or void receipts
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+import { getReceiptDataFromRecord, type ReceiptRecord } from '../receipt-register'
+
+function record(overrides: Partial<ReceiptRecord> = {}): ReceiptRecord {
+  return {
+    id: 'receipt-1',
+    receiptNumber: 'YIP-2026-000010',
+    donationId: 'donation-1',
+    status: 'issued',
+    snapshot: {
+      donorName: 'Siti Aminh',
+      donorEmail: 'siti@example.com',
+      amount: 50,
+      currency: 'MYR',
+      paymentReference: 'YIP-1770000000000-AB12CD',
+      paymentMethod: 'FPX',
+      completedAt: '2026-02-03T02:00:00.000Z',
+      createdAt: '2026-02-03T01:58:00.000Z',
+    },
+    issuedBy: 'system',
+    issuedAt: new Date('2026-02-03T02:00:00.000Z'),
+    replacesReceiptNumber: null,
+    replacedByReceiptNumber: null,
+    voidReason: null,
+    voidedBy: null,
+    voidedAt: null,
+    ...overrides,
+  }
+}
+
+describe('getReceiptDataFromRecord', () => {
+  it('should reproduce the receipt as issued', () => {
+    const data = getReceiptDataFromRecord(record())
+
+    expect(data.receiptNumber).toBe('YIP-2026-000010')
+    expect(data.donorName).toBe('Siti Aminh')
+    expect(data.completedAt).toEqual(new Date('2026-02-03T02:00:00.000Z'))
+    expect(data.voided).toBeUndefined()
+  })
+
+  it('should mark replaced receipts void with a pointer to the replacement', () => {
+    const voidedAt = new Date('2026-02-10T03:00:00.000Z')
+    const data = getReceiptDataFromRecord(record({
+      status: 'reissued',
+      voidReason: 'Donor name misspelled',
+      voidedAt,
+      replacedByReceiptNumber: 'YIP-2026-000042',
+    }))
+
+    expect(data.voided).toEqual({
+      status: 'reissued',
+      reason: 'Donor name misspelled',
+      voidedAt,
+      replacedBy: 'YIP-2026-000042',
+    })
+  })
+
+  it('should mark voided receipts without a replacement', () => {
+    const data = getReceiptDataFromRecord(record({ status: 'voided', voidReason: 'Refund: duplicate payment' }))
+
+    expect(data.voided?.status).toBe('voided')
+    expect(data.voided?.replacedBy).toBeNull()
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * Refund Tests
+ * Tests that a refunded donation is not completed again when its bill,
+ * which ToyyibPay still reports as paid, is checked
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+const refunded = vi.hoisted(() => ({
+  id: 'donation-1',
+  paymentReference: 'YIP-REFUNDED',
+  paymentStatus: 'refunded',
+  paymentGateway: 'toyyibpay',
+  gatewayBillCode: 'bill-1',
+  receiptNumber: 'YIP-2026-000001',
+  amount: 5000,
+  refundedAmount: 5000,
+  projectId: 'project-1',
+  donorEmail: 'siti@example.com',
+  createdAt: new Date('2026-03-01T00:00:00Z'),
+}))
+
+const writes = vi.hoisted(() => ({ insert: vi.fn(), update: vi.fn() }))
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {
+    query: {
+      donations: { findFirst: async () => ({ ...refunded }) },
+      projects: { findFirst: async () => undefined },
+    },
+    insert: writes.insert,
+    update: writes.update,
+  },
+}))
+
+vi.mock('@/lib/payments', () => ({
+  getPaymentGateway: () => ({
+    id: 'toyyibpay',
+    displayName: 'ToyyibPay',
+    isConfigured: () => true,
+    getTransactions: async () => [{ status: 'completed', providerStatus: '1', transactionId: 'TX-1' }],
+  }),
+}))
+vi.mock('@/lib/receipt', () => ({ assignReceiptNumber: vi.fn(), getReceiptData: vi.fn() }))
+vi.mock('@/lib/receipt-register', () => ({ recordIssuedReceipt: vi.fn() }))
+vi.mock('@/lib/email', () => ({ sendDonationReceiptEmail: vi.fn() }))
+vi.mock('@/lib/auth/server', () => ({ requireAuth: async () => ({ email: 'admin@insanprihatin.org' }) }))
+vi.mock('@/lib/subscriptions', () => ({ onSubscriptionPaymentCompleted: vi.fn() }))
+vi.mock('@/lib/fundraisers', () => ({ onFundraiserDonationCompleted: vi.fn() }))
+vi.mock('@/lib/tributes', () => ({ onTributeDonationCompleted: vi.fn() }))
+
+import { assignReceiptNumber } from '@/lib/receipt'
+import { sendDonationReceiptEmail } from '@/lib/email'
+import * as verify from '@/app/api/donations/verify/route'
+import * as refreshStatus from '@/app/api/admin/donations/refresh-status/route'
+
+function expectUntouched() {
+  expect(assignReceiptNumber).not.toHaveBeenCalled()
+  expect(sendDonationReceiptEmail).not.toHaveBeenCalled()
+  expect(writes.insert).not.toHaveBeenCalled()
+  expect(writes.update).not.toHaveBeenCalled()
+}
+
+describe('a refunded donation whose bill still shows as paid', () => {
+  it('is left untouched by payment verification', async () => {
+    const response = await verify.GET(
+      new NextRequest(`http://localhost:3000/api/donations/verify?reference=${refunded.paymentReference}`)
+    )
+    const body = await response.json()
+
+    expect(body).toMatchObject({ status: 'refunded', donation: { receiptNumber: 'YIP-2026-000001' } })
+    expect(body.autoRecovered).toBeUndefined()
+    expectUntouched()
+  })
+
+  it('is left untouched by an admin status refresh', async () => {
+    const response = await refreshStatus.POST(new NextRequest('http://localhost:3000/api/admin/donations/refresh-status', {
+      method: 'POST',
+      body: JSON.stringify({ reference: refunded.paymentReference }),
+    }))
+
+    expect(await response.json()).toMatchObject({ status: 'refunded', noChange: true })
+    expectUntouched()
+  })
+})
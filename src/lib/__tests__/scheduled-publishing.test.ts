@@ -0,0 +1,66 @@
+/**
+ * Scheduled Publishing Tests
+ * Tests for schedule validation and what the job does when a time passes
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+import { planScheduledChange, validateSchedule } from '../scheduled-publishing'
+
+const now = new Date('2026-05-01T04:00:00Z')
+const minutes = (offset: number) => new Date(now.getTime() + offset * 60 * 1000)
+
+describe('validateSchedule', () => {
+  it('accepts future times in order', () => {
+    expect(validateSchedule({ isPublished: false }, { publishAt: minutes(60), unpublishAt: minutes(120) }, now)).toBeNull()
+    expect(validateSchedule({ isPublished: true }, { publishAt: null, unpublishAt: minutes(5) }, now)).toBeNull()
+    expect(validateSchedule({ isPublished: true }, { publishAt: null, unpublishAt: null }, now)).toBeNull()
+  })
+
+  it('rejects times in the past', () => {
+    expect(validateSchedule({ isPublished: false }, { publishAt: minutes(-1), unpublishAt: null }, now)).toMatch(/future/)
+    expect(validateSchedule({ isPublished: true }, { publishAt: null, unpublishAt: now }, now)).toMatch(/future/)
+  })
+
+  it('rejects schedules that would do nothing', () => {
+    expect(validateSchedule({ isPublished: true }, { publishAt: minutes(60), unpublishAt: null }, now)).toBe('Already published')
+    expect(validateSchedule({ isPublished: false }, { publishAt: null, unpublishAt: minutes(60) }, now)).not.toBeNull()
+  })
+
+  it('requires unpublishing after publishing', () => {
+    expect(validateSchedule({ isPublished: false }, { publishAt: minutes(60), unpublishAt: minutes(60) }, now))
+      .toBe('Unpublish time must be after the publish time')
+  })
+})
+
+describe('planScheduledChange', () => {
+  it('does nothing before the scheduled time', () => {
+    expect(planScheduledChange({ isPublished: false, scheduledPublishAt: minutes(1), scheduledUnpublishAt: null }, now)).toBeNull()
+    expect(planScheduledChange({ isPublished: true, scheduledPublishAt: null, scheduledUnpublishAt: null }, now)).toBeNull()
+  })
+
+  it('publishes and keeps a later unpublish time', () => {
+    expect(planScheduledChange({ isPublished: false, scheduledPublishAt: now, scheduledUnpublishAt: minutes(60) }, now))
+      .toEqual({ action: 'publish', clearPublish: true, clearUnpublish: false })
+  })
+
+  it('unpublishes when the unpublish time passes', () => {
+    expect(planScheduledChange({ isPublished: true, scheduledPublishAt: null, scheduledUnpublishAt: minutes(-5) }, now))
+      .toEqual({ action: 'unpublish', clearPublish: false, clearUnpublish: true })
+  })
+
+  it('ends unpublished when both times were missed', () => {
+    expect(planScheduledChange({ isPublished: false, scheduledPublishAt: minutes(-60), scheduledUnpublishAt: minutes(-5) }, now))
+      .toEqual({ action: null, clearPublish: true, clearUnpublish: true })
+  })
+
+  it('only clears a schedule already matched by hand', () => {
+    expect(planScheduledChange({ isPublished: true, scheduledPublishAt: minutes(-5), scheduledUnpublishAt: null }, now))
+      .toEqual({ action: null, clearPublish: true, clearUnpublish: false })
+  })
+})
@@ -0,0 +1,228 @@
+/**
+ * Subscription Tests
+ * Tests for billing dates, which subscriptions a run bills and cycles that
+ * are never paid
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+const store = vi.hoisted(() => ({
+  now: new Date(),
+  subscriptions: [] as Record<string, unknown>[],
+  donations: [] as Record<string, unknown>[],
+}))
+
+vi.mock('@/db', async () => {
+  const schema = await vi.importActual<typeof import('@/db/schema')>('@/db/schema')
+  const { Param, SQL } = await vi.importActual<typeof import('drizzle-orm')>('drizzle-orm')
+
+  // The values a where clause compares against, e.g. the id in eq(donations.id, id)
+  const whereValues = (where: unknown): unknown[] => {
+    if (where instanceof Param) return [where.value]
+    if (where instanceof SQL) return where.queryChunks.flatMap(whereValues)
+    return []
+  }
+  const rowsFor = (table: unknown) => table === schema.donations ? store.donations : store.subscriptions
+
+  return {
+    ...schema,
+    db: {
+      query: {
+        // The run's due and open-cycle queries
+        donationSubscriptions: {
+          findMany: async () => store.subscriptions
+            .filter(row => row.status === 'active' && (row.nextBillingAt as Date) <= store.now)
+            .map(row => ({ ...row })),
+        },
+        donations: {
+          findMany: async () => store.donations
+            .filter(row => row.subscriptionId && row.paymentStatus === 'pending')
+            .map(row => ({ ...row })),
+        },
+      },
+      insert: (table: unknown) => ({
+        values: (values: Record<string, unknown>) => {
+          const row = { id: `donation-${store.donations.length + 1}`, createdAt: store.now, ...values }
+          if (table === schema.donations) store.donations.push(row)
+          return Object.assign(Promise.resolve(), { returning: async () => [row] })
+        },
+      }),
+      update: (table: unknown) => ({
+        set: (values: Record<string, unknown>) => ({
+          where: (where: unknown) => {
+            const conditions = whereValues(where)
+            const rows = rowsFor(table).filter(row => conditions.every(value => Object.values(row).includes(value)))
+            for (const row of rows) Object.assign(row, values)
+            const result = Promise.resolve(rows.map(row => ({ ...row })))
+            return Object.assign(result, { returning: () => result })
+          },
+        }),
+      }),
+    },
+  }
+})
+
+vi.mock('@/lib/payments', () => ({
+  getActivePaymentGateway: () => ({ id: 'toyyibpay', isConfigured: () => false }),
+}))
+vi.mock('@/lib/email', () => ({ sendRecurringDonationEmail: vi.fn() }))
+vi.mock('@/lib/campaigns', () => ({ resolveDonationCampaign: async () => null }))
+vi.mock('@/lib/funds', () => ({ resolveDonationFund: async () => null }))
+vi.mock('@/lib/donors', () => ({ findOrCreateDonor: async () => null }))
+
+import { STALE_CYCLE_DAYS, addMonths, isCycleStale, planBillingRun, runDueSubscriptions } from '../subscriptions'
+
+const daysAgo = (days: number, from: Date) => new Date(from.getTime() - days * 24 * 60 * 60 * 1000)
+
+describe('addMonths', () => {
+  it('keeps the day of the month', () => {
+    expect(addMonths(new Date(2026, 0, 15), 1)).toEqual(new Date(2026, 1, 15))
+    expect(addMonths(new Date(2026, 10, 30), 2)).toEqual(new Date(2027, 0, 30))
+  })
+
+  it('clamps the 31st to the end of shorter months', () => {
+    expect(addMonths(new Date(2026, 0, 31), 1)).toEqual(new Date(2026, 1, 28))
+    expect(addMonths(new Date(2026, 2, 31), 1)).toEqual(new Date(2026, 3, 30))
+    expect(addMonths(new Date(2026, 11, 31), 2)).toEqual(new Date(2027, 1, 28))
+  })
+
+  it('handles leap years', () => {
+    expect(addMonths(new Date(2028, 0, 31), 1)).toEqual(new Date(2028, 1, 29))
+    expect(addMonths(new Date(2028, 1, 29), 12)).toEqual(new Date(2029, 1, 28))
+    expect(addMonths(new Date(2027, 1, 28), 12)).toEqual(new Date(2028, 1, 28))
+  })
+
+  it('keeps the time of day', () => {
+    expect(addMonths(new Date(2026, 4, 31, 9, 30), 1)).toEqual(new Date(2026, 5, 30, 9, 30))
+  })
+})
+
+describe('planBillingRun', () => {
+  const now = new Date('2026-03-10T00:00:00Z')
+  const subscriptions = [{ id: 'sub-a' }, { id: 'sub-b' }, { id: 'sub-c' }]
+
+  it('bills subscriptions without an open cycle', () => {
+    expect(planBillingRun(subscriptions, [], now)).toEqual({ due: subscriptions, stale: [] })
+  })
+
+  it('holds back a subscription whose last cycle is still open', () => {
+    const open = { id: 'donation-1', subscriptionId: 'sub-b', createdAt: daysAgo(2, now) }
+    expect(planBillingRun(subscriptions, [open], now)).toEqual({
+      due: [{ id: 'sub-a' }, { id: 'sub-c' }],
+      stale: [],
+    })
+  })
+
+  it('expires cycles left open too long and bills again', () => {
+    const stale = { id: 'donation-1', subscriptionId: 'sub-b', createdAt: daysAgo(STALE_CYCLE_DAYS, now) }
+    const otherStale = { id: 'donation-2', subscriptionId: 'sub-pending', createdAt: daysAgo(30, now) }
+    expect(planBillingRun(subscriptions, [stale, otherStale], now)).toEqual({
+      due: subscriptions,
+      stale: [stale, otherStale],
+    })
+  })
+
+  it('marks a cycle stale after STALE_CYCLE_DAYS', () => {
+    expect(isCycleStale({ createdAt: daysAgo(STALE_CYCLE_DAYS - 1, now) }, now)).toBe(false)
+    expect(isCycleStale({ createdAt: daysAgo(STALE_CYCLE_DAYS, now) }, now)).toBe(true)
+  })
+})
+
+describe('runDueSubscriptions', () => {
+  function activeSubscription(nextBillingAt: Date) {
+    return {
+      id: 'sub-1',
+      status: 'active',
+      amount: 5000,
+      currency: 'MYR',
+      donorName: 'Siti Aminah',
+      donorEmail: 'siti@example.com',
+      donorPhone: null,
+      isAnonymous: false,
+      projectId: null,
+      fundId: null,
+      program: null,
+      locale: 'en',
+      environment: 'sandbox',
+      cycleCount: 1,
+      nextBillingAt,
+    }
+  }
+
+  async function runAt(now: Date) {
+    store.now = now
+    return runDueSubscriptions(now)
+  }
+
+  it('bills a cycle again when the last one is never paid', async () => {
+    const march = new Date(2026, 2, 1, 9)
+    store.donations = []
+    store.subscriptions = [activeSubscription(march)]
+
+    await runAt(march)
+    expect(store.donations).toHaveLength(1)
+    expect(store.donations[0]).toMatchObject({ subscriptionCycle: 2, paymentStatus: 'pending' })
+    expect(store.subscriptions[0]).toMatchObject({ cycleCount: 2, nextBillingAt: new Date(2026, 3, 1, 9) })
+
+    // Never paid: the next run marks it failed and bills the next cycle
+    await runAt(new Date(2026, 3, 1, 9))
+    expect(store.donations[0]).toMatchObject({
+      paymentStatus: 'failed',
+      failureReason: expect.stringContaining('not completed'),
+    })
+    expect(store.donations[1]).toMatchObject({ subscriptionCycle: 3, paymentStatus: 'pending' })
+    expect(store.subscriptions[0]).toMatchObject({ cycleCount: 3, nextBillingAt: new Date(2026, 4, 1, 9) })
+  })
+
+  it('does not bill again while the last cycle is still open', async () => {
+    const now = new Date(2026, 3, 1, 9)
+    store.donations = [{ id: 'donation-open', subscriptionId: 'sub-1', paymentStatus: 'pending', createdAt: daysAgo(2, now) }]
+    store.subscriptions = [activeSubscription(now)]
+
+    const result = await runAt(now)
+    expect(result.processed).toBe(0)
+    expect(store.donations).toHaveLength(1)
+    expect(store.donations[0].paymentStatus).toBe('pending')
+  })
+
+  it('bills a cycle once when two runs overlap', async () => {
+    const now = new Date(2026, 3, 1, 9)
+    store.donations = []
+    store.subscriptions = [activeSubscription(now)]
+    store.now = now
+
+    const results = await Promise.all([runDueSubscriptions(now), runDueSubscriptions(now)])
+
+    expect(store.donations).toHaveLength(1)
+    expect(store.subscriptions[0]).toMatchObject({ cycleCount: 2, nextBillingAt: new Date(2026, 4, 1, 9) })
+    expect(results.map(result => result.processed).sort()).toEqual([0, 1])
+  })
+
+  it('does not bill a subscription paused after the run read it', async () => {
+    const now = new Date(2026, 3, 1, 9)
+    store.donations = []
+    store.subscriptions = [activeSubscription(now)]
+    store.now = now
+
+    const run = runDueSubscriptions(now)
+    store.subscriptions[0].status = 'paused'
+
+    expect(await run).toMatchObject({ processed: 0, failed: 0 })
+    expect(store.donations).toHaveLength(0)
+  })
+
+  it('leaves a cycle alone once it is paid', async () => {
+    const now = new Date(2026, 3, 1, 9)
+    store.donations = [{
+      id: 'donation-paid',
+      subscriptionId: 'sub-1',
+      paymentStatus: 'completed',
+      createdAt: daysAgo(31, now),
+    }]
+    store.subscriptions = [activeSubscription(now)]
+
+    const result = await runAt(now)
+    expect(result).toMatchObject({ processed: 1, failed: 0 })
+    expect(store.donations[0].paymentStatus).toBe('completed')
+  })
+})
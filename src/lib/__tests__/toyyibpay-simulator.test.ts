@@ -0,0 +1,357 @@
+/**
+ * ToyyibPay Simulator Integration Tests
+ * Drives create -> pay -> callback -> verify -> receipt through the real
+ * ToyyibPayService, the ToyyibPay gateway adapter, the simulator routes and
+ * the donation webhook, with every HTTP call served in-process.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import type { SQL } from 'drizzle-orm'
+
+const SIMULATOR_URL = vi.hoisted(() => {
+  const url = 'http://localhost:3000/api/toyyibpay-simulator'
+  process.env.TOYYIBPAY_URL = url
+  process.env.TOYYIBPAY_SECRET_KEY = 'simulator-secret-key'
+  process.env.TOYYIBPAY_WEBHOOK_SECRET = 'simulator-webhook-secret'
+  process.env.TOYYIBPAY_SIMULATOR = 'true'
+  return url
+})
+
+// Site settings only hold the General Fund category code here
+const storedSettings = vi.hoisted(() => new Map<string, unknown>())
+const storedDonations = vi.hoisted(() => [] as Record<string, unknown>[])
+
+vi.mock('@/db', async () => {
+  const schema = await vi.importActual<typeof import('@/db/schema')>('@/db/schema')
+  const { Param, SQL } = await vi.importActual<typeof import('drizzle-orm')>('drizzle-orm')
+
+  // The values a where clause compares against, e.g. the id in eq(donations.id, id)
+  const whereValues = (where: unknown): unknown[] => {
+    if (where instanceof Param) return [where.value]
+    if (where instanceof SQL) return where.queryChunks.flatMap(whereValues)
+    return []
+  }
+  const findDonation = (where: unknown) => {
+    const values = whereValues(where)
+    return storedDonations.find(row => values.every(value => Object.values(row).includes(value)))
+  }
+
+  return {
+    ...schema,
+    db: {
+      query: {
+        siteSettings: {
+          findFirst: async ({ where }: { where: unknown }) => {
+            const [key] = whereValues(where) as string[]
+            return storedSettings.has(key) ? { key, value: storedSettings.get(key) } : undefined
+          },
+        },
+        donations: {
+          findFirst: async ({ where }: { where: unknown }) => {
+            const row = findDonation(where)
+            return row && { ...row }
+          },
+        },
+      },
+      insert: (table: unknown) => ({
+        values: (row: { key: string; value: unknown }) => Object.assign(Promise.resolve(), {
+          onConflictDoUpdate: async () => {
+            if (table === schema.siteSettings) storedSettings.set(row.key, row.value)
+          },
+          onConflictDoNothing: async () => {},
+        }),
+      }),
+      update: (table: unknown) => ({
+        set: (values: Record<string, unknown>) => ({
+          where: (where: unknown) => {
+            const row = table === schema.donations ? findDonation(where) : undefined
+            if (row) Object.assign(row, values)
+            const result = Promise.resolve(row ? [{ ...row }] : [])
+            return Object.assign(result, { returning: () => result })
+          },
+        }),
+      }),
+    },
+  }
+})
+
+// Receipt numbers come from a counter row locked in a Postgres transaction;
+// hand them out in order and apply the completion through the fake db
+vi.mock('@/lib/receipt', async importOriginal => {
+  const { db, donations } = await import('@/db')
+  let lastSequence = 0
+  return {
+    ...await importOriginal<typeof import('@/lib/receipt')>(),
+    assignReceiptNumber: async (where: SQL | undefined, values = {}) => {
+      const receiptNumber = `YIP-2026-${String(++lastSequence).padStart(6, '0')}`
+      const updated = await db
+        .update(donations)
+        .set({ ...values, receiptNumber })
+        .where(where)
+        .returning({ receiptNumber: donations.receiptNumber })
+      return updated.length > 0 ? receiptNumber : null
+    },
+  }
+})
+
+vi.mock('next/headers', () => ({ headers: async () => new Headers() }))
+vi.mock('@/lib/email', () => ({
+  sendDonationReceiptEmail: vi.fn(async () => ({ success: true, messageId: 'simulated' })),
+}))
+vi.mock('@/lib/actions/notifications', () => ({ notifyDonationReceived: vi.fn() }))
+vi.mock('@/lib/subscriptions', () => ({ onSubscriptionPaymentCompleted: vi.fn() }))
+vi.mock('@/lib/fundraisers', () => ({ onFundraiserDonationCompleted: vi.fn() }))
+vi.mock('@/lib/tributes', () => ({ onTributeDonationCompleted: vi.fn() }))
+
+import { ToyyibPayService } from '../toyyibpay'
+import { toyyibPayGateway } from '../payments/toyyibpay'
+import { handleSimulatorApi, resetSimulator } from '../toyyibpay-simulator'
+import { sendDonationReceiptEmail } from '@/lib/email'
+import * as webhook from '@/app/api/donations/webhook/route'
+import * as simulatorApi from '@/app/api/toyyibpay-simulator/index.php/api/[action]/route'
+import * as simulatorPage from '@/app/api/toyyibpay-simulator/[billCode]/route'
+
+interface DeliveredCallback {
+  url: URL
+  body: Record<string, string>
+  status: number
+}
+
+let callbacks: DeliveredCallback[] = []
+
+// Serve ToyyibPay API calls from the simulator routes and deliver callbacks
+// to the donation webhook
+async function inProcessFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(input.toString())
+  const request = new NextRequest(url, init as ConstructorParameters<typeof NextRequest>[1])
+
+  const apiMatch = url.pathname.match(/^\/api\/toyyibpay-simulator\/index\.php\/api\/(\w+)$/)
+  if (apiMatch) {
+    return simulatorApi.POST(request, { params: Promise.resolve({ action: apiMatch[1] }) })
+  }
+
+  if (url.pathname === '/api/donations/webhook') {
+    const body = Object.fromEntries(new URLSearchParams(await request.clone().text()))
+    const response = await webhook.POST(request)
+    callbacks.push({ url, body, status: response.status })
+    return response
+  }
+
+  throw new Error(`Unexpected fetch: ${url}`)
+}
+
+async function createDonationBill(reference: string) {
+  const bill = await toyyibPayGateway.createBill({
+    reference,
+    amount: 5000,
+    name: 'Donation to YIP',
+    description: 'Donation to Yayasan Insan Prihatin - General Fund',
+    payerName: 'Siti Aminah',
+    payerEmail: 'siti@example.com',
+    payerPhone: '0123456789',
+    returnUrl: `http://localhost:3000/donate/success?ref=${reference}`,
+    callbackUrl: toyyibPayGateway.getCallbackUrl('http://localhost:3000'),
+  })
+
+  storedDonations.push({
+    id: `donation-${reference}`,
+    paymentReference: reference,
+    paymentGateway: 'toyyibpay',
+    gatewayBillCode: bill.billCode,
+    paymentStatus: 'pending',
+    paymentMethod: 'fpx',
+    amount: 5000,
+    currency: 'MYR',
+    donorName: 'Siti Aminah',
+    donorEmail: 'siti@example.com',
+    isAnonymous: false,
+    projectId: null,
+    createdAt: new Date(),
+  })
+
+  return bill
+}
+
+async function payOnHostedPage(billCode: string, outcome: string) {
+  return simulatorPage.POST(
+    new NextRequest(`${SIMULATOR_URL}/${billCode}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ outcome }).toString(),
+    }),
+    { params: Promise.resolve({ billCode }) }
+  )
+}
+
+describe('ToyyibPay simulator', () => {
+  beforeEach(() => {
+    resetSimulator()
+    storedSettings.clear()
+    storedDonations.length = 0
+    callbacks = []
+    vi.clearAllMocks()
+    vi.stubGlobal('fetch', vi.fn(inProcessFetch))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should be detected as a sandbox environment', () => {
+    expect(ToyyibPayService.getEnvironment()).toBe('sandbox')
+    expect(ToyyibPayService.getPaymentUrl('abc123')).toBe(`${SIMULATOR_URL}/abc123`)
+  })
+
+  describe('API', () => {
+    it('should create categories and reuse the General Fund category', async () => {
+      const first = await ToyyibPayService.getOrCreateGeneralFundCategory()
+      const second = await ToyyibPayService.getOrCreateGeneralFundCategory()
+
+      expect(first).toMatch(/^simcat/)
+      expect(second).toBe(first)
+    })
+
+    it('should reject calls without a secret key like ToyyibPay does', () => {
+      const result = handleSimulatorApi('createBill', new URLSearchParams({ billName: 'x' }))
+      expect(result).toEqual({ body: '[KEY-DID-NOT-EXIST]', isText: true })
+    })
+
+    it('should accept createBillMulti as an alias of createBill', () => {
+      const result = handleSimulatorApi('createBillMulti', new URLSearchParams({
+        userSecretKey: 'key',
+        categoryCode: 'cat',
+        billName: 'Donation',
+        billAmount: '1000',
+        billReturnUrl: 'http://localhost:3000/donate/success',
+      }))
+      expect(result.body).toEqual([{ BillCode: expect.stringMatching(/^sim/) }])
+    })
+
+    it('should surface validation errors through ToyyibPayService', async () => {
+      const categoryCode = await ToyyibPayService.createCategory({ catname: 'Test', catdescription: 'Test' })
+
+      await expect(ToyyibPayService.createBill({
+        categoryCode,
+        billName: 'Donation',
+        billDescription: 'Donation',
+        billPriceSetting: '1',
+        billPayorInfo: '1',
+        billAmount: 50,
+        billReturnUrl: 'http://localhost:3000/donate/success',
+        billCallbackUrl: 'http://localhost:3000/api/donations/webhook',
+        billExternalReferenceNo: 'YIP-TEST',
+        billTo: 'Donor',
+        billEmail: 'donor@example.com',
+        billPhone: '0123456789',
+      })).rejects.toMatchObject({ code: 'INVALID_PARAMS' })
+    })
+
+    it('should fail lookups for unknown bills', async () => {
+      await expect(ToyyibPayService.getBillTransactions('missing')).rejects.toMatchObject({
+        code: 'TRANSACTION_FETCH_ERROR',
+      })
+    })
+  })
+
+  describe('donation flow', () => {
+    it('should take a donation from bill to receipt', async () => {
+      // Create
+      const bill = await createDonationBill('YIP-SIM-0001')
+      expect(bill.paymentUrl).toBe(`${SIMULATOR_URL}/${bill.billCode}`)
+      expect(await toyyibPayGateway.getTransactions(bill.billCode)).toEqual([])
+
+      // Hosted payment page
+      const page = await simulatorPage.GET(
+        new NextRequest(bill.paymentUrl),
+        { params: Promise.resolve({ billCode: bill.billCode }) }
+      )
+      const html = await page.text()
+      expect(page.headers.get('content-type')).toContain('text/html')
+      expect(html).toContain('YIP-SIM-0001')
+      expect(html).toContain('RM 50.00')
+
+      // Pay
+      const response = await payOnHostedPage(bill.billCode, 'success')
+      expect(response.status).toBe(303)
+      const redirect = new URL(response.headers.get('location')!)
+      expect(redirect.pathname).toBe('/donate/success')
+      expect(redirect.searchParams.get('ref')).toBe('YIP-SIM-0001')
+      expect(redirect.searchParams.get('status_id')).toBe('1')
+
+      // Callback, verified against the API before the donation is completed
+      expect(callbacks).toHaveLength(1)
+      expect(callbacks[0].status).toBe(200)
+
+      const [transaction] = await toyyibPayGateway.getTransactions(bill.billCode)
+      expect(transaction).toMatchObject({ status: 'completed', amount: 5000, channel: 'FPX' })
+
+      const [donation] = storedDonations
+      expect(donation).toMatchObject({
+        paymentStatus: 'completed',
+        gatewayTransactionId: transaction.transactionId,
+        receiptNumber: expect.stringMatching(/^YIP-\d{4}-\d{6}$/),
+      })
+      expect(donation.completedAt).toBeInstanceOf(Date)
+
+      // Receipt, built from the completed row
+      expect(sendDonationReceiptEmail).toHaveBeenCalledTimes(1)
+      const [receipt] = vi.mocked(sendDonationReceiptEmail).mock.calls[0]
+      expect(receipt).toMatchObject({
+        receiptNumber: donation.receiptNumber,
+        donorEmail: 'siti@example.com',
+        amount: 50,
+        paymentReference: 'YIP-SIM-0001',
+        completedAt: donation.completedAt,
+      })
+      expect(receipt.pdfBuffer?.subarray(0, 4).toString()).toBe('%PDF')
+    }, 20000)
+
+    it('should report failed payments through the callback and transactions', async () => {
+      const bill = await createDonationBill('YIP-SIM-0002')
+      const response = await payOnHostedPage(bill.billCode, 'failed')
+
+      expect(new URL(response.headers.get('location')!).searchParams.get('status_id')).toBe('3')
+      expect(toyyibPayGateway.parseWebhook(callbacks[0].body).status).toBe('failed')
+
+      const [transaction] = await toyyibPayGateway.getTransactions(bill.billCode)
+      expect(transaction.status).toBe('failed')
+      expect(storedDonations[0].paymentStatus).toBe('failed')
+      expect(storedDonations[0].receiptNumber).toBeUndefined()
+    })
+
+    it('should keep pending payments pending and let a later attempt succeed', async () => {
+      const bill = await createDonationBill('YIP-SIM-0003')
+      await payOnHostedPage(bill.billCode, 'pending')
+      expect(toyyibPayGateway.parseWebhook(callbacks[0].body).status).toBe('pending')
+
+      expect(storedDonations[0].paymentStatus).toBe('pending')
+
+      await payOnHostedPage(bill.billCode, 'success')
+      const transactions = await toyyibPayGateway.getTransactions(bill.billCode)
+      expect(transactions.map(tx => tx.status)).toEqual(['completed', 'pending'])
+      expect(storedDonations[0].paymentStatus).toBe('completed')
+    })
+
+    it('should reject unknown outcomes', async () => {
+      const bill = await createDonationBill('YIP-SIM-0004')
+      const response = await payOnHostedPage(bill.billCode, 'refunded')
+
+      expect(response.status).toBe(400)
+      expect(callbacks).toHaveLength(0)
+    })
+  })
+
+  it('should not be served unless enabled', async () => {
+    vi.stubEnv('TOYYIBPAY_SIMULATOR', 'false')
+    try {
+      const response = await simulatorApi.POST(
+        new NextRequest(`${SIMULATOR_URL}/index.php/api/createCategory`, { method: 'POST', body: '' }),
+        { params: Promise.resolve({ action: 'createCategory' }) }
+      )
+      expect(response.status).toBe(404)
+    } finally {
+      vi.unstubAllEnvs()
+    }
+  })
+})
@@ -0,0 +1,68 @@
+/**
+ * Tribute Tests
+ * Tests for tribute validation and the dedication lines shown to donors
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/db', async () => ({
+  ...(await vi.importActual<typeof import('@/db/schema')>('@/db/schema')),
+  db: {},
+}))
+
+vi.mock('@/lib/email', () => ({
+  sendTributeCardEmail: vi.fn(),
+}))
+
+import { toTributeValues, validateTribute } from '../tributes'
+import { formatReceiptTributeLine, formatTributeLine } from '../tribute-format'
+
+describe('validateTribute', () => {
+  it('accepts a dedication with or without an e-card', () => {
+    expect(validateTribute({ type: 'in_memory', name: 'Allahyarham Ahmad' })).toBeNull()
+    expect(validateTribute({
+      type: 'in_honour',
+      name: 'Cikgu Rahimah',
+      recipientEmail: 'rahimah@example.com',
+      message: 'Terima kasih, cikgu.',
+    })).toBeNull()
+  })
+
+  it('rejects unknown types, missing names and bad recipient emails', () => {
+    expect(validateTribute({ type: 'in_celebration', name: 'Ahmad' })).toMatch(/in memory or in honour/)
+    expect(validateTribute({ type: 'in_memory', name: '   ' })).toMatch(/enter the name/)
+    expect(validateTribute({ type: 'in_memory', name: 'Ahmad', recipientEmail: 'not-an-email' })).toBe('Invalid e-card recipient email')
+    expect(validateTribute({ type: 'in_memory', name: 'Ahmad', message: 'x'.repeat(501) })).toMatch(/500 characters/)
+    expect(validateTribute('in_memory')).toBe('Invalid tribute details')
+  })
+})
+
+describe('toTributeValues', () => {
+  it('trims the name and normalises the recipient email', () => {
+    expect(toTributeValues({
+      type: 'in_memory',
+      name: '  Ahmad  ',
+      recipientEmail: ' Family@Example.com ',
+      message: '',
+    })).toEqual({
+      tributeType: 'in_memory',
+      tributeName: 'Ahmad',
+      tributeRecipientEmail: 'family@example.com',
+      tributeMessage: null,
+    })
+  })
+})
+
+describe('tribute lines', () => {
+  it('formats the dedication in each locale', () => {
+    expect(formatTributeLine('in_memory', 'Ahmad', 'en')).toBe('In memory of Ahmad')
+    expect(formatTributeLine('in_memory', 'Ahmad', 'ms')).toBe('Sedekah untuk arwah Ahmad')
+    expect(formatTributeLine('in_honour', 'Siti', 'ms')).toBe('Sebagai penghargaan kepada Siti')
+  })
+
+  it('prints both languages on receipts and nothing without a dedication', () => {
+    expect(formatReceiptTributeLine('in_honour', 'Siti')).toBe('In honour of Siti / Sebagai penghargaan kepada Siti')
+    expect(formatReceiptTributeLine(null, null)).toBeUndefined()
+    expect(formatReceiptTributeLine('in_memory', null)).toBeUndefined()
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * Version Diff Tests
+ * Tests for per-locale field diffs and partial restore
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffText, diffVersionFields, pickRestoreFields } from '../version-diff'
+
+// Rebuild each side of a diff
+const oldSide = (parts: ReturnType<typeof diffText>) =>
+  parts.filter(part => part.type !== 'added').map(part => part.value).join('')
+const newSide = (parts: ReturnType<typeof diffText>) =>
+  parts.filter(part => part.type !== 'removed').map(part => part.value).join('')
+
+describe('diffText', () => {
+  it('marks only the words that changed within a line', () => {
+    const parts = diffText('We built 3 wells in Kelantan.\n', 'We built 5 wells in Kelantan.\n')
+    expect(parts).toEqual([
+      { type: 'equal', value: 'We built ' },
+      { type: 'removed', value: '3' },
+      { type: 'added', value: '5' },
+      { type: 'equal', value: ' wells in Kelantan.\n' },
+    ])
+  })
+
+  it('keeps unchanged lines whole and shows added lines', () => {
+    const oldText = '# Clean water\n\nIntro paragraph.\n\nClosing line.\n'
+    const newText = '# Clean water\n\nIntro paragraph.\n\n- New bullet\n\nClosing line.\n'
+    const parts = diffText(oldText, newText)
+
+    expect(parts.filter(part => part.type === 'removed')).toEqual([])
+    expect(parts.filter(part => part.type === 'added').map(part => part.value).join('')).toBe('- New bullet\n\n')
+    expect(oldSide(parts)).toBe(oldText)
+    expect(newSide(parts)).toBe(newText)
+  })
+
+  it('handles empty text on either side', () => {
+    expect(diffText('', 'Baru')).toEqual([{ type: 'added', value: 'Baru' }])
+    expect(diffText('Lama', '')).toEqual([{ type: 'removed', value: 'Lama' }])
+    expect(diffText('', '')).toEqual([])
+  })
+})
+
+describe('diffVersionFields', () => {
+  it('compares each language of a localized field separately', () => {
+    const diffs = diffVersionFields(
+      { id: '1', title: { en: 'Clean water', ms: 'Air bersih' }, content: { en: 'Same', ms: 'Lama' } },
+      { id: '1', title: { en: 'Clean water', ms: 'Air bersih' }, content: { en: 'Same', ms: 'Baru' } }
+    )
+    expect(diffs).toHaveLength(1)
+    expect(diffs[0]).toMatchObject({ field: 'content', locale: 'ms', old: 'Lama', new: 'Baru' })
+  })
+
+  it('diffs other fields as text and skips bookkeeping', () => {
+    const diffs = diffVersionFields(
+      { goalAmount: 5000, tags: ['water'], donationRaised: 1000, updatedAt: '2026-01-01T00:00:00.000Z' },
+      { goalAmount: 8000, tags: ['water'], donationRaised: 4000, updatedAt: '2026-02-01T00:00:00.000Z' }
+    )
+    expect(diffs.map(diff => [diff.field, diff.locale, diff.old, diff.new])).toEqual([
+      ['goalAmount', null, '5000', '8000'],
+    ])
+  })
+
+  it('treats a live Date and its stored ISO string as equal', () => {
+    const date = new Date('2026-03-01T00:00:00Z')
+    expect(diffVersionFields({ startDate: date.toISOString() }, { startDate: date })).toEqual([])
+  })
+})
+
+describe('pickRestoreFields', () => {
+  const current = {
+    title: { en: 'New title', ms: 'Tajuk baru' },
+    content: { en: 'New English', ms: 'BM baru' },
+    startDate: new Date('2026-05-01T00:00:00Z'),
+    isPublished: true,
+    donationRaised: 250000,
+  }
+  const version = {
+    title: { en: 'Old title', ms: 'Tajuk lama' },
+    content: { en: 'Old English', ms: 'BM lama' },
+    startDate: '2026-04-01T00:00:00.000Z',
+    isPublished: false,
+    donationRaised: 100000,
+  }
+
+  it('restores one language without touching the other', () => {
+    const { updates, error } = pickRestoreFields(current, version, [{ field: 'content', locale: 'ms' }])
+    expect(error).toBeUndefined()
+    expect(updates).toEqual({ content: { en: 'New English', ms: 'BM lama' } })
+  })
+
+  it('restores both languages when picked one at a time', () => {
+    const { updates } = pickRestoreFields(current, version, [
+      { field: 'title', locale: 'en' },
+      { field: 'title', locale: 'ms' },
+    ])
+    expect(updates).toEqual({ title: { en: 'Old title', ms: 'Tajuk lama' } })
+  })
+
+  it('restores whole fields, turning stored dates back into Dates', () => {
+    const { updates } = pickRestoreFields(current, version, [{ field: 'startDate', locale: null }])
+    expect(updates.startDate).toEqual(new Date('2026-04-01T00:00:00Z'))
+  })
+
+  it('refuses publishing state, unknown fields and languages of plain fields', () => {
+    expect(pickRestoreFields(current, version, [{ field: 'isPublished', locale: null }]).error).toBeDefined()
+    expect(pickRestoreFields(current, version, [{ field: 'constructor', locale: null }]).error).toBeDefined()
+    expect(pickRestoreFields(current, version, [{ field: 'startDate', locale: 'en' }]).error).toBeDefined()
+  })
+
+  it('refuses the amount raised, which payments keep up to date', () => {
+    expect(pickRestoreFields(current, version, [{ field: 'donationRaised', locale: null }])).toMatchObject({
+      updates: {},
+      error: expect.any(String),
+    })
+  })
+})
@@ -0,0 +1,605 @@
+/**
+ * Accounting Exports
+ *
+ * Donation exports for the finance team, in three profiles:
+ *
+ * - donations: the flat list of donations matching the admin filters
+ * - journal: double-entry journal lines ready to import into SQL Account.
+ *   Each gift debits the account the money arrived in (the gateway's
+ *   clearing account, or the bank for offline donations) and credits
+ *   donation income for its fund; each refund or chargeback reverses that.
+ * - monthly: the same entries totalled per month, debit and credit account
+ *   and project, for booking one journal per month instead
+ *
+ * Journal and monthly exports are booking exports: they cover everything
+ * recorded as completed or refunded since the last one ("exported up to"
+ * watermark, kept per environment in accounting_exports) so no donation is
+ * booked twice. A back-dated gift (offline, or matched from a bank
+ * statement) goes in the next export, under its own completion date. An
+ * earlier period can be downloaded again without moving the watermark.
+ * Dates use Malaysia time; amounts are in cents until written.
+ */
+
+import ExcelJS from 'exceljs'
+import { db, accountingExports, donationLogs, donations, funds, projects } from '@/db'
+import { and, desc, eq, gt, gte, inArray, isNotNull, isNull, lte, or, type SQL } from 'drizzle-orm'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+
+export type ExportProfile = 'donations' | 'journal' | 'monthly'
+export type ExportFormat = 'csv' | 'xlsx'
+
+export const EXPORT_PROFILES: ExportProfile[] = ['donations', 'journal', 'monthly']
+
+export const EXPORT_PROFILE_LABELS: Record<ExportProfile, string> = {
+  donations: 'Donations',
+  journal: 'Journal (SQL Account)',
+  monthly: 'Monthly summary',
+}
+
+export function parseExportProfile(value: string | null | undefined): ExportProfile | null {
+  if (!value) return 'donations'
+  return EXPORT_PROFILES.includes(value as ExportProfile) ? value as ExportProfile : null
+}
+
+export function parseExportFormat(value: string | null | undefined): ExportFormat | null {
+  if (!value) return 'csv'
+  return value === 'csv' || value === 'xlsx' ? value : null
+}
+
+export function isBookingProfile(profile: ExportProfile): profile is 'journal' | 'monthly' {
+  return profile === 'journal' || profile === 'monthly'
+}
+
+/**
+ * Accounts used in journal lines. Create accounts with these codes in
+ * SQL Account (or rename them there) before the first import.
+ */
+export const JOURNAL_ACCOUNTS = {
+  bank: { code: 'BANK', name: 'Bank - Donations Account' },
+  clearingPrefix: 'CLEARING-', // Followed by the gateway id, e.g. CLEARING-TOYYIBPAY
+  incomePrefix: 'INCOME-', // Followed by the fund code, e.g. INCOME-ZAKAT
+  generalIncome: { code: 'INCOME-GENERAL', name: 'Donation Income - General' },
+}
+
+// One gift or refund to be booked (amounts in cents, always positive)
+export interface AccountingEntry {
+  kind: 'gift' | 'refund'
+  donationId: string
+  date: Date
+  receiptNumber: string | null
+  paymentReference: string | null
+  donorName: string | null
+  amount: number
+  gateway: string // PaymentGatewayId, or 'offline'
+  fundCode: string | null
+  fundName: string | null
+  projectCode: string | null // Project slug, used as the SQL Account project
+}
+
+export interface JournalLine {
+  docNo: string
+  date: string // YYYY-MM-DD, Malaysia time
+  account: string
+  accountName: string
+  description: string
+  reference: string
+  debit: number
+  credit: number
+  project: string
+}
+
+export interface MonthlySummaryRow {
+  month: string // YYYY-MM, Malaysia time
+  debitAccount: string
+  creditAccount: string
+  project: string
+  gifts: number
+  gross: number
+  refundCount: number
+  refunds: number
+  net: number
+}
+
+export interface AccountingPeriod {
+  after: Date | null // Exclusive
+  upTo: Date // Inclusive
+}
+
+export interface ExportSheet {
+  name: string
+  columns: { header: string; key: string; width: number; money?: boolean }[]
+  rows: Record<string, string | number>[]
+}
+
+const MALAYSIA_UTC_OFFSET_MS = 8 * 60 * 60 * 1000
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Malaysia-time calendar date, YYYY-MM-DD
+export function toAccountingDate(date: Date): string {
+  return new Date(date.getTime() + MALAYSIA_UTC_OFFSET_MS).toISOString().slice(0, 10)
+}
+
+function debitAccount(entry: AccountingEntry): { code: string; name: string } {
+  if (entry.gateway === 'offline') return JOURNAL_ACCOUNTS.bank
+  const gateway = entry.gateway.toUpperCase()
+  return { code: `${JOURNAL_ACCOUNTS.clearingPrefix}${gateway}`, name: `${gateway} Clearing` }
+}
+
+function creditAccount(entry: AccountingEntry): { code: string; name: string } {
+  if (!entry.fundCode) return JOURNAL_ACCOUNTS.generalIncome
+  return {
+    code: `${JOURNAL_ACCOUNTS.incomePrefix}${entry.fundCode.toUpperCase()}`,
+    name: `Donation Income - ${entry.fundName || entry.fundCode}`,
+  }
+}
+
+/**
+ * Two balanced lines per entry: gifts debit bank/clearing and credit fund
+ * income, refunds the other way round. Refund documents are the donation's
+ * document plus -R and the refund date (and a count when one donation is
+ * refunded twice in a day), so they stay unique across exports.
+ */
+export function buildJournalLines(entries: AccountingEntry[]): JournalLine[] {
+  const refundDocs = new Map<string, number>()
+  const lines: JournalLine[] = []
+
+  for (const entry of [...entries].sort((a, b) => a.date.getTime() - b.date.getTime())) {
+    const baseDoc = entry.receiptNumber || entry.paymentReference || entry.donationId
+    let docNo = baseDoc
+    if (entry.kind === 'refund') {
+      docNo = `${baseDoc}-R${toAccountingDate(entry.date).replace(/-/g, '')}`
+      const count = (refundDocs.get(docNo) || 0) + 1
+      refundDocs.set(docNo, count)
+      if (count > 1) docNo = `${docNo}-${count}`
+    }
+
+    const donor = entry.donorName || 'Anonymous'
+    const description = entry.kind === 'gift' ? `Donation - ${donor}` : `Refund - ${donor}`
+    const amount = entry.amount / 100
+    const bank = debitAccount(entry)
+    const income = creditAccount(entry)
+    const shared = {
+      docNo,
+      date: toAccountingDate(entry.date),
+      description,
+      reference: entry.paymentReference || '',
+      project: entry.projectCode || '',
+    }
+
+    const [debitSide, creditSide] = entry.kind === 'gift' ? [bank, income] : [income, bank]
+    lines.push(
+      { ...shared, account: debitSide.code, accountName: debitSide.name, debit: amount, credit: 0 },
+      { ...shared, account: creditSide.code, accountName: creditSide.name, debit: 0, credit: amount },
+    )
+  }
+
+  return lines
+}
+
+/**
+ * Entries totalled per Malaysia-time month, debit account, credit account
+ * and project, oldest month first
+ */
+export function buildMonthlySummary(entries: AccountingEntry[]): MonthlySummaryRow[] {
+  const rows = new Map<string, MonthlySummaryRow>()
+
+  for (const entry of entries) {
+    const month = toAccountingDate(entry.date).slice(0, 7)
+    const debit = debitAccount(entry).code
+    const credit = creditAccount(entry).code
+    const project = entry.projectCode || ''
+    const key = [month, debit, credit, project].join('|')
+
+    const row = rows.get(key) || {
+      month,
+      debitAccount: debit,
+      creditAccount: credit,
+      project,
+      gifts: 0,
+      gross: 0,
+      refundCount: 0,
+      refunds: 0,
+      net: 0,
+    }
+
+    if (entry.kind === 'gift') {
+      row.gifts += 1
+      row.gross += entry.amount
+      row.net += entry.amount
+    } else {
+      row.refundCount += 1
+      row.refunds += entry.amount
+      row.net -= entry.amount
+    }
+    rows.set(key, row)
+  }
+
+  return [...rows.values()].sort((a, b) =>
+    a.month.localeCompare(b.month) ||
+    a.debitAccount.localeCompare(b.debitAccount) ||
+    a.creditAccount.localeCompare(b.creditAccount) ||
+    a.project.localeCompare(b.project)
+  )
+}
+
+export function netAmount(entries: AccountingEntry[]): number {
+  return entries.reduce((sum, entry) => sum + (entry.kind === 'gift' ? entry.amount : -entry.amount), 0)
+}
+
+export function journalSheet(lines: JournalLine[]): ExportSheet {
+  return {
+    name: 'Journal',
+    columns: [
+      { header: 'Doc No', key: 'docNo', width: 24 },
+      { header: 'Date', key: 'date', width: 12 },
+      { header: 'Account', key: 'account', width: 22 },
+      { header: 'Account Name', key: 'accountName', width: 30 },
+      { header: 'Description', key: 'description', width: 36 },
+      { header: 'Reference', key: 'reference', width: 24 },
+      { header: 'Debit', key: 'debit', width: 14, money: true },
+      { header: 'Credit', key: 'credit', width: 14, money: true },
+      { header: 'Project', key: 'project', width: 24 },
+    ],
+    rows: lines.map(line => ({ ...line })),
+  }
+}
+
+export function monthlySummarySheet(rows: MonthlySummaryRow[]): ExportSheet {
+  return {
+    name: 'Monthly Summary',
+    columns: [
+      { header: 'Month', key: 'month', width: 10 },
+      { header: 'Debit Account', key: 'debitAccount', width: 22 },
+      { header: 'Credit Account', key: 'creditAccount', width: 22 },
+      { header: 'Project', key: 'project', width: 24 },
+      { header: 'Gifts', key: 'gifts', width: 8 },
+      { header: 'Gross (RM)', key: 'gross', width: 14, money: true },
+      { header: 'Refunds', key: 'refundCount', width: 8 },
+      { header: 'Refunded (RM)', key: 'refunds', width: 14, money: true },
+      { header: 'Net (RM)', key: 'net', width: 14, money: true },
+    ],
+    rows: rows.map(row => ({
+      ...row,
+      gross: row.gross / 100,
+      refunds: row.refunds / 100,
+      net: row.net / 100,
+    })),
+  }
+}
+
+function escapeCsvCell(cell: string): string {
+  return cell.includes(',') || cell.includes('"') || cell.includes('\n')
+    ? `"${cell.replace(/"/g, '""')}"`
+    : cell
+}
+
+export function sheetToCsv(sheet: ExportSheet): string {
+  return [
+    sheet.columns.map(column => escapeCsvCell(column.header)).join(','),
+    ...sheet.rows.map(row => sheet.columns.map(column => {
+      const value = row[column.key]
+      if (column.money && typeof value === 'number') return value.toFixed(2)
+      return escapeCsvCell(value === undefined ? '' : String(value))
+    }).join(',')),
+  ].join('\n')
+}
+
+/**
+ * Workbook with one worksheet per sheet, styled like the form response export
+ */
+export async function sheetsToXlsx(sheets: ExportSheet[]): Promise<ExcelJS.Buffer> {
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = 'YIP Admin'
+  workbook.created = new Date()
+
+  for (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(sheet.name)
+    worksheet.columns = sheet.columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: column.width,
+      style: column.money ? { numFmt: '#,##0.00' } : undefined,
+    }))
+
+    const headerRow = worksheet.getRow(1)
+    headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' } }
+    headerRow.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FF14B8A6' },
+    }
+
+    sheet.rows.forEach(row => worksheet.addRow(row))
+    worksheet.views = [{ state: 'frozen', ySplit: 1 }]
+  }
+
+  return workbook.xlsx.writeBuffer()
+}
+
+// ============================================================================
+// DATABASE
+// ============================================================================
+
+const REFUND_EVENTS = ['refund_recorded', 'chargeback_recorded']
+
+function withinPeriod(column: typeof donations.completedAt | typeof donations.completionRecordedAt, period: AccountingPeriod): SQL {
+  return and(lte(column, period.upTo), period.after ? gt(column, period.after) : undefined)!
+}
+
+/**
+ * Gifts and refunds recorded within the period, for one environment. Fully
+ * refunded donations still count as gifts when their completion was recorded
+ * in the period; the refund is its own entry.
+ */
+export async function getAccountingEntries(
+  environment: string,
+  period: AccountingPeriod
+): Promise<AccountingEntry[]> {
+  const completedConditions: SQL[] = [
+    eq(donations.environment, environment),
+    inArray(donations.paymentStatus, ['completed', 'refunded']),
+    isNotNull(donations.completedAt),
+    // Donations completed before completionRecordedAt existed go by completedAt
+    or(
+      and(isNotNull(donations.completionRecordedAt), withinPeriod(donations.completionRecordedAt, period)),
+      and(isNull(donations.completionRecordedAt), withinPeriod(donations.completedAt, period))
+    )!,
+  ]
+
+  const refundConditions: SQL[] = [
+    eq(donations.environment, environment),
+    inArray(donationLogs.eventType, REFUND_EVENTS),
+    lte(donationLogs.createdAt, period.upTo),
+  ]
+  if (period.after) refundConditions.push(gt(donationLogs.createdAt, period.after))
+
+  const donationColumns = {
+    donationId: donations.id,
+    receiptNumber: donations.receiptNumber,
+    paymentReference: donations.paymentReference,
+    donorName: donations.donorName,
+    isAnonymous: donations.isAnonymous,
+    gateway: donations.paymentGateway,
+    fundId: donations.fundId,
+    projectId: donations.projectId,
+  }
+
+  const [gifts, refunds, fundList] = await Promise.all([
+    db
+      .select({ ...donationColumns, amount: donations.amount, date: donations.completedAt })
+      .from(donations)
+      .where(and(...completedConditions)),
+    db
+      .select({ ...donationColumns, eventData: donationLogs.eventData, date: donationLogs.createdAt })
+      .from(donationLogs)
+      .innerJoin(donations, eq(donations.id, donationLogs.donationId))
+      .where(and(...refundConditions)),
+    db.query.funds.findMany({ columns: { id: true, code: true, name: true } }),
+  ])
+
+  const projectIds = [...new Set([...gifts, ...refunds].map(row => row.projectId).filter((id): id is string => !!id))]
+  const projectList = projectIds.length > 0
+    ? await db.query.projects.findMany({
+        where: inArray(projects.id, projectIds),
+        columns: { id: true, slug: true },
+      })
+    : []
+
+  const fundMap = new Map(fundList.map(fund => [fund.id, fund]))
+  const projectMap = new Map(projectList.map(project => [project.id, project.slug]))
+
+  const toEntry = (row: typeof gifts[number] | typeof refunds[number]) => {
+    const fund = row.fundId ? fundMap.get(row.fundId) : undefined
+    return {
+      donationId: row.donationId,
+      date: row.date as Date,
+      receiptNumber: row.receiptNumber,
+      paymentReference: row.paymentReference,
+      donorName: row.isAnonymous ? null : row.donorName,
+      gateway: row.gateway || 'toyyibpay',
+      fundCode: fund?.code || null,
+      fundName: fund ? getLocalizedValue(fund.name as LocalizedString, 'en') : null,
+      projectCode: row.projectId ? (projectMap.get(row.projectId) || null) : null,
+    }
+  }
+
+  return [
+    ...gifts.map(row => ({ ...toEntry(row), kind: 'gift' as const, amount: row.amount })),
+    ...refunds.map(row => {
+      // Refund events record amounts in ringgit
+      const data = (row.eventData || {}) as { refundAmount?: number }
+      return { ...toEntry(row), kind: 'refund' as const, amount: Math.round(Number(data.refundAmount || 0) * 100) }
+    }).filter(entry => entry.amount > 0),
+  ]
+}
+
+export type AccountingExport = typeof accountingExports.$inferSelect
+
+/**
+ * The latest export that moved the watermark for an environment
+ */
+export async function getExportWatermark(environment: string): Promise<AccountingExport | null> {
+  const [latest] = await db
+    .select()
+    .from(accountingExports)
+    .where(and(eq(accountingExports.environment, environment), eq(accountingExports.mode, 'new')))
+    .orderBy(desc(accountingExports.exportedUpTo))
+    .limit(1)
+  return latest || null
+}
+
+export async function getAccountingExport(id: string): Promise<AccountingExport | null> {
+  if (!UUID_PATTERN.test(id)) return null
+  const [row] = await db.select().from(accountingExports).where(eq(accountingExports.id, id)).limit(1)
+  return row || null
+}
+
+export async function getAccountingExportHistory(limit = 50): Promise<AccountingExport[]> {
+  return db
+    .select()
+    .from(accountingExports)
+    .orderBy(desc(accountingExports.createdAt))
+    .limit(limit)
+}
+
+export interface BookingExportResult {
+  sheet: ExportSheet
+  period: AccountingPeriod
+  entryCount: number
+  netAmount: number
+}
+
+/**
+ * Build a journal or monthly summary export and record it. With no
+ * `repeatOf`, covers everything since the watermark and moves it to `now`.
+ * Returns null if another export moved the watermark in the meantime, so
+ * the same entries are never handed out twice.
+ */
+export async function createBookingExport(options: {
+  profile: 'journal' | 'monthly'
+  format: ExportFormat
+  environment: string
+  exportedBy: string
+  repeatOf?: AccountingExport
+  now?: Date
+}): Promise<BookingExportResult | null> {
+  const watermark = options.repeatOf ? null : await getExportWatermark(options.environment)
+  const period: AccountingPeriod = options.repeatOf
+    ? { after: options.repeatOf.periodStart, upTo: options.repeatOf.exportedUpTo }
+    : { after: watermark?.exportedUpTo || null, upTo: options.now || new Date() }
+
+  const entries = await getAccountingEntries(options.environment, period)
+  const sheet = options.profile === 'journal'
+    ? journalSheet(buildJournalLines(entries))
+    : monthlySummarySheet(buildMonthlySummary(entries))
+  const total = netAmount(entries)
+
+  // Conditional on the watermark we read: if another export already follows
+  // it, the unique watermark key makes this insert a no-op
+  const [recorded] = await db
+    .insert(accountingExports)
+    .values({
+      profile: options.profile,
+      format: options.format,
+      mode: options.repeatOf ? 'repeat' : 'new',
+      environment: options.environment,
+      periodStart: period.after,
+      exportedUpTo: period.upTo,
+      entryCount: entries.length,
+      netAmount: total,
+      exportedBy: options.exportedBy,
+      watermarkKey: options.repeatOf ? null : `${options.environment}:${watermark?.id || 'first'}`,
+    })
+    .onConflictDoNothing({ target: accountingExports.watermarkKey })
+    .returning({ id: accountingExports.id })
+
+  if (!recorded) return null
+  return { sheet, period, entryCount: entries.length, netAmount: total }
+}
+
+// ============================================================================
+// FLAT DONATION LIST
+// ============================================================================
+
+export interface DonationExportFilters {
+  status?: string
+  project?: string
+  fund?: string
+  from?: string
+  to?: string
+  environment?: string
+}
+
+/**
+ * Every donation matching the admin list filters, newest first
+ */
+export async function getDonationListSheet(filters: DonationExportFilters): Promise<ExportSheet> {
+  const conditions: SQL[] = []
+
+  if (filters.environment && filters.environment !== 'all') {
+    conditions.push(eq(donations.environment, filters.environment))
+  }
+  if (filters.status && filters.status !== 'all') {
+    conditions.push(eq(donations.paymentStatus, filters.status))
+  }
+  if (filters.project && filters.project !== 'all') {
+    conditions.push(eq(donations.projectId, filters.project))
+  }
+  if (filters.fund && filters.fund !== 'all') {
+    conditions.push(eq(donations.fundId, filters.fund))
+  }
+  if (filters.from) {
+    conditions.push(gte(donations.createdAt, new Date(filters.from)))
+  }
+  if (filters.to) {
+    const toDate = new Date(filters.to)
+    toDate.setHours(23, 59, 59, 999)
+    conditions.push(lte(donations.createdAt, toDate))
+  }
+
+  const [donationsList, projectsList, fundsList] = await Promise.all([
+    db.query.donations.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      orderBy: [desc(donations.createdAt)],
+    }),
+    db.query.projects.findMany({ columns: { id: true, title: true } }),
+    db.select({ id: funds.id, code: funds.code, type: funds.type }).from(funds),
+  ])
+
+  const projectMap = new Map(projectsList.map(p => [
+    p.id,
+    typeof p.title === 'string' ? p.title : getLocalizedValue(p.title as LocalizedString, 'en'),
+  ]))
+  const fundMap = new Map(fundsList.map(f => [f.id, f]))
+
+  return {
+    name: 'Donations',
+    columns: [
+      { header: 'Receipt Number', key: 'receiptNumber', width: 20 },
+      { header: 'Payment Reference', key: 'paymentReference', width: 24 },
+      { header: 'Date', key: 'date', width: 24 },
+      { header: 'Donor Name', key: 'donorName', width: 24 },
+      { header: 'Donor Email', key: 'donorEmail', width: 28 },
+      { header: 'Donor Phone', key: 'donorPhone', width: 16 },
+      { header: 'Amount (RM)', key: 'amount', width: 14, money: true },
+      { header: 'Project', key: 'project', width: 30 },
+      { header: 'Fund', key: 'fund', width: 14 },
+      { header: 'Fund Type', key: 'fundType', width: 12 },
+      { header: 'Status', key: 'status', width: 12 },
+      { header: 'Environment', key: 'environment', width: 12 },
+      { header: 'Gateway', key: 'gateway', width: 12 },
+      { header: 'Payment Method', key: 'paymentMethod', width: 16 },
+      { header: 'Transaction ID', key: 'transactionId', width: 24 },
+      { header: 'Embedded On', key: 'embedOrigin', width: 28 },
+      { header: 'Anonymous', key: 'anonymous', width: 10 },
+      { header: 'Message', key: 'message', width: 36 },
+      { header: 'Completed At', key: 'completedAt', width: 24 },
+      { header: 'Recorded By', key: 'recordedBy', width: 24 },
+      { header: 'Approved By', key: 'approvedBy', width: 24 },
+    ],
+    rows: donationsList.map(d => ({
+      receiptNumber: d.receiptNumber || '',
+      paymentReference: d.paymentReference || '',
+      date: d.createdAt ? new Date(d.createdAt).toISOString() : '',
+      donorName: d.isAnonymous ? 'Anonymous' : (d.donorName || ''),
+      donorEmail: d.donorEmail || '',
+      donorPhone: d.donorPhone || '',
+      amount: d.amount / 100,
+      project: d.projectId ? (projectMap.get(d.projectId) || 'Unknown Project') : 'General Fund',
+      fund: d.fundId ? (fundMap.get(d.fundId)?.code || 'unknown') : '',
+      fundType: d.fundId ? (fundMap.get(d.fundId)?.type || '') : '',
+      status: d.paymentStatus || '',
+      environment: d.environment || 'unknown',
+      gateway: d.paymentGateway || 'toyyibpay',
+      paymentMethod: d.paymentMethod || 'toyyibpay',
+      transactionId: d.gatewayTransactionId || d.offlineReference || '',
+      embedOrigin: d.embedOrigin || '',
+      anonymous: d.isAnonymous ? 'Yes' : 'No',
+      message: d.message || '',
+      completedAt: d.completedAt ? new Date(d.completedAt).toISOString() : '',
+      recordedBy: d.recordedBy || '',
+      approvedBy: d.paymentStatus === 'completed' ? (d.reviewedBy || '') : '',
+    })),
+  }
+}
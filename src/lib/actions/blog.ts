@@ -2,12 +2,15 @@
 
 import { revalidatePath } from 'next/cache'
 import { db, blogPosts } from '@/db'
-import { eq, desc, and } from 'drizzle-orm'
+import { eq, desc, and, sql } from 'drizzle-orm'
 import { requireAuth } from '@/lib/auth/server'
 import { createVersion, logActivity } from '@/lib/versioning'
 import { notifyBlogPublished } from '@/lib/actions/notifications'
 import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
 import { autoTranslateFields } from '@/lib/auto-translate'
+import { validateSchedule, type PublishSchedule } from '@/lib/scheduled-publishing'
+import { checkPublishAllowed, getHeldChanges, hasContentChanges, holdLiveEdit, recordReviewedSave } from '@/lib/editorial-review'
+import { getEditConflict } from '@/lib/edit-leases'
 
 type LocalizedField = LocalizedString | string
 
@@ -68,6 +71,11 @@ export async function createBlogPost(data: {
 }) {
   const user = await requireAuth()
 
+  // New posts have not been through review yet
+  if (data.isPublished) {
+    return { success: false, error: 'Save the post as a draft and submit it for review before publishing' }
+  }
+
   // Auto-translate any fields that are missing one language
   console.log('[Blog] Auto-translating content...')
   const translated = await autoTranslateFields({
@@ -110,6 +118,13 @@ export async function createBlogPost(data: {
     user: { id: user.id, email: user.email, name: user.name },
   })
 
+  // The writer of a draft may not approve it either
+  await recordReviewedSave('blog_posts', post[0].id, {
+    changeType: 'update',
+    contentChanged: true,
+    title: l(data.title),
+  }, { id: user.id, email: user.email, name: user.name })
+
   // Create notification if published
   if (data.isPublished) {
     await notifyBlogPublished({
@@ -134,6 +149,9 @@ export async function updateBlogPost(id: string, data: {
   metaTitle?: LocalizedField
   metaDescription?: LocalizedField
   isPublished?: boolean
+}, options?: {
+  // Revision the editor loaded; the save is refused if someone has saved since
+  baseRevision?: number
 }) {
   const user = await requireAuth()
 
@@ -146,6 +164,12 @@ export async function updateBlogPost(id: string, data: {
     return { success: false, error: 'Post not found' }
   }
 
+  const baseRevision = options?.baseRevision
+  if (baseRevision !== undefined && existing.revision !== baseRevision) {
+    const conflict = await getEditConflict('blog_posts', existing)
+    return { success: false, conflict, error: 'This post was changed by someone else since you opened it' }
+  }
+
   // Auto-translate any fields that are missing one language
   const fieldsToTranslate: Record<string, LocalizedString | string | null | undefined> = {}
   if (data.title !== undefined) fieldsToTranslate.title = toLocalizedRequired(data.title)
@@ -164,6 +188,7 @@ export async function updateBlogPost(id: string, data: {
   // Handle publishing logic - convert LocalizedField to LocalizedString for database
   const updateData: Record<string, unknown> = {
     updatedAt: new Date(),
+    revision: sql`${blogPosts.revision} + 1`,
     ...(data.slug !== undefined && { slug: data.slug }),
     ...(data.title !== undefined && { title: translated.title || toLocalizedRequired(data.title) }),
     ...(data.excerpt !== undefined && { excerpt: translated.excerpt }),
@@ -184,17 +209,55 @@ export async function updateBlogPost(id: string, data: {
     if (data.isPublished && !existing.publishedAt) {
       updateData.publishedAt = new Date()
     }
+    // A manual publish or unpublish replaces any schedule for it
+    if (data.isPublished) {
+      updateData.scheduledPublishAt = null
+    } else {
+      updateData.scheduledUnpublishAt = null
+    }
+  }
+
+  // Edits held for review while it was live carry over into the draft
+  if (changeType === 'unpublish') {
+    Object.assign(updateData, { ...await getHeldChanges('blog_posts', id), ...updateData })
+  }
+
+  // Edits to a live post wait for approval; the live post only gets a new revision
+  const held = changeType === 'update' && !!existing.isPublished
+
+  const contentChanged = hasContentChanges(existing, updateData)
+  if (changeType === 'publish') {
+    const blocked = await checkPublishAllowed(id, contentChanged)
+    if (blocked) {
+      return { success: false, error: blocked }
+    }
   }
 
-  await db
+  // Checked again in the update itself, in case someone saved while translating
+  const [updated] = await db
     .update(blogPosts)
-    .set(updateData)
-    .where(eq(blogPosts.id, id))
+    .set(held ? { revision: sql`${blogPosts.revision} + 1` } : updateData)
+    .where(baseRevision !== undefined
+      ? and(eq(blogPosts.id, id), eq(blogPosts.revision, baseRevision))
+      : eq(blogPosts.id, id))
+    .returning()
+
+  if (!updated) {
+    const current = await db.query.blogPosts.findFirst({
+      where: eq(blogPosts.id, id),
+    })
+    if (!current) {
+      return { success: false, error: 'Post not found' }
+    }
+    const conflict = await getEditConflict('blog_posts', current)
+    return { success: false, conflict, error: 'This post was changed by someone else since you opened it' }
+  }
 
-  // Get updated data
-  const updated = await db.query.blogPosts.findFirst({
-    where: eq(blogPosts.id, id),
-  })
+  if (held) {
+    const pendingReview = await holdLiveEdit('blog_posts', existing, updateData, l(data.title) || l(existing.title),
+      { id: user.id, email: user.email, name: user.name })
+    return { success: true, revision: updated.revision, pendingReview }
+  }
 
   // Create version record
   await createVersion(
@@ -215,6 +278,12 @@ export async function updateBlogPost(id: string, data: {
     user: { id: user.id, email: user.email, name: user.name },
   })
 
+  await recordReviewedSave('blog_posts', id, {
+    changeType,
+    contentChanged,
+    title: l(data.title) || l(existing.title),
+  }, { id: user.id, email: user.email, name: user.name })
+
   // Create notification if published
   if (changeType === 'publish') {
     await notifyBlogPublished({
@@ -229,7 +298,52 @@ export async function updateBlogPost(id: string, data: {
     revalidatePath(`/blog/${data.slug}`)
   }
 
-  return { success: true }
+  return { success: true, revision: updated.revision }
+}
+
+/**
+ * Set when a post goes live and when it comes down (null clears a time).
+ * The scheduled-publishing cron job applies them.
+ */
+export async function setBlogPostSchedule(id: string, schedule: PublishSchedule) {
+  const user = await requireAuth()
+
+  const existing = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.id, id),
+  })
+
+  if (!existing) {
+    return { success: false, error: 'Post not found' }
+  }
+
+  const error = validateSchedule(existing, schedule)
+  if (error) {
+    return { success: false, error }
+  }
+
+  const [updated] = await db
+    .update(blogPosts)
+    .set({
+      scheduledPublishAt: schedule.publishAt,
+      scheduledUnpublishAt: schedule.unpublishAt,
+      updatedAt: new Date(),
+      revision: sql`${blogPosts.revision} + 1`,
+    })
+    .where(eq(blogPosts.id, id))
+    .returning({ revision: blogPosts.revision })
+
+  await logActivity('content_schedule', `Updated publishing schedule for blog post: ${l(existing.title)}`, {
+    contentType: 'blog_posts',
+    contentId: id,
+    contentTitle: l(existing.title),
+    user: { id: user.id, email: user.email, name: user.name },
+    metadata: {
+      publishAt: schedule.publishAt?.toISOString() ?? null,
+      unpublishAt: schedule.unpublishAt?.toISOString() ?? null,
+    },
+  })
+
+  return { success: true, revision: updated?.revision }
 }
 
 export async function deleteBlogPost(id: string) {
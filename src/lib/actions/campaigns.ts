@@ -0,0 +1,204 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { db, campaigns, projects, type CampaignMatchingRule } from '@/db'
+import { and, eq, inArray, ne } from 'drizzle-orm'
+import { requireAuth } from '@/lib/auth/server'
+import { createVersion, logActivity } from '@/lib/versioning'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { autoTranslateFields } from '@/lib/auto-translate'
+
+export interface CampaignInput {
+  slug: string
+  title: LocalizedString
+  description?: LocalizedString | null
+  featuredImage?: string | null
+  startsAt: Date
+  endsAt: Date
+  goal: number // In cents
+  projectIds: string[]
+  matchingRules: CampaignMatchingRule[]
+  isPublished: boolean
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+async function validateCampaign(data: CampaignInput, id?: string): Promise<string | null> {
+  if (!data.title.en.trim() && !data.title.ms.trim()) return 'Title is required'
+  if (!SLUG_PATTERN.test(data.slug)) return 'Slug may only contain lowercase letters, numbers and hyphens'
+  if (Number.isNaN(data.startsAt.getTime()) || Number.isNaN(data.endsAt.getTime())) return 'Start and end dates are required'
+  if (data.endsAt <= data.startsAt) return 'The campaign must end after it starts'
+  if (!Number.isInteger(data.goal) || data.goal < 100) return 'Goal must be at least RM 1'
+
+  for (const rule of data.matchingRules) {
+    if (!rule.sponsor.trim()) return 'Each matching rule needs a sponsor'
+    if (!(rule.ratio > 0) || rule.ratio > 10) return 'Matching ratio must be between 0 and 10'
+    if (!Number.isInteger(rule.cap) || rule.cap < 100) return 'Matching cap must be at least RM 1'
+  }
+
+  const existing = await db.query.campaigns.findFirst({
+    where: id
+      ? and(eq(campaigns.slug, data.slug), ne(campaigns.id, id))
+      : eq(campaigns.slug, data.slug),
+    columns: { id: true },
+  })
+  if (existing) return 'Another campaign already uses this slug'
+
+  if (data.projectIds.length > 0) {
+    const linked = await db.query.projects.findMany({
+      where: inArray(projects.id, data.projectIds),
+      columns: { id: true },
+    })
+    if (linked.length !== new Set(data.projectIds).size) return 'One or more linked projects no longer exist'
+  }
+
+  return null
+}
+
+async function toCampaignValues(data: CampaignInput) {
+  const translated = await autoTranslateFields({
+    title: data.title,
+    description: data.description,
+  })
+
+  return {
+    slug: data.slug,
+    title: translated.title || data.title,
+    description: translated.description || null,
+    featuredImage: data.featuredImage || null,
+    startsAt: data.startsAt,
+    endsAt: data.endsAt,
+    goal: data.goal,
+    projectIds: [...new Set(data.projectIds)],
+    matchingRules: data.matchingRules.map(rule => ({
+      sponsor: rule.sponsor.trim(),
+      ratio: rule.ratio,
+      cap: rule.cap,
+    })),
+    isPublished: data.isPublished,
+  }
+}
+
+export async function createCampaign(data: CampaignInput) {
+  const user = await requireAuth()
+
+  const error = await validateCampaign(data)
+  if (error) return { success: false, error }
+
+  const [campaign] = await db
+    .insert(campaigns)
+    .values(await toCampaignValues(data))
+    .returning()
+
+  const title = getLocalizedValue(campaign.title, 'en')
+
+  await createVersion(
+    'campaigns',
+    campaign.id,
+    campaign as Record<string, unknown>,
+    'create',
+    { id: user.id, email: user.email, name: user.name }
+  )
+
+  await logActivity('content_create', `Created campaign: ${title}`, {
+    contentType: 'campaigns',
+    contentId: campaign.id,
+    contentTitle: title,
+    user: { id: user.id, email: user.email, name: user.name },
+  })
+
+  revalidatePath(`/campaigns/${campaign.slug}`)
+  return { success: true, campaign }
+}
+
+export async function updateCampaign(id: string, data: CampaignInput) {
+  const user = await requireAuth()
+
+  const existing = await db.query.campaigns.findFirst({
+    where: eq(campaigns.id, id),
+  })
+
+  if (!existing) {
+    return { success: false, error: 'Campaign not found' }
+  }
+
+  const error = await validateCampaign(data, id)
+  if (error) return { success: false, error }
+
+  let changeType: 'update' | 'publish' | 'unpublish' = 'update'
+  if (data.isPublished !== existing.isPublished) {
+    changeType = data.isPublished ? 'publish' : 'unpublish'
+  }
+
+  const [updated] = await db
+    .update(campaigns)
+    .set({ ...(await toCampaignValues(data)), updatedAt: new Date() })
+    .where(eq(campaigns.id, id))
+    .returning()
+
+  const title = getLocalizedValue(updated.title, 'en')
+
+  await createVersion(
+    'campaigns',
+    id,
+    updated as Record<string, unknown>,
+    changeType,
+    { id: user.id, email: user.email, name: user.name },
+    { previousData: existing as Record<string, unknown> }
+  )
+
+  const actionText = changeType === 'publish' ? 'Published' : changeType === 'unpublish' ? 'Unpublished' : 'Updated'
+  await logActivity(`content_${changeType}`, `${actionText} campaign: ${title}`, {
+    contentType: 'campaigns',
+    contentId: id,
+    contentTitle: title,
+    user: { id: user.id, email: user.email, name: user.name },
+  })
+
+  revalidatePath(`/campaigns/${existing.slug}`)
+  if (updated.slug !== existing.slug) {
+    revalidatePath(`/campaigns/${updated.slug}`)
+  }
+
+  return { success: true, campaign: updated }
+}
+
+/**
+ * Delete a campaign. Donations keep their campaignId so attribution is not
+ * lost if the campaign is restored from history.
+ */
+export async function deleteCampaign(id: string) {
+  const user = await requireAuth()
+
+  const existing = await db.query.campaigns.findFirst({
+    where: eq(campaigns.id, id),
+  })
+
+  if (!existing) {
+    return { success: false, error: 'Campaign not found' }
+  }
+
+  const title = getLocalizedValue(existing.title, 'en')
+
+  await createVersion(
+    'campaigns',
+    id,
+    existing as Record<string, unknown>,
+    'delete',
+    { id: user.id, email: user.email, name: user.name },
+    { customSummary: `Deleted campaign: ${title}` }
+  )
+
+  await logActivity('content_delete', `Deleted campaign: ${title}`, {
+    contentType: 'campaigns',
+    contentId: id,
+    contentTitle: title,
+    user: { id: user.id, email: user.email, name: user.name },
+    metadata: { deletedData: existing },
+  })
+
+  await db.delete(campaigns).where(eq(campaigns.id, id))
+
+  revalidatePath(`/campaigns/${existing.slug}`)
+  return { success: true }
+}
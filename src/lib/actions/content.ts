@@ -5,6 +5,7 @@ import { db, heroContent, aboutContent, impactStats, siteSettings, faqs, pages }
 import { eq } from 'drizzle-orm'
 import { requireAuth } from '@/lib/auth/server'
 import { createVersion, logActivity } from '@/lib/versioning'
+import { checkPublishAllowed, getHeldChanges, hasContentChanges, holdLiveEdit, recordReviewedSave } from '@/lib/editorial-review'
 import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
 
 // Type that accepts both string and LocalizedString for backward compatibility
@@ -548,6 +549,17 @@ export async function getPageSEO(slug: string) {
   return page
 }
 
+/**
+ * Page SEO for the admin editor, including edits held for review
+ */
+export async function getEditablePageSEO(slug: string) {
+  await requireAuth()
+
+  const page = await getPageSEO(slug)
+  if (!page) return page
+  return { ...page, ...await getHeldChanges('pages', page.id) } as typeof page
+}
+
 export async function updatePageSEO(slug: string, data: {
   title?: LocalizedField
   metaTitle?: LocalizedField
@@ -572,6 +584,13 @@ export async function updatePageSEO(slug: string, data: {
     ...(data.ogImage !== undefined && { ogImage: data.ogImage }),
   }
 
+  // Edits to a live page wait for approval
+  if (existing?.isPublished) {
+    const pendingReview = await holdLiveEdit('pages', existing, dbData, l(data.title) || slug,
+      { id: user.id, email: user.email, name: user.name })
+    return { success: true, pendingReview }
+  }
+
   if (existing) {
     await db
       .update(pages)
@@ -585,6 +604,7 @@ export async function updatePageSEO(slug: string, data: {
       metaTitle: toLocalized(data.metaTitle),
       metaDescription: toLocalized(data.metaDescription),
       ogImage: data.ogImage,
+      isPublished: false, // Published once approved
     }).returning()
     contentId = newPage.id
   }
@@ -612,6 +632,74 @@ export async function updatePageSEO(slug: string, data: {
     user: { id: user.id, email: user.email, name: user.name },
   })
 
+  await recordReviewedSave('pages', contentId, {
+    changeType: 'update',
+    contentChanged: !existing || hasContentChanges(existing, dbData),
+    title: l(data.title) || slug,
+  }, { id: user.id, email: user.email, name: user.name })
+
+  revalidatePath(`/${slug}`)
+  return { success: true }
+}
+
+/**
+ * Publish or unpublish a page. Publishing needs an approved review.
+ */
+export async function setPagePublished(slug: string, isPublished: boolean) {
+  const user = await requireAuth()
+
+  const existing = await db.query.pages.findFirst({
+    where: eq(pages.slug, slug),
+  })
+
+  if (!existing) {
+    return { success: false, error: 'Page not found' }
+  }
+  if (!!existing.isPublished === isPublished) {
+    return { success: true }
+  }
+
+  if (isPublished) {
+    const blocked = await checkPublishAllowed(existing.id)
+    if (blocked) {
+      return { success: false, error: blocked }
+    }
+  }
+
+  const changeType = isPublished ? 'publish' : 'unpublish'
+  const [updated] = await db
+    .update(pages)
+    .set({
+      // Edits held for review while it was live carry over into the draft
+      ...(!isPublished && await getHeldChanges('pages', existing.id)),
+      isPublished,
+      updatedAt: new Date(),
+    })
+    .where(eq(pages.id, existing.id))
+    .returning()
+
+  await createVersion(
+    'pages',
+    existing.id,
+    updated as Record<string, unknown>,
+    changeType,
+    { id: user.id, email: user.email, name: user.name },
+    { previousData: existing as Record<string, unknown> }
+  )
+
+  await logActivity(`content_${changeType}`, `${isPublished ? 'Published' : 'Unpublished'} page: ${slug}`, {
+    contentType: 'pages',
+    contentId: existing.id,
+    contentTitle: l(existing.title) || slug,
+    user: { id: user.id, email: user.email, name: user.name },
+  })
+
+  await recordReviewedSave('pages', existing.id, {
+    changeType,
+    contentChanged: false,
+    title: l(existing.title) || slug,
+  }, { id: user.id, email: user.email, name: user.name })
+
   revalidatePath(`/${slug}`)
   return { success: true }
 }
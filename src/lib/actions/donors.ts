@@ -0,0 +1,60 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { requireAuth } from '@/lib/auth/server'
+import { logActivity } from '@/lib/versioning'
+import {
+  listDonors,
+  mergeDonors,
+  updateDonorPreferences,
+  type DonorListItem,
+  type DonorPreferences,
+} from '@/lib/donors'
+
+export async function searchDonors(query: string): Promise<DonorListItem[]> {
+  await requireAuth()
+  if (query.trim().length < 2) return []
+  return listDonors({ search: query, limit: 10 })
+}
+
+export async function updateDonorProfile(id: string, preferences: DonorPreferences) {
+  const user = await requireAuth()
+
+  const updated = await updateDonorPreferences(id, preferences)
+  if (!updated) {
+    return { success: false, error: 'Donor not found' }
+  }
+
+  await logActivity('donor_update', 'Updated donor communication preferences', {
+    contentId: id,
+    user: { id: user.id, email: user.email, name: user.name },
+    metadata: {
+      emailUpdates: preferences.emailUpdates,
+      recoveryEmails: preferences.recoveryEmails,
+      locale: preferences.locale,
+    },
+  })
+
+  revalidatePath(`/admin/dashboard/donors/${id}`)
+  return { success: true }
+}
+
+/**
+ * Merge a duplicate donor profile into the one being viewed
+ */
+export async function mergeDonorProfiles(primaryId: string, duplicateId: string) {
+  const user = await requireAuth()
+
+  const result = await mergeDonors(primaryId, duplicateId, user.email)
+  if (!result.success) return result
+
+  await logActivity('donor_merge', `Merged duplicate donor profile (${result.movedDonations} donations moved)`, {
+    contentId: primaryId,
+    user: { id: user.id, email: user.email, name: user.name },
+    metadata: { duplicateId, movedDonations: result.movedDonations },
+  })
+
+  revalidatePath('/admin/dashboard/donors')
+  revalidatePath(`/admin/dashboard/donors/${primaryId}`)
+  return result
+}
@@ -0,0 +1,39 @@
+'use server'
+
+import { requireAuth } from '@/lib/auth/server'
+import {
+  acquireEditLease as acquireLease,
+  getEditLease as getLease,
+  releaseEditLease as releaseLease,
+  renewEditLease as renewLease,
+  resolveLeaseContentType,
+  type LeaseResult,
+} from '@/lib/edit-leases'
+
+export async function getEditLease(contentId: string, clientId: string) {
+  await requireAuth()
+  return getLease(contentId, String(clientId))
+}
+
+export async function acquireEditLease(contentType: string, contentId: string, clientId: string, options?: {
+  takeOver?: boolean
+}): Promise<LeaseResult> {
+  const user = await requireAuth()
+
+  const type = resolveLeaseContentType(contentType)
+  if (!type) return { success: false, error: 'Unsupported content type' }
+
+  return acquireLease(type, contentId, String(clientId), { id: user.id, email: user.email, name: user.name }, {
+    takeOver: options?.takeOver === true,
+  })
+}
+
+export async function renewEditLease(contentId: string, clientId: string) {
+  await requireAuth()
+  return renewLease(contentId, String(clientId))
+}
+
+export async function releaseEditLease(contentId: string, clientId: string) {
+  await requireAuth()
+  return releaseLease(contentId, String(clientId))
+}
@@ -0,0 +1,158 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { db, funds, projects } from '@/db'
+import { and, eq, ne } from 'drizzle-orm'
+import { requireAuth } from '@/lib/auth/server'
+import { createVersion, logActivity } from '@/lib/versioning'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { autoTranslateFields } from '@/lib/auto-translate'
+import { isFundType, type FundType } from '@/lib/funds'
+
+export interface FundInput {
+  code: string
+  name: LocalizedString
+  description?: LocalizedString | null
+  type: FundType
+  projectId?: string | null
+  isActive: boolean
+  sortOrder: number
+}
+
+const CODE_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+async function validateFund(data: FundInput, id?: string): Promise<string | null> {
+  if (!data.name.en.trim() && !data.name.ms.trim()) return 'Name is required'
+  if (!CODE_PATTERN.test(data.code)) return 'Code may only contain lowercase letters, numbers and hyphens'
+  if (!isFundType(data.type)) return 'Choose zakat, waqf, sedekah or restricted'
+  if (data.type === 'restricted' && !data.projectId) return 'A restricted fund must be held for a project'
+  if (data.type !== 'restricted' && data.projectId) return 'Only restricted funds can be tied to a project'
+  if (!Number.isInteger(data.sortOrder)) return 'Sort order must be a whole number'
+
+  const existing = await db.query.funds.findFirst({
+    where: id
+      ? and(eq(funds.code, data.code), ne(funds.id, id))
+      : eq(funds.code, data.code),
+    columns: { id: true },
+  })
+  if (existing) return 'Another fund already uses this code'
+
+  if (data.projectId) {
+    const project = await db.query.projects.findFirst({
+      where: eq(projects.id, data.projectId),
+      columns: { id: true },
+    })
+    if (!project) return 'The project no longer exists'
+
+    // Project gifts are routed to the project's restricted fund, so there
+    // can only be one active fund per project
+    if (data.isActive) {
+      const other = await db.query.funds.findFirst({
+        where: and(
+          eq(funds.projectId, data.projectId),
+          eq(funds.isActive, true),
+          ...(id ? [ne(funds.id, id)] : [])
+        ),
+        columns: { id: true },
+      })
+      if (other) return 'This project already has an active restricted fund'
+    }
+  }
+
+  return null
+}
+
+async function toFundValues(data: FundInput) {
+  const translated = await autoTranslateFields({
+    name: data.name,
+    description: data.description,
+  })
+
+  return {
+    code: data.code,
+    name: translated.name || data.name,
+    description: translated.description || null,
+    type: data.type,
+    projectId: data.type === 'restricted' ? data.projectId || null : null,
+    isActive: data.isActive,
+    sortOrder: data.sortOrder,
+  }
+}
+
+export async function createFund(data: FundInput) {
+  const user = await requireAuth()
+
+  const error = await validateFund(data)
+  if (error) return { success: false, error }
+
+  const [fund] = await db
+    .insert(funds)
+    .values(await toFundValues(data))
+    .returning()
+
+  const name = getLocalizedValue(fund.name, 'en')
+
+  await createVersion(
+    'funds',
+    fund.id,
+    fund as Record<string, unknown>,
+    'create',
+    { id: user.id, email: user.email, name: user.name }
+  )
+
+  await logActivity('content_create', `Created fund: ${name}`, {
+    contentType: 'funds',
+    contentId: fund.id,
+    contentTitle: name,
+    user: { id: user.id, email: user.email, name: user.name },
+  })
+
+  revalidatePath('/donate')
+  return { success: true, fund }
+}
+
+/**
+ * Update a fund. Funds are deactivated rather than deleted so donations
+ * keep their designation.
+ */
+export async function updateFund(id: string, data: FundInput) {
+  const user = await requireAuth()
+
+  const existing = await db.query.funds.findFirst({
+    where: eq(funds.id, id),
+  })
+
+  if (!existing) {
+    return { success: false, error: 'Fund not found' }
+  }
+
+  const error = await validateFund(data, id)
+  if (error) return { success: false, error }
+
+  const [updated] = await db
+    .update(funds)
+    .set({ ...(await toFundValues(data)), updatedAt: new Date() })
+    .where(eq(funds.id, id))
+    .returning()
+
+  const name = getLocalizedValue(updated.name, 'en')
+
+  await createVersion(
+    'funds',
+    id,
+    updated as Record<string, unknown>,
+    'update',
+    { id: user.id, email: user.email, name: user.name },
+    { previousData: existing as Record<string, unknown> }
+  )
+
+  await logActivity('content_update', `Updated fund: ${name}`, {
+    contentType: 'funds',
+    contentId: id,
+    contentTitle: name,
+    user: { id: user.id, email: user.email, name: user.name },
+  })
+
+  revalidatePath('/donate')
+  return { success: true, fund: updated }
+}
@@ -14,6 +14,8 @@ export type NotificationType =
   | 'donation_received'
   | 'org_chart_update'
   | 'm365_sync'
+  | 'fundraiser_submitted'
+  | 'content_review'
   | 'system'
 
 // Notification priority
@@ -28,6 +30,8 @@ export type RelatedType =
   | 'team_members'
   | 'donations'
   | 'messages'
+  | 'fundraisers'
+  | 'pages'
 
 // Notification interface
 export interface Notification {
@@ -58,6 +62,8 @@ const notificationIcons: Record<NotificationType, string> = {
   donation_received: 'currency-dollar',
   org_chart_update: 'organization-chart',
   m365_sync: 'cloud-arrow-down',
+  fundraiser_submitted: 'flag',
+  content_review: 'clipboard-document-check',
   system: 'cog',
 }
 
@@ -73,6 +79,8 @@ function getRelatedUrl(relatedType: RelatedType | null, relatedId: string | null
     team_members: (id) => `/admin/dashboard/team`,
     donations: (id) => `/admin/dashboard/donations`,
     messages: (id) => `/admin/dashboard/messages`,
+    fundraisers: () => `/admin/dashboard/fundraisers`,
+    pages: () => `/admin/dashboard/content/seo`,
   }
 
   return urlMap[relatedType]?.(relatedId) || null
@@ -393,6 +401,29 @@ export async function notifyContactMessage(data: {
   })
 }
 
+/**
+ * Create notification for a supporter fundraiser awaiting review
+ */
+export async function notifyFundraiserSubmitted(data: {
+  fundraiserId: string
+  title: string
+  ownerName: string
+  projectTitle?: string
+}): Promise<void> {
+  await createNotification({
+    type: 'fundraiser_submitted',
+    title: 'Fundraiser Awaiting Review',
+    message: `${data.ownerName} submitted "${data.title}"${data.projectTitle ? ` for ${data.projectTitle}` : ''}.`,
+    priority: 'normal',
+    relatedType: 'fundraisers',
+    relatedId: data.fundraiserId,
+    metadata: {
+      ownerName: data.ownerName,
+      projectTitle: data.projectTitle,
+    },
+  })
+}
+
 /**
  * Create notification for team member update
  */
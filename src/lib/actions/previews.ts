@@ -0,0 +1,34 @@
+'use server'
+
+import { requireAuth } from '@/lib/auth/server'
+import {
+  createPreviewLink as createLink,
+  getPreviewLinks as getLinks,
+  resolvePreviewContentType,
+  revokePreviewLink as revokeLink,
+} from '@/lib/preview-links'
+
+export async function getPreviewLinks(contentType: string, contentId: string) {
+  await requireAuth()
+  return resolvePreviewContentType(contentType) ? getLinks(contentId) : []
+}
+
+export async function createPreviewLink(contentType: string, contentId: string, options: {
+  label?: string | null
+  ttlDays: number
+}) {
+  const user = await requireAuth()
+
+  const type = resolvePreviewContentType(contentType)
+  if (!type) return { success: false, error: 'Unsupported content type' }
+
+  return createLink(type, contentId, {
+    label: options.label ? String(options.label) : null,
+    ttlDays: Number(options.ttlDays),
+  }, { id: user.id, email: user.email, name: user.name })
+}
+
+export async function revokePreviewLink(linkId: string) {
+  const user = await requireAuth()
+  return revokeLink(linkId, { id: user.id, email: user.email, name: user.name })
+}
@@ -2,13 +2,16 @@
 
 import { revalidatePath } from 'next/cache'
 import { db, projects } from '@/db'
-import { eq, desc, and } from 'drizzle-orm'
+import { eq, desc, and, sql } from 'drizzle-orm'
 import { requireAuth } from '@/lib/auth/server'
 import { createVersion, logActivity } from '@/lib/versioning'
 import { notifyProjectPublished } from '@/lib/actions/notifications'
 import { ToyyibPayService, ToyyibPayError } from '@/lib/toyyibpay'
 import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
 import { autoTranslateFields } from '@/lib/auto-translate'
+import { validateSchedule, type PublishSchedule } from '@/lib/scheduled-publishing'
+import { checkPublishAllowed, getHeldChanges, hasContentChanges, holdLiveEdit, recordReviewedSave } from '@/lib/editorial-review'
+import { getEditConflict } from '@/lib/edit-leases'
 
 type LocalizedField = LocalizedString | string
 
@@ -97,6 +100,11 @@ export async function createProject(data: {
 }) {
   const user = await requireAuth()
 
+  // New projects have not been through review yet
+  if (data.isPublished) {
+    return { success: false, error: 'Save the project as a draft and submit it for review before publishing' }
+  }
+
   // If donation is enabled, create ToyyibPay category
   let toyyibpayCategoryCode: string | undefined
   const titleStr = l(data.title)
@@ -144,6 +152,7 @@ export async function createProject(data: {
     metaTitle: translated.metaTitle,
     metaDescription: translated.metaDescription,
     isPublished: data.isPublished,
+    publishedAt: data.isPublished ? new Date() : null,
     donationEnabled: data.donationEnabled,
     donationGoal: data.donationGoal,
     donationRaised: 0,
@@ -167,6 +176,13 @@ export async function createProject(data: {
     user: { id: user.id, email: user.email, name: user.name },
   })
 
+  // The writer of a draft may not approve it either
+  await recordReviewedSave('projects', project[0].id, {
+    changeType: 'update',
+    contentChanged: true,
+    title: titleStr,
+  }, { id: user.id, email: user.email, name: user.name })
+
   // Create notification if published
   if (data.isPublished) {
     await notifyProjectPublished({
@@ -202,6 +218,9 @@ export async function updateProject(id: string, data: {
   // Donation fields
   donationEnabled?: boolean
   donationGoal?: number
+}, options?: {
+  // Revision the editor loaded; the save is refused if someone has saved since
+  baseRevision?: number
 }) {
   const user = await requireAuth()
 
@@ -214,32 +233,18 @@ export async function updateProject(id: string, data: {
     return { success: false, error: 'Project not found' }
   }
 
+  const baseRevision = options?.baseRevision
+  if (baseRevision !== undefined && existing.revision !== baseRevision) {
+    const conflict = await getEditConflict('projects', existing)
+    return { success: false, conflict, error: 'This project was changed by someone else since you opened it' }
+  }
+
   // Determine change type
   let changeType: 'update' | 'publish' | 'unpublish' = 'update'
   if (data.isPublished !== undefined && data.isPublished !== existing.isPublished) {
     changeType = data.isPublished ? 'publish' : 'unpublish'
   }
 
-  // If donation is being enabled and no category exists, create one
-  let toyyibpayCategoryCode = existing.toyyibpayCategoryCode
-  if (
-    data.donationEnabled &&
-    !existing.toyyibpayCategoryCode &&
-    ToyyibPayService.isConfigured()
-  ) {
-    try {
-      const projectTitle = l(data.title) || l(existing.title)
-      toyyibpayCategoryCode = await ToyyibPayService.createCategory({
-        catname: projectTitle.substring(0, 30),
-        catdescription: `Donations for ${projectTitle}`.substring(0, 100),
-      })
-      console.log(`Created ToyyibPay category for project ${id}: ${toyyibpayCategoryCode}`)
-    } catch (error) {
-      console.error('Failed to create ToyyibPay category:', error)
-      // Don't fail the update, just log the error
-    }
-  }
-
   // Auto-translate any fields that are missing one language
   const fieldsToTranslate: Record<string, LocalizedString | string | null | undefined> = {}
   if (data.title !== undefined) fieldsToTranslate.title = toLocalizedRequired(data.title)
@@ -259,6 +264,7 @@ export async function updateProject(id: string, data: {
   // Prepare update data with LocalizedString conversion
   const updateData: Record<string, unknown> = {
     updatedAt: new Date(),
+    revision: sql`${projects.revision} + 1`,
     ...(data.slug !== undefined && { slug: data.slug }),
     ...(data.title !== undefined && { title: translated.title || toLocalizedRequired(data.title) }),
     ...(data.subtitle !== undefined && { subtitle: translated.subtitle }),
@@ -280,20 +286,87 @@ export async function updateProject(id: string, data: {
     ...(data.donationGoal !== undefined && { donationGoal: data.donationGoal }),
   }
 
-  // Only update category code if we created a new one
-  if (toyyibpayCategoryCode && toyyibpayCategoryCode !== existing.toyyibpayCategoryCode) {
-    updateData.toyyibpayCategoryCode = toyyibpayCategoryCode
+  if (changeType !== 'update') {
+    // If publishing for the first time, set publishedAt
+    if (data.isPublished && !existing.publishedAt) {
+      updateData.publishedAt = new Date()
+    }
+    // A manual publish or unpublish replaces any schedule for it
+    if (data.isPublished) {
+      updateData.scheduledPublishAt = null
+    } else {
+      updateData.scheduledUnpublishAt = null
+    }
+  }
+
+  // Edits held for review while it was live carry over into the draft
+  if (changeType === 'unpublish') {
+    Object.assign(updateData, { ...await getHeldChanges('projects', id), ...updateData })
+  }
+
+  // Edits to a live project wait for approval; the live project only gets a new revision
+  const held = changeType === 'update' && !!existing.isPublished
+
+  const contentChanged = hasContentChanges(existing, updateData)
+  if (changeType === 'publish') {
+    const blocked = await checkPublishAllowed(id, contentChanged)
+    if (blocked) {
+      return { success: false, error: blocked }
+    }
   }
 
-  await db
+  // If donation is being enabled and no category exists, create one
+  let toyyibpayCategoryCode = existing.toyyibpayCategoryCode
+  if (
+    data.donationEnabled &&
+    !existing.toyyibpayCategoryCode &&
+    ToyyibPayService.isConfigured()
+  ) {
+    try {
+      const projectTitle = l(data.title) || l(existing.title)
+      toyyibpayCategoryCode = await ToyyibPayService.createCategory({
+        catname: projectTitle.substring(0, 30),
+        catdescription: `Donations for ${projectTitle}`.substring(0, 100),
+      })
+      console.log(`Created ToyyibPay category for project ${id}: ${toyyibpayCategoryCode}`)
+    } catch (error) {
+      console.error('Failed to create ToyyibPay category:', error)
+      // Don't fail the update, just log the error
+    }
+  }
+
+  // Only update category code if we created a new one. Readers never see
+  // it, so it is saved even while the rest of the edit is held for review.
+  const categoryCreated = !!toyyibpayCategoryCode && toyyibpayCategoryCode !== existing.toyyibpayCategoryCode
+
+  // Checked again in the update itself, in case someone saved while translating
+  const [updated] = await db
     .update(projects)
-    .set(updateData)
-    .where(eq(projects.id, id))
+    .set({
+      ...(held ? { revision: sql`${projects.revision} + 1` } : updateData),
+      ...(categoryCreated && { toyyibpayCategoryCode }),
+    })
+    .where(baseRevision !== undefined
+      ? and(eq(projects.id, id), eq(projects.revision, baseRevision))
+      : eq(projects.id, id))
+    .returning()
+
+  if (!updated) {
+    const current = await db.query.projects.findFirst({
+      where: eq(projects.id, id),
+    })
+    if (!current) {
+      return { success: false, error: 'Project not found' }
+    }
+    const conflict = await getEditConflict('projects', current)
+    return { success: false, conflict, error: 'This project was changed by someone else since you opened it' }
+  }
 
-  // Get updated data
-  const updated = await db.query.projects.findFirst({
-    where: eq(projects.id, id),
-  })
+  if (held) {
+    const pendingReview = await holdLiveEdit('projects', existing, updateData, l(data.title) || l(existing.title),
+      { id: user.id, email: user.email, name: user.name })
+    return { success: true, revision: updated.revision, pendingReview }
+  }
 
   // Create version record
   await createVersion(
@@ -314,6 +387,12 @@ export async function updateProject(id: string, data: {
     user: { id: user.id, email: user.email, name: user.name },
   })
 
+  await recordReviewedSave('projects', id, {
+    changeType,
+    contentChanged,
+    title: l(data.title) || l(existing.title),
+  }, { id: user.id, email: user.email, name: user.name })
+
   // Create notification if published
   if (changeType === 'publish') {
     await notifyProjectPublished({
@@ -329,7 +408,52 @@ export async function updateProject(id: string, data: {
     revalidatePath(`/projects/${data.slug}`)
   }
 
-  return { success: true }
+  return { success: true, revision: updated.revision }
+}
+
+/**
+ * Set when a project goes live and when it comes down (null clears a time).
+ * The scheduled-publishing cron job applies them.
+ */
+export async function setProjectSchedule(id: string, schedule: PublishSchedule) {
+  const user = await requireAuth()
+
+  const existing = await db.query.projects.findFirst({
+    where: eq(projects.id, id),
+  })
+
+  if (!existing) {
+    return { success: false, error: 'Project not found' }
+  }
+
+  const error = validateSchedule(existing, schedule)
+  if (error) {
+    return { success: false, error }
+  }
+
+  const [updated] = await db
+    .update(projects)
+    .set({
+      scheduledPublishAt: schedule.publishAt,
+      scheduledUnpublishAt: schedule.unpublishAt,
+      updatedAt: new Date(),
+      revision: sql`${projects.revision} + 1`,
+    })
+    .where(eq(projects.id, id))
+    .returning({ revision: projects.revision })
+
+  await logActivity('content_schedule', `Updated publishing schedule for project: ${l(existing.title)}`, {
+    contentType: 'projects',
+    contentId: id,
+    contentTitle: l(existing.title),
+    user: { id: user.id, email: user.email, name: user.name },
+    metadata: {
+      publishAt: schedule.publishAt?.toISOString() ?? null,
+      unpublishAt: schedule.unpublishAt?.toISOString() ?? null,
+    },
+  })
+
+  return { success: true, revision: updated?.revision }
 }
 
 export async function deleteProject(id: string) {
@@ -0,0 +1,89 @@
+'use server'
+
+import { requireAuth, getAllowedAdminEmails } from '@/lib/auth/server'
+import {
+  addReviewComment as addComment,
+  getContentReview as getReview,
+  getReviewComments,
+  getReviewers,
+  resolveReviewComment as resolveComment,
+  resolveReviewContentType,
+  reviewContent,
+  type Reviewer,
+} from '@/lib/editorial-review'
+
+/**
+ * Review state, comments and assignable reviewers for the review panel
+ */
+export async function getContentReview(contentType: string, contentId: string) {
+  const user = await requireAuth()
+
+  const review = resolveReviewContentType(contentType) ? await getReview(contentId) : null
+  const [comments, reviewers] = await Promise.all([
+    review ? getReviewComments(review.id) : [],
+    getReviewers(getAllowedAdminEmails()),
+  ])
+
+  return {
+    review,
+    comments,
+    reviewers: reviewers.filter(reviewer => reviewer.email !== user.email.toLowerCase()),
+    currentUserEmail: user.email,
+  }
+}
+
+export async function submitForReview(contentType: string, contentId: string, reviewerEmail?: string | null) {
+  const user = await requireAuth()
+
+  const type = resolveReviewContentType(contentType)
+  if (!type) return { success: false, error: 'Unsupported content type' }
+
+  let reviewer: Reviewer | undefined
+  if (reviewerEmail) {
+    reviewer = (await getReviewers(getAllowedAdminEmails()))
+      .find(candidate => candidate.email === reviewerEmail.toLowerCase())
+    if (!reviewer) return { success: false, error: 'Reviewer must be an admin' }
+  }
+
+  return reviewContent(type, contentId, 'submit', { id: user.id, email: user.email, name: user.name }, { reviewer })
+}
+
+export async function approveContent(contentType: string, contentId: string) {
+  const user = await requireAuth()
+
+  const type = resolveReviewContentType(contentType)
+  if (!type) return { success: false, error: 'Unsupported content type' }
+
+  return reviewContent(type, contentId, 'approve', { id: user.id, email: user.email, name: user.name })
+}
+
+export async function requestChanges(contentType: string, contentId: string, note?: string) {
+  const user = await requireAuth()
+
+  const type = resolveReviewContentType(contentType)
+  if (!type) return { success: false, error: 'Unsupported content type' }
+
+  return reviewContent(type, contentId, 'request_changes', { id: user.id, email: user.email, name: user.name }, { note })
+}
+
+export async function addReviewComment(contentType: string, contentId: string, comment: {
+  field: string | null
+  locale: 'en' | 'ms' | null
+  body: string
+}) {
+  const user = await requireAuth()
+
+  const type = resolveReviewContentType(contentType)
+  if (!type) return { success: false, error: 'Unsupported content type' }
+
+  return addComment(type, contentId, {
+    field: comment.field || null,
+    locale: comment.locale === 'en' || comment.locale === 'ms' ? comment.locale : null,
+    body: String(comment.body || ''),
+  }, { id: user.id, email: user.email, name: user.name })
+}
+
+export async function resolveReviewComment(commentId: string) {
+  const user = await requireAuth()
+  return resolveComment(commentId, { id: user.id, email: user.email, name: user.name })
+}
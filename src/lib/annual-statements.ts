@@ -0,0 +1,210 @@
+/**
+ * Annual Tax Statement Service
+ *
+ * Donors filing their LHDN returns get one consolidated statement per year
+ * listing every completed donation made under their email address. Admins
+ * send statements in bulk after the year closes; each send is recorded in
+ * annual_tax_statements so an interrupted run can be resumed without
+ * emailing anyone twice.
+ */
+
+import { db, annualTaxStatements } from '@/db'
+import { eq } from 'drizzle-orm'
+import {
+  getAnnualStatementData,
+  getAnnualStatementDonors,
+  getAnnualStatementNumber,
+  type AnnualStatementData,
+  type AnnualStatementDonor,
+} from '@/lib/receipt'
+import { sendAnnualStatementEmail } from '@/lib/email'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('AnnualStatement')
+
+// Statements are rendered and emailed one at a time, so keep each request
+// well inside the serverless time limit
+export const ANNUAL_STATEMENT_BATCH_SIZE = 25
+
+export type AnnualStatementSendStatus = 'not_sent' | 'sent' | 'failed' | 'outdated'
+
+export interface AnnualStatementDonorStatus extends AnnualStatementDonor {
+  statementNumber: string
+  status: AnnualStatementSendStatus
+  sentAt: Date | null
+  emailError: string | null
+}
+
+export interface AnnualStatementSendResult {
+  success: boolean
+  error?: string
+  reason?: string
+}
+
+export interface AnnualStatementBatchResult {
+  success: boolean
+  error?: string
+  sent: number
+  failed: number
+  remaining: number
+}
+
+/**
+ * Render a statement to a PDF buffer
+ */
+export async function renderAnnualStatementPdf(data: AnnualStatementData): Promise<Buffer> {
+  const { renderToBuffer } = await import('@react-pdf/renderer')
+  const { AnnualStatementPDF } = await import('@/lib/receipt-pdf')
+  const React = await import('react')
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const element = React.createElement(AnnualStatementPDF as any, { data })
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return renderToBuffer(element as any)
+}
+
+/**
+ * Donors for the year with the state of their statement email. A statement
+ * is 'outdated' when donations were completed or refunded after it was sent.
+ */
+export async function getAnnualStatementDonorStatuses(year: number): Promise<AnnualStatementDonorStatus[]> {
+  const [donors, sends] = await Promise.all([
+    getAnnualStatementDonors(year),
+    db.query.annualTaxStatements.findMany({
+      where: eq(annualTaxStatements.year, year),
+    }),
+  ])
+
+  const sendsByNumber = new Map(sends.map(s => [s.statementNumber, s]))
+
+  return donors.map(donor => {
+    const statementNumber = getAnnualStatementNumber(donor.donorEmail, year)
+    const send = sendsByNumber.get(statementNumber)
+
+    let status: AnnualStatementSendStatus = 'not_sent'
+    if (send?.emailStatus === 'failed') {
+      status = 'failed'
+    } else if (send) {
+      status = send.totalAmount === donor.totalAmount && send.donationCount === donor.donationCount
+        ? 'sent'
+        : 'outdated'
+    }
+
+    return {
+      ...donor,
+      statementNumber,
+      status,
+      sentAt: send?.sentAt || null,
+      emailError: send?.emailError || null,
+    }
+  })
+}
+
+/**
+ * Generate and email one donor's statement, recording the outcome
+ */
+export async function sendAnnualStatement(
+  donorEmail: string,
+  year: number,
+  sentBy: string
+): Promise<AnnualStatementSendResult> {
+  const data = await getAnnualStatementData(donorEmail, year)
+  if (!data) {
+    return { success: false, error: 'No completed donations found for this donor in the year' }
+  }
+
+  const pdfBuffer = await renderAnnualStatementPdf(data)
+
+  const emailResult = await sendAnnualStatementEmail({
+    statementNumber: data.statementNumber,
+    year,
+    donorName: data.donorName,
+    donorEmail: data.donorEmail,
+    totalAmount: data.totalAmount,
+    donationCount: data.donations.length,
+    currency: data.currency,
+    pdfBuffer,
+    organization: data.organization,
+  })
+
+  // Nothing was attempted, so leave the donor as not sent
+  if (emailResult.reason === 'no_api_key') {
+    return { success: false, reason: 'no_api_key', error: 'Email is not configured (RESEND_API_KEY missing)' }
+  }
+
+  const record = {
+    statementNumber: data.statementNumber,
+    year,
+    donorEmail: data.donorEmail,
+    donationCount: data.donations.length,
+    totalAmount: Math.round(data.totalAmount * 100),
+    emailStatus: emailResult.success ? 'sent' : 'failed',
+    emailMessageId: emailResult.messageId || null,
+    emailError: emailResult.success ? null : emailResult.error || emailResult.reason || 'Unknown error',
+    sentBy,
+    sentAt: new Date(),
+  }
+
+  await db
+    .insert(annualTaxStatements)
+    .values(record)
+    .onConflictDoUpdate({
+      target: annualTaxStatements.statementNumber,
+      set: record,
+    })
+
+  if (!emailResult.success) {
+    logger.warn('Annual statement email failed', {
+      statementNumber: data.statementNumber,
+      error: record.emailError,
+    })
+    return { success: false, error: record.emailError || undefined }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Email the next batch of statements that have not been sent yet, or whose
+ * totals changed since they were sent. Failed sends are only retried when
+ * asked, so a bad address cannot stall the run.
+ */
+export async function sendAnnualStatementBatch(
+  year: number,
+  sentBy: string,
+  options: { retryFailed?: boolean; limit?: number } = {}
+): Promise<AnnualStatementBatchResult> {
+  const limit = options.limit || ANNUAL_STATEMENT_BATCH_SIZE
+  const statuses = await getAnnualStatementDonorStatuses(year)
+  const queue = statuses.filter(s =>
+    s.status === 'not_sent' || s.status === 'outdated' || (options.retryFailed && s.status === 'failed')
+  )
+
+  let sent = 0
+  let failed = 0
+
+  for (const donor of queue.slice(0, limit)) {
+    try {
+      const result = await sendAnnualStatement(donor.donorEmail, year, sentBy)
+
+      if (result.reason === 'no_api_key') {
+        return { success: false, error: result.error, sent, failed, remaining: queue.length - sent - failed }
+      }
+
+      if (result.success) {
+        sent++
+      } else {
+        failed++
+      }
+    } catch (error) {
+      failed++
+      logger.error('Failed to generate annual statement', {
+        statementNumber: donor.statementNumber,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  logger.info('Annual statement batch sent', { year, sent, failed, sentBy })
+
+  return { success: true, sent, failed, remaining: queue.length - sent - failed }
+}
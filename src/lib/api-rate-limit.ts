@@ -234,6 +234,22 @@ export const RateLimiters = {
       message: 'Too many donation attempts. Please wait before trying again.',
     }),
 
+  // Fundraiser pages: 3 per hour (each one is reviewed by hand)
+  fundraiserCreate: (request: NextRequest) =>
+    checkRateLimit(request, {
+      maxRequests: 3,
+      windowMs: 60 * 60 * 1000,
+      message: 'Too many fundraiser submissions. Please wait before trying again.',
+    }),
+
+  // Donor portal sign-in links: 5 per 15 minutes
+  donorLogin: (request: NextRequest) =>
+    checkRateLimit(request, {
+      maxRequests: 5,
+      windowMs: 15 * 60 * 1000,
+      message: 'Too many sign-in requests. Please wait before trying again.',
+    }),
+
   // Test endpoints: 3 per minute
   testEndpoint: (request: NextRequest) =>
     checkRateLimit(request, {
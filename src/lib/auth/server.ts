@@ -30,7 +30,7 @@ export async function getSession() {
 /**
  * Get list of allowed admin emails from environment variable
  */
-function getAllowedAdminEmails(): string[] {
+export function getAllowedAdminEmails(): string[] {
   const emails = process.env.ALLOWED_ADMIN_EMAILS || ''
   return emails.split(',').map(email => email.trim().toLowerCase()).filter(Boolean)
 }
@@ -0,0 +1,404 @@
+/**
+ * Bank Statement Import Service
+ *
+ * Finance uploads the monthly Maybank/CIMB statement; each credit line is
+ * then resolved one at a time by an admin:
+ *
+ * - match:  completes the pending online donation, or approves the offline
+ *           donation, that the transfer paid for
+ * - create: records a new offline bank transfer donation from the line
+ *           (still approved by a second admin like any offline entry)
+ * - ignore: not a donation (interest, internal transfer, ...)
+ *
+ * Every resolution is written to donationLogs against the donation.
+ */
+
+import { db, bankStatementImports, donations, donationLogs, projects, type BankStatementLine } from '@/db'
+import { and, eq, gte, inArray, sql } from 'drizzle-orm'
+import { assignReceiptNumber } from '@/lib/receipt'
+import { recordIssuedReceipt } from '@/lib/receipt-register'
+import { onSubscriptionPaymentCompleted } from '@/lib/subscriptions'
+import { onFundraiserDonationCompleted } from '@/lib/fundraisers'
+import { onTributeDonationCompleted } from '@/lib/tributes'
+import {
+  OFFLINE_PAYMENT_GATEWAY,
+  approveOfflineDonation,
+  emailDonationReceipt,
+  recordOfflineDonation,
+} from '@/lib/offline-donations'
+import { createLogger } from '@/lib/logger'
+import { parseBankStatementCsv, BankStatementParseError } from './parser'
+import { suggestMatches, type MatchCandidate, type MatchSuggestion } from './matching'
+
+export * from './parser'
+export * from './matching'
+
+const logger = createLogger('BankStatement')
+
+// Donations that can still be paid by a bank transfer
+const MATCHABLE_STATUSES = ['pending', 'awaiting_approval']
+const CANDIDATE_WINDOW_DAYS = 120
+
+export type StatementLineAction = 'match' | 'create' | 'ignore'
+
+export interface ResolveLineRequest {
+  importId: string
+  row: number
+  action: StatementLineAction
+  resolvedBy: string
+  donationReference?: string // For 'match'
+  donorName?: string // For 'create'
+  donorEmail?: string | null
+  projectId?: string | null
+  sendReceipt?: boolean
+}
+
+export interface ResolveLineResult {
+  success: boolean
+  error?: string
+  donationId?: string
+  paymentReference?: string | null
+  message?: string
+}
+
+async function logStatementEvent(donationId: string, eventType: string, eventData: Record<string, unknown>) {
+  try {
+    await db.insert(donationLogs).values({
+      donationId,
+      eventType,
+      eventData,
+      ipAddress: 'admin',
+      userAgent: 'Admin-Dashboard',
+    })
+  } catch (error) {
+    logger.error('Failed to log bank statement event', {
+      donationId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
+
+/**
+ * Parse and store a statement. Throws BankStatementParseError for files
+ * that are not a readable bank statement.
+ */
+export async function importBankStatement(params: {
+  text: string
+  fileName: string | null
+  importedBy: string
+}) {
+  const parsed = parseBankStatementCsv(params.text)
+
+  if (parsed.transactions.length === 0) {
+    throw new BankStatementParseError('No incoming transfers were found in this statement')
+  }
+
+  const lines: BankStatementLine[] = parsed.transactions.map(tx => ({
+    row: tx.row,
+    date: tx.date.toISOString(),
+    description: tx.description,
+    reference: tx.reference,
+    amount: tx.amount,
+    status: 'unmatched',
+    donationId: null,
+    resolvedBy: null,
+    resolvedAt: null,
+  }))
+
+  const [created] = await db
+    .insert(bankStatementImports)
+    .values({
+      bank: parsed.bank,
+      fileName: params.fileName,
+      importedBy: params.importedBy,
+      lineCount: lines.length,
+      skippedCount: parsed.skippedRows,
+      lines,
+    })
+    .returning({ id: bankStatementImports.id })
+
+  logger.info('Bank statement imported', {
+    importId: created.id,
+    bank: parsed.bank,
+    lineCount: lines.length,
+    skippedRows: parsed.skippedRows,
+  })
+
+  return { importId: created.id, bank: parsed.bank, lineCount: lines.length, skippedCount: parsed.skippedRows }
+}
+
+/**
+ * Pending and offline donations from the last few months, as match candidates
+ */
+export async function getMatchCandidates(): Promise<MatchCandidate[]> {
+  const since = new Date(Date.now() - CANDIDATE_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  const rows = await db.query.donations.findMany({
+    where: and(
+      inArray(donations.paymentStatus, MATCHABLE_STATUSES),
+      eq(donations.environment, 'production'),
+      gte(donations.createdAt, since)
+    ),
+    columns: {
+      id: true,
+      paymentReference: true,
+      offlineReference: true,
+      donorName: true,
+      amount: true,
+      paymentStatus: true,
+      receivedAt: true,
+      createdAt: true,
+    },
+  })
+
+  return rows.map(row => ({
+    id: row.id,
+    paymentReference: row.paymentReference,
+    offlineReference: row.offlineReference,
+    donorName: row.donorName,
+    amount: row.amount,
+    paymentStatus: row.paymentStatus,
+    date: row.receivedAt || row.createdAt,
+  }))
+}
+
+/**
+ * Suggested donations for each unmatched line of an import, keyed by row
+ */
+export function suggestMatchesForLines(
+  lines: BankStatementLine[],
+  candidates: MatchCandidate[]
+): Record<number, MatchSuggestion[]> {
+  const suggestions: Record<number, MatchSuggestion[]> = {}
+  for (const line of lines) {
+    if (line.status !== 'unmatched') continue
+    suggestions[line.row] = suggestMatches({ ...line, date: new Date(line.date) }, candidates)
+  }
+  return suggestions
+}
+
+/**
+ * Update one line of an import in place. With `expectedStatus` the update
+ * only applies if the line is still in that state, so two admins can never
+ * resolve the same line twice.
+ */
+async function updateLine(
+  importId: string,
+  index: number,
+  patch: Partial<BankStatementLine>,
+  expectedStatus?: BankStatementLine['status']
+): Promise<boolean> {
+  const [updated] = await db
+    .update(bankStatementImports)
+    .set({
+      lines: sql`jsonb_set(${bankStatementImports.lines}, ${`{${index}}`}::text[], (${bankStatementImports.lines} -> ${index}::int) || ${JSON.stringify(patch)}::jsonb)`,
+    })
+    .where(and(
+      eq(bankStatementImports.id, importId),
+      expectedStatus
+        ? sql`${bankStatementImports.lines} -> ${index}::int ->> 'status' = ${expectedStatus}`
+        : undefined
+    ))
+    .returning({ id: bankStatementImports.id })
+
+  return !!updated
+}
+
+/**
+ * Complete a pending online donation that was paid by bank transfer instead
+ */
+async function completePendingDonation(
+  donation: typeof donations.$inferSelect,
+  line: BankStatementLine,
+  importId: string,
+  resolvedBy: string,
+  sendReceipt: boolean
+): Promise<ResolveLineResult> {
+  const receiptNumber = await assignReceiptNumber(
+    and(
+      eq(donations.id, donation.id),
+      eq(donations.paymentStatus, 'pending')
+    ),
+    {
+      paymentStatus: 'completed',
+      paymentMethod: 'bank_transfer',
+      offlineReference: line.reference,
+      receivedAt: new Date(line.date),
+      completedAt: new Date(line.date),
+      completionRecordedAt: new Date(),
+      failureReason: null,
+      reviewedBy: resolvedBy,
+      reviewedAt: new Date(),
+      bankStatementImportId: importId,
+    }
+  )
+
+  if (!receiptNumber) {
+    return { success: false, error: 'Donation changed while it was being matched. Please refresh and try again.' }
+  }
+
+  if (donation.paymentReference) {
+    await recordIssuedReceipt(donation.paymentReference, resolvedBy)
+  }
+
+  if (donation.projectId) {
+    await db
+      .update(projects)
+      .set({
+        donationRaised: sql`COALESCE(donation_raised, 0) + ${donation.amount}`,
+      })
+      .where(eq(projects.id, donation.projectId))
+  }
+
+  await onSubscriptionPaymentCompleted(donation)
+  await onFundraiserDonationCompleted(donation)
+  await onTributeDonationCompleted(donation)
+
+  if (sendReceipt && donation.donorEmail && donation.paymentReference) {
+    await emailDonationReceipt(donation.id, donation.paymentReference, 'bank_statement')
+  }
+
+  return {
+    success: true,
+    donationId: donation.id,
+    paymentReference: donation.paymentReference,
+    message: `Donation completed with receipt ${receiptNumber}`,
+  }
+}
+
+async function matchLine(request: ResolveLineRequest, line: BankStatementLine): Promise<ResolveLineResult> {
+  if (!request.donationReference) {
+    return { success: false, error: 'Choose a donation to match' }
+  }
+
+  const donation = await db.query.donations.findFirst({
+    where: eq(donations.paymentReference, request.donationReference),
+  })
+
+  if (!donation) {
+    return { success: false, error: 'Donation not found' }
+  }
+
+  if (donation.amount !== line.amount) {
+    return {
+      success: false,
+      error: `Statement amount RM ${(line.amount / 100).toFixed(2)} does not match the donation amount RM ${(donation.amount / 100).toFixed(2)}`,
+    }
+  }
+
+  if (donation.paymentGateway === OFFLINE_PAYMENT_GATEWAY && donation.paymentStatus === 'awaiting_approval') {
+    const result = await approveOfflineDonation(donation.paymentReference!, request.resolvedBy, {
+      sendReceipt: request.sendReceipt !== false,
+    })
+    if (!result.success) return result
+
+    await db
+      .update(donations)
+      .set({ bankStatementImportId: request.importId })
+      .where(eq(donations.id, donation.id))
+
+    return { ...result, message: `Offline donation approved with receipt ${result.receiptNumber}` }
+  }
+
+  if (donation.paymentStatus === 'pending') {
+    return completePendingDonation(donation, line, request.importId, request.resolvedBy, request.sendReceipt !== false)
+  }
+
+  return { success: false, error: `Donation cannot be matched (current status: ${donation.paymentStatus})` }
+}
+
+async function createFromLine(request: ResolveLineRequest, line: BankStatementLine): Promise<ResolveLineResult> {
+  if (!request.donorName?.trim()) {
+    return { success: false, error: 'Donor name is required to create a donation' }
+  }
+
+  const result = await recordOfflineDonation({
+    donorName: request.donorName.trim(),
+    donorEmail: request.donorEmail || null,
+    amount: line.amount,
+    projectId: request.projectId || null,
+    paymentMethod: 'bank_transfer',
+    offlineReference: line.reference,
+    receivedAt: new Date(line.date),
+    message: line.description || null,
+    recordedBy: request.resolvedBy,
+    bankStatementImportId: request.importId,
+  })
+
+  if (!result.success) return result
+  return { ...result, message: 'Offline donation created and sent for approval' }
+}
+
+/**
+ * Resolve one statement line by matching it, creating a donation from it or ignoring it
+ */
+export async function resolveStatementLine(request: ResolveLineRequest): Promise<ResolveLineResult> {
+  const statement = await db.query.bankStatementImports.findFirst({
+    where: eq(bankStatementImports.id, request.importId),
+  })
+
+  if (!statement) {
+    return { success: false, error: 'Statement import not found' }
+  }
+
+  const index = statement.lines.findIndex(line => line.row === request.row)
+  const line = statement.lines[index]
+  if (!line) {
+    return { success: false, error: 'Statement line not found' }
+  }
+
+  const status: BankStatementLine['status'] =
+    request.action === 'match' ? 'matched' : request.action === 'create' ? 'created' : 'ignored'
+
+  // Claim the line first so it can only be resolved once
+  const claimed = await updateLine(request.importId, index, {
+    status,
+    resolvedBy: request.resolvedBy,
+    resolvedAt: new Date().toISOString(),
+  }, 'unmatched')
+
+  if (!claimed) {
+    return { success: false, error: 'This line has already been resolved' }
+  }
+
+  if (request.action === 'ignore') {
+    return { success: true, message: 'Line ignored' }
+  }
+
+  let result: ResolveLineResult
+  try {
+    result = request.action === 'match'
+      ? await matchLine(request, line)
+      : await createFromLine(request, line)
+  } catch (error) {
+    result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+
+  if (!result.success || !result.donationId) {
+    // Release the line so it can be resolved again
+    await updateLine(request.importId, index, { status: 'unmatched', resolvedBy: null, resolvedAt: null })
+    return result
+  }
+
+  await updateLine(request.importId, index, { donationId: result.donationId })
+
+  await logStatementEvent(result.donationId, request.action === 'match' ? 'bank_statement_matched' : 'bank_statement_created', {
+    importId: request.importId,
+    bank: statement.bank,
+    row: line.row,
+    statementDate: line.date,
+    statementAmount: line.amount / 100,
+    statementReference: line.reference,
+    statementDescription: line.description,
+    resolvedBy: request.resolvedBy,
+  })
+
+  logger.info('Bank statement line resolved', {
+    importId: request.importId,
+    row: line.row,
+    action: request.action,
+    donationId: result.donationId,
+  })
+
+  return result
+}
@@ -0,0 +1,126 @@
+/**
+ * Bank Statement Matching
+ *
+ * Suggests which pending or offline donation a bank credit belongs to.
+ * A YIP payment reference (or the offline bank reference) in the statement
+ * line is decisive; otherwise candidates need the exact amount and are
+ * ranked by how close the dates are and whether the donor's name appears
+ * in the transaction description.
+ */
+
+export interface MatchCandidate {
+  id: string
+  paymentReference: string | null
+  offlineReference: string | null
+  donorName: string | null
+  amount: number // In cents
+  paymentStatus: string | null
+  date: Date // When the money was received (offline) or the donation was started
+}
+
+export interface StatementLineForMatching {
+  date: Date
+  description: string
+  reference: string | null
+  amount: number // In cents
+}
+
+export interface MatchSuggestion {
+  donationId: string
+  paymentReference: string | null
+  score: number // 0-100
+  reasons: string[]
+}
+
+// Bank credits for transfers made after the donation was started
+// normally land within a few days
+const MAX_DAYS_APART = 7
+const MIN_SCORE = 35
+
+const PAYMENT_REFERENCE_PATTERN = /YIP-?\d{10,}-?[A-Z0-9]{6}/gi
+
+function normalizeReference(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+/**
+ * YIP payment references mentioned in a statement line. Banks often drop
+ * the dashes or truncate long recipient references, so compare without them.
+ */
+export function extractPaymentReferences(line: StatementLineForMatching): string[] {
+  const text = `${line.reference || ''} ${line.description}`
+  return (text.match(PAYMENT_REFERENCE_PATTERN) || []).map(normalizeReference)
+}
+
+function nameTokens(name: string | null): string[] {
+  return (name || '')
+    .toUpperCase()
+    .split(/[^A-Z]+/)
+    .filter(token => token.length >= 3 && !['BIN', 'BINTI', 'BTE'].includes(token))
+}
+
+export function scoreCandidate(line: StatementLineForMatching, candidate: MatchCandidate): MatchSuggestion | null {
+  const reasons: string[] = []
+  let score = 0
+
+  const lineReferences = extractPaymentReferences(line)
+  const lineText = normalizeReference(`${line.reference || ''} ${line.description}`)
+
+  if (candidate.paymentReference && lineReferences.includes(normalizeReference(candidate.paymentReference))) {
+    score += 60
+    reasons.push('Payment reference')
+  } else if (candidate.offlineReference && normalizeReference(candidate.offlineReference).length >= 4 &&
+    lineText.includes(normalizeReference(candidate.offlineReference))) {
+    score += 50
+    reasons.push('Bank reference')
+  }
+
+  const referenceMatched = score > 0
+  if (candidate.amount === line.amount) {
+    score += 30
+    reasons.push('Amount')
+  } else if (!referenceMatched) {
+    return null
+  }
+
+  const daysApart = Math.abs(line.date.getTime() - candidate.date.getTime()) / (24 * 60 * 60 * 1000)
+  if (daysApart <= MAX_DAYS_APART) {
+    // Full marks on the same day, fading out over the window
+    score += Math.round(20 * (1 - daysApart / MAX_DAYS_APART))
+    reasons.push(daysApart < 1 ? 'Same day' : `${Math.round(daysApart)} day(s) apart`)
+  } else if (!referenceMatched) {
+    return null
+  }
+
+  const description = line.description.toUpperCase()
+  const matchedTokens = nameTokens(candidate.donorName).filter(token => description.includes(token))
+  if (matchedTokens.length > 0) {
+    score += Math.min(20, matchedTokens.length * 10)
+    reasons.push('Donor name')
+  }
+
+  score = Math.min(100, score)
+  if (score < MIN_SCORE) return null
+
+  return {
+    donationId: candidate.id,
+    paymentReference: candidate.paymentReference,
+    score,
+    reasons,
+  }
+}
+
+/**
+ * Rank the donations a statement line could belong to, best first
+ */
+export function suggestMatches(
+  line: StatementLineForMatching,
+  candidates: MatchCandidate[],
+  limit = 3
+): MatchSuggestion[] {
+  return candidates
+    .map(candidate => scoreCandidate(line, candidate))
+    .filter((suggestion): suggestion is MatchSuggestion => suggestion !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
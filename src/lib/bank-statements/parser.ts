@@ -0,0 +1,255 @@
+/**
+ * Bank Statement CSV Parser
+ *
+ * Reads the CSV statements downloaded from Malaysian internet banking and
+ * returns the incoming (credit) transactions. Column layouts differ between
+ * banks and account types, so columns are found by their header names:
+ *
+ * - Maybank2u / M2U Biz: "Transaction Date", "Transaction Description",
+ *   "Transaction Amount" with a trailing +/- (or CR/DR)
+ * - CIMB Clicks / BizChannel: "Post Date" or "Transaction Date",
+ *   "Description", "Cheque/Ref No", "Withdrawal"/"Debit" and
+ *   "Deposit"/"Credit" columns
+ * - Anything else with recognisable date, description and amount columns
+ *
+ * Banks put account details above the header row, so leading lines are
+ * skipped until a header is found.
+ */
+
+export type BankFormat = 'maybank' | 'cimb' | 'generic'
+
+export interface BankStatementTransaction {
+  row: number // 1-based row number in the CSV
+  date: Date
+  description: string
+  reference: string | null
+  amount: number // In cents, always positive (credits only)
+}
+
+export interface ParsedBankStatement {
+  bank: BankFormat
+  transactions: BankStatementTransaction[]
+  skippedRows: number // Debits, blanks and rows that could not be read
+}
+
+export class BankStatementParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BankStatementParseError'
+  }
+}
+
+const HEADER_ALIASES = {
+  date: ['transaction date', 'trans date', 'date', 'post date', 'posting date', 'entry date', 'value date', 'txn date'],
+  description: ['transaction description', 'description', 'particulars', 'details', 'transaction details', 'narrative'],
+  reference: ['cheque/ref no', 'cheque / ref no', 'reference no', 'reference', 'ref no', 'reference 1', 'recipient reference', 'payment reference'],
+  credit: ['credit', 'deposit', 'deposit amount', 'credit amount', 'deposits', 'credit (rm)', 'deposit (rm)'],
+  debit: ['debit', 'withdrawal', 'withdrawal amount', 'debit amount', 'withdrawals', 'debit (rm)', 'withdrawal (rm)'],
+  amount: ['transaction amount', 'amount', 'amount (rm)', 'txn amount'],
+} as const
+
+type Column = keyof typeof HEADER_ALIASES
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+}
+
+/**
+ * Split CSV text into rows, honouring quoted fields
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field.trim())
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field.trim())
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field.trim())
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function normalizeHeader(value: string): string {
+  return value.replace(/^\uFEFF/, '').toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function findColumns(header: string[]): Partial<Record<Column, number>> {
+  const normalized = header.map(normalizeHeader)
+  const columns: Partial<Record<Column, number>> = {}
+
+  for (const column of Object.keys(HEADER_ALIASES) as Column[]) {
+    // Prefer the most specific alias (listed first) over generic ones
+    for (const alias of HEADER_ALIASES[column]) {
+      const index = normalized.indexOf(alias)
+      if (index !== -1 && !Object.values(columns).includes(index)) {
+        columns[column] = index
+        break
+      }
+    }
+  }
+
+  return columns
+}
+
+function detectBank(header: string[]): BankFormat {
+  const normalized = header.map(normalizeHeader)
+  if (normalized.includes('transaction amount') && normalized.includes('transaction description')) {
+    return 'maybank'
+  }
+  if (normalized.includes('cheque/ref no') || normalized.includes('post date') ||
+    (normalized.includes('withdrawal') && normalized.includes('deposit'))) {
+    return 'cimb'
+  }
+  return 'generic'
+}
+
+/**
+ * Parse dates as printed by Malaysian banks: 05/01/2026, 05-01-2026,
+ * 05 Jan 2026, 05-Jan-26 and ISO 2026-01-05. Day comes before month.
+ */
+export function parseStatementDate(value: string): Date | null {
+  const trimmed = value.trim()
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (match) {
+    return buildDate(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10))
+  }
+
+  match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/)
+  if (match) {
+    return buildDate(expandYear(match[3]), parseInt(match[2], 10) - 1, parseInt(match[1], 10))
+  }
+
+  match = trimmed.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2,4})$/)
+  if (match && MONTHS[match[2].toLowerCase()] !== undefined) {
+    return buildDate(expandYear(match[3]), MONTHS[match[2].toLowerCase()], parseInt(match[1], 10))
+  }
+
+  return null
+}
+
+function expandYear(value: string): number {
+  const year = parseInt(value, 10)
+  return value.length === 2 ? 2000 + year : year
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month, day))
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null
+}
+
+/**
+ * Parse an amount such as "1,250.00", "RM 50.00", "50.00+", "50.00 CR",
+ * "(20.00)" or "-20.00" into signed cents
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim().toUpperCase().replace(/^RM\s*/, '').replace(/,/g, '')
+  if (!text) return null
+
+  let sign = 1
+  if (/(\+|CR)$/.test(text)) {
+    text = text.replace(/\s*(\+|CR)$/, '')
+  } else if (/(-|DR)$/.test(text)) {
+    sign = -1
+    text = text.replace(/\s*(-|DR)$/, '')
+  }
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1
+    text = text.slice(1, -1)
+  }
+  if (text.startsWith('-')) {
+    sign = -sign
+    text = text.slice(1)
+  } else if (text.startsWith('+')) {
+    text = text.slice(1)
+  }
+
+  if (!/^\d+(\.\d{1,2})?$/.test(text)) return null
+  return sign * Math.round(parseFloat(text) * 100)
+}
+
+/**
+ * Parse a bank statement CSV and return its credit transactions
+ */
+export function parseBankStatementCsv(text: string): ParsedBankStatement {
+  const rows = parseCsvRows(text)
+
+  const headerIndex = rows.findIndex(row => {
+    const columns = findColumns(row)
+    return columns.date !== undefined &&
+      (columns.amount !== undefined || columns.credit !== undefined)
+  })
+
+  if (headerIndex === -1) {
+    throw new BankStatementParseError(
+      'Could not find the statement columns. Expected a header row with a date and an amount or credit column.'
+    )
+  }
+
+  const header = rows[headerIndex]
+  const columns = findColumns(header)
+  const transactions: BankStatementTransaction[] = []
+  let skippedRows = 0
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i]
+    if (row.every(cell => !cell)) continue
+
+    const cell = (column: Column) => {
+      const index = columns[column]
+      return index !== undefined ? (row[index] || '') : ''
+    }
+
+    const date = parseStatementDate(cell('date'))
+    // Credit column when the bank splits debits and credits, otherwise a signed amount
+    const amount = columns.credit !== undefined
+      ? parseStatementAmount(cell('credit'))
+      : parseStatementAmount(cell('amount'))
+
+    if (!date || !amount || amount <= 0) {
+      skippedRows++
+      continue
+    }
+
+    transactions.push({
+      row: i + 1,
+      date,
+      description: cell('description'),
+      reference: cell('reference') || null,
+      amount,
+    })
+  }
+
+  return { bank: detectBank(header), transactions, skippedRows }
+}
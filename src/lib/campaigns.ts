@@ -0,0 +1,175 @@
+/**
+ * Fundraising Campaigns
+ *
+ * A campaign is a time-boxed appeal (Ramadan, year-end) with its own goal,
+ * covering the General Fund and any linked projects. Donations are attributed
+ * to a campaign when they are created. Progress is summed from completed
+ * donations rather than kept as a running total, so refunds and late
+ * confirmations are always reflected. Sponsor matching is reported
+ * separately from what donors gave.
+ */
+
+import { db, campaigns, donations, projects, type CampaignMatchingRule } from '@/db'
+import { and, asc, eq, gte, inArray, lte, sql } from 'drizzle-orm'
+
+export type Campaign = typeof campaigns.$inferSelect
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export type CampaignPhase = 'upcoming' | 'active' | 'ended'
+
+export interface CampaignMatch extends CampaignMatchingRule {
+  matched: number // In cents
+}
+
+// All amounts in cents
+export interface CampaignProgress {
+  raised: number // Given by donors
+  matched: number // Pledged by sponsors against what donors gave
+  total: number
+  goal: number
+  percent: number
+  donationCount: number
+  donorCount: number
+  matches: CampaignMatch[]
+}
+
+export function getCampaignPhase(
+  campaign: Pick<Campaign, 'startsAt' | 'endsAt'>,
+  now = new Date()
+): CampaignPhase {
+  if (now < campaign.startsAt) return 'upcoming'
+  if (now > campaign.endsAt) return 'ended'
+  return 'active'
+}
+
+/**
+ * Whether a donation to `projectId` (null = General Fund) counts towards
+ * the campaign
+ */
+export function campaignAcceptsProject(
+  campaign: Pick<Campaign, 'projectIds'>,
+  projectId: string | null
+): boolean {
+  if (!projectId) return true
+  return (campaign.projectIds || []).includes(projectId)
+}
+
+/**
+ * What each sponsor owes for `raised` cents of donations. Each rule matches
+ * every donation at its ratio until its cap is reached.
+ */
+export function calculateMatching(raised: number, rules: CampaignMatchingRule[]): CampaignMatch[] {
+  return rules.map(rule => ({
+    ...rule,
+    matched: Math.max(0, Math.min(rule.cap, Math.round(raised * rule.ratio))),
+  }))
+}
+
+export function buildCampaignProgress(
+  campaign: Pick<Campaign, 'goal' | 'matchingRules'>,
+  totals: { raised: number; donationCount: number; donorCount: number }
+): CampaignProgress {
+  const matches = calculateMatching(totals.raised, campaign.matchingRules || [])
+  const matched = matches.reduce((sum, match) => sum + match.matched, 0)
+  const total = totals.raised + matched
+
+  return {
+    ...totals,
+    matched,
+    total,
+    goal: campaign.goal,
+    percent: campaign.goal > 0 ? Math.min(100, (total / campaign.goal) * 100) : 0,
+    matches,
+  }
+}
+
+/**
+ * Progress towards the campaign goal. Donor totals are net of refunds and
+ * leave out sandbox payments.
+ */
+export async function getCampaignProgress(campaign: Campaign): Promise<CampaignProgress> {
+  const [totals] = await db
+    .select({
+      raised: sql<number>`COALESCE(SUM(${donations.amount} - COALESCE(${donations.refundedAmount}, 0)), 0)`,
+      donationCount: sql<number>`COUNT(*)`,
+      donorCount: sql<number>`COUNT(DISTINCT COALESCE(LOWER(${donations.donorEmail}), ${donations.id}::text))`,
+    })
+    .from(donations)
+    .where(and(
+      eq(donations.campaignId, campaign.id),
+      eq(donations.paymentStatus, 'completed'),
+      eq(donations.environment, 'production')
+    ))
+
+  return buildCampaignProgress(campaign, {
+    raised: Number(totals?.raised || 0),
+    donationCount: Number(totals?.donationCount || 0),
+    donorCount: Number(totals?.donorCount || 0),
+  })
+}
+
+export async function getPublishedCampaign(slug: string): Promise<Campaign | undefined> {
+  return db.query.campaigns.findFirst({
+    where: and(eq(campaigns.slug, slug), eq(campaigns.isPublished, true)),
+  })
+}
+
+/**
+ * Linked projects that are published and accepting donations
+ */
+export async function getCampaignProjects(campaign: Campaign) {
+  const projectIds = campaign.projectIds || []
+  if (projectIds.length === 0) return []
+
+  return db.query.projects.findMany({
+    where: and(
+      inArray(projects.id, projectIds),
+      eq(projects.isPublished, true),
+      eq(projects.donationEnabled, true)
+    ),
+    columns: {
+      id: true,
+      slug: true,
+      title: true,
+      description: true,
+      featuredImage: true,
+    },
+  })
+}
+
+/**
+ * The campaign a new donation should be attributed to. A campaign chosen by
+ * the donor is used if it is running and covers the project; otherwise a
+ * project donation falls under the running campaign that links the project,
+ * ending soonest first.
+ */
+export async function resolveDonationCampaign(
+  campaignId: string | null | undefined,
+  projectId: string | null,
+  at = new Date()
+): Promise<string | null> {
+  const running = and(
+    eq(campaigns.isPublished, true),
+    lte(campaigns.startsAt, at),
+    gte(campaigns.endsAt, at)
+  )
+
+  if (campaignId && UUID_PATTERN.test(campaignId)) {
+    const campaign = await db.query.campaigns.findFirst({
+      where: and(eq(campaigns.id, campaignId), running),
+    })
+    if (campaign && campaignAcceptsProject(campaign, projectId)) {
+      return campaign.id
+    }
+  }
+
+  if (!projectId) return null
+
+  const active = await db.query.campaigns.findMany({
+    where: running,
+    orderBy: [asc(campaigns.endsAt)],
+  })
+
+  return active.find(campaign => (campaign.projectIds || []).includes(projectId))?.id || null
+}
@@ -0,0 +1,112 @@
+/**
+ * Content Merge
+ *
+ * Three-way merge for the blog and project editors. When a save is refused
+ * because someone else saved first, the editor merges its own changes and
+ * theirs against the copy it originally loaded. Fields only one side
+ * changed are merged automatically; each language of a LocalizedString
+ * field is merged on its own, so an English edit and a BM edit to the same
+ * field never clash. Fields both sides changed differently are conflicts
+ * for the editor to settle.
+ */
+
+import { locales, type Locale } from '@/i18n/config'
+import { isLocalizedValue } from '@/lib/version-diff'
+
+export interface MergeConflict {
+  key: string // Unique per field and language, for keeping track of choices
+  field: string
+  locale: Locale | null // null for fields that are not localized
+  mine: unknown
+  theirs: unknown
+}
+
+export interface MergeResult<T> {
+  merged: T // Conflicts keep this editor's value until resolved
+  conflicts: MergeConflict[]
+}
+
+export type ConflictChoice = 'mine' | 'theirs'
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+const conflictKey = (field: string, locale: Locale | null) =>
+  locale ? `${field}.${locale}` : field
+
+// Take whichever side changed, or null if both changed it differently
+function mergeValue<V>(base: V, mine: V, theirs: V): { value: V } | null {
+  if (sameValue(mine, theirs) || sameValue(theirs, base)) return { value: mine }
+  if (sameValue(mine, base)) return { value: theirs }
+  return null
+}
+
+/**
+ * Merge `mine` and `theirs`, both edited from `base`
+ */
+export function mergeContent<T extends Record<string, unknown>>(base: T, mine: T, theirs: T): MergeResult<T> {
+  const merged: Record<string, unknown> = { ...mine }
+  const conflicts: MergeConflict[] = []
+  const fields = [...new Set([...Object.keys(mine), ...Object.keys(theirs)])]
+
+  for (const field of fields) {
+    const baseValue = base[field]
+    const mineValue = mine[field]
+    const theirsValue = theirs[field]
+
+    if (isLocalizedValue(mineValue) && isLocalizedValue(theirsValue)) {
+      const baseLocalized = isLocalizedValue(baseValue) ? baseValue : {}
+      const mergedLocalized: Partial<Record<Locale, string>> = { ...mineValue }
+      for (const locale of locales) {
+        const result = mergeValue(baseLocalized[locale] ?? '', mineValue[locale] ?? '', theirsValue[locale] ?? '')
+        if (result) {
+          mergedLocalized[locale] = result.value
+        } else {
+          conflicts.push({
+            key: conflictKey(field, locale),
+            field,
+            locale,
+            mine: mineValue[locale] ?? '',
+            theirs: theirsValue[locale] ?? '',
+          })
+        }
+      }
+      merged[field] = mergedLocalized
+      continue
+    }
+
+    const result = mergeValue(baseValue, mineValue, theirsValue)
+    if (result) {
+      merged[field] = result.value
+    } else {
+      conflicts.push({ key: conflictKey(field, null), field, locale: null, mine: mineValue, theirs: theirsValue })
+    }
+  }
+
+  return { merged: merged as T, conflicts }
+}
+
+/**
+ * The merged content with each conflict settled as chosen. Conflicts
+ * without a choice keep this editor's value.
+ */
+export function resolveMerge<T extends Record<string, unknown>>(
+  { merged, conflicts }: MergeResult<T>,
+  choices: Record<string, ConflictChoice>
+): T {
+  const resolved: Record<string, unknown> = { ...merged }
+
+  for (const conflict of conflicts) {
+    if (choices[conflict.key] !== 'theirs') continue
+    if (conflict.locale) {
+      resolved[conflict.field] = {
+        ...(resolved[conflict.field] as Record<string, unknown>),
+        [conflict.locale]: conflict.theirs,
+      }
+    } else {
+      resolved[conflict.field] = conflict.theirs
+    }
+  }
+
+  return resolved as T
+}
@@ -0,0 +1,419 @@
+/**
+ * Donation Analytics
+ *
+ * Trends, breakdowns and donor retention for the admin analytics page.
+ * Takes the same filters as the donations list (status, project, fund,
+ * search, date range, environment). Periods and cohorts use Malaysia time.
+ *
+ * Amounts are completed donations net of refunds, in cents. Donors are told
+ * apart by their donor profile, falling back to their email for donations
+ * made before profiles existed; donations with neither are counted as
+ * unidentified.
+ */
+
+import { db, donations, projects } from '@/db'
+import { and, desc, eq, gte, ilike, inArray, lte, or, sql, type SQL } from 'drizzle-orm'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { formatPaymentMethod } from '@/lib/receipt'
+
+export type AnalyticsInterval = 'day' | 'week' | 'month'
+
+export const ANALYTICS_INTERVALS: AnalyticsInterval[] = ['day', 'week', 'month']
+
+// Mirrors the query parameters of DonationFilters
+export interface DonationAnalyticsFilters {
+  status?: string
+  project?: string
+  fund?: string
+  search?: string
+  from?: string
+  to?: string
+  environment?: string // 'sandbox' | 'production' | 'all'
+}
+
+// All amounts in cents
+export interface TimeSeriesPoint {
+  bucket: string // Start of the day, week (Monday) or month, YYYY-MM-DD
+  created: number
+  completed: number
+  amount: number
+  averageGift: number
+  conversionRate: number
+}
+
+export interface BreakdownRow {
+  key: string
+  label: string
+  count: number
+  amount: number
+}
+
+export interface DonorTypeSplit {
+  firstTime: { count: number; amount: number }
+  repeat: { count: number; amount: number }
+  unidentified: { count: number; amount: number }
+}
+
+export interface RetentionCohort {
+  cohort: string // YYYY-MM of the donors' first gift
+  size: number
+  retention: (number | null)[] // % giving again N+1 months later; null for months still to come
+}
+
+export interface DonationAnalytics {
+  interval: AnalyticsInterval
+  summary: {
+    created: number
+    completed: number
+    pending: number
+    failed: number
+    expired: number
+    amount: number
+    averageGift: number
+    conversionRate: number
+    donors: number
+  }
+  series: TimeSeriesPoint[]
+  byProject: BreakdownRow[]
+  byChannel: BreakdownRow[]
+  byEnvironment: BreakdownRow[]
+  donorTypes: DonorTypeSplit
+  cohorts: RetentionCohort[]
+}
+
+const MALAYSIA_UTC_OFFSET_MS = 8 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Cohort table size
+const MAX_COHORTS = 12
+const RETENTION_MONTHS = 6
+
+export function parseAnalyticsInterval(value: string | null | undefined): AnalyticsInterval {
+  return ANALYTICS_INTERVALS.includes(value as AnalyticsInterval) ? value as AnalyticsInterval : 'week'
+}
+
+export function conversionRate(created: number, completed: number): number {
+  return created > 0 ? Math.round((completed / created) * 1000) / 10 : 0
+}
+
+/**
+ * Start of the Malaysia-time day, week (Monday) or month a date falls in,
+ * as YYYY-MM-DD. Matches Postgres date_trunc on Malaysia time.
+ */
+export function getBucketStart(date: Date, interval: AnalyticsInterval): string {
+  const local = new Date(date.getTime() + MALAYSIA_UTC_OFFSET_MS)
+  let start: Date
+
+  if (interval === 'month') {
+    start = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), 1))
+  } else {
+    start = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()))
+    if (interval === 'week') {
+      start = new Date(start.getTime() - ((start.getUTCDay() + 6) % 7) * DAY_MS)
+    }
+  }
+
+  return start.toISOString().substring(0, 10)
+}
+
+function nextBucket(bucket: string, interval: AnalyticsInterval): string {
+  const date = new Date(`${bucket}T00:00:00Z`)
+  if (interval === 'month') {
+    date.setUTCMonth(date.getUTCMonth() + 1)
+  } else {
+    date.setUTCDate(date.getUTCDate() + (interval === 'week' ? 7 : 1))
+  }
+  return date.toISOString().substring(0, 10)
+}
+
+/**
+ * Turn grouped rows into a continuous series, adding empty buckets for
+ * periods with no donations
+ */
+export function fillTimeSeries(
+  rows: { bucket: string; created: number; completed: number; amount: number }[],
+  interval: AnalyticsInterval,
+  range: { from?: Date; to?: Date } = {}
+): TimeSeriesPoint[] {
+  const byBucket = new Map(rows.map(row => [row.bucket, row]))
+  const buckets = rows.map(row => row.bucket).sort()
+
+  const first = range.from ? getBucketStart(range.from, interval) : buckets[0]
+  const last = range.to ? getBucketStart(range.to, interval) : buckets[buckets.length - 1]
+  if (!first || !last) return []
+
+  const series: TimeSeriesPoint[] = []
+  for (let bucket = first; bucket <= last; bucket = nextBucket(bucket, interval)) {
+    const row = byBucket.get(bucket)
+    const created = row?.created || 0
+    const completed = row?.completed || 0
+    const amount = row?.amount || 0
+    series.push({
+      bucket,
+      created,
+      completed,
+      amount,
+      averageGift: completed > 0 ? Math.round(amount / completed) : 0,
+      conversionRate: conversionRate(created, completed),
+    })
+  }
+  return series
+}
+
+function addMonths(month: string, months: number): string {
+  const [year, mon] = month.split('-').map(Number)
+  const date = new Date(Date.UTC(year, mon - 1 + months, 1))
+  return date.toISOString().substring(0, 7)
+}
+
+/**
+ * Group donors by the month of their first gift and work out what share of
+ * each group gave again in each following month
+ */
+export function buildRetentionCohorts(
+  activity: { donorKey: string; month: string }[],
+  options: { fromMonth?: string; toMonth?: string; currentMonth: string }
+): RetentionCohort[] {
+  const monthsByDonor = new Map<string, Set<string>>()
+  for (const { donorKey, month } of activity) {
+    if (!monthsByDonor.has(donorKey)) monthsByDonor.set(donorKey, new Set())
+    monthsByDonor.get(donorKey)!.add(month)
+  }
+
+  const cohorts = new Map<string, Set<string>[]>()
+  for (const months of monthsByDonor.values()) {
+    const cohort = [...months].sort()[0]
+    if (!cohorts.has(cohort)) cohorts.set(cohort, [])
+    cohorts.get(cohort)!.push(months)
+  }
+
+  const cohortMonths = [...cohorts.keys()]
+    .filter(month => (!options.fromMonth || month >= options.fromMonth) && (!options.toMonth || month <= options.toMonth))
+    .sort()
+    .slice(-MAX_COHORTS)
+
+  return cohortMonths.map(cohort => {
+    const members = cohorts.get(cohort)!
+    const retention = Array.from({ length: RETENTION_MONTHS }, (_, index) => {
+      const month = addMonths(cohort, index + 1)
+      if (month > options.currentMonth) return null
+      const active = members.filter(months => months.has(month)).length
+      return Math.round((active / members.length) * 1000) / 10
+    })
+    return { cohort, size: members.length, retention }
+  })
+}
+
+function parseDateRange(filters: DonationAnalyticsFilters): { from?: Date; to?: Date } {
+  const from = filters.from ? new Date(filters.from) : undefined
+  let to: Date | undefined
+  if (filters.to) {
+    to = new Date(filters.to)
+    to.setHours(23, 59, 59, 999)
+  }
+  return {
+    from: from && !isNaN(from.getTime()) ? from : undefined,
+    to: to && !isNaN(to.getTime()) ? to : undefined,
+  }
+}
+
+/**
+ * Query conditions for the filters, the same way the donations list reads
+ * them
+ */
+function buildConditions(
+  filters: DonationAnalyticsFilters,
+  options: { dates?: boolean; environment?: boolean; status?: boolean } = {}
+): SQL[] {
+  const conditions: SQL[] = []
+  const environment = filters.environment || 'production'
+
+  if (options.environment !== false && environment !== 'all') {
+    conditions.push(eq(donations.environment, environment))
+  }
+  if (options.status !== false && filters.status && filters.status !== 'all') {
+    conditions.push(eq(donations.paymentStatus, filters.status))
+  }
+  if (filters.project && filters.project !== 'all') {
+    conditions.push(eq(donations.projectId, filters.project))
+  }
+  if (filters.fund && filters.fund !== 'all') {
+    conditions.push(eq(donations.fundId, filters.fund))
+  }
+  if (filters.search?.trim()) {
+    const pattern = `%${filters.search.trim().replace(/[%_\\]/g, '\\$&')}%`
+    conditions.push(or(
+      ilike(donations.donorName, pattern),
+      ilike(donations.donorEmail, pattern),
+      ilike(donations.paymentReference, pattern),
+      ilike(donations.receiptNumber, pattern)
+    )!)
+  }
+  if (options.dates !== false) {
+    const { from, to } = parseDateRange(filters)
+    if (from) conditions.push(gte(donations.createdAt, from))
+    if (to) conditions.push(lte(donations.createdAt, to))
+  }
+
+  return conditions
+}
+
+const isCompleted = sql`${donations.paymentStatus} = 'completed'`
+const netAmount = sql`${donations.amount} - COALESCE(${donations.refundedAmount}, 0)`
+const completedAmount = sql<number>`COALESCE(SUM(${netAmount}) FILTER (WHERE ${isCompleted}), 0)`
+const completedCount = sql<number>`COUNT(*) FILTER (WHERE ${isCompleted})`
+const localCreatedAt = sql`(${donations.createdAt} AT TIME ZONE 'UTC' AT TIME ZONE 'Asia/Kuala_Lumpur')`
+const donorKey = sql<string | null>`COALESCE(${donations.donorId}::text, LOWER(NULLIF(${donations.donorEmail}, '')))`
+
+// A completed gift is a donor's first when they have no earlier completed
+// gift in the same environment, whatever the other filters. Written out in
+// full because drizzle does not always qualify columns in select
+// expressions, which would point them at the inner table.
+const isFirstGift = sql.raw(`NOT EXISTS (
+  SELECT 1 FROM donations earlier
+  WHERE earlier.payment_status = 'completed'
+    AND earlier.environment = donations.environment
+    AND COALESCE(earlier.donor_id::text, LOWER(NULLIF(earlier.donor_email, ''))) =
+      COALESCE(donations.donor_id::text, LOWER(NULLIF(donations.donor_email, '')))
+    AND earlier.created_at < donations.created_at
+)`)
+
+function toBreakdown(rows: { key: string | null; count: number; amount: number }[], label: (key: string | null) => string): BreakdownRow[] {
+  return rows.map(row => ({
+    key: row.key || 'none',
+    label: label(row.key),
+    count: Number(row.count),
+    amount: Number(row.amount),
+  }))
+}
+
+/**
+ * Everything shown on the analytics page
+ */
+export async function getDonationAnalytics(
+  filters: DonationAnalyticsFilters,
+  interval: AnalyticsInterval = 'week',
+  now = new Date()
+): Promise<DonationAnalytics> {
+  const where = and(...buildConditions(filters))
+  const bucket = sql<string>`to_char(date_trunc('${sql.raw(interval)}', ${localCreatedAt}), 'YYYY-MM-DD')`
+  const month = sql<string>`to_char(date_trunc('month', ${localCreatedAt}), 'YYYY-MM')`
+
+  const [summaryRows, seriesRows, projectRows, channelRows, environmentRows, donorTypeRows, activityRows] = await Promise.all([
+    db
+      .select({
+        created: sql<number>`COUNT(*)`,
+        completed: completedCount,
+        pending: sql<number>`COUNT(*) FILTER (WHERE ${donations.paymentStatus} = 'pending')`,
+        failed: sql<number>`COUNT(*) FILTER (WHERE ${donations.paymentStatus} = 'failed')`,
+        expired: sql<number>`COUNT(*) FILTER (WHERE ${donations.paymentStatus} = 'expired')`,
+        amount: completedAmount,
+        donors: sql<number>`COUNT(DISTINCT ${donorKey}) FILTER (WHERE ${isCompleted})`,
+      })
+      .from(donations)
+      .where(where),
+    db
+      .select({
+        bucket,
+        created: sql<number>`COUNT(*)`,
+        completed: completedCount,
+        amount: completedAmount,
+      })
+      .from(donations)
+      .where(where)
+      .groupBy(bucket),
+    db
+      .select({ key: donations.projectId, count: completedCount, amount: completedAmount })
+      .from(donations)
+      .where(and(where, isCompleted))
+      .groupBy(donations.projectId)
+      .orderBy(desc(completedAmount)),
+    db
+      .select({ key: donations.paymentMethod, count: completedCount, amount: completedAmount })
+      .from(donations)
+      .where(and(where, isCompleted))
+      .groupBy(donations.paymentMethod)
+      .orderBy(desc(completedAmount)),
+    // Environments side by side, so ignore the environment filter here
+    db
+      .select({ key: donations.environment, count: completedCount, amount: completedAmount })
+      .from(donations)
+      .where(and(...buildConditions(filters, { environment: false }), isCompleted))
+      .groupBy(donations.environment)
+      .orderBy(desc(completedAmount)),
+    db
+      .select({
+        firstTimeCount: sql<number>`COUNT(*) FILTER (WHERE ${donorKey} IS NOT NULL AND ${isFirstGift})`,
+        firstTimeAmount: sql<number>`COALESCE(SUM(${netAmount}) FILTER (WHERE ${donorKey} IS NOT NULL AND ${isFirstGift}), 0)`,
+        repeatCount: sql<number>`COUNT(*) FILTER (WHERE ${donorKey} IS NOT NULL AND NOT ${isFirstGift})`,
+        repeatAmount: sql<number>`COALESCE(SUM(${netAmount}) FILTER (WHERE ${donorKey} IS NOT NULL AND NOT ${isFirstGift}), 0)`,
+        unidentifiedCount: sql<number>`COUNT(*) FILTER (WHERE ${donorKey} IS NULL)`,
+        unidentifiedAmount: sql<number>`COALESCE(SUM(${netAmount}) FILTER (WHERE ${donorKey} IS NULL), 0)`,
+      })
+      .from(donations)
+      .where(and(where, isCompleted)),
+    // Retention looks at gifts after the date range too
+    db
+      .select({ donorKey, month })
+      .from(donations)
+      .where(and(...buildConditions(filters, { dates: false, status: false }), isCompleted, sql`${donorKey} IS NOT NULL`))
+      .groupBy(donorKey, month),
+  ])
+
+  const projectIds = projectRows.map(row => row.key).filter((id): id is string => !!id)
+  const projectTitles = new Map<string, string>()
+  if (projectIds.length > 0) {
+    const projectList = await db.query.projects.findMany({
+      where: inArray(projects.id, projectIds),
+      columns: { id: true, title: true },
+    })
+    for (const project of projectList) {
+      projectTitles.set(project.id, getLocalizedValue(project.title as LocalizedString, 'en'))
+    }
+  }
+
+  const summary = summaryRows[0]
+  const created = Number(summary?.created || 0)
+  const completed = Number(summary?.completed || 0)
+  const amount = Number(summary?.amount || 0)
+  const donorType = donorTypeRows[0]
+  const range = parseDateRange(filters)
+
+  return {
+    interval,
+    summary: {
+      created,
+      completed,
+      pending: Number(summary?.pending || 0),
+      failed: Number(summary?.failed || 0),
+      expired: Number(summary?.expired || 0),
+      amount,
+      averageGift: completed > 0 ? Math.round(amount / completed) : 0,
+      conversionRate: conversionRate(created, completed),
+      donors: Number(summary?.donors || 0),
+    },
+    series: fillTimeSeries(
+      seriesRows.map(row => ({
+        bucket: row.bucket,
+        created: Number(row.created),
+        completed: Number(row.completed),
+        amount: Number(row.amount),
+      })),
+      interval,
+      { from: range.from, to: range.to || (range.from ? now : undefined) }
+    ),
+    byProject: toBreakdown(projectRows, key => (key && projectTitles.get(key)) || 'General Fund'),
+    byChannel: toBreakdown(channelRows, key => formatPaymentMethod(key)),
+    byEnvironment: toBreakdown(environmentRows, key => key || 'production'),
+    donorTypes: {
+      firstTime: { count: Number(donorType?.firstTimeCount || 0), amount: Number(donorType?.firstTimeAmount || 0) },
+      repeat: { count: Number(donorType?.repeatCount || 0), amount: Number(donorType?.repeatAmount || 0) },
+      unidentified: { count: Number(donorType?.unidentifiedCount || 0), amount: Number(donorType?.unidentifiedAmount || 0) },
+    },
+    cohorts: buildRetentionCohorts(activityRows.filter((row): row is { donorKey: string; month: string } => !!row.donorKey), {
+      fromMonth: range.from ? getBucketStart(range.from, 'month').substring(0, 7) : undefined,
+      toMonth: range.to ? getBucketStart(range.to, 'month').substring(0, 7) : undefined,
+      currentMonth: getBucketStart(now, 'month').substring(0, 7),
+    }),
+  }
+}
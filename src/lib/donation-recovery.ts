@@ -0,0 +1,278 @@
+/**
+ * Abandoned Donation Recovery
+ *
+ * Donors often close the FPX page before paying, leaving the donation
+ * pending. When enabled in the `donationRecovery` site setting, the cron
+ * route emails each such donor a fresh bill link (via createRetryBill) after
+ * a delay, up to a set number of times. Every send or failure is recorded
+ * in donationLogs. A donation counts as recovered when it completes after
+ * at least one recovery email.
+ *
+ * Off by default, and only donations whose donor ticked the reminder box on
+ * the donate form are emailed. Subscription cycles are left alone since they
+ * already get their own pay link email, and offline donations have no bill
+ * to resend. Donors can also be opted out from their donor profile.
+ */
+
+import { db, donations, donationLogs, projects, siteSettings } from '@/db'
+import { and, eq, gte, gt, isNull, isNotNull, lt, ne, sql } from 'drizzle-orm'
+import { sendDonationRecoveryEmail } from '@/lib/email'
+import { getOrganizationConfig } from '@/lib/organization-config'
+import { createRetryBill, DonationRetryError, MAX_PAYMENT_ATTEMPTS } from '@/lib/donation-retry'
+import { getRecoveryOptOuts } from '@/lib/donors'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('DonationRecovery')
+
+export interface RecoverySettings {
+  enabled: boolean
+  delayHours: number // Wait after the donation, and between emails
+  maxAttempts: number // Emails per donation
+}
+
+export const DEFAULT_RECOVERY_SETTINGS: RecoverySettings = {
+  enabled: false,
+  delayHours: 2,
+  maxAttempts: 2,
+}
+
+export const MAX_RECOVERY_ATTEMPTS = 3
+export const MAX_RECOVERY_DELAY_HOURS = 72
+
+// Donations older than this are not chased
+const RECOVERY_WINDOW_DAYS = 7
+
+// All amounts in cents
+export interface RecoveryStats {
+  emailedCount: number // Donations sent at least one recovery email
+  emailsSent: number
+  recoveredCount: number
+  recoveredAmount: number
+  recoveryRate: number // Percentage of emailed donations recovered
+}
+
+type Donation = typeof donations.$inferSelect
+
+/**
+ * Recovery settings from the `donationRecovery` site setting, with bad or
+ * missing values replaced by the defaults
+ */
+export function parseRecoverySettings(setting: unknown): RecoverySettings {
+  const value = (setting && typeof setting === 'object' ? setting : {}) as Partial<Record<keyof RecoverySettings, unknown>>
+  const inRange = (n: unknown, max: number, fallback: number) =>
+    typeof n === 'number' && Number.isInteger(n) && n >= 1 && n <= max ? n : fallback
+
+  return {
+    enabled: value.enabled === true,
+    delayHours: inRange(value.delayHours, MAX_RECOVERY_DELAY_HOURS, DEFAULT_RECOVERY_SETTINGS.delayHours),
+    maxAttempts: inRange(value.maxAttempts, MAX_RECOVERY_ATTEMPTS, DEFAULT_RECOVERY_SETTINGS.maxAttempts),
+  }
+}
+
+export async function getRecoverySettings(): Promise<RecoverySettings> {
+  const setting = await db.query.siteSettings.findFirst({
+    where: eq(siteSettings.key, 'donationRecovery'),
+  })
+  return parseRecoverySettings(setting?.value)
+}
+
+/**
+ * Whether a donation should get its next recovery email now
+ */
+export function isDueForRecovery(
+  donation: Pick<Donation,
+    'paymentStatus' | 'donorEmail' | 'recoveryEmailConsent' | 'subscriptionId' | 'paymentGateway' |
+    'paymentAttempts' | 'recoveryEmailCount' | 'lastRecoveryEmailAt' | 'createdAt'>,
+  settings: RecoverySettings,
+  now = new Date()
+): boolean {
+  if (donation.paymentStatus !== 'pending' || !donation.recoveryEmailConsent) return false
+  if (!donation.donorEmail || donation.subscriptionId || donation.paymentGateway === 'offline') return false
+  if ((donation.recoveryEmailCount || 0) >= settings.maxAttempts) return false
+  if ((donation.paymentAttempts || 0) >= MAX_PAYMENT_ATTEMPTS) return false
+
+  const delay = settings.delayHours * 60 * 60 * 1000
+  const windowStart = now.getTime() - RECOVERY_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  const lastContact = donation.lastRecoveryEmailAt || donation.createdAt
+
+  return donation.createdAt.getTime() >= windowStart && now.getTime() - lastContact.getTime() >= delay
+}
+
+async function logRecoveryEvent(donationId: string, eventType: string, eventData: Record<string, unknown>) {
+  try {
+    await db.insert(donationLogs).values({
+      donationId,
+      eventType,
+      eventData,
+      ipAddress: 'system',
+      userAgent: 'Donation-Recovery',
+    })
+  } catch (error) {
+    logger.error('Failed to log recovery event', {
+      donationId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
+
+async function getProjectTitle(projectId: string | null, locale: 'en' | 'ms'): Promise<string | undefined> {
+  if (!projectId) return undefined
+  const project = await db.query.projects.findFirst({
+    where: eq(projects.id, projectId),
+    columns: { title: true },
+  })
+  if (!project?.title) return undefined
+  return typeof project.title === 'string'
+    ? project.title
+    : getLocalizedValue(project.title as LocalizedString, locale)
+}
+
+/**
+ * Send the next recovery email for one donation. The count is claimed
+ * first so overlapping runs cannot email the same donor twice.
+ */
+async function sendRecoveryEmail(donation: Donation, baseUrl: string): Promise<boolean> {
+  const previousCount = donation.recoveryEmailCount || 0
+  const attempt = previousCount + 1
+
+  const [claimed] = await db
+    .update(donations)
+    .set({ recoveryEmailCount: attempt, lastRecoveryEmailAt: new Date() })
+    .where(and(
+      eq(donations.id, donation.id),
+      eq(donations.paymentStatus, 'pending'),
+      eq(donations.recoveryEmailCount, previousCount)
+    ))
+    .returning({ id: donations.id })
+
+  if (!claimed) return false
+
+  try {
+    const bill = await createRetryBill(donation, {
+      baseUrl,
+      ipAddress: 'system',
+      userAgent: 'Donation-Recovery',
+      trigger: 'recovery_email',
+    })
+
+    const locale = donation.locale === 'ms' ? 'ms' : 'en'
+    const result = await sendDonationRecoveryEmail({
+      donorName: donation.isAnonymous ? null : donation.donorName,
+      donorEmail: donation.donorEmail!,
+      amount: donation.amount / 100,
+      currency: donation.currency || 'MYR',
+      projectTitle: await getProjectTitle(donation.projectId, locale),
+      paymentUrl: bill.paymentUrl,
+      locale,
+      organization: await getOrganizationConfig(),
+    })
+
+    await logRecoveryEvent(donation.id, result.success ? 'recovery_email_sent' : 'recovery_email_failed', {
+      attempt,
+      billCode: bill.billCode,
+      locale,
+      messageId: result.messageId,
+      error: result.error || result.reason,
+    })
+
+    return result.success
+  } catch (error) {
+    await logRecoveryEvent(donation.id, 'recovery_email_failed', {
+      attempt,
+      error: error instanceof DonationRetryError
+        ? error.details || error.message
+        : error instanceof Error ? error.message : 'Unknown error',
+    })
+    return false
+  }
+}
+
+/**
+ * Email every donation that is due a recovery reminder. Called by the cron
+ * route; does nothing unless recovery is enabled.
+ */
+export async function runDonationRecovery(now = new Date()): Promise<{
+  enabled: boolean
+  checked: number
+  sent: number
+  failed: number
+}> {
+  const settings = await getRecoverySettings()
+  if (!settings.enabled) {
+    return { enabled: false, checked: 0, sent: 0, failed: 0 }
+  }
+
+  const windowStart = new Date(now.getTime() - RECOVERY_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+  const candidates = await db.query.donations.findMany({
+    where: and(
+      eq(donations.paymentStatus, 'pending'),
+      isNotNull(donations.donorEmail),
+      eq(donations.recoveryEmailConsent, true),
+      isNull(donations.subscriptionId),
+      ne(donations.paymentGateway, 'offline'),
+      lt(donations.recoveryEmailCount, settings.maxAttempts),
+      gte(donations.createdAt, windowStart)
+    ),
+    limit: 100,
+  })
+
+  const optedOut = await getRecoveryOptOuts(
+    candidates.map(donation => donation.donorId).filter((id): id is string => !!id)
+  )
+  const due = candidates.filter(donation =>
+    isDueForRecovery(donation, settings, now) && !(donation.donorId && optedOut.has(donation.donorId))
+  )
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  let sent = 0
+  let failed = 0
+
+  for (const donation of due) {
+    try {
+      if (await sendRecoveryEmail(donation, baseUrl)) {
+        sent++
+      } else {
+        failed++
+      }
+    } catch (error) {
+      failed++
+      logger.error('Failed to send recovery email', {
+        donationId: donation.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return { enabled: true, checked: due.length, sent, failed }
+}
+
+/**
+ * Recovery emails sent and the revenue they brought back
+ */
+export async function getRecoveryStats(environment: string = 'production'): Promise<RecoveryStats> {
+  const conditions = [gt(donations.recoveryEmailCount, 0)]
+  if (environment !== 'all') {
+    conditions.push(eq(donations.environment, environment))
+  }
+
+  const [row] = await db
+    .select({
+      emailedCount: sql<number>`COUNT(*)`,
+      emailsSent: sql<number>`COALESCE(SUM(${donations.recoveryEmailCount}), 0)`,
+      recoveredCount: sql<number>`COUNT(*) FILTER (WHERE ${donations.paymentStatus} = 'completed')`,
+      recoveredAmount: sql<number>`COALESCE(SUM(CASE WHEN ${donations.paymentStatus} = 'completed' THEN ${donations.amount} - COALESCE(${donations.refundedAmount}, 0) ELSE 0 END), 0)`,
+    })
+    .from(donations)
+    .where(and(...conditions))
+
+  const emailedCount = Number(row?.emailedCount || 0)
+  const recoveredCount = Number(row?.recoveredCount || 0)
+
+  return {
+    emailedCount,
+    emailsSent: Number(row?.emailsSent || 0),
+    recoveredCount,
+    recoveredAmount: Number(row?.recoveredAmount || 0),
+    recoveryRate: emailedCount > 0 ? Math.round((recoveredCount / emailedCount) * 100) : 0,
+  }
+}
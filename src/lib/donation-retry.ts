@@ -0,0 +1,198 @@
+/**
+ * Donation Payment Retry
+ *
+ * Issues a fresh bill for a donation that was never paid, on the gateway
+ * that issued the original. Used by the donor-facing retry API and by the
+ * abandoned donation recovery emails, so both count towards the same
+ * attempt limit.
+ */
+
+import { db, donations, projects, donationLogs } from '@/db'
+import { and, eq, inArray } from 'drizzle-orm'
+import { getPaymentGateway, PaymentGatewayError } from '@/lib/payments'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { OFFLINE_PAYMENT_GATEWAY } from '@/lib/offline-donations'
+
+export const MAX_PAYMENT_ATTEMPTS = 5
+
+// Statuses a donation can be retried from
+const RETRYABLE_STATUSES = ['pending', 'failed', 'expired']
+
+type Donation = typeof donations.$inferSelect
+
+export class DonationRetryError extends Error {
+  constructor(message: string, public readonly status: number, public readonly details?: string) {
+    super(message)
+    this.name = 'DonationRetryError'
+  }
+}
+
+export interface RetryBill {
+  billCode: string
+  paymentUrl: string
+  attemptNumber: number
+}
+
+// Helper to get string from LocalizedString
+function getProjectTitle(title: unknown): string {
+  if (typeof title === 'string') return title
+  if (title && typeof title === 'object' && 'en' in title) {
+    return getLocalizedValue(title as LocalizedString, 'en')
+  }
+  return 'Project'
+}
+
+/**
+ * Create a new gateway bill for an unpaid donation and reset it to pending.
+ * Throws DonationRetryError with the HTTP status to report when the donation
+ * cannot be retried.
+ */
+export async function createRetryBill(
+  donation: Donation,
+  options: {
+    baseUrl: string
+    ipAddress?: string | null
+    userAgent?: string | null
+    trigger?: 'donor' | 'recovery_email'
+  }
+): Promise<RetryBill> {
+  // Offline donations have no bill to retry; they are approved or rejected by an admin
+  if (donation.paymentGateway === OFFLINE_PAYMENT_GATEWAY) {
+    throw new DonationRetryError('This donation was not made online and cannot be retried', 400)
+  }
+
+  // Only allow retry for failed, expired or pending payments
+  if (donation.paymentStatus === 'completed') {
+    throw new DonationRetryError('This payment has already been completed', 400)
+  }
+
+  if (donation.paymentStatus === 'refunded') {
+    throw new DonationRetryError('This payment has been refunded', 400)
+  }
+
+  if (!RETRYABLE_STATUSES.includes(donation.paymentStatus || 'pending')) {
+    throw new DonationRetryError(`This payment cannot be retried (current status: ${donation.paymentStatus})`, 400)
+  }
+
+  // Limit retry attempts
+  if ((donation.paymentAttempts || 0) >= MAX_PAYMENT_ATTEMPTS) {
+    throw new DonationRetryError(
+      `Maximum retry attempts (${MAX_PAYMENT_ATTEMPTS}) reached. Please start a new donation.`,
+      400
+    )
+  }
+
+  // Retry on the gateway that issued the original bill
+  const gateway = getPaymentGateway(donation.paymentGateway)
+  if (!gateway.isConfigured()) {
+    throw new DonationRetryError('Payment gateway is not configured', 500)
+  }
+
+  // Get project details if donation is for a specific project
+  const project = donation.projectId
+    ? await db.query.projects.findFirst({
+      where: eq(projects.id, donation.projectId),
+    })
+    : null
+
+  const attemptNumber = (donation.paymentAttempts || 0) + 1
+  const successUrl = `${options.baseUrl}/donate/success?ref=${donation.paymentReference}`
+  const callbackUrl = gateway.getCallbackUrl(options.baseUrl)
+
+  let bill: { billCode: string; paymentUrl: string }
+  try {
+    // Create new gateway bill
+    const projectTitle = project ? getProjectTitle(project.title) : null
+    const billName = projectTitle
+      ? `Donation: ${projectTitle}`.substring(0, 30)
+      : 'Donation to YIP'.substring(0, 30)
+
+    const billDescription = projectTitle
+      ? `Donation for ${projectTitle} (Retry)`.substring(0, 100)
+      : 'Donation to Yayasan Insan Prihatin (Retry)'.substring(0, 100)
+
+    // Hide payer info for anonymous donations
+    const isAnonymous = donation.isAnonymous || !donation.donorName
+    bill = await gateway.createBill({
+      reference: donation.paymentReference || '',
+      amount: donation.amount,
+      name: billName,
+      description: billDescription,
+      payerName: donation.donorName || 'Penderma',
+      payerEmail: donation.donorEmail || 'donor@yayasaninsanprihatin.org',
+      payerPhone: donation.donorPhone,
+      isAnonymous,
+      projectId: project?.id,
+      returnUrl: successUrl,
+      callbackUrl,
+    })
+  } catch (error) {
+    // Log error
+    await db.insert(donationLogs).values({
+      donationId: donation.id,
+      eventType: 'retry_error',
+      eventData: {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: error instanceof PaymentGatewayError ? error.code : 'UNKNOWN',
+        trigger: options.trigger || 'donor',
+      },
+    })
+
+    throw new DonationRetryError(
+      'Failed to initiate payment retry. Please try again.',
+      500,
+      error instanceof PaymentGatewayError ? error.message : undefined
+    )
+  }
+
+  // Update donation with new bill code and increment attempts. Conditional
+  // on the donation still being unpaid, so a webhook or verify completing it
+  // while the bill was being created is not undone.
+  const [updated] = await db
+    .update(donations)
+    .set({
+      gatewayBillCode: bill.billCode,
+      paymentAttempts: attemptNumber,
+      paymentStatus: 'pending', // Reset to pending
+      failureReason: null, // Clear failure reason
+      ipAddress: options.ipAddress || donation.ipAddress,
+      userAgent: options.userAgent || donation.userAgent,
+    })
+    .where(and(
+      eq(donations.id, donation.id),
+      inArray(donations.paymentStatus, RETRYABLE_STATUSES)
+    ))
+    .returning({ id: donations.id })
+
+  if (!updated) {
+    await db.insert(donationLogs).values({
+      donationId: donation.id,
+      eventType: 'retry_superseded',
+      eventData: {
+        trigger: options.trigger || 'donor',
+        unusedBillCode: bill.billCode,
+      },
+      ipAddress: options.ipAddress || 'unknown',
+      userAgent: options.userAgent || 'unknown',
+    })
+
+    throw new DonationRetryError('This payment was updated while the retry was being set up. Please refresh the page.', 409)
+  }
+
+  // Log retry attempt
+  await db.insert(donationLogs).values({
+    donationId: donation.id,
+    eventType: 'retry_initiated',
+    eventData: {
+      attemptNumber,
+      gateway: gateway.id,
+      trigger: options.trigger || 'donor',
+      previousBillCode: donation.gatewayBillCode,
+      newBillCode: bill.billCode,
+    },
+    ipAddress: options.ipAddress || 'unknown',
+    userAgent: options.userAgent || 'unknown',
+  })
+
+  return { billCode: bill.billCode, paymentUrl: bill.paymentUrl, attemptNumber }
+}
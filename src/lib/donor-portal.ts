@@ -0,0 +1,288 @@
+/**
+ * Donor Portal
+ *
+ * Donors sign in to /[locale]/donor with a one-time link emailed to the
+ * address on their donor profile. Opening the link and confirming starts a
+ * session held in its own httpOnly cookie; it has nothing to do with the
+ * admin NextAuth session and grants no admin access.
+ *
+ * Only SHA-256 hashes of link and session tokens are stored, so a leaked
+ * database row cannot be replayed. Links work once and expire after
+ * LOGIN_LINK_TTL_MINUTES; sessions last DONOR_SESSION_TTL_DAYS or until the
+ * donor signs out.
+ */
+
+import crypto from 'crypto'
+import { db, donations, donationSubscriptions, donorLoginTokens, donorSessions, donors, projects } from '@/db'
+import { and, desc, eq, gt, gte, inArray, isNull, sql } from 'drizzle-orm'
+import { findDonorByEmail, resolveMergedDonor, summarizeDonorGifts, type Donor, type DonorGiftSummary } from '@/lib/donors'
+import { sendDonorLoginEmail } from '@/lib/email'
+import { getOrganizationConfig } from '@/lib/organization-config'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('DonorPortal')
+
+export const DONOR_SESSION_COOKIE = 'yip_donor_session'
+export const LOGIN_LINK_TTL_MINUTES = 20
+export const DONOR_SESSION_TTL_DAYS = 7
+
+// Stops the sign-in form being used to flood someone's inbox
+const MAX_LOGIN_LINKS_PER_WINDOW = 3
+const LOGIN_LINK_WINDOW_MINUTES = 15
+
+// Statement years follow the Malaysian calendar year
+const MALAYSIA_UTC_OFFSET_MS = 8 * 60 * 60 * 1000
+
+type Donation = typeof donations.$inferSelect
+
+// All amounts in cents
+export interface DonorPortalGift {
+  id: string
+  paymentReference: string | null
+  amount: number
+  refundedAmount: number
+  currency: string
+  paymentStatus: string
+  receiptNumber: string | null
+  projectTitle: string | null
+  isRecurring: boolean
+  date: Date
+}
+
+export interface DonorPortalSubscription {
+  id: string
+  amount: number
+  currency: string
+  status: string
+  nextBillingAt: Date | null
+  createdAt: Date
+}
+
+export interface DonorPortalData {
+  donor: Pick<Donor, 'name' | 'email' | 'phone' | 'locale' | 'emailUpdates' | 'recoveryEmails'>
+  gifts: DonorPortalGift[]
+  subscriptions: DonorPortalSubscription[]
+  statementYears: number[]
+  summary: DonorGiftSummary
+}
+
+export function generateDonorToken(): string {
+  return crypto.randomBytes(32).toString('base64url')
+}
+
+export function hashDonorToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Whether a stored session can still be used
+ */
+export function isDonorSessionActive(
+  session: Pick<typeof donorSessions.$inferSelect, 'expiresAt' | 'revokedAt'>,
+  now = new Date()
+): boolean {
+  return !session.revokedAt && session.expiresAt.getTime() > now.getTime()
+}
+
+/**
+ * Years a donor can download a statement for. Statements are built from
+ * the email on each donation, so only gifts made under the donor's current
+ * email count.
+ */
+export function getStatementYears(
+  gifts: Pick<Donation, 'paymentStatus' | 'environment' | 'donorEmail' | 'completedAt' | 'createdAt'>[],
+  email: string
+): number[] {
+  const years = new Set<number>()
+  for (const gift of gifts) {
+    if (gift.paymentStatus !== 'completed' || gift.environment !== 'production') continue
+    if (gift.donorEmail?.trim().toLowerCase() !== email) continue
+    const date = gift.completedAt || gift.createdAt
+    years.add(new Date(date.getTime() + MALAYSIA_UTC_OFFSET_MS).getUTCFullYear())
+  }
+  return [...years].sort((a, b) => b - a)
+}
+
+/**
+ * Email a sign-in link to a donor. Resolves the same way whether or not
+ * the email belongs to a donor, so the form cannot be used to find out who
+ * has given.
+ */
+export async function requestDonorLoginLink(
+  email: string,
+  options: { locale: 'en' | 'ms'; baseUrl: string; ipAddress?: string }
+): Promise<void> {
+  const donor = await findDonorByEmail(email)
+  if (!donor?.email) return
+
+  const windowStart = new Date(Date.now() - LOGIN_LINK_WINDOW_MINUTES * 60 * 1000)
+  const [recent] = await db
+    .select({ count: sql<number>`COUNT(*)` })
+    .from(donorLoginTokens)
+    .where(and(eq(donorLoginTokens.donorId, donor.id), gte(donorLoginTokens.createdAt, windowStart)))
+
+  if (Number(recent?.count || 0) >= MAX_LOGIN_LINKS_PER_WINDOW) {
+    logger.warn('Donor login link limit reached', { donorId: donor.id })
+    return
+  }
+
+  const token = generateDonorToken()
+  await db.insert(donorLoginTokens).values({
+    donorId: donor.id,
+    tokenHash: hashDonorToken(token),
+    expiresAt: new Date(Date.now() + LOGIN_LINK_TTL_MINUTES * 60 * 1000),
+    ipAddress: options.ipAddress,
+  })
+
+  const result = await sendDonorLoginEmail({
+    donorName: donor.name,
+    donorEmail: donor.email,
+    loginUrl: `${options.baseUrl}/${options.locale}/donor/verify?token=${token}`,
+    expiresInMinutes: LOGIN_LINK_TTL_MINUTES,
+    locale: options.locale,
+    organization: await getOrganizationConfig(),
+  })
+
+  if (!result.success) {
+    logger.error('Failed to send donor login email', {
+      donorId: donor.id,
+      error: result.error || result.reason,
+    })
+  }
+}
+
+/**
+ * Use a sign-in link and start a session. The link is marked used in the
+ * same statement that checks it, so it cannot start two sessions.
+ */
+export async function createDonorSession(
+  loginToken: string,
+  options: { ipAddress?: string; userAgent?: string } = {}
+): Promise<{ token: string; expiresAt: Date } | null> {
+  if (!loginToken || loginToken.length < 32) return null
+
+  const now = new Date()
+  const [link] = await db
+    .update(donorLoginTokens)
+    .set({ usedAt: now })
+    .where(and(
+      eq(donorLoginTokens.tokenHash, hashDonorToken(loginToken)),
+      isNull(donorLoginTokens.usedAt),
+      gt(donorLoginTokens.expiresAt, now)
+    ))
+    .returning({ donorId: donorLoginTokens.donorId })
+
+  if (!link) return null
+
+  const token = generateDonorToken()
+  const expiresAt = new Date(now.getTime() + DONOR_SESSION_TTL_DAYS * 24 * 60 * 60 * 1000)
+
+  await db.insert(donorSessions).values({
+    donorId: link.donorId,
+    tokenHash: hashDonorToken(token),
+    expiresAt,
+    ipAddress: options.ipAddress,
+    userAgent: options.userAgent?.substring(0, 500),
+  })
+
+  logger.info('Donor signed in', { donorId: link.donorId })
+  return { token, expiresAt }
+}
+
+/**
+ * The donor signed in with a session cookie, following any merge made
+ * since they signed in
+ */
+export async function getSessionDonor(sessionToken: string | null | undefined): Promise<Donor | null> {
+  if (!sessionToken) return null
+
+  const session = await db.query.donorSessions.findFirst({
+    where: eq(donorSessions.tokenHash, hashDonorToken(sessionToken)),
+  })
+  if (!session || !isDonorSessionActive(session)) return null
+
+  const donor = await db.query.donors.findFirst({
+    where: eq(donors.id, session.donorId),
+  })
+  return donor ? resolveMergedDonor(donor) : null
+}
+
+export async function revokeDonorSession(sessionToken: string): Promise<void> {
+  await db
+    .update(donorSessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(donorSessions.tokenHash, hashDonorToken(sessionToken)), isNull(donorSessions.revokedAt)))
+}
+
+/**
+ * A donor's recurring gifts, matched on the email they signed up with
+ */
+export async function getDonorSubscriptions(donor: Pick<Donor, 'email'>) {
+  if (!donor.email) return []
+  return db.query.donationSubscriptions.findMany({
+    where: sql`LOWER(${donationSubscriptions.donorEmail}) = ${donor.email}`,
+    orderBy: [desc(donationSubscriptions.createdAt)],
+  })
+}
+
+/**
+ * Everything shown on the donor portal
+ */
+export async function getDonorPortalData(donor: Donor, locale: 'en' | 'ms'): Promise<DonorPortalData> {
+  const [gifts, subscriptions] = await Promise.all([
+    db.query.donations.findMany({
+      where: and(
+        eq(donations.donorId, donor.id),
+        inArray(donations.paymentStatus, ['completed', 'refunded'])
+      ),
+      orderBy: [desc(donations.createdAt)],
+    }),
+    getDonorSubscriptions(donor),
+  ])
+
+  const projectIds = [...new Set(gifts.map(gift => gift.projectId).filter((id): id is string => !!id))]
+  const projectTitles = new Map<string, string>()
+  if (projectIds.length > 0) {
+    const projectList = await db.query.projects.findMany({
+      where: inArray(projects.id, projectIds),
+      columns: { id: true, title: true },
+    })
+    for (const project of projectList) {
+      projectTitles.set(project.id, getLocalizedValue(project.title as LocalizedString, locale))
+    }
+  }
+
+  return {
+    donor: {
+      name: donor.name,
+      email: donor.email,
+      phone: donor.phone,
+      locale: donor.locale,
+      emailUpdates: donor.emailUpdates,
+      recoveryEmails: donor.recoveryEmails,
+    },
+    gifts: gifts.map(gift => ({
+      id: gift.id,
+      paymentReference: gift.paymentReference,
+      amount: gift.amount,
+      refundedAmount: gift.refundedAmount || 0,
+      currency: gift.currency || 'MYR',
+      paymentStatus: gift.paymentStatus || 'completed',
+      receiptNumber: gift.receiptNumber,
+      projectTitle: gift.projectId ? projectTitles.get(gift.projectId) || null : null,
+      isRecurring: !!gift.subscriptionId,
+      date: gift.completedAt || gift.createdAt,
+    })),
+    subscriptions: subscriptions.map(subscription => ({
+      id: subscription.id,
+      amount: subscription.amount,
+      currency: subscription.currency || 'MYR',
+      status: subscription.status || 'pending',
+      nextBillingAt: subscription.nextBillingAt,
+      createdAt: subscription.createdAt,
+    })),
+    statementYears: donor.email ? getStatementYears(gifts, donor.email) : [],
+    summary: summarizeDonorGifts(gifts),
+  }
+}
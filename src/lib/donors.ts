@@ -0,0 +1,470 @@
+/**
+ * Donor Profiles
+ *
+ * Each donation keeps the name, email and phone typed in at the time, and is
+ * also linked to a donor profile so the foundation can see one person's
+ * giving across years. Donors are matched on normalized email, or on phone
+ * when no email was given. Duplicates that slip through (a new email, a typo,
+ * an email given with a known phone number) are merged by an admin; the
+ * duplicate row stays with mergedIntoId set and its donations move to the
+ * surviving profile.
+ *
+ * Totals only count production donations, net of refunds.
+ */
+
+import { db, donations, donors, receipts } from '@/db'
+import { and, asc, desc, eq, ilike, inArray, isNull, or, sql } from 'drizzle-orm'
+
+export type Donor = typeof donors.$inferSelect
+type Donation = typeof donations.$inferSelect
+
+export interface DonorInput {
+  name?: string | null
+  email?: string | null
+  phone?: string | null
+  locale?: string | null
+}
+
+// Details a donor can change themselves from the donor portal
+export interface DonorContactUpdate {
+  name: string | null
+  phone: string | null
+  locale: 'en' | 'ms'
+  emailUpdates: boolean
+  recoveryEmails: boolean
+}
+
+export interface DonorPreferences {
+  emailUpdates: boolean
+  recoveryEmails: boolean
+  locale: 'en' | 'ms'
+  notes?: string | null
+}
+
+// All amounts in cents
+export interface DonorGiftSummary {
+  giftCount: number
+  lifetimeValue: number
+  averageGift: number
+  firstGiftAt: Date | null
+  lastGiftAt: Date | null
+}
+
+export interface DonorListItem {
+  id: string
+  name: string | null
+  email: string | null
+  phone: string | null
+  giftCount: number
+  lifetimeValue: number
+  lastGiftAt: Date | null
+}
+
+/**
+ * Lowercase and trim an email so the same address always matches
+ */
+export function normalizeDonorEmail(email: string | null | undefined): string | null {
+  const normalized = email?.trim().toLowerCase()
+  return normalized && normalized.includes('@') ? normalized : null
+}
+
+/**
+ * Convert a phone number to E.164. Local Malaysian numbers (012-345 6789)
+ * get the +60 country code; numbers already in international form are kept.
+ */
+export function normalizeDonorPhone(phone: string | null | undefined): string | null {
+  if (!phone) return null
+  const trimmed = phone.trim()
+  let digits = trimmed.replace(/\D/g, '')
+
+  if (trimmed.startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2)
+  } else if (digits.startsWith('0')) {
+    digits = `60${digits.slice(1)}`
+  } else if (!digits.startsWith('60')) {
+    return null
+  }
+
+  return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null
+}
+
+/**
+ * Whether a donation counts towards a donor's giving
+ */
+function isCountedGift(donation: Pick<Donation, 'paymentStatus' | 'environment'>): boolean {
+  return donation.paymentStatus === 'completed' && donation.environment === 'production'
+}
+
+/**
+ * Lifetime value, gift count and first / last gift dates from a donor's
+ * donations
+ */
+export function summarizeDonorGifts(
+  gifts: Pick<Donation, 'amount' | 'refundedAmount' | 'paymentStatus' | 'environment' | 'completedAt' | 'createdAt'>[]
+): DonorGiftSummary {
+  const counted = gifts.filter(isCountedGift)
+  const lifetimeValue = counted.reduce((sum, gift) => sum + gift.amount - (gift.refundedAmount || 0), 0)
+  const dates = counted
+    .map(gift => gift.completedAt || gift.createdAt)
+    .sort((a, b) => a.getTime() - b.getTime())
+
+  return {
+    giftCount: counted.length,
+    lifetimeValue,
+    averageGift: counted.length > 0 ? Math.round(lifetimeValue / counted.length) : 0,
+    firstGiftAt: dates[0] || null,
+    lastGiftAt: dates[dates.length - 1] || null,
+  }
+}
+
+/**
+ * Follow merges to the profile that is still in use
+ */
+export async function resolveMergedDonor(donor: Donor): Promise<Donor> {
+  let current = donor
+  // Merges only ever point at unmerged donors, but guard against loops
+  for (let hops = 0; current.mergedIntoId && hops < 5; hops++) {
+    const next = await db.query.donors.findFirst({
+      where: eq(donors.id, current.mergedIntoId),
+    })
+    if (!next) break
+    current = next
+  }
+  return current
+}
+
+/**
+ * The in-use donor profile for an email address, if there is one
+ */
+export async function findDonorByEmail(email: string | null | undefined): Promise<Donor | null> {
+  const normalized = normalizeDonorEmail(email)
+  if (!normalized) return null
+
+  const match = await db.query.donors.findFirst({
+    where: eq(donors.email, normalized),
+    orderBy: [asc(donors.createdAt)],
+  })
+  return match ? resolveMergedDonor(match) : null
+}
+
+/**
+ * Find the donor profile for a new donation, creating one if needed, and
+ * fill in any contact details the profile was missing. Returns null when
+ * the donor left neither an email nor a phone number.
+ *
+ * Donation forms do not verify emails, so an email is never added to an
+ * existing profile. A donor who gives an email with a phone number already
+ * on a profile gets a profile of their own, which findDuplicateDonors lists
+ * for an admin to merge.
+ */
+export async function findOrCreateDonor(input: DonorInput): Promise<string | null> {
+  const email = normalizeDonorEmail(input.email)
+  const phone = normalizeDonorPhone(input.phone)
+  if (!email && !phone) return null
+
+  const name = input.name?.trim() || null
+  let match: Donor | undefined
+
+  if (email) {
+    match = await db.query.donors.findFirst({
+      where: eq(donors.email, email),
+      orderBy: [asc(donors.createdAt)],
+    })
+  } else if (phone) {
+    match = await db.query.donors.findFirst({
+      where: eq(donors.phone, phone),
+      orderBy: [asc(donors.createdAt)],
+    })
+  }
+
+  if (match) {
+    const donor = await resolveMergedDonor(match)
+    const missing: Partial<typeof donors.$inferInsert> = {}
+    if (!donor.phone && phone) missing.phone = phone
+    if (!donor.name && name) missing.name = name
+
+    if (Object.keys(missing).length > 0) {
+      await db
+        .update(donors)
+        .set({ ...missing, updatedAt: new Date() })
+        .where(eq(donors.id, donor.id))
+    }
+    return donor.id
+  }
+
+  const [created] = await db
+    .insert(donors)
+    .values({
+      name,
+      email,
+      phone,
+      locale: input.locale === 'ms' ? 'ms' : 'en',
+    })
+    .returning({ id: donors.id })
+
+  return created.id
+}
+
+/**
+ * Donors, with their giving totals, for the admin list
+ */
+export async function listDonors(options: { search?: string; id?: string; limit?: number } = {}): Promise<DonorListItem[]> {
+  const conditions = [isNull(donors.mergedIntoId)]
+  if (options.id) {
+    conditions.push(eq(donors.id, options.id))
+  }
+  const search = options.search?.trim()
+  if (search) {
+    const pattern = `%${search.replace(/[%_\\]/g, '\\$&')}%`
+    conditions.push(or(
+      ilike(donors.name, pattern),
+      ilike(donors.email, pattern),
+      ilike(donors.phone, pattern)
+    )!)
+  }
+
+  const giftFilter = sql`${donations.paymentStatus} = 'completed' AND ${donations.environment} = 'production'`
+  const lifetimeValue = sql<number>`COALESCE(SUM(${donations.amount} - COALESCE(${donations.refundedAmount}, 0)) FILTER (WHERE ${giftFilter}), 0)`
+
+  const rows = await db
+    .select({
+      id: donors.id,
+      name: donors.name,
+      email: donors.email,
+      phone: donors.phone,
+      giftCount: sql<number>`COUNT(${donations.id}) FILTER (WHERE ${giftFilter})`,
+      lifetimeValue,
+      lastGiftAt: sql<Date | null>`MAX(COALESCE(${donations.completedAt}, ${donations.createdAt})) FILTER (WHERE ${giftFilter})`,
+    })
+    .from(donors)
+    .leftJoin(donations, eq(donations.donorId, donors.id))
+    .where(and(...conditions))
+    .groupBy(donors.id)
+    .orderBy(desc(lifetimeValue), desc(donors.createdAt))
+    .limit(options.limit || 100)
+
+  return rows.map(row => ({
+    ...row,
+    giftCount: Number(row.giftCount),
+    lifetimeValue: Number(row.lifetimeValue),
+    lastGiftAt: row.lastGiftAt ? new Date(row.lastGiftAt) : null,
+  }))
+}
+
+/**
+ * A donor with their full gift history and receipts
+ */
+export async function getDonorProfile(id: string) {
+  const donor = await db.query.donors.findFirst({
+    where: eq(donors.id, id),
+  })
+  if (!donor) return null
+
+  const [gifts, mergedDonors] = await Promise.all([
+    db.query.donations.findMany({
+      where: eq(donations.donorId, id),
+      orderBy: [desc(donations.createdAt)],
+    }),
+    db.query.donors.findMany({
+      where: eq(donors.mergedIntoId, id),
+      orderBy: [desc(donors.mergedAt)],
+    }),
+  ])
+
+  const receiptList = gifts.length > 0
+    ? await db.query.receipts.findMany({
+      where: inArray(receipts.donationId, gifts.map(gift => gift.id)),
+      orderBy: [desc(receipts.issuedAt)],
+    })
+    : []
+
+  return {
+    donor,
+    gifts,
+    receipts: receiptList,
+    mergedDonors,
+    summary: summarizeDonorGifts(gifts),
+  }
+}
+
+/**
+ * Groups of unmerged donors that share a phone number or a name, for the
+ * admin to review and merge
+ */
+export async function findDuplicateDonors(limit = 20): Promise<Donor[][]> {
+  const [byPhone, byName] = await Promise.all([
+    db
+      .select({ key: donors.phone })
+      .from(donors)
+      .where(and(isNull(donors.mergedIntoId), sql`${donors.phone} IS NOT NULL`))
+      .groupBy(donors.phone)
+      .having(sql`COUNT(*) > 1`)
+      .limit(limit),
+    db
+      .select({ key: sql<string>`LOWER(TRIM(${donors.name}))` })
+      .from(donors)
+      .where(and(isNull(donors.mergedIntoId), sql`${donors.name} IS NOT NULL AND TRIM(${donors.name}) <> ''`))
+      .groupBy(sql`LOWER(TRIM(${donors.name}))`)
+      .having(sql`COUNT(*) > 1`)
+      .limit(limit),
+  ])
+
+  const groups: Donor[][] = []
+  const seen = new Set<string>()
+
+  const addGroup = (group: Donor[]) => {
+    const key = group.map(donor => donor.id).sort().join(',')
+    if (group.length > 1 && !seen.has(key)) {
+      seen.add(key)
+      groups.push(group)
+    }
+  }
+
+  for (const { key } of byPhone) {
+    if (!key) continue
+    addGroup(await db.query.donors.findMany({
+      where: and(eq(donors.phone, key), isNull(donors.mergedIntoId)),
+      orderBy: [asc(donors.createdAt)],
+    }))
+  }
+
+  for (const { key } of byName) {
+    addGroup(await db.query.donors.findMany({
+      where: and(sql`LOWER(TRIM(${donors.name})) = ${key}`, isNull(donors.mergedIntoId)),
+      orderBy: [asc(donors.createdAt)],
+    }))
+  }
+
+  return groups.slice(0, limit)
+}
+
+/**
+ * Merge a duplicate profile into another. The duplicate's donations move
+ * across, missing contact details are copied over, and an opt-out on
+ * either profile carries to the merged one.
+ */
+export async function mergeDonors(
+  primaryId: string,
+  duplicateId: string,
+  mergedBy: string
+): Promise<{ success: boolean; error?: string; movedDonations?: number }> {
+  if (primaryId === duplicateId) {
+    return { success: false, error: 'Choose two different donors' }
+  }
+
+  const [primary, duplicate] = await Promise.all([
+    db.query.donors.findFirst({ where: eq(donors.id, primaryId) }),
+    db.query.donors.findFirst({ where: eq(donors.id, duplicateId) }),
+  ])
+
+  if (!primary || !duplicate) {
+    return { success: false, error: 'Donor not found' }
+  }
+
+  if (primary.mergedIntoId || duplicate.mergedIntoId) {
+    return { success: false, error: 'This donor has already been merged' }
+  }
+
+  const now = new Date()
+
+  // Claim the duplicate first so two admins cannot merge it twice
+  const [claimed] = await db
+    .update(donors)
+    .set({ mergedIntoId: primary.id, mergedBy, mergedAt: now, updatedAt: now })
+    .where(and(eq(donors.id, duplicate.id), isNull(donors.mergedIntoId)))
+    .returning({ id: donors.id })
+
+  if (!claimed) {
+    return { success: false, error: 'This donor has already been merged' }
+  }
+
+  const moved = await db
+    .update(donations)
+    .set({ donorId: primary.id })
+    .where(eq(donations.donorId, duplicate.id))
+    .returning({ id: donations.id })
+
+  await db
+    .update(donors)
+    .set({ mergedIntoId: primary.id, updatedAt: now })
+    .where(eq(donors.mergedIntoId, duplicate.id))
+
+  await db
+    .update(donors)
+    .set({
+      name: primary.name || duplicate.name,
+      email: primary.email || duplicate.email,
+      phone: primary.phone || duplicate.phone,
+      emailUpdates: (primary.emailUpdates ?? false) && (duplicate.emailUpdates ?? false),
+      recoveryEmails: (primary.recoveryEmails ?? true) && (duplicate.recoveryEmails ?? true),
+      notes: [primary.notes, duplicate.notes].filter(Boolean).join('\n\n') || null,
+      updatedAt: now,
+    })
+    .where(eq(donors.id, primary.id))
+
+  return { success: true, movedDonations: moved.length }
+}
+
+/**
+ * Save a donor's communication preferences and notes
+ */
+export async function updateDonorPreferences(id: string, preferences: DonorPreferences): Promise<boolean> {
+  const [updated] = await db
+    .update(donors)
+    .set({
+      emailUpdates: preferences.emailUpdates,
+      recoveryEmails: preferences.recoveryEmails,
+      locale: preferences.locale === 'ms' ? 'ms' : 'en',
+      notes: preferences.notes?.trim() || null,
+      updatedAt: new Date(),
+    })
+    .where(eq(donors.id, id))
+    .returning({ id: donors.id })
+
+  return !!updated
+}
+
+/**
+ * Save contact details and preferences entered by the donor. The email
+ * address is what they sign in with, so it is not changed here.
+ */
+export async function updateDonorContact(
+  id: string,
+  update: DonorContactUpdate
+): Promise<{ success: boolean; error?: string }> {
+  const phone = update.phone?.trim() ? normalizeDonorPhone(update.phone) : null
+  if (update.phone?.trim() && !phone) {
+    return { success: false, error: 'invalid_phone' }
+  }
+
+  const [updated] = await db
+    .update(donors)
+    .set({
+      name: update.name?.trim().substring(0, 200) || null,
+      phone,
+      locale: update.locale === 'ms' ? 'ms' : 'en',
+      emailUpdates: update.emailUpdates,
+      recoveryEmails: update.recoveryEmails,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(donors.id, id), isNull(donors.mergedIntoId)))
+    .returning({ id: donors.id })
+
+  return updated ? { success: true } : { success: false, error: 'not_found' }
+}
+
+/**
+ * Donors among the given ids who have turned off recovery reminders
+ */
+export async function getRecoveryOptOuts(donorIds: string[]): Promise<Set<string>> {
+  const ids = [...new Set(donorIds)]
+  if (ids.length === 0) return new Set()
+
+  const optedOut = await db.query.donors.findMany({
+    where: and(inArray(donors.id, ids), eq(donors.recoveryEmails, false)),
+    columns: { id: true },
+  })
+  return new Set(optedOut.map(donor => donor.id))
+}
@@ -0,0 +1,238 @@
+/**
+ * Edit Leases
+ *
+ * Stops two admins editing the same blog post or project at once. The
+ * editor takes a short lease on the item when it opens and renews it with a
+ * heartbeat while the tab stays open; anyone else opening it sees who is
+ * editing and since when, and can take the lease over. A lease that is not
+ * renewed lapses on its own, so a closed laptop never locks content for long.
+ *
+ * Leases are advisory. Saves are guarded separately by the content's
+ * revision number, which every editorial write bumps, so a save made from a
+ * stale copy is refused rather than silently overwriting newer changes.
+ */
+
+import { db, editLeases, blogPosts, projects } from '@/db'
+import { and, eq, lte, or } from 'drizzle-orm'
+import { getLatestVersion, logActivity, type UserInfo } from '@/lib/versioning'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('EditLeases')
+
+export type LeaseContentType = 'blog_posts' | 'projects'
+
+export const LEASE_CONTENT_TYPES: LeaseContentType[] = ['blog_posts', 'projects']
+
+// A lease lapses this long after its last heartbeat
+export const LEASE_TTL_MS = 90 * 1000
+
+// How often an open editor renews its lease
+export const LEASE_HEARTBEAT_MS = 30 * 1000
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const CONTENT_LABELS: Record<LeaseContentType, string> = {
+  blog_posts: 'blog post',
+  projects: 'project',
+}
+
+export type EditLease = typeof editLeases.$inferSelect
+
+// What an editor is told about a lease; the holder's tab id stays private
+export interface EditLeaseInfo {
+  holderEmail: string
+  holderName: string
+  acquiredAt: Date
+  expiresAt: Date
+  isMine: boolean // Held by the asking tab
+}
+
+export interface LeaseResult {
+  success: boolean
+  lease?: EditLeaseInfo // The lease as it now stands, whoever holds it
+  error?: string
+}
+
+// Returned by a save made from an out-of-date copy
+export interface EditConflict {
+  revision: number
+  updatedAt: Date
+  changedByName: string | null
+}
+
+/**
+ * Validated content type from a request, or null
+ */
+export function resolveLeaseContentType(value: unknown): LeaseContentType | null {
+  return LEASE_CONTENT_TYPES.includes(value as LeaseContentType) ? value as LeaseContentType : null
+}
+
+export function isLeaseActive(lease: Pick<EditLease, 'expiresAt'>, now = new Date()): boolean {
+  return lease.expiresAt > now
+}
+
+function toLeaseInfo(lease: EditLease, clientId: string): EditLeaseInfo {
+  return {
+    holderEmail: lease.holderEmail,
+    holderName: lease.holderName,
+    acquiredAt: lease.acquiredAt,
+    expiresAt: lease.expiresAt,
+    isMine: lease.clientId === clientId,
+  }
+}
+
+async function getContentTitle(contentType: LeaseContentType, contentId: string): Promise<string | null> {
+  const item = contentType === 'blog_posts'
+    ? await db.query.blogPosts.findFirst({ where: eq(blogPosts.id, contentId), columns: { title: true } })
+    : await db.query.projects.findFirst({ where: eq(projects.id, contentId), columns: { title: true } })
+  return item ? getLocalizedValue(item.title as LocalizedString, 'en') : null
+}
+
+/**
+ * Who is editing the content right now, or null if nobody is
+ */
+export async function getEditLease(contentId: string, clientId = ''): Promise<EditLeaseInfo | null> {
+  if (!UUID_PATTERN.test(contentId)) return null
+
+  const lease = await db.query.editLeases.findFirst({
+    where: eq(editLeases.contentId, contentId),
+  })
+  return lease && isLeaseActive(lease) ? toLeaseInfo(lease, clientId) : null
+}
+
+/**
+ * Take the lease for the tab `clientId`. Succeeds if nobody holds it, the
+ * holder's lease has lapsed or the tab already holds it; `takeOver` takes
+ * it from whoever holds it.
+ */
+export async function acquireEditLease(
+  contentType: LeaseContentType,
+  contentId: string,
+  clientId: string,
+  user: UserInfo,
+  options?: { takeOver?: boolean }
+): Promise<LeaseResult> {
+  if (!UUID_PATTERN.test(contentId) || !UUID_PATTERN.test(clientId)) {
+    return { success: false, error: 'Invalid lease request' }
+  }
+
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + LEASE_TTL_MS)
+  const holder = {
+    contentType,
+    holderEmail: user.email,
+    holderName: user.name,
+    clientId,
+    acquiredAt: now,
+    expiresAt,
+  }
+
+  try {
+    const [inserted] = await db
+      .insert(editLeases)
+      .values({ contentId, ...holder })
+      .onConflictDoNothing({ target: editLeases.contentId })
+      .returning()
+
+    if (inserted) {
+      return { success: true, lease: toLeaseInfo(inserted, clientId) }
+    }
+
+    const previous = await db.query.editLeases.findFirst({
+      where: eq(editLeases.contentId, contentId),
+    })
+
+    // Only replace the lease we just looked at, so two takeovers can't both win
+    const [acquired] = await db
+      .update(editLeases)
+      .set(previous?.clientId === clientId ? { expiresAt } : holder)
+      .where(and(
+        eq(editLeases.contentId, contentId),
+        options?.takeOver && previous
+          ? eq(editLeases.id, previous.id)
+          : or(eq(editLeases.clientId, clientId), lte(editLeases.expiresAt, now))
+      ))
+      .returning()
+
+    if (!acquired) {
+      const current = await getEditLease(contentId, clientId)
+      return current
+        ? { success: false, lease: current, error: `${current.holderName} is editing this ${CONTENT_LABELS[contentType]}` }
+        : { success: false, error: 'Could not take the edit lease, please try again' }
+    }
+
+    if (options?.takeOver && previous && previous.clientId !== clientId && isLeaseActive(previous, now)) {
+      const title = await getContentTitle(contentType, contentId)
+      await logActivity('edit_lease_taken_over', `Took over editing ${CONTENT_LABELS[contentType]} from ${previous.holderName}: ${title ?? contentId}`, {
+        contentType,
+        contentId,
+        contentTitle: title ?? undefined,
+        user,
+        metadata: { previousHolderEmail: previous.holderEmail, previousAcquiredAt: previous.acquiredAt.toISOString() },
+      })
+    }
+
+    return { success: true, lease: toLeaseInfo(acquired, clientId) }
+  } catch (error) {
+    logger.error('Failed to acquire edit lease', {
+      contentId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return { success: false, error: 'Could not take the edit lease' }
+  }
+}
+
+/**
+ * Heartbeat from the tab holding the lease. Fails, with whoever now holds
+ * it, once someone else has taken it over.
+ */
+export async function renewEditLease(contentId: string, clientId: string): Promise<LeaseResult> {
+  if (!UUID_PATTERN.test(contentId) || !UUID_PATTERN.test(clientId)) {
+    return { success: false, error: 'Invalid lease request' }
+  }
+
+  const [renewed] = await db
+    .update(editLeases)
+    .set({ expiresAt: new Date(Date.now() + LEASE_TTL_MS) })
+    .where(and(eq(editLeases.contentId, contentId), eq(editLeases.clientId, clientId)))
+    .returning()
+
+  if (renewed) {
+    return { success: true, lease: toLeaseInfo(renewed, clientId) }
+  }
+
+  const current = await getEditLease(contentId, clientId)
+  return { success: false, lease: current ?? undefined, error: 'The edit lease was lost' }
+}
+
+/**
+ * Let go of the lease when the editor closes. Does nothing if the tab no
+ * longer holds it.
+ */
+export async function releaseEditLease(contentId: string, clientId: string): Promise<{ success: boolean }> {
+  if (!UUID_PATTERN.test(contentId) || !UUID_PATTERN.test(clientId)) {
+    return { success: false }
+  }
+
+  await db
+    .delete(editLeases)
+    .where(and(eq(editLeases.contentId, contentId), eq(editLeases.clientId, clientId)))
+
+  return { success: true }
+}
+
+/**
+ * Describe the newer save that a stale save ran into
+ */
+export async function getEditConflict(
+  contentType: LeaseContentType,
+  current: { id: string; revision: number; updatedAt: Date }
+): Promise<EditConflict> {
+  const latest = await getLatestVersion(contentType, current.id)
+  return {
+    revision: current.revision,
+    updatedAt: current.updatedAt,
+    changedByName: latest?.changedByName ?? null,
+  }
+}
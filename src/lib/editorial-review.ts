@@ -0,0 +1,608 @@
+/**
+ * Editorial Review
+ *
+ * Blog posts, projects and pages move draft → in review → approved →
+ * published. The author submits an item for review, optionally assigning a
+ * reviewer. Reviewers leave comments on individual fields and then approve
+ * it or request changes. Publishing (by hand or on a schedule) is refused
+ * until someone who neither submitted nor edited the content has approved
+ * it; editing approved content sends it back for review. Each step notifies
+ * admins through createNotification.
+ *
+ * Content that was live before reviews existed has no review row and is
+ * treated as published. Edits to live content are held on the review as
+ * pending changes, leaving the live row as it is, and go live when another
+ * admin approves them. Unpublishing carries them over into the draft.
+ */
+
+import { revalidatePath } from 'next/cache'
+import { db, contentReviews, contentReviewComments, adminUsers, blogPosts, projects, pages } from '@/db'
+import { and, asc, eq, getTableColumns, inArray, sql } from 'drizzle-orm'
+import { createNotification } from '@/lib/actions/notifications'
+import { createVersion, logActivity, type UserInfo } from '@/lib/versioning'
+import { type LocalizedString, getLocalizedValue, locales } from '@/i18n/config'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('EditorialReview')
+
+export type ReviewContentType = 'blog_posts' | 'projects' | 'pages'
+export type ReviewStatus = 'draft' | 'in_review' | 'changes_requested' | 'approved' | 'published'
+
+export const REVIEW_CONTENT_TYPES: ReviewContentType[] = ['blog_posts', 'projects', 'pages']
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  changes_requested: 'Changes requested',
+  approved: 'Approved',
+  published: 'Published',
+}
+
+const CONTENT_LABELS: Record<ReviewContentType, string> = {
+  blog_posts: 'blog post',
+  projects: 'project',
+  pages: 'page',
+}
+
+// Status changes made from the review panel or by publishing
+const REVIEW_TRANSITIONS = {
+  submit: { from: ['draft', 'changes_requested'], to: 'in_review' },
+  approve: { from: ['in_review'], to: 'approved' },
+  request_changes: { from: ['in_review', 'approved'], to: 'changes_requested' },
+  publish: { from: ['approved'], to: 'published' },
+  unpublish: { from: ['published'], to: 'draft' },
+} satisfies Record<string, { from: ReviewStatus[]; to: ReviewStatus }>
+
+export type ReviewAction = keyof typeof REVIEW_TRANSITIONS
+
+export type ContentReview = typeof contentReviews.$inferSelect
+export type ReviewComment = typeof contentReviewComments.$inferSelect
+
+export interface Reviewer {
+  email: string
+  name: string
+}
+
+const REVIEW_TABLES = { blog_posts: blogPosts, projects, pages }
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Side effects of publishing rather than edits to the content itself
+const WORKFLOW_FIELDS = ['updatedAt', 'revision', 'isPublished', 'publishedAt', 'scheduledPublishAt', 'scheduledUnpublishAt']
+
+export const MAX_COMMENT_LENGTH = 2000
+
+/**
+ * Status after `action`, or null if it is not allowed from `status`
+ */
+export function nextReviewStatus(status: ReviewStatus, action: ReviewAction): ReviewStatus | null {
+  const transition = REVIEW_TRANSITIONS[action]
+  return (transition.from as ReviewStatus[]).includes(status) ? transition.to : null
+}
+
+/**
+ * Whether saving `updates` over `existing` changes what readers would see
+ */
+export function hasContentChanges(existing: Record<string, unknown>, updates: Record<string, unknown>): boolean {
+  return Object.keys(updates).some(key =>
+    !WORKFLOW_FIELDS.includes(key) &&
+    JSON.stringify(updates[key] ?? null) !== JSON.stringify(existing[key] ?? null)
+  )
+}
+
+/**
+ * Why `email` may not approve the review, or null if they may
+ */
+export function getApprovalBlocker(
+  review: Pick<ContentReview, 'status' | 'authorEmail' | 'editorEmails'> | null,
+  email: string
+): string | null {
+  if (!review || review.status !== 'in_review') return 'Only content in review can be approved'
+  if (review.authorEmail?.toLowerCase() === email.toLowerCase()) {
+    return 'Content must be approved by someone other than its author'
+  }
+  if (review.editorEmails.includes(email.toLowerCase())) {
+    return 'Content must be approved by someone who has not edited it'
+  }
+  return null
+}
+
+/**
+ * Why the content may not be published, or null if it may
+ */
+export function getPublishBlocker(
+  review: Pick<ContentReview, 'status'> | null,
+  contentChanged = false
+): string | null {
+  if (review?.status === 'approved' && contentChanged) {
+    return 'These changes have not been approved. Save them and submit for review before publishing'
+  }
+  if (review?.status !== 'approved') {
+    return 'Needs approval from a reviewer other than the author before publishing'
+  }
+  return null
+}
+
+/**
+ * Validated content type from a request, or null
+ */
+export function resolveReviewContentType(value: unknown): ReviewContentType | null {
+  return REVIEW_CONTENT_TYPES.includes(value as ReviewContentType) ? value as ReviewContentType : null
+}
+
+/**
+ * Title and publish state of the item under review, or null if it does not exist
+ */
+async function getReviewedContent(
+  contentType: ReviewContentType,
+  contentId: string
+): Promise<{ title: string; isPublished: boolean } | null> {
+  if (!UUID_PATTERN.test(contentId)) return null
+
+  const columns = { title: true, isPublished: true } as const
+  const item = contentType === 'blog_posts'
+    ? await db.query.blogPosts.findFirst({ where: eq(blogPosts.id, contentId), columns })
+    : contentType === 'projects'
+      ? await db.query.projects.findFirst({ where: eq(projects.id, contentId), columns })
+      : await db.query.pages.findFirst({ where: eq(pages.id, contentId), columns })
+
+  if (!item) return null
+  return { title: getLocalizedValue(item.title as LocalizedString, 'en'), isPublished: !!item.isPublished }
+}
+
+async function getContentRow(contentType: ReviewContentType, contentId: string) {
+  const item = contentType === 'blog_posts'
+    ? await db.query.blogPosts.findFirst({ where: eq(blogPosts.id, contentId) })
+    : contentType === 'projects'
+      ? await db.query.projects.findFirst({ where: eq(projects.id, contentId) })
+      : await db.query.pages.findFirst({ where: eq(pages.id, contentId) })
+  return item as Record<string, unknown> | undefined
+}
+
+// Held changes come back from JSON, so dates are strings again
+function reviveHeldChanges(contentType: ReviewContentType, held: Record<string, unknown>): Record<string, unknown> {
+  const columns = getTableColumns(REVIEW_TABLES[contentType]) as Record<string, { dataType: string }>
+  const changes: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(held)) {
+    if (!columns[key]) continue
+    changes[key] = columns[key].dataType === 'date' && typeof value === 'string' ? new Date(value) : value
+  }
+  return changes
+}
+
+/**
+ * Edits to the live content that are waiting for approval, if any
+ */
+export async function getHeldChanges(contentType: ReviewContentType, contentId: string): Promise<Record<string, unknown>> {
+  const review = await getContentReview(contentId)
+  return review?.pendingChanges ? reviveHeldChanges(contentType, review.pendingChanges) : {}
+}
+
+export async function getContentReview(contentId: string): Promise<ContentReview | null> {
+  if (!UUID_PATTERN.test(contentId)) return null
+  const review = await db.query.contentReviews.findFirst({
+    where: eq(contentReviews.contentId, contentId),
+  })
+  return review || null
+}
+
+export async function getReviewComments(reviewId: string): Promise<ReviewComment[]> {
+  return db.query.contentReviewComments.findMany({
+    where: eq(contentReviewComments.reviewId, reviewId),
+    orderBy: [asc(contentReviewComments.createdAt)],
+  })
+}
+
+/**
+ * Admins who can be assigned as reviewers, named from adminUsers where known
+ */
+export async function getReviewers(emails: string[]): Promise<Reviewer[]> {
+  if (emails.length === 0) return []
+  const known = await db.query.adminUsers.findMany({
+    where: inArray(adminUsers.email, emails),
+    columns: { email: true, name: true },
+  })
+  const names = new Map(known.map(user => [user.email.toLowerCase(), user.name]))
+  return emails.map(email => ({ email, name: names.get(email) || email }))
+}
+
+// The review row, created on first use. Items already live start as published.
+async function ensureReview(
+  contentType: ReviewContentType,
+  contentId: string,
+  isPublished: boolean
+): Promise<ContentReview> {
+  await db
+    .insert(contentReviews)
+    .values({ contentType, contentId, status: isPublished ? 'published' : 'draft' })
+    .onConflictDoNothing({ target: contentReviews.contentId })
+
+  const review = await getContentReview(contentId)
+  if (!review) throw new Error('Failed to create content review')
+  return review
+}
+
+// Appended in SQL so two admins saving at once are both recorded
+async function addEditor(reviewId: string, email: string) {
+  const editor = JSON.stringify([email.toLowerCase()])
+  await db
+    .update(contentReviews)
+    .set({ editorEmails: sql`${contentReviews.editorEmails} || ${editor}::jsonb`, updatedAt: new Date() })
+    .where(and(
+      eq(contentReviews.id, reviewId),
+      sql`NOT (${contentReviews.editorEmails} @> ${editor}::jsonb)`
+    ))
+}
+
+async function notifyReview(
+  contentType: ReviewContentType,
+  contentId: string,
+  title: string,
+  message: string,
+  priority: 'normal' | 'high' = 'normal'
+) {
+  await createNotification({
+    type: 'content_review',
+    title,
+    message,
+    priority,
+    relatedType: contentType,
+    relatedId: contentId,
+  })
+}
+
+/**
+ * Submit for review, approve or request changes from the review panel
+ */
+export async function reviewContent(
+  contentType: ReviewContentType,
+  contentId: string,
+  action: 'submit' | 'approve' | 'request_changes',
+  user: UserInfo,
+  options: { reviewer?: Reviewer | null; note?: string } = {}
+): Promise<{ success: boolean; review?: ContentReview; error?: string }> {
+  const content = await getReviewedContent(contentType, contentId)
+  if (!content) {
+    return { success: false, error: 'Content not found' }
+  }
+
+  const existing = await ensureReview(contentType, contentId, content.isPublished)
+  const transition = REVIEW_TRANSITIONS[action]
+
+  if (action === 'approve') {
+    const blocker = getApprovalBlocker(existing, user.email)
+    if (blocker) return { success: false, error: blocker }
+  }
+  if (action === 'submit' && options.reviewer?.email.toLowerCase() === user.email.toLowerCase()) {
+    return { success: false, error: 'Choose a reviewer other than yourself' }
+  }
+
+  const now = new Date()
+  const changes: Partial<typeof contentReviews.$inferInsert> = { status: transition.to, updatedAt: now }
+  if (action === 'submit') {
+    Object.assign(changes, {
+      authorEmail: user.email,
+      authorName: user.name,
+      reviewerEmail: options.reviewer?.email ?? null,
+      reviewerName: options.reviewer?.name ?? null,
+      submittedAt: now,
+    })
+  }
+  if (action === 'approve') {
+    Object.assign(changes, { approvedByEmail: user.email, approvedByName: user.name, approvedAt: now })
+  } else {
+    Object.assign(changes, { approvedByEmail: null, approvedByName: null, approvedAt: null })
+  }
+
+  // Conditional UPDATE so two reviewers acting at once cannot both apply,
+  // and an approval cannot race the approver's own edit
+  const [updated] = await db
+    .update(contentReviews)
+    .set(changes)
+    .where(and(
+      eq(contentReviews.id, existing.id),
+      inArray(contentReviews.status, transition.from),
+      action === 'approve'
+        ? sql`NOT (${contentReviews.editorEmails} @> ${JSON.stringify([user.email.toLowerCase()])}::jsonb)`
+        : undefined
+    ))
+    .returning()
+
+  if (!updated) {
+    return {
+      success: false,
+      error: `Cannot ${action.replace('_', ' ')} while ${REVIEW_STATUS_LABELS[existing.status as ReviewStatus].toLowerCase()}`,
+    }
+  }
+
+  // Approving edits to live content puts them live straight away
+  const wentLive = action === 'approve' && content.isPublished
+  const review = wentLive ? await applyHeldChanges(contentType, updated, user) : updated
+
+  if (options.note?.trim()) {
+    await db.insert(contentReviewComments).values({
+      reviewId: updated.id,
+      body: options.note.trim().slice(0, MAX_COMMENT_LENGTH),
+      authorEmail: user.email,
+      authorName: user.name,
+    })
+  }
+
+  const label = CONTENT_LABELS[contentType]
+  if (action === 'submit') {
+    await notifyReview(
+      contentType,
+      contentId,
+      'Review Requested',
+      `${user.name} submitted the ${label} "${content.title}" for review${updated.reviewerName ? `, assigned to ${updated.reviewerName}` : ''}.`,
+      'high'
+    )
+  } else if (wentLive) {
+    await notifyReview(contentType, contentId, 'Content Approved', `${user.name} approved the changes to the ${label} "${content.title}". They are now live.`)
+  } else if (action === 'approve') {
+    await notifyReview(contentType, contentId, 'Content Approved', `${user.name} approved the ${label} "${content.title}". It can now be published.`)
+  } else {
+    await notifyReview(contentType, contentId, 'Changes Requested', `${user.name} requested changes to the ${label} "${content.title}".`)
+  }
+
+  await logActivity(`review_${action}`, `${REVIEW_STATUS_LABELS[review.status as ReviewStatus]}: ${label} ${content.title}`, {
+    contentType,
+    contentId,
+    contentTitle: content.title,
+    user,
+    metadata: { reviewer: updated.reviewerEmail },
+  })
+
+  return { success: true, review }
+}
+
+// Write the approved edits to the live row and close the review
+async function applyHeldChanges(
+  contentType: ReviewContentType,
+  review: ContentReview,
+  user: UserInfo
+): Promise<ContentReview> {
+  const changes = review.pendingChanges ? reviveHeldChanges(contentType, review.pendingChanges) : {}
+  const previous = await getContentRow(contentType, review.contentId)
+
+  if (previous && Object.keys(changes).length > 0) {
+    const now = new Date()
+    // Blog posts and projects bump their revision so open editors notice
+    const [applied] = contentType === 'blog_posts'
+      ? await db
+        .update(blogPosts)
+        .set({ ...changes, updatedAt: now, revision: sql`${blogPosts.revision} + 1` })
+        .where(eq(blogPosts.id, review.contentId))
+        .returning()
+      : contentType === 'projects'
+        ? await db
+          .update(projects)
+          .set({ ...changes, updatedAt: now, revision: sql`${projects.revision} + 1` })
+          .where(eq(projects.id, review.contentId))
+          .returning()
+        : await db
+          .update(pages)
+          .set({ ...changes, updatedAt: now })
+          .where(eq(pages.id, review.contentId))
+          .returning()
+
+    await createVersion(contentType, review.contentId, applied as Record<string, unknown>, 'update', user, {
+      previousData: previous,
+      customSummary: `Approved changes by ${review.authorName || 'another admin'}`,
+    })
+    revalidatePublicPaths(contentType, applied.slug)
+  }
+
+  const [published] = await db
+    .update(contentReviews)
+    .set({ status: 'published', pendingChanges: null, editorEmails: [], updatedAt: new Date() })
+    .where(eq(contentReviews.id, review.id))
+    .returning()
+  return published
+}
+
+// Public pages are served under a locale prefix
+function revalidatePublicPaths(contentType: ReviewContentType, slug: string) {
+  const paths = contentType === 'blog_posts'
+    ? ['/', '/blog', `/blog/${slug}`]
+    : contentType === 'projects'
+      ? ['/', '/projects', '/donate', `/projects/${slug}`]
+      : [`/${slug}`]
+  for (const path of paths) {
+    revalidatePath(path)
+    for (const locale of locales) {
+      revalidatePath(`/${locale}${path}`)
+    }
+  }
+}
+
+/**
+ * Hold an edit to live content for review instead of saving it. The changes
+ * join any already held, and the review is reopened with the editor as its
+ * author. Saves to a blog post or project are serialized by its revision
+ * check, so the held changes are merged here rather than in SQL. Returns
+ * whether any changes are now waiting for approval.
+ */
+export async function holdLiveEdit(
+  contentType: ReviewContentType,
+  live: Record<string, unknown> & { id: string },
+  updates: Record<string, unknown>,
+  title: string,
+  user: UserInfo
+): Promise<boolean> {
+  const review = await ensureReview(contentType, live.id, true)
+
+  const held: Record<string, unknown> = { ...review.pendingChanges }
+  for (const [key, value] of Object.entries(updates)) {
+    if (WORKFLOW_FIELDS.includes(key)) continue
+    // Changing a field back to what is live drops it from the held changes
+    if (JSON.stringify(value ?? null) === JSON.stringify(live[key] ?? null)) {
+      delete held[key]
+    } else {
+      held[key] = value
+    }
+  }
+  const hasHeld = Object.keys(held).length > 0
+  if (JSON.stringify(held) === JSON.stringify(review.pendingChanges ?? {})) return hasHeld
+
+  const now = new Date()
+  const reopen = hasHeld && (review.status === 'published' || review.status === 'approved')
+  await db
+    .update(contentReviews)
+    .set({
+      pendingChanges: hasHeld ? held : null,
+      updatedAt: now,
+      ...(reopen && {
+        status: 'in_review',
+        authorEmail: user.email,
+        authorName: user.name,
+        reviewerEmail: null,
+        reviewerName: null,
+        submittedAt: now,
+        approvedByEmail: null,
+        approvedByName: null,
+        approvedAt: null,
+      }),
+    })
+    .where(eq(contentReviews.id, review.id))
+  await addEditor(review.id, user.email)
+
+  if (reopen) {
+    const label = CONTENT_LABELS[contentType]
+    await notifyReview(
+      contentType,
+      live.id,
+      'Review Requested',
+      `${user.name} changed the live ${label} "${title}". The changes go live once another admin approves them.`,
+      'high'
+    )
+    await logActivity('review_submit', `In review: changes to live ${label} ${title}`, {
+      contentType,
+      contentId: live.id,
+      contentTitle: title,
+      user,
+    })
+  }
+  return hasHeld
+}
+
+/**
+ * Refuse to publish unapproved content. Call before saving a publish.
+ */
+export async function checkPublishAllowed(contentId: string, contentChanged = false): Promise<string | null> {
+  return getPublishBlocker(await getContentReview(contentId), contentChanged)
+}
+
+/**
+ * Keep the review in step with a save that has gone through: publishing
+ * closes it, unpublishing starts a new one (the save should include the
+ * held changes, from getHeldChanges), and editing records the editor
+ * (who may then not approve it) and sends approved content back for review.
+ */
+export async function recordReviewedSave(
+  contentType: ReviewContentType,
+  contentId: string,
+  save: { changeType: 'update' | 'publish' | 'unpublish'; contentChanged: boolean; title: string },
+  user: UserInfo
+): Promise<void> {
+  const now = new Date()
+  const clearApproval = { approvedByEmail: null, approvedByName: null, approvedAt: null, updatedAt: now }
+
+  if (save.changeType === 'publish' || save.changeType === 'unpublish') {
+    const review = await getContentReview(contentId)
+    if (!review) return
+
+    await db
+      .update(contentReviews)
+      .set(save.changeType === 'publish'
+        ? { status: 'published', editorEmails: [], pendingChanges: null, updatedAt: now }
+        : { status: 'draft', pendingChanges: null, ...clearApproval })
+      .where(eq(contentReviews.id, review.id))
+    return
+  }
+
+  if (!save.contentChanged) return
+
+  const content = await getReviewedContent(contentType, contentId)
+  if (!content) return
+  const review = await ensureReview(contentType, contentId, content.isPublished)
+
+  await addEditor(review.id, user.email)
+
+  const [reopened] = await db
+    .update(contentReviews)
+    .set({ status: 'in_review', ...clearApproval })
+    .where(and(eq(contentReviews.id, review.id), eq(contentReviews.status, 'approved')))
+    .returning({ id: contentReviews.id })
+
+  if (reopened) {
+    logger.info('Approved content edited, back in review', { contentType, contentId, editedBy: user.email })
+    await notifyReview(
+      contentType,
+      contentId,
+      'Review Requested',
+      `${user.name} changed the approved ${CONTENT_LABELS[contentType]} "${save.title}". It needs approving again.`,
+      'high'
+    )
+  }
+}
+
+/**
+ * Add a comment on one field (and language) of the content under review
+ */
+export async function addReviewComment(
+  contentType: ReviewContentType,
+  contentId: string,
+  comment: { field: string | null; locale: 'en' | 'ms' | null; body: string },
+  user: UserInfo
+): Promise<{ success: boolean; comment?: ReviewComment; error?: string }> {
+  const body = comment.body.trim()
+  if (!body) return { success: false, error: 'Comment is empty' }
+  if (body.length > MAX_COMMENT_LENGTH) return { success: false, error: 'Comment is too long' }
+  if (comment.field !== null && !/^[a-zA-Z]{1,40}$/.test(comment.field)) {
+    return { success: false, error: 'Unknown field' }
+  }
+
+  const content = await getReviewedContent(contentType, contentId)
+  if (!content) return { success: false, error: 'Content not found' }
+
+  const review = await ensureReview(contentType, contentId, content.isPublished)
+  const [created] = await db
+    .insert(contentReviewComments)
+    .values({
+      reviewId: review.id,
+      field: comment.field,
+      locale: comment.locale,
+      body,
+      authorEmail: user.email,
+      authorName: user.name,
+    })
+    .returning()
+
+  await notifyReview(
+    contentType,
+    contentId,
+    'Review Comment',
+    `${user.name} commented on ${comment.field ? `the ${comment.field} of ` : ''}the ${CONTENT_LABELS[contentType]} "${content.title}".`
+  )
+
+  return { success: true, comment: created }
+}
+
+/**
+ * Mark a review comment as dealt with
+ */
+export async function resolveReviewComment(
+  commentId: string,
+  user: UserInfo
+): Promise<{ success: boolean; error?: string }> {
+  if (!UUID_PATTERN.test(commentId)) return { success: false, error: 'Comment not found' }
+
+  const [updated] = await db
+    .update(contentReviewComments)
+    .set({ resolvedAt: new Date(), resolvedByEmail: user.email })
+    .where(eq(contentReviewComments.id, commentId))
+    .returning({ id: contentReviewComments.id })
+
+  return updated ? { success: true } : { success: false, error: 'Comment not found' }
+}
@@ -498,6 +498,7 @@ function generateFormEmailHtml(notification: FormNotificationData): string {
 // ============================================
 
 import { type OrganizationConfig, getDefaultOrganizationConfig } from './organization-config-client'
+import type { TributeType } from './tribute-format'
 
 interface DonationReceiptData {
   receiptNumber: string
@@ -786,3 +787,1027 @@ function generateDonationReceiptEmailHtml(
 </html>
   `.trim()
 }
+
+// ============================================
+// RECURRING DONATION EMAIL
+// ============================================
+
+interface RecurringDonationEmailData {
+  donorName: string
+  donorEmail: string
+  amount: number // In currency units, not cents
+  currency: string
+  cycle: number
+  projectTitle?: string
+  paymentUrl: string
+  manageUrl: string
+  organization?: OrganizationConfig
+}
+
+/**
+ * Send the monthly pay link for a recurring donation cycle
+ */
+export async function sendRecurringDonationEmail(
+  data: RecurringDonationEmailData
+): Promise<EmailResult> {
+  if (!process.env.RESEND_API_KEY) {
+    console.error('RESEND_API_KEY is not configured')
+    return { success: false, reason: 'no_api_key' }
+  }
+
+  if (!data.donorEmail) {
+    return { success: false, reason: 'no_recipient', error: 'No donor email address provided' }
+  }
+
+  try {
+    const formattedAmount = new Intl.NumberFormat('en-MY', {
+      style: 'currency',
+      currency: data.currency || 'MYR',
+    }).format(data.amount)
+
+    const { data: responseData, error } = await resend.emails.send({
+      from: DEFAULT_FROM,
+      to: data.donorEmail,
+      subject: `Your Monthly Donation of ${formattedAmount} is Ready`,
+      html: generateRecurringDonationEmailHtml(data, formattedAmount),
+    })
+
+    if (error) {
+      console.error('Failed to send recurring donation email:', error)
+      return { success: false, error: error.message }
+    }
+
+    console.log('Recurring donation email sent:', responseData?.id)
+    return { success: true, messageId: responseData?.id }
+  } catch (error) {
+    console.error('Failed to send recurring donation email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Generate HTML email content for a recurring donation pay link
+ */
+function generateRecurringDonationEmailHtml(
+  data: RecurringDonationEmailData,
+  formattedAmount: string
+): string {
+  const org = data.organization || getDefaultOrganizationConfig()
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Monthly Donation - ${escapeHtml(org.name)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f0fdfa; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background: linear-gradient(135deg, #0d9488 0%, #0f766e 100%); padding: 32px 30px; border-radius: 16px 16px 0 0; text-align: center;">
+      <h1 style="color: white; margin: 0; font-size: 26px; font-weight: 700;">
+        Your Monthly Donation
+      </h1>
+      <p style="color: rgba(255,255,255,0.95); margin: 8px 0 0; font-size: 15px;">
+        Payment #${data.cycle}
+      </p>
+    </div>
+
+    <div style="background: #ffffff; padding: 32px 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 16px 16px;">
+      <p style="color: #1f2937; font-size: 16px; line-height: 1.7; margin: 0 0 16px;">
+        Assalamualaikum <strong>${escapeHtml(data.donorName)}</strong>,
+      </p>
+      <p style="color: #4b5563; font-size: 15px; line-height: 1.7; margin: 0 0 24px;">
+        Thank you for supporting <strong>${escapeHtml(org.name)}</strong> every month. Your next donation of
+        <strong>${formattedAmount}</strong>${data.projectTitle ? ` for <strong>${escapeHtml(data.projectTitle)}</strong>` : ''} is ready for payment.
+      </p>
+
+      <div style="text-align: center; margin-bottom: 24px;">
+        <a href="${escapeHtml(data.paymentUrl)}"
+           style="display: inline-block; background: linear-gradient(135deg, #0d9488 0%, #0f766e 100%); color: white; padding: 16px 48px; border-radius: 12px; text-decoration: none; font-weight: 600; font-size: 15px;">
+          Pay ${formattedAmount}
+        </a>
+      </div>
+
+      <p style="color: #6b7280; font-size: 13px; line-height: 1.6; margin: 0; text-align: center;">
+        Need a break? You can
+        <a href="${escapeHtml(data.manageUrl)}" style="color: #0d9488;">pause or cancel your monthly donation</a>
+        at any time.
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
+
+// ============================================
+// DONATION REFUND EMAIL
+// ============================================
+
+interface DonationRefundEmailData {
+  donorName: string
+  donorEmail: string
+  refundAmount: number // In currency units, not cents
+  remainingAmount: number // Amount still counted as donated after this refund
+  currency: string
+  paymentReference: string
+  reason: string
+  originalReceiptNumber?: string | null
+  newReceiptNumber?: string | null // Set when a partial refund reissued the receipt
+  pdfBuffer?: Buffer
+  organization?: OrganizationConfig
+}
+
+/**
+ * Send refund confirmation email to the donor
+ */
+export async function sendDonationRefundEmail(
+  data: DonationRefundEmailData
+): Promise<EmailResult> {
+  if (!process.env.RESEND_API_KEY) {
+    console.error('RESEND_API_KEY is not configured')
+    return { success: false, reason: 'no_api_key' }
+  }
+
+  if (!data.donorEmail) {
+    return { success: false, reason: 'no_recipient', error: 'No donor email address provided' }
+  }
+
+  try {
+    const format = (amount: number) => new Intl.NumberFormat('en-MY', {
+      style: 'currency',
+      currency: data.currency || 'MYR',
+    }).format(amount)
+
+    const { data: responseData, error } = await resend.emails.send({
+      from: DEFAULT_FROM,
+      to: data.donorEmail,
+      subject: `Refund Confirmation - ${data.paymentReference}`,
+      html: generateDonationRefundEmailHtml(data, format),
+      attachments: data.pdfBuffer && data.newReceiptNumber
+        ? [{
+          filename: `YIP-Receipt-${data.newReceiptNumber}.pdf`,
+          content: data.pdfBuffer,
+          contentType: 'application/pdf',
+        }]
+        : undefined,
+    })
+
+    if (error) {
+      console.error('Failed to send refund email:', error)
+      return { success: false, error: error.message }
+    }
+
+    console.log('Refund confirmation email sent:', responseData?.id)
+    return { success: true, messageId: responseData?.id }
+  } catch (error) {
+    console.error('Failed to send refund email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Generate HTML email content for a refund confirmation
+ */
+function generateDonationRefundEmailHtml(
+  data: DonationRefundEmailData,
+  format: (amount: number) => string
+): string {
+  const org = data.organization || getDefaultOrganizationConfig()
+  const isFullRefund = data.remainingAmount <= 0
+
+  const receiptNote = isFullRefund
+    ? `Receipt <strong>${escapeHtml(data.originalReceiptNumber || '-')}</strong> has been voided and should no longer be used for tax purposes.`
+    : `Receipt <strong>${escapeHtml(data.originalReceiptNumber || '-')}</strong> has been replaced by receipt <strong>${escapeHtml(data.newReceiptNumber || '-')}</strong> for the remaining ${format(data.remainingAmount)}. The updated receipt is attached.`
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Refund Confirmation - ${escapeHtml(org.name)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f9fafb; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background: #1f2937; padding: 32px 30px; border-radius: 16px 16px 0 0; text-align: center;">
+      <h1 style="color: white; margin: 0; font-size: 26px; font-weight: 700;">
+        Refund Confirmation
+      </h1>
+    </div>
+
+    <div style="background: #ffffff; padding: 32px 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 16px 16px;">
+      <p style="color: #1f2937; font-size: 16px; line-height: 1.7; margin: 0 0 16px;">
+        Assalamualaikum <strong>${escapeHtml(data.donorName)}</strong>,
+      </p>
+      <p style="color: #4b5563; font-size: 15px; line-height: 1.7; margin: 0 0 24px;">
+        We have processed a ${isFullRefund ? 'full' : 'partial'} refund of <strong>${format(data.refundAmount)}</strong>
+        for your donation to <strong>${escapeHtml(org.name)}</strong>.
+      </p>
+
+      <table style="width: 100%; border-collapse: collapse; margin-bottom: 24px;">
+        <tr>
+          <td style="padding: 12px 0; color: #6b7280; font-size: 14px; border-bottom: 1px solid #e5e7eb;">Payment Reference</td>
+          <td style="padding: 12px 0; color: #1f2937; font-size: 13px; font-weight: 600; text-align: right; border-bottom: 1px solid #e5e7eb; font-family: 'Courier New', monospace;">${escapeHtml(data.paymentReference)}</td>
+        </tr>
+        <tr>
+          <td style="padding: 12px 0; color: #6b7280; font-size: 14px; border-bottom: 1px solid #e5e7eb;">Refunded</td>
+          <td style="padding: 12px 0; color: #1f2937; font-size: 14px; font-weight: 600; text-align: right; border-bottom: 1px solid #e5e7eb;">${format(data.refundAmount)}</td>
+        </tr>
+        <tr>
+          <td style="padding: 12px 0; color: #6b7280; font-size: 14px;">Reason</td>
+          <td style="padding: 12px 0; color: #1f2937; font-size: 14px; text-align: right;">${escapeHtml(data.reason)}</td>
+        </tr>
+      </table>
+
+      <div style="background: #fef3c7; border-radius: 12px; padding: 16px 20px; border-left: 4px solid #f59e0b;">
+        <p style="color: #92400e; font-size: 14px; line-height: 1.6; margin: 0;">
+          ${receiptNote}
+        </p>
+      </div>
+
+      <p style="color: #6b7280; font-size: 13px; line-height: 1.6; margin: 24px 0 0;">
+        Refunds usually reach your account within 7-14 working days. If you have any questions, contact us at
+        <a href="mailto:${escapeHtml(org.email)}" style="color: #0d9488;">${escapeHtml(org.email)}</a>.
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
+
+// ============================================
+// ANNUAL TAX STATEMENT EMAIL
+// ============================================
+
+interface AnnualStatementEmailData {
+  statementNumber: string
+  year: number
+  donorName: string
+  donorEmail: string
+  totalAmount: number // In currency units, not cents
+  donationCount: number
+  currency: string
+  pdfBuffer: Buffer
+  organization?: OrganizationConfig
+}
+
+/**
+ * Send a donor their consolidated annual statement with the PDF attached
+ */
+export async function sendAnnualStatementEmail(
+  data: AnnualStatementEmailData
+): Promise<EmailResult> {
+  if (!process.env.RESEND_API_KEY) {
+    console.error('RESEND_API_KEY is not configured')
+    return { success: false, reason: 'no_api_key' }
+  }
+
+  if (!data.donorEmail) {
+    return { success: false, reason: 'no_recipient', error: 'No donor email address provided' }
+  }
+
+  try {
+    const formattedAmount = new Intl.NumberFormat('en-MY', {
+      style: 'currency',
+      currency: data.currency || 'MYR',
+    }).format(data.totalAmount)
+
+    const { data: responseData, error } = await resend.emails.send({
+      from: DEFAULT_FROM,
+      to: data.donorEmail,
+      subject: `Your ${data.year} Donation Statement - ${data.statementNumber}`,
+      html: generateAnnualStatementEmailHtml(data, formattedAmount),
+      attachments: [{
+        filename: `YIP-Statement-${data.statementNumber}.pdf`,
+        content: data.pdfBuffer,
+        contentType: 'application/pdf',
+      }],
+    })
+
+    if (error) {
+      console.error('Failed to send annual statement email:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, messageId: responseData?.id }
+  } catch (error) {
+    console.error('Failed to send annual statement email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Generate HTML email content for an annual statement
+ */
+function generateAnnualStatementEmailHtml(
+  data: AnnualStatementEmailData,
+  formattedAmount: string
+): string {
+  const org = data.organization || getDefaultOrganizationConfig()
+
+  const taxNote = org.taxExemptionRef
+    ? `Donations to ${escapeHtml(org.name)} are tax deductible (ref. <strong>${escapeHtml(org.taxExemptionRef)}</strong>). Keep the attached statement with your records when filing your income tax return.`
+    : `The attached statement summarises your donations for your records. ${escapeHtml(org.name)} does not currently hold a tax exemption approval.`
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${data.year} Donation Statement - ${escapeHtml(org.name)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f9fafb; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background: linear-gradient(135deg, #0d9488 0%, #0f766e 100%); padding: 32px 30px; border-radius: 16px 16px 0 0; text-align: center;">
+      <h1 style="color: white; margin: 0; font-size: 26px; font-weight: 700;">
+        Your ${data.year} Donation Statement
+      </h1>
+    </div>
+
+    <div style="background: #ffffff; padding: 32px 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 16px 16px;">
+      <p style="color: #1f2937; font-size: 16px; line-height: 1.7; margin: 0 0 16px;">
+        Assalamualaikum <strong>${escapeHtml(data.donorName)}</strong>,
+      </p>
+      <p style="color: #4b5563; font-size: 15px; line-height: 1.7; margin: 0 0 24px;">
+        Thank you for supporting <strong>${escapeHtml(org.name)}</strong> throughout ${data.year}.
+        Attached is a single statement listing every donation you made this year.
+      </p>
+
+      <table style="width: 100%; border-collapse: collapse; margin-bottom: 24px;">
+        <tr>
+          <td style="padding: 12px 0; color: #6b7280; font-size: 14px; border-bottom: 1px solid #e5e7eb;">Statement Number</td>
+          <td style="padding: 12px 0; color: #1f2937; font-size: 13px; font-weight: 600; text-align: right; border-bottom: 1px solid #e5e7eb; font-family: 'Courier New', monospace;">${escapeHtml(data.statementNumber)}</td>
+        </tr>
+        <tr>
+          <td style="padding: 12px 0; color: #6b7280; font-size: 14px; border-bottom: 1px solid #e5e7eb;">Donations</td>
+          <td style="padding: 12px 0; color: #1f2937; font-size: 14px; font-weight: 600; text-align: right; border-bottom: 1px solid #e5e7eb;">${data.donationCount}</td>
+        </tr>
+        <tr>
+          <td style="padding: 12px 0; color: #6b7280; font-size: 14px;">Total</td>
+          <td style="padding: 12px 0; color: #0d9488; font-size: 16px; font-weight: 700; text-align: right;">${formattedAmount}</td>
+        </tr>
+      </table>
+
+      <div style="background: #f0fdfa; border-radius: 12px; padding: 16px 20px; border-left: 4px solid #0d9488;">
+        <p style="color: #115e59; font-size: 14px; line-height: 1.6; margin: 0;">
+          ${taxNote}
+        </p>
+      </div>
+
+      <p style="color: #6b7280; font-size: 13px; line-height: 1.6; margin: 24px 0 0;">
+        If any donation is missing or incorrect, reply to this email or contact us at
+        <a href="mailto:${escapeHtml(org.email)}" style="color: #0d9488;">${escapeHtml(org.email)}</a>.
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
+
+// ============================================
+// FUNDRAISER OWNER EMAILS
+// ============================================
+
+interface FundraiserStatusEmailData {
+  status: 'submitted' | 'approved' | 'rejected'
+  ownerName: string
+  ownerEmail: string
+  title: string
+  pageUrl: string
+  rejectionReason?: string | null
+  organization?: OrganizationConfig
+}
+
+/**
+ * Let a supporter know their fundraiser page was received, approved or rejected
+ */
+export async function sendFundraiserStatusEmail(
+  data: FundraiserStatusEmailData
+): Promise<EmailResult> {
+  if (!process.env.RESEND_API_KEY) {
+    console.error('RESEND_API_KEY is not configured')
+    return { success: false, reason: 'no_api_key' }
+  }
+
+  if (!data.ownerEmail) {
+    return { success: false, reason: 'no_recipient', error: 'No fundraiser email address provided' }
+  }
+
+  const subjects: Record<FundraiserStatusEmailData['status'], string> = {
+    submitted: `We've Received Your Fundraiser: ${data.title}`,
+    approved: `Your Fundraiser Is Live: ${data.title}`,
+    rejected: `Update on Your Fundraiser: ${data.title}`,
+  }
+
+  try {
+    const { data: responseData, error } = await resend.emails.send({
+      from: DEFAULT_FROM,
+      to: data.ownerEmail,
+      subject: subjects[data.status],
+      html: generateFundraiserStatusEmailHtml(data),
+    })
+
+    if (error) {
+      console.error('Failed to send fundraiser status email:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, messageId: responseData?.id }
+  } catch (error) {
+    console.error('Failed to send fundraiser status email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Generate HTML email content for a fundraiser status update
+ */
+function generateFundraiserStatusEmailHtml(data: FundraiserStatusEmailData): string {
+  const org = data.organization || getDefaultOrganizationConfig()
+
+  const headings: Record<FundraiserStatusEmailData['status'], string> = {
+    submitted: 'Thank You for Fundraising',
+    approved: 'Your Fundraiser Is Live',
+    rejected: 'Your Fundraiser Was Not Approved',
+  }
+
+  let body: string
+  if (data.status === 'submitted') {
+    body = `
+      <p style="color: #4b5563; font-size: 15px; line-height: 1.7; margin: 0 0 24px;">
+        We've received your fundraiser <strong>${escapeHtml(data.title)}</strong>. Our team reviews every page
+        before it goes live, usually within two working days. We'll email you as soon as it has been reviewed.
+      </p>`
+  } else if (data.status === 'approved') {
+    body = `
+      <p style="color: #4b5563; font-size: 15px; line-height: 1.7; margin: 0 0 24px;">
+        Your fundraiser <strong>${escapeHtml(data.title)}</strong> has been approved and is now open for donations.
+        Share the link with friends, family and colleagues. We'll email you each time someone donates.
+      </p>
+      <div style="text-align: center; margin-bottom: 24px;">
+        <a href="${escapeHtml(data.pageUrl)}"
+           style="display: inline-block; background: linear-gradient(135deg, #0d9488 0%, #0f766e 100%); color: white; padding: 16px 48px; border-radius: 12px; text-decoration: none; font-weight: 600; font-size: 15px;">
+          View Your Fundraiser
+        </a>
+      </div>
+      <p style="color: #6b7280; font-size: 13px; line-height: 1.6; margin: 0; word-break: break-all; text-align: center;">
+        ${escapeHtml(data.pageUrl)}
+      </p>`
+  } else {
+    body = `
+      <p style="color: #4b5563; font-size: 15px; line-height: 1.7; margin: 0 0 16px;">
+        Thank you for wanting to raise funds with us. Unfortunately we couldn't approve
+        <strong>${escapeHtml(data.title)}</strong> as submitted.
+      </p>
+      ${data.rejectionReason ? `
+      <div style="background: #fef2f2; border-radius: 12px; padding: 16px 20px; border-left: 4px solid #ef4444; margin-bottom: 24px;">
+        <p style="color: #991b1b; font-size: 14px; line-height: 1.6; margin: 0;">
+          ${escapeHtml(data.rejectionReason)}
+        </p>
+      </div>` : ''}
+      <p style="color: #4b5563; font-size: 15px; line-height: 1.7; margin: 0;">
+        You're welcome to submit a new page, or reply to this email if you have any questions.
+      </p>`
+  }
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${headings[data.status]} - ${escapeHtml(org.name)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f0fdfa; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background: linear-gradient(135deg, #0d9488 0%, #0f766e 100%); padding: 32px 30px; border-radius: 16px 16px 0 0; text-align: center;">
+      <h1 style="color: white; margin: 0; font-size: 26px; font-weight: 700;">
+        ${headings[data.status]}
+      </h1>
+    </div>
+
+    <div style="background: #ffffff; padding: 32px 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 16px 16px;">
+      <p style="color: #1f2937; font-size: 16px; line-height: 1.7; margin: 0 0 16px;">
+        Assalamualaikum <strong>${escapeHtml(data.ownerName)}</strong>,
+      </p>
+      ${body}
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
+
+interface FundraiserDonationEmailData {
+  ownerName: string
+  ownerEmail: string
+  title: string
+  pageUrl: string
+  donorName: string
+  amount: number // In currency units, not cents
+  raised: number // Page total so far, in currency units
+  goal: number // In currency units
+  currency: string
+  organization?: OrganizationConfig
+}
+
+/**
+ * Tell a fundraiser owner that someone donated through their page
+ */
+export async function sendFundraiserDonationEmail(
+  data: FundraiserDonationEmailData
+): Promise<EmailResult> {
+  if (!process.env.RESEND_API_KEY) {
+    console.error('RESEND_API_KEY is not configured')
+    return { success: false, reason: 'no_api_key' }
+  }
+
+  if (!data.ownerEmail) {
+    return { success: false, reason: 'no_recipient', error: 'No fundraiser email address provided' }
+  }
+
+  try {
+    const format = (value: number) => new Intl.NumberFormat('en-MY', {
+      style: 'currency',
+      currency: data.currency || 'MYR',
+    }).format(value)
+
+    const { data: responseData, error } = await resend.emails.send({
+      from: DEFAULT_FROM,
+      to: data.ownerEmail,
+      subject: `${data.donorName} donated ${format(data.amount)} to ${data.title}`,
+      html: generateFundraiserDonationEmailHtml(data, format),
+    })
+
+    if (error) {
+      console.error('Failed to send fundraiser donation email:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, messageId: responseData?.id }
+  } catch (error) {
+    console.error('Failed to send fundraiser donation email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Generate HTML email content for a donation made through a fundraiser page
+ */
+function generateFundraiserDonationEmailHtml(
+  data: FundraiserDonationEmailData,
+  format: (value: number) => string
+): string {
+  const org = data.organization || getDefaultOrganizationConfig()
+  const percent = data.goal > 0 ? Math.min(100, Math.round((data.raised / data.goal) * 100)) : 0
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>New Donation - ${escapeHtml(org.name)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f0fdfa; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background: linear-gradient(135deg, #0d9488 0%, #0f766e 100%); padding: 32px 30px; border-radius: 16px 16px 0 0; text-align: center;">
+      <h1 style="color: white; margin: 0; font-size: 26px; font-weight: 700;">
+        You Received a Donation
+      </h1>
+      <p style="color: rgba(255,255,255,0.95); margin: 8px 0 0; font-size: 15px;">
+        ${escapeHtml(data.title)}
+      </p>
+    </div>
+
+    <div style="background: #ffffff; padding: 32px 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 16px 16px;">
+      <p style="color: #1f2937; font-size: 16px; line-height: 1.7; margin: 0 0 16px;">
+        Assalamualaikum <strong>${escapeHtml(data.ownerName)}</strong>,
+      </p>
+      <p style="color: #4b5563; font-size: 15px; line-height: 1.7; margin: 0 0 24px;">
+        <strong>${escapeHtml(data.donorName)}</strong> just donated <strong>${format(data.amount)}</strong> through your fundraiser.
+      </p>
+
+      <div style="background: #f0fdfa; border-radius: 12px; padding: 16px 20px; margin-bottom: 24px;">
+        <p style="color: #115e59; font-size: 14px; margin: 0 0 8px;">
+          <strong>${format(data.raised)}</strong> raised of ${format(data.goal)} (${percent}%)
+        </p>
+        <div style="height: 8px; background: #ccfbf1; border-radius: 4px; overflow: hidden;">
+          <div style="height: 8px; width: ${percent}%; background: #0d9488;"></div>
+        </div>
+      </div>
+
+      <div style="text-align: center;">
+        <a href="${escapeHtml(data.pageUrl)}"
+           style="display: inline-block; background: linear-gradient(135deg, #0d9488 0%, #0f766e 100%); color: white; padding: 16px 48px; border-radius: 12px; text-decoration: none; font-weight: 600; font-size: 15px;">
+          Share Your Fundraiser
+        </a>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
+
+// ============================================
+// TRIBUTE E-CARD EMAIL
+// ============================================
+
+interface TributeCardEmailData {
+  tributeType: TributeType
+  tributeName: string
+  recipientEmail: string
+  donorName: string | null // Null when the donor gave anonymously
+  message?: string | null
+  organization?: OrganizationConfig
+}
+
+/**
+ * Send the bilingual e-card for a donation made in memory or in honour of
+ * someone. The card does not mention the amount.
+ */
+export async function sendTributeCardEmail(
+  data: TributeCardEmailData
+): Promise<EmailResult> {
+  if (!process.env.RESEND_API_KEY) {
+    console.error('RESEND_API_KEY is not configured')
+    return { success: false, reason: 'no_api_key' }
+  }
+
+  if (!data.recipientEmail) {
+    return { success: false, reason: 'no_recipient', error: 'No e-card recipient email address provided' }
+  }
+
+  const subject = data.tributeType === 'in_memory'
+    ? `A donation in memory of ${data.tributeName} / Sedekah untuk arwah ${data.tributeName}`
+    : `A donation in honour of ${data.tributeName} / Derma sebagai penghargaan kepada ${data.tributeName}`
+
+  try {
+    const { data: responseData, error } = await resend.emails.send({
+      from: DEFAULT_FROM,
+      to: data.recipientEmail,
+      subject,
+      html: generateTributeCardEmailHtml(data),
+    })
+
+    if (error) {
+      console.error('Failed to send tribute e-card:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, messageId: responseData?.id }
+  } catch (error) {
+    console.error('Failed to send tribute e-card:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Generate HTML for a tribute e-card, English first then Bahasa Melayu
+ */
+function generateTributeCardEmailHtml(data: TributeCardEmailData): string {
+  const org = data.organization || getDefaultOrganizationConfig()
+  const name = escapeHtml(data.tributeName)
+  const orgName = escapeHtml(org.name)
+  const inMemory = data.tributeType === 'in_memory'
+
+  const donorEn = data.donorName ? escapeHtml(data.donorName) : 'Someone who cares'
+  const donorMs = data.donorName ? escapeHtml(data.donorName) : 'Seseorang yang prihatin'
+
+  const en = inMemory
+    ? `<strong>${donorEn}</strong> has made a donation to <strong>${orgName}</strong> in memory of <strong>${name}</strong>. May it bring continuing reward (sadaqah jariyah) and be a source of comfort to all who loved them.`
+    : `<strong>${donorEn}</strong> has made a donation to <strong>${orgName}</strong> in honour of <strong>${name}</strong>, to celebrate them and the good they bring to others.`
+
+  const ms = inMemory
+    ? `<strong>${donorMs}</strong> telah menderma kepada <strong>${orgName}</strong> sebagai sedekah untuk arwah <strong>${name}</strong>. Semoga ia menjadi sedekah jariah dan membawa ketenangan kepada semua yang menyayanginya.`
+    : `<strong>${donorMs}</strong> telah menderma kepada <strong>${orgName}</strong> sebagai penghargaan kepada <strong>${name}</strong>, meraikan kebaikan yang dibawanya kepada orang lain.`
+
+  const messageBlock = data.message
+    ? `
+      <div style="background: #f0fdfa; border-radius: 12px; padding: 20px 24px; margin: 0 0 24px; border-left: 4px solid #0d9488;">
+        <p style="color: #115e59; font-size: 15px; line-height: 1.7; margin: 0; font-style: italic; white-space: pre-line;">
+          &ldquo;${escapeHtml(data.message)}&rdquo;
+        </p>
+      </div>`
+    : ''
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${inMemory ? 'In Loving Memory' : 'In Honour'} - ${orgName}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f0fdfa; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background: linear-gradient(135deg, ${inMemory ? '#334155 0%, #1e293b' : '#0d9488 0%, #0f766e'} 100%); padding: 40px 30px; border-radius: 16px 16px 0 0; text-align: center;">
+      <p style="color: rgba(255,255,255,0.8); margin: 0 0 8px; font-size: 13px; letter-spacing: 2px; text-transform: uppercase;">
+        ${inMemory ? 'In Loving Memory &middot; Sedekah untuk Arwah' : 'In Honour &middot; Sebagai Penghargaan'}
+      </p>
+      <h1 style="color: white; margin: 0; font-size: 30px; font-weight: 700;">
+        ${name}
+      </h1>
+    </div>
+
+    <div style="background: #ffffff; padding: 32px 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 16px 16px;">
+      <p style="color: #1f2937; font-size: 16px; line-height: 1.8; margin: 0 0 24px;">
+        ${en}
+      </p>
+      ${messageBlock}
+      <div style="border-top: 1px solid #e5e7eb; padding-top: 24px;">
+        <p style="color: #4b5563; font-size: 15px; line-height: 1.8; margin: 0;">
+          ${ms}
+        </p>
+      </div>
+
+      <p style="color: #9ca3af; font-size: 12px; line-height: 1.6; margin: 32px 0 0; text-align: center;">
+        ${orgName} &middot; <a href="mailto:${escapeHtml(org.email)}" style="color: #0d9488;">${escapeHtml(org.email)}</a>
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
+
+// ============================================
+// DONATION RECOVERY EMAIL
+// ============================================
+
+interface DonationRecoveryEmailData {
+  donorName: string | null
+  donorEmail: string
+  amount: number // In currency units, not cents
+  currency: string
+  projectTitle?: string
+  paymentUrl: string
+  locale: 'en' | 'ms'
+  organization?: OrganizationConfig
+}
+
+const RECOVERY_EMAIL_COPY = {
+  en: {
+    subject: (amount: string) => `Complete your donation of ${amount}`,
+    heading: 'Your donation is almost done',
+    greeting: 'Assalamualaikum',
+    friend: 'friend',
+    body: (amount: string, orgName: string, projectTitle?: string) =>
+      `You started a donation of <strong>${amount}</strong> to <strong>${orgName}</strong>${projectTitle ? ` for <strong>${projectTitle}</strong>` : ''}, but the payment was not completed. It only takes a minute to finish.`,
+    button: (amount: string) => `Donate ${amount}`,
+    footer: 'If you have changed your mind, simply ignore this email.',
+  },
+  ms: {
+    subject: (amount: string) => `Lengkapkan derma anda sebanyak ${amount}`,
+    heading: 'Derma anda hampir selesai',
+    greeting: 'Assalamualaikum',
+    friend: 'tuan/puan',
+    body: (amount: string, orgName: string, projectTitle?: string) =>
+      `Anda telah memulakan derma sebanyak <strong>${amount}</strong> kepada <strong>${orgName}</strong>${projectTitle ? ` untuk <strong>${projectTitle}</strong>` : ''}, tetapi pembayaran tidak diselesaikan. Ia hanya mengambil masa seminit.`,
+    button: (amount: string) => `Derma ${amount}`,
+    footer: 'Jika anda telah berubah fikiran, abaikan sahaja emel ini.',
+  },
+}
+
+/**
+ * Remind a donor to finish a donation they left at the payment page, in the
+ * language they donated in
+ */
+export async function sendDonationRecoveryEmail(
+  data: DonationRecoveryEmailData
+): Promise<EmailResult> {
+  if (!process.env.RESEND_API_KEY) {
+    console.error('RESEND_API_KEY is not configured')
+    return { success: false, reason: 'no_api_key' }
+  }
+
+  if (!data.donorEmail) {
+    return { success: false, reason: 'no_recipient', error: 'No donor email address provided' }
+  }
+
+  try {
+    const formattedAmount = new Intl.NumberFormat(data.locale === 'ms' ? 'ms-MY' : 'en-MY', {
+      style: 'currency',
+      currency: data.currency || 'MYR',
+    }).format(data.amount)
+
+    const { data: responseData, error } = await resend.emails.send({
+      from: DEFAULT_FROM,
+      to: data.donorEmail,
+      subject: RECOVERY_EMAIL_COPY[data.locale].subject(formattedAmount),
+      html: generateDonationRecoveryEmailHtml(data, formattedAmount),
+    })
+
+    if (error) {
+      console.error('Failed to send donation recovery email:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, messageId: responseData?.id }
+  } catch (error) {
+    console.error('Failed to send donation recovery email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Generate HTML email content for a donation recovery reminder
+ */
+function generateDonationRecoveryEmailHtml(
+  data: DonationRecoveryEmailData,
+  formattedAmount: string
+): string {
+  const org = data.organization || getDefaultOrganizationConfig()
+  const copy = RECOVERY_EMAIL_COPY[data.locale]
+
+  return `
+<!DOCTYPE html>
+<html lang="${data.locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${copy.heading} - ${escapeHtml(org.name)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f0fdfa; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background: linear-gradient(135deg, #0d9488 0%, #0f766e 100%); padding: 32px 30px; border-radius: 16px 16px 0 0; text-align: center;">
+      <h1 style="color: white; margin: 0; font-size: 26px; font-weight: 700;">
+        ${copy.heading}
+      </h1>
+    </div>
+
+    <div style="background: #ffffff; padding: 32px 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 16px 16px;">
+      <p style="color: #1f2937; font-size: 16px; line-height: 1.7; margin: 0 0 16px;">
+        ${copy.greeting} <strong>${escapeHtml(data.donorName || copy.friend)}</strong>,
+      </p>
+      <p style="color: #4b5563; font-size: 15px; line-height: 1.7; margin: 0 0 24px;">
+        ${copy.body(formattedAmount, escapeHtml(org.name), data.projectTitle ? escapeHtml(data.projectTitle) : undefined)}
+      </p>
+
+      <div style="text-align: center; margin-bottom: 24px;">
+        <a href="${escapeHtml(data.paymentUrl)}"
+           style="display: inline-block; background: linear-gradient(135deg, #0d9488 0%, #0f766e 100%); color: white; padding: 16px 48px; border-radius: 12px; text-decoration: none; font-weight: 600; font-size: 15px;">
+          ${copy.button(formattedAmount)}
+        </a>
+      </div>
+
+      <p style="color: #6b7280; font-size: 13px; line-height: 1.6; margin: 0; text-align: center;">
+        ${copy.footer}
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
+
+// ============================================
+// DONOR PORTAL SIGN-IN EMAIL
+// ============================================
+
+interface DonorLoginEmailData {
+  donorName: string | null
+  donorEmail: string
+  loginUrl: string
+  expiresInMinutes: number
+  locale: 'en' | 'ms'
+  organization?: OrganizationConfig
+}
+
+const DONOR_LOGIN_EMAIL_COPY = {
+  en: {
+    subject: (orgName: string) => `Your sign-in link for ${orgName}`,
+    heading: 'Sign in to your donor account',
+    greeting: 'Assalamualaikum',
+    friend: 'friend',
+    body: 'Use the button below to see your donations, download receipts and statements, and manage your monthly giving.',
+    button: 'Sign in',
+    footer: (minutes: number) =>
+      `This link works once and expires in ${minutes} minutes. If you did not ask to sign in, you can ignore this email.`,
+  },
+  ms: {
+    subject: (orgName: string) => `Pautan log masuk anda untuk ${orgName}`,
+    heading: 'Log masuk ke akaun penderma anda',
+    greeting: 'Assalamualaikum',
+    friend: 'tuan/puan',
+    body: 'Gunakan butang di bawah untuk melihat derma anda, memuat turun resit dan penyata, serta mengurus derma bulanan anda.',
+    button: 'Log masuk',
+    footer: (minutes: number) =>
+      `Pautan ini hanya boleh digunakan sekali dan tamat tempoh dalam ${minutes} minit. Jika anda tidak meminta untuk log masuk, abaikan sahaja emel ini.`,
+  },
+}
+
+/**
+ * Send a donor the one-time link that signs them in to the donor portal
+ */
+export async function sendDonorLoginEmail(
+  data: DonorLoginEmailData
+): Promise<EmailResult> {
+  if (!process.env.RESEND_API_KEY) {
+    console.error('RESEND_API_KEY is not configured')
+    return { success: false, reason: 'no_api_key' }
+  }
+
+  if (!data.donorEmail) {
+    return { success: false, reason: 'no_recipient', error: 'No donor email address provided' }
+  }
+
+  try {
+    const org = data.organization || getDefaultOrganizationConfig()
+
+    const { data: responseData, error } = await resend.emails.send({
+      from: DEFAULT_FROM,
+      to: data.donorEmail,
+      subject: DONOR_LOGIN_EMAIL_COPY[data.locale].subject(org.name),
+      html: generateDonorLoginEmailHtml(data),
+    })
+
+    if (error) {
+      console.error('Failed to send donor login email:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, messageId: responseData?.id }
+  } catch (error) {
+    console.error('Failed to send donor login email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Generate HTML email content for a donor portal sign-in link
+ */
+function generateDonorLoginEmailHtml(data: DonorLoginEmailData): string {
+  const org = data.organization || getDefaultOrganizationConfig()
+  const copy = DONOR_LOGIN_EMAIL_COPY[data.locale]
+
+  return `
+<!DOCTYPE html>
+<html lang="${data.locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${copy.heading} - ${escapeHtml(org.name)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f0fdfa; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background: linear-gradient(135deg, #0d9488 0%, #0f766e 100%); padding: 32px 30px; border-radius: 16px 16px 0 0; text-align: center;">
+      <h1 style="color: white; margin: 0; font-size: 26px; font-weight: 700;">
+        ${copy.heading}
+      </h1>
+    </div>
+
+    <div style="background: #ffffff; padding: 32px 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 16px 16px;">
+      <p style="color: #1f2937; font-size: 16px; line-height: 1.7; margin: 0 0 16px;">
+        ${copy.greeting} <strong>${escapeHtml(data.donorName || copy.friend)}</strong>,
+      </p>
+      <p style="color: #4b5563; font-size: 15px; line-height: 1.7; margin: 0 0 24px;">
+        ${copy.body}
+      </p>
+
+      <div style="text-align: center; margin-bottom: 24px;">
+        <a href="${escapeHtml(data.loginUrl)}"
+           style="display: inline-block; background: linear-gradient(135deg, #0d9488 0%, #0f766e 100%); color: white; padding: 16px 48px; border-radius: 12px; text-decoration: none; font-weight: 600; font-size: 15px;">
+          ${copy.button}
+        </a>
+      </div>
+
+      <p style="color: #6b7280; font-size: 13px; line-height: 1.6; margin: 0; text-align: center;">
+        ${copy.footer(data.expiresInMinutes)}
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim()
+}
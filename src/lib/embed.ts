@@ -0,0 +1,72 @@
+/**
+ * Embeddable Donation Widget
+ *
+ * Partner sites and our microsites add /embed.js, which renders an iframe
+ * of /[locale]/embed/donate. The iframe is our own page, so its donations
+ * go through POST /api/donations like the donate page; only the origins in
+ * EMBED_ALLOWED_ORIGINS may frame it (CSP frame-ancestors), and a donation
+ * is attributed to the embedding site only when that site is on the list.
+ *
+ * No database access here: the middleware imports this module.
+ */
+
+export const DEFAULT_EMBED_AMOUNTS = [50, 100, 250]
+
+// Most preset amount buttons the widget shows
+const MAX_EMBED_AMOUNTS = 4
+
+// Matches the limit in POST /api/donations
+const MAX_DONATION_AMOUNT = 100000
+
+function normalizeEmbedOrigin(value: string): string | null {
+  try {
+    const url = new URL(value.trim())
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null
+    return url.origin
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Origins allowed to embed the widget, from the comma-separated
+ * EMBED_ALLOWED_ORIGINS (e.g. "https://partner.org,https://ramadan.insanprihatin.org")
+ */
+export function getEmbedAllowedOrigins(): string[] {
+  const origins = (process.env.EMBED_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(normalizeEmbedOrigin)
+    .filter((origin): origin is string => !!origin)
+  return [...new Set(origins)]
+}
+
+/**
+ * The embedding site to record on a donation, or null when the value is
+ * missing, malformed or not on the allowlist
+ */
+export function resolveEmbedOrigin(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null
+  const origin = normalizeEmbedOrigin(value)
+  return origin && getEmbedAllowedOrigins().includes(origin) ? origin : null
+}
+
+/**
+ * CSP frame-ancestors source list for widget pages
+ */
+export function embedFrameAncestors(): string {
+  return ["'self'", ...getEmbedAllowedOrigins()].join(' ')
+}
+
+/**
+ * Preset amounts in ringgit from the widget's `amounts` parameter
+ * ("50,100,200"). Falls back to the defaults when none are usable.
+ */
+export function parseEmbedAmounts(value: string | null | undefined): number[] {
+  const amounts = (value || '')
+    .split(',')
+    .map(part => Number(part.trim()))
+    .filter(amount => Number.isInteger(amount) && amount >= 1 && amount <= MAX_DONATION_AMOUNT)
+
+  const unique = [...new Set(amounts)].slice(0, MAX_EMBED_AMOUNTS)
+  return unique.length > 0 ? unique : DEFAULT_EMBED_AMOUNTS
+}
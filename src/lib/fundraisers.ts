@@ -0,0 +1,337 @@
+/**
+ * Supporter Fundraisers
+ *
+ * Supporters can create their own fundraiser page for a project, with a
+ * personal goal, story and photo. Pages start 'pending' and only go live
+ * once an admin approves them from the moderation queue; an approved page
+ * can later be closed to stop new donations. Donations made through a page
+ * are attributed to it and still count towards the project as usual.
+ * Like campaigns, progress is summed from completed donations so refunds
+ * are always reflected.
+ */
+
+import crypto from 'crypto'
+import { db, donations, fundraisers, projects } from '@/db'
+import { and, eq, inArray, sql } from 'drizzle-orm'
+import { sendFundraiserDonationEmail, sendFundraiserStatusEmail } from '@/lib/email'
+import { getLocalizedValue } from '@/i18n/config'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('Fundraiser')
+
+export type Fundraiser = typeof fundraisers.$inferSelect
+
+export const FUNDRAISER_STATUSES = ['pending', 'approved', 'rejected', 'closed'] as const
+export type FundraiserStatus = typeof FUNDRAISER_STATUSES[number]
+
+export function isFundraiserStatus(value: unknown): value is FundraiserStatus {
+  return typeof value === 'string' && (FUNDRAISER_STATUSES as readonly string[]).includes(value)
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Goal limits in cents
+export const MIN_FUNDRAISER_GOAL = 100_00
+export const MAX_FUNDRAISER_GOAL = 1_000_000_00
+
+export interface FundraiserInput {
+  projectId: string
+  ownerName: string
+  ownerEmail: string
+  title: string
+  story: string
+  goal: number // In cents
+}
+
+// All amounts in cents
+export interface FundraiserProgress {
+  raised: number
+  goal: number
+  percent: number
+  donationCount: number
+  donorCount: number
+}
+
+/**
+ * Check a supporter's submission. Returns an error message, or null if the
+ * input is valid.
+ */
+export function validateFundraiserInput(input: FundraiserInput): string | null {
+  if (!input.projectId || !UUID_PATTERN.test(input.projectId)) return 'Please choose a project to fundraise for'
+  if (!input.ownerName.trim()) return 'Your name is required'
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.ownerEmail)) return 'A valid email address is required'
+  if (input.title.trim().length < 5 || input.title.trim().length > 120) return 'Title must be between 5 and 120 characters'
+  if (input.story.trim().length < 50) return 'Please tell supporters a little more about why you are fundraising (at least 50 characters)'
+  if (input.story.trim().length > 5000) return 'Story must be 5,000 characters or fewer'
+  if (!Number.isInteger(input.goal) || input.goal < MIN_FUNDRAISER_GOAL) return 'Goal must be at least RM 100'
+  if (input.goal > MAX_FUNDRAISER_GOAL) return 'Goal must be RM 1,000,000 or less'
+  return null
+}
+
+/**
+ * URL slug for a new page: the title in lowercase ASCII followed by a short
+ * random suffix, so two supporters with the same title never collide
+ */
+export function generateFundraiserSlug(title: string, suffix = crypto.randomBytes(3).toString('hex')): string {
+  const base = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 50)
+    .replace(/-+$/, '')
+
+  return base ? `${base}-${suffix}` : `fundraiser-${suffix}`
+}
+
+export function buildFundraiserProgress(
+  fundraiser: Pick<Fundraiser, 'goal'>,
+  totals: { raised: number; donationCount: number; donorCount: number }
+): FundraiserProgress {
+  return {
+    ...totals,
+    goal: fundraiser.goal,
+    percent: fundraiser.goal > 0 ? Math.min(100, (totals.raised / fundraiser.goal) * 100) : 0,
+  }
+}
+
+/**
+ * Progress towards the page goal, net of refunds and leaving out sandbox
+ * payments
+ */
+export async function getFundraiserProgress(fundraiser: Pick<Fundraiser, 'id' | 'goal'>): Promise<FundraiserProgress> {
+  const [totals] = await db
+    .select({
+      raised: sql<number>`COALESCE(SUM(${donations.amount} - COALESCE(${donations.refundedAmount}, 0)), 0)`,
+      donationCount: sql<number>`COUNT(*)`,
+      donorCount: sql<number>`COUNT(DISTINCT COALESCE(LOWER(${donations.donorEmail}), ${donations.id}::text))`,
+    })
+    .from(donations)
+    .where(and(
+      eq(donations.fundraiserId, fundraiser.id),
+      eq(donations.paymentStatus, 'completed'),
+      eq(donations.environment, 'production')
+    ))
+
+  return buildFundraiserProgress(fundraiser, {
+    raised: Number(totals?.raised || 0),
+    donationCount: Number(totals?.donationCount || 0),
+    donorCount: Number(totals?.donorCount || 0),
+  })
+}
+
+/**
+ * A fundraiser page visitors can see: approved pages, and closed pages so
+ * shared links keep working after fundraising stops
+ */
+export async function getPublicFundraiser(slug: string): Promise<Fundraiser | undefined> {
+  return db.query.fundraisers.findFirst({
+    where: and(
+      eq(fundraisers.slug, slug),
+      inArray(fundraisers.status, ['approved', 'closed'])
+    ),
+  })
+}
+
+function getSiteUrl(): string {
+  return process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+}
+
+export function getFundraiserUrl(fundraiser: Pick<Fundraiser, 'slug'>, baseUrl = getSiteUrl()): string {
+  return `${baseUrl}/fundraisers/${fundraiser.slug}`
+}
+
+/**
+ * The fundraiser a new donation should be attributed to. The page must be
+ * approved and raising for the same project, otherwise the donation is
+ * made without one rather than failing.
+ */
+export async function resolveDonationFundraiser(
+  fundraiserId: string | null | undefined,
+  projectId: string | null
+): Promise<string | null> {
+  if (!fundraiserId || !projectId || !UUID_PATTERN.test(fundraiserId)) return null
+
+  const fundraiser = await db.query.fundraisers.findFirst({
+    where: and(
+      eq(fundraisers.id, fundraiserId),
+      eq(fundraisers.status, 'approved'),
+      eq(fundraisers.projectId, projectId)
+    ),
+    columns: { id: true },
+  })
+
+  return fundraiser?.id || null
+}
+
+/**
+ * Save a supporter's submission as a pending page and let them know it is
+ * awaiting review
+ */
+export async function submitFundraiser(
+  input: FundraiserInput & { photoUrl: string | null }
+): Promise<{ success: boolean; fundraiser?: Fundraiser; error?: string }> {
+  const error = validateFundraiserInput(input)
+  if (error) return { success: false, error }
+
+  const project = await db.query.projects.findFirst({
+    where: and(
+      eq(projects.id, input.projectId),
+      eq(projects.isPublished, true),
+      eq(projects.donationEnabled, true)
+    ),
+    columns: { id: true },
+  })
+
+  if (!project) {
+    return { success: false, error: 'This project is not accepting donations' }
+  }
+
+  const [fundraiser] = await db.insert(fundraisers).values({
+    slug: generateFundraiserSlug(input.title),
+    projectId: project.id,
+    ownerName: input.ownerName.trim().substring(0, 100),
+    ownerEmail: input.ownerEmail.trim().toLowerCase(),
+    title: input.title.trim(),
+    story: input.story.trim(),
+    photoUrl: input.photoUrl,
+    goal: input.goal,
+    status: 'pending',
+  }).returning()
+
+  await sendFundraiserStatusEmail({
+    status: 'submitted',
+    ownerName: fundraiser.ownerName,
+    ownerEmail: fundraiser.ownerEmail,
+    title: fundraiser.title,
+    pageUrl: getFundraiserUrl(fundraiser),
+  })
+
+  logger.info('Fundraiser submitted', { fundraiserId: fundraiser.id, projectId: project.id })
+
+  return { success: true, fundraiser }
+}
+
+// Status changes an admin can make from the moderation queue
+const REVIEW_TRANSITIONS: Record<'approve' | 'reject' | 'close', { from: FundraiserStatus[]; to: FundraiserStatus }> = {
+  approve: { from: ['pending', 'rejected'], to: 'approved' },
+  reject: { from: ['pending', 'approved'], to: 'rejected' },
+  close: { from: ['approved'], to: 'closed' },
+}
+
+export type FundraiserReviewAction = keyof typeof REVIEW_TRANSITIONS
+
+/**
+ * Approve, reject or close a fundraiser page and email the owner about
+ * approvals and rejections
+ */
+export async function reviewFundraiser(
+  id: string,
+  action: FundraiserReviewAction,
+  reviewedBy: string,
+  reason?: string
+): Promise<{ success: boolean; fundraiser?: Fundraiser; error?: string }> {
+  const transition = REVIEW_TRANSITIONS[action]
+
+  const existing = await db.query.fundraisers.findFirst({
+    where: eq(fundraisers.id, id),
+  })
+
+  if (!existing) {
+    return { success: false, error: 'Fundraiser not found' }
+  }
+
+  // Conditional UPDATE so two admins reviewing at once cannot both apply
+  const now = new Date()
+  const [updated] = await db
+    .update(fundraisers)
+    .set({
+      status: transition.to,
+      reviewedBy,
+      reviewedAt: now,
+      rejectionReason: action === 'reject' ? reason || null : existing.rejectionReason,
+      updatedAt: now,
+    })
+    .where(and(
+      eq(fundraisers.id, id),
+      inArray(fundraisers.status, transition.from)
+    ))
+    .returning()
+
+  if (!updated) {
+    return { success: false, error: `Fundraiser cannot be ${action === 'close' ? 'closed' : `${action}d`} (current status: ${existing.status})` }
+  }
+
+  if (action !== 'close') {
+    await sendFundraiserStatusEmail({
+      status: action === 'approve' ? 'approved' : 'rejected',
+      ownerName: updated.ownerName,
+      ownerEmail: updated.ownerEmail,
+      title: updated.title,
+      pageUrl: getFundraiserUrl(updated),
+      rejectionReason: updated.rejectionReason,
+    })
+  }
+
+  logger.info('Fundraiser reviewed', { fundraiserId: id, action, reviewedBy })
+
+  return { success: true, fundraiser: updated }
+}
+
+/**
+ * Called whenever a donation transitions to completed. If it came through a
+ * fundraiser page, the page owner is emailed with the page's new total.
+ */
+export async function onFundraiserDonationCompleted(donation: {
+  id: string
+  fundraiserId: string | null
+  donorName: string | null
+  isAnonymous: boolean | null
+  amount: number
+  currency: string | null
+}): Promise<void> {
+  if (!donation.fundraiserId) return
+
+  try {
+    const fundraiser = await db.query.fundraisers.findFirst({
+      where: eq(fundraisers.id, donation.fundraiserId),
+    })
+
+    if (!fundraiser) return
+
+    const progress = await getFundraiserProgress(fundraiser)
+
+    await sendFundraiserDonationEmail({
+      ownerName: fundraiser.ownerName,
+      ownerEmail: fundraiser.ownerEmail,
+      title: fundraiser.title,
+      pageUrl: getFundraiserUrl(fundraiser),
+      donorName: donation.isAnonymous || !donation.donorName ? 'An anonymous supporter' : donation.donorName,
+      amount: donation.amount / 100,
+      raised: progress.raised / 100,
+      goal: progress.goal / 100,
+      currency: donation.currency || 'MYR',
+    })
+  } catch (error) {
+    logger.error('Failed to notify fundraiser owner', {
+      donationId: donation.id,
+      fundraiserId: donation.fundraiserId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
+
+/**
+ * Project titles for a set of fundraisers, for listing pages
+ */
+export async function getFundraiserProjectTitles(projectIds: string[]): Promise<Record<string, string>> {
+  if (projectIds.length === 0) return {}
+
+  const rows = await db.query.projects.findMany({
+    where: inArray(projects.id, [...new Set(projectIds)]),
+    columns: { id: true, title: true },
+  })
+
+  return Object.fromEntries(rows.map(project => [project.id, getLocalizedValue(project.title, 'en')]))
+}
@@ -0,0 +1,258 @@
+/**
+ * Designated Funds
+ *
+ * Every donation is designated to a fund so finance can account for zakat,
+ * waqf, general sedekah and project-restricted gifts separately. The donor
+ * picks zakat, waqf or sedekah; a sedekah gift to a project that has its
+ * own restricted fund is held in that fund instead. Balances are summed
+ * from donations rather than kept as running totals, like campaign
+ * progress.
+ */
+
+import { db, donations, funds, projects } from '@/db'
+import { and, asc, eq, inArray, isNull, sql } from 'drizzle-orm'
+import { getLocalizedValue } from '@/i18n/config'
+
+export type Fund = typeof funds.$inferSelect
+
+export const FUND_TYPES = ['zakat', 'waqf', 'sedekah', 'restricted'] as const
+export type FundType = typeof FUND_TYPES[number]
+
+export function isFundType(value: unknown): value is FundType {
+  return typeof value === 'string' && (FUND_TYPES as readonly string[]).includes(value)
+}
+
+export const FUND_TYPE_LABELS: Record<FundType, string> = {
+  zakat: 'Zakat',
+  waqf: 'Waqf',
+  sedekah: 'Sedekah',
+  restricted: 'Restricted',
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// All amounts in cents
+export interface FundBalance {
+  fundId: string | null // Null for donations made before funds existed
+  code: string
+  name: string
+  type: FundType | null
+  isActive: boolean
+  received: number
+  refunded: number
+  balance: number
+  donationCount: number
+}
+
+export interface FundTotalsRow {
+  fundId: string | null
+  received: number
+  refunded: number
+  donationCount: number
+}
+
+/**
+ * Funds the donor can choose from on the donate page. Restricted funds are
+ * never offered directly; they are picked from the project.
+ */
+export async function getDonorFunds(): Promise<Fund[]> {
+  return db.query.funds.findMany({
+    where: and(
+      eq(funds.isActive, true),
+      isNull(funds.projectId)
+    ),
+    orderBy: [asc(funds.sortOrder), asc(funds.createdAt)],
+  })
+}
+
+/**
+ * Projects with an active restricted fund, so the donate page can tell
+ * donors where a sedekah gift to the project will be held
+ */
+export async function getRestrictedProjectIds(): Promise<string[]> {
+  const restrictedFunds = await db.query.funds.findMany({
+    where: and(eq(funds.type, 'restricted'), eq(funds.isActive, true)),
+    columns: { projectId: true },
+  })
+  return restrictedFunds.flatMap(fund => fund.projectId ? [fund.projectId] : [])
+}
+
+/**
+ * The fund a new donation is designated to. Zakat and waqf stay in their
+ * own funds; otherwise a project gift goes to the project's restricted fund
+ * if it has one, then to the fund the donor chose, then to the first
+ * sedekah fund.
+ */
+export async function resolveDonationFund(
+  fundId: string | null | undefined,
+  projectId: string | null
+): Promise<string | null> {
+  const chosen = fundId && UUID_PATTERN.test(fundId)
+    ? await db.query.funds.findFirst({
+      where: and(eq(funds.id, fundId), eq(funds.isActive, true)),
+    })
+    : undefined
+
+  if (chosen && (chosen.type === 'zakat' || chosen.type === 'waqf') && !chosen.projectId) {
+    return chosen.id
+  }
+
+  if (projectId) {
+    const restricted = await db.query.funds.findFirst({
+      where: and(
+        eq(funds.projectId, projectId),
+        eq(funds.type, 'restricted'),
+        eq(funds.isActive, true)
+      ),
+    })
+    if (restricted) return restricted.id
+  }
+
+  if (chosen && !chosen.projectId) return chosen.id
+
+  const fallback = await db.query.funds.findFirst({
+    where: and(
+      eq(funds.type, 'sedekah'),
+      eq(funds.isActive, true),
+      isNull(funds.projectId)
+    ),
+    orderBy: [asc(funds.sortOrder), asc(funds.createdAt)],
+  })
+
+  return fallback?.id || null
+}
+
+/**
+ * Join per-fund totals onto the fund list. Every fund gets a row, even with
+ * no donations yet; donations without a fund are grouped as Undesignated.
+ */
+export function buildFundBalances(fundList: Fund[], totals: FundTotalsRow[]): FundBalance[] {
+  const totalsByFund = new Map(totals.map(row => [row.fundId, row]))
+
+  const toBalance = (
+    fund: Pick<FundBalance, 'fundId' | 'code' | 'name' | 'type' | 'isActive'>,
+    row: FundTotalsRow | undefined
+  ): FundBalance => {
+    const received = Number(row?.received || 0)
+    const refunded = Number(row?.refunded || 0)
+    return {
+      ...fund,
+      received,
+      refunded,
+      balance: received - refunded,
+      donationCount: Number(row?.donationCount || 0),
+    }
+  }
+
+  const balances = fundList.map(fund => toBalance({
+    fundId: fund.id,
+    code: fund.code,
+    name: getLocalizedValue(fund.name, 'en'),
+    type: isFundType(fund.type) ? fund.type : null,
+    isActive: fund.isActive ?? true,
+  }, totalsByFund.get(fund.id)))
+
+  const undesignated = totalsByFund.get(null)
+  if (undesignated && Number(undesignated.donationCount) > 0) {
+    balances.push(toBalance({
+      fundId: null,
+      code: 'undesignated',
+      name: 'Undesignated',
+      type: null,
+      isActive: false,
+    }, undesignated))
+  }
+
+  return balances
+}
+
+/**
+ * Received, refunded and net balance for every fund. Fully refunded
+ * donations count in both received and refunded so the two reconcile with
+ * the bank.
+ */
+export async function getFundBalances(environment: string = 'production'): Promise<FundBalance[]> {
+  const conditions = [inArray(donations.paymentStatus, ['completed', 'refunded'])]
+  if (environment !== 'all') {
+    conditions.push(eq(donations.environment, environment))
+  }
+
+  const [fundList, totals] = await Promise.all([
+    db.query.funds.findMany({
+      orderBy: [asc(funds.sortOrder), asc(funds.createdAt)],
+    }),
+    db
+      .select({
+        fundId: donations.fundId,
+        received: sql<number>`COALESCE(SUM(${donations.amount}), 0)`,
+        refunded: sql<number>`COALESCE(SUM(COALESCE(${donations.refundedAmount}, 0)), 0)`,
+        donationCount: sql<number>`COUNT(*) FILTER (WHERE ${donations.paymentStatus} = 'completed')`,
+      })
+      .from(donations)
+      .where(and(...conditions))
+      .groupBy(donations.fundId),
+  ])
+
+  return buildFundBalances(fundList, totals)
+}
+
+/**
+ * English fund names keyed by id, for admin tables and exports
+ */
+export async function getFundNames(): Promise<Record<string, string>> {
+  const fundList = await db.query.funds.findMany({
+    columns: { id: true, name: true },
+  })
+  return Object.fromEntries(fundList.map(fund => [fund.id, getLocalizedValue(fund.name, 'en')]))
+}
+
+/**
+ * English titles for the projects restricted funds are held for
+ */
+export async function getFundProjectTitles(projectIds: string[]): Promise<Record<string, string>> {
+  const ids = [...new Set(projectIds)]
+  if (ids.length === 0) return {}
+
+  const projectsList = await db.query.projects.findMany({
+    where: inArray(projects.id, ids),
+    columns: { id: true, title: true },
+  })
+  return Object.fromEntries(projectsList.map(project => [project.id, getLocalizedValue(project.title, 'en')]))
+}
+
+/**
+ * Render fund balances as CSV for the finance team
+ */
+export function fundBalancesToCsv(balances: FundBalance[]): string {
+  const headers = [
+    'Fund Code',
+    'Fund',
+    'Type',
+    'Donations',
+    'Received (RM)',
+    'Refunded (RM)',
+    'Balance (RM)',
+  ]
+
+  const rows = balances.map(balance => [
+    balance.code,
+    balance.name,
+    balance.type ? FUND_TYPE_LABELS[balance.type] : '',
+    String(balance.donationCount),
+    (balance.received / 100).toFixed(2),
+    (balance.refunded / 100).toFixed(2),
+    (balance.balance / 100).toFixed(2),
+  ])
+
+  const total = balances.reduce((sum, balance) => sum + balance.balance, 0)
+  rows.push(['', 'Total', '', '', '', '', (total / 100).toFixed(2)])
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.map(cell =>
+      cell.includes(',') || cell.includes('"') || cell.includes('\n')
+        ? `"${cell.replace(/"/g, '""')}"`
+        : cell
+    ).join(',')),
+  ].join('\n')
+}
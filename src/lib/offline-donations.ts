@@ -0,0 +1,352 @@
+/**
+ * Offline Donation Service
+ *
+ * Bank transfers, cash and cheques received outside the payment gateway are
+ * entered by an admin together with proof of payment. Each entry stays
+ * 'awaiting_approval' until a second admin approves it, at which point it is
+ * completed like an online donation: a receipt number is issued, the
+ * project's raised total goes up and the donor can be emailed a receipt.
+ * Rejected entries never count towards any totals.
+ */
+
+import { db, donations, donationLogs, projects } from '@/db'
+import { and, eq, sql } from 'drizzle-orm'
+import { assignReceiptNumber, getReceiptData } from '@/lib/receipt'
+import { recordIssuedReceipt } from '@/lib/receipt-register'
+import { resolveDonationCampaign } from '@/lib/campaigns'
+import { resolveDonationFund } from '@/lib/funds'
+import { findOrCreateDonor } from '@/lib/donors'
+import { sendDonationReceiptEmail } from '@/lib/email'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('OfflineDonation')
+
+export const OFFLINE_PAYMENT_GATEWAY = 'offline'
+
+export const OFFLINE_PAYMENT_METHODS = ['bank_transfer', 'cash', 'cheque'] as const
+export type OfflinePaymentMethod = typeof OFFLINE_PAYMENT_METHODS[number]
+
+export function isOfflinePaymentMethod(value: unknown): value is OfflinePaymentMethod {
+  return typeof value === 'string' && (OFFLINE_PAYMENT_METHODS as readonly string[]).includes(value)
+}
+
+/**
+ * Cash can be handed over without paperwork; transfers and cheques need a
+ * bank slip, screenshot or cheque image
+ */
+export function requiresProofOfPayment(method: OfflinePaymentMethod): boolean {
+  return method !== 'cash'
+}
+
+export interface OfflineDonationInput {
+  donorName: string
+  donorEmail?: string | null
+  donorPhone?: string | null
+  amount: number // In cents
+  projectId?: string | null
+  campaignId?: string | null // Only kept if the campaign was running on receivedAt
+  fundId?: string | null
+  paymentMethod: OfflinePaymentMethod
+  offlineReference?: string | null
+  receivedAt: Date
+  proofFileId?: string | null // In the private proofs bucket (see offline-proofs)
+  message?: string | null
+  isAnonymous?: boolean
+  recordedBy: string
+  bankStatementImportId?: string | null // The statement line is the proof of payment
+}
+
+export interface OfflineDonationResult {
+  success: boolean
+  error?: string
+  donationId?: string
+  paymentReference?: string | null
+  receiptNumber?: string | null
+  emailSent?: boolean
+}
+
+function generatePaymentReference(): string {
+  const timestamp = Date.now()
+  const randomPart = Math.random().toString(36).substring(2, 8).toUpperCase()
+  return `YIP-${timestamp}-${randomPart}`
+}
+
+async function logOfflineEvent(donationId: string, eventType: string, eventData: Record<string, unknown>) {
+  try {
+    await db.insert(donationLogs).values({
+      donationId,
+      eventType,
+      eventData,
+      ipAddress: 'admin',
+      userAgent: 'Admin-Dashboard',
+    })
+  } catch (error) {
+    logger.error('Failed to log offline donation event', {
+      donationId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
+
+/**
+ * Email the receipt for a donation completed outside the gateway webhook
+ */
+export async function emailDonationReceipt(donationId: string, reference: string, source: string): Promise<boolean> {
+  try {
+    const receiptData = await getReceiptData(reference)
+    if (!receiptData || !receiptData.donorEmail) return false
+
+    let pdfBuffer: Buffer | undefined
+    try {
+      const { renderToBuffer } = await import('@react-pdf/renderer')
+      const { ReceiptPDF } = await import('@/lib/receipt-pdf')
+      const React = await import('react')
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const element = React.createElement(ReceiptPDF as any, { data: receiptData })
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      pdfBuffer = await renderToBuffer(element as any)
+    } catch (pdfError) {
+      logger.error('Failed to generate PDF', {
+        donationId,
+        error: pdfError instanceof Error ? pdfError.message : 'Unknown error',
+      })
+    }
+
+    const emailResult = await sendDonationReceiptEmail({
+      receiptNumber: receiptData.receiptNumber,
+      donorName: receiptData.donorName,
+      donorEmail: receiptData.donorEmail,
+      amount: receiptData.amount,
+      currency: receiptData.currency,
+      projectTitle: receiptData.projectTitle,
+      paymentReference: receiptData.paymentReference,
+      completedAt: receiptData.completedAt,
+      pdfBuffer,
+      organization: receiptData.organization,
+    })
+
+    if (emailResult.success) {
+      await db
+        .update(donations)
+        .set({ receiptSentAt: new Date() })
+        .where(eq(donations.id, donationId))
+    }
+
+    await logOfflineEvent(donationId, emailResult.success ? 'receipt_email_sent' : 'receipt_email_failed', {
+      messageId: emailResult.messageId,
+      error: emailResult.error || emailResult.reason,
+      source,
+    })
+
+    return emailResult.success
+  } catch (emailError) {
+    logger.error('Receipt email error', {
+      donationId,
+      error: emailError instanceof Error ? emailError.message : 'Unknown error',
+    })
+    return false
+  }
+}
+
+/**
+ * Record an offline donation for approval by another admin
+ */
+export async function recordOfflineDonation(input: OfflineDonationInput): Promise<OfflineDonationResult> {
+  if (!Number.isInteger(input.amount) || input.amount < 100) {
+    return { success: false, error: 'Amount must be at least RM 1.00' }
+  }
+
+  if (!isOfflinePaymentMethod(input.paymentMethod)) {
+    return { success: false, error: 'Invalid payment method' }
+  }
+
+  if (requiresProofOfPayment(input.paymentMethod) && !input.proofFileId && !input.bankStatementImportId) {
+    return { success: false, error: 'Proof of payment is required for bank transfers and cheques' }
+  }
+
+  if (Number.isNaN(input.receivedAt.getTime()) || input.receivedAt.getTime() > Date.now()) {
+    return { success: false, error: 'Date received cannot be in the future' }
+  }
+
+  if (input.projectId) {
+    const project = await db.query.projects.findFirst({
+      where: eq(projects.id, input.projectId),
+      columns: { id: true },
+    })
+    if (!project) {
+      return { success: false, error: 'Project not found' }
+    }
+  }
+
+  const [donation] = await db
+    .insert(donations)
+    .values({
+      donorName: input.donorName,
+      donorEmail: input.donorEmail || null,
+      donorPhone: input.donorPhone || null,
+      donorId: await findOrCreateDonor({
+        name: input.donorName,
+        email: input.donorEmail,
+        phone: input.donorPhone,
+      }),
+      amount: input.amount,
+      currency: 'MYR',
+      projectId: input.projectId || null,
+      campaignId: await resolveDonationCampaign(input.campaignId, input.projectId || null, input.receivedAt),
+      fundId: await resolveDonationFund(input.fundId, input.projectId || null),
+      message: input.message || null,
+      isAnonymous: input.isAnonymous ?? false,
+      paymentStatus: 'awaiting_approval',
+      paymentReference: generatePaymentReference(),
+      paymentGateway: OFFLINE_PAYMENT_GATEWAY,
+      paymentMethod: input.paymentMethod,
+      paymentAttempts: 1,
+      environment: 'production', // Real money, never a sandbox test
+      offlineReference: input.offlineReference || null,
+      proofFileId: input.proofFileId || null,
+      receivedAt: input.receivedAt,
+      recordedBy: input.recordedBy,
+      bankStatementImportId: input.bankStatementImportId || null,
+    })
+    .returning()
+
+  await logOfflineEvent(donation.id, 'offline_recorded', {
+    amount: input.amount / 100,
+    paymentMethod: input.paymentMethod,
+    offlineReference: input.offlineReference,
+    receivedAt: input.receivedAt.toISOString(),
+    hasProof: !!input.proofFileId,
+    bankStatementImportId: input.bankStatementImportId,
+    recordedBy: input.recordedBy,
+  })
+
+  logger.info('Offline donation recorded', {
+    donationId: donation.id,
+    paymentMethod: input.paymentMethod,
+    recordedBy: input.recordedBy,
+  })
+
+  return { success: true, donationId: donation.id, paymentReference: donation.paymentReference }
+}
+
+/**
+ * Approve an offline donation, completing it and issuing its receipt.
+ * The approver must be a different admin from the one who recorded it.
+ */
+export async function approveOfflineDonation(
+  reference: string,
+  approvedBy: string,
+  options: { sendReceipt?: boolean } = {}
+): Promise<OfflineDonationResult> {
+  const donation = await db.query.donations.findFirst({
+    where: eq(donations.paymentReference, reference),
+  })
+
+  if (!donation || donation.paymentGateway !== OFFLINE_PAYMENT_GATEWAY) {
+    return { success: false, error: 'Offline donation not found' }
+  }
+
+  if (donation.paymentStatus !== 'awaiting_approval') {
+    return { success: false, error: `Donation is not awaiting approval (current status: ${donation.paymentStatus})` }
+  }
+
+  if (donation.recordedBy?.toLowerCase() === approvedBy.toLowerCase()) {
+    return { success: false, error: 'Offline donations must be approved by a different admin than the one who recorded them' }
+  }
+
+  const now = new Date()
+
+  // Conditional UPDATE so two admins approving at once only complete
+  // (and count) the donation once
+  const receiptNumber = await assignReceiptNumber(
+    and(
+      eq(donations.id, donation.id),
+      eq(donations.paymentStatus, 'awaiting_approval')
+    ),
+    {
+      paymentStatus: 'completed',
+      completedAt: donation.receivedAt || now,
+      completionRecordedAt: now,
+      reviewedBy: approvedBy,
+      reviewedAt: now,
+    },
+    now
+  )
+
+  if (!receiptNumber) {
+    return { success: false, error: 'Donation changed while it was being approved. Please refresh and try again.' }
+  }
+
+  await recordIssuedReceipt(reference, approvedBy)
+
+  if (donation.projectId) {
+    await db
+      .update(projects)
+      .set({
+        donationRaised: sql`COALESCE(donation_raised, 0) + ${donation.amount}`,
+      })
+      .where(eq(projects.id, donation.projectId))
+  }
+
+  await logOfflineEvent(donation.id, 'offline_approved', {
+    previousStatus: donation.paymentStatus,
+    newStatus: 'completed',
+    receiptNumber,
+    recordedBy: donation.recordedBy,
+    approvedBy,
+  })
+
+  const emailSent = options.sendReceipt !== false && donation.donorEmail
+    ? await emailDonationReceipt(donation.id, reference, 'offline_approval')
+    : false
+
+  logger.info('Offline donation approved', { donationId: donation.id, receiptNumber, approvedBy })
+
+  return { success: true, donationId: donation.id, paymentReference: reference, receiptNumber, emailSent }
+}
+
+/**
+ * Reject an offline donation (e.g. transfer never arrived, cheque bounced,
+ * entered twice). Any admin, including the one who recorded it, may reject.
+ */
+export async function rejectOfflineDonation(
+  reference: string,
+  rejectedBy: string,
+  reason: string
+): Promise<OfflineDonationResult> {
+  const donation = await db.query.donations.findFirst({
+    where: eq(donations.paymentReference, reference),
+  })
+
+  if (!donation || donation.paymentGateway !== OFFLINE_PAYMENT_GATEWAY) {
+    return { success: false, error: 'Offline donation not found' }
+  }
+
+  const [updated] = await db
+    .update(donations)
+    .set({
+      paymentStatus: 'rejected',
+      failureReason: reason,
+      reviewedBy: rejectedBy,
+      reviewedAt: new Date(),
+    })
+    .where(and(
+      eq(donations.id, donation.id),
+      eq(donations.paymentStatus, 'awaiting_approval')
+    ))
+    .returning({ id: donations.id })
+
+  if (!updated) {
+    return { success: false, error: `Donation is not awaiting approval (current status: ${donation.paymentStatus})` }
+  }
+
+  await logOfflineEvent(donation.id, 'offline_rejected', {
+    reason,
+    recordedBy: donation.recordedBy,
+    rejectedBy,
+  })
+
+  logger.info('Offline donation rejected', { donationId: donation.id, rejectedBy })
+
+  return { success: true, donationId: donation.id, paymentReference: reference }
+}
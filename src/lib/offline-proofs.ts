@@ -0,0 +1,52 @@
+/**
+ * Offline Donation Proofs
+ *
+ * Bank slips, transfer screenshots and cheque images carry donors' account
+ * details, so they are kept out of the public media bucket. They go in the
+ * bucket named by APPWRITE_PROOFS_BUCKET_ID, which must grant no read
+ * access, and are only served to signed-in admins through
+ * /api/admin/donations/offline/proof.
+ */
+
+import { Client, Storage, ID } from 'node-appwrite'
+
+export const MAX_PROOF_SIZE = 10 * 1024 * 1024
+
+export interface ProofFile {
+  content: ArrayBuffer
+  mimeType: string
+  name: string
+}
+
+// Server-side Appwrite client with API key
+const getStorage = () => {
+  const client = new Client()
+    .setEndpoint(process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT!)
+    .setProject(process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID!)
+    .setKey(process.env.APPWRITE_API_KEY!)
+
+  return new Storage(client)
+}
+
+export function isProofStorageConfigured(): boolean {
+  return !!process.env.APPWRITE_API_KEY && !!process.env.APPWRITE_PROOFS_BUCKET_ID
+}
+
+/**
+ * Store a proof of payment and return its file id
+ */
+export async function uploadProof(file: File): Promise<string> {
+  // No file permissions: only the API key can read it back
+  const uploaded = await getStorage().createFile(process.env.APPWRITE_PROOFS_BUCKET_ID!, ID.unique(), file, [])
+  return uploaded.$id
+}
+
+export async function getProof(fileId: string): Promise<ProofFile> {
+  const storage = getStorage()
+  const bucketId = process.env.APPWRITE_PROOFS_BUCKET_ID!
+  const [file, content] = await Promise.all([
+    storage.getFile(bucketId, fileId),
+    storage.getFileView(bucketId, fileId),
+  ])
+  return { content, mimeType: file.mimeType, name: file.name }
+}
@@ -0,0 +1,149 @@
+/**
+ * Fake Payment Gateway
+ *
+ * In-process gateway for tests and local development. Bills live in memory
+ * and stay pending until settle() is called, so payment flows can be driven
+ * without network access or provider credentials.
+ *
+ * Never selectable in production (see getPaymentGateway).
+ */
+
+import {
+  PaymentGatewayError,
+  type CreateBillParams,
+  type CreatedBill,
+  type GatewayPaymentStatus,
+  type GatewayTransaction,
+  type GatewayWebhookEvent,
+  type PaymentGateway,
+} from './types'
+
+export interface FakeBill {
+  billCode: string
+  params: CreateBillParams
+  transactions: GatewayTransaction[]
+  createdAt: Date
+}
+
+export class FakePaymentGateway implements PaymentGateway {
+  readonly id = 'fake' as const
+  readonly displayName = 'Fake Gateway'
+
+  private bills = new Map<string, FakeBill>()
+  private sequence = 0
+  private nextError: PaymentGatewayError | null = null
+
+  isConfigured() {
+    return true
+  }
+
+  getEnvironment() {
+    return 'sandbox' as const
+  }
+
+  async createBill(params: CreateBillParams): Promise<CreatedBill> {
+    if (this.nextError) {
+      const error = this.nextError
+      this.nextError = null
+      throw error
+    }
+
+    if (!params.amount || params.amount < 100) {
+      throw new PaymentGatewayError('Bill amount must be at least RM 1.00', 'INVALID_PARAMS')
+    }
+
+    this.sequence++
+    const billCode = `fake${this.sequence.toString().padStart(6, '0')}`
+    this.bills.set(billCode, {
+      billCode,
+      params,
+      transactions: [],
+      createdAt: new Date(),
+    })
+
+    // There is no hosted payment page, so send the donor straight back
+    return { billCode, paymentUrl: params.returnUrl }
+  }
+
+  async getTransactions(billCode: string): Promise<GatewayTransaction[]> {
+    return [...(this.bills.get(billCode)?.transactions || [])]
+  }
+
+  getCallbackUrl(baseUrl: string) {
+    return `${baseUrl}/api/donations/webhook?gateway=fake`
+  }
+
+  verifyWebhook() {
+    return process.env.NODE_ENV !== 'production'
+  }
+
+  parseWebhook(data: Record<string, string>): GatewayWebhookEvent {
+    const status = (['pending', 'completed', 'failed'] as const).find(s => s === data.status) || 'pending'
+    return {
+      reference: data.reference,
+      billCode: data.billCode,
+      status,
+      providerStatus: data.status,
+      reason: data.reason,
+      amount: data.amount,
+      transactionId: data.transactionId,
+    }
+  }
+
+  getFailureReason(reason: string | undefined) {
+    return reason || 'Payment was not completed'
+  }
+
+  // ===== TEST HELPERS =====
+
+  /**
+   * Record a payment attempt against a bill, as if the donor paid (or failed
+   * to pay) on the provider's page. Returns the webhook payload the provider
+   * would send for it.
+   */
+  settle(
+    billCode: string,
+    status: GatewayPaymentStatus,
+    options: { amount?: number; reason?: string } = {}
+  ): Record<string, string> {
+    const bill = this.bills.get(billCode)
+    if (!bill) {
+      throw new PaymentGatewayError(`Unknown bill ${billCode}`, 'BILL_NOT_FOUND')
+    }
+
+    const amount = options.amount ?? bill.params.amount
+    const transaction: GatewayTransaction = {
+      transactionId: `FAKE-TX-${billCode}-${bill.transactions.length + 1}`,
+      status,
+      providerStatus: status,
+      amount,
+    }
+    bill.transactions.unshift(transaction)
+
+    return {
+      reference: bill.params.reference,
+      billCode,
+      status,
+      amount: (amount / 100).toFixed(2),
+      transactionId: transaction.transactionId!,
+      ...(options.reason ? { reason: options.reason } : {}),
+    }
+  }
+
+  /** Make the next createBill() call fail with the given error */
+  failNextBill(error = new PaymentGatewayError('Fake gateway error', 'API_ERROR')) {
+    this.nextError = error
+  }
+
+  getBill(billCode: string): FakeBill | undefined {
+    return this.bills.get(billCode)
+  }
+
+  reset() {
+    this.bills.clear()
+    this.sequence = 0
+    this.nextError = null
+  }
+}
+
+export const fakeGateway = new FakePaymentGateway()
@@ -0,0 +1,44 @@
+/**
+ * Payment Gateways
+ *
+ * Entry point for everything payment related. The active gateway for new
+ * donations is chosen with PAYMENT_GATEWAY (default: toyyibpay); existing
+ * donations are always handled by the gateway recorded on them.
+ */
+
+import { toyyibPayGateway } from './toyyibpay'
+import { fakeGateway } from './fake'
+import type { PaymentGateway, PaymentGatewayId } from './types'
+
+export * from './types'
+export { toyyibPayGateway } from './toyyibpay'
+export { fakeGateway, FakePaymentGateway } from './fake'
+
+const gateways: Record<PaymentGatewayId, PaymentGateway> = {
+  toyyibpay: toyyibPayGateway,
+  fake: fakeGateway,
+}
+
+export const DEFAULT_PAYMENT_GATEWAY: PaymentGatewayId = 'toyyibpay'
+
+export function isPaymentGatewayId(value: unknown): value is PaymentGatewayId {
+  return typeof value === 'string' && value in gateways
+}
+
+/**
+ * Get a gateway by id. Unknown or missing ids resolve to ToyyibPay, which
+ * processed every donation recorded before gateways were pluggable.
+ */
+export function getPaymentGateway(id?: string | null): PaymentGateway {
+  if (id === 'fake' && process.env.NODE_ENV === 'production') {
+    throw new Error('The fake payment gateway cannot be used in production')
+  }
+  return isPaymentGatewayId(id) ? gateways[id] : gateways[DEFAULT_PAYMENT_GATEWAY]
+}
+
+/**
+ * Gateway used for new bills
+ */
+export function getActivePaymentGateway(): PaymentGateway {
+  return getPaymentGateway(process.env.PAYMENT_GATEWAY || DEFAULT_PAYMENT_GATEWAY)
+}
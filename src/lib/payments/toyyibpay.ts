@@ -0,0 +1,131 @@
+/**
+ * ToyyibPay Payment Gateway Adapter
+ *
+ * Maps the generic PaymentGateway contract onto ToyyibPayService.
+ * Bills are grouped under the project's ToyyibPay category, falling back
+ * to the General Fund category.
+ */
+
+import { db, projects } from '@/db'
+import { eq } from 'drizzle-orm'
+import { ToyyibPayService } from '@/lib/toyyibpay'
+import type {
+  CreateBillParams,
+  CreatedBill,
+  GatewayTransaction,
+  GatewayWebhookEvent,
+  PaymentGateway,
+  WebhookRequest,
+} from './types'
+
+function toCents(value: string | undefined): number | null {
+  if (!value) return null
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) : null
+}
+
+async function resolveCategoryCode(projectId?: string | null): Promise<string> {
+  if (projectId) {
+    const [project] = await db
+      .select({ categoryCode: projects.toyyibpayCategoryCode })
+      .from(projects)
+      .where(eq(projects.id, projectId))
+    if (project?.categoryCode) {
+      return project.categoryCode
+    }
+  }
+
+  // Use General Fund category for non-project donations
+  return ToyyibPayService.getOrCreateGeneralFundCategory()
+}
+
+export const toyyibPayGateway: PaymentGateway = {
+  id: 'toyyibpay',
+  displayName: 'ToyyibPay',
+
+  isConfigured() {
+    return ToyyibPayService.isConfigured()
+  },
+
+  getEnvironment() {
+    return ToyyibPayService.getEnvironment()
+  },
+
+  async createBill(params: CreateBillParams): Promise<CreatedBill> {
+    const categoryCode = await resolveCategoryCode(params.projectId)
+
+    // For anonymous donations, use '0' for billPayorInfo to hide payer fields
+    // and provide placeholder values that ToyyibPay will accept
+    const billCode = await ToyyibPayService.createBill({
+      categoryCode,
+      billName: params.name.substring(0, 30),
+      billDescription: params.description.substring(0, 100),
+      billPriceSetting: '1', // Fixed price
+      billPayorInfo: params.isAnonymous ? '0' : '1',
+      billAmount: params.amount,
+      billReturnUrl: params.returnUrl,
+      billCallbackUrl: params.callbackUrl,
+      billExternalReferenceNo: params.reference,
+      billTo: params.isAnonymous ? 'Penderma' : (params.payerName || 'Penderma'), // 'Penderma' = Donor in Malay
+      billEmail: params.payerEmail,
+      billPhone: params.payerPhone || '0123456789', // Valid format placeholder
+      billContentEmail: params.emailContent,
+      billPaymentChannel: '0', // FPX only
+      billChargeToCustomer: '1', // Charge fee to customer
+    })
+
+    return {
+      billCode,
+      paymentUrl: ToyyibPayService.getPaymentUrl(billCode),
+      details: {
+        categoryCode,
+        toyyibpayUrl: ToyyibPayService.getBaseUrl(),
+      },
+    }
+  },
+
+  async getTransactions(billCode: string): Promise<GatewayTransaction[]> {
+    const transactions = await ToyyibPayService.getBillTransactions(billCode)
+    return transactions.map(tx => ({
+      transactionId: tx.transactionId || null,
+      status: ToyyibPayService.mapPaymentStatus(tx.billpaymentStatus),
+      providerStatus: tx.billpaymentStatus,
+      amount: toCents(tx.billpaymentAmount),
+      channel: tx.billpaymentChannel,
+    }))
+  },
+
+  getCallbackUrl(baseUrl: string) {
+    const webhookSecret = process.env.TOYYIBPAY_WEBHOOK_SECRET
+    return webhookSecret
+      ? `${baseUrl}/api/donations/webhook?token=${encodeURIComponent(webhookSecret)}`
+      : `${baseUrl}/api/donations/webhook`
+  },
+
+  // ToyyibPay doesn't sign callbacks, so we rely on a shared secret in the
+  // callback URL and re-verify paid callbacks against the API
+  verifyWebhook(request: WebhookRequest) {
+    const configuredWebhookSecret = process.env.TOYYIBPAY_WEBHOOK_SECRET
+    if (!configuredWebhookSecret) return true
+
+    const providedToken = request.searchParams.get('token') || request.headers.get('x-yip-webhook-secret')
+    return !!providedToken && providedToken === configuredWebhookSecret
+  },
+
+  parseWebhook(data: Record<string, string>): GatewayWebhookEvent {
+    const providerStatus = data.status || data.payment_status || ''
+    return {
+      reference: data.order_id || data.billExternalReferenceNo || data.refno || data.payment_reference || data.reference,
+      billCode: data.billcode || data.bill_code,
+      status: ToyyibPayService.mapPaymentStatus(providerStatus),
+      providerStatus,
+      reason: data.reason,
+      amount: data.amount,
+      transactionId: data.transaction_id || data.transactionId,
+    }
+  },
+
+  getFailureReason(reason: string | undefined) {
+    return ToyyibPayService.getFailureReason(reason)
+  },
+}
@@ -0,0 +1,98 @@
+/**
+ * Payment Gateway Types
+ *
+ * Shared contract implemented by every payment provider adapter.
+ * Routes and services only talk to this interface, never to a provider SDK.
+ */
+
+export type PaymentGatewayId = 'toyyibpay' | 'fake'
+
+export type PaymentEnvironment = 'sandbox' | 'production'
+
+// Internal payment status every provider status is mapped to
+export type GatewayPaymentStatus = 'pending' | 'completed' | 'failed'
+
+// Error types for better error handling
+export class PaymentGatewayError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: unknown
+  ) {
+    super(message)
+    this.name = 'PaymentGatewayError'
+  }
+}
+
+export interface CreateBillParams {
+  reference: string // Our payment reference, echoed back in callbacks
+  amount: number // In cents
+  name: string
+  description: string
+  payerName: string
+  payerEmail: string
+  payerPhone?: string | null
+  isAnonymous?: boolean
+  projectId?: string | null
+  returnUrl: string
+  callbackUrl: string
+  emailContent?: string
+}
+
+export interface CreatedBill {
+  billCode: string
+  paymentUrl: string
+  details?: Record<string, unknown> // Provider specific data worth logging
+}
+
+export interface GatewayTransaction {
+  transactionId: string | null
+  status: GatewayPaymentStatus
+  providerStatus: string
+  amount: number | null // In cents
+  channel?: string
+}
+
+export interface GatewayWebhookEvent {
+  reference?: string
+  billCode?: string
+  status: GatewayPaymentStatus
+  providerStatus?: string
+  reason?: string
+  amount?: string
+  transactionId?: string
+}
+
+export interface WebhookRequest {
+  searchParams: URLSearchParams
+  headers: Headers
+}
+
+export interface PaymentGateway {
+  readonly id: PaymentGatewayId
+  readonly displayName: string
+
+  /** Whether credentials for this provider are present */
+  isConfigured(): boolean
+
+  /** Sandbox vs production, recorded on every donation */
+  getEnvironment(): PaymentEnvironment
+
+  /** Create a bill the donor is redirected to for payment */
+  createBill(params: CreateBillParams): Promise<CreatedBill>
+
+  /** Transactions recorded against a bill, most recent first */
+  getTransactions(billCode: string): Promise<GatewayTransaction[]>
+
+  /** Server-to-server callback URL the provider should notify */
+  getCallbackUrl(baseUrl: string): string
+
+  /** Check a callback really came from this provider */
+  verifyWebhook(request: WebhookRequest): boolean
+
+  /** Normalize a callback payload */
+  parseWebhook(data: Record<string, string>): GatewayWebhookEvent
+
+  /** Human-readable failure reason for a provider reason code */
+  getFailureReason(reason: string | undefined): string
+}
@@ -0,0 +1,272 @@
+/**
+ * Preview Links
+ *
+ * Editors share an unpublished blog post or project (for example with the
+ * board) through a link to /[locale]/preview?token=…. The token is a JWT
+ * signed with JWT_SECRET that names a previewLinks row and carries its
+ * expiry. A link works in either language until it expires or an admin
+ * revokes the row, and every time it is opened is recorded.
+ *
+ * Tokens are not stored: an active link's token is signed again from its
+ * row when an admin wants to copy it.
+ */
+
+import { SignJWT, jwtVerify } from 'jose'
+import { db, previewLinks, previewLinkViews, blogPosts, projects } from '@/db'
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm'
+import { logActivity, type UserInfo } from '@/lib/versioning'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('PreviewLinks')
+
+export type PreviewContentType = 'blog_posts' | 'projects'
+export type PreviewLinkStatus = 'active' | 'expired' | 'revoked'
+
+export const PREVIEW_CONTENT_TYPES: PreviewContentType[] = ['blog_posts', 'projects']
+
+// Lifetimes offered when creating a link
+export const PREVIEW_TTL_DAYS = [1, 7, 30] as const
+
+const MAX_LABEL_LENGTH = 100
+
+// Views listed per link in the admin panel
+const MAX_VIEWS_PER_LINK = 50
+
+const TOKEN_ISSUER = 'insanprihatin'
+const TOKEN_AUDIENCE = 'content-preview'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const CONTENT_LABELS: Record<PreviewContentType, string> = {
+  blog_posts: 'blog post',
+  projects: 'project',
+}
+
+export type PreviewLink = typeof previewLinks.$inferSelect
+export type PreviewLinkView = typeof previewLinkViews.$inferSelect
+
+export interface PreviewTokenClaims {
+  linkId: string
+  contentType: PreviewContentType
+  contentId: string
+}
+
+export interface PreviewLinkSummary extends PreviewLink {
+  status: PreviewLinkStatus
+  token: string | null // Only for active links
+  viewCount: number
+  views: PreviewLinkView[] // Most recent first
+}
+
+export type PreviewContent =
+  | { contentType: 'blog_posts'; link: PreviewLink; post: typeof blogPosts.$inferSelect }
+  | { contentType: 'projects'; link: PreviewLink; project: typeof projects.$inferSelect }
+
+function getSigningKey(): Uint8Array {
+  const secret = process.env.JWT_SECRET
+  if (!secret) throw new Error('JWT_SECRET is not configured')
+  return new TextEncoder().encode(secret)
+}
+
+/**
+ * Validated content type from a request, or null
+ */
+export function resolvePreviewContentType(value: unknown): PreviewContentType | null {
+  return PREVIEW_CONTENT_TYPES.includes(value as PreviewContentType) ? value as PreviewContentType : null
+}
+
+export function getPreviewLinkStatus(
+  link: Pick<PreviewLink, 'expiresAt' | 'revokedAt'>,
+  now = new Date()
+): PreviewLinkStatus {
+  if (link.revokedAt) return 'revoked'
+  if (link.expiresAt <= now) return 'expired'
+  return 'active'
+}
+
+/**
+ * Sign the token for a link. Signing the same row again gives a token that
+ * works the same way, so tokens never need storing.
+ */
+export async function signPreviewToken(
+  link: Pick<PreviewLink, 'id' | 'contentType' | 'contentId' | 'expiresAt' | 'createdAt'>
+): Promise<string> {
+  return new SignJWT({ typ: link.contentType })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setJti(link.id)
+    .setSubject(link.contentId)
+    .setIssuer(TOKEN_ISSUER)
+    .setAudience(TOKEN_AUDIENCE)
+    .setIssuedAt(link.createdAt)
+    .setExpirationTime(link.expiresAt)
+    .sign(getSigningKey())
+}
+
+/**
+ * Claims of a genuine, unexpired token, or null. Does not check revocation.
+ */
+export async function verifyPreviewToken(token: string): Promise<PreviewTokenClaims | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSigningKey(), {
+      issuer: TOKEN_ISSUER,
+      audience: TOKEN_AUDIENCE,
+      algorithms: ['HS256'],
+    })
+    const contentType = resolvePreviewContentType(payload.typ)
+    if (!contentType || !payload.jti || !payload.sub) return null
+    if (!UUID_PATTERN.test(payload.jti) || !UUID_PATTERN.test(payload.sub)) return null
+    return { linkId: payload.jti, contentType, contentId: payload.sub }
+  } catch {
+    return null
+  }
+}
+
+async function getContentTitle(contentType: PreviewContentType, contentId: string): Promise<string | null> {
+  const item = contentType === 'blog_posts'
+    ? await db.query.blogPosts.findFirst({ where: eq(blogPosts.id, contentId), columns: { title: true } })
+    : await db.query.projects.findFirst({ where: eq(projects.id, contentId), columns: { title: true } })
+  return item ? getLocalizedValue(item.title as LocalizedString, 'en') : null
+}
+
+/**
+ * Create a link to preview the content for `ttlDays` days
+ */
+export async function createPreviewLink(
+  contentType: PreviewContentType,
+  contentId: string,
+  options: { label?: string | null; ttlDays: number },
+  user: UserInfo
+): Promise<{ success: boolean; link?: PreviewLinkSummary; error?: string }> {
+  if (!UUID_PATTERN.test(contentId)) return { success: false, error: 'Content not found' }
+  if (!(PREVIEW_TTL_DAYS as readonly number[]).includes(options.ttlDays)) {
+    return { success: false, error: 'Choose how long the link should last' }
+  }
+
+  const title = await getContentTitle(contentType, contentId)
+  if (title === null) return { success: false, error: 'Content not found' }
+
+  const now = new Date()
+  const [link] = await db
+    .insert(previewLinks)
+    .values({
+      contentType,
+      contentId,
+      label: options.label?.trim().slice(0, MAX_LABEL_LENGTH) || null,
+      expiresAt: new Date(now.getTime() + options.ttlDays * 24 * 60 * 60 * 1000),
+      createdByEmail: user.email,
+      createdByName: user.name,
+      createdAt: now,
+    })
+    .returning()
+
+  await logActivity('preview_link_created', `Shared a preview of ${CONTENT_LABELS[contentType]}: ${title}`, {
+    contentType,
+    contentId,
+    contentTitle: title,
+    user,
+    metadata: { linkId: link.id, label: link.label, expiresAt: link.expiresAt.toISOString() },
+  })
+
+  return { success: true, link: { ...link, status: 'active', token: await signPreviewToken(link), viewCount: 0, views: [] } }
+}
+
+/**
+ * Links made for the content, newest first, with who opened them
+ */
+export async function getPreviewLinks(contentId: string): Promise<PreviewLinkSummary[]> {
+  if (!UUID_PATTERN.test(contentId)) return []
+
+  const links = await db.query.previewLinks.findMany({
+    where: eq(previewLinks.contentId, contentId),
+    orderBy: [desc(previewLinks.createdAt)],
+  })
+  if (links.length === 0) return []
+
+  const views = await db.query.previewLinkViews.findMany({
+    where: inArray(previewLinkViews.linkId, links.map(link => link.id)),
+    orderBy: [desc(previewLinkViews.viewedAt)],
+  })
+
+  const now = new Date()
+  return Promise.all(links.map(async link => {
+    const status = getPreviewLinkStatus(link, now)
+    const linkViews = views.filter(view => view.linkId === link.id)
+    return {
+      ...link,
+      status,
+      token: status === 'active' ? await signPreviewToken(link) : null,
+      viewCount: linkViews.length,
+      views: linkViews.slice(0, MAX_VIEWS_PER_LINK),
+    }
+  }))
+}
+
+export async function revokePreviewLink(
+  linkId: string,
+  user: UserInfo
+): Promise<{ success: boolean; error?: string }> {
+  if (!UUID_PATTERN.test(linkId)) return { success: false, error: 'Preview link not found' }
+
+  const [revoked] = await db
+    .update(previewLinks)
+    .set({ revokedAt: new Date(), revokedByEmail: user.email })
+    .where(and(eq(previewLinks.id, linkId), isNull(previewLinks.revokedAt)))
+    .returning()
+
+  if (!revoked) return { success: false, error: 'Preview link not found or already revoked' }
+
+  const contentType = revoked.contentType as PreviewContentType
+  const title = await getContentTitle(contentType, revoked.contentId)
+  await logActivity('preview_link_revoked', `Revoked a preview of ${CONTENT_LABELS[contentType]}: ${title ?? revoked.contentId}`, {
+    contentType,
+    contentId: revoked.contentId,
+    contentTitle: title ?? undefined,
+    user,
+    metadata: { linkId: revoked.id, label: revoked.label },
+  })
+
+  return { success: true }
+}
+
+/**
+ * The content behind a preview token, recording the view, or null if the
+ * token is not genuine or the link has expired or been revoked
+ */
+export async function openPreview(
+  token: string,
+  viewer: { locale: 'en' | 'ms'; viewerEmail?: string | null; ipAddress?: string | null; userAgent?: string | null }
+): Promise<PreviewContent | null> {
+  const claims = await verifyPreviewToken(token)
+  if (!claims) return null
+
+  const link = await db.query.previewLinks.findFirst({ where: eq(previewLinks.id, claims.linkId) })
+  if (!link || link.contentId !== claims.contentId || getPreviewLinkStatus(link) !== 'active') {
+    return null
+  }
+
+  const content: PreviewContent | null = claims.contentType === 'blog_posts'
+    ? await db.query.blogPosts.findFirst({ where: eq(blogPosts.id, claims.contentId) })
+      .then(post => post ? { contentType: 'blog_posts' as const, link, post } : null)
+    : await db.query.projects.findFirst({ where: eq(projects.id, claims.contentId) })
+      .then(project => project ? { contentType: 'projects' as const, link, project } : null)
+  if (!content) return null
+
+  try {
+    await db.insert(previewLinkViews).values({
+      linkId: link.id,
+      locale: viewer.locale,
+      viewerEmail: viewer.viewerEmail || null,
+      ipAddress: viewer.ipAddress || null,
+      userAgent: viewer.userAgent?.slice(0, 500) || null,
+    })
+  } catch (error) {
+    // Still show the preview
+    logger.error('Failed to record preview view', {
+      linkId: link.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+
+  return content
+}
@@ -0,0 +1,132 @@
+/**
+ * Receipt Numbering
+ *
+ * Receipt numbers are YIP-YYYY-NNNNNN: a per-year sequence with no repeats
+ * and, as far as possible, no gaps. Numbers are allocated from the
+ * receipt_counters table (see assignReceiptNumber in receipt.ts); the
+ * helpers here format, parse and audit them without touching the database.
+ */
+
+const RECEIPT_NUMBER_PATTERN = /^YIP-(\d{4})-(\d{6,})$/
+
+// Malaysia does not observe daylight saving, so receipt years are always UTC+8
+const MALAYSIA_UTC_OFFSET_MS = 8 * 60 * 60 * 1000
+
+// Postgres regex used to read the sequence out of stored receipt numbers
+export const RECEIPT_SEQUENCE_SQL_PATTERN = '^YIP-\\d{4}-(\\d+)$'
+
+export interface ReceiptNumberEntry {
+  receiptNumber: string
+  donationId: string
+}
+
+export interface ReceiptNumberIssues {
+  checked: number
+  duplicates: { receiptNumber: string; donationIds: string[] }[]
+  gaps: { year: number; from: number; to: number }[]
+  malformed: string[]
+}
+
+/**
+ * The year a receipt issued at `date` is numbered under (Malaysia time)
+ */
+export function getReceiptYear(date: Date): number {
+  return new Date(date.getTime() + MALAYSIA_UTC_OFFSET_MS).getUTCFullYear()
+}
+
+export function formatReceiptNumber(year: number, sequence: number): string {
+  return `YIP-${year}-${sequence.toString().padStart(6, '0')}`
+}
+
+export function parseReceiptNumber(receiptNumber: string): { year: number; sequence: number } | null {
+  const match = RECEIPT_NUMBER_PATTERN.exec(receiptNumber)
+  if (!match) return null
+  return { year: parseInt(match[1], 10), sequence: parseInt(match[2], 10) }
+}
+
+/**
+ * The sequence a year's counter should start from, given the sequences
+ * already issued that year.
+ *
+ * Before sequential numbering the webhook issued six random base36
+ * characters, which are sometimes all digits (YIP-2025-804213) and so read
+ * as sequences. Numbers issued in order run unbroken from 1, so counting
+ * continues after that run rather than after the highest number seen.
+ */
+export function getStartingSequence(sequences: Iterable<number>): number {
+  const issued = new Set(sequences)
+  let next = 1
+  while (issued.has(next)) next++
+  return next
+}
+
+/**
+ * Find receipt numbers used by more than one donation, sequences skipped
+ * within a year and numbers not in the YIP-YYYY-NNNNNN format.
+ *
+ * `entries` may list the same number and donation more than once (e.g. from
+ * both the donation row and the receipt register). `counters` extends each
+ * year's range to the last allocated sequence, so numbers allocated but
+ * never stored also show up as gaps.
+ */
+export function findReceiptNumberIssues(
+  entries: ReceiptNumberEntry[],
+  counters: { year: number; lastSequence: number }[] = []
+): ReceiptNumberIssues {
+  const donationsByNumber = new Map<string, Set<string>>()
+  for (const entry of entries) {
+    const ids = donationsByNumber.get(entry.receiptNumber) || new Set<string>()
+    ids.add(entry.donationId)
+    donationsByNumber.set(entry.receiptNumber, ids)
+  }
+
+  const duplicates: ReceiptNumberIssues['duplicates'] = []
+  const malformed: string[] = []
+  const sequencesByYear = new Map<number, Set<number>>()
+
+  for (const [receiptNumber, ids] of donationsByNumber) {
+    if (ids.size > 1) {
+      duplicates.push({ receiptNumber, donationIds: [...ids].sort() })
+    }
+
+    const parsed = parseReceiptNumber(receiptNumber)
+    if (!parsed) {
+      malformed.push(receiptNumber)
+      continue
+    }
+
+    const sequences = sequencesByYear.get(parsed.year) || new Set<number>()
+    sequences.add(parsed.sequence)
+    sequencesByYear.set(parsed.year, sequences)
+  }
+
+  const lastAllocated = new Map(counters.map(c => [c.year, c.lastSequence]))
+  const years = [...new Set([...sequencesByYear.keys(), ...lastAllocated.keys()])].sort((a, b) => a - b)
+  const gaps: ReceiptNumberIssues['gaps'] = []
+
+  for (const year of years) {
+    const sequences = sequencesByYear.get(year) || new Set<number>()
+    let last = lastAllocated.get(year) || 0
+    for (const sequence of sequences) {
+      if (sequence > last) last = sequence
+    }
+
+    let gapStart: number | null = null
+    for (let sequence = 1; sequence <= last + 1; sequence++) {
+      const missing = sequence <= last && !sequences.has(sequence)
+      if (missing && gapStart === null) {
+        gapStart = sequence
+      } else if (!missing && gapStart !== null) {
+        gaps.push({ year, from: gapStart, to: sequence - 1 })
+        gapStart = null
+      }
+    }
+  }
+
+  return {
+    checked: donationsByNumber.size,
+    duplicates: duplicates.sort((a, b) => a.receiptNumber.localeCompare(b.receiptNumber)),
+    gaps,
+    malformed: malformed.sort(),
+  }
+}
@@ -3,6 +3,9 @@
  *
  * Professional A4 single-page receipt template for donations using @react-pdf/renderer.
  * Includes organization branding with logo and donor details.
+ *
+ * Also renders the consolidated annual statement donors use for their LHDN
+ * tax returns, listing every receipt issued to them during the year.
  */
 
 import React from 'react'
@@ -14,7 +17,7 @@ import {
   Image,
   StyleSheet,
 } from '@react-pdf/renderer'
-import { ReceiptData, organizationDetails, formatAmount, formatReceiptDate } from './receipt'
+import { ReceiptData, AnnualStatementData, organizationDetails, formatAmount, formatReceiptDate } from './receipt'
 import path from 'path'
 import fs from 'fs'
 
@@ -142,6 +145,18 @@ const styles = StyleSheet.create({
     fontFamily: 'Helvetica-Bold',
     color: '#0D9488',
   },
+  amountNote: {
+    fontSize: 8,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  tributeLine: {
+    fontSize: 10,
+    color: '#115E59',
+    fontFamily: 'Helvetica-Oblique',
+    marginTop: 8,
+    textAlign: 'center',
+  },
   messageSection: {
     backgroundColor: '#F9FAFB',
     padding: 12,
@@ -219,6 +234,97 @@ const styles = StyleSheet.create({
     transform: 'rotate(-30deg)',
     fontFamily: 'Helvetica-Bold',
   },
+  voidWatermark: {
+    position: 'absolute',
+    top: '40%',
+    left: 0,
+    right: 0,
+    textAlign: 'center',
+    fontSize: 120,
+    color: '#DC2626',
+    opacity: 0.18,
+    transform: 'rotate(-30deg)',
+    fontFamily: 'Helvetica-Bold',
+  },
+  voidBanner: {
+    backgroundColor: '#FEF2F2',
+    borderWidth: 1,
+    borderColor: '#FECACA',
+    padding: 10,
+    borderRadius: 6,
+    marginBottom: 12,
+  },
+  voidBannerTitle: {
+    fontSize: 10,
+    fontFamily: 'Helvetica-Bold',
+    color: '#B91C1C',
+    marginBottom: 3,
+  },
+  voidBannerText: {
+    fontSize: 8,
+    color: '#7F1D1D',
+    lineHeight: 1.4,
+  },
+  statementPage: {
+    paddingBottom: 110, // Keep long donation lists clear of the fixed footer
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 4,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    backgroundColor: '#F9FAFB',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  tableHeaderCell: {
+    fontSize: 7,
+    fontFamily: 'Helvetica-Bold',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    paddingVertical: 6,
+    paddingHorizontal: 6,
+  },
+  tableCell: {
+    fontSize: 8,
+    color: '#1F2937',
+    paddingVertical: 5,
+    paddingHorizontal: 6,
+  },
+  tableTotalRow: {
+    flexDirection: 'row',
+    backgroundColor: '#F0FDFA',
+  },
+  tableTotalCell: {
+    fontSize: 9,
+    fontFamily: 'Helvetica-Bold',
+    color: '#0D9488',
+    paddingVertical: 6,
+    paddingHorizontal: 6,
+  },
+  colDate: { width: '16%' },
+  colReceipt: { width: '22%' },
+  colPurpose: { width: '32%' },
+  colMethod: { width: '14%' },
+  colAmount: { width: '16%', textAlign: 'right' },
+  taxNote: {
+    backgroundColor: '#F9FAFB',
+    padding: 10,
+    borderRadius: 6,
+    marginTop: 12,
+  },
+  taxNoteText: {
+    fontSize: 8,
+    color: '#374151',
+    lineHeight: 1.4,
+  },
 })
 
 interface ReceiptPDFProps {
@@ -273,7 +379,11 @@ export function ReceiptPDF({ data }: ReceiptPDFProps) {
     <Document>
       <Page size="A4" style={styles.page}>
         {/* Watermark */}
-        <Text style={styles.watermark}>OFFICIAL RECEIPT</Text>
+        {data.voided ? (
+          <Text style={styles.voidWatermark}>VOID</Text>
+        ) : (
+          <Text style={styles.watermark}>OFFICIAL RECEIPT</Text>
+        )}
 
         {/* Header with Logo */}
         <View style={styles.header}>
@@ -304,6 +414,22 @@ export function ReceiptPDF({ data }: ReceiptPDFProps) {
 
         {/* Main Content */}
         <View style={styles.mainContent}>
+          {/* Superseded Receipt Notice */}
+          {data.voided && (
+            <View style={styles.voidBanner}>
+              <Text style={styles.voidBannerTitle}>
+                {data.voided.status === 'reissued' ? 'This receipt has been replaced' : 'This receipt has been voided'}
+              </Text>
+              <Text style={styles.voidBannerText}>
+                {data.voided.voidedAt ? `${formatReceiptDate(new Date(data.voided.voidedAt))}. ` : ''}
+                {data.voided.reason ? `Reason: ${data.voided.reason}. ` : ''}
+                {data.voided.replacedBy
+                  ? `Use receipt ${data.voided.replacedBy} instead.`
+                  : 'It is no longer valid for tax purposes.'}
+              </Text>
+            </View>
+          )}
+
           {/* Donor Information */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Donor Information</Text>
@@ -331,6 +457,14 @@ export function ReceiptPDF({ data }: ReceiptPDFProps) {
             <Text style={styles.amountValue}>
               {formatAmount(data.amount, data.currency)}
             </Text>
+            {data.originalAmount !== undefined && (
+              <Text style={styles.amountNote}>
+                Reissued after partial refund (original {formatAmount(data.originalAmount, data.currency)})
+              </Text>
+            )}
+            {data.tribute && (
+              <Text style={styles.tributeLine}>{data.tribute}</Text>
+            )}
           </View>
 
           {/* Payment Details */}
@@ -415,4 +549,172 @@ export function ReceiptPDF({ data }: ReceiptPDFProps) {
   )
 }
 
+interface AnnualStatementPDFProps {
+  data: AnnualStatementData
+}
+
+function formatStatementDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'Asia/Kuala_Lumpur',
+  }).format(date)
+}
+
+export function AnnualStatementPDF({ data }: AnnualStatementPDFProps) {
+  // Use organization config from data if available, fallback to defaults
+  const org = data.organization || organizationDetails
+
+  // Get logo source
+  const logoSrc = getLogoSource(org.logoUrl)
+
+  return (
+    <Document>
+      <Page size="A4" style={[styles.page, styles.statementPage]}>
+        {/* Watermark */}
+        <Text style={styles.watermark} fixed>ANNUAL STATEMENT</Text>
+
+        {/* Header with Logo */}
+        <View style={styles.header}>
+          <View style={styles.logoSection}>
+            {logoSrc && (
+              <Image src={logoSrc} style={styles.logo} />
+            )}
+            <View style={styles.orgInfo}>
+              <Text style={styles.orgName}>{org.name}</Text>
+              <Text style={styles.orgTagline}>{org.tagline}</Text>
+              <View>
+                {org.address.map((line, index) => (
+                  <Text key={index} style={styles.orgAddressLine}>{line}</Text>
+                ))}
+              </View>
+              <Text style={styles.orgContactInfo}>Tel: {org.phone}</Text>
+              <Text style={styles.orgContactInfo}>Email: {org.email}</Text>
+            </View>
+          </View>
+          <View style={styles.receiptTitle}>
+            <Text style={styles.receiptLabel}>{data.year} STATEMENT</Text>
+            <Text style={styles.receiptNumber}>{data.statementNumber}</Text>
+            <Text style={styles.receiptDate}>
+              Issued {formatReceiptDate(new Date(data.generatedAt))}
+            </Text>
+          </View>
+        </View>
+
+        {/* Main Content */}
+        <View style={styles.mainContent}>
+          {/* Donor Information */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Donor Information</Text>
+            <View style={styles.infoGrid}>
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Name</Text>
+                <Text style={styles.infoValue}>{data.donorName}</Text>
+              </View>
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Email</Text>
+                <Text style={styles.infoValue}>{data.donorEmail}</Text>
+              </View>
+              {data.donorPhone && (
+                <View style={styles.infoItem}>
+                  <Text style={styles.infoLabel}>Phone</Text>
+                  <Text style={styles.infoValue}>{data.donorPhone}</Text>
+                </View>
+              )}
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Period</Text>
+                <Text style={styles.infoValue}>1 January - 31 December {data.year}</Text>
+              </View>
+            </View>
+          </View>
+
+          {/* Total Donated */}
+          <View style={styles.amountSection}>
+            <Text style={styles.amountLabel}>Total Donations in {data.year}</Text>
+            <Text style={styles.amountValue}>
+              {formatAmount(data.totalAmount, data.currency)}
+            </Text>
+            <Text style={styles.amountNote}>
+              {data.donations.length} donation{data.donations.length === 1 ? '' : 's'}
+            </Text>
+          </View>
+
+          {/* Donations */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Donations</Text>
+            <View style={styles.table}>
+              <View style={styles.tableHeader} fixed>
+                <Text style={[styles.tableHeaderCell, styles.colDate]}>Date</Text>
+                <Text style={[styles.tableHeaderCell, styles.colReceipt]}>Receipt No.</Text>
+                <Text style={[styles.tableHeaderCell, styles.colPurpose]}>Purpose</Text>
+                <Text style={[styles.tableHeaderCell, styles.colMethod]}>Method</Text>
+                <Text style={[styles.tableHeaderCell, styles.colAmount]}>Amount</Text>
+              </View>
+              {data.donations.map((donation) => (
+                <View key={donation.paymentReference} style={styles.tableRow} wrap={false}>
+                  <Text style={[styles.tableCell, styles.colDate]}>{formatStatementDate(new Date(donation.date))}</Text>
+                  <Text style={[styles.tableCell, styles.colReceipt]}>{donation.receiptNumber}</Text>
+                  <Text style={[styles.tableCell, styles.colPurpose]}>{donation.projectTitle || 'General Fund'}</Text>
+                  <Text style={[styles.tableCell, styles.colMethod]}>{donation.paymentMethod}</Text>
+                  <Text style={[styles.tableCell, styles.colAmount]}>{formatAmount(donation.amount, data.currency)}</Text>
+                </View>
+              ))}
+              <View style={styles.tableTotalRow} wrap={false}>
+                <Text style={[styles.tableTotalCell, { width: '84%' }]}>Total</Text>
+                <Text style={[styles.tableTotalCell, styles.colAmount]}>{formatAmount(data.totalAmount, data.currency)}</Text>
+              </View>
+            </View>
+
+            {/* Tax Exemption */}
+            <View style={styles.taxNote} wrap={false}>
+              {org.taxExemptionRef ? (
+                <Text style={styles.taxNoteText}>
+                  Donations to {org.legalName} are tax deductible under subsection 44(6) of the Income Tax Act 1967.
+                  Tax exemption reference: {org.taxExemptionRef}. Please keep this statement with your
+                  tax records.
+                </Text>
+              ) : (
+                <Text style={styles.taxNoteText}>
+                  {org.name} does not currently hold a tax exemption approval under subsection 44(6) of the
+                  Income Tax Act 1967. This statement is a summary of your donations for your records.
+                </Text>
+              )}
+            </View>
+          </View>
+        </View>
+
+        {/* Footer */}
+        <View style={styles.footer} fixed>
+          <View style={styles.footerContent}>
+            <View>
+              <Text style={styles.footerLeft}>
+                {org.name}
+              </Text>
+              <Text style={styles.footerLeft}>
+                Registration No: {org.registrationNumber}
+              </Text>
+              <Text style={styles.footerLeft}>
+                Website: {org.website}
+              </Text>
+            </View>
+            <View>
+              <Text style={styles.footerRight}>
+                {data.statementNumber}
+              </Text>
+              <Text
+                style={styles.footerRight}
+                render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`}
+              />
+            </View>
+          </View>
+          <Text style={styles.verificationText}>
+            This is an electronically generated statement. For verification, please contact {org.email}
+          </Text>
+        </View>
+      </Page>
+    </Document>
+  )
+}
+
 export default ReceiptPDF
@@ -0,0 +1,304 @@
+/**
+ * Receipt Register
+ *
+ * Immutable record of every receipt number issued. The donation row only
+ * holds its current receipt number; the register keeps what each receipt
+ * said when it was issued and what became of it:
+ *
+ *   issued   - the donation's current, valid receipt
+ *   reissued - replaced by a newer receipt (details corrected, partial refund)
+ *   voided   - cancelled with no replacement (full refund, chargeback)
+ *
+ * Rows only ever move out of 'issued' once, so the audit trail survives
+ * corrections to the donation itself.
+ */
+
+import { db, donations, donationLogs, receiptCounters, receipts, type ReceiptSnapshot } from '@/db'
+import { and, asc, eq, isNotNull } from 'drizzle-orm'
+import { assignReceiptNumber, buildReceiptData, type ReceiptData } from '@/lib/receipt'
+import { findReceiptNumberIssues, type ReceiptNumberIssues } from '@/lib/receipt-numbering'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('ReceiptRegister')
+
+export type ReceiptStatus = 'issued' | 'voided' | 'reissued'
+
+export type ReceiptRecord = typeof receipts.$inferSelect
+
+export interface ReceiptCorrections {
+  donorName?: string
+  donorEmail?: string | null
+  donorPhone?: string | null
+}
+
+export interface ReissueReceiptResult {
+  success: boolean
+  error?: string
+  donationId?: string
+  previousReceiptNumber?: string
+  receiptNumber?: string
+}
+
+function toSnapshot(data: ReceiptData): ReceiptSnapshot {
+  return {
+    donorName: data.donorName,
+    donorEmail: data.donorEmail,
+    donorPhone: data.donorPhone,
+    amount: data.amount,
+    originalAmount: data.originalAmount,
+    currency: data.currency,
+    projectTitle: data.projectTitle,
+    paymentReference: data.paymentReference,
+    paymentMethod: data.paymentMethod,
+    transactionId: data.transactionId,
+    completedAt: new Date(data.completedAt).toISOString(),
+    createdAt: new Date(data.createdAt).toISOString(),
+    message: data.message,
+    tribute: data.tribute,
+  }
+}
+
+/**
+ * Receipt data for a register entry as it was issued, marked void when the
+ * receipt is no longer valid
+ */
+export function getReceiptDataFromRecord(record: ReceiptRecord): ReceiptData {
+  const snapshot = record.snapshot
+
+  return {
+    ...snapshot,
+    receiptNumber: record.receiptNumber,
+    completedAt: new Date(snapshot.completedAt),
+    createdAt: new Date(snapshot.createdAt),
+    voided: record.status === 'issued'
+      ? undefined
+      : {
+        status: record.status as 'voided' | 'reissued',
+        reason: record.voidReason,
+        voidedAt: record.voidedAt,
+        replacedBy: record.replacedByReceiptNumber,
+      },
+  }
+}
+
+async function logReceiptEvent(donationId: string, eventType: string, eventData: Record<string, unknown>) {
+  try {
+    await db.insert(donationLogs).values({
+      donationId,
+      eventType,
+      eventData,
+      ipAddress: 'admin',
+      userAgent: 'Admin-Dashboard',
+    })
+  } catch (error) {
+    logger.error('Failed to log receipt event', {
+      donationId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
+
+/**
+ * Add a donation's current receipt to the register. Safe to call more than
+ * once; receipts issued before the register existed are captured the first
+ * time they are touched. Never throws, so it cannot break payment flows.
+ */
+export async function recordIssuedReceipt(
+  paymentReference: string,
+  issuedBy: string,
+  options: { replaces?: string | null } = {}
+): Promise<void> {
+  try {
+    const donation = await db.query.donations.findFirst({
+      where: eq(donations.paymentReference, paymentReference),
+    })
+
+    if (!donation?.receiptNumber) return
+
+    const data = await buildReceiptData(donation)
+
+    await db
+      .insert(receipts)
+      .values({
+        receiptNumber: donation.receiptNumber,
+        donationId: donation.id,
+        status: 'issued',
+        snapshot: toSnapshot(data),
+        issuedBy,
+        replacesReceiptNumber: options.replaces || null,
+      })
+      .onConflictDoNothing({ target: receipts.receiptNumber })
+  } catch (error) {
+    logger.error('Failed to record issued receipt', {
+      paymentReference,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
+
+/**
+ * Void a receipt, or mark it reissued when `replacedBy` names its
+ * replacement. Returns false if it was not in the register or was already
+ * voided or replaced.
+ */
+export async function voidReceipt(params: {
+  receiptNumber: string
+  reason: string
+  voidedBy: string
+  replacedBy?: string | null
+}): Promise<boolean> {
+  const [updated] = await db
+    .update(receipts)
+    .set({
+      status: params.replacedBy ? 'reissued' : 'voided',
+      voidReason: params.reason,
+      voidedBy: params.voidedBy,
+      voidedAt: new Date(),
+      replacedByReceiptNumber: params.replacedBy || null,
+    })
+    .where(and(
+      eq(receipts.receiptNumber, params.receiptNumber),
+      eq(receipts.status, 'issued')
+    ))
+    .returning({ id: receipts.id })
+
+  return !!updated
+}
+
+/**
+ * Replace a donation's receipt with the newly issued one on the donation row
+ */
+export async function supersedeReceipt(params: {
+  paymentReference: string
+  previousReceiptNumber: string
+  reason: string
+  performedBy: string
+}): Promise<void> {
+  const donation = await db.query.donations.findFirst({
+    where: eq(donations.paymentReference, params.paymentReference),
+    columns: { receiptNumber: true },
+  })
+
+  await voidReceipt({
+    receiptNumber: params.previousReceiptNumber,
+    reason: params.reason,
+    voidedBy: params.performedBy,
+    replacedBy: donation?.receiptNumber,
+  })
+
+  await recordIssuedReceipt(params.paymentReference, params.performedBy, {
+    replaces: params.previousReceiptNumber,
+  })
+}
+
+/**
+ * Every receipt issued for a donation, oldest first
+ */
+export async function getReceiptHistory(donationId: string): Promise<ReceiptRecord[]> {
+  return db.query.receipts.findMany({
+    where: eq(receipts.donationId, donationId),
+    orderBy: [asc(receipts.issuedAt)],
+  })
+}
+
+export async function getReceiptRecord(receiptNumber: string): Promise<ReceiptRecord | undefined> {
+  return db.query.receipts.findFirst({
+    where: eq(receipts.receiptNumber, receiptNumber),
+  })
+}
+
+/**
+ * Correct a completed donation's details and issue a replacement receipt
+ * under a new number. The old receipt stays in the register as 'reissued'.
+ */
+export async function reissueReceipt(params: {
+  paymentReference: string
+  reason: string
+  performedBy: string
+  corrections?: ReceiptCorrections
+}): Promise<ReissueReceiptResult> {
+  const donation = await db.query.donations.findFirst({
+    where: eq(donations.paymentReference, params.paymentReference),
+  })
+
+  if (!donation) {
+    return { success: false, error: 'Donation not found' }
+  }
+
+  if (donation.paymentStatus !== 'completed' || !donation.receiptNumber) {
+    return { success: false, error: 'Only completed donations with a receipt can be reissued' }
+  }
+
+  // Capture the receipt as issued before the donation row changes
+  await recordIssuedReceipt(params.paymentReference, 'system')
+
+  const corrections: ReceiptCorrections = {}
+  if (params.corrections?.donorName !== undefined) corrections.donorName = params.corrections.donorName
+  if (params.corrections?.donorEmail !== undefined) corrections.donorEmail = params.corrections.donorEmail
+  if (params.corrections?.donorPhone !== undefined) corrections.donorPhone = params.corrections.donorPhone
+
+  const previousReceiptNumber = donation.receiptNumber
+
+  // Conditional UPDATE so concurrent reissues or refunds cannot both
+  // replace the same receipt
+  const receiptNumber = await assignReceiptNumber(
+    and(
+      eq(donations.id, donation.id),
+      eq(donations.receiptNumber, previousReceiptNumber)
+    ),
+    corrections
+  )
+
+  if (!receiptNumber) {
+    return { success: false, error: 'Receipt changed while it was being reissued. Please refresh and try again.' }
+  }
+
+  await supersedeReceipt({
+    paymentReference: params.paymentReference,
+    previousReceiptNumber,
+    reason: params.reason,
+    performedBy: params.performedBy,
+  })
+
+  await logReceiptEvent(donation.id, 'receipt_reissued', {
+    previousReceiptNumber,
+    newReceiptNumber: receiptNumber,
+    reason: params.reason,
+    corrections: Object.fromEntries(Object.entries(corrections).map(([field, value]) => [
+      field,
+      { from: donation[field as keyof ReceiptCorrections], to: value },
+    ])),
+    performedBy: params.performedBy,
+  })
+
+  logger.info('Receipt reissued', { donationId: donation.id, previousReceiptNumber, receiptNumber })
+
+  return { success: true, donationId: donation.id, previousReceiptNumber, receiptNumber }
+}
+
+/**
+ * Check every receipt number on donations and in the register for
+ * duplicates, gaps in each year's sequence and non-standard numbers
+ */
+export async function auditReceiptNumbers(): Promise<ReceiptNumberIssues> {
+  const [donationNumbers, registerNumbers, counters] = await Promise.all([
+    db
+      .select({ receiptNumber: donations.receiptNumber, donationId: donations.id })
+      .from(donations)
+      .where(isNotNull(donations.receiptNumber)),
+    db
+      .select({ receiptNumber: receipts.receiptNumber, donationId: receipts.donationId })
+      .from(receipts),
+    db
+      .select({ year: receiptCounters.year, lastSequence: receiptCounters.lastSequence })
+      .from(receiptCounters),
+  ])
+
+  return findReceiptNumberIssues(
+    [
+      ...donationNumbers.map(d => ({ receiptNumber: d.receiptNumber as string, donationId: d.donationId })),
+      ...registerNumbers,
+    ],
+    counters
+  )
+}
@@ -5,17 +5,21 @@
  * for donations to Yayasan Insan Prihatin.
  */
 
-import { db, donations, projects } from '@/db'
-import { eq, sql } from 'drizzle-orm'
+import crypto from 'crypto'
+import { db, donations, projects, receiptCounters, receipts } from '@/db'
+import { and, asc, eq, inArray, sql, type SQL } from 'drizzle-orm'
 import { getOrganizationConfig, type OrganizationConfig } from './organization-config'
 import { getLocalizedValue, type LocalizedString } from '@/i18n/config'
+import { getReceiptYear, RECEIPT_SEQUENCE_SQL_PATTERN } from './receipt-numbering'
+import { formatReceiptTributeLine } from './tribute-format'
 
 export interface ReceiptData {
   receiptNumber: string
   donorName: string
   donorEmail: string
   donorPhone?: string
-  amount: number
+  amount: number // Net of any partial refunds
+  originalAmount?: number // Set when a partial refund reduced the receipted amount
   currency: string
   projectTitle?: string
   paymentReference: string
@@ -24,41 +28,95 @@ export interface ReceiptData {
   completedAt: Date
   createdAt: Date
   message?: string
+  tribute?: string // e.g. "In memory of X / Sedekah untuk arwah X"
+  // Set when rendering a receipt that is no longer valid
+  voided?: {
+    status: 'voided' | 'reissued'
+    reason: string | null
+    voidedAt: Date | null
+    replacedBy: string | null
+  }
   // Organization details (fetched from config)
   organization?: OrganizationConfig
 }
 
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  fpx: 'FPX',
+  bank_transfer: 'Bank Transfer',
+  cash: 'Cash',
+  cheque: 'Cheque',
+}
+
 /**
- * Generate a unique receipt number in format: YIP-YYYY-NNNNNN
- * Example: YIP-2026-000001
+ * Human-readable payment method for receipts
  */
-export async function generateReceiptNumber(): Promise<string> {
-  const year = new Date().getFullYear()
-  const prefix = `YIP-${year}-`
-
-  // Get the last receipt number for this year
-  const lastReceipt = await db.query.donations.findFirst({
-    where: sql`${donations.receiptNumber} LIKE ${prefix + '%'}`,
-    orderBy: sql`${donations.receiptNumber} DESC`,
-    columns: {
-      receiptNumber: true,
-    },
-  })
+export function formatPaymentMethod(method: string | null | undefined): string {
+  if (!method) return 'FPX'
+  return PAYMENT_METHOD_LABELS[method] || method.toUpperCase()
+}
 
-  let sequence = 1
+/**
+ * Apply `values` to the donation matched by `where` and stamp it with the
+ * next receipt number (YIP-YYYY-NNNNNN), in a single statement.
+ *
+ * The statement locks the matched donation, bumps the year's counter only if
+ * there is one, and writes the number back, so concurrent completions always
+ * get different numbers and a completion that loses the race consumes none.
+ * The first receipt of a year seeds the counter after the numbers already
+ * issued in order (see getStartingSequence).
+ *
+ * Returns null when `where` matched nothing (e.g. the webhook completed the
+ * donation first).
+ */
+export async function assignReceiptNumber(
+  where: SQL | undefined,
+  values: Partial<typeof donations.$inferInsert> = {},
+  issuedAt: Date = new Date()
+): Promise<string | null> {
+  const year = getReceiptYear(issuedAt)
+  const prefix = `YIP-${year}-%`
 
-  if (lastReceipt?.receiptNumber) {
-    // Extract sequence number from last receipt
-    const lastSequence = lastReceipt.receiptNumber.split('-')[2]
-    if (lastSequence) {
-      sequence = parseInt(lastSequence, 10) + 1
-    }
-  }
+  const issued = sql`
+    SELECT SUBSTRING(${donations.receiptNumber} FROM ${RECEIPT_SEQUENCE_SQL_PATTERN})::int AS sequence
+    FROM ${donations}
+    WHERE ${donations.receiptNumber} LIKE ${prefix} AND ${donations.receiptNumber} ~ ${RECEIPT_SEQUENCE_SQL_PATTERN}
+    UNION
+    SELECT SUBSTRING(${receipts.receiptNumber} FROM ${RECEIPT_SEQUENCE_SQL_PATTERN})::int AS sequence
+    FROM ${receipts}
+    WHERE ${receipts.receiptNumber} LIKE ${prefix} AND ${receipts.receiptNumber} ~ ${RECEIPT_SEQUENCE_SQL_PATTERN}
+  `
 
-  // Format sequence with leading zeros (6 digits)
-  const sequenceStr = sequence.toString().padStart(6, '0')
+  // First sequence not yet issued this year, as in getStartingSequence
+  const seed = sql`(
+    SELECT MIN(candidate)::int
+    FROM generate_series(1, (SELECT COUNT(*) FROM (${issued}) issued) + 1) AS candidate
+    WHERE candidate NOT IN (${issued})
+  )`
 
-  return `${prefix}${sequenceStr}`
+  const target = db.$with('target').as(
+    db.select({ id: donations.id }).from(donations).where(where).limit(1).for('update')
+  )
+
+  const counter = db.$with('counter', { lastSequence: receiptCounters.lastSequence }).as(sql`
+    INSERT INTO ${receiptCounters} (${sql.identifier(receiptCounters.year.name)}, ${sql.identifier(receiptCounters.lastSequence.name)})
+    SELECT ${year}::int, ${seed} FROM ${target}
+    ON CONFLICT (${sql.identifier(receiptCounters.year.name)}) DO UPDATE SET
+      ${sql.identifier(receiptCounters.lastSequence.name)} = ${receiptCounters.lastSequence} + 1,
+      ${sql.identifier(receiptCounters.updatedAt.name)} = NOW()
+    RETURNING ${receiptCounters.lastSequence}
+  `)
+
+  const allocated = sql<string>`'YIP-' || ${year}::text || '-' || LPAD(${counter.lastSequence}::text, GREATEST(6, LENGTH(${counter.lastSequence}::text)), '0')`
+
+  const updated = await db
+    .with(target, counter)
+    .update(donations)
+    .set({ ...values, receiptNumber: allocated })
+    .from(counter)
+    .where(inArray(donations.id, db.select({ id: target.id }).from(target)))
+    .returning({ receiptNumber: donations.receiptNumber })
+
+  return updated[0]?.receiptNumber || null
 }
 
 /**
@@ -73,6 +131,13 @@ export async function getReceiptData(paymentReference: string): Promise<ReceiptD
     return null
   }
 
+  return buildReceiptData(donation)
+}
+
+/**
+ * Receipt data for a donation row as it stands now, whatever its status
+ */
+export async function buildReceiptData(donation: typeof donations.$inferSelect): Promise<ReceiptData> {
   // Get project title if applicable
   let projectTitle: string | undefined
   if (donation.projectId) {
@@ -89,21 +154,182 @@ export async function getReceiptData(paymentReference: string): Promise<ReceiptD
   // Get organization config from database
   const organization = await getOrganizationConfig()
 
+  // Partial refunds reduce the receipted amount (fully refunded donations
+  // are no longer 'completed' and never reach this point)
+  const refundedAmount = donation.refundedAmount || 0
+
   // Note: Amount is stored in cents, convert to currency units
   return {
     receiptNumber: donation.receiptNumber || 'Pending',
     donorName: donation.donorName || 'Anonymous',
     donorEmail: donation.donorEmail || '',
     donorPhone: donation.donorPhone || undefined,
-    amount: donation.amount / 100, // Convert cents to currency units
+    amount: (donation.amount - refundedAmount) / 100, // Convert cents to currency units
+    originalAmount: refundedAmount > 0 ? donation.amount / 100 : undefined,
     currency: donation.currency || 'MYR',
     projectTitle,
-    paymentReference: donation.paymentReference || paymentReference,
-    paymentMethod: donation.paymentMethod || 'FPX',
-    transactionId: donation.toyyibpayTransactionId || undefined,
+    paymentReference: donation.paymentReference || '',
+    paymentMethod: formatPaymentMethod(donation.paymentMethod),
+    transactionId: donation.gatewayTransactionId || donation.offlineReference || undefined,
     completedAt: donation.completedAt || donation.createdAt,
     createdAt: donation.createdAt,
     message: donation.message || undefined,
+    tribute: formatReceiptTributeLine(donation.tributeType, donation.tributeName),
+    organization,
+  }
+}
+
+export interface AnnualStatementDonation {
+  receiptNumber: string
+  paymentReference: string
+  date: Date
+  amount: number // Net of any partial refunds
+  projectTitle?: string
+  paymentMethod: string
+}
+
+export interface AnnualStatementData {
+  statementNumber: string
+  year: number
+  donorName: string
+  donorEmail: string
+  donorPhone?: string
+  currency: string
+  totalAmount: number
+  donations: AnnualStatementDonation[]
+  generatedAt: Date
+  // Organization details (fetched from config)
+  organization?: OrganizationConfig
+}
+
+export interface AnnualStatementDonor {
+  donorEmail: string // Lowercased
+  donorName: string | null
+  donationCount: number
+  totalAmount: number // In cents, net of partial refunds
+}
+
+// Malaysia does not observe daylight saving, so the tax year is always UTC+8
+const MALAYSIA_UTC_OFFSET_MS = 8 * 60 * 60 * 1000
+
+/**
+ * Start (inclusive) and end (exclusive) of a calendar year in Malaysia time,
+ * matching the year of assessment donors file with LHDN
+ */
+export function getAnnualStatementPeriod(year: number): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(year, 0, 1) - MALAYSIA_UTC_OFFSET_MS),
+    end: new Date(Date.UTC(year + 1, 0, 1) - MALAYSIA_UTC_OFFSET_MS),
+  }
+}
+
+/**
+ * Statement number in format: YIP-YYYY-AS-XXXXXXXX
+ * Derived from the donor email so regenerating a statement keeps its number.
+ */
+export function getAnnualStatementNumber(donorEmail: string, year: number): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(donorEmail.trim().toLowerCase())
+    .digest('hex')
+    .substring(0, 8)
+    .toUpperCase()
+  return `YIP-${year}-AS-${hash}`
+}
+
+function annualStatementConditions(year: number) {
+  const { start, end } = getAnnualStatementPeriod(year)
+  const donatedAt = sql`COALESCE(${donations.completedAt}, ${donations.createdAt})`
+
+  return and(
+    eq(donations.paymentStatus, 'completed'),
+    eq(donations.environment, 'production'),
+    sql`${donations.donorEmail} IS NOT NULL AND ${donations.donorEmail} <> ''`,
+    sql`${donatedAt} >= ${start.toISOString()} AND ${donatedAt} < ${end.toISOString()}`
+  )
+}
+
+/**
+ * Donors with at least one completed donation in the year, grouped by email
+ */
+export async function getAnnualStatementDonors(year: number): Promise<AnnualStatementDonor[]> {
+  const donorEmail = sql<string>`LOWER(${donations.donorEmail})`
+
+  const rows = await db
+    .select({
+      donorEmail,
+      donorName: sql<string | null>`(ARRAY_AGG(${donations.donorName} ORDER BY ${donations.completedAt} DESC))[1]`,
+      donationCount: sql<number>`COUNT(*)::int`,
+      totalAmount: sql<number>`COALESCE(SUM(${donations.amount} - COALESCE(${donations.refundedAmount}, 0)), 0)::int`,
+    })
+    .from(donations)
+    .where(annualStatementConditions(year))
+    .groupBy(donorEmail)
+    .orderBy(donorEmail)
+
+  return rows
+}
+
+/**
+ * Get consolidated statement data for every completed donation made by a
+ * donor email during the year (includes organization config)
+ */
+export async function getAnnualStatementData(donorEmail: string, year: number): Promise<AnnualStatementData | null> {
+  const email = donorEmail.trim().toLowerCase()
+
+  const donationList = await db.query.donations.findMany({
+    where: and(
+      annualStatementConditions(year),
+      sql`LOWER(${donations.donorEmail}) = ${email}`
+    ),
+    orderBy: [asc(donations.completedAt)],
+  })
+
+  if (donationList.length === 0) {
+    return null
+  }
+
+  // Get project titles for the donations that were made to a project
+  const projectIds = [...new Set(donationList.map(d => d.projectId).filter((id): id is string => !!id))]
+  const projectTitles = new Map<string, string>()
+  if (projectIds.length > 0) {
+    const projectList = await db.query.projects.findMany({
+      where: inArray(projects.id, projectIds),
+      columns: { id: true, title: true },
+    })
+    for (const project of projectList) {
+      projectTitles.set(project.id, getLocalizedValue(project.title as LocalizedString, 'en'))
+    }
+  }
+
+  // Get organization config from database
+  const organization = await getOrganizationConfig()
+
+  // The most recent donation carries the donor's current name and phone
+  const latest = donationList[donationList.length - 1]
+
+  // Note: Amounts are stored in cents, convert to currency units
+  const statementDonations: AnnualStatementDonation[] = donationList.map(donation => ({
+    receiptNumber: donation.receiptNumber || 'Pending',
+    paymentReference: donation.paymentReference || '-',
+    date: donation.completedAt || donation.createdAt,
+    amount: (donation.amount - (donation.refundedAmount || 0)) / 100,
+    projectTitle: donation.projectId ? projectTitles.get(donation.projectId) : undefined,
+    paymentMethod: formatPaymentMethod(donation.paymentMethod),
+  }))
+
+  const totalCents = donationList.reduce((sum, d) => sum + d.amount - (d.refundedAmount || 0), 0)
+
+  return {
+    statementNumber: getAnnualStatementNumber(email, year),
+    year,
+    donorName: latest.donorName || 'Anonymous',
+    donorEmail: email,
+    donorPhone: latest.donorPhone || undefined,
+    currency: latest.currency || 'MYR',
+    totalAmount: totalCents / 100,
+    donations: statementDonations,
+    generatedAt: new Date(),
     organization,
   }
 }
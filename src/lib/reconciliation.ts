@@ -0,0 +1,416 @@
+/**
+ * Donation Reconciliation Service
+ *
+ * Compares our donation records with the payment gateway's transactions so that
+ * missed webhooks don't leave donations stuck in 'pending'. Safe mismatches
+ * are fixed automatically; anything involving money we may not have received
+ * is only reported for an admin to review.
+ *
+ * Auto-fixed:
+ * - Gateway paid, we show pending/failed/expired -> completed
+ * - Gateway failed, we show pending -> failed
+ *
+ * Reported only:
+ * - We show completed, the gateway does not
+ * - Paid amount differs from the donation amount
+ * - Gateway lookups that errored
+ */
+
+import { db, donations, donationLogs, projects, reconciliationReports, type ReconciliationItem } from '@/db'
+import { and, eq, gte, inArray, isNotNull, or, sql } from 'drizzle-orm'
+import { getActivePaymentGateway, type GatewayTransaction, type PaymentGateway } from '@/lib/payments'
+import { assignReceiptNumber, getReceiptData } from '@/lib/receipt'
+import { recordIssuedReceipt } from '@/lib/receipt-register'
+import { sendDonationReceiptEmail } from '@/lib/email'
+import { onSubscriptionPaymentCompleted } from '@/lib/subscriptions'
+import { onFundraiserDonationCompleted } from '@/lib/fundraisers'
+import { onTributeDonationCompleted } from '@/lib/tributes'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('Reconciliation')
+
+// Pending donations older than this are assumed abandoned and not re-checked
+const PENDING_LOOKBACK_DAYS = 30
+// Settled donations are re-checked for this long to catch late reversals
+const RECENT_LOOKBACK_DAYS = 3
+const MAX_DONATIONS_PER_RUN = 500
+
+type Donation = typeof donations.$inferSelect
+
+async function logReconciliationEvent(donationId: string, eventType: string, eventData: Record<string, unknown>) {
+  try {
+    await db.insert(donationLogs).values({
+      donationId,
+      eventType,
+      eventData,
+      ipAddress: 'system',
+      userAgent: 'Reconciliation-Job',
+    })
+  } catch (error) {
+    logger.error('Failed to log reconciliation event', {
+      donationId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
+
+/**
+ * Mark a donation completed after the gateway confirmed payment. Conditional on
+ * the status we read so a webhook arriving at the same time is not doubled.
+ */
+async function completeDonation(donation: Donation, transaction: GatewayTransaction): Promise<boolean> {
+  const receiptNumber = await assignReceiptNumber(
+    and(
+      eq(donations.id, donation.id),
+      eq(donations.paymentStatus, donation.paymentStatus || 'pending')
+    ),
+    {
+      paymentStatus: 'completed',
+      completedAt: new Date(),
+      completionRecordedAt: new Date(),
+      gatewayTransactionId: transaction.transactionId,
+      failureReason: null,
+    }
+  )
+
+  if (!receiptNumber) return false
+
+  if (donation.paymentReference) {
+    await recordIssuedReceipt(donation.paymentReference, 'system')
+  }
+
+  if (donation.projectId) {
+    await db
+      .update(projects)
+      .set({
+        donationRaised: sql`COALESCE(donation_raised, 0) + ${donation.amount}`,
+      })
+      .where(eq(projects.id, donation.projectId))
+  }
+
+  await onSubscriptionPaymentCompleted(donation)
+  await onFundraiserDonationCompleted(donation)
+  await onTributeDonationCompleted(donation)
+
+  await logReconciliationEvent(donation.id, 'reconciliation_completed', {
+    previousStatus: donation.paymentStatus,
+    newStatus: 'completed',
+    transactionId: transaction.transactionId,
+    receiptNumber,
+  })
+
+  // Send the receipt the webhook would have sent
+  if (donation.donorEmail && donation.paymentReference) {
+    try {
+      const receiptData = await getReceiptData(donation.paymentReference)
+      if (receiptData) {
+        let pdfBuffer: Buffer | undefined
+        try {
+          const { renderToBuffer } = await import('@react-pdf/renderer')
+          const { ReceiptPDF } = await import('@/lib/receipt-pdf')
+          const React = await import('react')
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const element = React.createElement(ReceiptPDF as any, { data: receiptData })
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          pdfBuffer = await renderToBuffer(element as any)
+        } catch (pdfError) {
+          logger.error('Failed to generate PDF', {
+            donationId: donation.id,
+            error: pdfError instanceof Error ? pdfError.message : 'Unknown error',
+          })
+        }
+
+        const emailResult = await sendDonationReceiptEmail({
+          receiptNumber: receiptData.receiptNumber,
+          donorName: receiptData.donorName,
+          donorEmail: receiptData.donorEmail,
+          amount: receiptData.amount,
+          currency: receiptData.currency,
+          projectTitle: receiptData.projectTitle,
+          paymentReference: receiptData.paymentReference,
+          completedAt: receiptData.completedAt,
+          pdfBuffer,
+          organization: receiptData.organization,
+        })
+
+        if (emailResult.success) {
+          await db
+            .update(donations)
+            .set({ receiptSentAt: new Date() })
+            .where(eq(donations.id, donation.id))
+        }
+
+        await logReconciliationEvent(donation.id, emailResult.success ? 'receipt_email_sent' : 'receipt_email_failed', {
+          messageId: emailResult.messageId,
+          error: emailResult.error || emailResult.reason,
+          source: 'reconciliation',
+        })
+      }
+    } catch (emailError) {
+      logger.error('Receipt email error', {
+        donationId: donation.id,
+        error: emailError instanceof Error ? emailError.message : 'Unknown error',
+      })
+    }
+  }
+
+  return true
+}
+
+async function failDonation(donation: Donation): Promise<boolean> {
+  const [updated] = await db
+    .update(donations)
+    .set({
+      paymentStatus: 'failed',
+      failureReason: 'Payment failed (confirmed by reconciliation)',
+    })
+    .where(and(
+      eq(donations.id, donation.id),
+      eq(donations.paymentStatus, 'pending')
+    ))
+    .returning({ id: donations.id })
+
+  if (!updated) return false
+
+  await logReconciliationEvent(donation.id, 'reconciliation_failed', {
+    previousStatus: donation.paymentStatus,
+    newStatus: 'failed',
+  })
+
+  return true
+}
+
+/**
+ * Reconcile a single donation against its bill's transactions
+ */
+async function reconcileDonation(gateway: PaymentGateway, donation: Donation): Promise<{
+  fixed: boolean
+  items: ReconciliationItem[]
+}> {
+  const base = {
+    donationId: donation.id,
+    paymentReference: donation.paymentReference,
+    billCode: donation.gatewayBillCode,
+    dbStatus: donation.paymentStatus,
+    dbAmount: donation.amount,
+  }
+
+  const transactions = await gateway.getTransactions(donation.gatewayBillCode!)
+  const items: ReconciliationItem[] = []
+
+  // A bill can have several attempts; a successful one wins
+  const paidTransaction = transactions.find(tx => tx.status === 'completed')
+  const transaction = paidTransaction || transactions[0]
+
+  if (!transaction) {
+    if (donation.paymentStatus === 'completed') {
+      items.push({
+        ...base,
+        type: 'no_transaction',
+        gatewayStatus: null,
+        gatewayAmount: null,
+        resolution: `Marked completed but ${gateway.displayName} has no transaction for this bill. Review manually.`,
+      })
+    }
+    return { fixed: false, items }
+  }
+
+  const gatewayStatus = transaction.status
+  const gatewayAmount = transaction.amount
+  let fixed = false
+
+  if (gatewayStatus === 'completed') {
+    if (donation.paymentStatus === 'pending' || donation.paymentStatus === 'failed' || donation.paymentStatus === 'expired') {
+      fixed = await completeDonation(donation, transaction)
+      items.push({
+        ...base,
+        type: 'status_fixed',
+        gatewayStatus,
+        gatewayAmount,
+        resolution: fixed
+          ? `Updated from ${donation.paymentStatus} to completed`
+          : 'Status changed during reconciliation; no action taken',
+      })
+    }
+
+    if (gatewayAmount !== null && gatewayAmount !== donation.amount) {
+      items.push({
+        ...base,
+        type: 'amount_mismatch',
+        gatewayStatus,
+        gatewayAmount,
+        resolution: 'Paid amount differs from donation amount. Review manually.',
+      })
+    }
+  } else if (gatewayStatus === 'failed' && donation.paymentStatus === 'pending') {
+    fixed = await failDonation(donation)
+    items.push({
+      ...base,
+      type: 'status_fixed',
+      gatewayStatus,
+      gatewayAmount,
+      resolution: fixed ? 'Updated from pending to failed' : 'Status changed during reconciliation; no action taken',
+    })
+  } else if (donation.paymentStatus === 'completed') {
+    items.push({
+      ...base,
+      type: 'status_mismatch',
+      gatewayStatus,
+      gatewayAmount,
+      resolution: `Marked completed but ${gateway.displayName} reports ${gatewayStatus}. Review manually.`,
+    })
+  }
+
+  return { fixed, items }
+}
+
+/**
+ * Run a full reconciliation pass and store the report
+ */
+export async function runReconciliation(options: {
+  trigger: 'scheduled' | 'manual'
+  triggeredBy?: string
+}): Promise<typeof reconciliationReports.$inferSelect> {
+  const gateway = getActivePaymentGateway()
+  const environment = gateway.getEnvironment()
+  const now = Date.now()
+  const pendingSince = new Date(now - PENDING_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+  const recentSince = new Date(now - RECENT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+
+  const [report] = await db.insert(reconciliationReports).values({
+    trigger: options.trigger,
+    triggeredBy: options.triggeredBy,
+    gateway: gateway.id,
+    environment,
+    periodStart: pendingSince,
+  }).returning()
+
+  if (!gateway.isConfigured()) {
+    const [failed] = await db
+      .update(reconciliationReports)
+      .set({ status: 'failed', error: `${gateway.displayName} is not configured`, completedAt: new Date() })
+      .where(eq(reconciliationReports.id, report.id))
+      .returning()
+    return failed
+  }
+
+  try {
+    // Bills only exist in the gateway environment we are connected to
+    const candidates = await db.query.donations.findMany({
+      where: and(
+        isNotNull(donations.gatewayBillCode),
+        eq(donations.paymentGateway, gateway.id),
+        eq(donations.environment, environment),
+        or(
+          and(eq(donations.paymentStatus, 'pending'), gte(donations.createdAt, pendingSince)),
+          and(
+            inArray(donations.paymentStatus, ['completed', 'failed', 'expired']),
+            gte(donations.createdAt, recentSince)
+          )
+        )
+      ),
+      limit: MAX_DONATIONS_PER_RUN,
+    })
+
+    const items: ReconciliationItem[] = []
+    let matchedCount = 0
+    let fixedCount = 0
+
+    for (const donation of candidates) {
+      try {
+        const result = await reconcileDonation(gateway, donation)
+        if (result.fixed) fixedCount++
+        if (result.items.length === 0) matchedCount++
+        items.push(...result.items)
+      } catch (error) {
+        items.push({
+          donationId: donation.id,
+          paymentReference: donation.paymentReference,
+          billCode: donation.gatewayBillCode,
+          type: 'lookup_error',
+          dbStatus: donation.paymentStatus,
+          gatewayStatus: null,
+          dbAmount: donation.amount,
+          gatewayAmount: null,
+          resolution: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+
+    const amountDifference = items
+      .filter(item => item.type === 'amount_mismatch' && item.gatewayAmount !== null)
+      .reduce((sum, item) => sum + (item.gatewayAmount! - item.dbAmount), 0)
+
+    const [completed] = await db
+      .update(reconciliationReports)
+      .set({
+        status: 'completed',
+        checkedCount: candidates.length,
+        matchedCount,
+        fixedCount,
+        discrepancyCount: items.length,
+        amountDifference,
+        items,
+        completedAt: new Date(),
+      })
+      .where(eq(reconciliationReports.id, report.id))
+      .returning()
+
+    logger.info('Reconciliation completed', {
+      reportId: report.id,
+      checked: candidates.length,
+      fixed: fixedCount,
+      discrepancies: items.length,
+    })
+
+    return completed
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    logger.error('Reconciliation failed', { reportId: report.id, error: message })
+
+    const [failed] = await db
+      .update(reconciliationReports)
+      .set({ status: 'failed', error: message, completedAt: new Date() })
+      .where(eq(reconciliationReports.id, report.id))
+      .returning()
+    return failed
+  }
+}
+
+/**
+ * Render a report's discrepancies as CSV
+ */
+export function reconciliationReportToCsv(report: typeof reconciliationReports.$inferSelect): string {
+  const headers = [
+    'Type',
+    'Payment Reference',
+    'Bill Code',
+    'Our Status',
+    'Gateway Status',
+    'Our Amount (RM)',
+    'Gateway Amount (RM)',
+    'Difference (RM)',
+    'Resolution',
+  ]
+
+  const rows = (report.items || []).map(item => [
+    item.type,
+    item.paymentReference || '',
+    item.billCode || '',
+    item.dbStatus || '',
+    item.gatewayStatus || '',
+    (item.dbAmount / 100).toFixed(2),
+    item.gatewayAmount !== null ? (item.gatewayAmount / 100).toFixed(2) : '',
+    item.gatewayAmount !== null ? ((item.gatewayAmount - item.dbAmount) / 100).toFixed(2) : '',
+    item.resolution,
+  ])
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.map(cell =>
+      cell.includes(',') || cell.includes('"') || cell.includes('\n')
+        ? `"${cell.replace(/"/g, '""')}"`
+        : cell
+    ).join(',')),
+  ].join('\n')
+}
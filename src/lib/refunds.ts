@@ -0,0 +1,237 @@
+/**
+ * Donation Refund Service
+ *
+ * Records full or partial refunds (and chargebacks raised by the bank) against
+ * completed donations. ToyyibPay has no refund API, so the money itself is
+ * returned manually; this service keeps our records, totals and receipts in
+ * line with what was actually kept.
+ *
+ * - Partial refund: donation stays 'completed', receipt is reissued for the
+ *   remaining amount under a new receipt number
+ * - Full refund: donation becomes 'refunded' and its receipt is voided
+ *
+ * Both outcomes are recorded in the receipt register.
+ */
+
+import { db, donations, donationLogs, projects } from '@/db'
+import { and, eq, sql } from 'drizzle-orm'
+import { assignReceiptNumber, getReceiptData } from '@/lib/receipt'
+import { recordIssuedReceipt, supersedeReceipt, voidReceipt } from '@/lib/receipt-register'
+import { sendDonationRefundEmail } from '@/lib/email'
+import { getOrganizationConfig } from '@/lib/organization-config'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('Refund')
+
+export type RefundType = 'refund' | 'chargeback'
+
+export interface RefundRequest {
+  reference: string
+  amount?: number // In cents; omitted means refund everything not yet refunded
+  reason: string
+  type: RefundType
+  performedBy: string
+  notifyDonor?: boolean
+}
+
+export interface RefundResult {
+  success: boolean
+  error?: string
+  refundAmount?: number // In cents
+  isFullRefund?: boolean
+  voidedReceiptNumber?: string | null
+  newReceiptNumber?: string | null
+  emailSent?: boolean
+}
+
+async function logRefundEvent(donationId: string, eventType: string, eventData: Record<string, unknown>) {
+  try {
+    await db.insert(donationLogs).values({
+      donationId,
+      eventType,
+      eventData,
+      ipAddress: 'admin',
+      userAgent: 'Admin-Dashboard',
+    })
+  } catch (error) {
+    logger.error('Failed to log refund event', {
+      donationId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
+
+/**
+ * Record a refund or chargeback against a completed donation
+ */
+export async function refundDonation(request: RefundRequest): Promise<RefundResult> {
+  const donation = await db.query.donations.findFirst({
+    where: eq(donations.paymentReference, request.reference),
+  })
+
+  if (!donation) {
+    return { success: false, error: 'Donation not found' }
+  }
+
+  if (donation.paymentStatus !== 'completed') {
+    return { success: false, error: `Only completed donations can be refunded (current status: ${donation.paymentStatus})` }
+  }
+
+  const alreadyRefunded = donation.refundedAmount || 0
+  const refundable = donation.amount - alreadyRefunded
+  const refundAmount = request.amount ?? refundable
+
+  if (!Number.isInteger(refundAmount) || refundAmount <= 0) {
+    return { success: false, error: 'Refund amount must be greater than zero' }
+  }
+
+  if (refundAmount > refundable) {
+    return { success: false, error: `Refund exceeds the refundable amount of RM ${(refundable / 100).toFixed(2)}` }
+  }
+
+  const isFullRefund = refundAmount === refundable
+  const now = new Date()
+
+  // Capture the receipt in the register before the refund changes its amount
+  if (donation.receiptNumber) {
+    await recordIssuedReceipt(request.reference, 'system')
+  }
+
+  // Single conditional UPDATE so two admins refunding at the same time can
+  // never push refunded_amount past the donation amount
+  const [updated] = await db
+    .update(donations)
+    .set({
+      refundedAmount: sql`COALESCE(refunded_amount, 0) + ${refundAmount}`,
+      paymentStatus: sql`CASE WHEN COALESCE(refunded_amount, 0) + ${refundAmount} >= amount THEN 'refunded' ELSE payment_status END`,
+      refundReason: request.reason,
+      refundedAt: now,
+    })
+    .where(and(
+      eq(donations.id, donation.id),
+      eq(donations.paymentStatus, 'completed'),
+      sql`COALESCE(refunded_amount, 0) + ${refundAmount} <= amount`
+    ))
+    .returning()
+
+  if (!updated) {
+    return { success: false, error: 'Donation changed while processing the refund. Please refresh and try again.' }
+  }
+
+  await logRefundEvent(donation.id, request.type === 'chargeback' ? 'chargeback_recorded' : 'refund_recorded', {
+    refundAmount: refundAmount / 100,
+    totalRefunded: (updated.refundedAmount || 0) / 100,
+    isFullRefund,
+    reason: request.reason,
+    previousStatus: donation.paymentStatus,
+    newStatus: updated.paymentStatus,
+    performedBy: request.performedBy,
+  })
+
+  // Remove the refunded amount from the project's raised total
+  if (donation.projectId) {
+    await db
+      .update(projects)
+      .set({
+        donationRaised: sql`GREATEST(COALESCE(donation_raised, 0) - ${refundAmount}, 0)`,
+      })
+      .where(eq(projects.id, donation.projectId))
+  }
+
+  // ===== RECEIPT =====
+
+  let newReceiptNumber: string | null = null
+  const voidedReceiptNumber = donation.receiptNumber
+
+  if (donation.receiptNumber) {
+    if (isFullRefund) {
+      await voidReceipt({
+        receiptNumber: donation.receiptNumber,
+        reason: `${request.type === 'chargeback' ? 'Chargeback' : 'Refund'}: ${request.reason}`,
+        voidedBy: request.performedBy,
+      })
+
+      await logRefundEvent(donation.id, 'receipt_voided', {
+        receiptNumber: donation.receiptNumber,
+        reason: request.reason,
+      })
+    } else {
+      newReceiptNumber = await assignReceiptNumber(eq(donations.id, donation.id))
+
+      await supersedeReceipt({
+        paymentReference: request.reference,
+        previousReceiptNumber: donation.receiptNumber,
+        reason: `Partial ${request.type}: ${request.reason}`,
+        performedBy: request.performedBy,
+      })
+
+      await logRefundEvent(donation.id, 'receipt_reissued', {
+        previousReceiptNumber: donation.receiptNumber,
+        newReceiptNumber,
+        receiptedAmount: (donation.amount - (updated.refundedAmount || 0)) / 100,
+      })
+    }
+  }
+
+  // ===== DONOR EMAIL =====
+
+  let emailSent = false
+  if (request.notifyDonor !== false && donation.donorEmail) {
+    try {
+      let pdfBuffer: Buffer | undefined
+      if (newReceiptNumber) {
+        const receiptData = await getReceiptData(request.reference)
+        if (receiptData) {
+          const { renderToBuffer } = await import('@react-pdf/renderer')
+          const { ReceiptPDF } = await import('@/lib/receipt-pdf')
+          const React = await import('react')
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const element = React.createElement(ReceiptPDF as any, { data: receiptData })
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          pdfBuffer = await renderToBuffer(element as any)
+        }
+      }
+
+      const result = await sendDonationRefundEmail({
+        donorName: donation.donorName || 'Donor',
+        donorEmail: donation.donorEmail,
+        refundAmount: refundAmount / 100,
+        remainingAmount: (donation.amount - (updated.refundedAmount || 0)) / 100,
+        currency: donation.currency || 'MYR',
+        paymentReference: request.reference,
+        reason: request.reason,
+        originalReceiptNumber: voidedReceiptNumber,
+        newReceiptNumber,
+        pdfBuffer,
+        organization: await getOrganizationConfig(),
+      })
+      emailSent = result.success
+
+      await logRefundEvent(donation.id, result.success ? 'refund_email_sent' : 'refund_email_failed', {
+        messageId: result.messageId,
+        error: result.error || result.reason,
+      })
+    } catch (error) {
+      logger.error('Refund email error', {
+        reference: request.reference,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  logger.info('Refund recorded', {
+    reference: request.reference,
+    type: request.type,
+    refundAmount: refundAmount / 100,
+    isFullRefund,
+  })
+
+  return {
+    success: true,
+    refundAmount,
+    isFullRefund,
+    voidedReceiptNumber,
+    newReceiptNumber,
+    emailSent,
+  }
+}
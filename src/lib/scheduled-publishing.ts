@@ -0,0 +1,264 @@
+/**
+ * Scheduled Publishing
+ *
+ * Editors can set a time for a blog post or project to go live and a time
+ * for it to come down. The times are kept on the row (scheduledPublishAt,
+ * scheduledUnpublishAt) and applied by the scheduled-publishing cron route,
+ * which then does what a manual publish does: records a version, logs the
+ * activity, notifies admins and revalidates the public pages. Each time is
+ * cleared once applied. Content that has not been approved in editorial
+ * review is not published; its publish time is dropped and admins are told.
+ */
+
+import { revalidatePath } from 'next/cache'
+import { db, blogPosts, projects } from '@/db'
+import { and, eq, isNull, lte, or, sql } from 'drizzle-orm'
+import { createVersion, logActivity, type UserInfo } from '@/lib/versioning'
+import { createNotification, notifyBlogPublished, notifyProjectPublished } from '@/lib/actions/notifications'
+import { checkPublishAllowed, getHeldChanges, recordReviewedSave } from '@/lib/editorial-review'
+import { type LocalizedString, getLocalizedValue, locales } from '@/i18n/config'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('ScheduledPublishing')
+
+export interface PublishSchedule {
+  publishAt: Date | null
+  unpublishAt: Date | null
+}
+
+interface SchedulableItem {
+  isPublished: boolean | null
+  scheduledPublishAt: Date | null
+  scheduledUnpublishAt: Date | null
+}
+
+export interface ScheduledChange {
+  action: 'publish' | 'unpublish' | null // null when already in that state
+  clearPublish: boolean
+  clearUnpublish: boolean
+}
+
+// Recorded as the author of versions and activity made by the job
+const SCHEDULER_USER: UserInfo = { email: 'scheduler@system', name: 'Scheduled Publishing' }
+
+// Rows applied per run; anything left over goes in the next run
+const BATCH_SIZE = 50
+
+/**
+ * Error message for a schedule that cannot be saved, or null when valid
+ */
+export function validateSchedule(
+  item: Pick<SchedulableItem, 'isPublished'>,
+  schedule: PublishSchedule,
+  now = new Date()
+): string | null {
+  const { publishAt, unpublishAt } = schedule
+
+  if (publishAt && publishAt <= now) return 'Publish time must be in the future'
+  if (unpublishAt && unpublishAt <= now) return 'Unpublish time must be in the future'
+  if (publishAt && item.isPublished) return 'Already published'
+  if (unpublishAt && !item.isPublished && !publishAt) {
+    return 'Only published or scheduled content can be unpublished on a schedule'
+  }
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    return 'Unpublish time must be after the publish time'
+  }
+  return null
+}
+
+/**
+ * What the job should do with an item at `now`, or null if nothing is due.
+ * If both times have passed (the job was down), the item ends unpublished.
+ */
+export function planScheduledChange(item: SchedulableItem, now: Date): ScheduledChange | null {
+  const publishDue = !!item.scheduledPublishAt && item.scheduledPublishAt <= now
+  const unpublishDue = !!item.scheduledUnpublishAt && item.scheduledUnpublishAt <= now
+  if (!publishDue && !unpublishDue) return null
+
+  const shouldBePublished = !unpublishDue
+  let action: ScheduledChange['action'] = null
+  if (shouldBePublished !== !!item.isPublished) {
+    action = shouldBePublished ? 'publish' : 'unpublish'
+  }
+
+  return { action, clearPublish: publishDue, clearUnpublish: unpublishDue }
+}
+
+const l = (value: LocalizedString | null | undefined): string =>
+  value ? getLocalizedValue(value, 'en') : ''
+
+// Public pages are served under a locale prefix
+function revalidatePublicPaths(paths: string[]) {
+  for (const path of paths) {
+    revalidatePath(path)
+    for (const locale of locales) {
+      revalidatePath(`/${locale}${path}`)
+    }
+  }
+}
+
+async function recordScheduledChange(
+  contentType: 'blog_posts' | 'projects',
+  label: string,
+  previous: Record<string, unknown> & { id: string; title: LocalizedString },
+  updated: Record<string, unknown>,
+  action: 'publish' | 'unpublish'
+) {
+  const actionText = action === 'publish' ? 'Published' : 'Unpublished'
+  const title = l(previous.title)
+
+  await createVersion(contentType, previous.id, updated, action, SCHEDULER_USER, {
+    previousData: previous,
+    customSummary: `${actionText} on schedule`,
+  })
+
+  await logActivity(`content_${action}`, `${actionText} ${label} on schedule: ${title}`, {
+    contentType,
+    contentId: previous.id,
+    contentTitle: title,
+    user: SCHEDULER_USER,
+  })
+
+  await recordReviewedSave(contentType, previous.id, { changeType: action, contentChanged: false, title }, SCHEDULER_USER)
+}
+
+// A due publish for content that has not been approved becomes a no-op
+async function requireApproval(
+  contentType: 'blog_posts' | 'projects',
+  item: { id: string; title: LocalizedString },
+  change: ScheduledChange
+): Promise<ScheduledChange> {
+  if (change.action !== 'publish' || !(await checkPublishAllowed(item.id))) return change
+
+  logger.warn('Scheduled publish skipped, not approved', { contentType, contentId: item.id })
+  await createNotification({
+    type: 'content_review',
+    title: 'Scheduled Publish Skipped',
+    message: `"${l(item.title)}" was not published as scheduled because it has not been approved.`,
+    priority: 'high',
+    relatedType: contentType,
+    relatedId: item.id,
+  })
+  return { ...change, action: null }
+}
+
+type BlogPost = typeof blogPosts.$inferSelect
+type Project = typeof projects.$inferSelect
+
+async function applyBlogPostChange(post: BlogPost, change: ScheduledChange, now: Date): Promise<boolean> {
+  const [updated] = await db
+    .update(blogPosts)
+    .set({
+      updatedAt: now,
+      revision: sql`${blogPosts.revision} + 1`, // So an open editor can't save over it
+      // Edits held for review while it was live carry over into the draft
+      ...(change.action === 'unpublish' && await getHeldChanges('blog_posts', post.id)),
+      ...(change.action && { isPublished: change.action === 'publish' }),
+      ...(change.action === 'publish' && !post.publishedAt && { publishedAt: now }),
+      ...(change.clearPublish && { scheduledPublishAt: null }),
+      ...(change.clearUnpublish && { scheduledUnpublishAt: null }),
+    })
+    .where(and(
+      eq(blogPosts.id, post.id),
+      // Skip the row if another run or an editor changed the schedule since we read it
+      post.scheduledPublishAt ? eq(blogPosts.scheduledPublishAt, post.scheduledPublishAt) : isNull(blogPosts.scheduledPublishAt),
+      post.scheduledUnpublishAt ? eq(blogPosts.scheduledUnpublishAt, post.scheduledUnpublishAt) : isNull(blogPosts.scheduledUnpublishAt)
+    ))
+    .returning()
+
+  if (!updated || !change.action) return !!updated
+
+  await recordScheduledChange('blog_posts', 'blog post', post, updated, change.action)
+  if (change.action === 'publish') {
+    await notifyBlogPublished({ postId: post.id, title: l(post.title) })
+  }
+  revalidatePublicPaths(['/', '/blog', `/blog/${post.slug}`])
+  return true
+}
+
+async function applyProjectChange(project: Project, change: ScheduledChange, now: Date): Promise<boolean> {
+  const [updated] = await db
+    .update(projects)
+    .set({
+      updatedAt: now,
+      revision: sql`${projects.revision} + 1`, // So an open editor can't save over it
+      // Edits held for review while it was live carry over into the draft
+      ...(change.action === 'unpublish' && await getHeldChanges('projects', project.id)),
+      ...(change.action && { isPublished: change.action === 'publish' }),
+      ...(change.action === 'publish' && !project.publishedAt && { publishedAt: now }),
+      ...(change.clearPublish && { scheduledPublishAt: null }),
+      ...(change.clearUnpublish && { scheduledUnpublishAt: null }),
+    })
+    .where(and(
+      eq(projects.id, project.id),
+      project.scheduledPublishAt ? eq(projects.scheduledPublishAt, project.scheduledPublishAt) : isNull(projects.scheduledPublishAt),
+      project.scheduledUnpublishAt ? eq(projects.scheduledUnpublishAt, project.scheduledUnpublishAt) : isNull(projects.scheduledUnpublishAt)
+    ))
+    .returning()
+
+  if (!updated || !change.action) return !!updated
+
+  await recordScheduledChange('projects', 'project', project, updated, change.action)
+  if (change.action === 'publish') {
+    await notifyProjectPublished({ projectId: project.id, title: l(project.title) })
+  }
+  revalidatePublicPaths(['/', '/projects', '/donate', `/projects/${project.slug}`])
+  return true
+}
+
+/**
+ * Apply every publish and unpublish time that has passed. Run by the cron
+ * route every few minutes.
+ */
+export async function runScheduledPublishing(now = new Date()): Promise<{
+  published: number
+  unpublished: number
+  failed: number
+}> {
+  const result = { published: 0, unpublished: 0, failed: 0 }
+
+  const count = (change: ScheduledChange) => {
+    if (change.action === 'publish') result.published++
+    if (change.action === 'unpublish') result.unpublished++
+  }
+
+  const duePosts = await db.query.blogPosts.findMany({
+    where: or(lte(blogPosts.scheduledPublishAt, now), lte(blogPosts.scheduledUnpublishAt, now)),
+    limit: BATCH_SIZE,
+  })
+  for (const post of duePosts) {
+    const planned = planScheduledChange(post, now)
+    if (!planned) continue
+    try {
+      const change = await requireApproval('blog_posts', post, planned)
+      if (await applyBlogPostChange(post, change, now)) count(change)
+    } catch (error) {
+      result.failed++
+      logger.error('Failed to apply blog post schedule', {
+        postId: post.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  const dueProjects = await db.query.projects.findMany({
+    where: or(lte(projects.scheduledPublishAt, now), lte(projects.scheduledUnpublishAt, now)),
+    limit: BATCH_SIZE,
+  })
+  for (const project of dueProjects) {
+    const planned = planScheduledChange(project, now)
+    if (!planned) continue
+    try {
+      const change = await requireApproval('projects', project, planned)
+      if (await applyProjectChange(project, change, now)) count(change)
+    } catch (error) {
+      result.failed++
+      logger.error('Failed to apply project schedule', {
+        projectId: project.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return result
+}
@@ -58,3 +58,26 @@ export function enforceTrustedOrigin(request: NextRequest): NextResponse | null
 
   return null
 }
+
+/**
+ * Guard for scheduled job endpoints. Vercel Cron (and any external
+ * scheduler) must send `Authorization: Bearer <CRON_SECRET>`.
+ */
+export function enforceCronSecret(request: NextRequest): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: 'CRON_SECRET is not configured' },
+      { status: 503 }
+    )
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  return null
+}
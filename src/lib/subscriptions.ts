@@ -0,0 +1,479 @@
+/**
+ * Recurring Donation Service
+ *
+ * ToyyibPay has no card-on-file billing, so monthly donations are run as a
+ * series of ordinary bills: each cycle inserts a pending row in `donations`
+ * (linked via subscriptionId) and emails the donor a fresh pay link.
+ *
+ * Lifecycle:
+ * - pending: created from the donate page, waiting for the first payment
+ * - active: first cycle paid, billed every month on nextBillingAt
+ * - paused / cancelled: set by the donor (manage link) or an admin
+ *
+ * A subscription is not billed again while its last cycle is still waiting
+ * for payment. Cycles left unpaid for STALE_CYCLE_DAYS are marked failed,
+ * which lets the next run bill the subscription again. Each cycle is claimed
+ * by moving nextBillingAt on from the value the run read, so overlapping
+ * runs bill it once.
+ */
+
+import crypto from 'crypto'
+import { db, donations, donationSubscriptions, donationLogs, projects } from '@/db'
+import { and, eq, lte, desc, isNotNull, isNull } from 'drizzle-orm'
+import { getActivePaymentGateway } from '@/lib/payments'
+import { sendRecurringDonationEmail } from '@/lib/email'
+import { getOrganizationConfig } from '@/lib/organization-config'
+import { type LocalizedString, getLocalizedValue } from '@/i18n/config'
+import { resolveDonationCampaign } from '@/lib/campaigns'
+import { resolveDonationFund } from '@/lib/funds'
+import { findOrCreateDonor } from '@/lib/donors'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('Subscription')
+
+export type SubscriptionStatus = 'pending' | 'active' | 'paused' | 'cancelled'
+export type SubscriptionAction = 'pause' | 'resume' | 'cancel'
+
+type Subscription = typeof donationSubscriptions.$inferSelect
+
+// How long a cycle's pay link stays open before the cycle is marked failed
+export const STALE_CYCLE_DAYS = 7
+
+export interface OpenCycle {
+  id: string
+  subscriptionId: string | null
+  createdAt: Date
+}
+
+/**
+ * Add calendar months, clamping to the last day of shorter months
+ * (31 Jan + 1 month = 28/29 Feb)
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date)
+  const day = result.getDate()
+  result.setDate(1)
+  result.setMonth(result.getMonth() + months)
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate()
+  result.setDate(Math.min(day, lastDay))
+  return result
+}
+
+/**
+ * Generate the secret token used in donor "manage subscription" links
+ */
+export function generateManageToken(): string {
+  return crypto.randomBytes(24).toString('hex')
+}
+
+function getSiteUrl(): string {
+  return process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+}
+
+export function getManageUrl(subscription: Pick<Subscription, 'manageToken' | 'locale'>, baseUrl = getSiteUrl()): string {
+  return `${baseUrl}/${subscription.locale || 'en'}/donate/subscription?token=${subscription.manageToken}`
+}
+
+function generatePaymentReference(): string {
+  const timestamp = Date.now()
+  const randomPart = Math.random().toString(36).substring(2, 8).toUpperCase()
+  return `YIP-${timestamp}-${randomPart}`
+}
+
+async function getProjectTitle(projectId: string | null): Promise<string | undefined> {
+  if (!projectId) return undefined
+  const project = await db.query.projects.findFirst({
+    where: eq(projects.id, projectId),
+    columns: { title: true },
+  })
+  if (!project?.title) return undefined
+  return typeof project.title === 'string'
+    ? project.title
+    : getLocalizedValue(project.title as LocalizedString, 'en')
+}
+
+async function logSubscriptionEvent(donationId: string, eventType: string, eventData: Record<string, unknown>) {
+  try {
+    await db.insert(donationLogs).values({
+      donationId,
+      eventType,
+      eventData,
+      ipAddress: 'system',
+      userAgent: 'Subscription-Scheduler',
+    })
+  } catch (error) {
+    logger.error('Failed to log subscription event', {
+      donationId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
+
+/**
+ * Create the donation row and gateway bill for the next cycle of an
+ * active subscription, then email the donor the pay link.
+ *
+ * Returns null when the subscription was billed, paused or cancelled since
+ * `subscription` was read (e.g. by an overlapping scheduler run).
+ */
+export async function createSubscriptionCycle(subscription: Subscription): Promise<{
+  donationId: string
+  paymentReference: string
+  paymentUrl: string | null
+  emailSent: boolean
+} | null> {
+  const cycle = (subscription.cycleCount || 0) + 1
+  const paymentReference = generatePaymentReference()
+  const baseUrl = getSiteUrl()
+  const amount = subscription.amount / 100
+  const gateway = getActivePaymentGateway()
+
+  // Claim the cycle by moving the schedule forward from the date that was
+  // read, before creating anything. Only one run can match it, and a failed
+  // bill is not retried on every scheduler run.
+  const [claimed] = await db
+    .update(donationSubscriptions)
+    .set({
+      cycleCount: cycle,
+      lastBilledAt: new Date(),
+      nextBillingAt: addMonths(subscription.nextBillingAt || new Date(), 1),
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(donationSubscriptions.id, subscription.id),
+      eq(donationSubscriptions.status, 'active'),
+      subscription.nextBillingAt
+        ? eq(donationSubscriptions.nextBillingAt, subscription.nextBillingAt)
+        : isNull(donationSubscriptions.nextBillingAt)
+    ))
+    .returning({ id: donationSubscriptions.id })
+
+  if (!claimed) {
+    logger.info('Subscription cycle already claimed', { subscriptionId: subscription.id, cycle })
+    return null
+  }
+
+  const [donation] = await db.insert(donations).values({
+    donorName: subscription.isAnonymous ? 'Anonymous' : subscription.donorName,
+    donorEmail: subscription.donorEmail,
+    donorPhone: subscription.donorPhone,
+    donorId: await findOrCreateDonor({
+      name: subscription.isAnonymous ? null : subscription.donorName,
+      email: subscription.donorEmail,
+      phone: subscription.donorPhone,
+      locale: subscription.locale,
+    }),
+    amount: subscription.amount,
+    currency: subscription.currency,
+    projectId: subscription.projectId,
+    campaignId: await resolveDonationCampaign(null, subscription.projectId),
+    fundId: await resolveDonationFund(subscription.fundId, subscription.projectId),
+    message: subscription.program ? `[${subscription.program}]` : null,
+    isAnonymous: subscription.isAnonymous,
+    paymentStatus: 'pending',
+    paymentReference,
+    paymentAttempts: 1,
+    environment: subscription.environment,
+    paymentGateway: gateway.id,
+    subscriptionId: subscription.id,
+    subscriptionCycle: cycle,
+  }).returning()
+
+  await logSubscriptionEvent(donation.id, 'subscription_cycle_created', {
+    subscriptionId: subscription.id,
+    cycle,
+    amount,
+  })
+
+  const projectTitle = await getProjectTitle(subscription.projectId)
+  let paymentUrl: string | null = null
+
+  if (gateway.isConfigured()) {
+    const bill = await gateway.createBill({
+      reference: paymentReference,
+      amount: subscription.amount,
+      name: `Monthly Donation #${cycle}`,
+      description: projectTitle
+        ? `Monthly donation for ${projectTitle}`
+        : 'Monthly donation to Yayasan Insan Prihatin',
+      payerName: subscription.donorName || 'Penderma',
+      payerEmail: subscription.donorEmail,
+      payerPhone: subscription.donorPhone,
+      isAnonymous: subscription.isAnonymous ?? false,
+      projectId: subscription.projectId,
+      returnUrl: `${baseUrl}/donate/success?ref=${paymentReference}`,
+      callbackUrl: gateway.getCallbackUrl(baseUrl),
+      emailContent: `Thank you for your monthly donation of RM ${amount.toFixed(2)} to Yayasan Insan Prihatin.`,
+    })
+
+    await db
+      .update(donations)
+      .set({ gatewayBillCode: bill.billCode })
+      .where(eq(donations.id, donation.id))
+
+    await logSubscriptionEvent(donation.id, 'bill_created', { gateway: gateway.id, billCode: bill.billCode, ...bill.details })
+    paymentUrl = bill.paymentUrl
+  }
+
+  let emailSent = false
+  if (paymentUrl) {
+    const result = await sendRecurringDonationEmail({
+      donorName: subscription.donorName || 'Donor',
+      donorEmail: subscription.donorEmail,
+      amount,
+      currency: subscription.currency || 'MYR',
+      cycle,
+      projectTitle,
+      paymentUrl,
+      manageUrl: getManageUrl(subscription, baseUrl),
+      organization: await getOrganizationConfig(),
+    })
+    emailSent = result.success
+
+    await logSubscriptionEvent(donation.id, result.success ? 'pay_link_email_sent' : 'pay_link_email_failed', {
+      messageId: result.messageId,
+      error: result.error || result.reason,
+    })
+  }
+
+  return { donationId: donation.id, paymentReference, paymentUrl, emailSent }
+}
+
+/**
+ * Whether a cycle still waiting for payment has been open too long
+ */
+export function isCycleStale(cycle: Pick<OpenCycle, 'createdAt'>, now = new Date()): boolean {
+  return now.getTime() - cycle.createdAt.getTime() >= STALE_CYCLE_DAYS * 24 * 60 * 60 * 1000
+}
+
+/**
+ * Split a billing run: stale open cycles are expired, and a subscription
+ * is billed unless it still has a cycle that is open and not stale.
+ */
+export function planBillingRun<T extends Pick<Subscription, 'id'>>(
+  subscriptions: T[],
+  openCycles: OpenCycle[],
+  now = new Date()
+): { due: T[]; stale: OpenCycle[] } {
+  const stale = openCycles.filter(cycle => isCycleStale(cycle, now))
+  const waiting = new Set(
+    openCycles.filter(cycle => !isCycleStale(cycle, now)).map(cycle => cycle.subscriptionId)
+  )
+  return {
+    due: subscriptions.filter(subscription => !waiting.has(subscription.id)),
+    stale,
+  }
+}
+
+/**
+ * Mark an unpaid cycle as failed. Conditional on it still being pending,
+ * so a payment that lands at the same moment is not overwritten.
+ */
+async function expireCycle(cycle: OpenCycle): Promise<void> {
+  const [expired] = await db
+    .update(donations)
+    .set({
+      paymentStatus: 'failed',
+      failureReason: `Monthly payment was not completed within ${STALE_CYCLE_DAYS} days`,
+    })
+    .where(and(eq(donations.id, cycle.id), eq(donations.paymentStatus, 'pending')))
+    .returning({ id: donations.id })
+
+  if (expired) {
+    await logSubscriptionEvent(cycle.id, 'subscription_cycle_expired', {
+      subscriptionId: cycle.subscriptionId,
+    })
+  }
+}
+
+/**
+ * Bill every active subscription that is due. Called by the cron route.
+ */
+export async function runDueSubscriptions(now = new Date()): Promise<{
+  processed: number
+  failed: number
+  results: Array<{ subscriptionId: string; paymentReference?: string; error?: string }>
+}> {
+  const scheduled = await db.query.donationSubscriptions.findMany({
+    where: and(
+      eq(donationSubscriptions.status, 'active'),
+      lte(donationSubscriptions.nextBillingAt, now)
+    ),
+    limit: 100,
+  })
+
+  const openCycles = await db.query.donations.findMany({
+    where: and(
+      isNotNull(donations.subscriptionId),
+      eq(donations.paymentStatus, 'pending')
+    ),
+    columns: { id: true, subscriptionId: true, createdAt: true },
+  })
+
+  const { due, stale } = planBillingRun(scheduled, openCycles, now)
+  for (const cycle of stale) {
+    await expireCycle(cycle)
+  }
+
+  const results: Array<{ subscriptionId: string; paymentReference?: string; error?: string }> = []
+  let failed = 0
+
+  for (const subscription of due) {
+    try {
+      const cycle = await createSubscriptionCycle(subscription)
+      if (!cycle) continue
+      results.push({ subscriptionId: subscription.id, paymentReference: cycle.paymentReference })
+    } catch (error) {
+      failed++
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      logger.error('Failed to bill subscription', { subscriptionId: subscription.id, error: message })
+      results.push({ subscriptionId: subscription.id, error: message })
+    }
+  }
+
+  return { processed: results.length, failed, results }
+}
+
+/**
+ * Called whenever a donation transitions to completed. If it is the first
+ * cycle of a pending subscription, the subscription becomes active and the
+ * next bill is scheduled one month after the first payment.
+ */
+export async function onSubscriptionPaymentCompleted(donation: {
+  id: string
+  subscriptionId: string | null
+}): Promise<void> {
+  if (!donation.subscriptionId) return
+
+  try {
+    const subscription = await db.query.donationSubscriptions.findFirst({
+      where: eq(donationSubscriptions.id, donation.subscriptionId),
+    })
+
+    if (!subscription || subscription.status !== 'pending') return
+
+    const now = new Date()
+    await db
+      .update(donationSubscriptions)
+      .set({
+        status: 'active',
+        lastBilledAt: now,
+        nextBillingAt: addMonths(now, 1),
+        updatedAt: now,
+      })
+      .where(eq(donationSubscriptions.id, subscription.id))
+
+    await logSubscriptionEvent(donation.id, 'subscription_activated', {
+      subscriptionId: subscription.id,
+    })
+  } catch (error) {
+    logger.error('Failed to activate subscription', {
+      subscriptionId: donation.subscriptionId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
+
+/**
+ * Apply a pause / resume / cancel action. Resuming schedules the next bill
+ * for the next due date that is not in the past.
+ */
+export async function updateSubscriptionStatus(
+  subscriptionId: string,
+  action: SubscriptionAction,
+  options: { reason?: string; actor: 'donor' | 'admin' }
+): Promise<{ success: boolean; error?: string; status?: SubscriptionStatus }> {
+  const subscription = await db.query.donationSubscriptions.findFirst({
+    where: eq(donationSubscriptions.id, subscriptionId),
+  })
+
+  if (!subscription) {
+    return { success: false, error: 'Subscription not found' }
+  }
+
+  const now = new Date()
+  const updateData: Partial<typeof donationSubscriptions.$inferInsert> = { updatedAt: now }
+  let status: SubscriptionStatus
+
+  if (action === 'pause') {
+    if (subscription.status !== 'active') {
+      return { success: false, error: 'Only active subscriptions can be paused' }
+    }
+    status = 'paused'
+    updateData.pausedAt = now
+  } else if (action === 'resume') {
+    if (subscription.status !== 'paused') {
+      return { success: false, error: 'Only paused subscriptions can be resumed' }
+    }
+    status = 'active'
+    updateData.pausedAt = null
+    let nextBillingAt = subscription.nextBillingAt || now
+    while (nextBillingAt < now) {
+      nextBillingAt = addMonths(nextBillingAt, 1)
+    }
+    updateData.nextBillingAt = nextBillingAt
+  } else {
+    if (subscription.status === 'cancelled') {
+      return { success: false, error: 'Subscription is already cancelled' }
+    }
+    status = 'cancelled'
+    updateData.cancelledAt = now
+    updateData.cancellationReason = options.reason || null
+    updateData.nextBillingAt = null
+  }
+
+  updateData.status = status
+
+  await db
+    .update(donationSubscriptions)
+    .set(updateData)
+    .where(eq(donationSubscriptions.id, subscriptionId))
+
+  // Record the change against the most recent cycle for the audit trail
+  const [latestCycle] = await db
+    .select({ id: donations.id })
+    .from(donations)
+    .where(eq(donations.subscriptionId, subscriptionId))
+    .orderBy(desc(donations.createdAt))
+    .limit(1)
+
+  if (latestCycle) {
+    await logSubscriptionEvent(latestCycle.id, `subscription_${status}`, {
+      subscriptionId,
+      previousStatus: subscription.status,
+      reason: options.reason,
+      actor: options.actor,
+    })
+  }
+
+  logger.info('Subscription status updated', { subscriptionId, action, actor: options.actor })
+  return { success: true, status }
+}
+
+/**
+ * Fetch a subscription with its cycle history (newest first)
+ */
+export async function getSubscriptionWithCycles(subscriptionId: string) {
+  const subscription = await db.query.donationSubscriptions.findFirst({
+    where: eq(donationSubscriptions.id, subscriptionId),
+  })
+
+  if (!subscription) return null
+
+  const cycles = await db
+    .select({
+      id: donations.id,
+      cycle: donations.subscriptionCycle,
+      amount: donations.amount,
+      paymentStatus: donations.paymentStatus,
+      paymentReference: donations.paymentReference,
+      receiptNumber: donations.receiptNumber,
+      createdAt: donations.createdAt,
+      completedAt: donations.completedAt,
+    })
+    .from(donations)
+    .where(eq(donations.subscriptionId, subscriptionId))
+    .orderBy(desc(donations.createdAt))
+
+  return { subscription, cycles }
+}
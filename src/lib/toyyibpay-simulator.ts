@@ -0,0 +1,323 @@
+/**
+ * ToyyibPay Simulator
+ *
+ * Local stand-in for dev.toyyibpay.com so the full donation flow can be
+ * exercised offline. Point TOYYIBPAY_URL at /api/toyyibpay-simulator and set
+ * TOYYIBPAY_SIMULATOR=true.
+ *
+ * Implements the parts of the ToyyibPay API we use:
+ * - POST index.php/api/createCategory
+ * - POST index.php/api/createBill (and createBillMulti)
+ * - POST index.php/api/getBillTransactions
+ * - GET  /{billCode} hosted payment page, which fires the callback and
+ *   redirects back to the return URL like ToyyibPay does
+ *
+ * State is kept in memory and lost on restart. Never enabled in production.
+ */
+
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('ToyyibPaySimulator')
+
+export type SimulatedOutcome = 'success' | 'pending' | 'failed'
+
+// Status codes used by ToyyibPay for callbacks and transactions
+const OUTCOME_STATUS: Record<SimulatedOutcome, string> = {
+  success: '1',
+  pending: '2',
+  failed: '3',
+}
+
+export interface SimulatedTransaction {
+  transactionId: string
+  invoiceNo: string
+  status: string
+  amount: number // In cents
+  reason: string
+  paidAt: Date
+}
+
+export interface SimulatedBill {
+  billCode: string
+  categoryCode: string
+  billName: string
+  billDescription: string
+  billAmount: number // In cents
+  billReturnUrl: string
+  billCallbackUrl: string
+  billExternalReferenceNo: string
+  billTo: string
+  billEmail: string
+  billPhone: string
+  transactions: SimulatedTransaction[]
+  lastCallback?: { status: number | null; error?: string; sentAt: Date }
+  createdAt: Date
+}
+
+interface SimulatorState {
+  categories: Map<string, { name: string; description: string }>
+  bills: Map<string, SimulatedBill>
+  sequence: number
+}
+
+// Kept on globalThis so every route bundle in `next dev` shares one store
+const globalForSimulator = globalThis as unknown as { toyyibpaySimulator?: SimulatorState }
+
+function getState(): SimulatorState {
+  if (!globalForSimulator.toyyibpaySimulator) {
+    globalForSimulator.toyyibpaySimulator = {
+      categories: new Map(),
+      bills: new Map(),
+      sequence: 0,
+    }
+  }
+  return globalForSimulator.toyyibpaySimulator
+}
+
+function nextCode(prefix: string): string {
+  const state = getState()
+  state.sequence++
+  return `${prefix}${state.sequence.toString(36).padStart(6, '0')}`
+}
+
+/**
+ * The simulator must be switched on explicitly and is never served in production
+ */
+export function isSimulatorEnabled(): boolean {
+  return process.env.TOYYIBPAY_SIMULATOR === 'true' && process.env.NODE_ENV !== 'production'
+}
+
+export function resetSimulator() {
+  delete globalForSimulator.toyyibpaySimulator
+}
+
+export function getSimulatedBill(billCode: string): SimulatedBill | undefined {
+  return getState().bills.get(billCode)
+}
+
+// ===== API =====
+
+export interface SimulatorApiResponse {
+  body: unknown // JSON body, or plain text for ToyyibPay's bracketed errors
+  isText?: boolean
+}
+
+function textError(code: string): SimulatorApiResponse {
+  return { body: `[${code}]`, isText: true }
+}
+
+function createCategory(form: URLSearchParams): SimulatorApiResponse {
+  const name = form.get('catname')
+  if (!name) {
+    return { body: { status: 'error', msg: 'Category name is required' } }
+  }
+
+  const categoryCode = nextCode('simcat')
+  getState().categories.set(categoryCode, {
+    name,
+    description: form.get('catdescription') || '',
+  })
+
+  return { body: [{ CategoryCode: categoryCode }] }
+}
+
+function createBill(form: URLSearchParams): SimulatorApiResponse {
+  const categoryCode = form.get('categoryCode')
+  const billName = form.get('billName') || ''
+  const billAmount = parseInt(form.get('billAmount') || '', 10)
+
+  // Categories created against a previous simulator run are still accepted,
+  // since their codes are persisted in site settings
+  if (!categoryCode) return textError('CATEGORY-NOT-EXIST')
+  if (!billName || billName.length > 30) {
+    return { body: { status: 'error', msg: 'Bill name is required and must be max 30 characters' } }
+  }
+  if (!Number.isFinite(billAmount) || billAmount < 100) {
+    return { body: { status: 'error', msg: 'Invalid bill amount' } }
+  }
+
+  const billCode = nextCode('sim')
+  getState().bills.set(billCode, {
+    billCode,
+    categoryCode,
+    billName,
+    billDescription: form.get('billDescription') || '',
+    billAmount,
+    billReturnUrl: form.get('billReturnUrl') || '',
+    billCallbackUrl: form.get('billCallbackUrl') || '',
+    billExternalReferenceNo: form.get('billExternalReferenceNo') || '',
+    billTo: form.get('billTo') || '',
+    billEmail: form.get('billEmail') || '',
+    billPhone: form.get('billPhone') || '',
+    transactions: [],
+    createdAt: new Date(),
+  })
+
+  logger.info('Bill created', { billCode, amount: billAmount })
+  return { body: [{ BillCode: billCode }] }
+}
+
+function getBillTransactions(form: URLSearchParams): SimulatorApiResponse {
+  const bill = getState().bills.get(form.get('billCode') || '')
+  if (!bill) return textError('BILL-NOT-EXIST')
+
+  return {
+    body: bill.transactions.map(tx => ({
+      billName: bill.billName,
+      billDescription: bill.billDescription,
+      billTo: bill.billTo,
+      billEmail: bill.billEmail,
+      billPhone: bill.billPhone,
+      billStatus: tx.status === OUTCOME_STATUS.success ? '1' : '2',
+      billAmount: (bill.billAmount / 100).toFixed(2),
+      billpaymentStatus: tx.status,
+      billpaymentChannel: 'FPX',
+      billpaymentAmount: (tx.amount / 100).toFixed(2),
+      billpaymentInvoiceNo: tx.invoiceNo,
+      billExternalReferenceNo: bill.billExternalReferenceNo,
+      billPaymentDate: tx.paidAt.toISOString(),
+      transactionId: tx.transactionId,
+    })),
+  }
+}
+
+/**
+ * Handle a ToyyibPay API call (index.php/api/{action})
+ */
+export function handleSimulatorApi(action: string, form: URLSearchParams): SimulatorApiResponse {
+  if (!form.get('userSecretKey')) {
+    return textError('KEY-DID-NOT-EXIST')
+  }
+
+  switch (action) {
+    case 'createCategory':
+      return createCategory(form)
+    case 'createBill':
+    case 'createBillMulti':
+      return createBill(form)
+    case 'getBillTransactions':
+      return getBillTransactions(form)
+    default:
+      return textError('API-NOT-FOUND')
+  }
+}
+
+// ===== HOSTED PAYMENT PAGE =====
+
+/**
+ * Record a payment attempt, fire the server-to-server callback and return
+ * the URL the donor is redirected to
+ */
+export async function payBill(
+  billCode: string,
+  outcome: SimulatedOutcome,
+  options: { reason?: string } = {}
+): Promise<{ redirectUrl: string; callbackPayload: Record<string, string> } | null> {
+  const bill = getState().bills.get(billCode)
+  if (!bill) return null
+
+  const status = OUTCOME_STATUS[outcome]
+  const transaction: SimulatedTransaction = {
+    transactionId: `TP${Date.now()}${bill.transactions.length + 1}`,
+    invoiceNo: `TP-SIM-${billCode}-${bill.transactions.length + 1}`,
+    status,
+    amount: bill.billAmount,
+    reason: options.reason || (outcome === 'success' ? 'Approved' : outcome === 'failed' ? 'Cancelled' : 'Pending'),
+    paidAt: new Date(),
+  }
+  // Most recent attempt first, matching getBillTransactions on ToyyibPay
+  bill.transactions.unshift(transaction)
+
+  const callbackPayload = {
+    refno: transaction.invoiceNo,
+    status,
+    reason: transaction.reason,
+    billcode: billCode,
+    order_id: bill.billExternalReferenceNo,
+    amount: (transaction.amount / 100).toFixed(2),
+    transaction_id: transaction.transactionId,
+    transaction_time: transaction.paidAt.toISOString(),
+  }
+
+  if (bill.billCallbackUrl) {
+    try {
+      const response = await fetch(bill.billCallbackUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams(callbackPayload).toString(),
+      })
+      bill.lastCallback = { status: response.status, sentAt: new Date() }
+    } catch (error) {
+      bill.lastCallback = {
+        status: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        sentAt: new Date(),
+      }
+      logger.warn('Callback delivery failed', { billCode, error: bill.lastCallback.error })
+    }
+  }
+
+  const redirectUrl = new URL(bill.billReturnUrl)
+  redirectUrl.searchParams.set('status_id', status)
+  redirectUrl.searchParams.set('billcode', billCode)
+  redirectUrl.searchParams.set('order_id', bill.billExternalReferenceNo)
+  redirectUrl.searchParams.set('transaction_id', transaction.transactionId)
+
+  logger.info('Bill paid', { billCode, outcome, callbackStatus: bill.lastCallback?.status })
+  return { redirectUrl: redirectUrl.toString(), callbackPayload }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Minimal stand-in for ToyyibPay's hosted bill page
+ */
+export function renderPaymentPage(bill: SimulatedBill): string {
+  const button = (outcome: SimulatedOutcome, label: string, color: string) =>
+    `<button type="submit" name="outcome" value="${outcome}" style="background:${color}">${label}</button>`
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>ToyyibPay Simulator - ${escapeHtml(bill.billName)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f3f4f6; margin: 0; padding: 40px 16px; }
+    main { max-width: 420px; margin: 0 auto; background: #fff; border-radius: 16px; padding: 32px; box-shadow: 0 10px 30px rgba(0,0,0,.08); }
+    .badge { display: inline-block; background: #fef3c7; color: #92400e; font-size: 12px; font-weight: 600; padding: 4px 10px; border-radius: 999px; }
+    dl { display: grid; grid-template-columns: auto 1fr; gap: 8px 16px; font-size: 14px; }
+    dt { color: #6b7280; }
+    dd { margin: 0; font-weight: 500; word-break: break-all; }
+    .amount { font-size: 32px; font-weight: 700; color: #0d9488; margin: 16px 0; }
+    button { width: 100%; color: #fff; border: 0; border-radius: 10px; padding: 12px; font-size: 15px; font-weight: 600; margin-top: 10px; cursor: pointer; }
+  </style>
+</head>
+<body>
+  <main>
+    <span class="badge">SIMULATOR - no real money moves</span>
+    <h1>${escapeHtml(bill.billName)}</h1>
+    <p>${escapeHtml(bill.billDescription)}</p>
+    <p class="amount">RM ${(bill.billAmount / 100).toFixed(2)}</p>
+    <dl>
+      <dt>Bill code</dt><dd>${escapeHtml(bill.billCode)}</dd>
+      <dt>Reference</dt><dd>${escapeHtml(bill.billExternalReferenceNo)}</dd>
+      <dt>Payer</dt><dd>${escapeHtml(bill.billTo)}</dd>
+      <dt>Attempts</dt><dd>${bill.transactions.length}</dd>
+    </dl>
+    <form method="post">
+      ${button('success', 'Pay successfully', '#059669')}
+      ${button('pending', 'Leave pending', '#d97706')}
+      ${button('failed', 'Fail payment', '#dc2626')}
+    </form>
+  </main>
+</body>
+</html>`
+}
@@ -11,6 +11,7 @@
 import { db, siteSettings } from '@/db'
 import { eq } from 'drizzle-orm'
 import { toyyibpayLogger as logger } from '@/lib/logger'
+import { PaymentGatewayError } from '@/lib/payments/types'
 
 // ToyyibPay Configuration
 const TOYYIBPAY_URL = process.env.TOYYIBPAY_URL || 'https://dev.toyyibpay.com'
@@ -34,13 +35,9 @@ export const PAYMENT_CHANNELS = {
 } as const
 
 // Error types for better error handling
-export class ToyyibPayError extends Error {
-  constructor(
-    message: string,
-    public code: string,
-    public details?: unknown
-  ) {
-    super(message)
+export class ToyyibPayError extends PaymentGatewayError {
+  constructor(message: string, code: string, details?: unknown) {
+    super(message, code, details)
     this.name = 'ToyyibPayError'
   }
 }
@@ -124,11 +121,11 @@ export class ToyyibPayService {
 
   /**
    * Detect if we're using sandbox or production environment
-   * Sandbox URL contains 'dev.' prefix
+   * Sandbox URL contains 'dev.' prefix; the local simulator is always sandbox
    */
   static getEnvironment(): ToyyibPayEnvironment {
     const url = TOYYIBPAY_URL.toLowerCase()
-    if (url.includes('dev.toyyibpay') || url.includes('sandbox') || url.includes('localhost')) {
+    if (url.includes('dev.toyyibpay') || url.includes('sandbox') || url.includes('localhost') || url.includes('toyyibpay-simulator')) {
       return 'sandbox'
     }
     return 'production'
@@ -0,0 +1,33 @@
+/**
+ * Tribute Formatting
+ *
+ * Dedication lines for tribute donations. Kept free of database and email
+ * imports so receipts and client components can use it.
+ */
+
+import type { Locale } from '@/i18n/config'
+
+export const TRIBUTE_TYPES = ['in_memory', 'in_honour'] as const
+export type TributeType = typeof TRIBUTE_TYPES[number]
+
+export function isTributeType(value: unknown): value is TributeType {
+  return typeof value === 'string' && (TRIBUTE_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * "In memory of Allahyarham Ahmad" / "Sedekah untuk arwah Ahmad"
+ */
+export function formatTributeLine(type: TributeType, name: string, locale: Locale): string {
+  if (locale === 'ms') {
+    return type === 'in_memory' ? `Sedekah untuk arwah ${name}` : `Sebagai penghargaan kepada ${name}`
+  }
+  return type === 'in_memory' ? `In memory of ${name}` : `In honour of ${name}`
+}
+
+/**
+ * Both languages on one line, as printed on receipts
+ */
+export function formatReceiptTributeLine(type: string | null, name: string | null): string | undefined {
+  if (!isTributeType(type) || !name) return undefined
+  return `${formatTributeLine(type, name, 'en')} / ${formatTributeLine(type, name, 'ms')}`
+}
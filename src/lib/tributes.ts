@@ -0,0 +1,113 @@
+/**
+ * Tribute Donations
+ *
+ * Donors can dedicate a gift in memory of someone who has passed away
+ * (sedekah untuk arwah) or in honour of someone living. The dedication is
+ * printed on the receipt, and if the donor gave a recipient email, a
+ * bilingual e-card is sent once the donation completes. The card never
+ * shows the amount.
+ */
+
+import { db, donations } from '@/db'
+import { and, eq, isNull } from 'drizzle-orm'
+import { sendTributeCardEmail } from '@/lib/email'
+import { createLogger } from '@/lib/logger'
+import { isTributeType, type TributeType } from './tribute-format'
+
+const logger = createLogger('Tribute')
+
+export interface TributeInput {
+  type: TributeType
+  name: string
+  recipientEmail?: string | null
+  message?: string | null
+}
+
+export const MAX_TRIBUTE_MESSAGE_LENGTH = 500
+
+/**
+ * Check a tribute sent with a donation. Returns an error message, or null
+ * if the tribute is valid.
+ */
+export function validateTribute(tribute: unknown): string | null {
+  if (!tribute || typeof tribute !== 'object') return 'Invalid tribute details'
+
+  const { type, name, recipientEmail, message } = tribute as Record<string, unknown>
+
+  if (!isTributeType(type)) return 'Tribute must be in memory or in honour of someone'
+  if (typeof name !== 'string' || !name.trim()) return 'Please enter the name of the person you are dedicating this donation to'
+  if (name.trim().length > 150) return 'Tribute name must be 150 characters or fewer'
+  if (recipientEmail && (typeof recipientEmail !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipientEmail))) {
+    return 'Invalid e-card recipient email'
+  }
+  if (message && (typeof message !== 'string' || message.length > MAX_TRIBUTE_MESSAGE_LENGTH)) {
+    return `Tribute message must be ${MAX_TRIBUTE_MESSAGE_LENGTH} characters or fewer`
+  }
+
+  return null
+}
+
+/**
+ * Donation columns for a validated tribute
+ */
+export function toTributeValues(tribute: TributeInput) {
+  return {
+    tributeType: tribute.type,
+    tributeName: tribute.name.trim(),
+    tributeRecipientEmail: tribute.recipientEmail?.trim().toLowerCase() || null,
+    tributeMessage: tribute.message?.trim() || null,
+  }
+}
+
+/**
+ * Called whenever a donation transitions to completed. Sends the tribute
+ * e-card if the donor asked for one. The card is claimed with a conditional
+ * update first, so completion paths racing each other send it only once.
+ */
+export async function onTributeDonationCompleted(donation: {
+  id: string
+  tributeType: string | null
+  tributeName: string | null
+  tributeRecipientEmail: string | null
+}): Promise<void> {
+  if (!isTributeType(donation.tributeType) || !donation.tributeName || !donation.tributeRecipientEmail) return
+
+  try {
+    const [claimed] = await db
+      .update(donations)
+      .set({ tributeCardSentAt: new Date() })
+      .where(and(
+        eq(donations.id, donation.id),
+        isNull(donations.tributeCardSentAt)
+      ))
+      .returning()
+
+    if (!claimed) return
+
+    const result = await sendTributeCardEmail({
+      tributeType: donation.tributeType,
+      tributeName: donation.tributeName,
+      recipientEmail: donation.tributeRecipientEmail,
+      donorName: claimed.isAnonymous ? null : claimed.donorName,
+      message: claimed.tributeMessage,
+    })
+
+    if (!result.success) {
+      // Leave the card unmarked so it is not reported as sent
+      await db
+        .update(donations)
+        .set({ tributeCardSentAt: null })
+        .where(eq(donations.id, donation.id))
+
+      logger.warn('Tribute e-card not sent', {
+        donationId: donation.id,
+        reason: result.reason || result.error,
+      })
+    }
+  } catch (error) {
+    logger.error('Failed to send tribute e-card', {
+      donationId: donation.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
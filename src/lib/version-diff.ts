@@ -0,0 +1,237 @@
+/**
+ * Version Diff
+ *
+ * Field-by-field comparison of two content snapshots for the version history
+ * page. Each language of a LocalizedString field is compared on its own, by
+ * line and then by word within changed lines, so edits to bilingual markdown
+ * show up as they would in a code review. Also picks out the fields (or one
+ * language of a field) to put back when restoring part of an old version.
+ */
+
+import { locales, type Locale } from '@/i18n/config'
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed'
+  value: string
+}
+
+export interface FieldDiff {
+  field: string
+  locale: Locale | null // null for fields that are not localized
+  old: string
+  new: string
+  parts: DiffPart[]
+}
+
+export interface RestoreSelection {
+  field: string
+  locale: Locale | null // null restores the whole field
+}
+
+// Bookkeeping that is never compared. donationRaised is kept up to date by
+// payments and refunds, not by editors, so an old version's total is stale.
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt', 'revision', 'donationRaised']
+
+// Publishing goes through review and scheduling, so it is never restored piecemeal
+const NON_RESTORABLE_FIELDS = [
+  ...IGNORED_FIELDS,
+  'isPublished',
+  'publishedAt',
+  'scheduledPublishAt',
+  'scheduledUnpublishAt',
+]
+
+// Above this many token pairs a changed block is shown as replaced outright
+const MAX_DIFF_CELLS = 1_000_000
+
+export function isRestorableField(field: string): boolean {
+  return !NON_RESTORABLE_FIELDS.includes(field)
+}
+
+export function isLocalizedValue(value: unknown): value is Partial<Record<Locale, string>> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  const keys = Object.keys(value)
+  return keys.length > 0 && keys.every(key =>
+    (locales as readonly string[]).includes(key) &&
+    typeof (value as Record<string, unknown>)[key] === 'string'
+  )
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], value: string) {
+  if (!value) return
+  const last = parts[parts.length - 1]
+  if (last?.type === type) {
+    last.value += value
+  } else {
+    parts.push({ type, value })
+  }
+}
+
+// Longest-common-subsequence diff of two token lists
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+  const parts: DiffPart[] = []
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  pushPart(parts, 'equal', a.slice(0, start).join(''))
+
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    pushPart(parts, 'removed', midA.join(''))
+    pushPart(parts, 'added', midB.join(''))
+  } else {
+    // lengths[i][j] = LCS length of midA[i:] and midB[j:]
+    const lengths = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1))
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i][j] = midA[i] === midB[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        pushPart(parts, 'equal', midA[i++])
+        j++
+      } else if (i < midA.length && (j === midB.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        // Removals first, so a replaced line reads as old then new
+        pushPart(parts, 'removed', midA[i++])
+      } else {
+        pushPart(parts, 'added', midB[j++])
+      }
+    }
+  }
+
+  pushPart(parts, 'equal', a.slice(endA).join(''))
+  return parts
+}
+
+const splitLines = (text: string) => text.split(/(?<=\n)/)
+const splitWords = (text: string) => text.split(/(\s+)/).filter(Boolean)
+
+/**
+ * Line diff of two texts, refined to words where a block of lines was
+ * replaced by another
+ */
+export function diffText(oldText: string, newText: string): DiffPart[] {
+  const lineParts = diffTokens(splitLines(oldText), splitLines(newText))
+  const parts: DiffPart[] = []
+
+  for (let index = 0; index < lineParts.length; index++) {
+    const part = lineParts[index]
+    const next = lineParts[index + 1]
+    if (part.type === 'removed' && next?.type === 'added') {
+      for (const wordPart of diffTokens(splitWords(part.value), splitWords(next.value))) {
+        pushPart(parts, wordPart.type, wordPart.value)
+      }
+      index++
+    } else {
+      pushPart(parts, part.type, part.value)
+    }
+  }
+
+  return parts
+}
+
+const hasOwn = (data: Record<string, unknown>, field: string) =>
+  Object.prototype.hasOwnProperty.call(data, field)
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'string') return value
+  return JSON.stringify(value, null, 2)
+}
+
+/**
+ * What changed from `oldData` to `newData`, one entry per changed field and,
+ * for localized fields, per changed language
+ */
+export function diffVersionFields(
+  oldData: Record<string, unknown>,
+  newData: Record<string, unknown>
+): FieldDiff[] {
+  const diffs: FieldDiff[] = []
+  const fields = [...new Set([...Object.keys(oldData), ...Object.keys(newData)])]
+    .filter(field => !IGNORED_FIELDS.includes(field))
+
+  for (const field of fields) {
+    const oldValue = oldData[field]
+    const newValue = newData[field]
+
+    if (isLocalizedValue(oldValue) || isLocalizedValue(newValue)) {
+      const oldLocalized = isLocalizedValue(oldValue) ? oldValue : {}
+      const newLocalized = isLocalizedValue(newValue) ? newValue : {}
+      for (const locale of locales) {
+        const oldText = oldLocalized[locale] ?? ''
+        const newText = newLocalized[locale] ?? ''
+        if (oldText !== newText) {
+          diffs.push({ field, locale, old: oldText, new: newText, parts: diffText(oldText, newText) })
+        }
+      }
+      continue
+    }
+
+    // Dates from the live row compare equal to the ISO strings stored in versions
+    if (JSON.stringify(oldValue ?? null) === JSON.stringify(newValue ?? null)) continue
+
+    const oldText = toText(oldValue)
+    const newText = toText(newValue)
+    diffs.push({ field, locale: null, old: oldText, new: newText, parts: diffText(oldText, newText) })
+  }
+
+  return diffs
+}
+
+/**
+ * Updates that put the selected fields (or languages of a field) of
+ * `versionData` back over `current`, leaving everything else alone
+ */
+export function pickRestoreFields(
+  current: Record<string, unknown>,
+  versionData: Record<string, unknown>,
+  selections: RestoreSelection[]
+): { updates: Record<string, unknown>; error?: string } {
+  const updates: Record<string, unknown> = {}
+
+  for (const { field, locale } of selections) {
+    if (!isRestorableField(field)) {
+      return { updates: {}, error: `${field} cannot be restored on its own` }
+    }
+    if (!hasOwn(current, field) && !hasOwn(versionData, field)) {
+      return { updates: {}, error: `Unknown field: ${field}` }
+    }
+
+    const versionValue = versionData[field]
+
+    if (locale) {
+      const currentValue = updates[field] ?? current[field]
+      if (!(locales as readonly string[]).includes(locale) ||
+          !(isLocalizedValue(versionValue) || isLocalizedValue(currentValue))) {
+        return { updates: {}, error: `${field} is not translated` }
+      }
+      updates[field] = {
+        ...(isLocalizedValue(currentValue) ? currentValue : {}),
+        [locale]: isLocalizedValue(versionValue) ? versionValue[locale] ?? '' : '',
+      }
+      continue
+    }
+
+    // Versions hold dates as ISO strings
+    updates[field] = current[field] instanceof Date && typeof versionValue === 'string'
+      ? new Date(versionValue)
+      : versionValue ?? null
+  }
+
+  return { updates }
+}
@@ -1,10 +1,12 @@
 import { db, contentVersions, activityLog } from '@/db'
-import { eq, and, desc, sql } from 'drizzle-orm'
+import { eq, and, desc, lt, sql } from 'drizzle-orm'
 
 // Supported content types for versioning
 export type ContentType =
   | 'blog_posts'
   | 'projects'
+  | 'campaigns'
+  | 'funds'
   | 'team_members'
   | 'hero_content'
   | 'about_content'
@@ -90,8 +92,8 @@ function detectChangedFields(
   const allKeys = new Set([...Object.keys(oldData), ...Object.keys(newData)])
 
   for (const key of allKeys) {
-    // Skip internal fields
-    if (['createdAt', 'updatedAt', 'id'].includes(key)) continue
+    // Skip internal fields and totals kept up to date by payments
+    if (['createdAt', 'updatedAt', 'id', 'revision', 'donationRaised'].includes(key)) continue
 
     const oldValue = JSON.stringify(oldData[key])
     const newValue = JSON.stringify(newData[key])
@@ -246,6 +248,26 @@ export async function getLatestVersion(
   return version as ContentVersion | null
 }
 
+/**
+ * Get the version saved just before this one
+ */
+export async function getPreviousVersion(version: ContentVersion): Promise<ContentVersion | null> {
+  const [previous] = await db
+    .select()
+    .from(contentVersions)
+    .where(
+      and(
+        eq(contentVersions.contentType, version.contentType),
+        eq(contentVersions.contentId, version.contentId),
+        lt(contentVersions.versionNumber, version.versionNumber)
+      )
+    )
+    .orderBy(desc(contentVersions.versionNumber))
+    .limit(1)
+
+  return (previous as ContentVersion) || null
+}
+
 /**
  * Compare two versions and return the differences
  */
@@ -268,8 +290,8 @@ export function compareVersions(
   const changes: Record<string, { old: unknown; new: unknown }> = {}
 
   for (const key of allKeys) {
-    // Skip internal fields
-    if (['createdAt', 'updatedAt', 'id'].includes(key)) continue
+    // Skip internal fields and totals kept up to date by payments
+    if (['createdAt', 'updatedAt', 'id', 'revision', 'donationRaised'].includes(key)) continue
 
     const valueA = dataA[key]
     const valueB = dataB[key]
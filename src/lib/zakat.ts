@@ -0,0 +1,62 @@
+/**
+ * Zakat Calculator
+ *
+ * Zakat on wealth (zakat harta) is 2.5% of zakatable wealth held for a
+ * lunar year, payable once it reaches the nisab (the value of 85g of gold).
+ * State zakat authorities announce the nisab each year, so admins keep the
+ * current figure in the `zakatNisab` site setting. Kept free of server
+ * imports so the donate page can use it.
+ */
+
+export const ZAKAT_RATE = 0.025
+
+// RM. Used until an admin enters this year's figure.
+export const DEFAULT_ZAKAT_NISAB = 30000
+
+// All amounts in RM
+export interface ZakatAssets {
+  savings: number // Cash in hand and in bank accounts
+  gold: number // Gold and silver beyond what is worn
+  investments: number // Shares, unit trusts, ASB
+  business: number // Business stock and money owed to you
+  debts: number // Debts due now, deducted from the total
+}
+
+export interface ZakatResult {
+  netWealth: number
+  nisab: number
+  eligible: boolean
+  zakat: number
+}
+
+/**
+ * Zakat owed on the given assets. Nothing is owed below the nisab.
+ */
+export function calculateZakat(assets: ZakatAssets, nisab: number): ZakatResult {
+  const positive = (value: number) => (Number.isFinite(value) && value > 0 ? value : 0)
+
+  const netWealth = Math.max(
+    0,
+    positive(assets.savings) +
+      positive(assets.gold) +
+      positive(assets.investments) +
+      positive(assets.business) -
+      positive(assets.debts)
+  )
+  const eligible = netWealth >= nisab
+
+  return {
+    netWealth,
+    nisab,
+    eligible,
+    zakat: eligible ? Math.round(netWealth * ZAKAT_RATE * 100) / 100 : 0,
+  }
+}
+
+/**
+ * Nisab from the `zakatNisab` site setting, falling back to the default
+ */
+export function parseZakatNisab(setting: unknown): number {
+  const amount = (setting as { amount?: unknown } | null | undefined)?.amount
+  return typeof amount === 'number' && amount > 0 ? amount : DEFAULT_ZAKAT_NISAB
+}
@@ -4,6 +4,7 @@ import { auth } from '@/lib/auth'
 import createIntlMiddleware from 'next-intl/middleware'
 import { routing } from '@/i18n/navigation'
 import { enforceTrustedOrigin } from '@/lib/security/request'
+import { embedFrameAncestors } from '@/lib/embed'
 
 // Security headers for all responses
 const isDev = process.env.NODE_ENV !== 'production'
@@ -43,6 +44,25 @@ function addSecurityHeaders(response: NextResponse) {
   return response
 }
 
+// Donation widget pages may be framed by the allowlisted partner sites
+const EMBED_PAGE_PATTERN = /^\/(?:(?:en|ms)\/)?embed(?:\/|$)/
+const EMBED_SCRIPT_PATH = '/embed.js'
+
+function addEmbedSecurityHeaders(response: NextResponse, pathname: string) {
+  addSecurityHeaders(response)
+  if (pathname === EMBED_SCRIPT_PATH) {
+    // Loaded with a <script> tag from partner pages
+    response.headers.set('Cross-Origin-Resource-Policy', 'cross-origin')
+  } else {
+    response.headers.delete('X-Frame-Options')
+    response.headers.set(
+      'Content-Security-Policy',
+      contentSecurityPolicy.replace("frame-ancestors 'none'", `frame-ancestors ${embedFrameAncestors()}`)
+    )
+  }
+  return response
+}
+
 // Wrap the auth middleware with NextAuth
 export default auth((req) => {
   const { pathname } = req.nextUrl
@@ -53,7 +73,8 @@ export default auth((req) => {
   if (pathname.startsWith('/api') && isMutationMethod) {
     const shouldSkipOriginCheck =
       pathname.startsWith('/api/auth') ||
-      pathname.startsWith('/api/donations/webhook')
+      pathname.startsWith('/api/donations/webhook') ||
+      pathname.startsWith('/api/toyyibpay-simulator') // Server-to-server, disabled in production
 
     if (!shouldSkipOriginCheck) {
       const originCheck = enforceTrustedOrigin(req as NextRequest)
@@ -151,6 +172,10 @@ export default auth((req) => {
     return addSecurityHeaders(NextResponse.next())
   }
 
+  if (pathname === EMBED_SCRIPT_PATH) {
+    return addEmbedSecurityHeaders(NextResponse.next(), pathname)
+  }
+
   // Check if the path should skip i18n
   const shouldSkipI18n =
     pathname.startsWith('/admin') ||
@@ -166,6 +191,9 @@ export default auth((req) => {
 
   // Apply i18n middleware for public routes
   const response = intlMiddleware(req as unknown as NextRequest)
+  if (EMBED_PAGE_PATTERN.test(pathname)) {
+    return addEmbedSecurityHeaders(response, pathname)
+  }
   return addSecurityHeaders(response)
 })
 